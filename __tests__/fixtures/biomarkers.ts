@@ -0,0 +1,20 @@
+/**
+ * Test fixtures for blood test biomarkers
+ */
+
+import type { Biomarker } from '@/lib/services/blood-analyzer/types';
+
+/** A normal glucose result with no lab reference range; override what a test needs */
+export function biomarker(overrides: Partial<Biomarker>): Biomarker {
+  return {
+    name: 'Glucose',
+    value: '85',
+    unit: 'mg/dL',
+    referenceRange: 'Not specified',
+    status: 'normal',
+    category: 'metabolic',
+    significance: '',
+    implications: '',
+    ...overrides,
+  };
+}
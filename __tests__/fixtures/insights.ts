@@ -2,6 +2,15 @@
  * Test fixtures for insights
  */
 
+import type {
+  OuraData,
+  DexcomData,
+  WhoopData,
+  GmailPatterns,
+  SlackPatterns,
+} from '@/lib/services/ecosystem-fetcher';
+import type { HarnessUser } from '@/lib/services/insight-harness';
+
 export const mockInsight = {
   id: '123e4567-e89b-12d3-a456-426614174000',
   email: 'test@example.com',
@@ -54,3 +63,113 @@ export const mockPaginatedResponse = {
   },
   syncTimestamp: '2024-01-15T10:00:00Z',
 };
+
+// ============================================================================
+// INSIGHT HARNESS FIXTURE USERS
+// ============================================================================
+
+export interface InsightFixtureUser extends HarnessUser {
+  tier: 'free' | 'pro' | 'max';
+  providers: {
+    oura?: OuraData;
+    dexcom?: DexcomData;
+    whoop?: WhoopData;
+    gmail?: GmailPatterns;
+    slack?: SlackPatterns;
+  };
+  /** Rows for user_health_baselines, keyed by metric_type */
+  baselines: Record<string, { baseline_value: number; sample_count: number }>;
+}
+
+const fixtureOura: OuraData = {
+  avgSleepHours: 5.9,
+  avgReadinessScore: 58,
+  avgHRV: 34,
+  sleepQuality: 'poor',
+  hrvTrend: 'declining',
+  activityLevel: 'low',
+  insights: [],
+  rawData: null,
+};
+
+const fixtureDexcom: DexcomData = {
+  avgGlucose: 152,
+  avgFastingGlucose: 108,
+  glucoseVariability: 28,
+  timeInRange: 62,
+  spikeTimes: ['13:30', '20:15'],
+  spikeEvents: [
+    { time: '13:30', value: 198, trigger: 'lunch' },
+    { time: '20:15', value: 184 },
+  ],
+  trends: [],
+  insights: [],
+  rawData: null,
+};
+
+const fixtureWhoop: WhoopData = {
+  avgRecoveryScore: 29,
+  avgStrainScore: 18.6,
+  avgHRV: 41,
+  avgRestingHR: 62,
+  recoveryTrend: 'declining',
+  strainTrend: 'high',
+  sleepPerformance: 71,
+  cyclesAnalyzed: 7,
+  insights: [],
+  rawData: null,
+};
+
+const fixtureGmail: GmailPatterns = {
+  meetingDensity: { peakHours: ['10:00', '14:00'], avgMeetingsPerDay: 7, backToBackPercentage: 65 },
+  emailVolume: { avgPerDay: 140, peakHours: ['09:00', '22:00'], afterHoursPercentage: 38 },
+  workHours: { start: '07:30', end: '21:00', weekendActivity: true },
+  optimalMealWindows: ['12:30'],
+  stressIndicators: { highEmailVolume: true, frequentAfterHoursWork: true, shortMeetingBreaks: true },
+  insights: [],
+};
+
+export const insightFixtureUsers: InsightFixtureUser[] = [
+  {
+    email: 'poor-sleeper@example.com',
+    tier: 'free',
+    providers: { oura: fixtureOura },
+    baselines: {
+      sleep_score: { baseline_value: 80, sample_count: 14 },
+      hrv_ms: { baseline_value: 52, sample_count: 14 },
+    },
+    aiInsights: [
+      {
+        insight_type: 'sleep_alert',
+        title: 'Short Sleep Is Dragging Down Readiness',
+        message: 'You averaged 5.9 hours of sleep this week.',
+        severity: 'medium',
+        recommendation: 'Aim for lights out by 22:30 for the next three nights.',
+      },
+    ],
+  },
+  {
+    email: 'glucose-spikes@example.com',
+    tier: 'pro',
+    providers: { dexcom: fixtureDexcom },
+    baselines: {
+      avg_glucose: { baseline_value: 118, sample_count: 14 },
+      time_in_range_pct: { baseline_value: 82, sample_count: 14 },
+    },
+  },
+  {
+    email: 'overreaching@example.com',
+    tier: 'max',
+    providers: { whoop: fixtureWhoop, gmail: fixtureGmail },
+    baselines: {
+      recovery_score: { baseline_value: 64, sample_count: 14 },
+      strain_score: { baseline_value: 12, sample_count: 14 },
+    },
+  },
+  {
+    email: 'new-user@example.com',
+    tier: 'free',
+    providers: {},
+    baselines: {},
+  },
+];
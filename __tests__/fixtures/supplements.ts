@@ -0,0 +1,37 @@
+/**
+ * Test fixtures for supplement catalog products
+ */
+
+import type { ProductMatch } from '@/lib/services/supplement-matching';
+
+/** An in-stock catalog capsule; override what a test needs */
+export function product(overrides: Partial<ProductMatch>): ProductMatch {
+  return {
+    productId: 'p1',
+    sku: 'SKU-1',
+    name: 'Product',
+    brand: 'Brand',
+    dosageForm: 'Capsule',
+    strength: '',
+    quantity: 60,
+    unit: 'capsules',
+    wholesaleCost: 10,
+    retailPrice: 30,
+    margin: 20,
+    marginPercent: 200,
+    perDayPrice: 0.5,
+    stockLevel: 100,
+    inStock: true,
+    lowStockAlert: false,
+    description: '',
+    benefits: [],
+    directions: '',
+    warnings: '',
+    imageUrl: '',
+    thirdPartyTested: true,
+    certifications: [],
+    matchScore: 1,
+    matchReason: 'Catalog search',
+    ...overrides,
+  };
+}
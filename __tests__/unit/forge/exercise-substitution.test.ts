@@ -0,0 +1,224 @@
+/**
+ * Tests for Forge exercise substitution
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  fitDayToTime,
+  movementPattern,
+  rankSubstitutes,
+  rewriteDay,
+  substitutionReason,
+} from '@/lib/forge/exercise-substitution';
+import { buildWeeklyTargets } from '@/lib/forge/progression-engine';
+import type { DayPlan, ForgeExercise, ProgrammedExercise, ProgressionGuidelines } from '@/lib/forge/types';
+
+function exercise(
+  id: string,
+  name: string,
+  muscleGroups: string[],
+  equipment: string[],
+  overrides: Partial<ForgeExercise> = {}
+): ForgeExercise {
+  return {
+    id,
+    name,
+    description: null,
+    exercise_type: 'weightTraining',
+    muscle_groups: muscleGroups,
+    equipment_required: equipment,
+    difficulty_level: 'beginner',
+    alternatives: [],
+    instructions: [],
+    tips: [],
+    common_mistakes: [],
+    video_url: null,
+    image_url: null,
+    thumbnail_url: null,
+    is_compound: true,
+    is_unilateral: false,
+    calories_per_minute: null,
+    is_active: true,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const catalog = [
+  exercise('bench', 'Barbell Bench Press', ['chest', 'triceps', 'shoulders'], ['barbell', 'bench'], { difficulty_level: 'intermediate' }),
+  exercise('db-bench', 'Dumbbell Bench Press', ['chest', 'triceps', 'shoulders'], ['dumbbells', 'bench'], { difficulty_level: 'intermediate' }),
+  exercise('push-up', 'Push-Up', ['chest', 'triceps'], ['bodyweight']),
+  exercise('cable-fly', 'Cable Fly', ['chest'], ['cable_machine'], { is_compound: false }),
+  exercise('db-fly', 'Dumbbell Fly', ['chest'], ['dumbbells', 'bench'], { is_compound: false }),
+  exercise('ohp', 'Overhead Press', ['shoulders', 'triceps'], ['barbell']),
+  exercise('squat', 'Back Squat', ['quadriceps', 'glutes'], ['barbell', 'squat_rack']),
+  exercise('goblet', 'Goblet Squat', ['quadriceps', 'glutes'], ['dumbbells']),
+  exercise('split-squat', 'Bulgarian Split Squat', ['quadriceps', 'glutes'], ['dumbbells'], { is_unilateral: true }),
+  exercise('run', 'Treadmill Run', ['legs'], ['treadmill'], { exercise_type: 'cardio' }),
+  exercise('curl', 'Dumbbell Curl', ['biceps'], ['dumbbells'], { is_compound: false }),
+  exercise('pushdown', 'Cable Triceps Pushdown', ['triceps'], ['cable_machine'], { is_compound: false }),
+];
+
+function programmed(id: string, overrides: Partial<ProgrammedExercise> = {}): ProgrammedExercise {
+  const source = catalog.find((ex) => ex.id === id)!;
+  return {
+    exerciseId: source.id,
+    exerciseName: source.name,
+    sets: 4,
+    reps: '6-10',
+    restSeconds: 120,
+    intensity: 'Moderate to Heavy - 2-3 reps in reserve',
+    tips: [],
+    commonMistakes: [],
+    isCompound: source.is_compound,
+    muscleGroups: source.muscle_groups,
+    ...overrides,
+  };
+}
+
+function day(exercises: ProgrammedExercise[]): DayPlan {
+  return {
+    dayOfWeek: 'monday',
+    focus: 'Upper',
+    isRestDay: false,
+    estimatedDuration: 60,
+    warmup: { description: '', durationMinutes: 10, exercises: [] },
+    mainWorkout: { exercises },
+    cooldown: { description: '', durationMinutes: 5, exercises: [] },
+  };
+}
+
+const hotelGym = { equipment: ['dumbbells', 'bench'] };
+
+describe('movementPattern', () => {
+  it('reads the pattern from the name, then the primary muscle', () => {
+    expect(movementPattern('Bulgarian Split Squat', ['quadriceps'])).toBe('lunge');
+    expect(movementPattern('Back Squat', ['quadriceps'])).toBe('squat');
+    expect(movementPattern('Narrow Grip Bench Press', ['chest'])).toBe('horizontal_push');
+    expect(movementPattern('Hanging Leg Raise', ['abs'])).toBe('core');
+    expect(movementPattern('Lateral Raise', ['shoulders'])).toBe('shoulder_raise');
+    expect(movementPattern('Incline Dumbbell Press', ['pectorals'])).toBe('horizontal_push');
+    expect(movementPattern('Mystery Move', [])).toBe('other');
+  });
+});
+
+describe('rankSubstitutes', () => {
+  it('ranks by muscles, movement pattern and compound status within the equipment', () => {
+    const options = rankSubstitutes(programmed('bench'), catalog, hotelGym);
+
+    expect(options.map((o) => [o.exercise.name, o.score])).toEqual([
+      ['Dumbbell Bench Press', 100],
+      ['Push-Up', 90],
+      ['Dumbbell Fly', 65],
+    ]);
+    expect(options[0].reasons).toContain('Same movement pattern (horizontal push)');
+  });
+
+  it('adjusts sets and reps for the replacement', () => {
+    const [dumbbell, pushUp, fly] = rankSubstitutes(programmed('bench'), catalog, hotelGym);
+
+    expect(dumbbell.prescription).toMatchObject({ exerciseId: 'db-bench', sets: 4, reps: '6-10', restSeconds: 120 });
+    expect(pushUp.prescription).toMatchObject({ sets: 4, reps: '9-15', weight: 'Bodyweight' });
+    expect(fly.prescription).toMatchObject({ sets: 3, reps: '10-14', restSeconds: 90, isCompound: false });
+
+    const [, split] = rankSubstitutes(programmed('squat'), catalog, hotelGym);
+    expect(split.prescription.reps).toBe('6-10 per side');
+  });
+
+  it('avoids injured areas and exercises above the athlete level', () => {
+    const options = rankSubstitutes(programmed('bench'), catalog, { injuries: ['shoulder'] });
+    expect(options.map((o) => o.exercise.id)).toEqual(['push-up', 'cable-fly', 'db-fly']);
+
+    const beginner = rankSubstitutes(programmed('bench'), catalog, { ...hotelGym, experienceLevel: 'beginner' });
+    expect(beginner.map((o) => o.exercise.id)).toEqual(['push-up', 'db-fly']);
+  });
+
+  it('rebuilds weekly targets without loads', () => {
+    const guidelines = {
+      strategy: 'linear',
+      weeklyIncrements: { upperBody: '1-2.5 kg per week', lowerBody: '2.5-5 kg per week' },
+      repProgression: '',
+      deloadFrequency: '',
+      plateauStrategy: '',
+    } as ProgressionGuidelines;
+    const original = programmed('bench');
+    original.weeklyTargets = buildWeeklyTargets(original, guidelines, { weeks: 4, oneRepMaxKg: 100 });
+
+    const [best] = rankSubstitutes(original, catalog, hotelGym, { guidelines });
+    expect(best.prescription.weeklyTargets).toHaveLength(4);
+    expect(best.prescription.weeklyTargets?.every((t) => t.loadKg === null)).toBe(true);
+  });
+});
+
+describe('fitDayToTime', () => {
+  const session = day([
+    programmed('squat'),
+    programmed('bench'),
+    programmed('curl', { sets: 3, reps: '10-12', restSeconds: 90 }),
+    programmed('pushdown', { sets: 3, reps: '10-12', restSeconds: 90 }),
+  ]);
+
+  it('caps rest, then trims sets from the end', () => {
+    const { day: fitted, changes } = fitDayToTime(session, 45);
+
+    expect(fitted.mainWorkout?.exercises.map((e) => [e.exerciseId, e.sets, e.restSeconds])).toEqual([
+      ['squat', 3, 90],
+      ['bench', 3, 90],
+      ['curl', 2, 60],
+      ['pushdown', 2, 60],
+    ]);
+    expect(fitted.estimatedDuration).toBe(43);
+    expect(changes).toContain('Back Squat: 4 → 3 sets, rest 120s → 90s');
+  });
+
+  it('drops isolation work, then the last exercises', () => {
+    const { day: fitted, changes } = fitDayToTime(session, 30);
+
+    expect(fitted.mainWorkout?.exercises.map((e) => e.exerciseId)).toEqual(['squat']);
+    expect(fitted.estimatedDuration).toBe(24);
+    expect(changes).toContain('Dropped Dumbbell Curl');
+  });
+
+  it('leaves days that already fit', () => {
+    expect(fitDayToTime(session, 90)).toEqual({ day: session, changes: [] });
+  });
+});
+
+describe('rewriteDay', () => {
+  const session = day([programmed('bench'), programmed('squat'), programmed('curl', { sets: 3, reps: '10-12' })]);
+
+  it('swaps every exercise the constraints rule out', () => {
+    const rewrite = rewriteDay(session, catalog, hotelGym);
+
+    expect(rewrite.day.mainWorkout?.exercises.map((e) => e.exerciseId)).toEqual(['db-bench', 'goblet', 'curl']);
+    expect(rewrite.swaps.map((s) => [s.fromId, s.toId])).toEqual([
+      ['bench', 'db-bench'],
+      ['squat', 'goblet'],
+    ]);
+    expect(rewrite.swaps[0].reasons[0]).toBe("Barbell Bench Press needs equipment that isn't available");
+  });
+
+  it('swaps a single exercise for the chosen replacement', () => {
+    const pushUp = catalog.find((ex) => ex.id === 'push-up')!;
+    const rewrite = rewriteDay(session, catalog, {}, { exerciseId: 'bench', replacement: pushUp });
+
+    expect(rewrite.day.mainWorkout?.exercises.map((e) => e.exerciseId)).toEqual(['push-up', 'squat', 'curl']);
+    expect(rewrite.swaps).toHaveLength(1);
+  });
+
+  it('keeps an exercise with no substitute unless it breaks the constraints', () => {
+    const kept = rewriteDay(session, catalog, {}, { exerciseId: 'curl' });
+    expect(kept.day.mainWorkout?.exercises).toHaveLength(3);
+    expect(kept.swaps[0]).toMatchObject({ toId: null, reasons: ['No substitute fits the constraints'] });
+
+    const injured = rewriteDay(session, catalog, { injuries: ['elbow'] }, { exerciseId: 'curl' });
+    expect(injured.day.mainWorkout?.exercises.map((e) => e.exerciseId)).toEqual(['bench', 'squat']);
+  });
+
+  it('explains why an exercise has to go', () => {
+    expect(substitutionReason(programmed('bench'), catalog[0], { injuries: ['shoulder'] }))
+      .toBe('Barbell Bench Press loads an injured area');
+    expect(substitutionReason(programmed('curl'), catalog[10], hotelGym)).toBeNull();
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Tests for Forge macrocycle periodization
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MacrocycleError,
+  adjustForMissedSessions,
+  allocatePhaseWeeks,
+  buildBlockTargets,
+  buildMacrocycle,
+  progressionForWeek,
+  scaleTargetVolume,
+} from '@/lib/forge/macrocycle';
+import { findPlannedDay } from '@/lib/forge/session-metrics';
+import type { DayPlan, EventTarget, ProgrammedExercise, WorkoutPlanData } from '@/lib/forge/types';
+
+const START = '2026-06-01';
+const marathon: EventTarget = { type: 'marathon', name: 'Berlin Marathon', date: '2026-09-20' };
+const options = { startDate: START, trainingDays: 4, experience: 'intermediate' as const };
+
+const bench: ProgrammedExercise = {
+  exerciseId: 'bench',
+  exerciseName: 'Barbell Bench Press',
+  sets: 4,
+  reps: '6-10',
+  restSeconds: 120,
+  intensity: 'Moderate to Heavy - 2-3 reps in reserve',
+  tips: [],
+  commonMistakes: [],
+  isCompound: true,
+  muscleGroups: ['chest', 'triceps'],
+};
+
+function macrocycleError(run: () => unknown): MacrocycleError | null {
+  try {
+    run();
+    return null;
+  } catch (error) {
+    return error instanceof MacrocycleError ? error : null;
+  }
+}
+
+describe('buildMacrocycle', () => {
+  const macrocycle = buildMacrocycle(marathon, options);
+
+  it('splits the weeks up to the event into base, build, peak and taper', () => {
+    expect(macrocycle.totalWeeks).toBe(16);
+    expect(macrocycle.blocks.map((b) => [b.phase, b.startWeek, b.weeks])).toEqual([
+      ['base', 1, 5],
+      ['build', 6, 5],
+      ['peak', 11, 3],
+      ['taper', 14, 3],
+    ]);
+    expect(macrocycle.blocks[0]).toMatchObject({ startDate: '2026-06-01', endDate: '2026-07-05' });
+    expect(macrocycle.blocks[3]).toMatchObject({ startDate: '2026-08-31', endDate: '2026-09-20' });
+  });
+
+  it('gives each block its own split, goal, days and progression', () => {
+    expect(macrocycle.blocks.map((b) => [b.splitType, b.goal, b.trainingDays, b.progression.strategy])).toEqual([
+      ['upper_lower', 'improveEndurance', 4, 'linear'],
+      ['full_body', 'improveEndurance', 4, 'undulating'],
+      ['full_body', 'getStronger', 3, 'block'],
+      ['full_body', 'generalFitness', 3, 'linear'],
+    ]);
+
+    const beginner = buildMacrocycle(marathon, { ...options, experience: 'beginner' });
+    expect(beginner.blocks[2].progression.strategy).toBe('linear');
+  });
+
+  it('follows each phase volume curve with deloads in base and build', () => {
+    const volume = (week: number) => macrocycle.timeline[week - 1].plannedVolume;
+
+    expect([volume(1), volume(5), volume(6), volume(10), volume(11), volume(13)]).toEqual([0.8, 1, 0.9, 0.8, 0.7, 0.6]);
+    expect([volume(14), volume(15), volume(16)]).toEqual([0.5, 0.4, 0.3]);
+    expect(macrocycle.timeline.filter((w) => w.deload).map((w) => [w.weekNumber, w.plannedVolume])).toEqual([
+      [4, 0.6],
+      [9, 0.6],
+    ]);
+    expect(macrocycle.timeline[5]).toMatchObject({ startDate: '2026-07-06', plannedSessions: 4, completedSessions: null });
+  });
+
+  it('shortens the taper and blocks for events a few weeks out', () => {
+    expect(allocatePhaseWeeks(12, 'powerlifting_meet')).toEqual({ base: 5, build: 4, peak: 2, taper: 1 });
+    expect(allocatePhaseWeeks(4, 'marathon')).toEqual({ base: 1, build: 1, peak: 1, taper: 1 });
+  });
+
+  it('rejects events too close, too far or without a date', () => {
+    expect(macrocycleError(() => buildMacrocycle({ ...marathon, date: '2026-06-20' }, options))?.reason).toBe('event_too_soon');
+    expect(macrocycleError(() => buildMacrocycle({ ...marathon, date: '2027-09-01' }, options))?.reason).toBe('event_too_far');
+
+    const invalid = macrocycleError(() => buildMacrocycle({ ...marathon, date: 'next june' }, options));
+    expect(invalid?.reason).toBe('invalid_date');
+    expect(invalid?.status).toBe(400);
+  });
+});
+
+describe('buildBlockTargets', () => {
+  const macrocycle = buildMacrocycle(marathon, options);
+  const [base, build, , taper] = macrocycle.blocks;
+
+  it('numbers targets in macrocycle weeks and scales sets to the planned volume', () => {
+    const targets = buildBlockTargets(bench, base, macrocycle.timeline, 100);
+
+    expect(targets.map((t) => [t.weekNumber, t.phase, t.sets])).toEqual([
+      [1, 'linear', 3],
+      [2, 'linear', 3],
+      [3, 'linear', 4],
+      [4, 'deload', 2],
+      [5, 'linear', 4],
+    ]);
+
+    const waves = buildBlockTargets(bench, build, macrocycle.timeline, 100);
+    expect(waves.map((t) => [t.weekNumber, t.phase])).toEqual([
+      [6, 'moderate'],
+      [7, 'heavy'],
+      [8, 'light'],
+      [9, 'deload'],
+      [10, 'moderate'],
+    ]);
+  });
+
+  it('holds the taper loads while sets fall', () => {
+    const targets = buildBlockTargets(bench, taper, macrocycle.timeline, 100);
+
+    expect(targets.map((t) => [t.weekNumber, t.sets])).toEqual([
+      [14, 2],
+      [15, 2],
+      [16, 1],
+    ]);
+    expect(new Set(targets.map((t) => t.loadKg)).size).toBe(1);
+    expect(targets[0].loadKg).not.toBeNull();
+  });
+});
+
+describe('adjustForMissedSessions', () => {
+  const macrocycle = buildMacrocycle(marathon, options);
+  const multiplier = (m: typeof macrocycle, week: number) => m.timeline[week - 1].volumeMultiplier;
+
+  it('lowers volume after a missed week and ramps it back up', () => {
+    const adjusted = adjustForMissedSessions(macrocycle, { 1: 4, 2: 0 }, 3);
+
+    expect([3, 4, 5, 6].map((week) => multiplier(adjusted, week))).toEqual([0.6, 0.6, 0.8, 0.9]);
+    expect(adjusted.adjustments).toEqual([
+      { weekNumber: 3, plannedVolume: 0.9, volumeMultiplier: 0.6, reason: 'Missed 4 of 4 sessions in week 2' },
+      { weekNumber: 5, plannedVolume: 1, volumeMultiplier: 0.8, reason: 'Missed 4 of 4 sessions in week 2' },
+    ]);
+    expect(adjusted.timeline.map((w) => w.completedSessions).slice(0, 4)).toEqual([4, 0, 0, null]);
+  });
+
+  it('restarts from the volume done in a partly missed week', () => {
+    const adjusted = adjustForMissedSessions(macrocycle, { 1: 4, 2: 2 }, 3);
+    expect(multiplier(adjusted, 3)).toBe(0.6);
+
+    const mostlyDone = adjustForMissedSessions(macrocycle, { 1: 4, 2: 3 }, 3);
+    expect(mostlyDone.adjustments).toEqual([]);
+  });
+
+  it('ignores missed deload weeks and sessions logged late', () => {
+    expect(adjustForMissedSessions(macrocycle, { 1: 4, 2: 4, 3: 4, 4: 0 }, 5).adjustments).toEqual([]);
+
+    const lowered = adjustForMissedSessions(macrocycle, { 1: 4, 2: 0 }, 3);
+    const caughtUp = adjustForMissedSessions(lowered, { 1: 4, 2: 4 }, 3);
+    expect(caughtUp.adjustments).toEqual([]);
+    expect(caughtUp.timeline.map((w) => w.volumeMultiplier)).toEqual(macrocycle.timeline.map((w) => w.plannedVolume));
+  });
+});
+
+describe('macrocycle plans', () => {
+  const macrocycle = buildMacrocycle(marathon, options);
+
+  function day(focus: string): DayPlan {
+    return { dayOfWeek: 'monday', focus, isRestDay: false, estimatedDuration: 45 };
+  }
+
+  const plan = {
+    weeks: macrocycle.blocks.map((b) => ({ weekNumber: b.startWeek, days: [day(b.phase)] })),
+    progression: macrocycle.blocks[0].progression,
+    macrocycle,
+  } as WorkoutPlanData;
+
+  it('resolves each week to its block template, and none past the event', () => {
+    expect(findPlannedDay(plan, 1, 'monday')?.focus).toBe('base');
+    expect(findPlannedDay(plan, 7, 'monday')?.focus).toBe('build');
+    expect(findPlannedDay(plan, 16, 'monday')?.focus).toBe('taper');
+    expect(findPlannedDay(plan, 17, 'monday')).toBeNull();
+  });
+
+  it("uses the block's progression", () => {
+    expect(progressionForWeek(plan, 12).strategy).toBe('block');
+  });
+
+  it('scales week targets, leaving deloads alone', () => {
+    const target = { weekNumber: 3, phase: 'linear' as const, sets: 4, reps: '6-10', loadKg: 80, targetRpe: 8 };
+
+    expect(scaleTargetVolume(target, 0.6).sets).toBe(2);
+    expect(scaleTargetVolume(target, 0.1).sets).toBe(1);
+    expect(scaleTargetVolume(target, 1)).toBe(target);
+    expect(scaleTargetVolume({ ...target, phase: 'deload', sets: 2 }, 0.5).sets).toBe(2);
+  });
+});
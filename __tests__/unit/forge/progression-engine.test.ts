@@ -0,0 +1,304 @@
+/**
+ * Tests for the Forge progression engine
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildWeeklyTargets,
+  detectFatigue,
+  loadForReps,
+  parseIncrementKg,
+  prescribeNextSession,
+  readinessLevel,
+  targetForWeek,
+  targetRpeFromIntensity,
+  withWeeklyTargets,
+} from '@/lib/forge/progression-engine';
+import { getDefaultTrainingModifications } from '@/lib/forge/types';
+import type {
+  ExerciseHistory,
+  LoggedExercise,
+  ProgrammedExercise,
+  ProgressionGuidelines,
+  WeekTarget,
+  WorkoutPlanData,
+} from '@/lib/forge/types';
+
+function programmed(overrides: Partial<ProgrammedExercise> = {}): ProgrammedExercise {
+  return {
+    exerciseId: 'bench',
+    exerciseName: 'Bench Press',
+    sets: 4,
+    reps: '6-10',
+    restSeconds: 120,
+    intensity: 'Moderate to Heavy - 2-3 reps in reserve',
+    tips: [],
+    commonMistakes: [],
+    isCompound: true,
+    muscleGroups: ['chest', 'triceps'],
+    ...overrides,
+  };
+}
+
+function guidelines(strategy: ProgressionGuidelines['strategy'], overrides: Partial<ProgressionGuidelines> = {}) {
+  return {
+    strategy,
+    weeklyIncrements: { upperBody: '1-2.5 kg per week', lowerBody: '2.5-5 kg per week' },
+    repProgression: '',
+    deloadFrequency: '',
+    plateauStrategy: '',
+    ...overrides,
+  } as ProgressionGuidelines;
+}
+
+const bench = programmed();
+const squat = programmed({
+  exerciseId: 'squat',
+  exerciseName: 'Back Squat',
+  sets: 5,
+  reps: '3-6',
+  intensity: 'Heavy - 1-2 reps in reserve',
+  muscleGroups: ['quadriceps', 'glutes'],
+});
+
+const summary = (targets: WeekTarget[]) =>
+  targets.map((t) => [t.phase, t.sets, t.reps, t.loadKg, t.targetRpe]);
+
+describe('helpers', () => {
+  it('reads increments and target RPE from the plan text', () => {
+    expect(parseIncrementKg('1-2.5 kg per week', 5)).toBe(1);
+    expect(parseIncrementKg('N/A', 2.5)).toBe(2.5);
+    expect(targetRpeFromIntensity('Moderate to Heavy - 2-3 reps in reserve')).toBe(7.5);
+    expect(targetRpeFromIntensity('Light to moderate - 4+ reps in reserve')).toBe(6);
+    expect(targetRpeFromIntensity('Moderate - challenging but sustainable')).toBe(8);
+  });
+
+  it('works out loads from an estimated 1RM', () => {
+    expect(loadForReps(100, 10, 7.5)).toBe(70.5);
+    expect(loadForReps(100, 6, 8.5)).toBe(80);
+    expect(loadForReps(100, 1, 10)).toBe(100);
+  });
+});
+
+describe('linear strategy', () => {
+  it('adds the weekly increment and deloads on schedule', () => {
+    const targets = buildWeeklyTargets(bench, guidelines('linear', { deloadEveryWeeks: 7 }), {
+      weeks: 8,
+      oneRepMaxKg: 100,
+    });
+
+    expect(targets.map((t) => t.loadKg)).toEqual([70.5, 71.5, 72.5, 73.5, 74.5, 75.5, 68, 76.5]);
+    expect(targets.every((t) => t.phase === 'linear' || t.weekNumber === 7)).toBe(true);
+    expect(targets[0]).toMatchObject({ sets: 4, reps: '6-10', targetRpe: 7.5 });
+    expect(targets[6]).toMatchObject({ phase: 'deload', sets: 2, reps: '6-10', targetRpe: 5.5 });
+  });
+
+  it('uses the lower-body increment for leg exercises', () => {
+    const targets = buildWeeklyTargets(squat, guidelines('linear'), { weeks: 2, oneRepMaxKg: 150 });
+    expect((targets[1].loadKg ?? 0) - (targets[0].loadKg ?? 0)).toBe(2.5);
+  });
+
+  it('leaves loads to the first logged session without a 1RM', () => {
+    const targets = buildWeeklyTargets(bench, guidelines('linear'), { weeks: 3 });
+    expect(targets.map((t) => t.loadKg)).toEqual([null, null, null]);
+    expect(targets[2]).toMatchObject({ sets: 4, reps: '6-10' });
+  });
+});
+
+describe('undulating strategy', () => {
+  it('waves moderate, heavy and light weeks and raises the max each wave', () => {
+    const targets = buildWeeklyTargets(bench, guidelines('undulating'), { weeks: 5, oneRepMaxKg: 100 });
+
+    expect(summary(targets)).toEqual([
+      ['moderate', 4, '6-10', 70.5, 7.5],
+      ['heavy', 4, '4-6', 80, 8.5],
+      ['light', 4, '10-13', 64.5, 6.5],
+      ['moderate', 4, '6-10', 71.5, 7.5],
+      ['deload', 2, '6-10', 64.5, 5.5],
+    ]);
+  });
+
+  it('keeps timed prescriptions as written', () => {
+    const plank = programmed({ reps: '30 seconds', muscleGroups: ['core'] });
+    const targets = buildWeeklyTargets(plank, guidelines('undulating'), { weeks: 3, oneRepMaxKg: 100 });
+    expect(targets.map((t) => [t.reps, t.loadKg])).toEqual([
+      ['30 seconds', null],
+      ['30 seconds', null],
+      ['30 seconds', null],
+    ]);
+  });
+});
+
+describe('block strategy', () => {
+  it('runs accumulation, intensification and realization before a deload', () => {
+    const strength = guidelines('block', {
+      weeklyIncrements: { upperBody: '1-2 kg per block', lowerBody: '2-3 kg per block' },
+      deloadEveryWeeks: 4,
+    });
+    const targets = buildWeeklyTargets(squat, strength, { weeks: 5, oneRepMaxKg: 150 });
+
+    expect(summary(targets)).toEqual([
+      ['accumulation', 6, '5-8', 111, 7.5],
+      ['intensification', 5, '3-6', 120, 8.5],
+      ['realization', 4, '1-4', 130.5, 9.5],
+      ['deload', 3, '3-6', 117.5, 6.5],
+      ['accumulation', 6, '5-8', 112.5, 7.5],
+    ]);
+  });
+});
+
+describe('plan targets', () => {
+  const plan = {
+    weeks: [{
+      weekNumber: 1,
+      days: [
+        { dayOfWeek: 'monday', focus: 'push', isRestDay: false, estimatedDuration: 45, mainWorkout: { exercises: [bench] } },
+        { dayOfWeek: 'tuesday', focus: 'rest', isRestDay: true, estimatedDuration: 0 },
+      ],
+    }],
+    progression: guidelines('linear'),
+  } as WorkoutPlanData;
+
+  it('adds weekly targets to every programmed exercise', () => {
+    const withTargets = withWeeklyTargets(plan, 4, { bench: 100 });
+    const exercise = withTargets.weeks[0].days[0].mainWorkout?.exercises[0];
+
+    expect(exercise?.weeklyTargets).toHaveLength(4);
+    expect(exercise?.weeklyTargets?.[0].loadKg).toBe(70.5);
+    expect(withTargets.weeks[0].days[1]).toEqual(plan.weeks[0].days[1]);
+  });
+
+  it('falls back to computed targets past the stored weeks', () => {
+    const exercise = withWeeklyTargets(plan, 2, { bench: 100 }).weeks[0].days[0].mainWorkout!.exercises[0];
+    expect(targetForWeek(exercise, plan.progression, 2).loadKg).toBe(71.5);
+    expect(targetForWeek(exercise, plan.progression, 3)).toMatchObject({ weekNumber: 3, loadKg: null });
+  });
+});
+
+describe('detectFatigue', () => {
+  function history(name: string, maxes: number[], lastRpe: number): ExerciseHistory {
+    return {
+      exerciseId: null,
+      exerciseName: name,
+      entries: maxes.map((max, i) => ({
+        sessionId: `s${i}`,
+        date: `2026-03-0${i + 1}`,
+        sets: 3,
+        topSetReps: 5,
+        topSetLoadKg: 100,
+        volumeKg: 1500,
+        estimatedOneRepMaxKg: max,
+        averageRpe: i === maxes.length - 1 ? lastRpe : 8,
+      })),
+      bestEstimatedOneRepMaxKg: Math.max(...maxes),
+      latestEstimatedOneRepMaxKg: maxes[maxes.length - 1],
+      estimatedOneRepMaxChangeKg: null,
+      totalVolumeKg: 1500 * maxes.length,
+    };
+  }
+
+  it('deloads when most lifts stall near failure', () => {
+    expect(detectFatigue([
+      history('Bench Press', [100, 101, 99], 9.5),
+      history('Back Squat', [150, 150, 150], 9),
+      history('Row', [80, 82, 84], 9),
+    ])).toEqual({ deload: true, stalledExercises: ['Bench Press', 'Back Squat'] });
+  });
+
+  it('keeps going while lifts progress or feel easy', () => {
+    expect(detectFatigue([
+      history('Bench Press', [100, 101, 99], 8),
+      history('Back Squat', [150, 150, 150], 9),
+      history('Row', [80, 82, 84], 9),
+    ]).deload).toBe(false);
+    expect(detectFatigue([history('Bench Press', [100, 99], 10)]).deload).toBe(false);
+  });
+});
+
+describe('prescribeNextSession', () => {
+  const linear = guidelines('linear');
+  const target: WeekTarget = { weekNumber: 2, phase: 'linear', sets: 4, reps: '6-10', loadKg: null, targetRpe: 7.5 };
+
+  function logged(reps: number[], loadKg: number, rpe: number): LoggedExercise {
+    return {
+      exerciseId: 'bench',
+      exerciseName: 'Bench Press',
+      skipped: false,
+      sets: reps.map((r) => ({ reps: r, loadKg, rpe, completed: true })),
+    };
+  }
+
+  it('progresses after the top of the range at or under the target RPE', () => {
+    const prescription = prescribeNextSession({
+      exercise: bench,
+      guidelines: linear,
+      target,
+      lastPerformance: logged([10, 10, 10, 10], 70, 7),
+    });
+    expect(prescription).toMatchObject({ adjustment: 'progress', loadKg: 71, sets: 4, reps: '6-10' });
+  });
+
+  it('holds after missed sets and reduces after missed reps', () => {
+    expect(prescribeNextSession({
+      exercise: bench,
+      guidelines: linear,
+      target,
+      lastPerformance: logged([8, 8, 8], 70, 8),
+    })).toMatchObject({ adjustment: 'hold', loadKg: 70 });
+
+    expect(prescribeNextSession({
+      exercise: bench,
+      guidelines: linear,
+      target,
+      lastPerformance: logged([5, 5, 4, 4], 70, 9),
+    })).toMatchObject({ adjustment: 'reduce', loadKg: 66.5 });
+  });
+
+  it('applies scheduled and fatigue deloads', () => {
+    expect(prescribeNextSession({
+      exercise: bench,
+      guidelines: linear,
+      target: { ...target, phase: 'deload', sets: 2, targetRpe: 5.5 },
+      lastPerformance: logged([10, 10, 10, 10], 70, 7),
+    })).toMatchObject({ adjustment: 'deload', sets: 2, loadKg: 63 });
+
+    expect(prescribeNextSession({
+      exercise: bench,
+      guidelines: linear,
+      target: { ...target, loadKg: 80 },
+      fatigue: { deload: true, stalledExercises: ['Bench Press', 'Back Squat'] },
+    })).toMatchObject({ adjustment: 'deload', sets: 2, loadKg: 72, targetRpe: 5.5 });
+  });
+
+  it('adjusts for readiness', () => {
+    const input = {
+      exercise: bench,
+      guidelines: linear,
+      target,
+      lastPerformance: logged([10, 10, 10, 10], 70, 7),
+    };
+
+    expect(prescribeNextSession({ ...input, readiness: { recoveryScore: 20 } }))
+      .toMatchObject({ adjustment: 'reduce', sets: 3, loadKg: 64, targetRpe: 6.5 });
+    expect(prescribeNextSession({ ...input, readiness: { recoveryScore: 50 } }))
+      .toMatchObject({ adjustment: 'hold', loadKg: 70 });
+    expect(prescribeNextSession({ ...input, readiness: { recoveryScore: 90 } }))
+      .toMatchObject({ adjustment: 'progress', loadKg: 71 });
+
+    const modifications = { ...getDefaultTrainingModifications(), intensityAdjustment: -10 };
+    expect(prescribeNextSession({ ...input, target: { ...target, loadKg: 80 }, lastPerformance: null, readiness: { modifications } }))
+      .toMatchObject({ adjustment: 'as_planned', loadKg: 72 });
+
+    const rest = { ...getDefaultTrainingModifications(), skipTrainingToday: true };
+    expect(prescribeNextSession({ ...input, readiness: { modifications: rest } }))
+      .toMatchObject({ adjustment: 'rest', sets: 0, loadKg: null });
+  });
+
+  it('classifies readiness', () => {
+    expect(readinessLevel({})).toBe('high');
+    expect(readinessLevel({ recoveryScore: 33 })).toBe('low');
+    expect(readinessLevel({ recoveryScore: 66 })).toBe('moderate');
+    expect(readinessLevel({ recoveryScore: 90, modifications: { ...getDefaultTrainingModifications(), prioritizeRecovery: true } }))
+      .toBe('low');
+  });
+});
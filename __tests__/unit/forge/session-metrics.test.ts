@@ -0,0 +1,246 @@
+/**
+ * Tests for Forge workout session metrics
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildExerciseHistory,
+  compareSession,
+  countPlannedSessions,
+  currentPlanWeek,
+  dayOverrideKey,
+  estimateOneRepMax,
+  findPlannedDay,
+  formatPerformanceSummary,
+  parseRepRange,
+  repsInReserve,
+  summarizeAdherence,
+} from '@/lib/forge/session-metrics';
+import type {
+  DayPlan,
+  ForgeWorkoutSession,
+  LoggedExercise,
+  ProgrammedExercise,
+  WorkoutPlanData,
+} from '@/lib/forge/types';
+
+function programmed(exerciseId: string, exerciseName: string, sets: number, reps: string): ProgrammedExercise {
+  return {
+    exerciseId,
+    exerciseName,
+    sets,
+    reps,
+    restSeconds: 90,
+    intensity: 'Moderate',
+    tips: [],
+    commonMistakes: [],
+    isCompound: true,
+    muscleGroups: [],
+  };
+}
+
+const pushDay: DayPlan = {
+  dayOfWeek: 'monday',
+  focus: 'push',
+  isRestDay: false,
+  estimatedDuration: 50,
+  mainWorkout: {
+    exercises: [
+      programmed('bench', 'Bench Press', 3, '8-10'),
+      programmed('ohp', 'Overhead Press', 3, '8-10'),
+      programmed('dips', 'Dips', 2, '30 seconds'),
+    ],
+  },
+} as DayPlan;
+
+const plan = {
+  weeks: [{
+    weekNumber: 1,
+    days: [
+      pushDay,
+      { dayOfWeek: 'wednesday', focus: 'rest', isRestDay: true, estimatedDuration: 0 },
+      { ...pushDay, dayOfWeek: 'friday' },
+    ],
+  }],
+} as WorkoutPlanData;
+
+function session(
+  id: string,
+  startedAt: string,
+  exercises: LoggedExercise[],
+  overrides: Partial<ForgeWorkoutSession> = {}
+): ForgeWorkoutSession {
+  return {
+    id,
+    user_email: 'user@example.com',
+    plan_id: 'plan-1',
+    week_number: 1,
+    day_of_week: 'monday',
+    focus: null,
+    status: 'completed',
+    started_at: startedAt,
+    completed_at: null,
+    duration_minutes: 55,
+    session_rpe: null,
+    notes: null,
+    exercises,
+    created_at: startedAt,
+    updated_at: startedAt,
+    ...overrides,
+  };
+}
+
+const benchSets = (load: number, reps: number[]) =>
+  reps.map((r) => ({ reps: r, loadKg: load, rpe: 8, completed: true }));
+
+describe('parseRepRange', () => {
+  it('reads ranges and single counts', () => {
+    expect(parseRepRange('8-10')).toEqual({ min: 8, max: 10 });
+    expect(parseRepRange('12')).toEqual({ min: 12, max: 12 });
+    expect(parseRepRange('10 each side')).toEqual({ min: 10, max: 10 });
+  });
+
+  it('has no range for timed or open-ended sets', () => {
+    expect(parseRepRange('30 seconds')).toBeNull();
+    expect(parseRepRange('45s')).toBeNull();
+    expect(parseRepRange('AMRAP')).toBeNull();
+  });
+});
+
+describe('estimateOneRepMax', () => {
+  it('uses Epley with reps in reserve', () => {
+    expect(estimateOneRepMax(100, 1)).toBe(100);
+    expect(estimateOneRepMax(100, 5)).toBe(116.7);
+    expect(estimateOneRepMax(100, 5, repsInReserve({ rpe: 8 }))).toBe(123.3);
+    expect(repsInReserve({ rir: 3, rpe: 9 })).toBe(3);
+  });
+
+  it('skips bodyweight and high-rep sets', () => {
+    expect(estimateOneRepMax(null, 5)).toBeNull();
+    expect(estimateOneRepMax(40, 15)).toBeNull();
+  });
+});
+
+describe('compareSession', () => {
+  it('compares logged sets with the prescription', () => {
+    const comparison = compareSession(
+      session('s1', '2026-03-02T10:00:00Z', [
+        { exerciseId: 'bench', exerciseName: 'Bench Press', skipped: false, sets: benchSets(80, [10, 9, 6]) },
+        { exerciseId: 'ohp', exerciseName: 'Overhead Press', skipped: true, sets: [] },
+        { exerciseId: null, exerciseName: 'Face Pulls', skipped: false, sets: benchSets(20, [15]) },
+      ]),
+      pushDay
+    );
+
+    expect(comparison.prescribedSets).toBe(8);
+    expect(comparison.completedSets).toBe(4);
+    expect(comparison.setCompletion).toBe(0.38);
+    expect(comparison.repTargetHitRate).toBe(0.67);
+    expect(comparison.skippedExercises).toEqual(['Overhead Press', 'Dips']);
+    expect(comparison.unplannedExercises).toEqual(['Face Pulls']);
+    expect(comparison.volumeKg).toBe(2300);
+    expect(comparison.exercises[0]).toMatchObject({ topSetLoadKg: 80, setsInRepRange: 2 });
+  });
+
+  it('matches exercises by name when logged without an id', () => {
+    const comparison = compareSession(
+      session('s1', '2026-03-02T10:00:00Z', [
+        { exerciseId: null, exerciseName: 'bench  press', skipped: false, sets: benchSets(80, [8]) },
+      ]),
+      pushDay
+    );
+
+    expect(comparison.exercises[0]).toMatchObject({ prescribed: true, skipped: false, completedSets: 1 });
+    expect(comparison.unplannedExercises).toEqual([]);
+  });
+});
+
+describe('findPlannedDay', () => {
+  it('uses a one-off override for its week only', () => {
+    const shortDay = { ...pushDay, estimatedDuration: 30 };
+    const overridden = { ...plan, dayOverrides: { [dayOverrideKey(2, 'monday')]: shortDay } };
+
+    expect(findPlannedDay(overridden, 2, 'monday')).toBe(shortDay);
+    expect(findPlannedDay(overridden, 3, 'monday')).toBe(pushDay);
+    expect(findPlannedDay(overridden, 2, 'wednesday')).toBeNull();
+  });
+});
+
+describe('plan adherence', () => {
+  const started = '2026-03-02T08:00:00Z'; // a Monday
+
+  it('counts scheduled training days up to today', () => {
+    expect(currentPlanWeek(started, new Date('2026-03-08T12:00:00Z'))).toBe(1);
+    expect(currentPlanWeek(started, new Date('2026-03-09T12:00:00Z'))).toBe(2);
+    expect(countPlannedSessions(plan, started, 4, new Date('2026-03-04T12:00:00Z'))).toBe(1);
+    expect(countPlannedSessions(plan, started, 4, new Date('2026-03-10T12:00:00Z'))).toBe(3);
+    expect(countPlannedSessions(plan, started, 1, new Date('2026-04-30T12:00:00Z'))).toBe(2);
+  });
+
+  it('summarizes completed sessions against the plan', () => {
+    const sessions = [
+      session('s1', '2026-03-02T10:00:00Z', [
+        { exerciseId: 'bench', exerciseName: 'Bench Press', skipped: false, sets: benchSets(80, [10, 10, 9]) },
+        { exerciseId: 'ohp', exerciseName: 'Overhead Press', skipped: true, sets: [] },
+      ]),
+      session('s2', '2026-03-06T10:00:00Z', [
+        { exerciseId: 'bench', exerciseName: 'Bench Press', skipped: false, sets: benchSets(82.5, [8, 8, 8]) },
+      ], { day_of_week: 'friday' }),
+      session('s3', '2026-03-09T10:00:00Z', [], { status: 'in_progress', week_number: 2 }),
+    ];
+
+    const adherence = summarizeAdherence(
+      { id: 'plan-1', plan_data: plan, started_at: started, created_at: started, duration_weeks: 4 },
+      sessions,
+      new Date('2026-03-10T12:00:00Z')
+    );
+
+    expect(adherence).toMatchObject({
+      currentWeek: 2,
+      sessionsPlanned: 3,
+      sessionsCompleted: 2,
+      sessionAdherence: 0.67,
+      setCompletion: 0.38,
+      repTargetHitRate: 1,
+    });
+    expect(adherence.mostSkippedExercises).toEqual([
+      { exerciseName: 'Overhead Press', timesSkipped: 2 },
+      { exerciseName: 'Dips', timesSkipped: 2 },
+    ]);
+  });
+});
+
+describe('buildExerciseHistory', () => {
+  it('tracks estimated 1RM and volume per exercise', () => {
+    const history = buildExerciseHistory([
+      session('s2', '2026-03-06T10:00:00Z', [
+        { exerciseId: 'bench', exerciseName: 'Bench Press', skipped: false, sets: benchSets(85, [6, 6]) },
+      ]),
+      session('s1', '2026-03-02T10:00:00Z', [
+        { exerciseId: 'bench', exerciseName: 'Bench Press', skipped: false, sets: benchSets(80, [6, 6]) },
+        { exerciseId: null, exerciseName: 'Push-ups', skipped: false, sets: [{ reps: 20, loadKg: null, completed: true }] },
+      ]),
+    ]);
+
+    const bench = history[0];
+    expect(bench.exerciseName).toBe('Bench Press');
+    expect(bench.entries.map((e) => e.date)).toEqual(['2026-03-02', '2026-03-06']);
+    expect(bench.latestEstimatedOneRepMaxKg).toBe(107.7);
+    expect(bench.estimatedOneRepMaxChangeKg).toBe(6.4);
+    expect(bench.totalVolumeKg).toBe(1980);
+
+    expect(history[1]).toMatchObject({ exerciseName: 'Push-ups', latestEstimatedOneRepMaxKg: null, totalVolumeKg: 0 });
+  });
+
+  it('formats logged performance for prompts', () => {
+    const exercises = buildExerciseHistory([
+      session('s1', '2026-03-02T10:00:00Z', [
+        { exerciseId: 'bench', exerciseName: 'Bench Press', skipped: false, sets: benchSets(80, [8]) },
+      ]),
+    ]);
+
+    expect(formatPerformanceSummary({ periodDays: 56, sessionsLogged: 0, adherence: null, exercises: [] })).toBe('');
+    expect(formatPerformanceSummary({ periodDays: 56, sessionsLogged: 1, adherence: null, exercises }))
+      .toContain('- Bench Press: 1 session, last top set 80kg x 8, RPE 8, e1RM 106.7kg, volume 640kg');
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Tests for session-derived request identity
+ */
+
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import type { NextRequest } from 'next/server';
+import type { SharePermissions } from '@/lib/services/share/share-relationship-service';
+import {
+  decideAccess,
+  emailsMatch,
+  getBearerToken,
+  isGuestIdentifier,
+  toPrincipal,
+  type Principal,
+} from '@/lib/middleware/auth-context';
+import { internalRequestHeaders, isInternalRequest } from '@/lib/utils/internal-auth';
+import { GET as getStoredTokens } from '@/app/api/admin/ecosystem-debug/tokens/route';
+
+const mocks = vi.hoisted(() => ({
+  user: null as { id: string; email: string; app_metadata: Record<string, unknown> } | null,
+  tokenQueries: [] as string[],
+  recordAccess: vi.fn(),
+}));
+
+vi.mock('@/lib/supabase/server', () => {
+  const query = {
+    select: () => query,
+    eq: (column: string, value: unknown) => {
+      if (column === 'user_email') mocks.tokenQueries.push(String(value));
+      return query;
+    },
+    then: (resolve: (result: unknown) => void) => resolve({ data: [], error: null }),
+  };
+  const client = {
+    from: () => query,
+    auth: { getUser: async () => ({ data: { user: mocks.user }, error: null }) },
+  };
+  return { createClient: async () => client, createAdminClient: () => client };
+});
+
+vi.mock('@/lib/services/share/access-audit-service', () => ({
+  accessAuditService: { instance: { recordAccess: mocks.recordAccess } },
+}));
+
+const user: Principal = { userId: 'u1', email: 'user@example.com', method: 'bearer', role: 'user' };
+const admin: Principal = { userId: 'a1', email: 'admin@example.com', method: 'session', role: 'admin' };
+const relationship = { id: 'rel-1', caregiver_role: 'primary' as const };
+
+function headers(authorization?: string) {
+  return { headers: new Headers(authorization ? { authorization } : {}) };
+}
+
+function request(path: string, query: Record<string, string>, requestHeaders: Record<string, string> = {}): NextRequest {
+  const url = new URL(`https://moccet.test${path}`);
+  for (const [key, value] of Object.entries(query)) url.searchParams.set(key, value);
+
+  const req = {
+    method: 'GET',
+    url: url.toString(),
+    nextUrl: url,
+    headers: new Headers(requestHeaders),
+    json: async () => undefined,
+    clone: () => req,
+  };
+  return req as unknown as NextRequest;
+}
+
+describe('getBearerToken', () => {
+  it('reads the token from the authorization header', () => {
+    expect(getBearerToken(headers('Bearer abc.def'))).toBe('abc.def');
+    expect(getBearerToken(headers('bearer abc'))).toBe('abc');
+  });
+
+  it('ignores missing and malformed headers', () => {
+    expect(getBearerToken(headers())).toBeNull();
+    expect(getBearerToken(headers('Basic abc'))).toBeNull();
+    expect(getBearerToken(headers('Bearer'))).toBeNull();
+  });
+});
+
+describe('toPrincipal', () => {
+  afterEach(() => {
+    delete process.env.ADMIN_EMAILS;
+  });
+
+  it('is an admin by app metadata or the admin email list', () => {
+    expect(toPrincipal({ id: 'u1', email: 'a@example.com', app_metadata: { role: 'admin' } }, 'session')?.role)
+      .toBe('admin');
+
+    process.env.ADMIN_EMAILS = 'ops@example.com, Support@Example.com';
+    expect(toPrincipal({ id: 'u2', email: 'support@example.com', app_metadata: {} }, 'bearer')?.role).toBe('admin');
+    expect(toPrincipal({ id: 'u3', email: 'user@example.com', app_metadata: {} }, 'bearer')?.role).toBe('user');
+  });
+
+  it('needs an email', () => {
+    expect(toPrincipal({ id: 'u1', email: undefined, app_metadata: {} }, 'session')).toBeNull();
+  });
+});
+
+describe('decideAccess', () => {
+  it('rejects unauthenticated requests', () => {
+    expect(decideAccess({ principal: null, requestedEmail: 'user@example.com' })).toMatchObject({
+      allowed: false,
+      status: 401,
+      reason: 'unauthenticated',
+    });
+  });
+
+  it('acts for the caller when no other email is named', () => {
+    expect(decideAccess({ principal: user, requestedEmail: null })).toMatchObject({
+      allowed: true,
+      email: 'user@example.com',
+      access: { kind: 'self' },
+    });
+    expect(emailsMatch(' User@Example.com', 'user@example.com')).toBe(true);
+    expect(decideAccess({ principal: user, requestedEmail: 'USER@example.com' })).toMatchObject({
+      allowed: true,
+      email: 'user@example.com',
+    });
+  });
+
+  it('rejects another user\'s email', () => {
+    expect(decideAccess({ principal: user, requestedEmail: 'other@example.com' })).toMatchObject({
+      allowed: false,
+      status: 403,
+      reason: 'email_mismatch',
+    });
+  });
+
+  it('lets caregivers act for a sharer on routes that allow delegation', () => {
+    const input = { principal: user, requestedEmail: 'mom@example.com', relationship };
+
+    expect(decideAccess(input)).toMatchObject({ allowed: false, reason: 'email_mismatch' });
+    expect(decideAccess({ ...input, options: { delegation: true } })).toMatchObject({
+      allowed: true,
+      email: 'mom@example.com',
+      access: { kind: 'delegated', relationshipId: 'rel-1', caregiverRole: 'primary' },
+    });
+    expect(decideAccess({ ...input, relationship: null, options: { delegation: true } })).toMatchObject({
+      allowed: false,
+      reason: 'not_delegated',
+    });
+  });
+
+  it('requires the permission a delegated route asks for', () => {
+    const options = { delegation: { permission: 'share_medication_list' as const } };
+    const input = { principal: user, requestedEmail: 'mom@example.com', relationship, options };
+
+    expect(decideAccess({ ...input, permissions: { share_medication_list: false } as SharePermissions }))
+      .toMatchObject({ allowed: false, reason: 'permission_denied' });
+    expect(decideAccess({ ...input, permissions: { share_medication_list: true } as SharePermissions }))
+      .toMatchObject({ allowed: true, access: { kind: 'delegated' } });
+  });
+
+  it('lets admins impersonate with a reason on routes that opt in', () => {
+    const input = { principal: admin, requestedEmail: 'user@example.com', options: { impersonation: true } };
+
+    expect(decideAccess(input)).toMatchObject({ allowed: false, reason: 'impersonation_reason_required' });
+    expect(decideAccess({ ...input, impersonationReason: 'Support ticket 123' })).toMatchObject({
+      allowed: true,
+      email: 'user@example.com',
+      access: { kind: 'impersonation', reason: 'Support ticket 123' },
+    });
+    expect(decideAccess({ principal: admin, requestedEmail: 'user@example.com', impersonationReason: 'Support' }))
+      .toMatchObject({ allowed: false, reason: 'email_mismatch' });
+  });
+
+  it('acts for the named user on internal requests to routes that opt in', () => {
+    const input = { principal: null, requestedEmail: 'user@example.com', internal: true };
+
+    expect(decideAccess(input)).toMatchObject({ allowed: false, reason: 'unauthenticated' });
+    expect(decideAccess({ ...input, options: { internal: true } })).toMatchObject({
+      allowed: true,
+      email: 'user@example.com',
+      principal: { method: 'internal' },
+      access: { kind: 'internal' },
+    });
+    expect(decideAccess({ ...input, requestedEmail: null, options: { internal: true } })).toMatchObject({
+      allowed: false,
+      status: 400,
+      reason: 'email_required',
+    });
+  });
+});
+
+describe('guest checkout', () => {
+  it('lets callers without a session use a guest identifier on routes that opt in', () => {
+    const input = { principal: null, requestedEmail: 'guest-AB12CD34' };
+
+    expect(decideAccess(input)).toMatchObject({ allowed: false, reason: 'unauthenticated' });
+    expect(decideAccess({ ...input, options: { guest: true } })).toMatchObject({
+      allowed: true,
+      email: 'guest-AB12CD34',
+      access: { kind: 'guest' },
+    });
+    expect(isGuestIdentifier('guest-user@example.com')).toBe(false);
+    expect(decideAccess({ principal: null, requestedEmail: 'user@example.com', options: { guest: true } }))
+      .toMatchObject({ allowed: false, reason: 'unauthenticated' });
+  });
+
+  it('keeps signed-in callers to their own cart', () => {
+    expect(decideAccess({ principal: user, requestedEmail: 'guest-AB12CD34', options: { guest: true } }))
+      .toMatchObject({ allowed: false, reason: 'email_mismatch' });
+  });
+});
+
+describe('internal requests', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('carries the configured internal key', () => {
+    vi.stubEnv('INTERNAL_API_KEY', 'secret-key');
+    const request = { headers: new Headers(internalRequestHeaders({ 'Content-Type': 'application/json' })) };
+
+    expect(request.headers.get('content-type')).toBe('application/json');
+    expect(isInternalRequest(request)).toBe(true);
+    expect(isInternalRequest({ headers: new Headers({ 'x-internal-key': 'secret-kez' }) })).toBe(false);
+    expect(isInternalRequest(headers())).toBe(false);
+  });
+
+  it('is never trusted without a configured key', () => {
+    vi.stubEnv('INTERNAL_API_KEY', '');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(internalRequestHeaders()).toEqual({});
+    expect(isInternalRequest({ headers: new Headers({ 'x-internal-key': '' }) })).toBe(false);
+    expect(isInternalRequest({ headers: new Headers({ 'x-internal-key': 'internal' }) })).toBe(false);
+  });
+});
+
+describe('admin support routes', () => {
+  const path = '/api/admin/ecosystem-debug/tokens';
+
+  beforeEach(() => {
+    mocks.tokenQueries = [];
+    mocks.recordAccess.mockClear();
+  });
+
+  it('lets admins read a user\'s data with an audited reason', async () => {
+    mocks.user = { id: 'a1', email: 'admin@example.com', app_metadata: { role: 'admin' } };
+
+    const refused = await getStoredTokens(request(path, { email: 'user@example.com' }));
+    const response = await getStoredTokens(
+      request(path, { email: 'user@example.com' }, { 'x-impersonation-reason': 'Support ticket 123' })
+    );
+
+    expect(refused.status).toBe(403);
+    expect(response.status).toBe(200);
+    expect(mocks.tokenQueries).toEqual(['user@example.com']);
+    expect(mocks.recordAccess).toHaveBeenCalledWith(expect.objectContaining({
+      sharerEmail: 'user@example.com',
+      accessorEmail: 'admin@example.com',
+      accessType: 'admin_impersonation',
+      metadata: { reason: 'Support ticket 123' },
+    }));
+  });
+
+  it('keeps other callers to their own data', async () => {
+    mocks.user = { id: 'u1', email: 'user@example.com', app_metadata: {} };
+
+    const response = await getStoredTokens(
+      request(path, { email: 'someone@example.com' }, { 'x-impersonation-reason': 'Curious' })
+    );
+
+    expect(response.status).toBe(403);
+    expect(mocks.tokenQueries).toEqual([]);
+    expect(mocks.recordAccess).not.toHaveBeenCalled();
+  });
+});
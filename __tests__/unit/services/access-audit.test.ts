@@ -0,0 +1,93 @@
+/**
+ * Tests for the share access audit log
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AccessLogEntry,
+  formatAccessLogCsv,
+  getContextDataCategories,
+  summarizeAccessLog,
+} from '@/lib/services/share/access-audit-service';
+
+function entry(overrides: Partial<AccessLogEntry> = {}): AccessLogEntry {
+  return {
+    id: 'log-1',
+    sharer_email: 'mom@example.com',
+    accessor_email: 'daughter@example.com',
+    accessor_type: 'caregiver',
+    access_type: 'dashboard_detail',
+    channel: 'app',
+    resource_type: null,
+    resource_id: null,
+    data_categories: ['alerts', 'baselines'],
+    relationship_id: null,
+    metadata: {},
+    created_at: '2024-01-17T08:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('access audit', () => {
+  describe('summarizeAccessLog', () => {
+    it('should roll entries up per accessor, most recent first', () => {
+      const summary = summarizeAccessLog([
+        entry({ created_at: '2024-01-18T08:00:00.000Z', access_type: 'alert_context', channel: 'sms', data_categories: ['alerts', 'medications'] }),
+        entry(),
+        entry({
+          accessor_email: 'dr@clinic.example',
+          accessor_type: 'clinician',
+          access_type: 'clinical_summary',
+          channel: 'email',
+          created_at: '2024-01-19T08:00:00.000Z',
+        }),
+      ]);
+
+      expect(summary).toEqual([
+        {
+          accessorEmail: 'dr@clinic.example',
+          accessorType: 'clinician',
+          accessCount: 1,
+          lastAccessAt: '2024-01-19T08:00:00.000Z',
+          accessTypes: ['clinical_summary'],
+          dataCategories: ['alerts', 'baselines'],
+        },
+        {
+          accessorEmail: 'daughter@example.com',
+          accessorType: 'caregiver',
+          accessCount: 2,
+          lastAccessAt: '2024-01-18T08:00:00.000Z',
+          accessTypes: ['alert_context', 'dashboard_detail'],
+          dataCategories: ['alerts', 'medications', 'baselines'],
+        },
+      ]);
+    });
+  });
+
+  describe('formatAccessLogCsv', () => {
+    it('should write a header and escape values', () => {
+      const csv = formatAccessLogCsv([
+        entry({ resource_type: 'agent_tool', resource_id: 'get_care_recipient_status, "v2"' }),
+      ]);
+
+      expect(csv.split('\n')).toEqual([
+        'created_at,accessor_email,accessor_type,access_type,channel,resource_type,resource_id,data_categories',
+        '2024-01-17T08:00:00.000Z,daughter@example.com,caregiver,dashboard_detail,app,agent_tool,"get_care_recipient_status, ""v2""",alerts;baselines',
+      ]);
+    });
+  });
+
+  describe('getContextDataCategories', () => {
+    it('should list only the parts of the context with data', () => {
+      expect(getContextDataCategories({
+        snapshot: null,
+        recentMetrics: { sleep_score: 72 },
+        trends: {},
+        medications: [{ name: 'Metformin', lastTaken: null, nextDue: null, compliance24h: 50, missedDoses: 1 }],
+        recentEvents: [],
+        baselineComparisons: [],
+      })).toEqual(['metrics', 'medications']);
+      expect(getContextDataCategories(null)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Tests for blood biomarker units and trends
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeBiomarkerTrends } from '@/lib/services/blood-analyzer/history';
+import { toCanonicalUnit } from '@/lib/services/blood-analyzer/units';
+import type { BiomarkerReading } from '@/lib/services/blood-analyzer/types';
+
+function reading(panelDate: string, value: string, unit: string): BiomarkerReading {
+  const canonical = toCanonicalUnit('Glucose', value, unit);
+  return {
+    panelId: panelDate,
+    panelDate,
+    markerKey: 'glucose',
+    name: 'Glucose',
+    category: 'metabolic',
+    value,
+    unit,
+    canonicalValue: canonical?.value ?? null,
+    canonicalUnit: canonical?.unit ?? null,
+    referenceRange: 'Not specified',
+    status: 'normal',
+  };
+}
+
+describe('toCanonicalUnit', () => {
+  it('should convert to the marker\'s canonical unit', () => {
+    expect(toCanonicalUnit('Glucose', '5.4', 'mmol/L')).toEqual({ value: 97.286, unit: 'mg/dL' });
+    expect(toCanonicalUnit('Glucose', '97', 'mg/dl')).toEqual({ value: 97, unit: 'mg/dL' });
+  });
+
+  it('should return null for a missing unit on a convertible marker', () => {
+    expect(toCanonicalUnit('Glucose', '5.4', '')).toBeNull();
+  });
+
+  it('should keep the unit of markers without conversions', () => {
+    expect(toCanonicalUnit('Mystery Marker', '4', 'U/L')).toEqual({ value: 4, unit: 'U/L' });
+  });
+
+  it('should return null for unknown units and qualitative values', () => {
+    expect(toCanonicalUnit('Glucose', '5.4', 'furlongs')).toBeNull();
+    expect(toCanonicalUnit('Glucose', 'Negative', 'mg/dL')).toBeNull();
+  });
+});
+
+describe('computeBiomarkerTrends', () => {
+  it('should compare panels across units', () => {
+    const [trend] = computeBiomarkerTrends([
+      reading('2026-03-01', '110', 'mg/dL'),
+      reading('2026-06-01', '5.4', 'mmol/L'),
+    ]);
+
+    expect(trend).toMatchObject({ latest: 97.286, previous: 110, direction: 'down' });
+    expect(trend.annotation).toBe('Glucose down 12% since March');
+  });
+
+  it('should leave readings without a unit out of the trend', () => {
+    const [trend] = computeBiomarkerTrends([
+      reading('2026-03-01', '95', 'mg/dL'),
+      reading('2026-06-01', '5.4', ''),
+    ]);
+
+    expect(trend.readings).toHaveLength(1);
+    expect(trend).toMatchObject({ latest: 95, previous: null, direction: 'stable', annotation: null });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Tests for the blood analyzer reference-range engine
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findReferenceRule,
+  classifyValue,
+  describeRule,
+  applyReferenceRange,
+} from '@/lib/services/blood-analyzer/reference-ranges';
+import { validateAndDedupe, getConcerningBiomarkers } from '@/lib/services/blood-analyzer/validator';
+import { biomarker } from '../../../fixtures/biomarkers';
+
+describe('reference-range engine', () => {
+  describe('findReferenceRule', () => {
+    it('should resolve names through normalizeBiomarkerName', () => {
+      expect(findReferenceRule('HbA1c')).toEqual(findReferenceRule('Glycated Haemoglobin'));
+      expect(findReferenceRule('LDL')).not.toBeNull();
+    });
+
+    it('should pick the rule for the person\'s sex', () => {
+      expect(findReferenceRule('Hemoglobin', { sex: 'male' })?.low).toBe(13.5);
+      expect(findReferenceRule('Hemoglobin', { sex: 'female' })?.low).toBe(12.0);
+    });
+
+    it('should skip sex-specific rules when sex is unknown', () => {
+      expect(findReferenceRule('Hemoglobin')).toBeNull();
+      expect(findReferenceRule('Sodium')).not.toBeNull();
+    });
+
+    it('should pick the age band', () => {
+      expect(findReferenceRule('PSA', { sex: 'male', age: 45 })?.high).toBe(2.5);
+      expect(findReferenceRule('PSA', { sex: 'male', age: 55 })?.high).toBe(3.5);
+      expect(findReferenceRule('PSA', { sex: 'male', age: 72 })?.high).toBe(6.5);
+    });
+
+    it('should skip age-banded rules when age is unknown', () => {
+      expect(findReferenceRule('PSA', { sex: 'male' })).toBeNull();
+    });
+
+    it('should not apply adult ranges to minors', () => {
+      expect(findReferenceRule('Sodium', { age: 12 })).toBeNull();
+      expect(findReferenceRule('Sodium', { age: 18 })).not.toBeNull();
+    });
+
+    it('should return null for markers not in the catalog', () => {
+      expect(findReferenceRule('Zinc')).toBeNull();
+    });
+  });
+
+  describe('classifyValue', () => {
+    const rule = { unit: 'mg/dL', low: 70, high: 99, optimalLow: 75, optimalHigh: 90, criticalLow: 50, criticalHigh: 400 };
+
+    it('should classify values inside the optimal band as optimal', () => {
+      expect(classifyValue(80, rule)).toBe('optimal');
+    });
+
+    it('should classify in-range values outside the optimal band as normal', () => {
+      expect(classifyValue(95, rule)).toBe('normal');
+    });
+
+    it('should classify values within 10% outside the range as borderline', () => {
+      expect(classifyValue(105, rule)).toBe('borderline');
+      expect(classifyValue(65, rule)).toBe('borderline');
+    });
+
+    it('should classify values further outside the range as high or low', () => {
+      expect(classifyValue(150, rule)).toBe('high');
+      expect(classifyValue(55, rule)).toBe('low');
+    });
+
+    it('should classify values past the critical limits as critical', () => {
+      expect(classifyValue(45, rule)).toBe('critical');
+      expect(classifyValue(450, rule)).toBe('critical');
+    });
+
+    it('should treat rules without an optimal band as normal in range', () => {
+      expect(classifyValue(140, { unit: 'mmol/L', low: 135, high: 145 })).toBe('normal');
+    });
+  });
+
+  describe('describeRule', () => {
+    it('should describe sex, age band and limits', () => {
+      expect(describeRule({ unit: 'g/dL', sex: 'male', low: 13.5, high: 17.5 })).toBe('male 18+: 13.5-17.5 g/dL');
+      expect(describeRule({ unit: 'ng/mL', sex: 'male', minAge: 50, maxAge: 59, high: 3.5 })).toBe('male 50-59: <=3.5 ng/mL');
+      expect(describeRule({ unit: 'mg/dL', low: 40 })).toBe('all 18+: >=40 mg/dL');
+    });
+  });
+
+  describe('applyReferenceRange', () => {
+    it('should override the model status from the catalog and record the disagreement', () => {
+      const result = applyReferenceRange(biomarker({ name: 'Potassium', value: '6.8', unit: 'mmol/L', status: 'high' }));
+
+      expect(result.status).toBe('critical');
+      expect(result.statusAudit?.source).toBe('catalog');
+      expect(result.statusAudit?.modelStatus).toBe('high');
+      expect(result.statusAudit?.disagreements).toEqual([{ source: 'model', status: 'high' }]);
+    });
+
+    it('should flag disagreement with the lab range', () => {
+      const result = applyReferenceRange(
+        biomarker({ name: 'Potassium', value: '5.2', unit: 'mmol/L', referenceRange: '3.5-5.3', status: 'normal' })
+      );
+
+      expect(result.status).toBe('borderline');
+      expect(result.statusAudit?.labStatus).toBe('normal');
+      expect(result.statusAudit?.disagreements).toContainEqual({ source: 'lab', status: 'normal' });
+    });
+
+    it('should convert units before classifying', () => {
+      const result = applyReferenceRange(biomarker({ name: 'Glucose', value: '4.8', unit: 'mmol/L' }));
+
+      expect(result.status).toBe('optimal');
+      expect(result.statusAudit?.rule).toBe('all 18+: 70-99 mg/dL');
+    });
+
+    it('should not count optimal vs normal as a disagreement', () => {
+      const result = applyReferenceRange(biomarker({ name: 'Glucose', value: '80', status: 'normal' }));
+
+      expect(result.status).toBe('optimal');
+      expect(result.statusAudit?.disagreements).toEqual([]);
+    });
+
+    it('should fall back to the lab range when no catalog rule applies', () => {
+      const result = applyReferenceRange(
+        biomarker({ name: 'Zinc', value: '50', unit: 'µg/dL', referenceRange: '60-120', status: 'normal' })
+      );
+
+      expect(result.status).toBe('low');
+      expect(result.statusAudit?.source).toBe('lab');
+      expect(result.statusAudit?.disagreements).toEqual([{ source: 'model', status: 'normal' }]);
+    });
+
+    it('should fall back to the lab range when the unit is not convertible', () => {
+      const result = applyReferenceRange(
+        biomarker({ name: 'Glucose', value: '600', unit: 'mg/L', referenceRange: '700-990' })
+      );
+
+      expect(result.statusAudit?.source).toBe('lab');
+      expect(result.statusAudit?.catalogStatus).toBeUndefined();
+      expect(result.status).toBe('low');
+    });
+
+    it('should fall back to the lab range when the unit is missing', () => {
+      const result = applyReferenceRange(
+        biomarker({ name: 'Glucose', value: '5.4', unit: '', referenceRange: '3.9-5.6', status: 'normal' })
+      );
+
+      expect(result.status).toBe('normal');
+      expect(result.statusAudit?.source).toBe('lab');
+      expect(result.statusAudit?.catalogStatus).toBeUndefined();
+      expect(result.statusAudit?.disagreements).toEqual([]);
+
+      const unconverted = applyReferenceRange(
+        biomarker({ name: 'Aspartate Aminotransferase', value: '300', unit: '', referenceRange: '100-400' })
+      );
+      expect(unconverted.statusAudit?.source).toBe('lab');
+      expect(unconverted.status).toBe('normal');
+    });
+
+    it('should keep the model status when there is no rule or range', () => {
+      const result = applyReferenceRange(biomarker({ name: 'Zinc', value: '90', unit: 'µg/dL', status: 'borderline' }));
+
+      expect(result.status).toBe('borderline');
+      expect(result.statusAudit?.source).toBe('model');
+      expect(result.statusAudit?.disagreements).toEqual([]);
+    });
+
+    it('should leave qualitative results untouched', () => {
+      const input = biomarker({ name: 'Urine Glucose', value: 'Negative', unit: '' });
+      expect(applyReferenceRange(input)).toBe(input);
+    });
+
+    it('should be idempotent', () => {
+      const once = applyReferenceRange(biomarker({ name: 'Potassium', value: '6.8', unit: 'mmol/L', status: 'high' }));
+      const twice = applyReferenceRange(once);
+
+      expect(twice.status).toBe('critical');
+      expect(twice.statusAudit?.modelStatus).toBe('high');
+    });
+
+    it('should use demographics for sex-specific ranges', () => {
+      const hb = biomarker({ name: 'Haemoglobin', value: '12.8', unit: 'g/dL', category: 'blood_count' });
+
+      expect(applyReferenceRange(hb, { sex: 'female' }).status).toBe('normal');
+      expect(applyReferenceRange(hb, { sex: 'male' }).status).toBe('borderline');
+    });
+  });
+
+  describe('validateAndDedupe integration', () => {
+    it('should recompute statuses and count disagreements', () => {
+      const result = validateAndDedupe(
+        [
+          biomarker({ name: 'Potassium', value: '6.8', unit: 'mmol/L', status: 'high', category: 'kidney' }),
+          biomarker({ name: 'Glucose', value: '85', status: 'normal' }),
+          biomarker({ name: 'glucose', value: '85', status: 'normal' }),
+        ],
+        { sex: 'male', age: 40 }
+      );
+
+      expect(result.biomarkers).toHaveLength(2);
+      expect(result.duplicatesRemoved).toBe(1);
+      expect(result.statusDisagreements).toBe(1);
+      expect(result.biomarkers.find(b => b.name === 'Potassium')?.status).toBe('critical');
+    });
+
+    it('should list critical biomarkers first in concerns', () => {
+      const { biomarkers } = validateAndDedupe([
+        biomarker({ name: 'LDL Cholesterol', value: '160', category: 'lipid_heart' }),
+        biomarker({ name: 'Potassium', value: '6.8', unit: 'mmol/L', category: 'kidney' }),
+      ]);
+
+      expect(getConcerningBiomarkers(biomarkers).map(b => b.status)).toEqual(['critical', 'high']);
+    });
+  });
+});
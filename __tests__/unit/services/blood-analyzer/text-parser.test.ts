@@ -0,0 +1,154 @@
+/**
+ * Tests for the blood analyzer text-layer parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  detectLabLayout,
+  determineStatus,
+  getUnparsedCategories,
+  normalizeUnit,
+  parseLabReportLines,
+  parseRangeCell,
+} from '@/lib/services/blood-analyzer/text-parser';
+
+const questReport = [
+  'Quest Diagnostics Incorporated',
+  'Test Name\tIn Range\tOut Of Range\tReference Range\tLab',
+  'GLUCOSE\t\t105 H\t65-99 mg/dL\tEN',
+  'HEMOGLOBIN A1c\t5.4\t<5.7 % of total Hgb\tEN',
+  'HDL CHOLESTEROL\t52\t> OR = 40 mg/dL\tEN',
+  'TSH\t2.1\t0.40-4.50 mIU/L\tEN',
+];
+
+const labcorpReport = [
+  'LabCorp',
+  'Test\tCurrent Result and Flag\tPrevious Result\tUnits\tReference Interval',
+  'Glucose 01\t250 High\tmg/dL\t65-99',
+  'BUN 01\t14\tmg/dL\t6-24',
+  'Ferritin 01\t9\tLow\tng/mL\t30-400',
+  'Sodium 01\t140\t134-144',
+  'Mystery Test 01\t4\tU/L\t1-10',
+];
+
+describe('text parser', () => {
+  describe('detectLabLayout', () => {
+    it('should recognize the lab from the header', () => {
+      expect(detectLabLayout(questReport)).toBe('quest');
+      expect(detectLabLayout(labcorpReport)).toBe('labcorp');
+      expect(detectLabLayout(['Hospital Pathology'])).toBe('generic');
+    });
+  });
+
+  describe('parseRangeCell', () => {
+    it('should parse between ranges with the unit left over', () => {
+      expect(parseRangeCell('65-99 mg/dL')).toEqual({ text: '65-99', low: 65, high: 99, remainder: 'mg/dL' });
+      expect(parseRangeCell('0.40 to 4.50')).toMatchObject({ low: 0.4, high: 4.5 });
+    });
+
+    it('should parse < and > bounds, inclusive or not', () => {
+      expect(parseRangeCell('<5.7 % of total Hgb')).toMatchObject({ text: '<5.7', low: undefined, high: 5.7 });
+      expect(parseRangeCell('> OR = 40 mg/dL')).toMatchObject({ text: '>=40', low: 40, high: undefined, remainder: 'mg/dL' });
+      expect(parseRangeCell('≤ 200')).toMatchObject({ text: '<=200', high: 200 });
+    });
+
+    it('should return null without a range', () => {
+      expect(parseRangeCell('mg/dL (calc)')).toBeNull();
+    });
+  });
+
+  describe('normalizeUnit', () => {
+    it('should standardize spelling and drop the calculated-result qualifier', () => {
+      expect(normalizeUnit('mg/dl')).toBe('mg/dL');
+      expect(normalizeUnit('mg/dL (calc)')).toBe('mg/dL');
+      expect(normalizeUnit('mmol/L (calculated)')).toBe('mmol/L');
+    });
+  });
+
+  describe('determineStatus', () => {
+    const range = { text: '65-99', low: 65, high: 99, remainder: '' };
+
+    it('should grade the value against the range', () => {
+      expect(determineStatus(80, range)).toBe('normal');
+      expect(determineStatus(105, range)).toBe('borderline');
+      expect(determineStatus(130, range)).toBe('high');
+      expect(determineStatus(250, range)).toBe('critical');
+      expect(determineStatus(55, range)).toBe('low');
+      expect(determineStatus(30, range)).toBe('critical');
+    });
+
+    it('should prefer the range over the lab flag', () => {
+      expect(determineStatus(80, range, 'H')).toBe('normal');
+    });
+
+    it('should fall back to the lab flag without a range', () => {
+      expect(determineStatus(5, null, 'HH')).toBe('critical');
+      expect(determineStatus(5, null, 'High')).toBe('high');
+      expect(determineStatus(5, null, 'L')).toBe('low');
+      expect(determineStatus(5, null, 'A')).toBe('borderline');
+      expect(determineStatus(5, null)).toBe('normal');
+    });
+  });
+
+  describe('parseLabReportLines', () => {
+    it('should parse Quest rows with the unit in the range cell', () => {
+      const { layout, biomarkers, unmatchedRows } = parseLabReportLines(questReport);
+
+      expect(layout).toBe('quest');
+      expect(unmatchedRows).toBe(0);
+      expect(biomarkers.map((b) => [b.name, b.value, b.unit, b.referenceRange, b.status])).toEqual([
+        ['Glucose', '105', 'mg/dL', '65-99', 'borderline'],
+        ['HbA1c', '5.4', '%', '<5.7', 'normal'],
+        ['HDL Cholesterol', '52', 'mg/dL', '>=40', 'normal'],
+        ['TSH', '2.1', 'mIU/L', '0.40-4.50', 'normal'],
+      ]);
+      expect(biomarkers.every((b) => b.provenance === 'parsed')).toBe(true);
+    });
+
+    it('should parse LabCorp rows with test codes, flag cells and unit columns', () => {
+      const { biomarkers, unmatchedRows } = parseLabReportLines(labcorpReport);
+
+      expect(biomarkers.map((b) => [b.name, b.value, b.unit, b.status])).toEqual([
+        ['Glucose', '250', 'mg/dL', 'critical'],
+        ['Blood Urea Nitrogen', '14', 'mg/dL', 'normal'],
+        ['Ferritin', '9', 'ng/mL', 'critical'],
+        ['Sodium', '140', '', 'normal'],
+      ]);
+      expect(unmatchedRows).toBe(1);
+    });
+
+    it('should keep < and > results and read the unit of a calculated result', () => {
+      const { biomarkers } = parseLabReportLines([
+        'Quest Diagnostics',
+        'LDL-CHOLESTEROL\t<30\tmg/dL (calc)\tEN',
+        'CRP\t>10\t<8.0\tEN',
+      ]);
+
+      expect(biomarkers.map((b) => [b.name, b.value, b.unit, b.referenceRange])).toEqual([
+        ['LDL Cholesterol', '<30', 'mg/dL', 'Not specified'],
+        ['CRP', '>10', '', '<8.0'],
+      ]);
+      expect(biomarkers[1].status).toBe('high');
+    });
+
+    it('should return nothing for an empty text layer', () => {
+      expect(parseLabReportLines([])).toEqual({ layout: null, biomarkers: [], unmatchedRows: 0 });
+    });
+  });
+
+  describe('getUnparsedCategories', () => {
+    it('should skip the LLM when every result row matched', () => {
+      expect(getUnparsedCategories(parseLabReportLines(questReport))).toEqual([]);
+    });
+
+    it('should re-extract thin categories when some rows did not match', () => {
+      const categories = getUnparsedCategories(parseLabReportLines(labcorpReport));
+      expect(categories).toContain('liver');
+      expect(categories).toContain('thyroid');
+    });
+
+    it('should re-extract everything when nothing parsed', () => {
+      expect(getUnparsedCategories({ layout: null, biomarkers: [], unmatchedRows: 0 }).length).toBeGreaterThan(0);
+    });
+  });
+});
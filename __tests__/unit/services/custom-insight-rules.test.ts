@@ -0,0 +1,164 @@
+/**
+ * Tests for custom insight rule evaluation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateRuleCondition,
+  describeRuleCondition,
+  getRuleLookbackDays,
+  buildRuleMessage,
+} from '@/lib/services/custom-insight-rules/evaluator';
+import type { InsightRuleCondition } from '@/lib/services/custom-insight-rules/types';
+import type { UnifiedHealthDaily } from '@/lib/services/unified-data/types';
+import { createInsightRuleSchema } from '@/lib/validation/schemas';
+
+/**
+ * Daily rows ending on 2024-03-20, oldest value first
+ */
+function days(values: Array<Partial<UnifiedHealthDaily>>): UnifiedHealthDaily[] {
+  const end = new Date('2024-03-20T00:00:00Z').getTime();
+  return values.map((fields, i) => ({
+    email: 'test@example.com',
+    date: new Date(end - (values.length - 1 - i) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+    ...fields,
+  }));
+}
+
+const hrvDip: InsightRuleCondition = {
+  metric: 'hrv_avg',
+  op: 'lt',
+  baseline: { days: 14, percent: -15 },
+  consecutive_days: 2,
+};
+
+const steadyHrv = Array.from({ length: 14 }, () => ({ hrv_avg: 60 }));
+
+describe('custom insight rules', () => {
+  describe('evaluateRuleCondition', () => {
+    it('should match HRV 15% below the 14-day average two days in a row', () => {
+      const result = evaluateRuleCondition(hrvDip, days([...steadyHrv, { hrv_avg: 48 }, { hrv_avg: 47 }]));
+
+      expect(result.matched).toBe(true);
+      expect(result.evaluatedDate).toBe('2024-03-20');
+      expect(result.observations).toEqual([
+        { metric: 'hrv_avg', op: 'lt', observed: 47, target: 50.3, streak: 2, matched: true },
+      ]);
+    });
+
+    it('should not match when only the latest day is below baseline', () => {
+      const result = evaluateRuleCondition(hrvDip, days([...steadyHrv, { hrv_avg: 58 }, { hrv_avg: 47 }]));
+
+      expect(result.matched).toBe(false);
+      expect(result.observations[0].streak).toBe(1);
+    });
+
+    it('should break a streak on a missing day', () => {
+      const result = evaluateRuleCondition(hrvDip, days([...steadyHrv, {}, { hrv_avg: 47 }]));
+
+      expect(result.matched).toBe(false);
+    });
+
+    it('should not compare against a baseline with too few samples', () => {
+      const result = evaluateRuleCondition(hrvDip, days([{ hrv_avg: 60 }, { hrv_avg: 40 }, { hrv_avg: 40 }]));
+
+      expect(result.matched).toBe(false);
+      expect(result.observations[0].target).toBeNull();
+    });
+
+    it('should aggregate over a window against a fixed value', () => {
+      const condition: InsightRuleCondition = { metric: 'steps', aggregate: 'avg', window_days: 3, op: 'lt', value: 5000 };
+
+      expect(evaluateRuleCondition(condition, days([{ steps: 3000 }, { steps: 4000 }, { steps: 7000 }])).matched).toBe(true);
+      expect(evaluateRuleCondition(condition, days([{ steps: 6000 }, { steps: 4000 }, { steps: 7000 }])).matched).toBe(false);
+    });
+
+    it('should combine metrics with all and any', () => {
+      const data = days([{ sleep_hours: 5.5, meeting_count: 9, resting_hr: 58 }]);
+      const shortSleep: InsightRuleCondition = { metric: 'sleep_hours', op: 'lt', value: 6 };
+      const busy: InsightRuleCondition = { metric: 'meeting_count', op: 'gte', value: 8 };
+      const highHr: InsightRuleCondition = { metric: 'resting_hr', op: 'gt', value: 70 };
+
+      expect(evaluateRuleCondition({ all: [shortSleep, busy] }, data).matched).toBe(true);
+      expect(evaluateRuleCondition({ all: [shortSleep, highHr] }, data).matched).toBe(false);
+      expect(evaluateRuleCondition({ any: [highHr, { all: [shortSleep, busy] }] }, data).matched).toBe(true);
+    });
+
+    it('should report every observation in a combination', () => {
+      const result = evaluateRuleCondition(
+        { all: [{ metric: 'steps', op: 'lt', value: 1000 }, { metric: 'sleep_hours', op: 'lt', value: 6 }] },
+        days([{ steps: 8000, sleep_hours: 5 }])
+      );
+
+      expect(result.observations.map((o) => o.matched)).toEqual([false, true]);
+    });
+
+    it('should not match without data', () => {
+      expect(evaluateRuleCondition(hrvDip, [])).toEqual({ matched: false, evaluatedDate: null, observations: [] });
+    });
+  });
+
+  describe('describeRuleCondition', () => {
+    it('should describe baseline and streak conditions', () => {
+      expect(describeRuleCondition(hrvDip)).toBe('HRV < 14-day avg -15% for 2 days in a row');
+    });
+
+    it('should describe windows and combinations', () => {
+      expect(
+        describeRuleCondition({
+          all: [
+            { metric: 'steps', aggregate: 'avg', window_days: 7, op: 'lt', value: 5000 },
+            { any: [{ metric: 'sleep_hours', op: 'lt', value: 6 }, { metric: 'resting_hr', op: 'gt', value: 70 }] },
+          ],
+        })
+      ).toBe('7-day avg Steps < 5000 AND (Sleep hours < 6 OR Resting heart rate > 70)');
+    });
+  });
+
+  describe('getRuleLookbackDays', () => {
+    it('should cover the window, baseline and streak', () => {
+      expect(getRuleLookbackDays(hrvDip)).toBe(17);
+      expect(getRuleLookbackDays({ any: [hrvDip, { metric: 'steps', window_days: 30, op: 'lt', value: 1 }] })).toBe(31);
+    });
+  });
+
+  describe('buildRuleMessage', () => {
+    it('should prefer the rule message and fall back to matched values', () => {
+      const evaluation = evaluateRuleCondition(hrvDip, days([...steadyHrv, { hrv_avg: 48 }, { hrv_avg: 47 }]));
+
+      expect(buildRuleMessage({ condition: hrvDip, message: 'Take it easy today' }, evaluation)).toBe('Take it easy today');
+      expect(buildRuleMessage({ condition: hrvDip, message: null }, evaluation)).toBe(
+        'Your rule "HRV < 14-day avg -15% for 2 days in a row" matched (HRV 47 < 50.3).'
+      );
+    });
+  });
+
+  describe('createInsightRuleSchema', () => {
+    const base = { email: 'test@example.com', name: 'HRV dip' };
+
+    it('should accept a valid rule and default the severity', () => {
+      const result = createInsightRuleSchema.safeParse({ ...base, condition: hrvDip });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.severity).toBe('medium');
+    });
+
+    it('should require exactly one of value or baseline', () => {
+      expect(createInsightRuleSchema.safeParse({ ...base, condition: { metric: 'hrv_avg', op: 'lt' } }).success).toBe(false);
+      expect(
+        createInsightRuleSchema.safeParse({
+          ...base,
+          condition: { metric: 'hrv_avg', op: 'lt', value: 40, baseline: { days: 14 } },
+        }).success
+      ).toBe(false);
+    });
+
+    it('should reject unknown metrics and overly deep nesting', () => {
+      expect(createInsightRuleSchema.safeParse({ ...base, condition: { metric: 'mood', op: 'lt', value: 1 } }).success).toBe(false);
+
+      let nested: InsightRuleCondition = { metric: 'steps', op: 'lt', value: 1 };
+      for (let i = 0; i < 5; i++) nested = { all: [nested] };
+      expect(createInsightRuleSchema.safeParse({ ...base, condition: nested }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for delivery window evaluation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_DELIVERY_PREFERENCES,
+  evaluateDeliveryWindow,
+  getLocalTime,
+  getQuietReason,
+  inferSleepWindow,
+} from '@/lib/services/delivery-window/schedule';
+import type { DeliveryContext } from '@/lib/services/delivery-window/types';
+import { updateDeliveryPreferencesSchema } from '@/lib/validation/schemas';
+
+function context(overrides: Partial<DeliveryContext> = {}): DeliveryContext {
+  return {
+    preferences: DEFAULT_DELIVERY_PREFERENCES,
+    timezone: 'America/New_York',
+    sleepWindow: null,
+    ...overrides,
+  };
+}
+
+describe('delivery window', () => {
+  describe('getLocalTime', () => {
+    it('should convert to the recipient timezone', () => {
+      // Wednesday 2024-01-17 08:00 UTC is 03:00 in New York
+      expect(getLocalTime(new Date('2024-01-17T08:00:00Z'), 'America/New_York')).toEqual({ weekday: 3, minutes: 180 });
+      expect(getLocalTime(new Date('2024-01-17T08:00:00Z'), 'Asia/Tokyo')).toEqual({ weekday: 3, minutes: 17 * 60 });
+    });
+  });
+
+  describe('evaluateDeliveryWindow', () => {
+    it('should hold a 3am local notification until the quiet hours end', () => {
+      const result = evaluateDeliveryWindow(context(), new Date('2024-01-17T08:00:00Z'));
+
+      expect(result).toEqual({
+        open: false,
+        reason: 'quiet_hours',
+        timezone: 'America/New_York',
+        localTime: '03:00',
+        nextOpenAt: new Date('2024-01-17T12:00:00Z'),
+      });
+    });
+
+    it('should ignore the server clock', () => {
+      // 23:30 UTC is 18:30 in New York
+      expect(evaluateDeliveryWindow(context(), new Date('2024-01-17T23:30:00Z')).open).toBe(true);
+      expect(evaluateDeliveryWindow(context({ timezone: 'UTC' }), new Date('2024-01-17T23:30:00Z')).open).toBe(false);
+    });
+
+    it('should use the weekend schedule on Saturday and Sunday', () => {
+      const ctx = context({
+        preferences: { ...DEFAULT_DELIVERY_PREFERENCES, weekend: { start: 23, end: 9 } },
+      });
+
+      // Saturday 08:00 New York stays quiet until 09:00
+      const saturday = evaluateDeliveryWindow(ctx, new Date('2024-01-20T13:00:00Z'));
+      expect(saturday.open).toBe(false);
+      expect(saturday.nextOpenAt).toEqual(new Date('2024-01-20T14:00:00Z'));
+
+      // Monday 08:00 New York is past the weekday end
+      expect(evaluateDeliveryWindow(ctx, new Date('2024-01-22T13:00:00Z')).open).toBe(true);
+    });
+
+    it('should handle the daylight saving change', () => {
+      // 01:30 EST on 2024-03-10; clocks jump forward so 07:00 local is 11:00 UTC
+      const result = evaluateDeliveryWindow(context(), new Date('2024-03-10T06:30:00Z'));
+
+      expect(result.nextOpenAt).toEqual(new Date('2024-03-10T11:00:00Z'));
+    });
+
+    it('should treat equal start and end as no quiet hours', () => {
+      const ctx = context({
+        preferences: { ...DEFAULT_DELIVERY_PREFERENCES, weekday: { start: 0, end: 0 } },
+      });
+
+      expect(evaluateDeliveryWindow(ctx, new Date('2024-01-17T08:00:00Z')).open).toBe(true);
+    });
+  });
+
+  describe('sleep-aware quiet hours', () => {
+    const sleepWindow = { bedtime: '22:15', wakeTime: '06:30', nights: 10 };
+    const at2230 = new Date('2024-01-18T03:30:00Z'); // Wednesday 22:30 New York
+
+    it('should hold notifications while the user is usually asleep', () => {
+      const ctx = context({ preferences: { ...DEFAULT_DELIVERY_PREFERENCES, sleepAware: true }, sleepWindow });
+
+      expect(getQuietReason(at2230, ctx)).toBe('sleeping');
+    });
+
+    it('should ignore the sleep window unless enabled', () => {
+      expect(getQuietReason(at2230, context({ sleepWindow }))).toBeNull();
+    });
+  });
+
+  describe('inferSleepWindow', () => {
+    it('should take the median bedtime across midnight', () => {
+      const window = inferSleepWindow(
+        [
+          { bedtime_start: '2024-01-15T04:00:00Z', bedtime_end: '2024-01-15T11:30:00Z' }, // 23:00 - 06:30
+          { bedtime_start: '2024-01-16T04:40:00Z', bedtime_end: '2024-01-16T12:00:00Z' }, // 23:40 - 07:00
+          { bedtime_start: '2024-01-17T05:20:00Z', bedtime_end: '2024-01-17T12:10:00Z' }, // 00:20 - 07:10
+        ],
+        'America/New_York'
+      );
+
+      expect(window).toEqual({ bedtime: '23:40', wakeTime: '07:00', nights: 3 });
+    });
+
+    it('should need a few nights of data', () => {
+      expect(
+        inferSleepWindow([{ bedtime_start: '2024-01-15T04:00:00Z', bedtime_end: '2024-01-15T11:30:00Z' }], 'UTC')
+      ).toBeNull();
+    });
+  });
+
+  describe('updateDeliveryPreferencesSchema', () => {
+    const email = 'test@example.com';
+
+    it('should accept a timezone and quiet hours', () => {
+      expect(
+        updateDeliveryPreferencesSchema.safeParse({ email, timezone: 'Europe/London', weekend_quiet_hours_end: 9 }).success
+      ).toBe(true);
+      expect(updateDeliveryPreferencesSchema.safeParse({ email, timezone: null }).success).toBe(true);
+    });
+
+    it('should reject unknown timezones, bad hours and empty updates', () => {
+      expect(updateDeliveryPreferencesSchema.safeParse({ email, timezone: 'Mars/Olympus' }).success).toBe(false);
+      expect(updateDeliveryPreferencesSchema.safeParse({ email, quiet_hours_start: 24 }).success).toBe(false);
+      expect(updateDeliveryPreferencesSchema.safeParse({ email }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for share alert escalation planning
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  EscalationPolicy,
+  PolicyCaregiver,
+  isOnCall,
+  planDefaultEscalation,
+  planPolicyEscalation,
+} from '@/lib/services/share/escalation-policy';
+import { escalationPolicySchema } from '@/lib/validation/schemas';
+
+const DAUGHTER = '11111111-1111-4111-8111-111111111111';
+const SON = '22222222-2222-4222-8222-222222222222';
+const NEIGHBOUR = '33333333-3333-4333-8333-333333333333';
+
+const caregivers: PolicyCaregiver[] = [
+  { relationship_id: DAUGHTER, caregiver_email: 'daughter@example.com', caregiver_role: 'primary', label: 'Daughter', can_contact_emergency: true },
+  { relationship_id: SON, caregiver_email: 'son@example.com', caregiver_role: 'primary', label: 'Son', can_contact_emergency: false },
+  { relationship_id: NEIGHBOUR, caregiver_email: 'neighbour@example.com', caregiver_role: 'secondary', label: 'Neighbour', can_contact_emergency: true },
+];
+
+const WEEKDAYS = { days: [1, 2, 3, 4, 5] };
+const WEEKENDS = { days: [0, 6] };
+
+function policy(overrides: Partial<EscalationPolicy> = {}): EscalationPolicy {
+  return {
+    id: 'policy-1',
+    sharer_email: 'mom@example.com',
+    enabled: true,
+    timezone: 'UTC',
+    timers: { critical: 5, high: 30 },
+    steps: [
+      {
+        name: 'On call',
+        targets: [
+          { relationship_id: DAUGHTER, on_call: [WEEKDAYS] },
+          { relationship_id: SON, on_call: [WEEKENDS] },
+        ],
+      },
+      { name: 'Neighbour', targets: [{ relationship_id: NEIGHBOUR }] },
+    ],
+    emergency_step: false,
+    ...overrides,
+  };
+}
+
+// Wednesday and Saturday, 10:00 UTC
+const WEDNESDAY = new Date('2024-01-17T10:00:00Z');
+const SATURDAY = new Date('2024-01-20T10:00:00Z');
+
+describe('escalation policy', () => {
+  describe('isOnCall', () => {
+    it('should match days and hours in the policy timezone', () => {
+      const evenings = { on_call: [{ days: [3], start_hour: 18, end_hour: 23 }] };
+
+      expect(isOnCall(evenings, new Date('2024-01-17T19:00:00Z'), 'UTC')).toBe(true);
+      expect(isOnCall(evenings, new Date('2024-01-17T19:00:00Z'), 'America/New_York')).toBe(false);
+      expect(isOnCall({}, WEDNESDAY, 'UTC')).toBe(true);
+    });
+
+    it('should carry overnight windows into the next morning', () => {
+      const nights = { on_call: [{ days: [5], start_hour: 22, end_hour: 6 }] };
+
+      expect(isOnCall(nights, new Date('2024-01-19T23:00:00Z'), 'UTC')).toBe(true); // Friday night
+      expect(isOnCall(nights, new Date('2024-01-20T05:00:00Z'), 'UTC')).toBe(true); // Saturday early
+      expect(isOnCall(nights, new Date('2024-01-20T07:00:00Z'), 'UTC')).toBe(false);
+    });
+  });
+
+  describe('planPolicyEscalation', () => {
+    it('should notify whoever is on call first, then escalate on the severity timer', () => {
+      const plan = planPolicyEscalation(policy(), caregivers, 'high', WEDNESDAY, 'UTC');
+
+      expect(plan).toHaveLength(2);
+      expect(plan[0].recipients.map((r) => r.caregiverEmail)).toEqual(['daughter@example.com']);
+      expect(plan[0].recipients[0].channels).toEqual(['push']);
+      expect(plan[0].skipped).toEqual([
+        { relationshipId: SON, caregiverEmail: 'son@example.com', reason: 'off_call' },
+      ]);
+      expect(plan[1].notifyAt.toISOString()).toBe('2024-01-17T10:30:00.000Z');
+      expect(plan[1].recipients.map((r) => r.caregiverEmail)).toEqual(['neighbour@example.com']);
+
+      const weekend = planPolicyEscalation(policy(), caregivers, 'high', SATURDAY, 'UTC');
+      expect(weekend[0].recipients.map((r) => r.caregiverEmail)).toEqual(['son@example.com']);
+    });
+
+    it('should stop at severities without a timer', () => {
+      const plan = planPolicyEscalation(policy(), caregivers, 'medium', WEDNESDAY, 'UTC');
+      expect(plan.map((s) => s.name)).toEqual(['On call']);
+    });
+
+    it('should let a step override the timer and channels', () => {
+      const custom = policy();
+      custom.steps[1] = { ...custom.steps[1], delay_minutes: { critical: 2 }, channels: ['voice'] };
+
+      const plan = planPolicyEscalation(custom, caregivers, 'critical', WEDNESDAY, 'UTC');
+      expect(plan[1].notifyAt.toISOString()).toBe('2024-01-17T10:02:00.000Z');
+      expect(plan[1].recipients[0].channels).toEqual(['voice']);
+    });
+
+    it('should fall back to every target when nobody is on call', () => {
+      const plan = planPolicyEscalation(
+        policy({ steps: [{ targets: [{ relationship_id: SON, on_call: [WEEKENDS] }] }] }),
+        caregivers,
+        'high',
+        WEDNESDAY,
+        'UTC'
+      );
+
+      expect(plan[0].onCallFallback).toBe(true);
+      expect(plan[0].recipients.map((r) => r.caregiverEmail)).toEqual(['son@example.com']);
+    });
+
+    it('should skip inactive relationships and caregivers already notified', () => {
+      const plan = planPolicyEscalation(
+        policy({
+          steps: [
+            { targets: [{ relationship_id: DAUGHTER }] },
+            { targets: [{ relationship_id: DAUGHTER }, { relationship_id: '44444444-4444-4444-8444-444444444444' }] },
+          ],
+        }),
+        caregivers,
+        'critical',
+        WEDNESDAY,
+        'UTC'
+      );
+
+      expect(plan[1].recipients).toEqual([]);
+      expect(plan[1].skipped.map((s) => s.reason)).toEqual(['already_notified', 'not_active']);
+    });
+
+    it('should end with an emergency step for caregivers allowed to contact emergency services', () => {
+      const plan = planPolicyEscalation(policy({ emergency_step: true }), caregivers, 'critical', WEDNESDAY, 'UTC');
+      const emergency = plan[plan.length - 1];
+
+      expect(emergency.emergency).toBe(true);
+      expect(emergency.notifyAt.toISOString()).toBe('2024-01-17T10:10:00.000Z');
+      expect(emergency.recipients.map((r) => r.caregiverEmail)).toEqual(['daughter@example.com', 'neighbour@example.com']);
+      expect(emergency.recipients[0].channels).toEqual(['push', 'sms', 'voice']);
+    });
+  });
+
+  describe('planDefaultEscalation', () => {
+    it('should escalate high alerts to secondary caregivers after 30 minutes', () => {
+      const plan = planDefaultEscalation(
+        caregivers.map((c) => ({ ...c, receives_severity: c.caregiver_role === 'primary' })),
+        'high',
+        WEDNESDAY
+      );
+
+      expect(plan[0].recipients.map((r) => r.caregiverEmail)).toEqual(['daughter@example.com', 'son@example.com']);
+      expect(plan[1].notifyAt.toISOString()).toBe('2024-01-17T10:30:00.000Z');
+      expect(plan[1].recipients.map((r) => r.caregiverEmail)).toEqual(['neighbour@example.com']);
+    });
+
+    it('should not escalate low alerts', () => {
+      expect(planDefaultEscalation(caregivers, 'low', WEDNESDAY)).toHaveLength(1);
+    });
+  });
+
+  describe('escalationPolicySchema', () => {
+    it('should require at least one caregiver per step', () => {
+      expect(escalationPolicySchema.safeParse({ steps: [{ targets: [] }] }).success).toBe(false);
+      expect(escalationPolicySchema.safeParse({ steps: [{ targets: [{ relationship_id: DAUGHTER }] }] }).success).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Tests for FHIR export and import
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { NextRequest } from 'next/server';
+import type { Biomarker } from '@/lib/services/blood-analyzer/types';
+import { biomarker } from '../../fixtures/biomarkers';
+
+const mocks = vi.hoisted(() => ({
+  onboarding: null as Record<string, unknown> | null,
+  user: null as { id: string; email: string; app_metadata: Record<string, unknown> } | null,
+  relationship: null as { id: string; caregiver_role: string } | null,
+  permissions: null as Record<string, boolean> | null,
+  saveAnalysisToDatabase: vi.fn(),
+  recordAccess: vi.fn(),
+}));
+
+vi.mock('@/lib/supabase/server', () => {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    maybeSingle: async () => ({ data: mocks.onboarding, error: null }),
+  };
+  const client = {
+    from: () => query,
+    auth: { getUser: async () => ({ data: { user: mocks.user }, error: null }) },
+  };
+  return { createClient: async () => client, createAdminClient: () => client };
+});
+
+vi.mock('@/lib/services/unified-data', () => ({
+  getUnifiedHealthDaily: async () => [],
+  getUnifiedHealthData: async () => [],
+}));
+
+vi.mock('@/lib/services/goals-service', () => ({
+  getGoals: async () => [],
+}));
+
+vi.mock('@/lib/services/blood-analyzer/analyzer', () => ({
+  generateAnalysis: vi.fn(),
+  getUserDemographics: async () => ({}),
+  saveAnalysisToDatabase: mocks.saveAnalysisToDatabase,
+}));
+
+vi.mock('@/lib/services/share/share-relationship-service', () => ({
+  shareRelationshipService: {
+    instance: {
+      getActiveRelationship: async () => mocks.relationship,
+      getPermissions: async () => mocks.permissions,
+    },
+  },
+}));
+
+vi.mock('@/lib/services/share/access-audit-service', () => ({
+  accessAuditService: { instance: { recordAccess: mocks.recordAccess } },
+}));
+
+import {
+  exportFhirBundle,
+  importFhirLabBundle,
+  observationToBiomarker,
+  type FhirBundle,
+  type FhirDiagnosticReport,
+  type FhirObservation,
+} from '@/lib/services/fhir';
+import { GET, POST } from '@/app/api/health/fhir/route';
+
+const storedPanel = [
+  biomarker({ name: 'LDL Cholesterol', value: '130', referenceRange: '<100', status: 'high', category: 'lipids' }),
+  biomarker({ name: 'Glucose', value: '92', referenceRange: '70-99', status: 'normal', category: 'metabolic' }),
+];
+
+function resources<T>(bundle: FhirBundle, resourceType: string): T[] {
+  return (bundle.entry || [])
+    .map(entry => entry.resource)
+    .filter(resource => resource?.resourceType === resourceType) as T[];
+}
+
+function request(method: string, query: Record<string, string> = {}, body?: unknown): NextRequest {
+  const url = new URL('https://moccet.test/api/health/fhir');
+  for (const [key, value] of Object.entries(query)) url.searchParams.set(key, value);
+
+  const req = {
+    method,
+    url: url.toString(),
+    nextUrl: url,
+    headers: new Headers(),
+    json: async () => body,
+    clone: () => req,
+  };
+  return req as unknown as NextRequest;
+}
+
+beforeEach(() => {
+  mocks.onboarding = {
+    form_data: { fullName: 'Pat Doe', gender: 'Female' },
+    lab_file_analysis: { biomarkers: storedPanel, analyzedAt: '2026-05-01T09:00:00.000Z', summary: 'Lipids high' },
+  };
+  mocks.user = null;
+  mocks.relationship = null;
+  mocks.permissions = null;
+});
+
+describe('FHIR export', () => {
+  it('should group lab Observations under a DiagnosticReport', async () => {
+    const bundle = await exportFhirBundle('pat@example.com', { includeVitals: false, includeGoals: false });
+
+    const [report] = resources<FhirDiagnosticReport>(bundle, 'DiagnosticReport');
+    const observations = resources<FhirObservation & { id: string }>(bundle, 'Observation');
+
+    expect(observations).toHaveLength(2);
+    expect(report).toMatchObject({
+      status: 'final',
+      code: { coding: [{ system: 'http://loinc.org', code: '11502-2' }] },
+      effectiveDateTime: '2026-05-01T09:00:00.000Z',
+      conclusion: 'Lipids high',
+    });
+    expect(report.result).toEqual(observations.map(o => ({ reference: `urn:uuid:${o.id}` })));
+  });
+
+  it('should map a biomarker to a LOINC-coded laboratory Observation', async () => {
+    const bundle = await exportFhirBundle('pat@example.com', { includeVitals: false, includeGoals: false });
+    const [ldl] = resources<FhirObservation>(bundle, 'Observation');
+
+    expect(ldl).toMatchObject({
+      category: [{ coding: [{ code: 'laboratory' }] }],
+      code: { coding: [{ system: 'http://loinc.org', code: '13457-7' }], text: 'LDL Cholesterol' },
+      valueQuantity: { value: 130, unit: 'mg/dL' },
+      interpretation: [{ coding: [{ code: 'H' }] }],
+      referenceRange: [{ high: { value: 100, unit: 'mg/dL' }, text: '<100' }],
+    });
+  });
+
+  it('should leave the report out when labs are excluded', async () => {
+    const bundle = await exportFhirBundle('pat@example.com', { includeLabs: false, includeVitals: false });
+
+    expect(resources(bundle, 'DiagnosticReport')).toEqual([]);
+    expect(resources(bundle, 'Observation')).toEqual([]);
+  });
+});
+
+describe('FHIR import', () => {
+  it('should round-trip exported lab results', async () => {
+    const bundle = await exportFhirBundle('pat@example.com', { includeVitals: false, includeGoals: false });
+
+    const result = await importFhirLabBundle('pat@example.com', bundle);
+
+    expect(result).toMatchObject({ success: true, imported: 2 });
+    // The Patient is the only resource that isn't part of the lab panel
+    expect(result.skipped).toEqual([{ index: 0, reason: 'Unsupported resource type: Patient' }]);
+
+    const [, analysis, panel] = mocks.saveAnalysisToDatabase.mock.calls[0];
+    expect(analysis.biomarkers.map((b: Biomarker) => [b.name, b.value, b.unit, b.referenceRange, b.status])).toEqual(
+      storedPanel.map(b => [b.name, b.value, b.unit, b.referenceRange, b.status])
+    );
+    expect(panel).toEqual({ source: 'fhir', collectedAt: '2026-05-01T09:00:00.000Z' });
+  });
+
+  it('should replace the stored analysis rather than merge into it', async () => {
+    const bundle: FhirBundle = {
+      resourceType: 'Bundle',
+      type: 'collection',
+      entry: [
+        {
+          resource: {
+            resourceType: 'Observation',
+            status: 'final',
+            code: { text: 'Ferritin' },
+            valueQuantity: { value: 40, unit: 'ng/mL' },
+          },
+        },
+      ],
+    };
+
+    await importFhirLabBundle('pat@example.com', bundle);
+
+    const [email, analysis] = mocks.saveAnalysisToDatabase.mock.calls[0];
+    expect(email).toBe('pat@example.com');
+    expect(analysis.biomarkers.map((b: Biomarker) => b.name)).toEqual(['Ferritin']);
+    expect(analysis.totalCount).toBe(1);
+  });
+
+  it('should date the panel from the DiagnosticReport when Observations have no date', async () => {
+    const bundle: FhirBundle = {
+      resourceType: 'Bundle',
+      type: 'collection',
+      entry: [
+        { resource: { resourceType: 'DiagnosticReport', status: 'final', code: { text: 'Panel' }, issued: '2026-04-02' } },
+        {
+          resource: {
+            resourceType: 'Observation',
+            status: 'final',
+            code: { text: 'Ferritin' },
+            valueQuantity: { value: 40, unit: 'ng/mL' },
+          },
+        },
+      ],
+    };
+
+    const result = await importFhirLabBundle('pat@example.com', bundle);
+
+    expect(result.skipped).toEqual([]);
+    expect(mocks.saveAnalysisToDatabase.mock.calls[0][2]).toEqual({ source: 'fhir', collectedAt: '2026-04-02' });
+  });
+
+  it('should not store anything when no lab results can be imported', async () => {
+    const result = await importFhirLabBundle('pat@example.com', {
+      resourceType: 'Bundle',
+      type: 'collection',
+      entry: [{ resource: { resourceType: 'Observation', status: 'cancelled', code: { text: 'Ferritin' } } }],
+    });
+
+    expect(result).toMatchObject({ success: false, imported: 0 });
+    expect(mocks.saveAnalysisToDatabase).not.toHaveBeenCalled();
+  });
+
+  describe('observationToBiomarker', () => {
+    it('should derive the status from the reference range without an interpretation', () => {
+      const marker = observationToBiomarker({
+        resourceType: 'Observation',
+        status: 'final',
+        code: { text: 'Vitamin D' },
+        valueQuantity: { value: 18, unit: 'ng/mL' },
+        referenceRange: [{ low: { value: 30 }, high: { value: 100 } }],
+      });
+
+      expect(marker).toMatchObject({ value: '18', unit: 'ng/mL', referenceRange: '30-100', status: 'low' });
+    });
+
+    it('should reject vital-sign Observations', () => {
+      expect(observationToBiomarker({
+        resourceType: 'Observation',
+        status: 'final',
+        category: [{ coding: [{ code: 'vital-signs' }] }],
+        code: { text: 'Heart rate' },
+        valueQuantity: { value: 60 },
+      })).toBe('Not a laboratory observation');
+    });
+  });
+});
+
+describe('FHIR API access', () => {
+  const caregiver = { id: 'u2', email: 'carer@example.com', app_metadata: {} };
+
+  it('should require a signed-in caller', async () => {
+    const response = await GET(request('GET'));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should export a sharer\'s record when the share grants clinical details', async () => {
+    mocks.user = caregiver;
+    mocks.relationship = { id: 'rel-1', caregiver_role: 'primary' };
+    mocks.permissions = { can_see_clinical_details: true };
+
+    const response = await GET(request('GET', { email: 'pat@example.com' }));
+    const bundle = (response as unknown as { body: FhirBundle }).body;
+
+    expect(response.status).toBe(200);
+    expect(resources(bundle, 'Patient')).toMatchObject([{ telecom: [{ system: 'email', value: 'pat@example.com' }] }]);
+    expect(mocks.recordAccess).toHaveBeenCalledWith(expect.objectContaining({
+      sharerEmail: 'pat@example.com',
+      accessorEmail: 'carer@example.com',
+      dataCategories: ['can_see_clinical_details'],
+    }));
+  });
+
+  it('should refuse the export when the share does not grant clinical details', async () => {
+    mocks.user = caregiver;
+    mocks.relationship = { id: 'rel-1', caregiver_role: 'primary' };
+    mocks.permissions = { can_see_clinical_details: false };
+
+    const response = await GET(request('GET', { email: 'pat@example.com' }));
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should never import into someone else\'s record', async () => {
+    mocks.user = caregiver;
+    mocks.relationship = { id: 'rel-1', caregiver_role: 'primary' };
+    mocks.permissions = { can_see_clinical_details: true };
+
+    const response = await POST(request('POST', {}, { email: 'pat@example.com', bundle: {} }));
+
+    expect(response.status).toBe(403);
+    expect(mocks.saveAnalysisToDatabase).not.toHaveBeenCalled();
+  });
+});
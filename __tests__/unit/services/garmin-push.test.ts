@@ -0,0 +1,55 @@
+/**
+ * Tests for Garmin push handling and summary transforms
+ */
+
+import { describe, it, expect } from 'vitest';
+import { garminPushWindow, transformGarminSummaries } from '@/lib/services/garmin-service';
+
+describe('garminPushWindow', () => {
+  const now = new Date('2026-06-10T12:00:00Z');
+  const seconds = (iso: string) => new Date(iso).getTime() / 1000;
+
+  it('should start at the earliest upload in the push', () => {
+    const window = garminPushWindow([
+      { userId: 'g1', uploadStartTimeInSeconds: seconds('2026-06-10T06:00:00Z') },
+      { userId: 'g1', startTimeInSeconds: seconds('2026-06-09T22:00:00Z') },
+    ], now);
+
+    expect(window).toEqual({ startDate: new Date('2026-06-09T22:00:00Z'), endDate: now });
+  });
+
+  it('should pull the last day when the push carries no times', () => {
+    expect(garminPushWindow([{ userId: 'g1' }], now).startDate).toEqual(new Date('2026-06-09T12:00:00Z'));
+  });
+
+  it('should never reach back more than a week', () => {
+    const window = garminPushWindow([{ userId: 'g1', uploadStartTimeInSeconds: 0 }], now);
+    expect(window.startDate).toEqual(new Date('2026-06-03T12:00:00Z'));
+  });
+});
+
+describe('transformGarminSummaries', () => {
+  it('should keep the latest upload of a day', () => {
+    const records = transformGarminSummaries('user@example.com', {
+      dailies: [
+        { summaryId: 'd1', calendarDate: '2026-06-09', steps: 4200 },
+        { summaryId: 'd2', calendarDate: '2026-06-09', steps: 9800 },
+        { summaryId: 'd3', calendarDate: '2026-06-10', steps: 1200 },
+      ],
+    });
+
+    expect(records.map((r) => r.steps)).toEqual([9800, 1200]);
+  });
+
+  it('should keep the longest sleep of a day', () => {
+    const records = transformGarminSummaries('user@example.com', {
+      sleeps: [
+        { summaryId: 's1', calendarDate: '2026-06-09', lightSleepDurationInSeconds: 7 * 3600 },
+        { summaryId: 's2', calendarDate: '2026-06-09', lightSleepDurationInSeconds: 3600 },
+      ],
+    });
+
+    expect(records).toHaveLength(1);
+    expect(records[0].sleep_duration_hours).toBe(7);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Tests for Google Fit daily aggregates and transforms
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fetchGoogleFitDailyAggregates, transformGoogleFitData } from '@/lib/services/google-fit-service';
+
+describe('fetchGoogleFitDailyAggregates', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should bucket by calendar day in the user\'s timezone', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      bucket: [{
+        startTimeMillis: String(new Date('2026-06-09T07:00:00Z').getTime()),
+        endTimeMillis: String(new Date('2026-06-10T07:00:00Z').getTime()),
+        dataset: [
+          { point: [{ value: [{ intVal: 8000 }] }] },
+          { point: [] },
+          { point: [] },
+          { point: [] },
+          { point: [{ value: [{ fpVal: 71 }, { fpVal: 140 }, { fpVal: 52 }] }] },
+          { point: [] },
+        ],
+      }],
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const days = await fetchGoogleFitDailyAggregates(
+      'token',
+      new Date('2026-06-09T15:30:00Z'),
+      new Date('2026-06-10T15:30:00Z'),
+      'America/Los_Angeles'
+    );
+
+    const body = JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+    expect(body.bucketByTime).toEqual({ period: { type: 'day', value: 1, timeZoneId: 'America/Los_Angeles' } });
+    expect(body.startTimeMillis).toBe(new Date('2026-06-09T07:00:00Z').getTime());
+    expect(days).toEqual([expect.objectContaining({ date: '2026-06-09', steps: 8000, avgHeartRate: 71, minHeartRate: 52 })]);
+  });
+});
+
+describe('transformGoogleFitData', () => {
+  const millis = (iso: string) => String(new Date(iso).getTime());
+
+  it('should keep the night over a nap ending the same day', () => {
+    const records = transformGoogleFitData('user@example.com', [], [
+      { id: 'night', activityType: 72, startTimeMillis: millis('2026-06-08T23:00:00Z'), endTimeMillis: millis('2026-06-09T07:00:00Z') },
+      { id: 'nap', activityType: 72, startTimeMillis: millis('2026-06-09T14:00:00Z'), endTimeMillis: millis('2026-06-09T14:40:00Z') },
+    ]);
+
+    expect(records).toHaveLength(1);
+    expect(records[0].sleep_duration_hours).toBe(8);
+  });
+
+  it('should keep workouts that start at different times', () => {
+    const records = transformGoogleFitData('user@example.com', [], [
+      { id: 'run', activityType: 8, startTimeMillis: millis('2026-06-09T06:00:00Z'), endTimeMillis: millis('2026-06-09T06:30:00Z') },
+      { id: 'walk', activityType: 7, startTimeMillis: millis('2026-06-09T18:00:00Z'), endTimeMillis: millis('2026-06-09T18:45:00Z') },
+    ]);
+
+    expect(records).toHaveLength(2);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for health backfill chunking, checkpoints and deferral
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { BackfillJob } from '@/lib/services/health-backfill/types';
+
+const mocks = vi.hoisted(() => ({
+  updateBackfillJob: vi.fn(async () => undefined),
+  writeUnifiedRecords: vi.fn(async (records: unknown[]) => ({ success: true, written: records.length, failed: 0, errors: [] })),
+  fetchChunk: vi.fn(),
+}));
+
+vi.mock('@/lib/services/token-manager', () => ({
+  getAccessToken: async () => ({ token: 'token' }),
+}));
+
+vi.mock('@/lib/services/unified-data', () => ({
+  writeUnifiedRecords: mocks.writeUnifiedRecords,
+  updateDailyRollup: async () => ({ success: true }),
+}));
+
+vi.mock('@/lib/services/insight-trigger-service', () => ({
+  recomputeBaselinesFromHistory: async () => true,
+}));
+
+vi.mock('@/lib/services/health-backfill/jobs', () => ({
+  getRunnableBackfillJobs: async () => [],
+  updateBackfillJob: mocks.updateBackfillJob,
+}));
+
+import { BACKFILL_PROVIDERS, isBackfillProvider } from '@/lib/services/health-backfill/providers';
+import { getNextChunk, runBackfillJob } from '@/lib/services/health-backfill/runner';
+import { CircuitOpenError } from '@/lib/utils/circuit-breaker';
+
+function job(overrides: Partial<BackfillJob> = {}): BackfillJob {
+  return {
+    id: 'job-1',
+    user_email: 'user@example.com',
+    provider: 'oura',
+    mode: 'backfill',
+    status: 'running',
+    range_start: '2026-01-01',
+    range_end: '2026-03-01',
+    cursor_date: '2026-03-02',
+    chunk_days: 30,
+    chunks_completed: 0,
+    records_written: 0,
+    attempts: 0,
+    last_error: null,
+    next_attempt_at: null,
+    started_at: null,
+    completed_at: null,
+    rollups_recomputed_at: null,
+    created_at: '2026-03-02T00:00:00Z',
+    updated_at: '2026-03-02T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const day = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+describe('health backfill', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    BACKFILL_PROVIDERS.oura.fetchChunk = mocks.fetchChunk;
+    mocks.fetchChunk.mockResolvedValue([{}]);
+  });
+
+  describe('isBackfillProvider', () => {
+    it('should accept registered providers only', () => {
+      expect(isBackfillProvider('oura')).toBe(true);
+      expect(isBackfillProvider('garmin')).toBe(false);
+      expect(isBackfillProvider('constructor')).toBe(false);
+      expect(isBackfillProvider('toString')).toBe(false);
+    });
+  });
+
+  describe('getNextChunk', () => {
+    it('should walk back from the checkpoint a chunk at a time', () => {
+      expect(getNextChunk(job())).toEqual({ start: day('2026-01-31'), end: day('2026-03-02') });
+    });
+
+    it('should stop the last chunk at the range start', () => {
+      expect(getNextChunk(job({ cursor_date: '2026-01-20' }))).toEqual({ start: day('2026-01-01'), end: day('2026-01-20') });
+    });
+
+    it('should return null once the checkpoint reaches the range start', () => {
+      expect(getNextChunk(job({ cursor_date: '2026-01-01' }))).toBeNull();
+    });
+  });
+
+  describe('runBackfillJob', () => {
+    it('should fetch every chunk, checkpointing after each, then complete', async () => {
+      const result = await runBackfillJob(job(), { deadline: Date.now() + 60_000 });
+
+      expect(mocks.fetchChunk.mock.calls.map(([, , chunk]) => chunk)).toEqual([
+        { start: day('2026-01-31'), end: day('2026-03-02') },
+        { start: day('2026-01-01'), end: day('2026-01-31') },
+      ]);
+      expect(mocks.updateBackfillJob).toHaveBeenCalledWith('job-1', expect.objectContaining({ cursor_date: '2026-01-31', chunks_completed: 1 }));
+      expect(mocks.updateBackfillJob).toHaveBeenCalledWith('job-1', expect.objectContaining({ cursor_date: '2026-01-01', chunks_completed: 2 }));
+      expect(result).toMatchObject({ status: 'completed', chunksProcessed: 2, recordsWritten: 2 });
+    });
+
+    it('should resume from the checkpoint', async () => {
+      const result = await runBackfillJob(job({ cursor_date: '2026-01-31', chunks_completed: 1, records_written: 5 }), {
+        deadline: Date.now() + 60_000,
+      });
+
+      expect(mocks.fetchChunk).toHaveBeenCalledTimes(1);
+      expect(mocks.fetchChunk.mock.calls[0][2]).toEqual({ start: day('2026-01-01'), end: day('2026-01-31') });
+      expect(mocks.updateBackfillJob).toHaveBeenCalledWith('job-1', expect.objectContaining({ chunks_completed: 2, records_written: 6 }));
+      expect(result.status).toBe('completed');
+    });
+
+    it('should stop at the deadline and leave the rest for the next run', async () => {
+      const result = await runBackfillJob(job(), { deadline: Date.now() - 1 });
+
+      expect(mocks.fetchChunk).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ status: 'running', chunksProcessed: 0 });
+    });
+
+    it('should defer without losing the checkpoint while the circuit is open', async () => {
+      mocks.fetchChunk.mockRejectedValueOnce(new CircuitOpenError('oura', 30_000));
+
+      const result = await runBackfillJob(job({ cursor_date: '2026-01-31', attempts: 2 }), { deadline: Date.now() + 60_000 });
+
+      expect(result).toMatchObject({ deferred: true, status: 'running', chunksProcessed: 0 });
+      const [, patch] = mocks.updateBackfillJob.mock.calls[0] as unknown as [string, Record<string, unknown>];
+      expect(patch).not.toHaveProperty('cursor_date');
+      expect(patch).not.toHaveProperty('attempts');
+      expect(patch).not.toHaveProperty('status');
+      expect(new Date(patch.next_attempt_at as string).getTime()).toBeGreaterThan(Date.now() + 25_000);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Tests for the insight dry-run harness
+ *
+ * Runs processAllProviders against the fixture users with stubbed providers,
+ * database and LLM. Set INSIGHT_HARNESS_OUT to save the run as JSON,
+ * INSIGHT_HARNESS_BASELINE to print a diff against a saved run and
+ * INSIGHT_HARNESS_LABEL to name the run in the report.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync, writeFileSync } from 'fs';
+import { insightFixtureUsers, InsightFixtureUser } from '../../fixtures/insights';
+
+const harness = vi.hoisted(() => ({
+  users: [] as InsightFixtureUser[],
+  writes: [] as Array<{ table: string; op: string }>,
+}));
+
+function fixtureUser(email: string): InsightFixtureUser | undefined {
+  return harness.users.find((u) => u.email === email);
+}
+
+function providerResult(source: string, data: unknown) {
+  return {
+    source,
+    available: data != null,
+    data: data ?? null,
+    insights: [],
+    fetchedAt: '2024-01-15T08:00:00Z',
+  };
+}
+
+// The harness must never reach OpenAI; a real call would fail this mock
+vi.mock('openai', () => ({
+  default: class {
+    chat = { completions: { create: vi.fn(() => Promise.reject(new Error('OpenAI called in dry run'))) } };
+  },
+}));
+
+vi.mock('@/lib/services/ecosystem-fetcher', () => ({
+  fetchOuraData: vi.fn(async (email: string) => providerResult('oura', fixtureUser(email)?.providers.oura)),
+  fetchDexcomData: vi.fn(async (email: string) => providerResult('dexcom', fixtureUser(email)?.providers.dexcom)),
+  fetchWhoopData: vi.fn(async (email: string) => providerResult('whoop', fixtureUser(email)?.providers.whoop)),
+  fetchGmailPatterns: vi.fn(async (email: string) => providerResult('gmail', fixtureUser(email)?.providers.gmail)),
+  fetchSlackPatterns: vi.fn(async (email: string) => providerResult('slack', fixtureUser(email)?.providers.slack)),
+  fetchSpotifyData: vi.fn(async () => providerResult('spotify', null)),
+  fetchAppleHealthData: vi.fn(async () => providerResult('apple_health', null)),
+  fetchDeepContentData: vi.fn(async () => ({ slack: null, gmail: null, available: false })),
+  fetchAllEcosystemData: vi.fn(),
+}));
+
+vi.mock('@/lib/services/user-context-service', () => ({
+  getUserContext: vi.fn(async () => null),
+  getUserSubscriptionTier: vi.fn(async (email: string) => fixtureUser(email)?.tier || 'free'),
+}));
+
+vi.mock('@/lib/services/onesignal-service', () => ({
+  sendInsightNotification: vi.fn(),
+  sendCoordinatedInsightNotification: vi.fn(),
+  canSendNotification: vi.fn(async () => true),
+  wasThemeNotifiedToday: vi.fn(async () => false),
+  markThemeNotified: vi.fn(),
+  getInsightTheme: vi.fn(() => 'general'),
+}));
+
+vi.mock('@/lib/services/activity-inference-service', () => ({
+  inferUserActivities: vi.fn(),
+}));
+
+vi.mock('@/lib/services/local-recommendations-service', () => ({
+  searchLocalRecommendations: vi.fn(),
+  formatRecommendationsForInsight: vi.fn(),
+}));
+
+/**
+ * Minimal query builder over the fixture baselines that records writes
+ */
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+  createAdminClient: vi.fn(() => ({
+    from: (table: string) => {
+      const filters: Record<string, unknown> = {};
+      const rows = () => {
+        if (table !== 'user_health_baselines') return [];
+        const user = harness.users.find((u) => u.email === filters.email);
+        const baseline = user?.baselines[filters.metric_type as string];
+        return baseline ? [baseline] : [];
+      };
+      const write = (op: string) => () => {
+        harness.writes.push({ table, op });
+        return builder;
+      };
+      const builder = {
+        select: () => builder,
+        eq: (column: string, value: unknown) => {
+          filters[column] = value;
+          return builder;
+        },
+        gte: () => builder,
+        order: () => builder,
+        limit: () => builder,
+        insert: write('insert'),
+        update: write('update'),
+        upsert: write('upsert'),
+        single: async () => {
+          const [row] = rows();
+          return row ? { data: row, error: null } : { data: null, error: { message: 'No rows found' } };
+        },
+        then: (resolve: (value: { data: unknown[]; error: null }) => unknown) =>
+          Promise.resolve({ data: rows(), error: null }).then(resolve),
+      };
+      return builder;
+    },
+  })),
+}));
+
+import {
+  runInsightHarness,
+  diffInsightRuns,
+  formatInsightDiff,
+  CapturedInsight,
+  InsightHarnessRun,
+} from '@/lib/services/insight-harness';
+import { sendInsightNotification, sendCoordinatedInsightNotification } from '@/lib/services/onesignal-service';
+
+function keysFor(run: InsightHarnessRun, email: string): string[] {
+  return run.users.find((u) => u.email === email)?.insights.map((i) => i.key) || [];
+}
+
+describe('insight harness', () => {
+  beforeEach(() => {
+    harness.users = insightFixtureUsers;
+    harness.writes = [];
+  });
+
+  describe('runInsightHarness', () => {
+    it('should capture insights for every fixture user without side effects', async () => {
+      const run = await runInsightHarness(insightFixtureUsers, { label: process.env.INSIGHT_HARNESS_LABEL });
+
+      expect(run.users.map((u) => u.email)).toEqual(insightFixtureUsers.map((u) => u.email));
+      expect(harness.writes).toEqual([]);
+      expect(sendInsightNotification).not.toHaveBeenCalled();
+      expect(sendCoordinatedInsightNotification).not.toHaveBeenCalled();
+
+      if (process.env.INSIGHT_HARNESS_OUT) {
+        writeFileSync(process.env.INSIGHT_HARNESS_OUT, JSON.stringify(run, null, 2));
+      }
+      if (process.env.INSIGHT_HARNESS_BASELINE) {
+        const baseline = JSON.parse(readFileSync(process.env.INSIGHT_HARNESS_BASELINE, 'utf-8'));
+        console.log(formatInsightDiff(diffInsightRuns(baseline, run)));
+      }
+    });
+
+    it('should flag drops against the fixture baselines', async () => {
+      const run = await runInsightHarness(insightFixtureUsers);
+
+      expect(keysFor(run, 'poor-sleeper@example.com')).toEqual(
+        expect.arrayContaining([
+          'oura:sleep_alert:Sleep Quality Below Your Normal',
+          'oura:stress_indicator:HRV Indicates Elevated Stress',
+        ])
+      );
+      expect(keysFor(run, 'glucose-spikes@example.com')).toContain('dexcom:glucose_spike:Elevated Glucose Levels');
+      expect(keysFor(run, 'overreaching@example.com')).toContain('whoop:recovery_low:Recovery in Red Zone');
+    });
+
+    it('should use the stubbed LLM for AI insights', async () => {
+      const run = await runInsightHarness(insightFixtureUsers);
+      const sleeper = run.users.find((u) => u.email === 'poor-sleeper@example.com');
+      const newUser = run.users.find((u) => u.email === 'new-user@example.com');
+
+      expect(sleeper?.llmCalls).toBe(1);
+      expect(sleeper?.insights.map((i) => i.key)).toContain(
+        'ai_analysis:sleep_alert:Short Sleep Is Dragging Down Readiness'
+      );
+      expect(newUser?.insights.filter((i) => i.source_provider !== 'ai_analysis')).toEqual([]);
+    });
+  });
+
+  describe('diffInsightRuns', () => {
+    const insight: CapturedInsight = {
+      key: 'oura:sleep_alert:Sleep Quality Below Your Normal',
+      insight_type: 'sleep_alert',
+      title: 'Sleep Quality Below Your Normal',
+      message: 'Your readiness score of 58 is 28% below your usual 80.',
+      severity: 'critical',
+      actionable_recommendation: 'Go to bed earlier.',
+      source_provider: 'oura',
+      source_data_type: 'readiness',
+    };
+
+    function run(label: string, insights: CapturedInsight[]): InsightHarnessRun {
+      return {
+        label,
+        generatedAt: '2024-01-15T08:00:00Z',
+        users: [{ email: 'a@example.com', insights, errors: [], llmCalls: 0 }],
+      };
+    }
+
+    it('should report added, removed and changed insights', () => {
+      const removed = { ...insight, key: 'oura:stress_indicator:HRV', insight_type: 'stress_indicator' as const };
+      const added = { ...insight, key: 'whoop:recovery_low:Red', source_provider: 'whoop' };
+      const diff = diffInsightRuns(
+        run('before', [insight, removed]),
+        run('after', [{ ...insight, severity: 'high' }, added])
+      );
+
+      expect(diff.summary).toEqual({ added: 1, removed: 1, changed: 1, unchanged: 0 });
+      expect(diff.users[0].changed[0].changes).toEqual([{ field: 'severity', before: 'critical', after: 'high' }]);
+      expect(formatInsightDiff(diff)).toContain('~ oura:sleep_alert:Sleep Quality Below Your Normal');
+    });
+
+    it('should omit users whose insights did not change', () => {
+      const diff = diffInsightRuns(run('before', [insight]), run('after', [insight]));
+
+      expect(diff.users).toEqual([]);
+      expect(diff.summary.unchanged).toBe(1);
+    });
+  });
+});
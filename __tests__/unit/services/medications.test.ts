@@ -0,0 +1,194 @@
+/**
+ * Tests for medication scheduling, compliance, refills and interactions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeCompliance,
+  expandDoseTimes,
+  isDoseOverdue,
+  predictRefill,
+  zonedTimeToUtc,
+} from '@/lib/services/medications/schedule';
+import { checkMedicationInteractions } from '@/lib/services/medications/interactions';
+import type { Medication } from '@/lib/services/medications/types';
+import { createMedicationSchema } from '@/lib/validation/schemas';
+
+function medication(overrides: Partial<Medication> = {}): Medication {
+  return {
+    id: 'med-1',
+    user_email: 'user@example.com',
+    name: 'Lisinopril',
+    generic_name: null,
+    dosage: '10 mg',
+    units_per_dose: 1,
+    unit_label: 'tablet',
+    frequency: 'Daily',
+    schedule_times: ['08:00'],
+    days_of_week: null,
+    as_needed: false,
+    is_critical: false,
+    missed_after_minutes: 60,
+    instructions: null,
+    supply_remaining: null,
+    refill_threshold_days: 7,
+    last_refilled_at: null,
+    refill_reminded_at: null,
+    start_date: null,
+    end_date: null,
+    is_active: true,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('medications', () => {
+  describe('zonedTimeToUtc', () => {
+    it('should keep local dose times across DST changes', () => {
+      // New York is UTC-5 in January and UTC-4 in July
+      expect(zonedTimeToUtc('2024-01-17', 8 * 60, 'America/New_York').toISOString()).toBe('2024-01-17T13:00:00.000Z');
+      expect(zonedTimeToUtc('2024-07-17', 8 * 60, 'America/New_York').toISOString()).toBe('2024-07-17T12:00:00.000Z');
+    });
+  });
+
+  describe('expandDoseTimes', () => {
+    it('should expand local schedule times within the range', () => {
+      const times = expandDoseTimes(
+        medication({ schedule_times: ['20:00', '08:00'] }),
+        new Date('2024-01-17T12:00:00Z'),
+        new Date('2024-01-18T12:00:00Z'),
+        'America/New_York'
+      );
+
+      expect(times.map((t) => t.toISOString())).toEqual([
+        '2024-01-17T13:00:00.000Z',
+        '2024-01-18T01:00:00.000Z',
+      ]);
+    });
+
+    it('should honour days of week and the end date', () => {
+      const from = new Date('2024-01-15T00:00:00Z'); // Monday
+      const to = new Date('2024-01-22T00:00:00Z');
+
+      const weekly = expandDoseTimes(medication({ days_of_week: [1, 4] }), from, to, 'UTC');
+      expect(weekly.map((t) => t.toISOString())).toEqual([
+        '2024-01-15T08:00:00.000Z',
+        '2024-01-18T08:00:00.000Z',
+      ]);
+
+      const ending = expandDoseTimes(medication({ end_date: '2024-01-16' }), from, to, 'UTC');
+      expect(ending).toHaveLength(2);
+    });
+
+    it('should not schedule as-needed medications', () => {
+      const times = expandDoseTimes(
+        medication({ as_needed: true }),
+        new Date('2024-01-15T00:00:00Z'),
+        new Date('2024-01-22T00:00:00Z'),
+        'UTC'
+      );
+      expect(times).toEqual([]);
+    });
+  });
+
+  describe('isDoseOverdue', () => {
+    it('should only flag untaken doses past the missed window', () => {
+      const dose = { status: 'scheduled' as const, scheduled_time: '2024-01-17T08:00:00Z' };
+
+      expect(isDoseOverdue(dose, 60, new Date('2024-01-17T08:59:00Z'))).toBe(false);
+      expect(isDoseOverdue(dose, 60, new Date('2024-01-17T09:00:00Z'))).toBe(true);
+      expect(isDoseOverdue({ ...dose, status: 'taken' }, 60, new Date('2024-01-17T10:00:00Z'))).toBe(false);
+    });
+  });
+
+  describe('computeCompliance', () => {
+    it('should ignore doses still in their window', () => {
+      const summary = computeCompliance([
+        { status: 'taken', scheduled_time: '2024-01-17T08:00:00Z', taken_at: '2024-01-17T08:10:00Z' },
+        { status: 'taken', scheduled_time: '2024-01-17T20:00:00Z', taken_at: '2024-01-17T23:00:00Z' },
+        { status: 'missed', scheduled_time: '2024-01-18T08:00:00Z', taken_at: null },
+        { status: 'skipped', scheduled_time: '2024-01-18T20:00:00Z', taken_at: null },
+        { status: 'scheduled', scheduled_time: '2024-01-19T08:00:00Z', taken_at: null },
+      ]);
+
+      expect(summary).toEqual({
+        due: 4,
+        taken: 2,
+        skipped: 1,
+        missed: 1,
+        adherencePct: 50,
+        onTimePct: 50,
+      });
+    });
+
+    it('should report no adherence with nothing due', () => {
+      expect(computeCompliance([]).adherencePct).toBeNull();
+    });
+  });
+
+  describe('predictRefill', () => {
+    it('should predict the run-out date from the scheduled rate', () => {
+      const prediction = predictRefill(
+        medication({ schedule_times: ['08:00', '20:00'], supply_remaining: 10 }),
+        new Date('2024-01-17T12:00:00Z')
+      );
+
+      expect(prediction).toMatchObject({
+        unitsPerDay: 2,
+        daysRemaining: 5,
+        runOutDate: '2024-01-22',
+        needsRefill: true,
+      });
+    });
+
+    it('should account for weekly schedules', () => {
+      const prediction = predictRefill(medication({ days_of_week: [1], supply_remaining: 4 }));
+      expect(prediction?.daysRemaining).toBe(28);
+      expect(prediction?.needsRefill).toBe(false);
+    });
+
+    it('should skip untracked supply', () => {
+      expect(predictRefill(medication())).toBeNull();
+    });
+  });
+
+  describe('checkMedicationInteractions', () => {
+    it('should flag supplements that interact with a medication', () => {
+      const interactions = checkMedicationInteractions(
+        [medication({ name: 'Coumadin', generic_name: 'warfarin' })],
+        ['Nordic Naturals Ultimate Omega', 'Vitamin D3']
+      );
+
+      expect(interactions).toHaveLength(1);
+      expect(interactions[0]).toMatchObject({
+        medication: 'Coumadin',
+        supplement: 'Nordic Naturals Ultimate Omega',
+        severity: 'major',
+      });
+    });
+
+    it('should order interactions most severe first', () => {
+      const interactions = checkMedicationInteractions(
+        [medication({ id: 'a', name: 'Ambien' }), medication({ id: 'b', name: 'Lisinopril' })],
+        ['Melatonin', 'Potassium Citrate']
+      );
+
+      expect(interactions.map((i) => i.severity)).toEqual(['major', 'minor']);
+    });
+
+    it('should match whole words only', () => {
+      expect(checkMedicationInteractions([medication({ name: 'Zoloft' })], ['Samento'])).toEqual([]);
+    });
+  });
+
+  describe('createMedicationSchema', () => {
+    it('should require a schedule unless taken as needed', () => {
+      const base = { email: 'user@example.com', name: 'Ibuprofen' };
+
+      expect(createMedicationSchema.safeParse(base).success).toBe(false);
+      expect(createMedicationSchema.safeParse({ ...base, as_needed: true }).success).toBe(true);
+      expect(createMedicationSchema.safeParse({ ...base, schedule_times: ['8:00'] }).success).toBe(false);
+    });
+  });
+});
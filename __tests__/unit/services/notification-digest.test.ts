@@ -0,0 +1,98 @@
+/**
+ * Tests for notification digest ranking
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/services/notification-coordinator', () => ({
+  NotificationCoordinator: { send: vi.fn() },
+}));
+
+vi.mock('@/lib/services/preference-learner', () => ({
+  PreferenceLearner: { getPreferences: vi.fn() },
+}));
+
+import {
+  rankDigestItems,
+  buildDigestContent,
+  DigestCandidate,
+} from '@/lib/services/notification-digest';
+import type { CategoryPreferences } from '@/lib/services/preference-learner';
+
+const neutral: CategoryPreferences = {
+  self_development: 0.5,
+  fitness: 0.5,
+  cooking: 0.5,
+  productivity: 0.5,
+  life_advice: 0.5,
+  health_insights: 0.5,
+};
+
+function candidate(id: string, fields: Partial<DigestCandidate> = {}): DigestCandidate {
+  return {
+    id,
+    sourceService: 'insights',
+    notificationType: 'sleep_alert',
+    theme: 'sleep',
+    severity: 'medium',
+    title: `Title ${id}`,
+    body: `Body ${id}`,
+    createdAt: '2024-01-15T10:00:00Z',
+    ...fields,
+  };
+}
+
+describe('notification digest', () => {
+  describe('rankDigestItems', () => {
+    it('should rank by severity with neutral engagement', () => {
+      const ranked = rankDigestItems(
+        [candidate('low', { severity: 'low' }), candidate('high', { severity: 'high' }), candidate('medium')],
+        neutral
+      );
+
+      expect(ranked.map((i) => [i.id, i.score])).toEqual([['high', 3], ['medium', 2], ['low', 1]]);
+    });
+
+    it('should boost categories the user engages with', () => {
+      const ranked = rankDigestItems(
+        [
+          candidate('streak', { sourceService: 'streak_alerts', theme: 'streak' }),
+          candidate('workout', { sourceService: 'proactive_engagement', theme: 'exercise' }),
+        ],
+        { ...neutral, fitness: 1, self_development: 0.1 }
+      );
+
+      expect(ranked.map((i) => [i.id, i.score])).toEqual([['workout', 3], ['streak', 1.2]]);
+    });
+
+    it('should clamp engagement and prefer recent items on ties', () => {
+      const ranked = rankDigestItems(
+        [
+          candidate('older', { theme: null, createdAt: '2024-01-15T08:00:00Z' }),
+          candidate('newer', { theme: 'general', createdAt: '2024-01-15T12:00:00Z' }),
+        ],
+        { ...neutral, health_insights: 7 }
+      );
+
+      expect(ranked.map((i) => [i.id, i.score])).toEqual([['newer', 3], ['older', 3]]);
+    });
+  });
+
+  describe('buildDigestContent', () => {
+    it('should summarize the top items', () => {
+      const items = rankDigestItems(['a', 'b', 'c', 'd', 'e'].map((id) => candidate(id)), neutral);
+
+      expect(buildDigestContent(items)).toEqual({
+        title: '5 updates you missed today',
+        body: 'Title a • Title b • Title c (+2 more)',
+      });
+    });
+
+    it('should pass a single item through unchanged', () => {
+      expect(buildDigestContent(rankDigestItems([candidate('a')], neutral))).toEqual({
+        title: 'Title a',
+        body: 'Body a',
+      });
+    });
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Tests for the provider directory and appointment scheduling
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BookingError } from '@/lib/services/provider-directory/errors';
+import { FIXTURE_PROVIDERS, FixtureProviderDirectory } from '@/lib/services/provider-directory/fixture-backend';
+import {
+  bookedSlotFromFhir,
+  buildAppointmentResource,
+  slotFromFhir,
+} from '@/lib/services/provider-directory/fhir-scheduling-client';
+import { NpiResult, buildNpiSearchParams, mapNpiResult } from '@/lib/services/provider-directory/npi-importer';
+import { isInNetwork, parseLocationQuery } from '@/lib/services/provider-directory/search';
+import { getDueAppointmentReminder, pickSlot } from '@/lib/services/provider-directory/scheduling';
+import { getProviderDirectory, setProviderDirectory } from '@/lib/services/provider-directory';
+
+vi.mock('@/lib/services/notification-coordinator', () => ({
+  NotificationCoordinator: { send: vi.fn() },
+}));
+
+// Monday 2024-01-15
+const MONDAY = new Date('2024-01-15T00:00:00Z');
+const WEEK_LATER = new Date('2024-01-22T00:00:00Z');
+
+describe('provider directory', () => {
+  describe('parseLocationQuery', () => {
+    it('should split city and state, states and ZIP codes', () => {
+      expect(parseLocationQuery('San Francisco, CA')).toEqual({ city: 'San Francisco', state: 'CA' });
+      expect(parseLocationQuery('ca')).toEqual({ state: 'CA' });
+      expect(parseLocationQuery('94110-1234')).toEqual({ postalCode: '94110' });
+      expect(parseLocationQuery('Oakland')).toEqual({ city: 'Oakland' });
+    });
+  });
+
+  describe('FixtureProviderDirectory', () => {
+    let directory: FixtureProviderDirectory;
+
+    beforeEach(() => {
+      directory = new FixtureProviderDirectory();
+    });
+
+    it('should filter by specialty, location and insurance, keeping providers with unknown networks', async () => {
+      const endo = await directory.searchProviders({ specialty: 'endo', location: 'San Francisco, CA' });
+      expect(endo.map((p) => p.id)).toEqual(['fixture_endo_1']);
+
+      const kaiser = await directory.searchProviders({ insurance: 'Kaiser' });
+      expect(kaiser.map((p) => p.id)).toEqual(['fixture_endo_1', 'fixture_derm_1', 'fixture_lab_1']);
+
+      const oakland = await directory.searchProviders({ location: '94610' });
+      expect(oakland.map((p) => p.name)).toEqual(['Lakeshore Dermatology']);
+    });
+
+    it('should offer weekday slots and take booked ones off the schedule', async () => {
+      const provider = (await directory.getProvider('fixture_pcp_1'))!;
+      const slots = await directory.findSlots(provider, { from: MONDAY, to: WEEK_LATER });
+
+      expect(slots).toHaveLength(30);
+      expect(slots[0].start).toBe('2024-01-15T09:00:00.000Z');
+      expect(slots[0].end).toBe('2024-01-15T09:30:00.000Z');
+
+      const booked = await directory.bookSlot(provider, slots[0], {
+        patientEmail: 'user@example.com',
+        appointmentType: 'checkup',
+      });
+      expect(booked.status).toBe('confirmed');
+
+      const after = await directory.findSlots(provider, { from: MONDAY, to: WEEK_LATER });
+      expect(after[0].start).toBe('2024-01-15T10:00:00.000Z');
+      await expect(directory.bookSlot(provider, slots[0], {
+        patientEmail: 'other@example.com',
+        appointmentType: 'checkup',
+      })).rejects.toBeInstanceOf(BookingError);
+
+      await directory.cancelBooking(booked.externalId, 'Feeling better');
+      expect(directory.bookings[0]).toMatchObject({ cancelled: true, cancellationReason: 'Feeling better' });
+      expect(await directory.findSlots(provider, { from: MONDAY, to: WEEK_LATER })).toHaveLength(30);
+    });
+
+    it('should have no slots for providers that do not book online', async () => {
+      const lab = (await directory.getProvider('fixture_lab_1'))!;
+      expect(await directory.findSlots(lab, { from: MONDAY, to: WEEK_LATER })).toEqual([]);
+    });
+  });
+
+  describe('isInNetwork', () => {
+    it('should be null when the directory does not list networks', () => {
+      const [pcp, , derm] = FIXTURE_PROVIDERS;
+      expect(isInNetwork(pcp, 'Blue Cross Blue Shield')).toBe(true);
+      expect(isInNetwork(pcp, 'Kaiser')).toBe(false);
+      expect(isInNetwork(derm, 'Kaiser')).toBeNull();
+    });
+  });
+
+  describe('NPI importer', () => {
+    const result: NpiResult = {
+      number: 1234567890,
+      enumeration_type: 'NPI-1',
+      basic: { first_name: 'JANE', last_name: "O'NEIL", credential: 'M.D.', status: 'A' },
+      addresses: [
+        { address_purpose: 'MAILING', address_1: 'PO BOX 1', city: 'SACRAMENTO', state: 'CA', postal_code: '958140000' },
+        { address_purpose: 'LOCATION', address_1: '100 MAIN ST', address_2: 'SUITE 2', city: 'SAN FRANCISCO', state: 'CA', postal_code: '941101234', telephone_number: '415-555-0100' },
+      ],
+      taxonomies: [
+        { code: '207Q00000X', desc: 'Family Medicine', primary: false },
+        { code: '207RE0101X', desc: 'Internal Medicine, Endocrinology, Diabetes & Metabolism', primary: true },
+      ],
+    };
+
+    it('should map the practice location and primary taxonomy', () => {
+      expect(mapNpiResult(result, MONDAY)).toEqual({
+        npi: '1234567890',
+        name: "Jane O'Neil",
+        credential: 'M.D.',
+        specialty: 'Internal Medicine, Endocrinology, Diabetes & Metabolism',
+        taxonomy_code: '207RE0101X',
+        address: '100 Main St, Suite 2',
+        city: 'San Francisco',
+        state: 'CA',
+        postal_code: '94110',
+        phone: '4155550100',
+        source: 'npi',
+        imported_at: MONDAY.toISOString(),
+      });
+    });
+
+    it('should skip deactivated providers and name organizations', () => {
+      expect(mapNpiResult({ ...result, basic: { ...result.basic, status: 'D' } })).toBeNull();
+      expect(mapNpiResult({
+        ...result,
+        enumeration_type: 'NPI-2',
+        basic: { organization_name: 'BAY LABS INC', status: 'A' },
+      })?.name).toBe('Bay Labs Inc');
+    });
+
+    it('should search by taxonomy and parsed location', () => {
+      const params = buildNpiSearchParams({ specialty: 'Cardiology', location: 'Oakland, CA', limit: 500 });
+      expect(params.get('taxonomy_description')).toBe('Cardiology');
+      expect(params.get('city')).toBe('Oakland');
+      expect(params.get('state')).toBe('CA');
+      expect(params.get('limit')).toBe('200');
+    });
+  });
+
+  describe('FHIR scheduling', () => {
+    const slot = slotFromFhir({
+      resourceType: 'Slot',
+      id: 'slot-1',
+      schedule: { reference: 'Schedule/sched-1' },
+      status: 'free',
+      start: '2024-01-15T17:00:00Z',
+      end: '2024-01-15T17:30:00Z',
+      appointmentType: { coding: [{ code: 'ROUTINE' }] },
+    }, 'provider-1')!;
+
+    it('should read free slots and ignore busy ones', () => {
+      expect(slot).toEqual({
+        id: 'slot-1',
+        providerId: 'provider-1',
+        start: '2024-01-15T17:00:00.000Z',
+        end: '2024-01-15T17:30:00.000Z',
+        appointmentType: 'ROUTINE',
+      });
+      expect(slotFromFhir({
+        resourceType: 'Slot', id: 'slot-2', schedule: {}, status: 'busy', start: slot.start, end: slot.end,
+      }, 'provider-1')).toBeNull();
+    });
+
+    it('should book the slot for the practitioner and map the server status', () => {
+      const appointment = buildAppointmentResource(slot, 'prac-1', {
+        patientEmail: 'user@example.com',
+        appointmentType: 'consultation',
+        reason: 'Thyroid follow-up',
+      });
+      expect(appointment.slot).toEqual([{ reference: 'Slot/slot-1' }]);
+      expect(appointment.participant[0].actor).toEqual({ reference: 'Practitioner/prac-1' });
+      expect(appointment.description).toBe('Thyroid follow-up');
+
+      expect(bookedSlotFromFhir({ ...appointment, id: 'appt-1' }, slot).status).toBe('confirmed');
+      expect(bookedSlotFromFhir({ ...appointment, id: 'appt-1', status: 'pending' }, slot).status).toBe('pending');
+      expect(() => bookedSlotFromFhir({ ...appointment, id: 'appt-1', status: 'cancelled' }, slot)).toThrow(BookingError);
+    });
+  });
+
+  describe('pickSlot', () => {
+    it('should pick the first slot after the preferred start in the preferred part of the day', async () => {
+      const directory = new FixtureProviderDirectory();
+      const slots = await directory.findSlots(FIXTURE_PROVIDERS[0], { from: MONDAY, to: WEEK_LATER });
+
+      expect(pickSlot(slots, MONDAY, 'any', 'UTC')?.start).toBe('2024-01-15T09:00:00.000Z');
+      expect(pickSlot(slots, MONDAY, 'afternoon', 'UTC')?.start).toBe('2024-01-15T14:00:00.000Z');
+      // 09:00-11:00 UTC is 01:00-03:00 in Los Angeles; 14:00 UTC is 06:00
+      expect(pickSlot(slots, MONDAY, 'morning', 'America/Los_Angeles')?.start).toBe('2024-01-15T14:00:00.000Z');
+      expect(pickSlot(slots, new Date('2024-01-19T17:00:00Z'), 'any', 'UTC')).toBeNull();
+    });
+  });
+
+  describe('getDueAppointmentReminder', () => {
+    const appointment = {
+      scheduled_at: '2024-01-16T15:00:00.000Z',
+      status: 'confirmed' as const,
+      reminders_sent: [] as Array<'day_before' | 'two_hours'>,
+    };
+
+    it('should remind the day before and two hours before', () => {
+      expect(getDueAppointmentReminder(appointment, new Date('2024-01-15T14:00:00Z'))).toBeNull();
+      expect(getDueAppointmentReminder(appointment, new Date('2024-01-15T15:00:00Z'))).toBe('day_before');
+      expect(getDueAppointmentReminder(
+        { ...appointment, reminders_sent: ['day_before'] },
+        new Date('2024-01-16T10:00:00Z')
+      )).toBeNull();
+      expect(getDueAppointmentReminder(
+        { ...appointment, reminders_sent: ['day_before'] },
+        new Date('2024-01-16T13:30:00Z')
+      )).toBe('two_hours');
+    });
+
+    it('should send a single reminder for late bookings and none for cancelled ones', () => {
+      expect(getDueAppointmentReminder(appointment, new Date('2024-01-16T14:00:00Z'))).toBe('two_hours');
+      expect(getDueAppointmentReminder(
+        { ...appointment, status: 'cancelled' },
+        new Date('2024-01-16T14:00:00Z')
+      )).toBeNull();
+    });
+  });
+
+  describe('backend selection', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      setProviderDirectory(null);
+    });
+
+    function stubDirectoryEnv(env: { NODE_ENV: string; PROVIDER_DIRECTORY_BACKEND?: string }) {
+      vi.stubEnv('NODE_ENV', env.NODE_ENV);
+      vi.stubEnv('PROVIDER_DIRECTORY_BACKEND', env.PROVIDER_DIRECTORY_BACKEND || '');
+      vi.stubEnv('FHIR_SCHEDULING_BASE_URL', '');
+    }
+
+    it('should only default to the fixture under test', () => {
+      stubDirectoryEnv({ NODE_ENV: 'test' });
+      expect(getProviderDirectory().name).toBe('fixture');
+    });
+
+    it('should default to the registry outside of tests', () => {
+      stubDirectoryEnv({ NODE_ENV: 'production' });
+      expect(getProviderDirectory().name).toBe('registry');
+    });
+
+    it('should use the fixture when explicitly configured', () => {
+      stubDirectoryEnv({ NODE_ENV: 'development', PROVIDER_DIRECTORY_BACKEND: 'fixture' });
+      expect(getProviderDirectory().name).toBe('fixture');
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Tests for replenishment scheduling and substitution
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ProductMatch } from '@/lib/services/supplement-matching';
+import type { RankedProduct } from '@/lib/services/supplement-catalog/types';
+import {
+  MAX_CADENCE_DAYS,
+  MIN_CADENCE_DAYS,
+  addDays,
+  estimateCadence,
+  firstShipDate,
+  isDueForShipment,
+  needsReminder,
+  nextShipDate,
+  resumeShipDate,
+  savedChargeAction,
+  shouldResume,
+  unitsPerServing,
+} from '@/lib/services/replenishment/schedule';
+import { rankSubstitutes, substituteQuery } from '@/lib/services/replenishment/substitution';
+import { product } from '../../fixtures/supplements';
+
+function ranked(p: ProductMatch): RankedProduct {
+  return { product: p, score: 0.5, addresses: [] };
+}
+
+describe('unitsPerServing', () => {
+  it('reads the count of serving units', () => {
+    expect(unitsPerServing('2 capsules twice daily')).toBe(2);
+    expect(unitsPerServing('Take two softgels with food')).toBe(2);
+    expect(unitsPerServing('1 scoop (5g) daily', 'g')).toBe(5);
+  });
+
+  it('defaults to one when the dosage is an amount of nutrient', () => {
+    expect(unitsPerServing('1000mg daily', 'capsules')).toBe(1);
+    expect(unitsPerServing('5000 IU')).toBe(1);
+  });
+});
+
+describe('estimateCadence', () => {
+  it('divides the shipment by daily use', () => {
+    expect(estimateCadence({ quantity: 120, unit: 'capsules' }, '2 capsules twice daily')).toEqual({
+      unitsPerDay: 4,
+      daysSupply: 30,
+      cadenceDays: 30,
+    });
+    expect(estimateCadence({ quantity: 60, unit: 'capsules' }, '1 capsule daily', 2).cadenceDays).toBe(120);
+  });
+
+  it('clamps to the allowed cadence range', () => {
+    expect(estimateCadence({ quantity: 20, unit: 'tablets' }, '2 tablets daily').cadenceDays).toBe(MIN_CADENCE_DAYS);
+    expect(estimateCadence({ quantity: 365, unit: 'tablets' }, '1 tablet daily').cadenceDays).toBe(MAX_CADENCE_DAYS);
+  });
+});
+
+describe('ship dates', () => {
+  it('ships the first order before the current supply runs out', () => {
+    expect(firstShipDate(30, '2026-01-01')).toBe('2026-01-26');
+    expect(firstShipDate(3, '2026-01-01')).toBe('2026-01-02');
+  });
+
+  it('keeps the rhythm after a shipment unless it is overdue', () => {
+    expect(nextShipDate('2026-01-26', 30, '2026-01-26')).toBe('2026-02-25');
+    expect(nextShipDate('2026-01-01', 14, '2026-02-01')).toBe('2026-02-15');
+  });
+
+  it('resumes on the scheduled date, or tomorrow if it has passed', () => {
+    expect(resumeShipDate({ next_ship_date: '2026-03-01' }, '2026-02-01')).toBe('2026-03-01');
+    expect(resumeShipDate({ next_ship_date: '2026-01-15' }, '2026-02-01')).toBe('2026-02-02');
+    expect(addDays('2026-02-28', 1)).toBe('2026-03-01');
+  });
+
+  it('is due on or after the ship date while active', () => {
+    expect(isDueForShipment({ status: 'active', next_ship_date: '2026-02-01' }, '2026-02-01')).toBe(true);
+    expect(isDueForShipment({ status: 'paused', next_ship_date: '2026-02-01' }, '2026-02-01')).toBe(false);
+  });
+
+  it('reminds once per shipment within the reminder window', () => {
+    const subscription = { status: 'active' as const, next_ship_date: '2026-02-03', reminded_for: null };
+    expect(needsReminder(subscription, '2026-01-30')).toBe(false);
+    expect(needsReminder(subscription, '2026-01-31')).toBe(true);
+    expect(needsReminder({ ...subscription, reminded_for: '2026-02-03' }, '2026-01-31')).toBe(false);
+  });
+
+  it('resumes a pause when its end date arrives', () => {
+    expect(shouldResume({ status: 'paused', paused_until: '2026-02-01' }, '2026-02-01')).toBe(true);
+    expect(shouldResume({ status: 'paused', paused_until: null }, '2026-02-01')).toBe(false);
+  });
+});
+
+describe('savedChargeAction', () => {
+  const saved = { status: 'requires_confirmation', amount: 4599, metadata: { subscription_ids: 'b,a' } };
+
+  it('reuses a charge that went through, whatever changed since', () => {
+    expect(savedChargeAction({ ...saved, status: 'succeeded' }, 4599, ['a', 'b'])).toBe('use');
+    expect(savedChargeAction({ ...saved, status: 'succeeded' }, 5200, ['a'])).toBe('use');
+    expect(savedChargeAction({ ...saved, status: 'processing' }, 4599, ['a', 'b'])).toBe('use');
+  });
+
+  it('confirms an unconfirmed charge for the same shipment', () => {
+    expect(savedChargeAction(saved, 4599, ['a', 'b'])).toBe('confirm');
+  });
+
+  it('replaces a charge that is out of date or was declined', () => {
+    // Swapping in a substitute changes the amount
+    expect(savedChargeAction(saved, 5200, ['a', 'b'])).toBe('replace');
+    expect(savedChargeAction(saved, 4599, ['a'])).toBe('replace');
+    expect(savedChargeAction({ ...saved, status: 'requires_payment_method' }, 4599, ['a', 'b'])).toBe('replace');
+    expect(savedChargeAction({ ...saved, status: 'canceled' }, 4599, ['a', 'b'])).toBe('replace');
+  });
+});
+
+describe('substitution', () => {
+  it('searches by nutrient when the name names one', () => {
+    expect(substituteQuery(product({ name: 'Vitamin D3 5000 IU', dosageForm: 'Softgel' }))).toEqual({
+      deficiency: 'vitamin d',
+      dosageForm: 'Softgel',
+      sort: 'relevance',
+    });
+    expect(substituteQuery(product({ name: 'Thorne Ashwagandha 500mg Capsules', brand: 'Thorne' })).query)
+      .toBe('ashwagandha');
+  });
+
+  it('prefers in-stock products of the same form within the price limit', () => {
+    const original = product({ productId: 'orig', perDayPrice: 1 });
+    const candidates = [
+      product({ productId: 'orig' }),
+      product({ productId: 'liquid', dosageForm: 'Liquid', perDayPrice: 0.8 }),
+      product({ productId: 'out', inStock: false }),
+      product({ productId: 'pricey', perDayPrice: 2 }),
+      product({ productId: 'capsule', perDayPrice: 1.2 }),
+    ].map(ranked);
+
+    expect(rankSubstitutes(original, candidates).map((p) => p.productId)).toEqual(['capsule', 'liquid']);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for supplement catalog ranking
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  matchesExistingSupplement,
+  needsAddressedBy,
+  needsFromBiomarkers,
+  rankCatalogProducts,
+  supplementTermsForNeed,
+} from '@/lib/services/supplement-catalog/ranking';
+import { product } from '../../fixtures/supplements';
+
+const vitaminDLiquid = product({ productId: 'd-liquid', name: 'Vitamin D3 Liquid', dosageForm: 'Liquid', perDayPrice: 0.4 });
+const vitaminDSoftgel = product({ productId: 'd-softgel', name: 'Vitamin D3 5000 IU', dosageForm: 'Softgel', perDayPrice: 0.2 });
+const iron = product({ productId: 'iron', name: 'Iron Bisglycinate', perDayPrice: 0.3 });
+const magnesium = product({
+  productId: 'mag',
+  name: 'Magnesium Glycinate',
+  perDayPrice: 0.6,
+  retailPrice: 36,
+  benefits: ['Supports sleep'],
+});
+
+describe('supplement catalog ranking', () => {
+  describe('supplementTermsForNeed', () => {
+    it('should map lab names to the supplements that address them', () => {
+      expect(supplementTermsForNeed('25-Hydroxy Vitamin D')).toEqual(['vitamin d']);
+      expect(supplementTermsForNeed('Ferritin')).toEqual(['iron']);
+      expect(supplementTermsForNeed('vitamin_b12')).toEqual(['b12', 'cobalamin']);
+      expect(supplementTermsForNeed('Omega-3 Index')).toEqual(['omega 3', 'fish oil']);
+    });
+
+    it('should fall back to the biomarker name', () => {
+      expect(supplementTermsForNeed('Vitamin K2')).toEqual(['vitamin k2']);
+    });
+  });
+
+  describe('needsFromBiomarkers', () => {
+    it('should keep low and deficient markers', () => {
+      expect(needsFromBiomarkers([
+        { name: 'Vitamin D', status: 'deficient' },
+        { name: 'Ferritin', status: 'low' },
+        { name: 'LDL', status: 'high' },
+        { name: 'Zinc', status: 'normal' },
+      ])).toEqual([
+        { name: 'Vitamin D', severity: 'severe' },
+        { name: 'Ferritin', severity: 'moderate' },
+      ]);
+    });
+  });
+
+  describe('needsAddressedBy', () => {
+    it('should match on word starts only', () => {
+      const needs = [{ name: 'Ferritin', severity: 'moderate' as const }];
+      expect(needsAddressedBy(iron, needs)).toEqual(['Ferritin']);
+      expect(needsAddressedBy(product({ name: 'Environmental Support' }), needs)).toEqual([]);
+    });
+  });
+
+  describe('matchesExistingSupplement', () => {
+    it('should compare names regardless of punctuation and case', () => {
+      expect(matchesExistingSupplement(vitaminDSoftgel, ['vitamin d3'])).toBe(true);
+      expect(matchesExistingSupplement(iron, ['Magnesium', ''])).toBe(false);
+    });
+  });
+
+  describe('rankCatalogProducts', () => {
+    const products = [magnesium, vitaminDLiquid, iron, vitaminDSoftgel];
+
+    it('should put products for the most severe need first, cheapest per day first', () => {
+      const ranked = rankCatalogProducts(products, {
+        needs: [
+          { name: 'Vitamin D', severity: 'severe' },
+          { name: 'Ferritin', severity: 'moderate' },
+        ],
+      });
+      expect(ranked.map((r) => r.product.productId)).toEqual(['d-softgel', 'd-liquid', 'iron', 'mag']);
+      expect(ranked[0].addresses).toEqual(['Vitamin D']);
+      expect(ranked[3].addresses).toEqual([]);
+    });
+
+    it('should prefer the requested dosage form at the same per-day price', () => {
+      const ranked = rankCatalogProducts([{ ...vitaminDSoftgel, perDayPrice: 0.4 }, vitaminDLiquid], {
+        needs: [{ name: 'Vitamin D', severity: 'severe' }],
+        dosageForm: 'liquids',
+      });
+      expect(ranked[0].product.productId).toBe('d-liquid');
+    });
+
+    it('should rank query matches in the name above description matches', () => {
+      const ranked = rankCatalogProducts([
+        product({ productId: 'desc', description: 'With magnesium', perDayPrice: 0.6 }),
+        magnesium,
+      ], { query: 'magnesium' });
+      expect(ranked.map((r) => r.product.productId)).toEqual(['mag', 'desc']);
+    });
+
+    it('should sort by price when asked', () => {
+      expect(rankCatalogProducts(products, { sort: 'per_day_price' })[0].product.productId).toBe('d-softgel');
+      expect(rankCatalogProducts(products, { sort: 'price_high' })[0].product.productId).toBe('mag');
+    });
+  });
+});
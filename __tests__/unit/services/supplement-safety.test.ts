@@ -0,0 +1,120 @@
+/**
+ * Tests for the supplement stack safety checker
+ */
+
+import { describe, it, expect } from 'vitest';
+import { dailyDose, evaluateStack, nutrientsIn } from '@/lib/services/supplement-safety/checker';
+import { UPPER_LIMITS } from '@/lib/services/supplement-safety/knowledge-base';
+import type { StackItem, StackSafetyContext } from '@/lib/services/supplement-safety/types';
+
+const NO_CONTEXT: StackSafetyContext = { biomarkers: [], medications: [] };
+
+function limitFor(nutrient: string) {
+  const limit = UPPER_LIMITS.find((l) => l.nutrient === nutrient);
+  if (!limit) throw new Error(`No upper limit for ${nutrient}`);
+  return limit;
+}
+
+function reported(name: string, dosage?: string): StackItem {
+  return { name, dosage, source: 'reported' };
+}
+
+function candidate(name: string, dosage?: string): StackItem {
+  return { name, dosage, source: 'candidate' };
+}
+
+describe('dailyDose', () => {
+  it('reads thousands separators and multiplies by servings per day', () => {
+    const vitaminD = limitFor('Vitamin D');
+    expect(dailyDose(reported('Vitamin D3', '5,000 IU daily'), vitaminD)).toBe(5000);
+    expect(dailyDose(reported('Vitamin D3', '2000 IU twice daily'), vitaminD)).toBe(4000);
+  });
+
+  it('falls back to the amount in the product name and converts units', () => {
+    expect(dailyDose(reported('Vitamin D3 125 mcg'), limitFor('Vitamin D'))).toBe(5000);
+    expect(dailyDose(reported('Zinc Picolinate'), limitFor('Zinc'))).toBeNull();
+  });
+});
+
+describe('evaluateStack', () => {
+  it('sums a nutrient across the stack and blocks the candidate that pushes it over the limit', () => {
+    const report = evaluateStack(
+      [reported('Vitamin D3', '3000 IU daily')],
+      [candidate('Vitamin D3 + K2 Drops', '2000 IU daily')],
+      NO_CONTEXT
+    );
+
+    expect(nutrientsIn('Vitamin D3 + K2 Drops').map((l) => l.nutrient)).toEqual(['Vitamin D']);
+    expect(report.totals[0]).toMatchObject({ nutrient: 'Vitamin D', amount: 5000, upperLimit: 4000 });
+    expect(report.issues[0]).toMatchObject({ kind: 'upper_limit', severity: 'major' });
+    expect(report.blocked).toEqual(['Vitamin D3 + K2 Drops']);
+    expect(report.safe).toBe(false);
+  });
+
+  it('downgrades an over-limit dose when blood work shows a deficiency', () => {
+    const report = evaluateStack([], [candidate('Vitamin D3', '10,000 IU daily')], {
+      biomarkers: [{ name: 'Vitamin D, 25-Hydroxy', status: 'deficient' }],
+      medications: [],
+    });
+
+    expect(report.issues[0]).toMatchObject({ kind: 'upper_limit', severity: 'moderate' });
+    expect(report.blocked).toEqual([]);
+  });
+
+  it('annotates iron with calcium without blocking it', () => {
+    const report = evaluateStack(
+      [reported('Calcium Citrate', '500mg daily')],
+      [candidate('Iron Bisglycinate', '25mg daily')],
+      NO_CONTEXT
+    );
+
+    const issue = report.issues.find((i) => i.kind === 'supplement_interaction');
+    expect(issue).toMatchObject({ severity: 'moderate', items: ['Iron Bisglycinate', 'Calcium Citrate'] });
+    expect(report.blocked).toEqual([]);
+  });
+
+  it('blocks iron when ferritin is already high', () => {
+    const report = evaluateStack([], [candidate('Iron Bisglycinate', '25mg daily')], {
+      biomarkers: [{ name: 'Ferritin', status: 'high' }],
+      medications: [],
+    });
+
+    expect(report.issues[0]).toMatchObject({ kind: 'biomarker', severity: 'major' });
+    expect(report.blocked).toEqual(['Iron Bisglycinate']);
+  });
+
+  it('blocks vitamin D when blood calcium is high', () => {
+    const report = evaluateStack([], [candidate('Vitamin D3', '1000 IU daily'), candidate('Omega-3 Fish Oil')], {
+      biomarkers: [{ name: 'Calcium', status: 'High' }],
+      medications: [],
+    });
+
+    expect(report.blocked).toEqual(['Vitamin D3']);
+  });
+
+  it("blocks 5-HTP alongside St. John's wort", () => {
+    const report = evaluateStack([reported("St. John's Wort Extract")], [candidate('5-HTP 100mg')], NO_CONTEXT);
+
+    expect(report.issues[0]).toMatchObject({ kind: 'supplement_interaction', severity: 'major' });
+    expect(report.blocked).toEqual(['5-HTP 100mg']);
+  });
+
+  it('notes poorly absorbed magnesium forms', () => {
+    const report = evaluateStack([], [candidate('Magnesium Oxide', '250mg daily')], NO_CONTEXT);
+
+    expect(report.issues).toHaveLength(1);
+    expect(report.issues[0]).toMatchObject({ severity: 'minor', items: ['Magnesium Oxide'] });
+    expect(report.safe).toBe(true);
+  });
+
+  it('includes interactions with the user\'s medications', () => {
+    const report = evaluateStack([], [candidate('Ultimate Omega Fish Oil')], {
+      biomarkers: [],
+      medications: [{ id: 'm1', name: 'Coumadin', generic_name: 'warfarin' }],
+    });
+
+    const issue = report.issues.find((i) => i.kind === 'medication');
+    expect(issue?.items).toEqual(['Ultimate Omega Fish Oil']);
+    expect(issue?.message).toContain('Coumadin');
+  });
+});
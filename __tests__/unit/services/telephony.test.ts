@@ -0,0 +1,179 @@
+/**
+ * Tests for the caregiver SMS/voice telephony channel
+ */
+
+import crypto from 'crypto';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  FakeTelephonyProvider,
+  TwilioTelephonyProvider,
+  parseStatusCallback,
+  parseInboundSms,
+  isAcknowledgeReply,
+  buildMessagingResponse,
+  getTelephonyProvider,
+  isTelephonyConfigured,
+  setTelephonyProvider,
+} from '@/lib/services/share/telephony';
+
+describe('telephony', () => {
+  describe('parseStatusCallback', () => {
+    it('should normalize message receipts', () => {
+      expect(parseStatusCallback({ MessageSid: 'SM1', MessageStatus: 'undelivered', ErrorCode: '30003' })).toEqual({
+        messageId: 'SM1',
+        channel: 'sms',
+        status: 'failed',
+        providerStatus: 'undelivered',
+        errorCode: '30003',
+      });
+    });
+
+    it('should normalize call receipts', () => {
+      expect(parseStatusCallback({ CallSid: 'CA1', CallStatus: 'completed' })).toMatchObject({
+        channel: 'voice',
+        status: 'delivered',
+        errorCode: null,
+      });
+      expect(parseStatusCallback({ CallSid: 'CA1', CallStatus: 'no-answer' })?.status).toBe('failed');
+    });
+
+    it('should ignore unrelated payloads', () => {
+      expect(parseStatusCallback({ AccountSid: 'AC1' })).toBeNull();
+    });
+  });
+
+  describe('replies', () => {
+    it('should recognize acknowledge replies', () => {
+      expect(isAcknowledgeReply('1')).toBe(true);
+      expect(isAcknowledgeReply(' 1. ')).toBe(true);
+      expect(isAcknowledgeReply('ACK')).toBe(true);
+      expect(isAcknowledgeReply('12')).toBe(false);
+      expect(isAcknowledgeReply('who is this?')).toBe(false);
+    });
+
+    it('should parse inbound SMS and escape TwiML replies', () => {
+      expect(parseInboundSms({ MessageSid: 'SM2', From: '+15551234567', To: '+15005550006', Body: '1' })).toEqual({
+        messageId: 'SM2',
+        from: '+15551234567',
+        to: '+15005550006',
+        body: '1',
+      });
+      expect(parseInboundSms({ Body: '1' })).toBeNull();
+      expect(buildMessagingResponse('Acknowledged: <Fall> & more')).toBe(
+        '<?xml version="1.0" encoding="UTF-8"?><Response><Message>Acknowledged: &lt;Fall&gt; &amp; more</Message></Response>'
+      );
+    });
+  });
+
+  describe('FakeTelephonyProvider', () => {
+    it('should record messages and build matching webhook payloads', async () => {
+      const provider = new FakeTelephonyProvider();
+
+      const sms = await provider.sendSms('+15551234567', 'Alert', { statusCallbackUrl: 'https://app/status' });
+      const call = await provider.placeCall('+15551234567', 'Alert');
+
+      expect(sms).toEqual({ messageId: 'SMfake1', status: 'queued' });
+      expect(provider.sentTo('+15551234567').map((m) => m.channel)).toEqual(['sms', 'voice']);
+      expect(parseStatusCallback(provider.receiptFor(call.messageId, 'busy'))).toMatchObject({
+        messageId: 'CAfake2',
+        channel: 'voice',
+        status: 'failed',
+      });
+      expect(parseInboundSms(provider.inboundFrom('+15551234567', '1'))?.from).toBe('+15551234567');
+    });
+
+    it('should fail sends to numbers marked as failing', async () => {
+      const provider = new FakeTelephonyProvider();
+      provider.failDeliveriesTo('+15550000000');
+
+      await expect(provider.sendSms('+15550000000', 'Alert')).rejects.toThrow('failed');
+      expect(provider.messages).toHaveLength(0);
+    });
+  });
+
+  describe('TwilioTelephonyProvider', () => {
+    const provider = new TwilioTelephonyProvider({
+      accountSid: 'AC123',
+      authToken: 'secret',
+      fromNumber: '+15005550006',
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should post form-encoded messages with basic auth', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ sid: 'SM123', status: 'accepted' }),
+      });
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await provider.sendSms('+15551234567', 'Alert', { statusCallbackUrl: 'https://app/status' });
+
+      expect(result).toEqual({ messageId: 'SM123', status: 'queued' });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.twilio.com/2010-04-01/Accounts/AC123/Messages.json');
+      expect(init.headers.Authorization).toBe(`Basic ${Buffer.from('AC123:secret').toString('base64')}`);
+      expect(Object.fromEntries(new URLSearchParams(init.body))).toEqual({
+        To: '+15551234567',
+        From: '+15005550006',
+        Body: 'Alert',
+        StatusCallback: 'https://app/status',
+      });
+    });
+
+    it('should verify webhook signatures over the URL and sorted params', () => {
+      const url = 'https://app.example.com/api/webhooks/telephony/status';
+      const params = { MessageStatus: 'delivered', MessageSid: 'SM123' };
+      const signature = crypto
+        .createHmac('sha1', 'secret')
+        .update(`${url}MessageSidSM123MessageStatusdelivered`)
+        .digest('base64');
+
+      expect(provider.verifyWebhook(url, params, signature)).toBe(true);
+      expect(provider.verifyWebhook(url, { ...params, MessageStatus: 'failed' }, signature)).toBe(false);
+      expect(provider.verifyWebhook(url, params, null)).toBe(false);
+    });
+  });
+
+  describe('provider selection', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      setTelephonyProvider(null);
+    });
+
+    function stubTelephonyEnv(env: { NODE_ENV: string; TELEPHONY_PROVIDER?: string; TWILIO_ACCOUNT_SID?: string }) {
+      vi.stubEnv('NODE_ENV', env.NODE_ENV);
+      vi.stubEnv('TELEPHONY_PROVIDER', env.TELEPHONY_PROVIDER || '');
+      vi.stubEnv('TWILIO_ACCOUNT_SID', env.TWILIO_ACCOUNT_SID || '');
+    }
+
+    it('should only fall back to the fake provider under test', () => {
+      stubTelephonyEnv({ NODE_ENV: 'test' });
+
+      expect(isTelephonyConfigured()).toBe(true);
+      expect(getTelephonyProvider().name).toBe('fake');
+    });
+
+    it('should be unconfigured without credentials outside of tests', () => {
+      stubTelephonyEnv({ NODE_ENV: 'production' });
+
+      expect(isTelephonyConfigured()).toBe(false);
+      expect(() => getTelephonyProvider()).toThrow('Telephony is not configured');
+    });
+
+    it('should use the fake provider when explicitly configured', () => {
+      stubTelephonyEnv({ NODE_ENV: 'development', TELEPHONY_PROVIDER: 'fake' });
+
+      expect(isTelephonyConfigured()).toBe(true);
+      expect(getTelephonyProvider().name).toBe('fake');
+    });
+
+    it('should pick Twilio when credentials are configured', () => {
+      stubTelephonyEnv({ NODE_ENV: 'production', TWILIO_ACCOUNT_SID: 'AC123' });
+
+      expect(isTelephonyConfigured()).toBe(true);
+    });
+  });
+});
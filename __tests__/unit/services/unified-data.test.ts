@@ -0,0 +1,128 @@
+/**
+ * Tests for unified health data outlier detection and source ranking
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeBaselines, detectOutlier } from '@/lib/services/unified-data/quality';
+import { getSourceRank, sortCandidates } from '@/lib/services/unified-data/reconciliation';
+import type { UnifiedHealthRecord } from '@/lib/services/unified-data/types';
+
+function record(overrides: Partial<UnifiedHealthRecord> = {}): UnifiedHealthRecord {
+  return {
+    email: 'user@example.com',
+    recorded_at: '2026-06-10T07:00:00Z',
+    provider: 'oura',
+    data_type: 'recovery',
+    ...overrides,
+  };
+}
+
+describe('unified data quality', () => {
+  // Median 58, MAD 2: a robust z of 5 is 5 * 1.4826 * 2 = 14.8 bpm away
+  const restingHr = [55, 56, 57, 58, 59, 60, 61].map(resting_hr => ({ resting_hr }));
+
+  describe('computeBaselines', () => {
+    it('should take the median and median absolute deviation', () => {
+      expect(computeBaselines(restingHr)).toEqual({ resting_hr: { median: 58, mad: 2 } });
+    });
+
+    it('should skip fields with fewer than seven readings', () => {
+      const baselines = computeBaselines([
+        ...restingHr.slice(0, 6),
+        { resting_hr: null },
+      ]);
+
+      expect(baselines.resting_hr).toBeUndefined();
+    });
+  });
+
+  describe('detectOutlier', () => {
+    const baselines = computeBaselines(restingHr);
+
+    it('should accept a reading within the robust z threshold', () => {
+      expect(detectOutlier(record({ resting_hr: 72 }), baselines)).toBeNull();
+      expect(detectOutlier(record({ resting_hr: 44 }), baselines)).toBeNull();
+    });
+
+    it('should flag a reading beyond the robust z threshold', () => {
+      expect(detectOutlier(record({ resting_hr: 73 }), baselines)).toBe('resting_hr 73 far from 30-day median 58');
+      expect(detectOutlier(record({ resting_hr: 43 }), baselines)).not.toBeNull();
+    });
+
+    it('should only check plausibility without enough history', () => {
+      const sparse = computeBaselines(restingHr.slice(0, 3));
+
+      expect(detectOutlier(record({ resting_hr: 120 }), sparse)).toBeNull();
+      expect(detectOutlier(record({ resting_hr: 180 }), sparse)).toBe('resting_hr 180 outside plausible range 25-150');
+    });
+
+    it('should not divide by a zero MAD', () => {
+      const flat = computeBaselines(Array.from({ length: 7 }, () => ({ resting_hr: 60 })));
+
+      expect(detectOutlier(record({ resting_hr: 90 }), flat)).toBeNull();
+    });
+
+    it('should leave scores out of the history comparison', () => {
+      const sleepScores = Array.from({ length: 7 }, () => ({ sleep_score: 80 }));
+
+      expect(computeBaselines(sleepScores)).toEqual({});
+      expect(detectOutlier(record({ sleep_score: 20 }))).toBeNull();
+    });
+  });
+});
+
+describe('unified data source ranking', () => {
+  describe('getSourceRank', () => {
+    it('should rank the user order ahead of the defaults', () => {
+      expect(getSourceRank('sleep', 'fitbit', ['fitbit', 'oura'])).toBe(1);
+      expect(getSourceRank('sleep', 'oura', ['fitbit', 'oura'])).toBe(2);
+      expect(getSourceRank('sleep', 'whoop', ['fitbit', 'oura'])).toBe(102);
+    });
+
+    it('should fall back to the default priority', () => {
+      expect(getSourceRank('sleep', 'oura', null)).toBe(101);
+      expect(getSourceRank('recovery', 'garmin', null)).toBe(103);
+    });
+
+    it('should rank unlisted providers last', () => {
+      expect(getSourceRank('recovery', 'fitbit', null)).toBe(150);
+      expect(getSourceRank('behavioral', 'slack', ['gmail'])).toBe(150);
+    });
+  });
+
+  describe('sortCandidates', () => {
+    const candidate = (provider: string, created_at: string, is_outlier = false) => ({
+      provider,
+      created_at,
+      is_outlier,
+    });
+
+    it('should prefer the better-ranked source', () => {
+      const sorted = sortCandidates('sleep', [
+        candidate('whoop', '2026-06-10T08:00:00Z'),
+        candidate('oura', '2026-06-10T07:00:00Z'),
+      ], null);
+
+      expect(sorted.map(c => c.provider)).toEqual(['oura', 'whoop']);
+    });
+
+    it('should break rank ties with the most recently written reading', () => {
+      const sorted = sortCandidates('behavioral', [
+        candidate('slack', '2026-06-10T07:00:00Z'),
+        candidate('gmail', '2026-06-10T09:00:00Z'),
+        candidate('teams', '2026-06-10T08:00:00Z'),
+      ], null);
+
+      expect(sorted.map(c => c.provider)).toEqual(['gmail', 'teams', 'slack']);
+    });
+
+    it('should put outliers behind every usable reading', () => {
+      const sorted = sortCandidates('sleep', [
+        candidate('oura', '2026-06-10T07:00:00Z', true),
+        candidate('google_fit', '2026-06-10T06:00:00Z'),
+      ], ['oura']);
+
+      expect(sorted.map(c => c.provider)).toEqual(['google_fit', 'oura']);
+    });
+  });
+});
@@ -6,7 +6,7 @@ interface Connector {
   id: string;
   name: string;
   description: string;
-  category: 'health' | 'productivity' | 'communication';
+  category: 'health' | 'productivity' | 'communication' | 'lifestyle';
   icon: string;
   authEndpoint: string;
   dataEndpoint?: string;
@@ -28,78 +28,12 @@ interface ConnectorData {
   timestamp: string;
 }
 
-const CONNECTORS: Connector[] = [
-  // Health & Fitness
-  {
-    id: 'oura',
-    name: 'Oura Ring',
-    description: 'Sleep, readiness, and activity tracking',
-    category: 'health',
-    icon: '💍',
-    authEndpoint: '/api/oura/auth',
-  },
-  {
-    id: 'fitbit',
-    name: 'Fitbit',
-    description: 'Activity, heart rate, and sleep data',
-    category: 'health',
-    icon: '⌚',
-    authEndpoint: '/api/fitbit/auth',
-  },
-  {
-    id: 'strava',
-    name: 'Strava',
-    description: 'Running, cycling, and workout activities',
-    category: 'health',
-    icon: '🏃',
-    authEndpoint: '/api/strava/auth',
-  },
-  {
-    id: 'dexcom',
-    name: 'Dexcom',
-    description: 'Continuous glucose monitoring data',
-    category: 'health',
-    icon: '📊',
-    authEndpoint: '/api/dexcom/auth',
-  },
-  // Productivity
-  {
-    id: 'gmail',
-    name: 'Gmail',
-    description: 'Email and calendar integration',
-    category: 'productivity',
-    icon: '📧',
-    authEndpoint: '/api/gmail/auth',
-  },
-  {
-    id: 'outlook',
-    name: 'Outlook Calendar',
-    description: 'Microsoft calendar and email',
-    category: 'productivity',
-    icon: '📅',
-    authEndpoint: '/api/outlook/auth',
-  },
-  // Communication
-  {
-    id: 'slack',
-    name: 'Slack',
-    description: 'Team messaging and channels',
-    category: 'communication',
-    icon: '💬',
-    authEndpoint: '/api/slack/auth',
-  },
-  {
-    id: 'teams',
-    name: 'Microsoft Teams',
-    description: 'Team collaboration and meetings',
-    category: 'communication',
-    icon: '👥',
-    authEndpoint: '/api/teams/auth',
-  },
-];
+// Reading another user's connectors is recorded as admin impersonation
+const SUPPORT_HEADERS = { 'x-impersonation-reason': 'Connector support' };
 
 export default function ConnectorsPage() {
   const [email, setEmail] = useState('');
+  const [connectors, setConnectors] = useState<Connector[]>([]);
   const [statuses, setStatuses] = useState<Record<string, ConnectorStatus>>({});
   const [loading, setLoading] = useState(false);
   const [connectingId, setConnectingId] = useState<string | null>(null);
@@ -109,6 +43,14 @@ export default function ConnectorsPage() {
   const [analyzingId, setAnalyzingId] = useState<string | null>(null);
   const [analysisResults, setAnalysisResults] = useState<Record<string, any>>({});
 
+  // Connectors come from the provider registry
+  useEffect(() => {
+    fetch('/api/admin/connectors')
+      .then((res) => res.json())
+      .then((data) => setConnectors(data.connectors || []))
+      .catch((error) => console.error('Failed to load connectors:', error));
+  }, []);
+
   // Listen for OAuth callback messages
   useEffect(() => {
     const handleMessage = (event: MessageEvent) => {
@@ -129,7 +71,9 @@ export default function ConnectorsPage() {
     if (!email) return;
     setLoading(true);
     try {
-      const res = await fetch(`/api/admin/connectors/status?email=${encodeURIComponent(email)}`);
+      const res = await fetch(`/api/admin/connectors/status?email=${encodeURIComponent(email)}`, {
+        headers: SUPPORT_HEADERS,
+      });
       const data = await res.json();
       if (data.statuses) {
         setStatuses(data.statuses);
@@ -262,18 +206,14 @@ export default function ConnectorsPage() {
     });
   };
 
-  // Full analysis endpoints for each connector
-  const analysisEndpoints: Record<string, string> = {
-    gmail: '/api/gmail/fetch-data',
-    oura: '/api/oura/sync',
-    fitbit: '/api/fitbit/sync',
-    strava: '/api/strava/sync',
-  };
+  // Full analysis endpoint for a connector (its provider sync endpoint)
+  const getAnalysisEndpoint = (connectorId: string) =>
+    connectors.find((c) => c.id === connectorId)?.dataEndpoint;
 
   const handleRunAnalysis = async (connectorId: string) => {
     if (!email) return;
 
-    const endpoint = analysisEndpoints[connectorId];
+    const endpoint = getAnalysisEndpoint(connectorId);
     if (!endpoint) {
       alert(`Full analysis not yet implemented for ${connectorId}`);
       return;
@@ -317,6 +257,7 @@ export default function ConnectorsPage() {
     { id: 'health', name: 'Health & Fitness', color: '#4CAF50' },
     { id: 'productivity', name: 'Productivity', color: '#2196F3' },
     { id: 'communication', name: 'Communication', color: '#9C27B0' },
+    { id: 'lifestyle', name: 'Lifestyle', color: '#FF9800' },
   ];
 
   return (
@@ -386,7 +327,7 @@ export default function ConnectorsPage() {
 
         {/* Connectors by Category */}
         {categories.map((category) => {
-          const categoryConnectors = CONNECTORS.filter((c) => c.category === category.id);
+          const categoryConnectors = connectors.filter((c) => c.category === category.id);
           if (categoryConnectors.length === 0) return null;
 
           return (
@@ -430,7 +371,7 @@ export default function ConnectorsPage() {
                   const analysis = analysisResults[connector.id];
                   const isExpanded = expandedData.has(connector.id);
                   const isAnalysisExpanded = expandedData.has(`${connector.id}-analysis`);
-                  const hasAnalysisEndpoint = !!analysisEndpoints[connector.id];
+                  const hasAnalysisEndpoint = !!connector.dataEndpoint;
 
                   return (
                     <div
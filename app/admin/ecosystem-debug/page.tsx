@@ -9,6 +9,9 @@ interface DebugResult {
   duration?: number;
 }
 
+// Reading another user's data is recorded as admin impersonation
+const SUPPORT_HEADERS = { 'x-impersonation-reason': 'Ecosystem debugging' };
+
 export default function EcosystemDebugPage() {
   const [email, setEmail] = useState('');
   const [loading, setLoading] = useState(false);
@@ -38,7 +41,9 @@ export default function EcosystemDebugPage() {
     // Step 1: Check stored tokens
     try {
       const start = Date.now();
-      const res = await fetch(`/api/admin/ecosystem-debug/tokens?email=${encodeURIComponent(email)}`);
+      const res = await fetch(`/api/admin/ecosystem-debug/tokens?email=${encodeURIComponent(email)}`, {
+        headers: SUPPORT_HEADERS,
+      });
       const data = await res.json();
       newResults.push({
         step: '1. Stored Tokens',
@@ -58,7 +63,9 @@ export default function EcosystemDebugPage() {
     // Step 2: Check Oura data
     try {
       const start = Date.now();
-      const res = await fetch(`/api/admin/ecosystem-debug/oura?email=${encodeURIComponent(email)}`);
+      const res = await fetch(`/api/admin/ecosystem-debug/oura?email=${encodeURIComponent(email)}`, {
+        headers: SUPPORT_HEADERS,
+      });
       const data = await res.json();
       newResults.push({
         step: '2. Oura Ring Data',
@@ -106,7 +113,9 @@ export default function EcosystemDebugPage() {
     // Step 4: Check onboarding data
     try {
       const start = Date.now();
-      const res = await fetch(`/api/admin/ecosystem-debug/onboarding?email=${encodeURIComponent(email)}`);
+      const res = await fetch(`/api/admin/ecosystem-debug/onboarding?email=${encodeURIComponent(email)}`, {
+        headers: SUPPORT_HEADERS,
+      });
       const data = await res.json();
       newResults.push({
         step: '4. Onboarding Data',
@@ -126,7 +135,9 @@ export default function EcosystemDebugPage() {
     // Step 5: Check ecosystem sync status
     try {
       const start = Date.now();
-      const res = await fetch(`/api/admin/ecosystem-debug/sync-status?email=${encodeURIComponent(email)}`);
+      const res = await fetch(`/api/admin/ecosystem-debug/sync-status?email=${encodeURIComponent(email)}`, {
+        headers: SUPPORT_HEADERS,
+      });
       const data = await res.json();
       newResults.push({
         step: '5. Ecosystem Sync Status',
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getConnectableProviders } from '@/lib/services/providers';
+
+/**
+ * List connectable providers from the provider registry
+ */
+export async function GET() {
+  const connectors = getConnectableProviders().map(plugin => ({
+    id: plugin.id,
+    name: plugin.name,
+    description: plugin.description,
+    category: plugin.category,
+    icon: plugin.icon,
+    authEndpoint: plugin.auth.authEndpoint,
+    dataEndpoint: plugin.sync?.endpoint,
+  }));
+
+  return NextResponse.json({ success: true, connectors });
+}
@@ -1,25 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
+import { getConnectableProviders } from '@/lib/services/providers';
 
-const PROVIDERS = [
-  'oura',
-  'fitbit',
-  'strava',
-  'dexcom',
-  'gmail',
-  'outlook',
-  'slack',
-  'teams',
-];
+const PROVIDERS = getConnectableProviders().map(plugin => plugin.id);
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
+    const email = auth.email;
 
     const supabase = createAdminClient();
 
@@ -77,4 +65,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { impersonation: true });
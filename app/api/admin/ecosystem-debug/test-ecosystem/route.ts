@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { fetchAllEcosystemData } from '@/lib/services/ecosystem-fetcher';
 import { analyzeEcosystemPatterns } from '@/lib/services/pattern-analyzer';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
 
 /**
  * Test the full ecosystem flow without generating a plan
@@ -92,7 +93,7 @@ export async function POST(request: NextRequest) {
 
           const syncResponse = await fetch(syncUrl, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
             body: JSON.stringify({ email }),
           });
 
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
 
 export async function POST(request: NextRequest) {
   try {
@@ -31,7 +32,7 @@ export async function POST(request: NextRequest) {
 
     const response = await fetch(syncUrl, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
       body: JSON.stringify({
         email,
         startDate: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
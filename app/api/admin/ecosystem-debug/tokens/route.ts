@@ -1,14 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@/lib/supabase/server';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
+    const email = auth.email;
 
     const supabase = await createClient();
 
@@ -52,4 +48,4 @@ export async function GET(request: NextRequest) {
       details: String(error)
     }, { status: 500 });
   }
-}
+}, { impersonation: true });
@@ -5,6 +5,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@supabase/supabase-js';
 
 const supabase = createClient(
@@ -21,18 +22,18 @@ const supabase = createClient(
  *   executionId: string,
  *   toolCallId: string,
  *   approved: boolean,
- *   userEmail: string,
  *   feedback?: string  // Optional user feedback
  * }
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { executionId, toolCallId, approved, userEmail, feedback } = body;
+    const { executionId, toolCallId, approved, feedback } = body;
+    const userEmail = auth.email;
 
-    if (!executionId || !toolCallId || approved === undefined || !userEmail) {
+    if (!executionId || !toolCallId || approved === undefined) {
       return NextResponse.json(
-        { error: 'executionId, toolCallId, approved, and userEmail are required' },
+        { error: 'executionId, toolCallId, and approved are required' },
         { status: 400 }
       );
     }
@@ -112,26 +113,16 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * GET /api/agent/approve
  *
- * Get pending approval requests for a user
- *
- * Query: ?email=xxx
+ * Get pending approval requests for the user
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400 }
-      );
-    }
+    const email = auth.email;
 
     // Get pending approvals
     const { data: pendingApprovals, error } = await supabase
@@ -179,4 +170,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -7,8 +7,10 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@/lib/supabase/server';
 import { v4 as uuidv4 } from 'uuid';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
 
 interface InsightForTask {
   id: string;
@@ -146,14 +148,15 @@ function extractTimeFromText(text: string): string | null {
   return null;
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, insights } = body;
+    const { insights } = body;
+    const email = auth.email;
 
-    if (!email || !insights || !Array.isArray(insights)) {
+    if (!insights || !Array.isArray(insights)) {
       return NextResponse.json(
-        { error: 'Missing email or insights array' },
+        { error: 'Missing insights array' },
         { status: 400 }
       );
     }
@@ -240,7 +243,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { internal: true });
 
 function generateSteps(type: string) {
   switch (type) {
@@ -289,7 +292,11 @@ async function triggerAutoExecution(taskId: string, email: string) {
         headers: {
           'Authorization': `Bearer ${qstashToken}`,
           'Content-Type': 'application/json',
-          'Upstash-Delay': '5s' // Small delay to ensure task is committed
+          'Upstash-Delay': '5s', // Small delay to ensure task is committed
+          // QStash passes Upstash-Forward-* headers on to the callback
+          ...Object.fromEntries(
+            Object.entries(internalRequestHeaders()).map(([name, value]) => [`Upstash-Forward-${name}`, value])
+          ),
         },
         body: JSON.stringify({ taskId, email })
       });
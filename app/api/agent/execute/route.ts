@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@supabase/supabase-js';
 import {
   planTask,
@@ -6,6 +7,7 @@ import {
   needsPlanning,
   canAutoExecute,
 } from '@/lib/services/agent-planning/planning-engine';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -13,14 +15,15 @@ const supabase = createClient(
 );
 
 // POST - Execute an approved task
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { taskId, email, skipPlanning = false } = body;
+    const { taskId, skipPlanning = false } = body;
+    const email = auth.email;
 
-    if (!taskId || !email) {
+    if (!taskId) {
       return NextResponse.json(
-        { error: 'Task ID and email are required' },
+        { error: 'Task ID is required' },
         { status: 400 }
       );
     }
@@ -102,7 +105,7 @@ export async function POST(request: NextRequest) {
           // This redirects to the shopping agent execute endpoint
           const shoppingResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL}/api/shopping-agent/execute`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
             body: JSON.stringify({ email, taskId: task.id }),
           });
           result = await shoppingResponse.json();
@@ -150,7 +153,7 @@ export async function POST(request: NextRequest) {
     console.error('Error in POST /api/agent/execute:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+}, { internal: true });
 
 async function updateTaskStatus(taskId: string, status: string) {
   await supabase
@@ -195,7 +198,7 @@ async function executeCalendarTask(task: any, email: string) {
     availabilityUrl.searchParams.append('duration', String(duration));
     availabilityUrl.searchParams.append('days', '7');
 
-    const availabilityResponse = await fetch(availabilityUrl.toString());
+    const availabilityResponse = await fetch(availabilityUrl.toString(), { headers: internalRequestHeaders() });
     const availabilityData = await availabilityResponse.json();
 
     if (!availabilityResponse.ok || !availabilityData.success) {
@@ -238,7 +241,7 @@ async function executeCalendarTask(task: any, email: string) {
 
     const createEventResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL}/api/calendar/create-event`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
       body: JSON.stringify({
         email,
         title: params.title || 'Scheduled Event',
@@ -295,7 +298,7 @@ async function executeSpotifyTask(task: any, email: string) {
   try {
     const playlistResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL}/api/spotify/create-playlist`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
       body: JSON.stringify({
         email,
         name: params.name,
@@ -368,7 +371,7 @@ async function executeSupplementTask(task: any, email: string) {
   // Call supplements matching API
   const matchResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL}/api/supplements/match`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
     body: JSON.stringify({ email, deficiencies, targetAreas: params.targetAreas }),
   });
   const recommendations = await matchResponse.json();
@@ -395,7 +398,7 @@ async function executeSupplementTask(task: any, email: string) {
       // Create shopping agent task
       const shoppingResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL}/api/shopping-agent/tasks`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
         body: JSON.stringify({
           email,
           parentTaskId: task.id,
@@ -414,7 +417,7 @@ async function executeSupplementTask(task: any, email: string) {
         if (params.autoCompare !== false) {
           await fetch(`${process.env.NEXT_PUBLIC_BASE_URL}/api/shopping-agent/compare-prices`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
             body: JSON.stringify({
               email,
               products,
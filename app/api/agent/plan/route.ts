@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@supabase/supabase-js';
 import {
   planTask,
@@ -18,17 +19,18 @@ const supabase = createClient(
  * POST /api/agent/plan
  * Trigger planning for a task
  *
- * Body: { taskId: string, email: string }
+ * Body: { taskId: string }
  * Optional: { force?: boolean } - Force re-planning even if plan exists
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { taskId, email, force = false } = body;
+    const { taskId, force = false } = body;
+    const email = auth.email;
 
-    if (!taskId || !email) {
+    if (!taskId) {
       return NextResponse.json(
-        { error: 'Missing required fields: taskId, email' },
+        { error: 'Missing required field: taskId' },
         { status: 400 }
       );
     }
@@ -117,7 +119,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * GET /api/agent/plan
@@ -125,7 +127,7 @@ export async function POST(request: NextRequest) {
  *
  * Query: ?taskId=xxx
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
     const taskId = searchParams.get('taskId');
@@ -137,6 +139,21 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Only the task's owner may see its plan
+    const { data: task } = await supabase
+      .from('agent_tasks')
+      .select('id')
+      .eq('id', taskId)
+      .eq('user_email', auth.email)
+      .maybeSingle();
+
+    if (!task) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      );
+    }
+
     const plan = await getTaskPlan(taskId);
 
     if (!plan) {
@@ -160,22 +177,23 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PATCH /api/agent/plan
  * Re-plan a task (when previous plan failed)
  *
- * Body: { taskId: string, email: string, previousPlanId: string, failureReason?: string }
+ * Body: { taskId: string, previousPlanId: string, failureReason?: string }
  */
-export async function PATCH(request: NextRequest) {
+export const PATCH = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { taskId, email, previousPlanId, failureReason } = body;
+    const { taskId, previousPlanId, failureReason } = body;
+    const email = auth.email;
 
-    if (!taskId || !email || !previousPlanId) {
+    if (!taskId || !previousPlanId) {
       return NextResponse.json(
-        { error: 'Missing required fields: taskId, email, previousPlanId' },
+        { error: 'Missing required fields: taskId, previousPlanId' },
         { status: 400 }
       );
     }
@@ -214,4 +232,4 @@ export async function PATCH(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -5,6 +5,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@supabase/supabase-js';
 import { createHealthAgent, AgentState } from '@/lib/agents/health-agent';
 
@@ -19,18 +20,18 @@ const supabase = createClient(
  * Resume a paused agent execution
  *
  * Body: {
- *   executionId: string,
- *   userEmail: string
+ *   executionId: string
  * }
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { executionId, userEmail } = body;
+    const { executionId } = body;
+    const userEmail = auth.email;
 
-    if (!executionId || !userEmail) {
+    if (!executionId) {
       return NextResponse.json(
-        { error: 'executionId and userEmail are required' },
+        { error: 'executionId is required' },
         { status: 400 }
       );
     }
@@ -163,7 +164,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // Helper to get risk level
 function getToolRiskLevel(toolName: string): string {
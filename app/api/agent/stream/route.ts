@@ -5,7 +5,8 @@
  * using Server-Sent Events (SSE).
  */
 
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@supabase/supabase-js';
 import { createHealthAgent, AgentState } from '@/lib/agents/health-agent';
 import { createCheckpointer } from '@/lib/agents/checkpointer';
@@ -18,14 +19,15 @@ const supabase = createClient(
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { taskId, userEmail, task, userContext, threadId } = body;
+    const { taskId, task, userContext, threadId } = body;
+    const userEmail = auth.email;
 
-    if (!taskId || !userEmail || !task) {
-      return new Response(
-        JSON.stringify({ error: 'taskId, userEmail, and task are required' }),
+    if (!taskId || !task) {
+      return new NextResponse(
+        JSON.stringify({ error: 'taskId and task are required' }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       );
     }
@@ -190,7 +192,7 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    return new Response(stream, {
+    return new NextResponse(stream, {
       headers: {
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
@@ -199,12 +201,12 @@ export async function POST(request: NextRequest) {
     });
   } catch (error) {
     console.error('Error in agent stream:', error);
-    return new Response(
+    return new NextResponse(
       JSON.stringify({ error: 'Internal server error' }),
       { status: 500, headers: { 'Content-Type': 'application/json' } }
     );
   }
-}
+});
 
 // Helper to get risk level
 function getToolRiskLevel(toolName: string): string {
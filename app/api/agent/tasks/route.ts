@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@supabase/supabase-js';
 
 const supabase = createClient(
@@ -36,17 +37,13 @@ export interface AgentTask {
 }
 
 // GET - Fetch user's tasks
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const email = auth.email;
     const status = searchParams.get('status'); // Optional filter
     const taskId = searchParams.get('taskId'); // Get specific task
 
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
-
     // Get specific task
     if (taskId) {
       const { data: task, error } = await supabase
@@ -98,17 +95,18 @@ export async function GET(request: NextRequest) {
     console.error('Error in GET /api/agent/tasks:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
 // POST - Create a new task
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, type, title, description, params, sourceInsightId } = body;
+    const { type, title, description, params, sourceInsightId } = body;
+    const email = auth.email;
 
-    if (!email || !type || !title) {
+    if (!type || !title) {
       return NextResponse.json(
-        { error: 'Email, type, and title are required' },
+        { error: 'type and title are required' },
         { status: 400 }
       );
     }
@@ -150,17 +148,18 @@ export async function POST(request: NextRequest) {
     console.error('Error in POST /api/agent/tasks:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
 // PATCH - Update task status or approve/reject
-export async function PATCH(request: NextRequest) {
+export const PATCH = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { taskId, email, action, stepId } = body;
+    const { taskId, action, stepId } = body;
+    const email = auth.email;
 
-    if (!taskId || !email) {
+    if (!taskId) {
       return NextResponse.json(
-        { error: 'Task ID and email are required' },
+        { error: 'Task ID is required' },
         { status: 400 }
       );
     }
@@ -260,21 +259,17 @@ export async function PATCH(request: NextRequest) {
     console.error('Error in PATCH /api/agent/tasks:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
 // DELETE - Delete tasks (single, auto-created, or all pending)
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const email = auth.email;
     const taskId = searchParams.get('taskId');
     const clearAutoCreated = searchParams.get('clearAutoCreated') === 'true';
     const clearPending = searchParams.get('clearPending') === 'true';
 
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
-
     // Delete specific task
     if (taskId) {
       const { error } = await supabase
@@ -336,7 +331,7 @@ export async function DELETE(request: NextRequest) {
     console.error('Error in DELETE /api/agent/tasks:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
 // Helper function to get task configuration based on type
 function getTaskConfig(type: string, params?: Record<string, any>) {
@@ -21,6 +21,7 @@ import { analyzeEcosystemPatterns } from '@/lib/services/pattern-analyzer';
 import { analyzeWithAI, AIInsight } from '@/lib/services/ai-pattern-analyzer';
 import { autoSyncEcosystemData } from '@/lib/services/auto-sync';
 import { validateUnifiedContext, generateQualityMessage } from '@/lib/validators/context-validator';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
 
 // ============================================================================
 // AUTO-CREATE AGENT TASKS FROM INSIGHTS
@@ -39,7 +40,7 @@ async function autoCreateAgentTasks(email: string, insights: AIInsight[]) {
   try {
     const response = await fetch(`${baseUrl}/api/agent/auto-create`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
       body: JSON.stringify({
         email,
         insights: safeInsights.map(i => ({
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
+import { withAuth } from '@/lib/middleware';
 
-export async function POST() {
+export const POST = withAuth(async () => {
   try {
     // Clear the Apple Calendar connection cookie
     const cookieStore = await cookies();
@@ -25,4 +26,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+});
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { google } from 'googleapis';
 import { getAccessToken } from '@/lib/services/token-manager';
 import { createAdminClient } from '@/lib/supabase/server';
@@ -37,20 +38,16 @@ interface TimeSlot {
   duration: number; // minutes
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
+    const email = auth.email;
     const userCode = searchParams.get('code');
     const durationMinutes = parseInt(searchParams.get('duration') || '30');
     const daysAhead = parseInt(searchParams.get('days') || '7');
     const preferredHourStart = parseInt(searchParams.get('hourStart') || '9');
     const preferredHourEnd = parseInt(searchParams.get('hourEnd') || '17');
 
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
-
     console.log(`[Calendar] Finding availability for ${email}`);
 
     // Get user code if not provided
@@ -200,7 +197,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { internal: true });
 
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { google } from 'googleapis';
 import { getAccessToken } from '@/lib/services/token-manager';
 import { createAdminClient } from '@/lib/supabase/server';
@@ -32,14 +33,11 @@ async function getUserCode(email: string): Promise<string | null> {
   return null;
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, userCode, title, description, startTime, endTime, location, colorId } = body;
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
+    const { userCode, title, description, startTime, endTime, location, colorId } = body;
+    const email = auth.email;
 
     if (!title || !startTime || !endTime) {
       return NextResponse.json(
@@ -136,7 +134,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { internal: true });
 
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -4,23 +4,25 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { addToCart } from '@/lib/services/cart';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, productId, quantity, planCode, recommendationContext } = body;
+    const { productId, quantity, planCode, recommendationContext } = body;
+    const email = auth.email;
 
-    if (!email || !productId) {
+    if (!productId) {
       return NextResponse.json(
-        { success: false, error: 'Email and productId are required' },
+        { success: false, error: 'productId is required' },
         { status: 400 }
       );
     }
 
     console.log(`[Cart API] Adding product ${productId} to cart for ${email}`);
 
-    const { cart, error } = await addToCart(
+    const { cart, error, warnings } = await addToCart(
       email,
       productId,
       quantity || 1,
@@ -30,7 +32,7 @@ export async function POST(request: NextRequest) {
 
     if (error) {
       return NextResponse.json(
-        { success: false, error },
+        { success: false, error, warnings },
         { status: 400 }
       );
     }
@@ -39,6 +41,7 @@ export async function POST(request: NextRequest) {
       success: true,
       message: 'Added to cart',
       cart,
+      warnings,
     });
   } catch (error) {
     console.error('[Cart API] Error:', error);
@@ -50,4 +53,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { guest: true, internal: true });
@@ -1,23 +1,16 @@
 /**
  * Clear Cart API
- * DELETE /api/cart/clear (with query param)
- * POST /api/cart/clear (with body)
+ * DELETE /api/cart/clear
+ * POST /api/cart/clear
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { clearCart } from '@/lib/services/cart';
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json(
-        { success: false, error: 'Email is required' },
-        { status: 400 }
-      );
-    }
+    const email = auth.email;
 
     console.log(`[Cart API] Clearing cart for ${email}`);
 
@@ -44,19 +37,11 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { guest: true, internal: true });
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const body = await request.json();
-    const { email } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { success: false, error: 'Email is required' },
-        { status: 400 }
-      );
-    }
+    const email = auth.email;
 
     console.log(`[Cart API] Clearing cart for ${email}`);
 
@@ -83,4 +68,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { guest: true, internal: true });
@@ -4,17 +4,18 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { removeFromCart } from '@/lib/services/cart';
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const email = auth.email;
     const cartItemId = searchParams.get('cartItemId');
 
-    if (!email || !cartItemId) {
+    if (!cartItemId) {
       return NextResponse.json(
-        { success: false, error: 'Email and cartItemId are required' },
+        { success: false, error: 'cartItemId is required' },
         { status: 400 }
       );
     }
@@ -45,4 +46,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { guest: true });
@@ -4,19 +4,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { getCart } from '@/lib/services/cart';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const userEmail = searchParams.get('email');
-
-    if (!userEmail) {
-      return NextResponse.json(
-        { success: false, error: 'Email is required' },
-        { status: 400 }
-      );
-    }
+    const userEmail = auth.email;
 
     console.log(`[Cart API] GET cart for ${userEmail}`);
 
@@ -43,4 +36,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { guest: true });
@@ -4,16 +4,18 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { updateCartItemQuantity } from '@/lib/services/cart';
 
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, cartItemId, quantity } = body;
+    const { cartItemId, quantity } = body;
+    const email = auth.email;
 
-    if (!email || !cartItemId || quantity === undefined) {
+    if (!cartItemId || quantity === undefined) {
       return NextResponse.json(
-        { success: false, error: 'Email, cartItemId, and quantity are required' },
+        { success: false, error: 'cartItemId and quantity are required' },
         { status: 400 }
       );
     }
@@ -48,4 +50,4 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { guest: true });
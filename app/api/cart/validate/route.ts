@@ -4,19 +4,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { validateCart } from '@/lib/services/cart';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json(
-        { success: false, error: 'Email is required' },
-        { status: 400 }
-      );
-    }
+    const email = auth.email;
 
     console.log(`[Cart API] Validating cart for ${email}`);
 
@@ -38,4 +31,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { guest: true, internal: true });
@@ -6,6 +6,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 
 const corsHeaders = {
@@ -14,25 +15,18 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
 /**
  * GET /api/chat/conversations/[id]
  * Get a specific conversation
  */
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const GET = withAuth<RouteContext>(async (_request: NextRequest, auth, { params }) => {
   try {
     const { id } = await params;
-    const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const email = auth.email;
 
     const supabase = createAdminClient();
 
@@ -75,27 +69,18 @@ export async function GET(
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 /**
  * PATCH /api/chat/conversations/[id]
  * Update a conversation (archive, rename, etc.)
  */
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PATCH = withAuth<RouteContext>(async (request: NextRequest, auth, { params }) => {
   try {
     const { id } = await params;
     const body = await request.json();
-    const { email, status, title } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const { status, title } = body;
+    const email = auth.email;
 
     const supabase = createAdminClient();
 
@@ -140,7 +125,7 @@ export async function PATCH(
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
@@ -6,6 +6,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 
 const corsHeaders = {
@@ -18,19 +19,12 @@ const corsHeaders = {
  * GET /api/chat/conversations
  * List user's conversations
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
+    const email = auth.email;
     const limit = parseInt(searchParams.get('limit') || '20');
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
     const supabase = createAdminClient();
 
     const { data: conversations, error } = await supabase
@@ -62,23 +56,17 @@ export async function GET(request: NextRequest) {
       { headers: corsHeaders }
     );
   }
-}
+});
 
 /**
  * POST /api/chat/conversations
  * Create a new conversation
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, title } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const { title } = body;
+    const email = auth.email;
 
     const supabase = createAdminClient();
 
@@ -147,7 +135,7 @@ export async function POST(request: NextRequest) {
       },
     }, { headers: corsHeaders });
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
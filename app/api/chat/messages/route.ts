@@ -6,6 +6,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 import OpenAI from 'openai';
 
@@ -19,11 +20,28 @@ const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 });
 
+/**
+ * Whether the conversation belongs to the user
+ */
+async function ownsConversation(
+  supabase: ReturnType<typeof createAdminClient>,
+  conversationId: string,
+  email: string
+): Promise<boolean> {
+  const { data } = await supabase
+    .from('conversations')
+    .select('id')
+    .eq('id', conversationId)
+    .eq('user_email', email)
+    .maybeSingle();
+  return !!data;
+}
+
 /**
  * GET /api/chat/messages
  * Get messages for a conversation
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const searchParams = request.nextUrl.searchParams;
     const conversationId = searchParams.get('conversationId');
@@ -39,6 +57,13 @@ export async function GET(request: NextRequest) {
 
     const supabase = createAdminClient();
 
+    if (!(await ownsConversation(supabase, conversationId, auth.email))) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
     const { data: messages, error } = await supabase
       .from('chat_messages')
       .select('*')
@@ -79,25 +104,33 @@ export async function GET(request: NextRequest) {
       { headers: corsHeaders }
     );
   }
-}
+});
 
 /**
  * POST /api/chat/messages
  * Send a message and get AI response
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, conversationId, content, inputSource, intent } = body;
+    const { conversationId, content, inputSource, intent } = body;
+    const email = auth.email;
 
-    if (!email || !conversationId || !content) {
+    if (!conversationId || !content) {
       return NextResponse.json(
-        { error: 'email, conversationId, and content are required' },
+        { error: 'conversationId and content are required' },
         { status: 400, headers: corsHeaders }
       );
     }
 
     const supabase = createAdminClient();
+
+    if (!(await ownsConversation(supabase, conversationId, email))) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
     const now = new Date().toISOString();
 
     // Create user message
@@ -209,7 +242,7 @@ If the user asks about something outside your expertise, acknowledge it and offe
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
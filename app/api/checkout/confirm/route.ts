@@ -6,18 +6,20 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { retrievePaymentIntent } from '@/lib/stripe';
 import { createOrderFromCart, type ShippingAddress } from '@/lib/services/orders';
 import { createClient } from '@/lib/supabase/server';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, paymentIntentId, shippingAddress, customerNotes, saveAddress = true } = body;
+    const { paymentIntentId, shippingAddress, customerNotes, saveAddress = true } = body;
+    const email = auth.email;
 
-    if (!email || !paymentIntentId || !shippingAddress) {
+    if (!paymentIntentId || !shippingAddress) {
       return NextResponse.json(
-        { success: false, error: 'Email, paymentIntentId, and shippingAddress are required' },
+        { success: false, error: 'paymentIntentId and shippingAddress are required' },
         { status: 400 }
       );
     }
@@ -153,4 +155,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { guest: true });
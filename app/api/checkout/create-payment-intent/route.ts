@@ -6,25 +6,20 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { validateCart } from '@/lib/services/cart';
 import { createPaymentIntent, calculateOrderTotal } from '@/lib/stripe';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, planCode } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { success: false, error: 'Email is required' },
-        { status: 400 }
-      );
-    }
+    const { planCode } = body;
+    const email = auth.email;
 
     console.log(`[Checkout API] Creating payment intent for ${email}`);
 
     // Convert guest identifier to valid email for Stripe
-    const stripeEmail = email.startsWith('guest-')
+    const stripeEmail = auth.access.kind === 'guest'
       ? `${email}@guest.moccet.ai`
       : email;
 
@@ -91,4 +86,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { guest: true });
@@ -0,0 +1,37 @@
+/**
+ * Setup Payment Method API
+ * POST /api/checkout/setup-payment-method
+ *
+ * Creates a Stripe setup intent that saves a card for supplement
+ * replenishment, which is charged off-session when shipments are due.
+ * Guests get a 401 and have to sign in first.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
+import { createOffSessionSetupIntent } from '@/lib/stripe';
+
+export const POST = withAuth(async (_request: NextRequest, auth) => {
+  try {
+    const email = auth.email;
+
+    console.log(`[Checkout API] Creating setup intent for ${email}`);
+
+    const setupIntent = await createOffSessionSetupIntent(email);
+
+    return NextResponse.json({
+      success: true,
+      clientSecret: setupIntent.client_secret,
+      setupIntentId: setupIntent.id,
+    });
+  } catch (error) {
+    console.error('[Checkout API] Error creating setup intent:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create setup intent',
+      },
+      { status: 500 }
+    );
+  }
+});
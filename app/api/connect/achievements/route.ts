@@ -6,25 +6,19 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { AchievementsService } from '@/lib/services/social';
 import { createLogger } from '@/lib/utils/logger';
 
 const logger = createLogger('ConnectAchievementsAPI');
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const email = auth.email;
     const mode = searchParams.get('mode'); // 'own', 'friends', 'recent', 'stats'
     const limit = parseInt(searchParams.get('limit') || '20');
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400 }
-      );
-    }
-
     switch (mode) {
       case 'friends':
         const friendsAchievements = await AchievementsService.getFriendsAchievements(email, limit);
@@ -65,16 +59,17 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, achievementId, action } = body; // action: 'share' or 'unshare'
+    const { achievementId, action } = body; // action: 'share' or 'unshare'
+    const email = auth.email;
 
-    if (!email || !achievementId || !action) {
+    if (!achievementId || !action) {
       return NextResponse.json(
-        { error: 'email, achievementId, and action are required' },
+        { error: 'achievementId and action are required' },
         { status: 400 }
       );
     }
@@ -106,4 +101,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -7,15 +7,17 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { ChallengesService } from '@/lib/services/social';
 import { createLogger } from '@/lib/utils/logger';
 
 const logger = createLogger('ConnectChallengeAPI');
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+interface RouteContext {
+  params: { id: string };
+}
+
+export const GET = withAuth<RouteContext>(async (_request: NextRequest, auth, { params }) => {
   try {
     const challenge = await ChallengesService.getChallenge(params.id);
 
@@ -37,19 +39,17 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const POST = withAuth<RouteContext>(async (request: NextRequest, auth, { params }) => {
   try {
     const body = await request.json();
-    const { email, action } = body; // action: 'accept', 'decline', 'cancel'
+    const { action } = body; // action: 'accept', 'decline', 'cancel'
+    const email = auth.email;
 
-    if (!email || !action) {
+    if (!action) {
       return NextResponse.json(
-        { error: 'email and action are required' },
+        { error: 'action is required' },
         { status: 400 }
       );
     }
@@ -87,22 +87,13 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
 
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const PUT = withAuth<RouteContext>(async (request: NextRequest, auth, { params }) => {
   try {
     const body = await request.json();
-    const { email, progress, streakDays } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400 }
-      );
-    }
+    const { progress, streakDays } = body;
+    const email = auth.email;
 
     if (progress !== undefined) {
       const result = await ChallengesService.updateProgress(params.id, email, progress);
@@ -132,4 +123,4 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
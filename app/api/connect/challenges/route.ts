@@ -6,24 +6,18 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { ChallengesService } from '@/lib/services/social';
 import { createLogger } from '@/lib/utils/logger';
 
 const logger = createLogger('ConnectChallengesAPI');
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const email = auth.email;
     const status = searchParams.get('status'); // 'active', 'pending', 'history', 'stats'
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400 }
-      );
-    }
-
     if (status === 'stats') {
       const stats = await ChallengesService.getChallengeStats(email);
       return NextResponse.json({ success: true, stats });
@@ -55,13 +49,12 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
     const {
-      challengerEmail,
       challengedEmail,
       title,
       description,
@@ -71,8 +64,9 @@ export async function POST(request: NextRequest) {
       startDate,
       endDate,
     } = body;
+    const challengerEmail = auth.email;
 
-    if (!challengerEmail || !challengedEmail || !title || !challengeType || !metricType || !startDate || !endDate) {
+    if (!challengedEmail || !title || !challengeType || !metricType || !startDate || !endDate) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
@@ -111,4 +105,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
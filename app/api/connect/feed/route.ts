@@ -7,6 +7,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { FriendFeedService } from '@/lib/services/social';
 import { createLogger } from '@/lib/utils/logger';
 import { createClient } from '@supabase/supabase-js';
@@ -40,23 +41,16 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const email = auth.email;
     const friendEmail = searchParams.get('friend'); // Optional: filter by friend
     const feedItemId = searchParams.get('id'); // Get specific item details
     const limit = parseInt(searchParams.get('limit') || '20');
     const offset = parseInt(searchParams.get('offset') || '0');
     const activityType = searchParams.get('type') as any; // Optional filter
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400 }
-      );
-    }
-
     // If requesting specific feed item details
     if (feedItemId) {
       const { data: details, error } = await supabase.rpc('get_feed_item_details', {
@@ -107,16 +101,17 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, feedItemId, action, emoji, message } = body;
+    const { feedItemId, action, emoji, message } = body;
+    const email = auth.email;
 
-    if (!email || !feedItemId) {
+    if (!feedItemId) {
       return NextResponse.json(
-        { error: 'email and feedItemId are required' },
+        { error: 'feedItemId is required' },
         { status: 400 }
       );
     }
@@ -299,17 +294,17 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const email = auth.email;
     const feedItemId = searchParams.get('id');
 
-    if (!email || !feedItemId) {
+    if (!feedItemId) {
       return NextResponse.json(
-        { error: 'email and id are required' },
+        { error: 'id is required' },
         { status: 400 }
       );
     }
@@ -331,4 +326,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
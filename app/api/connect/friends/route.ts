@@ -5,18 +5,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { connectionService } from '@/lib/services/connect/connection-service';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const email = request.headers.get('x-user-email');
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 401 }
-      );
-    }
+    const email = auth.email;
 
     console.log(`[Connect] Fetching friends for ${email}`);
 
@@ -35,21 +29,14 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
   try {
-    const email = request.headers.get('x-user-email');
+    const email = auth.email;
     const { searchParams } = new URL(request.url);
     const friendEmail = searchParams.get('friendEmail');
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 401 }
-      );
-    }
-
     if (!friendEmail) {
       return NextResponse.json(
         { error: 'Friend email is required' },
@@ -76,4 +63,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -5,26 +5,22 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { SocialGoalsService } from '@/lib/services/social';
 import { createLogger } from '@/lib/utils/logger';
 
 const logger = createLogger('ConnectGoalCheerAPI');
 
-export async function POST(
-  request: NextRequest,
-  { params }: { params: { goalId: string } }
-) {
+interface RouteContext {
+  params: { goalId: string };
+}
+
+export const POST = withAuth<RouteContext>(async (request: NextRequest, auth, { params }) => {
   try {
     const { goalId } = params;
     const body = await request.json();
-    const { email, emoji } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400 }
-      );
-    }
+    const { emoji } = body;
+    const email = auth.email;
 
     const result = await SocialGoalsService.cheerGoal(goalId, email, emoji || '💪');
 
@@ -43,4 +39,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
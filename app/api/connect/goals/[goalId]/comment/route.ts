@@ -6,23 +6,26 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { SocialGoalsService } from '@/lib/services/social';
 import { createLogger } from '@/lib/utils/logger';
 
 const logger = createLogger('ConnectGoalCommentAPI');
 
-export async function POST(
-  request: NextRequest,
-  { params }: { params: { goalId: string } }
-) {
+interface RouteContext {
+  params: { goalId: string };
+}
+
+export const POST = withAuth<RouteContext>(async (request: NextRequest, auth, { params }) => {
   try {
     const { goalId } = params;
     const body = await request.json();
-    const { email, message } = body;
+    const { message } = body;
+    const email = auth.email;
 
-    if (!email || !message) {
+    if (!message) {
       return NextResponse.json(
-        { error: 'email and message are required' },
+        { error: 'message is required' },
         { status: 400 }
       );
     }
@@ -51,12 +54,9 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { goalId: string } }
-) {
+export const GET = withAuth<RouteContext>(async (request: NextRequest, auth, { params }) => {
   try {
     const { goalId } = params;
     const { searchParams } = new URL(request.url);
@@ -76,4 +76,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
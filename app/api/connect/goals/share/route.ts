@@ -8,19 +8,21 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { SocialGoalsService } from '@/lib/services/social';
 import { createLogger } from '@/lib/utils/logger';
 
 const logger = createLogger('ConnectGoalsShareAPI');
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, goalId, isPublic, sharedWith, shareProgress, shareCurrentValue } = body;
+    const { goalId, isPublic, sharedWith, shareProgress, shareCurrentValue } = body;
+    const email = auth.email;
 
-    if (!email || !goalId) {
+    if (!goalId) {
       return NextResponse.json(
-        { error: 'email and goalId are required' },
+        { error: 'goalId is required' },
         { status: 400 }
       );
     }
@@ -47,16 +49,17 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, goalId, ...settings } = body;
+    const { goalId, ...settings } = body;
+    const email = auth.email;
 
-    if (!email || !goalId) {
+    if (!goalId) {
       return NextResponse.json(
-        { error: 'email and goalId are required' },
+        { error: 'goalId is required' },
         { status: 400 }
       );
     }
@@ -78,17 +81,17 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const email = auth.email;
     const goalId = searchParams.get('goalId');
 
-    if (!email || !goalId) {
+    if (!goalId) {
       return NextResponse.json(
-        { error: 'email and goalId are required' },
+        { error: 'goalId is required' },
         { status: 400 }
       );
     }
@@ -110,21 +113,14 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const email = auth.email;
     const goalId = searchParams.get('goalId');
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400 }
-      );
-    }
-
     // If goalId provided, get settings for that goal
     if (goalId) {
       const settings = await SocialGoalsService.getShareSettings(goalId, email);
@@ -149,4 +145,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
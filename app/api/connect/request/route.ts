@@ -5,21 +5,15 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { connectionService } from '@/lib/services/connect/connection-service';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
-    const email = request.headers.get('x-user-email');
+    const email = auth.email;
     const body = await request.json();
     const { addresseeEmail } = body;
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 401 }
-      );
-    }
-
     if (!addresseeEmail) {
       return NextResponse.json(
         { error: 'Addressee email is required' },
@@ -56,18 +50,11 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const email = request.headers.get('x-user-email');
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 401 }
-      );
-    }
+    const email = auth.email;
 
     console.log(`[Connect] Fetching pending requests for ${email}`);
 
@@ -84,4 +71,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -4,21 +4,15 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { connectionService } from '@/lib/services/connect/connection-service';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
-    const email = request.headers.get('x-user-email');
+    const email = auth.email;
     const body = await request.json();
     const { requestId, accept } = body;
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 401 }
-      );
-    }
-
     if (!requestId) {
       return NextResponse.json(
         { error: 'Request ID is required' },
@@ -56,4 +50,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -5,21 +5,15 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { connectionService } from '@/lib/services/connect/connection-service';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
-    const email = request.headers.get('x-user-email');
+    const email = auth.email;
     const { searchParams } = new URL(request.url);
     const friendEmail = searchParams.get('friendEmail');
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 401 }
-      );
-    }
-
     if (!friendEmail) {
       return NextResponse.json(
         { error: 'Friend email is required' },
@@ -58,21 +52,14 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth(async (request: NextRequest, auth) => {
   try {
-    const email = request.headers.get('x-user-email');
+    const email = auth.email;
     const body = await request.json();
     const { friendEmail, preferences } = body;
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 401 }
-      );
-    }
-
     if (!friendEmail) {
       return NextResponse.json(
         { error: 'Friend email is required' },
@@ -119,4 +106,4 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -4,21 +4,15 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { suggestionEngine } from '@/lib/services/connect/suggestion-engine';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
-    const email = request.headers.get('x-user-email');
+    const email = auth.email;
     const body = await request.json();
     const { suggestionId, accept, selectedTime } = body;
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 401 }
-      );
-    }
-
     if (!suggestionId) {
       return NextResponse.json(
         { error: 'Suggestion ID is required' },
@@ -63,4 +57,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -5,18 +5,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { suggestionEngine } from '@/lib/services/connect/suggestion-engine';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const email = request.headers.get('x-user-email');
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 401 }
-      );
-    }
+    const email = auth.email;
 
     console.log(`[Connect] Fetching suggestions for ${email}`);
 
@@ -33,18 +27,11 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const email = request.headers.get('x-user-email');
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 401 }
-      );
-    }
+    const email = auth.email;
 
     console.log(`[Connect] Generating suggestions for ${email}`);
 
@@ -62,4 +49,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@supabase/supabase-js';
 import { createCoordinator } from '@/lib/services/coordinator-agent/coordinator';
 
@@ -12,21 +13,14 @@ const supabase = createClient(
  * Create a new health plan from insights
  *
  * Body: {
- *   email: string,
  *   insights: Array<{ id, title, category, dataObservation?, recommendation? }>
  * }
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, insights } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400 }
-      );
-    }
+    const { insights } = body;
+    const email = auth.email;
 
     if (!insights || !Array.isArray(insights) || insights.length === 0) {
       return NextResponse.json(
@@ -59,28 +53,21 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * GET /api/coordinator/plans
  * Get all health plans for a user
  *
- * Query: ?email=xxx&status=xxx (optional)
+ * Query: ?status=xxx (optional)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const email = auth.email;
     const status = searchParams.get('status');
     const planId = searchParams.get('planId');
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400 }
-      );
-    }
-
     // If specific plan requested
     if (planId) {
       const { data: plan, error } = await supabase
@@ -141,7 +128,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PATCH /api/coordinator/plans
@@ -149,19 +136,19 @@ export async function GET(request: NextRequest) {
  *
  * Body: {
  *   planId: string,
- *   email: string,
  *   action: 'approve' | 'approve_task' | 'start' | 'pause' | 'cancel',
  *   taskId?: string (required for approve_task)
  * }
  */
-export async function PATCH(request: NextRequest) {
+export const PATCH = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { planId, email, action, taskId } = body;
+    const { planId, action, taskId } = body;
+    const email = auth.email;
 
-    if (!planId || !email || !action) {
+    if (!planId || !action) {
       return NextResponse.json(
-        { error: 'Missing required fields: planId, email, action' },
+        { error: 'Missing required fields: planId, action' },
         { status: 400 }
       );
     }
@@ -237,22 +224,23 @@ export async function PATCH(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * DELETE /api/coordinator/plans
  * Delete a draft health plan
  *
- * Body: { planId: string, email: string }
+ * Body: { planId: string }
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { planId, email } = body;
+    const { planId } = body;
+    const email = auth.email;
 
-    if (!planId || !email) {
+    if (!planId) {
       return NextResponse.json(
-        { error: 'Missing required fields: planId, email' },
+        { error: 'Missing required field: planId' },
         { status: 400 }
       );
     }
@@ -311,4 +299,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
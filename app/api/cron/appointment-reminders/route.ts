@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runAppointmentReminderJob } from '@/lib/services/provider-directory';
+import { isValidCronRequest, requireCronSecret } from '@/lib/utils/cron-auth';
+
+// Vercel Cron job - runs every 15 minutes, sending the day-before and
+// two-hour reminders for booked appointments
+// Configure in vercel.json: { "path": "/api/cron/appointment-reminders", "schedule": "*/15 * * * *" }
+export const maxDuration = 300; // 5 minutes max for cron job
+
+export async function GET(request: NextRequest) {
+  // Verify this is a legitimate cron request
+  if (!isValidCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  console.log('[Appointment Reminders Cron] Processing upcoming appointments');
+  const startTime = Date.now();
+
+  try {
+    const summary = await runAppointmentReminderJob();
+
+    const duration = Date.now() - startTime;
+    console.log(
+      `[Appointment Reminders Cron] Completed in ${duration}ms. Checked ${summary.appointmentsChecked} appointments, sent ${summary.remindersSent} reminders`
+    );
+
+    return NextResponse.json({
+      success: true,
+      appointments_checked: summary.appointmentsChecked,
+      reminders_sent: summary.remindersSent,
+      duration_ms: duration,
+    });
+  } catch (error) {
+    console.error('[Appointment Reminders Cron] Fatal error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration_ms: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering (with auth)
+export async function POST(request: NextRequest) {
+  // For manual triggers, require CRON_SECRET
+  if (!requireCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return GET(request);
+}
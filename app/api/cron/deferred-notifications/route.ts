@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { NotificationCoordinator } from '@/lib/services/notification-coordinator';
+import { alertRoutingService } from '@/lib/services/share/alert-routing-service';
+import { isValidCronRequest, requireCronSecret } from '@/lib/utils/cron-auth';
+
+// Vercel Cron job - runs every 15 minutes, releasing notifications held for
+// quiet hours once the recipient's delivery window opens
+// Configure in vercel.json: { "path": "/api/cron/deferred-notifications", "schedule": "*/15 * * * *" }
+export const maxDuration = 300; // 5 minutes max for cron job
+
+export async function GET(request: NextRequest) {
+  // Verify this is a legitimate cron request
+  if (!isValidCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  console.log('[Deferred Notifications Cron] Releasing deferred notifications');
+  const startTime = Date.now();
+
+  try {
+    const notifications = await NotificationCoordinator.releaseDeferred();
+    const caregiverAlerts = await alertRoutingService.releaseDeferredAlerts();
+
+    const duration = Date.now() - startTime;
+    console.log(
+      `[Deferred Notifications Cron] Completed in ${duration}ms. Released ${notifications.released} notifications and ${caregiverAlerts.released} caregiver alerts`
+    );
+
+    return NextResponse.json({
+      success: true,
+      notifications,
+      caregiver_alerts: caregiverAlerts,
+      duration_ms: duration,
+    });
+  } catch (error) {
+    console.error('[Deferred Notifications Cron] Fatal error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration_ms: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering (with auth)
+export async function POST(request: NextRequest) {
+  // For manual triggers, require CRON_SECRET
+  if (!requireCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return GET(request);
+}
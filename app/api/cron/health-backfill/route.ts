@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processBackfillQueue } from '@/lib/services/health-backfill';
+import { isValidCronRequest, requireCronSecret } from '@/lib/utils/cron-auth';
+
+// Vercel Cron job - runs every 15 minutes, resuming queued backfills from their checkpoints
+// Configure in vercel.json: { "path": "/api/cron/health-backfill", "schedule": "*/15 * * * *" }
+export const maxDuration = 300; // 5 minutes max for cron job
+
+export async function GET(request: NextRequest) {
+  // Verify this is a legitimate cron request
+  if (!isValidCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  console.log('[Health Backfill Cron] Processing backfill queue');
+  const startTime = Date.now();
+
+  try {
+    const results = await processBackfillQueue();
+
+    const completed = results.filter(r => r.status === 'completed').length;
+    const failed = results.filter(r => r.status === 'failed').length;
+    const deferred = results.filter(r => r.deferred).length;
+    const recordsWritten = results.reduce((sum, r) => sum + r.recordsWritten, 0);
+
+    const duration = Date.now() - startTime;
+    console.log(
+      `[Health Backfill Cron] Completed in ${duration}ms. Ran ${results.length} jobs (${completed} completed, ${failed} failed, ${deferred} deferred), wrote ${recordsWritten} records`
+    );
+
+    return NextResponse.json({
+      success: true,
+      jobs_processed: results.length,
+      jobs_completed: completed,
+      jobs_failed: failed,
+      jobs_deferred: deferred,
+      records_written: recordsWritten,
+      results,
+      duration_ms: duration,
+    });
+  } catch (error) {
+    console.error('[Health Backfill Cron] Fatal error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration_ms: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering (with auth)
+export async function POST(request: NextRequest) {
+  // For manual triggers, require CRON_SECRET
+  if (!requireCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return GET(request);
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runMedicationDoseJob } from '@/lib/services/medications';
+import { isValidCronRequest, requireCronSecret } from '@/lib/utils/cron-auth';
+
+// Vercel Cron job - runs every 15 minutes, scheduling the next day of
+// medication doses, sending dose reminders and marking missed doses
+// Configure in vercel.json: { "path": "/api/cron/medication-doses", "schedule": "*/15 * * * *" }
+export const maxDuration = 300; // 5 minutes max for cron job
+
+export async function GET(request: NextRequest) {
+  // Verify this is a legitimate cron request
+  if (!isValidCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  console.log('[Medication Doses Cron] Processing medication doses');
+  const startTime = Date.now();
+
+  try {
+    const summary = await runMedicationDoseJob();
+
+    const duration = Date.now() - startTime;
+    console.log(
+      `[Medication Doses Cron] Completed in ${duration}ms. Scheduled ${summary.dosesScheduled} doses, sent ${summary.remindersSent} reminders, marked ${summary.dosesMissed} missed (${summary.caregiverAlerts} caregiver alerts), ${summary.refillReminders} refill reminders`
+    );
+
+    return NextResponse.json({
+      success: true,
+      doses_scheduled: summary.dosesScheduled,
+      reminders_sent: summary.remindersSent,
+      doses_missed: summary.dosesMissed,
+      caregiver_alerts: summary.caregiverAlerts,
+      refill_reminders: summary.refillReminders,
+      duration_ms: duration,
+    });
+  } catch (error) {
+    console.error('[Medication Doses Cron] Fatal error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration_ms: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering (with auth)
+export async function POST(request: NextRequest) {
+  // For manual triggers, require CRON_SECRET
+  if (!requireCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return GET(request);
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runNotificationDigestJob } from '@/lib/services/notification-digest';
+import { isValidCronRequest, requireCronSecret } from '@/lib/utils/cron-auth';
+
+// Vercel Cron job - runs every 15 minutes, sending each user's digest of
+// batched notifications at their local digest hour
+// Configure in vercel.json: { "path": "/api/cron/notification-digest", "schedule": "*/15 * * * *" }
+export const maxDuration = 300; // 5 minutes max for cron job
+
+export async function GET(request: NextRequest) {
+  // Verify this is a legitimate cron request
+  if (!isValidCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  console.log('[Notification Digest Cron] Sending notification digests');
+  const startTime = Date.now();
+
+  try {
+    const { usersWithBatched, results } = await runNotificationDigestJob();
+
+    const sent = results.filter(r => r.sent).length;
+    const itemsDigested = results.filter(r => r.sent).reduce((sum, r) => sum + r.itemCount, 0);
+
+    const duration = Date.now() - startTime;
+    console.log(
+      `[Notification Digest Cron] Completed in ${duration}ms. Sent ${sent} digests covering ${itemsDigested} notifications (${usersWithBatched} users with batched notifications)`
+    );
+
+    return NextResponse.json({
+      success: true,
+      users_with_batched: usersWithBatched,
+      digests_sent: sent,
+      items_digested: itemsDigested,
+      results,
+      duration_ms: duration,
+    });
+  } catch (error) {
+    console.error('[Notification Digest Cron] Fatal error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration_ms: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering (with auth)
+export async function POST(request: NextRequest) {
+  // For manual triggers, require CRON_SECRET
+  if (!requireCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return GET(request);
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runReplenishmentJob } from '@/lib/services/replenishment';
+import { isValidCronRequest, requireCronSecret } from '@/lib/utils/cron-auth';
+
+// Vercel Cron job - runs daily, resuming ended pauses, sending pre-shipment
+// reminders, swapping out-of-stock products and charging due replenishment
+// subscriptions
+// Configure in vercel.json: { "path": "/api/cron/supplement-replenishment", "schedule": "0 14 * * *" }
+export const maxDuration = 300; // 5 minutes max for cron job
+
+export async function GET(request: NextRequest) {
+  // Verify this is a legitimate cron request
+  if (!isValidCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  console.log('[Supplement Replenishment Cron] Processing replenishment subscriptions');
+  const startTime = Date.now();
+
+  try {
+    const summary = await runReplenishmentJob();
+
+    const duration = Date.now() - startTime;
+    console.log(
+      `[Supplement Replenishment Cron] Completed in ${duration}ms. Placed ${summary.ordersPlaced} orders, sent ${summary.remindersSent} reminders, swapped ${summary.itemsSwapped} and skipped ${summary.itemsSkipped} out-of-stock items, ${summary.paymentFailures} payment failures (${summary.paused} paused), ${summary.refunded} refunded, resumed ${summary.resumed}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      orders_placed: summary.ordersPlaced,
+      reminders_sent: summary.remindersSent,
+      items_swapped: summary.itemsSwapped,
+      items_skipped: summary.itemsSkipped,
+      payment_failures: summary.paymentFailures,
+      refunded: summary.refunded,
+      paused: summary.paused,
+      resumed: summary.resumed,
+      duration_ms: duration,
+    });
+  } catch (error) {
+    console.error('[Supplement Replenishment Cron] Fatal error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration_ms: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering (with auth)
+export async function POST(request: NextRequest) {
+  // For manual triggers, require CRON_SECRET
+  if (!requireCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return GET(request);
+}
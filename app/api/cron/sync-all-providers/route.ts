@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { processAllProviders, getUsersWithIntegrations } from '@/lib/services/insight-trigger-service';
+import { evaluateCustomRules } from '@/lib/services/custom-insight-rules';
 import { createAdminClient } from '@/lib/supabase/server';
 import { isValidCronRequest, requireCronSecret } from '@/lib/utils/cron-auth';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
 
 // Vercel Cron job - runs every 2 hours
 // Configure in vercel.json: { "path": "/api/cron/sync-all-providers", "schedule": "0 */2 * * *" }
@@ -46,7 +48,7 @@ async function refreshUserData(email: string): Promise<Record<string, boolean>>
       try {
         const response = await fetch(`${BASE_URL}${endpoint}`, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
           body: JSON.stringify({ email }),
         });
         results[provider] = response.ok;
@@ -90,6 +92,7 @@ export async function GET(request: NextRequest) {
     // Process users in batches to avoid timeout
     const BATCH_SIZE = 10;
     let totalInsights = 0;
+    let rulesTriggered = 0;
     let usersProcessed = 0;
     const errors: string[] = [];
 
@@ -110,11 +113,18 @@ export async function GET(request: NextRequest) {
 
             // THEN: Process the fresh data to generate insights
             const result = await processAllProviders(email);
-            return { email, refreshed: refreshResults, ...result };
+
+            // FINALLY: Evaluate the user's own insight rules (failures don't fail the sync)
+            const rules = await evaluateCustomRules(email).catch((e) => {
+              console.error(`[Cron Sync] Custom rule evaluation failed for ${email}:`, e);
+              return null;
+            });
+
+            return { email, refreshed: refreshResults, rules_triggered: rules?.triggered || 0, ...result };
           } catch (error) {
             const errorMsg = error instanceof Error ? error.message : 'Unknown error';
             console.error(`[Cron Sync] Error processing ${email}:`, errorMsg);
-            return { email, insights_generated: 0, errors: [errorMsg] };
+            return { email, insights_generated: 0, rules_triggered: 0, errors: [errorMsg] };
           }
         })
       );
@@ -123,6 +133,7 @@ export async function GET(request: NextRequest) {
       for (const result of results) {
         usersProcessed++;
         totalInsights += result.insights_generated;
+        rulesTriggered += result.rules_triggered;
         if (result.errors && result.errors.length > 0) {
           errors.push(`${result.email}: ${result.errors.join(', ')}`);
         }
@@ -142,6 +153,7 @@ export async function GET(request: NextRequest) {
       success: true,
       users_processed: usersProcessed,
       total_insights: totalInsights,
+      custom_rules_triggered: rulesTriggered,
       errors: errors.length > 0 ? errors.slice(0, 10) : undefined, // Limit errors in response
       duration_ms: duration,
     });
@@ -18,6 +18,8 @@ import { createAdminClient } from '@/lib/supabase/server';
 import { getValidatedAccessToken, getAccessToken } from '@/lib/services/token-manager';
 import { syncGoalProgress } from '@/lib/services/goal-progress-sync';
 import { isValidCronRequest, requireCronSecret } from '@/lib/utils/cron-auth';
+import { syncGarminData } from '@/lib/services/garmin-service';
+import { syncGoogleFitData } from '@/lib/services/google-fit-service';
 import {
   transformWhoopRecovery,
   transformOuraSleep,
@@ -32,6 +34,7 @@ import {
   StravaActivityRecord,
   UnifiedHealthRecord,
 } from '@/lib/services/unified-data';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
 
 export const maxDuration = 300; // 5 minutes max
 
@@ -676,7 +679,7 @@ async function fetchNotionDataForUser(email: string): Promise<{
       `${process.env.NEXT_PUBLIC_APP_URL || 'https://moccet.ai'}/api/notion/fetch-data`,
       {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
         body: JSON.stringify({ email }),
       }
     );
@@ -708,7 +711,7 @@ async function fetchLinearDataForUser(email: string): Promise<{
       `${process.env.NEXT_PUBLIC_APP_URL || 'https://moccet.ai'}/api/linear/fetch-data`,
       {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
         body: JSON.stringify({ email }),
       }
     );
@@ -741,7 +744,7 @@ async function fetchFitbitDataForUser(email: string): Promise<{
       `${process.env.NEXT_PUBLIC_APP_URL || 'https://moccet.ai'}/api/fitbit/fetch-data`,
       {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
         body: JSON.stringify({ email }),
       }
     );
@@ -765,7 +768,7 @@ async function fetchFitbitDataForUser(email: string): Promise<{
 }
 
 /**
- * GET - Run Whoop + Oura + Dexcom + Strava + Apple Health + Fitbit + Notion + Linear sync for all users
+ * GET - Run Whoop + Oura + Dexcom + Strava + Apple Health + Fitbit + Garmin + Google Fit + Notion + Linear sync for all users
  */
 export async function GET(request: NextRequest) {
   if (!isValidCronRequest(request)) {
@@ -813,6 +816,21 @@ export async function GET(request: NextRequest) {
       .eq('provider', 'fitbit')
       .eq('is_active', true);
 
+    // Get all users with active Garmin integrations
+    // Garmin also pushes summaries to /api/garmin/webhook; the pull here backfills missed pushes
+    const { data: garminUsers } = await supabase
+      .from('integration_tokens')
+      .select('user_email')
+      .eq('provider', 'garmin')
+      .eq('is_active', true);
+
+    // Get all users with active Google Fit integrations
+    const { data: googleFitUsers } = await supabase
+      .from('integration_tokens')
+      .select('user_email')
+      .eq('provider', 'google_fit')
+      .eq('is_active', true);
+
     // Get users with Apple Health data (push-based, stored in sage_onboarding_data)
     const { data: appleHealthUsers } = await supabase
       .from('sage_onboarding_data')
@@ -838,11 +856,13 @@ export async function GET(request: NextRequest) {
     const dexcomEmails = [...new Set(dexcomUsers?.map((u) => u.user_email).filter(Boolean))] as string[];
     const stravaEmails = [...new Set(stravaUsers?.map((u) => u.user_email).filter(Boolean))] as string[];
     const fitbitEmails = [...new Set(fitbitUsers?.map((u) => u.user_email).filter(Boolean))] as string[];
+    const garminEmails = [...new Set(garminUsers?.map((u) => u.user_email).filter(Boolean))] as string[];
+    const googleFitEmails = [...new Set(googleFitUsers?.map((u) => u.user_email).filter(Boolean))] as string[];
     const appleHealthEmails = [...new Set(appleHealthUsers?.map((u) => u.email).filter(Boolean))] as string[];
     const notionEmails = [...new Set(notionUsers?.map((u) => u.user_email).filter(Boolean))] as string[];
     const linearEmails = [...new Set(linearUsers?.map((u) => u.user_email).filter(Boolean))] as string[];
 
-    console.log(`[Wearables Sync Cron] Found ${whoopEmails.length} Whoop, ${ouraEmails.length} Oura, ${dexcomEmails.length} Dexcom, ${stravaEmails.length} Strava, ${fitbitEmails.length} Fitbit, ${appleHealthEmails.length} Apple Health, ${notionEmails.length} Notion, ${linearEmails.length} Linear users`);
+    console.log(`[Wearables Sync Cron] Found ${whoopEmails.length} Whoop, ${ouraEmails.length} Oura, ${dexcomEmails.length} Dexcom, ${stravaEmails.length} Strava, ${fitbitEmails.length} Fitbit, ${garminEmails.length} Garmin, ${googleFitEmails.length} Google Fit, ${appleHealthEmails.length} Apple Health, ${notionEmails.length} Notion, ${linearEmails.length} Linear users`);
 
     const results = {
       whoop: { processed: 0, success: 0, failed: 0, errors: [] as string[] },
@@ -850,6 +870,8 @@ export async function GET(request: NextRequest) {
       dexcom: { processed: 0, success: 0, failed: 0, errors: [] as string[] },
       strava: { processed: 0, success: 0, failed: 0, errors: [] as string[] },
       fitbit: { processed: 0, success: 0, failed: 0, errors: [] as string[] },
+      garmin: { processed: 0, success: 0, failed: 0, errors: [] as string[] },
+      googleFit: { processed: 0, success: 0, failed: 0, errors: [] as string[] },
       appleHealth: { processed: 0, success: 0, failed: 0, errors: [] as string[] },
       notion: { processed: 0, success: 0, failed: 0, errors: [] as string[] },
       linear: { processed: 0, success: 0, failed: 0, errors: [] as string[] },
@@ -1046,6 +1068,60 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Process Garmin users in batches
+    for (let i = 0; i < garminEmails.length; i += BATCH_SIZE) {
+      const batch = garminEmails.slice(i, i + BATCH_SIZE);
+
+      const batchResults = await Promise.all(
+        batch.map(async (email) => {
+          const result = await syncGarminData(email);
+          return { email, ...result };
+        })
+      );
+
+      for (const result of batchResults) {
+        results.garmin.processed++;
+        if (result.success) {
+          results.garmin.success++;
+          console.log(`[Garmin Sync] Synced ${result.email}: ${result.recordCount} records`);
+        } else {
+          results.garmin.failed++;
+          results.garmin.errors.push(`${result.email}: ${result.error}`);
+        }
+      }
+
+      if (i + BATCH_SIZE < garminEmails.length) {
+        await new Promise((resolve) => setTimeout(resolve, 300));
+      }
+    }
+
+    // Process Google Fit users in batches
+    for (let i = 0; i < googleFitEmails.length; i += BATCH_SIZE) {
+      const batch = googleFitEmails.slice(i, i + BATCH_SIZE);
+
+      const batchResults = await Promise.all(
+        batch.map(async (email) => {
+          const result = await syncGoogleFitData(email);
+          return { email, ...result };
+        })
+      );
+
+      for (const result of batchResults) {
+        results.googleFit.processed++;
+        if (result.success) {
+          results.googleFit.success++;
+          console.log(`[Google Fit Sync] Synced ${result.email}: ${result.recordCount} records`);
+        } else {
+          results.googleFit.failed++;
+          results.googleFit.errors.push(`${result.email}: ${result.error}`);
+        }
+      }
+
+      if (i + BATCH_SIZE < googleFitEmails.length) {
+        await new Promise((resolve) => setTimeout(resolve, 300));
+      }
+    }
+
     // Process Linear users in batches
     for (let i = 0; i < linearEmails.length; i += BATCH_SIZE) {
       const batch = linearEmails.slice(i, i + BATCH_SIZE);
@@ -1075,7 +1151,7 @@ export async function GET(request: NextRequest) {
 
     const duration = Date.now() - startTime;
     console.log(
-      `[Wearables Sync Cron] Completed in ${duration}ms. Whoop: ${results.whoop.success}/${results.whoop.processed}, Oura: ${results.oura.success}/${results.oura.processed}, Dexcom: ${results.dexcom.success}/${results.dexcom.processed}, Strava: ${results.strava.success}/${results.strava.processed}, Fitbit: ${results.fitbit.success}/${results.fitbit.processed}, Apple Health: ${results.appleHealth.success}/${results.appleHealth.processed}, Notion: ${results.notion.success}/${results.notion.processed}, Linear: ${results.linear.success}/${results.linear.processed}`
+      `[Wearables Sync Cron] Completed in ${duration}ms. Whoop: ${results.whoop.success}/${results.whoop.processed}, Oura: ${results.oura.success}/${results.oura.processed}, Dexcom: ${results.dexcom.success}/${results.dexcom.processed}, Strava: ${results.strava.success}/${results.strava.processed}, Fitbit: ${results.fitbit.success}/${results.fitbit.processed}, Garmin: ${results.garmin.success}/${results.garmin.processed}, Google Fit: ${results.googleFit.success}/${results.googleFit.processed}, Apple Health: ${results.appleHealth.success}/${results.appleHealth.processed}, Notion: ${results.notion.success}/${results.notion.processed}, Linear: ${results.linear.success}/${results.linear.processed}`
     );
 
     return NextResponse.json({
@@ -1110,6 +1186,18 @@ export async function GET(request: NextRequest) {
         failed: results.fitbit.failed,
         errors: results.fitbit.errors.length > 0 ? results.fitbit.errors.slice(0, 5) : undefined,
       },
+      garmin: {
+        users_processed: results.garmin.processed,
+        successful: results.garmin.success,
+        failed: results.garmin.failed,
+        errors: results.garmin.errors.length > 0 ? results.garmin.errors.slice(0, 5) : undefined,
+      },
+      googleFit: {
+        users_processed: results.googleFit.processed,
+        successful: results.googleFit.success,
+        failed: results.googleFit.failed,
+        errors: results.googleFit.errors.length > 0 ? results.googleFit.errors.slice(0, 5) : undefined,
+      },
       appleHealth: {
         users_processed: results.appleHealth.processed,
         successful: results.appleHealth.success,
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { storeToken } from '@/lib/services/token-manager';
+import { enqueueBackfill } from '@/lib/services/health-backfill';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
 
 export async function GET(request: NextRequest) {
   try {
@@ -116,6 +118,12 @@ export async function GET(request: NextRequest) {
 
       if (storeResult.success) {
         console.log(`[Dexcom] Tokens stored in database for ${userEmail}${userCode ? ` (code: ${userCode})` : ''}`);
+
+        // Queue historical backfill so the user gets history, not just data from today onwards
+        const backfillResult = await enqueueBackfill(userEmail, 'dexcom');
+        if (!backfillResult.success) {
+          console.error('[Dexcom] Failed to queue historical backfill:', backfillResult.error);
+        }
       } else {
         console.error(`[Dexcom] Failed to store tokens:`, storeResult.error);
       }
@@ -148,7 +156,7 @@ export async function GET(request: NextRequest) {
       const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://moccet.com';
       fetch(`${baseUrl}/api/dexcom/sync`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
         body: JSON.stringify({ email: userEmail, code: userCode }),
       }).then(response => {
         if (response.ok) {
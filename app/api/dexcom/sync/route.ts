@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { cookies } from 'next/headers';
 import { createClient } from '@supabase/supabase-js';
 import { createAdminClient } from '@/lib/supabase/server';
@@ -14,16 +15,10 @@ const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
-    const { email, startDate, endDate } = await request.json();
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400 }
-      );
-    }
+    const { startDate, endDate } = await request.json();
+    const email = auth.email;
 
     // Get access token from cookies
     const cookieStore = await cookies();
@@ -211,4 +206,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { internal: true });
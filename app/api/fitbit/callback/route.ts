@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { storeToken } from '@/lib/services/token-manager';
+import { enqueueBackfill } from '@/lib/services/health-backfill';
 
 export async function GET(request: NextRequest) {
   try {
@@ -117,6 +118,12 @@ export async function GET(request: NextRequest) {
 
       if (storeResult.success) {
         console.log(`[Fitbit] Tokens stored in database for ${userEmail}${userCode ? ` (code: ${userCode})` : ''}`);
+
+        // Queue historical backfill so the user gets history, not just data from today onwards
+        const backfillResult = await enqueueBackfill(userEmail, 'fitbit');
+        if (!backfillResult.success) {
+          console.error('[Fitbit] Failed to queue historical backfill:', backfillResult.error);
+        }
       } else {
         console.error(`[Fitbit] Failed to store tokens:`, storeResult.error);
       }
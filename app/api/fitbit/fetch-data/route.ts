@@ -6,6 +6,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 import { getAccessToken } from '@/lib/services/token-manager';
 
@@ -32,14 +33,9 @@ async function getUserCode(email: string): Promise<string | null> {
   return sageData?.form_data?.uniqueCode || null;
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const body = await request.json();
-    const { email } = body;
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
+    const email = auth.email;
 
     console.log(`[Fitbit Fetch] Starting data fetch for ${email}`);
 
@@ -204,4 +200,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { internal: true });
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { cookies } from 'next/headers';
 import { createAdminClient } from '@/lib/supabase/server';
 import { runHealthAnalysis } from '@/lib/services/health-pattern-analyzer';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const cookieStore = await cookies();
     const accessToken = cookieStore.get('fitbit_access_token')?.value;
@@ -18,16 +19,9 @@ export async function POST(request: NextRequest) {
 
     // Get parameters from request
     const body = await request.json();
-    const email = body.email;
+    const email = auth.email;
     const date = body.date || new Date().toISOString().split('T')[0]; // Format: YYYY-MM-DD
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400 }
-      );
-    }
-
     console.log(`[Fitbit] Syncing data for user ${userId} on date ${date}`);
 
     // Fetch activity data
@@ -170,7 +164,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { internal: true });
 
 // Handle token refresh if access token expires
 async function refreshAccessToken(refreshToken: string): Promise<string | null> {
@@ -12,6 +12,7 @@ import OpenAI from 'openai';
 import { createClient } from '@supabase/supabase-js';
 import { lookupNutrition, FoodAnalysisResponse, MacroNutrients } from '@/lib/services/nutrition-lookup';
 import { buildFoodRecognitionPrompt } from '@/lib/prompts/food-recognition-prompt';
+import { withAuth } from '@/lib/middleware';
 
 // Initialize OpenAI client
 function getOpenAIClient() {
@@ -119,14 +120,14 @@ async function uploadImageToStorage(
   return signedUrlData.signedUrl;
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   console.log('[FoodAnalysis] Received request');
 
   try {
     // Parse FormData
     const formData = await request.formData();
     const imageFile = formData.get('image') as File | null;
-    const email = formData.get('email') as string | null;
+    const email = auth.email;
 
     if (!imageFile) {
       return NextResponse.json(
@@ -298,7 +299,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // Handle OPTIONS for CORS preflight
 export async function OPTIONS() {
@@ -307,7 +308,7 @@ export async function OPTIONS() {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   });
 }
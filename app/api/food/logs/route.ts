@@ -1,15 +1,19 @@
 /**
  * Food Logs API Endpoint
  *
- * GET /api/food/logs?email=xxx&date=YYYY-MM-DD
+ * GET /api/food/logs?date=YYYY-MM-DD
  * POST /api/food/logs - Create a new food log with achievement checking
  *
+ * Logs belong to the signed-in user. Caregivers the user shares nutrition
+ * with can read them by passing the user's email.
+ *
  * Retrieves food log entries for a user.
  * - If date is provided, returns logs for that specific day
  * - If no date, returns recent logs (last 7 days)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@supabase/supabase-js';
 import { sendPushNotification } from '@/lib/services/onesignal-service';
 
@@ -22,19 +26,12 @@ function getSupabaseClient() {
   return createClient(url, key);
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const { email } = auth;
     const date = searchParams.get('date'); // Format: YYYY-MM-DD
 
-    if (!email) {
-      return NextResponse.json(
-        { success: false, error: 'Email parameter is required' },
-        { status: 400 }
-      );
-    }
-
     const supabase = getSupabaseClient();
 
     let query = supabase
@@ -93,7 +90,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { delegation: { permission: 'share_nutrition' } });
 
 // Meal logging achievement definitions
 const MEAL_LOGGING_ACHIEVEMENTS = {
@@ -104,14 +101,15 @@ const MEAL_LOGGING_ACHIEVEMENTS = {
 };
 
 // Handle POST for creating a new food log entry
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
+    const { email } = auth;
     const body = await request.json();
-    const { email, food_name, meal_type, calories, protein, carbs, fat, fiber, logged_at, image_url, notes } = body;
+    const { food_name, meal_type, calories, protein, carbs, fat, fiber, logged_at, image_url, notes } = body;
 
-    if (!email || !food_name) {
+    if (!food_name) {
       return NextResponse.json(
-        { success: false, error: 'Email and food_name are required' },
+        { success: false, error: 'food_name is required' },
         { status: 400 }
       );
     }
@@ -160,7 +158,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * Check and grant meal logging streak achievements
@@ -268,15 +266,15 @@ async function calculateMealStreak(
 }
 
 // Handle DELETE for removing a food log entry
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
-    const email = searchParams.get('email');
+    const { email } = auth;
 
-    if (!id || !email) {
+    if (!id) {
       return NextResponse.json(
-        { success: false, error: 'Both id and email parameters are required' },
+        { success: false, error: 'id parameter is required' },
         { status: 400 }
       );
     }
@@ -305,7 +303,7 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // Handle OPTIONS for CORS preflight
 export async function OPTIONS() {
@@ -314,7 +312,7 @@ export async function OPTIONS() {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   });
 }
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import OpenAI from 'openai';
 import { generateAdaptationPrompt } from '@/lib/prompts/adaptation-prompt';
+import { getPrincipal } from '@/lib/middleware';
+import { getPerformanceContext } from '@/lib/forge/workout-sessions';
 
 export const maxDuration = 300; // 5 minutes max
 
@@ -28,11 +30,19 @@ export async function POST(request: NextRequest) {
 
     const openai = getOpenAIClient();
 
+    // Ground adaptations in logged sessions when the caller is signed in
+    const principal = await getPrincipal(request);
+    const loggedPerformance = principal ? await getPerformanceContext(principal.email) : null;
+    if (loggedPerformance) {
+      console.log('[ADAPTATION-AGENT] Including logged workout performance');
+    }
+
     // Build the specialized adaptation prompt
     const promptInput = {
       userProfile,
       biomarkers: biomarkers || {},
-      trainingProgram
+      trainingProgram,
+      loggedPerformance
     };
 
     const basePrompt = generateAdaptationPrompt(promptInput);
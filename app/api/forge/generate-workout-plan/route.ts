@@ -4,10 +4,15 @@
  * with health-aware modifications from AI interpretation (cached 24h)
  *
  * POST /api/forge/generate-workout-plan
+ *
+ * With `overrides.event` ({ type, name, date }) the plan is periodized toward
+ * the event as base, build, peak and taper blocks (see lib/forge/macrocycle),
+ * and GET returns its week-by-week timeline.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServiceClient } from '@/lib/supabase/server';
+import { withAuth } from '@/lib/middleware';
 import {
   queryExercisesWithHealthMods,
   categorizeExercises,
@@ -20,9 +25,14 @@ import { aggregateHealthContext } from '@/lib/forge/health-context-aggregator';
 import { interpretHealthForTraining } from '@/lib/forge/health-interpreter';
 import {
   buildDeterministicPlan,
+  buildPeriodizedPlan,
   buildRecoveryOnlyPlan,
   countExercisesInPlan,
 } from '@/lib/forge/deterministic-plan-builder';
+import { DEFAULT_PLAN_WEEKS } from '@/lib/forge/progression-engine';
+import { EVENT_PROFILES, MacrocycleError, macrocycleWeeks } from '@/lib/forge/macrocycle';
+import { currentPlanWeek, type PlanRecord } from '@/lib/forge/session-metrics';
+import { getPerformanceSummary, syncMacrocycle } from '@/lib/forge/workout-sessions';
 import type {
   GenerateWorkoutPlanRequest,
   GenerateWorkoutPlanResponse,
@@ -36,7 +46,7 @@ export const maxDuration = 60;
 
 // ==================== MAIN HANDLER ====================
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   const startTime = Date.now();
 
   try {
@@ -44,14 +54,19 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json() as GenerateWorkoutPlanRequest;
-    const { userEmail, overrides } = body;
-
-    // Validate required fields
-    if (!userEmail) {
-      return NextResponse.json<GenerateWorkoutPlanResponse>(
-        { success: false, error: 'userEmail is required' },
-        { status: 400 }
-      );
+    const { overrides } = body;
+    const userEmail = auth.email;
+
+    // Check the event before any health or exercise work
+    const event = overrides?.event;
+    if (event) {
+      if (!event.name || !Object.keys(EVENT_PROFILES).includes(event.type)) {
+        return NextResponse.json<GenerateWorkoutPlanResponse>(
+          { success: false, error: `event needs a name and a type of ${Object.keys(EVENT_PROFILES).join(', ')}` },
+          { status: 400 }
+        );
+      }
+      macrocycleWeeks(event.date, new Date().toISOString().slice(0, 10));
     }
 
     // 1. Load user profile
@@ -191,14 +206,16 @@ export async function POST(request: NextRequest) {
       session_length_minutes: sessionLength,
     };
 
-    const planData = await buildDeterministicPlan(
-      profileWithOverrides,
-      healthMods,
-      categorizedExercises
-    );
+    // Logged sessions give the weekly targets starting loads
+    const oneRepMaxes = await loadOneRepMaxes(userEmail);
 
-    // Override the split type in the plan
-    planData.splitType = splitType;
+    const planData = event
+      ? await buildPeriodizedPlan(profileWithOverrides, healthMods, categorizedExercises, event, oneRepMaxes)
+      : await buildDeterministicPlan(profileWithOverrides, healthMods, categorizedExercises, oneRepMaxes);
+
+    // Override the split type in the plan; event-targeted plans change split by block
+    const macrocycle = planData.macrocycle;
+    if (!macrocycle) planData.splitType = splitType;
 
     // 10. Store plan in database
     console.log('[WorkoutPlanGenerator] Storing plan...');
@@ -208,9 +225,13 @@ export async function POST(request: NextRequest) {
       .from('forge_workout_plans')
       .insert({
         user_email: userEmail,
-        name: `${formatSplitName(splitType)} - Week 1`,
-        description: `${effectiveTrainingDays}-day ${splitType.replace(/_/g, ' ')} program for ${formatGoal(profile.primary_goal)}`,
-        duration_weeks: 4,
+        name: macrocycle
+          ? `${macrocycle.event.name} - ${macrocycle.totalWeeks}-Week Build-Up`
+          : `${formatSplitName(splitType)} - Week 1`,
+        description: macrocycle
+          ? `Base, build, peak and taper blocks toward ${macrocycle.event.name} on ${macrocycle.event.date}`
+          : `${effectiveTrainingDays}-day ${splitType.replace(/_/g, ' ')} program for ${formatGoal(profile.primary_goal)}`,
+        duration_weeks: macrocycle?.totalWeeks ?? DEFAULT_PLAN_WEEKS,
         days_per_week: effectiveTrainingDays,
         plan_data: planData,
         health_modifications: healthMods,
@@ -242,11 +263,17 @@ export async function POST(request: NextRequest) {
         exercisesAvailable: eligibleExercises.length,
         generationTimeMs: generationTime,
         estimatedCost,
-        splitTypeUsed: splitType,
+        splitTypeUsed: planData.splitType,
       },
     });
 
   } catch (error) {
+    if (error instanceof MacrocycleError) {
+      return NextResponse.json<GenerateWorkoutPlanResponse>(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
     console.error('[WorkoutPlanGenerator] Error:', error);
 
     return NextResponse.json<GenerateWorkoutPlanResponse>(
@@ -257,10 +284,26 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // ==================== HELPERS ====================
 
+async function loadOneRepMaxes(userEmail: string): Promise<Record<string, number>> {
+  try {
+    const summary = await getPerformanceSummary(userEmail);
+    const maxes: Record<string, number> = {};
+    for (const exercise of summary.exercises) {
+      if (exercise.exerciseId && exercise.latestEstimatedOneRepMaxKg !== null) {
+        maxes[exercise.exerciseId] = exercise.latestEstimatedOneRepMaxKg;
+      }
+    }
+    return maxes;
+  } catch (error) {
+    console.error('[WorkoutPlanGenerator] Could not load logged performance:', error);
+    return {};
+  }
+}
+
 function formatSplitName(split: SplitType): string {
   const names: Record<SplitType, string> = {
     push_pull_legs: 'Push/Pull/Legs',
@@ -286,16 +329,8 @@ function formatGoal(goal: string): string {
 
 // ==================== GET HANDLER ====================
 
-export async function GET(request: NextRequest) {
-  const { searchParams } = new URL(request.url);
-  const userEmail = searchParams.get('email');
-
-  if (!userEmail) {
-    return NextResponse.json(
-      { success: false, error: 'email parameter is required' },
-      { status: 400 }
-    );
-  }
+export const GET = withAuth(async (_request: NextRequest, auth) => {
+  const userEmail = auth.email;
 
   try {
     const supabase = getServiceClient();
@@ -320,10 +355,24 @@ export async function GET(request: NextRequest) {
       });
     }
 
+    // Event-targeted plans: bring the timeline up to date with logged sessions
+    const record = plans[0] as PlanRecord;
+    let planData = record.plan_data;
+    if (planData?.macrocycle) {
+      try {
+        planData = await syncMacrocycle(userEmail, record);
+      } catch (syncError) {
+        console.error('[WorkoutPlanGenerator] Could not update the plan timeline:', syncError);
+      }
+    }
+
     return NextResponse.json({
       success: true,
       planId: plans[0].id,
-      plan: plans[0].plan_data,
+      plan: planData,
+      timeline: planData?.macrocycle
+        ? { currentWeek: currentPlanWeek(record.started_at || record.created_at), ...planData.macrocycle }
+        : null,
       healthModifications: plans[0].health_modifications,
     });
 
@@ -334,4 +383,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,49 @@
+/**
+ * Forge Next Session API
+ *
+ * GET /api/forge/next-session - Today's prescription on the active plan
+ *
+ * Each exercise's target for the plan week (see lib/forge/progression-engine)
+ * is adjusted for its last logged performance, fatigue across recent
+ * sessions and today's readiness, and deload weeks are applied.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { nextSessionQuerySchema, validateQuery, formatZodError } from '@/lib/validation/schemas';
+import { getNextSessionPlan } from '@/lib/forge/workout-sessions';
+
+const logger = createLogger('ForgeNextSessionAPI');
+
+/**
+ * GET /api/forge/next-session
+ *
+ * Query params:
+ * - day (optional): Plan day, default today
+ * - recovery_score (optional): 0-100, overrides the latest synced score
+ *
+ * Returns session: null without an active plan or on a rest day.
+ */
+export const GET = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const searchParams = new URLSearchParams(request.nextUrl.searchParams);
+    searchParams.set('email', auth.email);
+
+    const validation = validateQuery(searchParams, nextSessionQuerySchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, day, recovery_score } = validation.data;
+    const session = await getNextSessionPlan(email, { dayOfWeek: day, recoveryScore: recovery_score });
+
+    return NextResponse.json({ success: true, session });
+  } catch (error) {
+    logger.error('Error prescribing next session', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
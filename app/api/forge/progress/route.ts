@@ -0,0 +1,55 @@
+/**
+ * Forge Progress API
+ *
+ * GET /api/forge/progress - Plan adherence and per-exercise strength and
+ * volume history from logged workout sessions
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { workoutProgressQuerySchema, validateQuery, formatZodError } from '@/lib/validation/schemas';
+import { getPerformanceSummary } from '@/lib/forge/workout-sessions';
+
+const logger = createLogger('ForgeProgressAPI');
+
+/**
+ * GET /api/forge/progress
+ *
+ * Query params:
+ * - days (optional): History window, default 56
+ * - exercise (optional): Only this exercise, by forge_exercises id or name
+ *
+ * Returns adherence to the active plan (sessions done against scheduled,
+ * prescribed sets completed, sets in the prescribed rep range, most skipped
+ * exercises) and, per exercise, estimated 1RM and volume by session.
+ */
+export const GET = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const searchParams = new URLSearchParams(request.nextUrl.searchParams);
+    searchParams.set('email', auth.email);
+
+    const validation = validateQuery(searchParams, workoutProgressQuerySchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, days, exercise } = validation.data;
+    const summary = await getPerformanceSummary(email, days);
+
+    if (exercise) {
+      const wanted = exercise.trim().toLowerCase();
+      summary.exercises = summary.exercises.filter(
+        (e) => e.exerciseId === exercise || e.exerciseName.trim().toLowerCase() === wanted
+      );
+    }
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    logger.error('Error building workout progress', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
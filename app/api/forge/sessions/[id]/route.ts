@@ -0,0 +1,122 @@
+/**
+ * Forge Workout Session API
+ *
+ * GET /api/forge/sessions/:id - Get a session and how it compares to the plan
+ * PATCH /api/forge/sessions/:id - Log sets, skip exercises or finish a session
+ * DELETE /api/forge/sessions/:id - Delete a session
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { uuidSchema, updateWorkoutSessionSchema, validateBody, formatZodError } from '@/lib/validation/schemas';
+import {
+  compareSessionToPlan,
+  deleteSession,
+  getSession,
+  updateSession,
+} from '@/lib/forge/workout-sessions';
+
+const logger = createLogger('ForgeSessionDetailAPI');
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/forge/sessions/:id
+ *
+ * Returns the session and its comparison with the prescribed plan day:
+ * sets completed, sets in the prescribed rep range, skipped and unplanned
+ * exercises, volume and estimated 1RM per exercise.
+ */
+export const GET = withAuth<RouteContext>(async (_request: NextRequest, auth, context) => {
+  try {
+    const { id } = await context.params;
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json({ error: 'Invalid session ID format' }, { status: 400 });
+    }
+
+    const session = await getSession(auth.email, id);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const comparison = await compareSessionToPlan(session);
+
+    return NextResponse.json({ success: true, session, comparison });
+  } catch (error) {
+    logger.error('Error fetching workout session', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PATCH /api/forge/sessions/:id
+ *
+ * Body:
+ * - exercises (optional): Replaces the logged exercises and sets
+ * - status, started_at, completed_at, duration_minutes, session_rpe, focus,
+ *   notes (optional). Completing a session without a duration takes it from
+ *   the start and completion times.
+ */
+export const PATCH = withAuth<RouteContext>(async (request: NextRequest, auth, context) => {
+  try {
+    const { id } = await context.params;
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json({ error: 'Invalid session ID format' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateBody({ ...body, email: auth.email }, updateWorkoutSessionSchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, ...updates } = validation.data;
+    const session = await updateSession(email, id, updates);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    if (updates.status) {
+      logger.info('Workout session status changed', { email, sessionId: id, status: updates.status });
+    }
+
+    return NextResponse.json({ success: true, session });
+  } catch (error) {
+    logger.error('Error updating workout session', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/forge/sessions/:id
+ */
+export const DELETE = withAuth<RouteContext>(async (_request: NextRequest, auth, context) => {
+  try {
+    const { id } = await context.params;
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json({ error: 'Invalid session ID format' }, { status: 400 });
+    }
+
+    const deleted = await deleteSession(auth.email, id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Error deleting workout session', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,93 @@
+/**
+ * Forge Workout Sessions API
+ *
+ * GET /api/forge/sessions - List logged workout sessions
+ * POST /api/forge/sessions - Start or log a workout session
+ *
+ * Sessions record what was actually done (sets, load, reps, RPE/RIR, skipped
+ * exercises, duration) against the plan day that prescribed it; see
+ * lib/forge/workout-sessions.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import {
+  createWorkoutSessionSchema,
+  workoutSessionQuerySchema,
+  validateBody,
+  validateQuery,
+  formatZodError,
+} from '@/lib/validation/schemas';
+import { WorkoutSessionError, createSession, listSessions } from '@/lib/forge/workout-sessions';
+
+const logger = createLogger('ForgeSessionsAPI');
+
+/**
+ * GET /api/forge/sessions
+ *
+ * Query params:
+ * - plan_id (optional): Only sessions logged against this plan
+ * - since (optional): YYYY-MM-DD
+ * - limit (optional): Default 20, max 100
+ */
+export const GET = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const searchParams = new URLSearchParams(request.nextUrl.searchParams);
+    searchParams.set('email', auth.email);
+
+    const validation = validateQuery(searchParams, workoutSessionQuerySchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, plan_id, since, limit } = validation.data;
+    const sessions = await listSessions(email, { planId: plan_id, since, limit });
+
+    return NextResponse.json({ success: true, sessions });
+  } catch (error) {
+    logger.error('Error listing workout sessions', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/forge/sessions
+ *
+ * Body:
+ * - plan_id (optional): Plan the session follows; default the active plan,
+ *   null for a session outside any plan
+ * - week_number, day_of_week (optional): Plan day; default the plan week and
+ *   weekday the session starts in
+ * - status (optional): in_progress (default), completed or abandoned
+ * - started_at, completed_at, duration_minutes, session_rpe, notes (optional)
+ * - exercises (optional): [{ exerciseId, exerciseName, skipped, skipReason,
+ *   sets: [{ reps, loadKg, rpe, rir, completed }] }]. Omitted, the session
+ *   opens with the plan day's prescribed exercises.
+ */
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const body = await request.json();
+    const validation = validateBody({ ...body, email: auth.email }, createWorkoutSessionSchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, ...input } = validation.data;
+    const session = await createSession(email, input);
+
+    return NextResponse.json({ success: true, session });
+  } catch (error) {
+    if (error instanceof WorkoutSessionError) {
+      return NextResponse.json({ error: error.message, reason: error.reason }, { status: error.status });
+    }
+    logger.error('Error logging workout session', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,110 @@
+/**
+ * Forge Exercise Substitutions API
+ *
+ * GET /api/forge/substitutions - Ranked alternatives for a plan exercise
+ * POST /api/forge/substitutions - Swap an exercise, or adapt a plan day, and save
+ *
+ * Alternatives come from forge_exercises, filtered by the equipment at hand,
+ * injuries and experience level, and ranked by muscle groups, movement
+ * pattern and compound status; see lib/forge/exercise-substitution.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import {
+  substitutionQuerySchema,
+  substituteExerciseSchema,
+  validateBody,
+  validateQuery,
+  formatZodError,
+} from '@/lib/validation/schemas';
+import { SubstitutionError, findSubstitutes, rewritePlanDay } from '@/lib/forge/exercise-substitution';
+
+const logger = createLogger('ForgeSubstitutionsAPI');
+
+/**
+ * GET /api/forge/substitutions
+ *
+ * Query params:
+ * - exercise (required): Exercise id or name on the active plan
+ * - day (optional): Plan day; default today, or the first day with the exercise
+ * - equipment (optional): Comma-separated, e.g. "dumbbells,bench"; default
+ *   the profile's equipment
+ * - injuries (optional): Comma-separated injury areas, added to the profile's
+ * - limit (optional): Default 5, max 20
+ */
+export const GET = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const searchParams = new URLSearchParams(request.nextUrl.searchParams);
+    searchParams.set('email', auth.email);
+
+    const validation = validateQuery(searchParams, substitutionQuerySchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, exercise, day, equipment, injuries, limit } = validation.data;
+    const result = await findSubstitutes(email, {
+      exercise,
+      dayOfWeek: day,
+      constraints: { equipment, injuries },
+      limit,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof SubstitutionError) {
+      return NextResponse.json({ error: error.message, reason: error.reason }, { status: error.status });
+    }
+    logger.error('Error finding exercise substitutes', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/forge/substitutions
+ *
+ * Body:
+ * - exercise (optional): Exercise id or name to swap. Omitted, every exercise
+ *   on the day that breaks the constraints is swapped or dropped.
+ * - replacement (optional): Exercise id or name to swap in; default the best
+ *   ranked substitute
+ * - day (optional): Plan day; default today, or the first day with the exercise
+ * - equipment, injuries (optional): As for GET, as arrays
+ * - time_limit_minutes (optional): Rest, sets and exercises are cut to fit
+ * - scope (optional): 'once' (default) changes only this week's day;
+ *   'rest_of_plan' changes the day for every week after too
+ */
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const body = await request.json();
+    const validation = validateBody({ ...body, email: auth.email }, substituteExerciseSchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, exercise, replacement, day, equipment, injuries, time_limit_minutes, scope } = validation.data;
+    const rewrite = await rewritePlanDay(email, {
+      exercise,
+      replacement,
+      dayOfWeek: day,
+      constraints: { equipment, injuries, timeLimitMinutes: time_limit_minutes },
+      scope,
+    });
+
+    return NextResponse.json({ success: true, ...rewrite });
+  } catch (error) {
+    if (error instanceof SubstitutionError) {
+      return NextResponse.json({ error: error.message, reason: error.reason }, { status: error.status });
+    }
+    logger.error('Error substituting exercise', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createGarminCodeVerifier, createGarminCodeChallenge } from '@/lib/services/garmin-service';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const clientId = process.env.GARMIN_CLIENT_ID;
+    const redirectUri = process.env.GARMIN_REDIRECT_URI || `${process.env.NEXT_PUBLIC_BASE_URL}/api/garmin/callback`;
+
+    const searchParams = request.nextUrl.searchParams;
+    const source = searchParams.get('source');
+    const userId = searchParams.get('userId');
+
+    if (!clientId) {
+      return NextResponse.json(
+        { error: 'Garmin client ID not configured' },
+        { status: 500, headers: corsHeaders }
+      );
+    }
+
+    const random = Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+    const stateData = { random, source: source || 'web', userId };
+    const state = encodeURIComponent(JSON.stringify(stateData));
+
+    // Garmin Connect uses OAuth 2.0 with PKCE
+    // Documentation: https://developerportal.garmin.com/developer-programs/connect-developer-api
+    const codeChallenge = createGarminCodeChallenge(createGarminCodeVerifier(random));
+
+    const authUrl = new URL('https://connect.garmin.com/oauth2Confirm');
+    authUrl.searchParams.append('response_type', 'code');
+    authUrl.searchParams.append('client_id', clientId);
+    authUrl.searchParams.append('redirect_uri', redirectUri);
+    authUrl.searchParams.append('code_challenge', codeChallenge);
+    authUrl.searchParams.append('code_challenge_method', 'S256');
+    authUrl.searchParams.append('state', state);
+
+    return NextResponse.json(
+      { authUrl: authUrl.toString() },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error('Error generating Garmin auth URL:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate auth URL' },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 200, headers: corsHeaders });
+}
@@ -0,0 +1,38 @@
+/**
+ * Garmin Disconnect API
+ *
+ * Revokes the stored Garmin token and marks the connector disconnected.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
+import { revokeToken } from '@/lib/services/token-manager';
+import { createAdminClient } from '@/lib/supabase/server';
+
+export const POST = withAuth(async (_request: NextRequest, auth) => {
+  try {
+    console.log(`[Garmin Disconnect] Revoking token for ${auth.email}`);
+    const result = await revokeToken(auth.email, 'garmin');
+    if (!result.success) {
+      console.error(`[Garmin Disconnect] Failed to revoke token: ${result.error}`);
+    }
+
+    const supabase = createAdminClient();
+    await supabase
+      .from('user_connectors')
+      .update({ is_connected: false, updated_at: new Date().toISOString() })
+      .eq('user_id', auth.principal.userId)
+      .eq('connector_name', 'Garmin');
+
+    return NextResponse.json({
+      success: true,
+      message: 'Garmin disconnected successfully',
+    });
+  } catch (error) {
+    console.error('[Garmin] Error disconnecting:', error);
+    return NextResponse.json(
+      { error: 'Failed to disconnect Garmin' },
+      { status: 500 }
+    );
+  }
+});
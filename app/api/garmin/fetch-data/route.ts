@@ -0,0 +1,47 @@
+/**
+ * Garmin Fetch Data API
+ *
+ * Pulls daily summaries, sleep, HRV, stress/Body Battery and activities from
+ * the Garmin Health API and writes them to unified_health_data.
+ * Scheduled syncs call the service directly through the provider plugin.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
+import { syncGarminData } from '@/lib/services/garmin-service';
+
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const { code, startDate, endDate } = await request.json().catch(() => ({}));
+    const email = auth.email;
+
+    console.log(`[Garmin Fetch] Starting data fetch for ${email}`);
+
+    const result = await syncGarminData(email, {
+      userCode: code,
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? new Date(endDate) : undefined,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.notConnected ? 'Not authenticated with Garmin' : 'Failed to fetch Garmin data', details: result.error },
+        { status: result.notConnected ? 401 : 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      email,
+      recordCount: result.recordCount,
+      counts: result.counts,
+      fetchedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[Garmin Fetch] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processGarminPush } from '@/lib/services/garmin-service';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('GarminWebhook');
+
+/**
+ * POST /api/garmin/webhook
+ *
+ * Receives Garmin Health API push notifications. Each payload contains one
+ * or more summary lists (dailies, sleeps, hrv, stressDetails, activities)
+ * tagged with the Garmin user ID. Pushes are unsigned, so the payload only
+ * says whose data changed; the data itself is pulled from the Garmin API.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    logger.info('Received Garmin push', {
+      summaryTypes: Object.keys(body || {}),
+    });
+
+    const result = await processGarminPush(body);
+
+    logger.info('Garmin push processed', {
+      usersProcessed: result.usersProcessed,
+      recordsWritten: result.recordsWritten,
+      unknownUsers: result.unknownUsers.length,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    logger.error('Garmin push processing error', error);
+    // Return 200 so Garmin does not keep retrying a payload we cannot parse
+    return NextResponse.json({
+      success: false,
+      message: 'Error processing webhook',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
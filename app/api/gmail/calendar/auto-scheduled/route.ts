@@ -1,16 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const email = auth.email;
     const limit = parseInt(searchParams.get('limit') || '10', 10);
 
-    if (!email) {
-      return NextResponse.json({ error: 'Email required' }, { status: 400 });
-    }
-
     const supabase = createAdminClient();
 
     const { data, error } = await supabase
@@ -40,13 +37,12 @@ export async function GET(request: NextRequest) {
     console.error('Error in auto-scheduled GET:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
     const {
-      email,
       emailMessageId,
       calendarEventId,
       eventTitle,
@@ -55,8 +51,9 @@ export async function POST(request: NextRequest) {
       emailSubject,
       attendees,
     } = body;
+    const email = auth.email;
 
-    if (!email || !calendarEventId || !eventTitle || !eventTime) {
+    if (!calendarEventId || !eventTitle || !eventTime) {
       return NextResponse.json(
         { error: 'Required fields missing' },
         { status: 400 }
@@ -98,4 +95,4 @@ export async function POST(request: NextRequest) {
     console.error('Error in auto-scheduled POST:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
@@ -1,17 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { google } from 'googleapis';
 import { getValidatedAccessToken } from '@/lib/services/token-manager';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const email = auth.email;
     const days = parseInt(searchParams.get('days') || '7', 10);
 
-    if (!email) {
-      return NextResponse.json({ error: 'Email required' }, { status: 400 });
-    }
-
     // Get valid access token
     const tokenResult = await getValidatedAccessToken(email, 'gmail');
     if (!tokenResult.token) {
@@ -65,14 +62,15 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { internal: true });
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, title, startDateTime, endDateTime, addGoogleMeet, attendees } = body;
+    const { title, startDateTime, endDateTime, addGoogleMeet, attendees } = body;
+    const email = auth.email;
 
-    if (!email || !title || !startDateTime) {
+    if (!title || !startDateTime) {
       return NextResponse.json(
         { error: 'Email, title, and startDateTime required' },
         { status: 400 }
@@ -170,4 +168,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,14 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email required' }, { status: 400 });
-    }
+    const email = auth.email;
 
     const supabase = createAdminClient();
 
@@ -31,16 +27,13 @@ export async function GET(request: NextRequest) {
     console.error('Error in calendar settings GET:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, autoScheduleEnabled, autoMeetEnabled } = body;
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email required' }, { status: 400 });
-    }
+    const { autoScheduleEnabled, autoMeetEnabled } = body;
+    const email = auth.email;
 
     const supabase = createAdminClient();
 
@@ -69,4 +62,4 @@ export async function POST(request: NextRequest) {
     console.error('Error in calendar settings POST:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
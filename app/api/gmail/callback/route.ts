@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { google } from 'googleapis';
 import { cookies } from 'next/headers';
 import { storeToken } from '@/lib/services/token-manager';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
 
 export async function GET(request: NextRequest) {
   try {
@@ -128,7 +129,7 @@ export async function GET(request: NextRequest) {
             // Trigger fetch-data in background (don't await)
             fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'https://moccet.ai'}/api/gmail/fetch-data`, {
               method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
+              headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
               body: JSON.stringify({ email: userEmail }),
             }).then(res => {
               if (res.ok) {
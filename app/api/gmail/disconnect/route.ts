@@ -1,46 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
+import { withAuth } from '@/lib/middleware';
 import { revokeToken } from '@/lib/services/token-manager';
 import { createAdminClient } from '@/lib/supabase/server';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const cookieStore = await cookies();
-
-    // Get email from request body or cookies
-    let email: string | null = null;
-    let userId: string | null = null;
-
-    try {
-      const body = await request.json();
-      email = body.email;
-      userId = body.userId;
-    } catch {
-      // No body provided
-    }
-
-    // Try to get email from cookie if not in body
-    if (!email) {
-      email = cookieStore.get('user_email')?.value || null;
-    }
-
     // Delete token from database
-    if (email) {
-      console.log(`[Gmail Disconnect] Revoking token for ${email}`);
-      const result = await revokeToken(email, 'gmail');
-      if (!result.success) {
-        console.error(`[Gmail Disconnect] Failed to revoke token: ${result.error}`);
-      }
+    console.log(`[Gmail Disconnect] Revoking token for ${auth.email}`);
+    const result = await revokeToken(auth.email, 'gmail');
+    if (!result.success) {
+      console.error(`[Gmail Disconnect] Failed to revoke token: ${result.error}`);
     }
 
-    // Also delete from user_connectors table if userId provided
-    if (userId) {
-      const supabase = createAdminClient();
-      await supabase
-        .from('user_connectors')
-        .update({ gmail_connected: false, gmail_token: null })
-        .eq('user_id', userId);
-    }
+    const supabase = createAdminClient();
+    await supabase
+      .from('user_connectors')
+      .update({ gmail_connected: false, gmail_token: null })
+      .eq('user_id', auth.principal.userId);
 
     // Clear all Gmail cookies (legacy)
     const response = NextResponse.json({ success: true });
@@ -56,4 +32,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -9,6 +9,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 
 const corsHeaders = {
@@ -17,44 +18,13 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
-async function getUserEmail(request: NextRequest): Promise<string | null> {
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    const token = authHeader.substring(7);
-    const supabase = createAdminClient();
-
-    try {
-      const { data: { user }, error } = await supabase.auth.getUser(token);
-      if (!error && user?.email) {
-        return user.email;
-      }
-    } catch {
-      // Continue
-    }
-  }
-  return null;
-}
-
 /**
  * GET /api/gmail/draft-settings
  * Get user's draft generation preferences
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
-
-    let userEmail = await getUserEmail(request);
-    if (!userEmail && email) {
-      userEmail = email;
-    }
-
-    if (!userEmail) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const userEmail = auth.email;
 
     const supabase = createAdminClient();
 
@@ -133,28 +103,18 @@ export async function GET(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 /**
  * PUT /api/gmail/draft-settings
  * Update user's draft generation preferences
  */
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, code, settings } = body;
+    const { code, settings } = body;
 
-    let userEmail = await getUserEmail(request);
-    if (!userEmail && email) {
-      userEmail = email;
-    }
-
-    if (!userEmail) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const userEmail = auth.email;
 
     if (!settings) {
       return NextResponse.json(
@@ -227,7 +187,7 @@ export async function PUT(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
@@ -7,6 +7,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { google } from 'googleapis';
 import { createAdminClient } from '@/lib/supabase/server';
 import { getAccessToken } from '@/lib/services/token-manager';
@@ -21,19 +22,12 @@ const corsHeaders = {
  * GET /api/gmail/drafts/pending
  * Returns pending drafts for the dashboard
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
+    const email = auth.email;
     const limit = parseInt(searchParams.get('limit') || '10');
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
     const supabase = createAdminClient();
 
     // Fetch pending and created drafts (not yet sent)
@@ -83,18 +77,19 @@ export async function GET(request: NextRequest) {
       { headers: corsHeaders }
     );
   }
-}
+});
 
 /**
  * POST /api/gmail/drafts/pending
  * Send a pending draft
  *
- * Body: { draftId: string, email: string }
+ * Body: { draftId: string }
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { draftId, email } = body;
+    const { draftId } = body;
+    const email = auth.email;
 
     if (!draftId || !email) {
       return NextResponse.json(
@@ -201,7 +196,7 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
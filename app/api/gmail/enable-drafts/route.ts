@@ -15,8 +15,10 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 import { getAccessToken } from '@/lib/services/token-manager';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -28,39 +30,11 @@ const corsHeaders = {
  * GET /api/gmail/enable-drafts
  * Check if email drafts feature is enabled for user
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
-    const userId = searchParams.get('userId');
-
-    if (!email && !userId) {
-      return NextResponse.json(
-        { error: 'email or userId is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
+    const userEmail = auth.email;
     const supabase = createAdminClient();
 
-    // Get user email from userId if needed
-    let userEmail = email;
-    if (!userEmail && userId) {
-      const { data: user } = await supabase
-        .from('profiles')
-        .select('email')
-        .eq('id', userId)
-        .single();
-      userEmail = user?.email;
-    }
-
-    if (!userEmail) {
-      return NextResponse.json(
-        { error: 'User not found' },
-        { status: 404, headers: corsHeaders }
-      );
-    }
-
     // Check if Gmail is connected
     const { token } = await getAccessToken(userEmail, 'gmail');
     const isGmailConnected = !!token;
@@ -101,45 +75,20 @@ export async function GET(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 /**
  * POST /api/gmail/enable-drafts
  * Enable email draft generation for user
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, userId, code } = body;
-
-    if (!email && !userId) {
-      return NextResponse.json(
-        { error: 'email or userId is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
+    const { code } = body;
+    const userEmail = auth.email;
+    const userCode = code;
     const supabase = createAdminClient();
 
-    // Get user email from userId if needed
-    let userEmail = email;
-    let userCode = code;
-    if (!userEmail && userId) {
-      const { data: user } = await supabase
-        .from('profiles')
-        .select('email')
-        .eq('id', userId)
-        .single();
-      userEmail = user?.email;
-    }
-
-    if (!userEmail) {
-      return NextResponse.json(
-        { error: 'User not found' },
-        { status: 404, headers: corsHeaders }
-      );
-    }
-
     // Verify Gmail is connected
     const { token } = await getAccessToken(userEmail, 'gmail', userCode);
     if (!token) {
@@ -159,7 +108,7 @@ export async function POST(request: NextRequest) {
     try {
       const styleResponse = await fetch(`${baseUrl}/api/gmail/learn-style`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
         body: JSON.stringify({
           email: userEmail,
           code: userCode,
@@ -186,7 +135,7 @@ export async function POST(request: NextRequest) {
     try {
       const watchResponse = await fetch(`${baseUrl}/api/gmail/setup-watch`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
         body: JSON.stringify({
           email: userEmail,
           code: userCode,
@@ -242,45 +191,17 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 /**
  * DELETE /api/gmail/enable-drafts
  * Disable email draft generation
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
-    const userId = searchParams.get('userId');
-
-    if (!email && !userId) {
-      return NextResponse.json(
-        { error: 'email or userId is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
+    const userEmail = auth.email;
     const supabase = createAdminClient();
 
-    // Get user email from userId if needed
-    let userEmail = email;
-    if (!userEmail && userId) {
-      const { data: user } = await supabase
-        .from('profiles')
-        .select('email')
-        .eq('id', userId)
-        .single();
-      userEmail = user?.email;
-    }
-
-    if (!userEmail) {
-      return NextResponse.json(
-        { error: 'User not found' },
-        { status: 404, headers: corsHeaders }
-      );
-    }
-
     console.log(`[EnableDrafts] Disabling email drafts for ${userEmail}`);
 
     // Disable auto drafting
@@ -312,7 +233,7 @@ export async function DELETE(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
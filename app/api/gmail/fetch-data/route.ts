@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { google } from 'googleapis';
 import type { calendar_v3 } from 'googleapis';
 import { getValidatedAccessToken } from '@/lib/services/token-manager';
@@ -654,13 +655,10 @@ function generateInsights(patterns: Omit<GmailPatterns, 'insights'>): string[] {
 /**
  * POST endpoint to fetch and analyze Gmail + Calendar data
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
-    const { email, code } = await request.json();
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
+    const { code } = await request.json();
+    const email = auth.email;
 
     console.log(`[Gmail Fetch] Starting data fetch for ${email}`);
 
@@ -1137,7 +1135,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { internal: true });
 
 /**
  * GET endpoint (legacy support) - redirects to use POST
@@ -6,12 +6,12 @@
  * - action: 'start_job' - Start a fine-tuning job
  * - action: 'check_status' - Check fine-tuning status
  *
- * GET /api/gmail/fine-tuning?email=xxx
+ * GET /api/gmail/fine-tuning
  * Get fine-tuning status for a user
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createAdminClient } from '@/lib/supabase/server';
+import { withAuth } from '@/lib/middleware';
 import {
   createTrainingExample,
   getFineTuningStatus,
@@ -26,47 +26,13 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
-async function getUserEmail(request: NextRequest): Promise<string | null> {
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    const token = authHeader.substring(7);
-    const supabase = createAdminClient();
-
-    try {
-      const {
-        data: { user },
-        error,
-      } = await supabase.auth.getUser(token);
-      if (!error && user?.email) {
-        return user.email;
-      }
-    } catch {
-      // Continue
-    }
-  }
-  return null;
-}
-
 /**
  * GET /api/gmail/fine-tuning
  * Get fine-tuning status for a user
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
-
-    let userEmail = await getUserEmail(request);
-    if (!userEmail && email) {
-      userEmail = email;
-    }
-
-    if (!userEmail) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const userEmail = auth.email;
 
     const status = await getFineTuningStatus(userEmail);
 
@@ -78,28 +44,18 @@ export async function GET(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 /**
  * POST /api/gmail/fine-tuning
  * Handle fine-tuning actions
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { action, email, draftId, userFinalSubject, userFinalBody, jobId } = body;
+    const { action, draftId, userFinalSubject, userFinalBody, jobId } = body;
 
-    let userEmail = await getUserEmail(request);
-    if (!userEmail && email) {
-      userEmail = email;
-    }
-
-    if (!userEmail) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const userEmail = auth.email;
 
     switch (action) {
       case 'record_sent': {
@@ -192,7 +148,7 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
@@ -9,6 +9,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import {
   applyLabelToEmail,
   removeLabelFromEmail,
@@ -30,15 +31,15 @@ const VALID_LABELS = Object.keys(MOCCET_LABELS) as MoccetLabelName[];
  * GET /api/gmail/labels/apply
  * Get the current label for an email
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
+    const email = auth.email;
     const messageId = searchParams.get('messageId');
 
-    if (!email || !messageId) {
+    if (!messageId) {
       return NextResponse.json(
-        { error: 'email and messageId are required' },
+        { error: 'messageId is required' },
         { status: 400, headers: corsHeaders }
       );
     }
@@ -60,20 +61,21 @@ export async function GET(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 /**
  * POST /api/gmail/labels/apply
  * Apply a label to an email
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, code, messageId, labelName, threadId } = body;
+    const { code, messageId, labelName, threadId } = body;
+    const email = auth.email;
 
-    if (!email || !messageId || !labelName) {
+    if (!messageId || !labelName) {
       return NextResponse.json(
-        { error: 'email, messageId, and labelName are required' },
+        { error: 'messageId and labelName are required' },
         { status: 400, headers: corsHeaders }
       );
     }
@@ -119,23 +121,23 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 /**
  * DELETE /api/gmail/labels/apply
  * Remove a label from an email
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
+    const email = auth.email;
     const code = searchParams.get('code');
     const messageId = searchParams.get('messageId');
     const labelName = searchParams.get('labelName');
 
-    if (!email || !messageId || !labelName) {
+    if (!messageId || !labelName) {
       return NextResponse.json(
-        { error: 'email, messageId, and labelName are required' },
+        { error: 'messageId and labelName are required' },
         { status: 400, headers: corsHeaders }
       );
     }
@@ -174,7 +176,7 @@ export async function DELETE(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
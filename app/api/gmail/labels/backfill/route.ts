@@ -7,6 +7,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { backfillExistingEmails } from '@/lib/services/gmail-label-manager';
 import { createAdminClient } from '@/lib/supabase/server';
 
@@ -16,17 +17,11 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, count = 100, replaceExisting = true } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const { count = 100, replaceExisting = true } = body;
+    const email = auth.email;
 
     console.log(`[Labels Backfill API] Starting backfill for ${email} (count: ${count}, replace: ${replaceExisting})`);
 
@@ -62,7 +57,7 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
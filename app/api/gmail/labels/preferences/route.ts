@@ -1,14 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email required' }, { status: 400 });
-    }
+    const email = auth.email;
 
     const supabase = createAdminClient();
 
@@ -30,14 +26,15 @@ export async function GET(request: NextRequest) {
     console.error('Error in preferences GET:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, preferences } = body;
+    const { preferences } = body;
+    const email = auth.email;
 
-    if (!email || !preferences) {
+    if (!preferences) {
       return NextResponse.json(
         { error: 'Email and preferences required' },
         { status: 400 }
@@ -70,4 +67,4 @@ export async function POST(request: NextRequest) {
     console.error('Error in preferences POST:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
@@ -4,16 +4,16 @@
  * POST /api/gmail/learn-style
  * Triggers analysis of user's sent emails to learn their writing style.
  *
- * Body: { email?: string, code?: string, forceRelearn?: boolean, maxEmails?: number }
+ * Body: { code?: string, forceRelearn?: boolean, maxEmails?: number }
  *
  * GET /api/gmail/learn-style
  * Retrieves the user's learned email style profile.
  *
- * Query: ?email=xxx&code=xxx
+ * Query: ?code=xxx
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createAdminClient } from '@/lib/supabase/server';
+import { withAuth } from '@/lib/middleware';
 import { learnEmailStyle, getEmailStyle } from '@/lib/services/email-style-learner';
 
 const corsHeaders = {
@@ -22,50 +22,16 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
-/**
- * Extract user email from auth token or request
- */
-async function getUserEmail(request: NextRequest): Promise<string | null> {
-  // Try Authorization header first
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    const token = authHeader.substring(7);
-    const supabase = createAdminClient();
-
-    try {
-      const { data: { user }, error } = await supabase.auth.getUser(token);
-      if (!error && user?.email) {
-        return user.email;
-      }
-    } catch {
-      // Continue to other methods
-    }
-  }
-
-  return null;
-}
-
 /**
  * POST /api/gmail/learn-style
  * Learn user's email writing style from their sent emails
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, code, forceRelearn, maxEmails } = body;
+    const { code, forceRelearn, maxEmails } = body;
 
-    // Get user email from auth or request body
-    let userEmail = await getUserEmail(request);
-    if (!userEmail && email) {
-      userEmail = email;
-    }
-
-    if (!userEmail) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const userEmail = auth.email;
 
     console.log(`[LearnStyle API] Starting style learning for ${userEmail}`);
 
@@ -102,30 +68,18 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+}, { internal: true });
 
 /**
  * GET /api/gmail/learn-style
  * Retrieve user's learned email style profile
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
     const code = searchParams.get('code');
 
-    // Get user email from auth or query params
-    let userEmail = await getUserEmail(request);
-    if (!userEmail && email) {
-      userEmail = email;
-    }
-
-    if (!userEmail) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const userEmail = auth.email;
 
     // Get existing style
     const profile = await getEmailStyle(userEmail, code || undefined);
@@ -154,7 +108,7 @@ export async function GET(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
@@ -8,6 +8,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { google, gmail_v1 } from 'googleapis';
 import { createAdminClient } from '@/lib/supabase/server';
 import { getAccessToken } from '@/lib/services/token-manager';
@@ -104,17 +105,11 @@ async function fetchEmailContent(
   }
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, maxEmails = 5 } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const { maxEmails = 5 } = body;
+    const email = auth.email;
 
     console.log(`[ProcessRecent] Processing recent emails for ${email}`);
 
@@ -333,7 +328,7 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+}, { internal: true });
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
@@ -12,7 +12,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createAdminClient } from '@/lib/supabase/server';
+import { withAuth } from '@/lib/middleware';
 import {
   setupGmailWatch,
   stopGmailWatch,
@@ -25,44 +25,16 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
-async function getUserEmail(request: NextRequest): Promise<string | null> {
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    const token = authHeader.substring(7);
-    const supabase = createAdminClient();
-
-    try {
-      const { data: { user }, error } = await supabase.auth.getUser(token);
-      if (!error && user?.email) {
-        return user.email;
-      }
-    } catch {
-      // Continue
-    }
-  }
-  return null;
-}
-
 /**
  * POST /api/gmail/setup-watch
  * Setup Gmail push notifications
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, code, labelIds } = body;
+    const { code, labelIds } = body;
 
-    let userEmail = await getUserEmail(request);
-    if (!userEmail && email) {
-      userEmail = email;
-    }
-
-    if (!userEmail) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const userEmail = auth.email;
 
     console.log(`[SetupWatch API] Setting up watch for ${userEmail}`);
 
@@ -91,28 +63,15 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+}, { internal: true });
 
 /**
  * GET /api/gmail/setup-watch
  * Get current watch subscription status
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
-
-    let userEmail = await getUserEmail(request);
-    if (!userEmail && email) {
-      userEmail = email;
-    }
-
-    if (!userEmail) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const userEmail = auth.email;
 
     const subscription = await getWatchSubscription(userEmail);
 
@@ -144,29 +103,18 @@ export async function GET(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 /**
  * DELETE /api/gmail/setup-watch
  * Stop Gmail push notifications
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
     const code = searchParams.get('code');
 
-    let userEmail = await getUserEmail(request);
-    if (!userEmail && email) {
-      userEmail = email;
-    }
-
-    if (!userEmail) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const userEmail = auth.email;
 
     const result = await stopGmailWatch(userEmail, code || undefined);
 
@@ -191,7 +139,7 @@ export async function DELETE(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GOOGLE_FIT_SCOPES } from '@/lib/services/google-fit-service';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const clientId = process.env.GOOGLE_CLIENT_ID;
+    const redirectUri = process.env.GOOGLE_FIT_REDIRECT_URI || `${process.env.NEXT_PUBLIC_BASE_URL}/api/google-fit/callback`;
+
+    const searchParams = request.nextUrl.searchParams;
+    const source = searchParams.get('source');
+    const userId = searchParams.get('userId');
+
+    if (!clientId) {
+      return NextResponse.json(
+        { error: 'Google client ID not configured' },
+        { status: 500, headers: corsHeaders }
+      );
+    }
+
+    const stateData = { random: Math.random().toString(36).substring(2, 15), source: source || 'web', userId };
+    const state = encodeURIComponent(JSON.stringify(stateData));
+
+    // Google OAuth 2.0 with offline access so cron jobs can refresh the token
+    const authUrl = new URL('https://accounts.google.com/o/oauth2/v2/auth');
+    authUrl.searchParams.append('response_type', 'code');
+    authUrl.searchParams.append('client_id', clientId);
+    authUrl.searchParams.append('redirect_uri', redirectUri);
+    authUrl.searchParams.append('scope', GOOGLE_FIT_SCOPES.join(' '));
+    authUrl.searchParams.append('access_type', 'offline');
+    authUrl.searchParams.append('prompt', 'consent');
+    authUrl.searchParams.append('state', state);
+
+    return NextResponse.json(
+      { authUrl: authUrl.toString() },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error('Error generating Google Fit auth URL:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate auth URL' },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 200, headers: corsHeaders });
+}
@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { storeToken } from '@/lib/services/token-manager';
+import { createAdminClient } from '@/lib/supabase/server';
+import { syncGoogleFitData } from '@/lib/services/google-fit-service';
+
+function renderResult(success: boolean, isMobileApp: boolean, redirectPath: string): NextResponse {
+  const message = success
+    ? 'Google Fit has been connected successfully.'
+    : 'Failed to connect Google Fit. Please try again.';
+  const detail = isMobileApp
+    ? 'You can now close this window and return to the app.'
+    : success ? 'Redirecting you back...' : 'This window will close automatically...';
+
+  const script = isMobileApp
+    ? ''
+    : success
+      ? `<script>
+          if(window.opener){
+            window.opener.postMessage({type:'google-fit-connected'},'*');
+            setTimeout(()=>{window.close();},1000);
+          } else {
+            window.location.href='${redirectPath}?auth=google-fit&success=true';
+          }
+        </script>`
+      : `<script>
+          if (window.opener) {
+            window.opener.postMessage({ type: 'google-fit-error' }, '*');
+          }
+          setTimeout(() => { window.close(); }, 3000);
+        </script>`;
+
+  return new NextResponse(
+    `<!DOCTYPE html>
+    <html>
+      <head>
+        <title>${success ? 'Google Fit Connected' : 'Connection Failed'}</title>
+        <meta name="viewport" content="width=device-width, initial-scale=1">
+        <link href="https://fonts.googleapis.com/css2?family=Inter:wght@900&display=swap" rel="stylesheet">
+      </head>
+      <body style="margin: 0; padding: 0; background: #fff;">
+        ${script}
+        <div style="font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; text-align: center; padding: 60px 20px;">
+          <div style="font-family: 'Inter', sans-serif; font-weight: 900; font-size: 48px; color: #000; margin-bottom: 24px;">moccet</div>
+          <p style="font-size: 18px; color: ${success ? '#2E8B57' : '#f44336'}; margin: 0 0 12px 0;">${message}</p>
+          <p style="font-size: 14px; color: #666; margin: 0;">${detail}</p>
+        </div>
+      </body>
+    </html>`,
+    { status: 200, headers: { 'Content-Type': 'text/html' } }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  let isMobileApp = false;
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const code = searchParams.get('code');
+    const state = searchParams.get('state');
+    const error = searchParams.get('error');
+
+    if (error) {
+      throw new Error(`OAuth error: ${error}`);
+    }
+
+    if (!code || !state) {
+      throw new Error('No authorization code received');
+    }
+
+    const clientId = process.env.GOOGLE_CLIENT_ID;
+    const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
+    const redirectUri = process.env.GOOGLE_FIT_REDIRECT_URI || `${process.env.NEXT_PUBLIC_BASE_URL}/api/google-fit/callback`;
+
+    if (!clientId || !clientSecret) {
+      throw new Error('Google credentials not configured');
+    }
+
+    let stateData: { source?: string; userId?: string | null; email?: string; code?: string; returnPath?: string } = {};
+    try {
+      stateData = JSON.parse(decodeURIComponent(state));
+    } catch {
+      throw new Error('Invalid state parameter');
+    }
+    isMobileApp = stateData.source === 'mobile';
+
+    // Exchange authorization code for access token
+    const tokenResponse = await fetch('https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        client_id: clientId,
+        client_secret: clientSecret,
+        code,
+        redirect_uri: redirectUri,
+      }),
+    });
+
+    if (!tokenResponse.ok) {
+      const errorText = await tokenResponse.text();
+      console.error('[Google Fit] Token exchange failed:', errorText);
+      throw new Error('Failed to exchange authorization code for token');
+    }
+
+    const tokenData = await tokenResponse.json();
+    const accessToken: string = tokenData.access_token;
+
+    console.log('[Google Fit] Connected');
+
+    // Resolve the user's email from cookies, state, or Supabase user ID
+    const cookieStore = await cookies();
+    let userEmail = cookieStore.get('user_email')?.value || stateData.email;
+    const userCode = cookieStore.get('user_code')?.value || stateData.code;
+    const supabaseUserId = stateData.userId || null;
+
+    const supabase = createAdminClient();
+
+    if (!userEmail && supabaseUserId) {
+      const { data: userData } = await supabase.auth.admin.getUserById(supabaseUserId);
+      userEmail = userData?.user?.email;
+    }
+
+    if (userEmail) {
+      const storeResult = await storeToken(userEmail, 'google_fit', {
+        accessToken,
+        refreshToken: tokenData.refresh_token,
+        expiresAt: tokenData.expires_in ? new Date(Date.now() + tokenData.expires_in * 1000) : undefined,
+        scopes: tokenData.scope ? tokenData.scope.split(' ') : [],
+      }, userCode);
+
+      if (!storeResult.success) {
+        console.error('[Google Fit] Failed to store tokens:', storeResult.error);
+      } else {
+        // Pull the last week so insights have something to work with right away
+        syncGoogleFitData(userEmail, { userCode }).catch((syncError) => {
+          console.error('[Google Fit] Initial sync failed (non-fatal):', syncError);
+        });
+      }
+    }
+
+    if (supabaseUserId) {
+      try {
+        await supabase.from('user_connectors').upsert({
+          user_id: supabaseUserId,
+          user_email: userEmail || null,
+          connector_name: 'Google Fit',
+          is_connected: true,
+          connected_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id,connector_name' });
+      } catch (connectorError) {
+        console.error('[Google Fit] Failed to update user_connectors:', connectorError);
+      }
+    }
+
+    return renderResult(true, isMobileApp, stateData.returnPath || '/forge/onboarding');
+  } catch (error) {
+    console.error('Error in Google Fit callback:', error);
+    return renderResult(false, isMobileApp, '/forge/onboarding');
+  }
+}
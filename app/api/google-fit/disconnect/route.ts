@@ -0,0 +1,38 @@
+/**
+ * Google Fit Disconnect API
+ *
+ * Revokes the stored Google Fit token and marks the connector disconnected.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
+import { revokeToken } from '@/lib/services/token-manager';
+import { createAdminClient } from '@/lib/supabase/server';
+
+export const POST = withAuth(async (_request: NextRequest, auth) => {
+  try {
+    console.log(`[Google Fit Disconnect] Revoking token for ${auth.email}`);
+    const result = await revokeToken(auth.email, 'google_fit');
+    if (!result.success) {
+      console.error(`[Google Fit Disconnect] Failed to revoke token: ${result.error}`);
+    }
+
+    const supabase = createAdminClient();
+    await supabase
+      .from('user_connectors')
+      .update({ is_connected: false, updated_at: new Date().toISOString() })
+      .eq('user_id', auth.principal.userId)
+      .eq('connector_name', 'Google Fit');
+
+    return NextResponse.json({
+      success: true,
+      message: 'Google Fit disconnected successfully',
+    });
+  } catch (error) {
+    console.error('[Google Fit] Error disconnecting:', error);
+    return NextResponse.json(
+      { error: 'Failed to disconnect Google Fit' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,48 @@
+/**
+ * Google Fit Fetch Data API
+ *
+ * Pulls daily activity aggregates, sleep sessions and workouts from
+ * the Google Fit REST API and writes them to unified_health_data.
+ * Scheduled syncs call the service directly through the provider plugin.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
+import { syncGoogleFitData } from '@/lib/services/google-fit-service';
+
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const { code, startDate, endDate } = await request.json().catch(() => ({}));
+    const email = auth.email;
+
+    console.log(`[Google Fit Fetch] Starting data fetch for ${email}`);
+
+    const result = await syncGoogleFitData(email, {
+      userCode: code,
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? new Date(endDate) : undefined,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.notConnected ? 'Not authenticated with Google Fit' : 'Failed to fetch Google Fit data', details: result.error },
+        { status: result.notConnected ? 401 : 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      email,
+      recordCount: result.recordCount,
+      days: result.days,
+      sessions: result.sessions,
+      fetchedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[Google Fit Fetch] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
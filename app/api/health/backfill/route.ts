@@ -0,0 +1,125 @@
+/**
+ * Health Backfill API
+ *
+ * Queue historical backfills (or replays of a date range) from connected
+ * providers into unified_health_data. Jobs are processed by the
+ * /api/cron/health-backfill cron and resume from their last checkpoint.
+ *
+ * GET    /api/health/backfill            - List backfill jobs
+ * POST   /api/health/backfill            - Queue backfill/replay jobs
+ * DELETE /api/health/backfill?jobId=...  - Cancel an active job
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import {
+  enqueueBackfill,
+  getBackfillJobs,
+  cancelBackfillJob,
+  isBackfillProvider,
+  BACKFILL_PROVIDERS,
+  BackfillMode,
+  BackfillProvider,
+  EnqueueBackfillResult,
+} from '@/lib/services/health-backfill';
+
+const logger = createLogger('HealthBackfillAPI');
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface BackfillRequestBody {
+  providers?: string[];
+  mode?: BackfillMode;
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+}
+
+function parseDateParam(value: string | undefined): Date | undefined | null {
+  if (!value) return undefined;
+  if (!DATE_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export const GET = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '20');
+
+    const jobs = await getBackfillJobs(auth.email, limit);
+
+    return NextResponse.json({ success: true, jobs });
+  } catch (error) {
+    logger.error('GET error', error);
+    return NextResponse.json({ error: 'Failed to fetch backfill jobs' }, { status: 500 });
+  }
+});
+
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const body: BackfillRequestBody = await request.json();
+
+    const mode: BackfillMode = body.mode || 'backfill';
+    if (mode !== 'backfill' && mode !== 'replay') {
+      return NextResponse.json({ error: `Unknown mode: ${mode}` }, { status: 400 });
+    }
+
+    const startDate = parseDateParam(body.startDate);
+    const endDate = parseDateParam(body.endDate);
+    if (startDate === null || endDate === null) {
+      return NextResponse.json({ error: 'startDate and endDate must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    // A replay re-ingests a specific window, so it must say which one
+    if (mode === 'replay' && (!startDate || !endDate)) {
+      return NextResponse.json({ error: 'startDate and endDate are required for replay' }, { status: 400 });
+    }
+
+    const requested = body.providers && body.providers.length > 0
+      ? body.providers
+      : (Object.keys(BACKFILL_PROVIDERS) as BackfillProvider[]);
+
+    const unsupported = requested.filter(p => !isBackfillProvider(p));
+    if (unsupported.length > 0) {
+      return NextResponse.json(
+        { error: `Unsupported providers: ${unsupported.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const results: Record<string, EnqueueBackfillResult> = {};
+    for (const provider of requested as BackfillProvider[]) {
+      results[provider] = await enqueueBackfill(auth.email, provider, { mode, startDate, endDate });
+    }
+
+    logger.info('Backfill requested', { email: auth.email, mode, providers: requested });
+
+    return NextResponse.json({
+      success: Object.values(results).every(r => r.success),
+      results,
+    });
+  } catch (error) {
+    logger.error('POST error', error);
+    return NextResponse.json({ error: 'Failed to queue backfill' }, { status: 500 });
+  }
+});
+
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const jobId = request.nextUrl.searchParams.get('jobId');
+
+    if (!jobId) {
+      return NextResponse.json({ error: 'jobId is required' }, { status: 400 });
+    }
+
+    const cancelled = await cancelBackfillJob(auth.email, jobId);
+    if (!cancelled) {
+      return NextResponse.json({ error: 'No active backfill job found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('DELETE error', error);
+    return NextResponse.json({ error: 'Failed to cancel backfill job' }, { status: 500 });
+  }
+});
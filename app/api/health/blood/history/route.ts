@@ -0,0 +1,51 @@
+/**
+ * Blood Biomarker History API
+ *
+ * Biomarker values across every analyzed lab panel, converted to a canonical
+ * unit per marker, with trends and change annotations between panels.
+ *
+ * GET /api/health/blood/history?markers=ldl,hba1c&since=YYYY-MM-DD
+ *
+ * A caregiver or clinician can read a sharer's history by passing `email`
+ * when the share relationship grants clinical details.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { getBiomarkerHistory } from '@/lib/services/blood-analyzer/history';
+
+const logger = createLogger('BloodHistoryAPI');
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const GET = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const { searchParams } = request.nextUrl;
+    const markersParam = searchParams.get('markers');
+    const since = searchParams.get('since') || undefined;
+
+    if (since && (!DATE_PATTERN.test(since) || isNaN(new Date(`${since}T00:00:00.000Z`).getTime()))) {
+      return NextResponse.json({ error: 'since must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const markers = markersParam
+      ? markersParam.split(',').map(m => m.trim()).filter(Boolean)
+      : undefined;
+
+    const history = await getBiomarkerHistory(auth.email, { markers, since });
+
+    return NextResponse.json({
+      success: true,
+      panelCount: history.panels.length,
+      panels: history.panels,
+      trends: history.trends,
+      changes: history.trends
+        .filter(trend => trend.direction !== 'stable' && trend.annotation)
+        .map(trend => trend.annotation),
+    });
+  } catch (error) {
+    logger.error('GET error', error);
+    return NextResponse.json({ error: 'Failed to fetch biomarker history' }, { status: 500 });
+  }
+}, { delegation: { permission: 'can_see_clinical_details' }, internal: true });
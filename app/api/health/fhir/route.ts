@@ -0,0 +1,73 @@
+/**
+ * Health FHIR API
+ *
+ * Exchange a user's health record in FHIR R4 format, e.g. for clinicians
+ * linked through clinical coordination.
+ *
+ * GET  /api/health/fhir?days=30 - Export a FHIR collection Bundle
+ * POST /api/health/fhir          - Import a Bundle of lab result Observations
+ *
+ * A caregiver or clinician can export a sharer's record by passing `email`
+ * when the share relationship grants clinical details. Imports only ever
+ * write to the caller's own record.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { exportFhirBundle, importFhirLabBundle, FhirBundle } from '@/lib/services/fhir';
+
+const logger = createLogger('HealthFhirAPI');
+
+const MAX_EXPORT_DAYS = 365;
+
+interface FhirImportRequestBody {
+  bundle: FhirBundle;
+  analyze?: boolean;
+}
+
+export const GET = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const { searchParams } = request.nextUrl;
+    const days = parseInt(searchParams.get('days') || '30');
+
+    if (isNaN(days) || days < 1 || days > MAX_EXPORT_DAYS) {
+      return NextResponse.json({ error: `days must be between 1 and ${MAX_EXPORT_DAYS}` }, { status: 400 });
+    }
+
+    const bundle = await exportFhirBundle(auth.email, {
+      days,
+      includeVitals: searchParams.get('vitals') !== 'false',
+      includeLabs: searchParams.get('labs') !== 'false',
+      includeGoals: searchParams.get('goals') !== 'false',
+      includeSupplements: searchParams.get('supplements') !== 'false',
+    });
+
+    return NextResponse.json(bundle, {
+      headers: { 'Content-Type': 'application/fhir+json' },
+    });
+  } catch (error) {
+    logger.error('GET error', error);
+    return NextResponse.json({ error: 'Failed to export FHIR bundle' }, { status: 500 });
+  }
+}, { delegation: { permission: 'can_see_clinical_details' } });
+
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const body: FhirImportRequestBody = await request.json();
+
+    if (!body.bundle) {
+      return NextResponse.json({ error: 'bundle is required' }, { status: 400 });
+    }
+
+    const result = await importFhirLabBundle(auth.email, body.bundle, { analyze: body.analyze });
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    logger.error('POST error', error);
+    return NextResponse.json({ error: 'Failed to import FHIR bundle' }, { status: 500 });
+  }
+});
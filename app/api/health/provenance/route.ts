@@ -0,0 +1,38 @@
+/**
+ * Health Provenance API
+ *
+ * Explain where each number in a day's health summary came from: which
+ * provider supplied it, which other providers reported the same metric, and
+ * why one was chosen over the others (preference, default priority, outlier).
+ *
+ * GET /api/health/provenance?date=YYYY-MM-DD
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { explainDailyRollup } from '@/lib/services/unified-data';
+
+const logger = createLogger('HealthProvenanceAPI');
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const GET = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const date = request.nextUrl.searchParams.get('date') || new Date().toISOString().split('T')[0];
+
+    if (!DATE_PATTERN.test(date) || isNaN(new Date(`${date}T00:00:00.000Z`).getTime())) {
+      return NextResponse.json({ error: 'date must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const explanation = await explainDailyRollup(auth.email, date);
+    if (!explanation) {
+      return NextResponse.json({ error: 'No health data for this date' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, ...explanation });
+  } catch (error) {
+    logger.error('GET error', error);
+    return NextResponse.json({ error: 'Failed to explain health data' }, { status: 500 });
+  }
+});
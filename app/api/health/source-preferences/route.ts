@@ -0,0 +1,94 @@
+/**
+ * Health Source Preferences API
+ *
+ * Choose which provider the daily rollup trusts for each metric group when
+ * several wearables report the same metric. Changing a preference recomputes
+ * the last 30 days of rollups.
+ *
+ * GET    /api/health/source-preferences             - Effective provider order per metric
+ * PUT    /api/health/source-preferences             - Set provider order for a metric
+ * DELETE /api/health/source-preferences?metric=...  - Revert a metric to the default order
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import {
+  getSourcePreferences,
+  setSourcePreference,
+  clearSourcePreference,
+  isMetricGroup,
+  METRIC_GROUPS,
+} from '@/lib/services/unified-data';
+
+const logger = createLogger('HealthSourcePreferencesAPI');
+
+interface SourcePreferenceRequestBody {
+  metric: string;
+  providerOrder: string[];
+}
+
+export const GET = withAuth(async (_request: NextRequest, auth) => {
+  try {
+    const preferences = await getSourcePreferences(auth.email);
+
+    return NextResponse.json({ success: true, preferences });
+  } catch (error) {
+    logger.error('GET error', error);
+    return NextResponse.json({ error: 'Failed to fetch source preferences' }, { status: 500 });
+  }
+});
+
+export const PUT = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const body: SourcePreferenceRequestBody = await request.json();
+
+    if (!body.metric || !isMetricGroup(body.metric)) {
+      return NextResponse.json(
+        { error: `metric must be one of: ${METRIC_GROUPS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(body.providerOrder)) {
+      return NextResponse.json({ error: 'providerOrder must be an array of providers' }, { status: 400 });
+    }
+
+    const result = await setSourcePreference(auth.email, body.metric, body.providerOrder);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, recomputedDays: result.recomputedDays });
+  } catch (error) {
+    logger.error('PUT error', error);
+    return NextResponse.json({ error: 'Failed to save source preference' }, { status: 500 });
+  }
+});
+
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const metric = request.nextUrl.searchParams.get('metric');
+
+    if (!metric) {
+      return NextResponse.json({ error: 'metric is required' }, { status: 400 });
+    }
+
+    if (!isMetricGroup(metric)) {
+      return NextResponse.json(
+        { error: `metric must be one of: ${METRIC_GROUPS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await clearSourcePreference(auth.email, metric);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, recomputedDays: result.recomputedDays });
+  } catch (error) {
+    logger.error('DELETE error', error);
+    return NextResponse.json({ error: 'Failed to clear source preference' }, { status: 500 });
+  }
+});
@@ -8,6 +8,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@supabase/supabase-js';
 import { createLogger } from '@/lib/utils/logger';
 import { sendPushNotification } from '@/lib/services/onesignal-service';
@@ -20,7 +21,6 @@ const supabase = createClient(
 );
 
 interface HealthSyncPayload {
-  email: string;
   source: 'apple_health' | 'google_fit';
   metrics: {
     daily_steps?: number;
@@ -58,19 +58,20 @@ interface HealthSyncPayload {
   syncedAt?: string;
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body: HealthSyncPayload = await request.json();
+    const email = auth.email;
 
-    if (!body.email || !body.source || !body.metrics) {
+    if (!body.source || !body.metrics) {
       return NextResponse.json(
-        { error: 'email, source, and metrics are required' },
+        { error: 'source and metrics are required' },
         { status: 400 }
       );
     }
 
     logger.info('Health data sync received', {
-      email: body.email,
+      email,
       source: body.source,
       metricsCount: Object.keys(body.metrics).length,
     });
@@ -90,7 +91,7 @@ export async function POST(request: NextRequest) {
         .from('user_health_baselines')
         .upsert(
           {
-            email: body.email,
+            email,
             metric_type: metric,
             baseline_value: value,
             last_updated: new Date().toISOString(),
@@ -108,10 +109,10 @@ export async function POST(request: NextRequest) {
     }
 
     // Update goals that track these metrics
-    await updateGoalProgress(body.email, body.metrics);
+    await updateGoalProgress(email, body.metrics);
 
     // Check for real-time health achievements
-    const achievementsEarned = await checkHealthAchievements(body.email, body.metrics);
+    const achievementsEarned = await checkHealthAchievements(email, body.metrics);
 
     // Store workouts if provided
     let workoutsStored = 0;
@@ -120,7 +121,7 @@ export async function POST(request: NextRequest) {
         const { error } = await supabase
           .from('user_workouts')
           .upsert({
-            email: body.email,
+            email,
             workout_type: workout.type,
             duration_minutes: workout.duration,
             calories_burned: workout.calories,
@@ -132,7 +133,7 @@ export async function POST(request: NextRequest) {
 
         if (!error) workoutsStored++;
       }
-      logger.info('Workouts stored', { email: body.email, count: workoutsStored });
+      logger.info('Workouts stored', { email, count: workoutsStored });
     }
 
     // Store device context and detect travel
@@ -141,7 +142,7 @@ export async function POST(request: NextRequest) {
       const { data: previousContext } = await supabase
         .from('user_device_context')
         .select('timezone, timezone_offset')
-        .eq('email', body.email)
+        .eq('email', email)
         .order('synced_at', { ascending: false })
         .limit(1)
         .maybeSingle();
@@ -150,7 +151,7 @@ export async function POST(request: NextRequest) {
       if (previousContext && previousContext.timezone !== body.deviceContext.timezone) {
         travelDetected = true;
         logger.info('Travel detected via timezone change', {
-          email: body.email,
+          email,
           from: previousContext.timezone,
           to: body.deviceContext.timezone,
         });
@@ -158,7 +159,7 @@ export async function POST(request: NextRequest) {
 
       // Store current device context
       await supabase.from('user_device_context').insert({
-        email: body.email,
+        email,
         timezone: body.deviceContext.timezone,
         timezone_offset: body.deviceContext.timezoneOffset,
         local_time: body.deviceContext.localTime,
@@ -170,7 +171,7 @@ export async function POST(request: NextRequest) {
     }
 
     logger.info('Health sync completed', {
-      email: body.email,
+      email,
       metricsUpdated: updates.length,
       workoutsStored,
       travelDetected,
@@ -195,7 +196,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * Update goal progress based on synced metrics
@@ -396,17 +397,9 @@ async function grantAchievement(
   }
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400 }
-      );
-    }
+    const email = auth.email;
 
     // Get all baselines for user
     const { data: baselines, error } = await supabase
@@ -445,4 +438,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
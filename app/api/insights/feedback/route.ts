@@ -6,6 +6,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@supabase/supabase-js';
 import OpenAI from 'openai';
 
@@ -24,21 +25,21 @@ const openai = new OpenAI({
  *
  * Request body:
  * {
- *   "email": "user@example.com",
  *   "insightId": "insight_123",
  *   "insightTitle": "You're sleeping late",
  *   "insightCategory": "Sleep",
  *   "feedback": "I work night shifts"
  * }
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, insightId, insightTitle, insightCategory, feedback } = body;
+    const { insightId, insightTitle, insightCategory, feedback } = body;
+    const email = auth.email;
 
-    if (!email || !feedback) {
+    if (!feedback) {
       return NextResponse.json(
-        { error: 'email and feedback are required' },
+        { error: 'feedback is required' },
         { status: 400 }
       );
     }
@@ -112,7 +113,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * Extract learnable facts from user feedback using AI
@@ -6,25 +6,19 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { MultiAgentOrchestrator } from '@/lib/services/multi-agent/orchestrator';
 import { CoordinatorOrchestrator } from '@/lib/services/multi-agent/coordinator-orchestrator';
 import { buildUserContext } from '@/lib/services/multi-agent/context-builder';
 import { ExecutionMode } from '@/lib/services/multi-agent/types';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   const startTime = Date.now();
 
   try {
     const body = await request.json();
-    const { email, userId, mode = 'standard', maxInsights = 5, version = 'v1' } = body;
-
-    // Validate required fields
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400 }
-      );
-    }
+    const { userId, mode = 'standard', maxInsights = 5, version = 'v1' } = body;
+    const email = auth.email;
 
     // Validate mode
     const validModes: ExecutionMode[] = ['quick', 'standard', 'deep'];
@@ -145,22 +139,14 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * GET endpoint to check available data sources for a user
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email query parameter is required' },
-        { status: 400 }
-      );
-    }
+    const email = auth.email;
 
     const context = await buildUserContext(email);
 
@@ -183,4 +169,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -4,11 +4,14 @@
  * Provides social competition features with weekly/monthly leaderboards
  * for various health metrics like steps, sleep consistency, glucose control, etc.
  *
- * GET /api/leaderboard?type=weekly_steps&email=user@example.com
+ * GET /api/leaderboard?type=weekly_steps
  * POST /api/leaderboard - Update user's leaderboard score
+ *
+ * Ranks and stats are for the signed-in user.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@supabase/supabase-js';
 
 // ============================================================================
@@ -802,22 +805,15 @@ async function getUserLeaderboardStats(
 // API Route Handlers
 // ============================================================================
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const { email } = auth;
     const type = searchParams.get('type') as LeaderboardType || 'overall_wellness';
     const scope = searchParams.get('scope') as LeaderboardScope || 'global';
     const timeFrame = searchParams.get('timeFrame') as TimeFrame || 'weekly';
     const statsOnly = searchParams.get('stats') === 'true';
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email parameter is required' },
-        { status: 400 }
-      );
-    }
-
     if (!LEADERBOARD_CONFIG[type]) {
       return NextResponse.json(
         { error: `Invalid leaderboard type. Valid types: ${Object.keys(LEADERBOARD_CONFIG).join(', ')}` },
@@ -852,19 +848,12 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
   try {
     const body = await request.json();
-    const { email, type, action } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400 }
-      );
-    }
+    const { type, action } = body;
 
     const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
     const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY;
@@ -916,7 +905,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // ============================================================================
 // Exports for other services
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { storeToken } from '@/lib/services/token-manager';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
 
 export async function GET(request: NextRequest) {
   try {
@@ -199,7 +200,7 @@ export async function GET(request: NextRequest) {
             console.log(`[Linear] Max tier user - triggering data fetch for ${userEmail}`);
             fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'https://moccet.ai'}/api/linear/fetch-data`, {
               method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
+              headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
               body: JSON.stringify({ email: userEmail }),
             }).then(res => {
               if (res.ok) {
@@ -216,7 +217,7 @@ export async function GET(request: NextRequest) {
           console.log(`[Linear] Setting up webhook subscription for ${userEmail}`);
           fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'https://moccet.ai'}/api/linear/setup-subscription`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
             body: JSON.stringify({ email: userEmail }),
           }).then(res => {
             if (res.ok) {
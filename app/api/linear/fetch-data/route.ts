@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { getToken } from '@/lib/services/token-manager';
 import { createAdminClient } from '@/lib/supabase/server';
 
@@ -76,16 +77,9 @@ interface LinearProject {
   startedAt?: string;
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { email } = await request.json();
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const email = auth.email;
 
     console.log(`[Linear Fetch] Starting data fetch for ${email}`);
 
@@ -352,7 +346,7 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+}, { internal: true });
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
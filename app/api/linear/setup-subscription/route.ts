@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { getToken } from '@/lib/services/token-manager';
 import { createAdminClient } from '@/lib/supabase/server';
 
@@ -15,16 +16,9 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type',
 };
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { email } = await request.json();
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const email = auth.email;
 
     console.log(`[Linear Setup] Creating webhook subscription for ${email}`);
 
@@ -182,7 +176,7 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+}, { internal: true });
 
 async function updateWebhookEnabled(
   accessToken: string,
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createHmac } from 'crypto';
 import { createAdminClient } from '@/lib/supabase/server';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
 
 /**
  * Linear Webhook Receiver
@@ -158,7 +159,7 @@ async function handleIssueEvent(
       // Don't await - fire and forget
       fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'https://moccet.ai'}/api/linear/fetch-data`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
         body: JSON.stringify({ email: userEmail }),
       }).catch(err => {
         console.error('[Linear Webhook] Error triggering fetch:', err);
@@ -9,6 +9,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 
 const corsHeaders = {
@@ -44,19 +45,12 @@ export interface ActionItemsResponse {
  * GET /api/mail/action-items
  * Returns action items for the dashboard widget
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
+    const email = auth.email;
     const limit = parseInt(searchParams.get('limit') || '5');
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
     const supabase = createAdminClient();
 
     // Fetch all data in parallel
@@ -181,7 +175,7 @@ export async function GET(request: NextRequest) {
       { headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
@@ -10,6 +10,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { enableAllDrafts, getUnifiedStatus } from '@/lib/services/unified-mail-service';
 
 const corsHeaders = {
@@ -22,17 +23,9 @@ const corsHeaders = {
  * GET /api/mail/enable-drafts
  * Check drafts status for all connected providers
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email parameter is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const email = auth.email;
 
     const status = await getUnifiedStatus(email);
 
@@ -65,23 +58,17 @@ export async function GET(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 /**
  * POST /api/mail/enable-drafts
  * Enable drafts for all connected providers
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, code, enabled = true } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const { code, enabled = true } = body;
+    const email = auth.email;
 
     console.log(`[Unified Enable Drafts] ${enabled ? 'Enabling' : 'Disabling'} drafts for ${email}`);
 
@@ -97,7 +84,7 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
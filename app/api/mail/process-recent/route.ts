@@ -7,6 +7,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { processAllRecentEmails } from '@/lib/services/unified-mail-service';
 
 const corsHeaders = {
@@ -19,17 +20,11 @@ const corsHeaders = {
  * POST /api/mail/process-recent
  * Process recent emails from all connected providers
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, code, maxEmails = 10 } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const { code, maxEmails = 10 } = body;
+    const email = auth.email;
 
     console.log(`[Unified Process Recent] Processing emails for ${email} (max: ${maxEmails})`);
 
@@ -43,7 +38,7 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
@@ -7,6 +7,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { setupAllLabels } from '@/lib/services/unified-mail-service';
 
 const corsHeaders = {
@@ -19,17 +20,11 @@ const corsHeaders = {
  * POST /api/mail/setup-labels
  * Setup labels/categories for all connected providers
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, code, backfill = true, backfillCount = 50 } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const { code, backfill = true, backfillCount = 50 } = body;
+    const email = auth.email;
 
     console.log(`[Unified Mail Setup] Setting up labels for ${email}`);
 
@@ -45,7 +40,7 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
@@ -6,6 +6,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { getCachedSubscriptions } from '@/lib/services/subscription-scanner';
 
 const corsHeaders = {
@@ -14,16 +15,12 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const email = auth.email;
     const provider = searchParams.get('provider') as 'gmail' | 'outlook' | null;
 
-    if (!email) {
-      return NextResponse.json({ error: 'email is required' }, { status: 400, headers: corsHeaders });
-    }
-
     const subscriptions = await getCachedSubscriptions(email, provider || undefined);
 
     return NextResponse.json({ subscriptions }, { headers: corsHeaders });
@@ -34,7 +31,7 @@ export async function GET(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
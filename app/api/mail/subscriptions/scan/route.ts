@@ -6,6 +6,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { scanAllSubscriptions } from '@/lib/services/subscription-scanner';
 
 const corsHeaders = {
@@ -14,14 +15,11 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, code, forceRefresh = false, maxEmails = 100 } = body;
-
-    if (!email) {
-      return NextResponse.json({ error: 'email is required' }, { status: 400, headers: corsHeaders });
-    }
+    const { code, forceRefresh = false, maxEmails = 100 } = body;
+    const email = auth.email;
 
     console.log(`[Subscriptions Scan] Scanning for ${email} (force: ${forceRefresh}, max: ${maxEmails})`);
 
@@ -35,7 +33,7 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
@@ -6,6 +6,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { executeUnsubscribe, bulkUnsubscribe } from '@/lib/services/unsubscribe-executor';
 
 const corsHeaders = {
@@ -14,14 +15,11 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, code, subscriptionId, subscriptionIds } = body;
-
-    if (!email) {
-      return NextResponse.json({ error: 'email is required' }, { status: 400, headers: corsHeaders });
-    }
+    const { code, subscriptionId, subscriptionIds } = body;
+    const email = auth.email;
 
     if (!subscriptionId && !subscriptionIds) {
       return NextResponse.json(
@@ -57,7 +55,7 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { syncAllIntegrations, getSyncStatus, getSyncRecommendations } from '@/lib/services/mcp-sync';
 import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
 import {
   syncRequestSchema,
   syncStatusQuerySchema,
@@ -18,17 +19,16 @@ const logger = createLogger('MCPSyncAPI');
  *
  * Request body:
  * {
- *   email: string;
  *   forceSync?: boolean; // Skip interval check and sync immediately
  *   providers?: string[]; // Only sync specific providers
  * }
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
 
     // Validate request body
-    const validation = validateBody(body, syncRequestSchema);
+    const validation = validateBody({ ...body, email: auth.email }, syncRequestSchema);
     if (!validation.success) {
       return NextResponse.json(formatZodError(validation.error), { status: 400 });
     }
@@ -63,20 +63,20 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
- * GET /api/mcp/sync?email=user@example.com&action=status
+ * GET /api/mcp/sync?action=status
  *
  * Get sync status for a user without triggering new syncs
  *
  * Query parameters:
- * - email: User email (required)
  * - action: 'status' | 'recommendations' (default: 'status')
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
-    const searchParams = request.nextUrl.searchParams;
+    const searchParams = new URLSearchParams(request.nextUrl.searchParams);
+    searchParams.set('email', auth.email);
 
     // Validate query parameters
     const validation = validateQuery(searchParams, syncStatusQuerySchema);
@@ -111,4 +111,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
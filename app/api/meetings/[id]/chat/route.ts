@@ -6,6 +6,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import {
   answerTranscriptQuestion,
   getChatHistory,
@@ -15,14 +16,16 @@ import {
 // POST - Ask Question
 // ============================================================================
 
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export const POST = withAuth<RouteContext>(async (request: NextRequest, auth, { params }) => {
   try {
     const { id } = await params;
     const body = await request.json();
-    const { email, question } = body;
+    const { question } = body;
+    const email = auth.email;
 
     if (!id) {
       return NextResponse.json(
@@ -31,13 +34,6 @@ export async function POST(
       );
     }
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400 }
-      );
-    }
-
     if (!question || typeof question !== 'string') {
       return NextResponse.json(
         { error: 'Question is required' },
@@ -64,20 +60,17 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
 
 // ============================================================================
 // GET - Chat History
 // ============================================================================
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const GET = withAuth<RouteContext>(async (request: NextRequest, auth, { params }) => {
   try {
     const { id } = await params;
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const email = auth.email;
     const limit = parseInt(searchParams.get('limit') || '50', 10);
 
     if (!id) {
@@ -87,13 +80,6 @@ export async function GET(
       );
     }
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400 }
-      );
-    }
-
     const history = await getChatHistory(id, email, limit);
 
     return NextResponse.json({ history });
@@ -104,4 +90,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
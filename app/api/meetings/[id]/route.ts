@@ -7,6 +7,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 import { cancelBotSession } from '@/lib/services/meeting-notetaker/google-meet-bot';
 
@@ -14,14 +15,14 @@ import { cancelBotSession } from '@/lib/services/meeting-notetaker/google-meet-b
 // GET - Meeting Details
 // ============================================================================
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export const GET = withAuth<RouteContext>(async (_request: NextRequest, auth, { params }) => {
   try {
     const { id } = await params;
-    const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const email = auth.email;
 
     if (!id) {
       return NextResponse.json(
@@ -54,8 +55,8 @@ export async function GET(
       );
     }
 
-    // Verify user has access (if email provided)
-    if (email && meeting.user_email !== email && meeting.user_code !== email) {
+    // Verify user has access
+    if (meeting.user_email !== email && meeting.user_code !== email) {
       return NextResponse.json(
         { error: 'Access denied' },
         { status: 403 }
@@ -143,16 +144,13 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 // ============================================================================
 // PUT - Update Meeting
 // ============================================================================
 
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PUT = withAuth<RouteContext>(async (request: NextRequest, auth, { params }) => {
   try {
     const { id } = await params;
     const body = await request.json();
@@ -171,6 +169,21 @@ export async function PUT(
 
     const supabase = createAdminClient();
 
+    // Only the meeting's owner may change it
+    const { data: meeting } = await supabase
+      .from('meeting_recordings')
+      .select('bot_session_id')
+      .eq('id', id)
+      .eq('user_email', auth.email)
+      .maybeSingle();
+
+    if (!meeting) {
+      return NextResponse.json(
+        { error: 'Meeting not found' },
+        { status: 404 }
+      );
+    }
+
     // Build update object
     const updates: Record<string, any> = {};
     if (title !== undefined) updates.title = title;
@@ -185,16 +198,8 @@ export async function PUT(
     }
 
     // If disabling notetaker, cancel the bot
-    if (notetakerEnabled === false) {
-      const { data: meeting } = await supabase
-        .from('meeting_recordings')
-        .select('bot_session_id')
-        .eq('id', id)
-        .single();
-
-      if (meeting?.bot_session_id) {
-        await cancelBotSession(meeting.bot_session_id);
-      }
+    if (notetakerEnabled === false && meeting.bot_session_id) {
+      await cancelBotSession(meeting.bot_session_id);
     }
 
     const { data, error } = await supabase
@@ -228,16 +233,13 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
 // ============================================================================
 // DELETE - Delete Meeting
 // ============================================================================
 
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withAuth<RouteContext>(async (_request: NextRequest, auth, { params }) => {
   try {
     const { id } = await params;
 
@@ -255,9 +257,17 @@ export async function DELETE(
       .from('meeting_recordings')
       .select('bot_session_id')
       .eq('id', id)
-      .single();
+      .eq('user_email', auth.email)
+      .maybeSingle();
+
+    if (!meeting) {
+      return NextResponse.json(
+        { error: 'Meeting not found' },
+        { status: 404 }
+      );
+    }
 
-    if (meeting?.bot_session_id) {
+    if (meeting.bot_session_id) {
       await cancelBotSession(meeting.bot_session_id);
     }
 
@@ -283,4 +293,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
@@ -7,23 +7,16 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 
 // ============================================================================
 // GET - List Custom Words
 // ============================================================================
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email parameter is required' },
-        { status: 400 }
-      );
-    }
+    const email = auth.email;
 
     const supabase = createAdminClient();
 
@@ -56,23 +49,17 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // ============================================================================
 // POST - Add Custom Word
 // ============================================================================
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, word, category } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400 }
-      );
-    }
+    const { word, category } = body;
+    const email = auth.email;
 
     if (!word || typeof word !== 'string') {
       return NextResponse.json(
@@ -131,23 +118,17 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // ============================================================================
 // DELETE - Remove Custom Word
 // ============================================================================
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, word } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400 }
-      );
-    }
+    const { word } = body;
+    const email = auth.email;
 
     if (!word) {
       return NextResponse.json(
@@ -180,4 +161,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -5,20 +5,18 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 
 const RECALL_API_URL = process.env.MEETING_BOT_SERVICE_URL || 'https://us-west-2.recall.ai/api/v1';
 const RECALL_API_KEY = process.env.MEETING_BOT_API_KEY;
 const APP_URL = process.env.NEXT_PUBLIC_APP_URL || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'https://moccet.ai');
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, meetingUrl, title } = body;
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
+    const { meetingUrl, title } = body;
+    const email = auth.email;
 
     if (!meetingUrl) {
       return NextResponse.json({ error: 'Meeting URL is required' }, { status: 400 });
@@ -128,4 +126,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
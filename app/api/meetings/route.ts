@@ -6,6 +6,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 import { scheduleBotJoin } from '@/lib/services/meeting-notetaker/google-meet-bot';
 
@@ -13,22 +14,15 @@ import { scheduleBotJoin } from '@/lib/services/meeting-notetaker/google-meet-bo
 // GET - List Meetings
 // ============================================================================
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const email = auth.email;
     const code = searchParams.get('code');
     const status = searchParams.get('status');
     const limit = parseInt(searchParams.get('limit') || '20', 10);
     const offset = parseInt(searchParams.get('offset') || '0', 10);
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email parameter is required' },
-        { status: 400 }
-      );
-    }
-
     const supabase = createAdminClient();
 
     // Build query
@@ -126,17 +120,16 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // ============================================================================
 // POST - Create Meeting
 // ============================================================================
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
     const {
-      email,
       code,
       calendarEventId,
       googleMeetUrl,
@@ -148,13 +141,7 @@ export async function POST(request: NextRequest) {
       attendees,
       enableNotetaker = true,
     } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400 }
-      );
-    }
+    const email = auth.email;
 
     const supabase = createAdminClient();
 
@@ -236,4 +223,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
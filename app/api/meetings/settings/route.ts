@@ -6,6 +6,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import {
   getOrCreateSettings,
   updateNotetakerSettings,
@@ -15,19 +16,12 @@ import {
 // GET - Get Settings
 // ============================================================================
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const email = auth.email;
     const code = searchParams.get('code');
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email parameter is required' },
-        { status: 400 }
-      );
-    }
-
     const settings = await getOrCreateSettings(email, code || undefined);
 
     return NextResponse.json({
@@ -53,23 +47,17 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // ============================================================================
 // PUT - Update Settings
 // ============================================================================
 
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, code, ...updates } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400 }
-      );
-    }
+    const { code, ...updates } = body;
+    const email = auth.email;
 
     const result = await updateNotetakerSettings(email, updates, code);
 
@@ -104,4 +92,4 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
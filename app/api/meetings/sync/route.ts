@@ -8,20 +8,15 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 import { syncUpcomingMeetingsForUser, scheduleBotJoin } from '@/lib/services/meeting-notetaker/google-meet-bot';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, code } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400 }
-      );
-    }
+    const { code } = body;
+    const email = auth.email;
 
     console.log('[MeetingSync] Manual sync triggered for:', email);
 
@@ -150,20 +145,12 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // GET endpoint to check sync status / last sync time
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email parameter is required' },
-        { status: 400 }
-      );
-    }
+    const email = auth.email;
 
     const supabase = createAdminClient();
 
@@ -214,4 +201,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { storeToken } from '@/lib/services/token-manager';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
 
 export async function GET(request: NextRequest) {
   try {
@@ -158,7 +159,7 @@ export async function GET(request: NextRequest) {
             console.log(`[Notion] Max tier user - triggering data fetch for ${userEmail}`);
             fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'https://moccet.ai'}/api/notion/fetch-data`, {
               method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
+              headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
               body: JSON.stringify({ email: userEmail }),
             }).then(res => {
               if (res.ok) {
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { revokeToken } from '@/lib/services/token-manager';
 
 const corsHeaders = {
@@ -7,39 +8,10 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type',
 };
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { email, userId } = await request.json();
-
-    if (!email && !userId) {
-      return NextResponse.json(
-        { error: 'Email or userId is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
-    let userEmail = email;
-
-    // Look up email from userId if needed
-    if (!userEmail && userId) {
-      try {
-        const { createAdminClient } = await import('@/lib/supabase/server');
-        const supabase = createAdminClient();
-        const { data: userData } = await supabase.auth.admin.getUserById(userId);
-        if (userData?.user?.email) {
-          userEmail = userData.user.email;
-        }
-      } catch (e) {
-        console.log('[Notion Disconnect] Could not look up email from userId:', e);
-      }
-    }
-
-    if (!userEmail) {
-      return NextResponse.json(
-        { error: 'Could not determine user email' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const userEmail = auth.email;
+    const userId = auth.principal.userId;
 
     // Delete the token from the database
     const deleteResult = await revokeToken(userEmail, 'notion');
@@ -53,21 +25,19 @@ export async function POST(request: NextRequest) {
     }
 
     // Update user_connectors table
-    if (userId) {
-      try {
-        const { createAdminClient } = await import('@/lib/supabase/server');
-        const supabase = createAdminClient();
-        await supabase.from('user_connectors').upsert({
-          user_id: userId,
-          user_email: userEmail,
-          connector_name: 'Notion',
-          is_connected: false,
-          updated_at: new Date().toISOString(),
-        }, { onConflict: 'user_id,connector_name' });
-        console.log(`[Notion Disconnect] Updated user_connectors for user ${userId}`);
-      } catch (connectorError) {
-        console.error('[Notion Disconnect] Failed to update user_connectors:', connectorError);
-      }
+    try {
+      const { createAdminClient } = await import('@/lib/supabase/server');
+      const supabase = createAdminClient();
+      await supabase.from('user_connectors').upsert({
+        user_id: userId,
+        user_email: userEmail,
+        connector_name: 'Notion',
+        is_connected: false,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'user_id,connector_name' });
+      console.log(`[Notion Disconnect] Updated user_connectors for user ${userId}`);
+    } catch (connectorError) {
+      console.error('[Notion Disconnect] Failed to update user_connectors:', connectorError);
     }
 
     console.log(`[Notion Disconnect] Successfully disconnected for ${userEmail}`);
@@ -101,7 +71,7 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
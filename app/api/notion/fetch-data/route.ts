@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { getToken } from '@/lib/services/token-manager';
 import { createAdminClient } from '@/lib/supabase/server';
 import OpenAI from 'openai';
@@ -61,16 +62,9 @@ interface NotionTask {
   properties: Record<string, unknown>;
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { email } = await request.json();
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const email = auth.email;
 
     console.log(`[Notion Fetch] Starting data fetch for ${email}`);
 
@@ -276,7 +270,7 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+}, { internal: true });
 
 function extractTaskFromPage(
   page: NotionPage,
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createHmac } from 'crypto';
 import { createAdminClient } from '@/lib/supabase/server';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
 
 /**
  * Notion Webhook Receiver
@@ -171,7 +172,7 @@ async function handlePageEvent(payload: Record<string, unknown>) {
         // Trigger fetch-data in background
         fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'https://moccet.ai'}/api/notion/fetch-data`, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
           body: JSON.stringify({ email: token.user_email }),
         }).catch(err => {
           console.error('[Notion Webhook] Error triggering sync:', err);
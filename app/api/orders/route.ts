@@ -4,23 +4,17 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { getUserOrders, getOrder, getOrderByNumber } from '@/lib/services/orders';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const email = auth.email;
     const orderId = searchParams.get('orderId');
     const orderNumber = searchParams.get('orderNumber');
     const limit = parseInt(searchParams.get('limit') || '10');
 
-    if (!email) {
-      return NextResponse.json(
-        { success: false, error: 'Email is required' },
-        { status: 400 }
-      );
-    }
-
     // Get specific order by ID
     if (orderId) {
       console.log(`[Orders API] Getting order ${orderId} for ${email}`);
@@ -102,4 +96,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { guest: true });
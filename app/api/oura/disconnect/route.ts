@@ -1,10 +1,17 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
+import { withAuth } from '@/lib/middleware';
+import { revokeToken } from '@/lib/services/token-manager';
 
-export async function POST() {
+export const POST = withAuth(async (_request: NextRequest, auth) => {
   try {
     const cookieStore = await cookies();
 
+    const result = await revokeToken(auth.email, 'oura');
+    if (!result.success) {
+      console.error(`[Oura] Failed to revoke token: ${result.error}`);
+    }
+
     // Remove all Oura-related cookies
     cookieStore.delete('oura_access_token');
     cookieStore.delete('oura_refresh_token');
@@ -23,4 +30,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+});
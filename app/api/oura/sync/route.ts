@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { getAccessToken } from '@/lib/services/token-manager';
 import { createAdminClient } from '@/lib/supabase/server';
 import { runHealthAnalysis } from '@/lib/services/health-pattern-analyzer';
@@ -35,16 +36,10 @@ async function getUserCode(email: string): Promise<string | null> {
   return null;
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
-    const { email, code, startDate, endDate } = await request.json();
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400 }
-      );
-    }
+    const { code, startDate, endDate } = await request.json();
+    const email = auth.email;
 
     // Get user code - use provided code or look it up from onboarding data
     const userCode = code || await getUserCode(email);
@@ -213,4 +208,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { internal: true });
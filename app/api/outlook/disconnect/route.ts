@@ -1,8 +1,15 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
+import { withAuth } from '@/lib/middleware';
+import { revokeToken } from '@/lib/services/token-manager';
 
-export async function POST() {
+export const POST = withAuth(async (_request: NextRequest, auth) => {
   try {
+    const result = await revokeToken(auth.email, 'outlook');
+    if (!result.success) {
+      console.error(`[Outlook] Failed to revoke token: ${result.error}`);
+    }
+
     // Clear the Outlook connection cookie
     const cookieStore = await cookies();
     cookieStore.delete('outlook_email');
@@ -25,4 +32,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+});
@@ -6,6 +6,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import {
   applyCategoryToEmail,
   MoccetCategoryName,
@@ -22,17 +23,11 @@ const corsHeaders = {
  * POST /api/outlook/mail/categories/apply
  * Apply a category to an email
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, code, messageId, categoryName, conversationId, from, subject, source, confidence, reasoning } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const { code, messageId, categoryName, conversationId, from, subject, source, confidence, reasoning } = body;
+    const email = auth.email;
 
     if (!messageId) {
       return NextResponse.json(
@@ -98,7 +93,7 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
@@ -10,6 +10,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 import {
   setupUserCategories,
@@ -29,17 +30,9 @@ const corsHeaders = {
  * GET /api/outlook/mail/categories/setup
  * Check if categories are set up for user
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email parameter is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const email = auth.email;
 
     // Check if categories are set up
     const isSetup = await hasCategoriesSetup(email);
@@ -71,23 +64,17 @@ export async function GET(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 /**
  * POST /api/outlook/mail/categories/setup
  * Create all Moccet categories in user's Outlook and optionally backfill existing emails
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, code, backfill = true, backfillCount = 50 } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const { code, backfill = true, backfillCount = 50 } = body;
+    const email = auth.email;
 
     console.log(`[Outlook Categories Setup API] Setting up categories for ${email}`);
 
@@ -138,7 +125,7 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
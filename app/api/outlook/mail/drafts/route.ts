@@ -12,6 +12,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 import { createValidatedOutlookMailClient } from '@/lib/services/outlook-mail-client';
 
@@ -21,47 +22,18 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
-async function getUserEmail(request: NextRequest): Promise<string | null> {
-  const authHeader = request.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    const token = authHeader.substring(7);
-    const supabase = createAdminClient();
-
-    try {
-      const { data: { user }, error } = await supabase.auth.getUser(token);
-      if (!error && user?.email) {
-        return user.email;
-      }
-    } catch {
-      // Continue
-    }
-  }
-  return null;
-}
-
 /**
  * GET /api/outlook/mail/drafts
  * List AI-generated email drafts
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
     const status = searchParams.get('status'); // pending, created, sent, modified, discarded, all
     const limit = parseInt(searchParams.get('limit') || '50');
     const offset = parseInt(searchParams.get('offset') || '0');
 
-    let userEmail = await getUserEmail(request);
-    if (!userEmail && email) {
-      userEmail = email;
-    }
-
-    if (!userEmail) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const userEmail = auth.email;
 
     const supabase = createAdminClient();
 
@@ -126,7 +98,7 @@ export async function GET(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 /**
  * PATCH /api/outlook/mail/drafts
@@ -134,10 +106,10 @@ export async function GET(request: NextRequest) {
  *
  * Body: { id: string, action: 'approve' | 'discard' | 'mark_sent' | 'mark_modified' }
  */
-export async function PATCH(request: NextRequest) {
+export const PATCH = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { id, action, email, code } = body;
+    const { id, action, code } = body;
 
     if (!id || !action) {
       return NextResponse.json(
@@ -146,17 +118,7 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    let userEmail = await getUserEmail(request);
-    if (!userEmail && email) {
-      userEmail = email;
-    }
-
-    if (!userEmail) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const userEmail = auth.email;
 
     const supabase = createAdminClient();
 
@@ -268,19 +230,18 @@ export async function PATCH(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 /**
  * DELETE /api/outlook/mail/drafts
  * Delete a draft
  *
- * Query: ?id=xxx&email=xxx
+ * Query: ?id=xxx
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
   try {
     const searchParams = request.nextUrl.searchParams;
     const id = searchParams.get('id');
-    const email = searchParams.get('email');
     const code = searchParams.get('code');
 
     if (!id) {
@@ -290,17 +251,7 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    let userEmail = await getUserEmail(request);
-    if (!userEmail && email) {
-      userEmail = email;
-    }
-
-    if (!userEmail) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const userEmail = auth.email;
 
     const supabase = createAdminClient();
 
@@ -347,7 +298,7 @@ export async function DELETE(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
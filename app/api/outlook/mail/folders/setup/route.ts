@@ -9,6 +9,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { setupMoccetFolders, hasFoldersSetup } from '@/lib/services/outlook-category-manager';
 
 const corsHeaders = {
@@ -21,17 +22,9 @@ const corsHeaders = {
  * GET /api/outlook/mail/folders/setup
  * Check if folders are set up
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email parameter is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const email = auth.email;
 
     const isSetup = await hasFoldersSetup(email);
 
@@ -43,23 +36,17 @@ export async function GET(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 /**
  * POST /api/outlook/mail/folders/setup
  * Create Moccet folders in user's Outlook account
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, code } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const { code } = body;
+    const email = auth.email;
 
     console.log(`[Outlook Folders] Setting up folders for ${email}`);
 
@@ -81,7 +68,7 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
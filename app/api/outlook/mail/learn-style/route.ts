@@ -7,6 +7,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { learnOutlookEmailStyle, getEmailStyle } from '@/lib/services/outlook-style-learner';
 
 const corsHeaders = {
@@ -19,19 +20,12 @@ const corsHeaders = {
  * GET /api/outlook/mail/learn-style
  * Check if style has been learned
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
+    const email = auth.email;
     const code = searchParams.get('code');
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email parameter is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
     const style = await getEmailStyle(email, code || undefined);
 
     return NextResponse.json(
@@ -51,23 +45,17 @@ export async function GET(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 /**
  * POST /api/outlook/mail/learn-style
  * Learn user's email writing style from sent emails
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, code, maxEmails = 200, forceRelearn = false } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const { code, maxEmails = 200, forceRelearn = false } = body;
+    const email = auth.email;
 
     console.log(`[Outlook Learn Style API] Learning style for ${email} (max: ${maxEmails}, force: ${forceRelearn})`);
 
@@ -108,7 +96,7 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+}, { internal: true });
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
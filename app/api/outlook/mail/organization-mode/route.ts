@@ -9,6 +9,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import {
   getOrganizationMode,
   setOrganizationMode,
@@ -27,17 +28,9 @@ const corsHeaders = {
  * GET /api/outlook/mail/organization-mode
  * Get current organization mode and setup status
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email parameter is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const email = auth.email;
 
     const [mode, categoriesSetup, foldersSetup] = await Promise.all([
       getOrganizationMode(email),
@@ -60,23 +53,17 @@ export async function GET(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 /**
  * POST /api/outlook/mail/organization-mode
  * Set organization mode
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, mode } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const { mode } = body;
+    const email = auth.email;
 
     if (!mode || !['categories', 'folders', 'both'].includes(mode)) {
       return NextResponse.json(
@@ -111,7 +98,7 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
@@ -8,6 +8,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 import { createValidatedOutlookMailClient, OutlookMailClient, OutlookEmail } from '@/lib/services/outlook-mail-client';
 import { classifyEmailWithLabeling } from '@/lib/services/email-classifier';
@@ -65,17 +66,11 @@ async function fetchEmailContent(
   }
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, code, maxEmails = 5 } = body;
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
+    const { code, maxEmails = 5 } = body;
+    const email = auth.email;
 
     console.log(`[Outlook ProcessRecent] Processing recent emails for ${email}`);
 
@@ -295,7 +290,7 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+}, { internal: true });
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
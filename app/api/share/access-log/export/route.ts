@@ -0,0 +1,69 @@
+/**
+ * Share Access Log Export API Route
+ * GET /api/share/access-log/export - Download my access log as CSV or JSON
+ *
+ * Query params:
+ * - format: csv (default) or json
+ * - from, to: ISO dates bounding the export, default the last 365 days
+ * - accessor: Only entries for this caregiver or clinician
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
+import { accessAuditService, formatAccessLogCsv } from '@/lib/services/share/access-audit-service';
+
+export const GET = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const email = auth.email;
+
+    const params = request.nextUrl.searchParams;
+    const format = params.get('format') || 'csv';
+    if (format !== 'csv' && format !== 'json') {
+      return NextResponse.json(
+        { error: 'format must be csv or json' },
+        { status: 400 }
+      );
+    }
+
+    const from = params.get('from') ? new Date(params.get('from')!) : new Date(Date.now() - 365 * 24 * 60 * 60 * 1000);
+    const to = params.get('to') ? new Date(params.get('to')!) : new Date();
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return NextResponse.json(
+        { error: 'from and to must be valid dates with from before to' },
+        { status: 400 }
+      );
+    }
+
+    const entries = await accessAuditService.instance.exportAccessLog(email, {
+      from,
+      to,
+      accessorEmail: params.get('accessor') || undefined,
+    });
+
+    console.log(`[Share] Exported ${entries.length} access log entries for ${email}`);
+
+    const filename = `access-log-${from.toISOString().split('T')[0]}-to-${to.toISOString().split('T')[0]}`;
+
+    if (format === 'json') {
+      return new NextResponse(JSON.stringify({ exported_at: new Date().toISOString(), entries }, null, 2), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="${filename}.json"`,
+        },
+      });
+    }
+
+    return new NextResponse(formatAccessLogCsv(entries), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error('[Share] Error exporting access log:', error);
+    return NextResponse.json(
+      { error: 'Failed to export access log' },
+      { status: 500 }
+    );
+  }
+});
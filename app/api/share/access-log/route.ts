@@ -0,0 +1,77 @@
+/**
+ * Share Access Log API Route
+ * GET /api/share/access-log - Who viewed or received my health data
+ *
+ * Query params:
+ * - days: Period to summarize and list, default 30 (max 365)
+ * - accessor: Only entries for this caregiver or clinician
+ * - type: Only this access type (dashboard_overview, dashboard_detail,
+ *   alert_context, clinical_alert, clinical_summary, agent_tool, delegated_api,
+ *   admin_impersonation)
+ * - limit, offset: Paging for entries, default 50
+ *
+ * Export the full log with GET /api/share/access-log/export.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
+import { accessAuditService, AccessType } from '@/lib/services/share/access-audit-service';
+
+const ACCESS_TYPES: AccessType[] = [
+  'dashboard_overview',
+  'dashboard_detail',
+  'alert_context',
+  'clinical_alert',
+  'clinical_summary',
+  'agent_tool',
+  'delegated_api',
+  'admin_impersonation',
+];
+
+export const GET = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const email = auth.email;
+
+    const params = request.nextUrl.searchParams;
+    const days = Math.min(365, Math.max(1, parseInt(params.get('days') || '30', 10) || 30));
+    const limit = Math.min(200, Math.max(1, parseInt(params.get('limit') || '50', 10) || 50));
+    const offset = Math.max(0, parseInt(params.get('offset') || '0', 10) || 0);
+    const accessor = params.get('accessor') || undefined;
+    const type = params.get('type');
+
+    if (type && !ACCESS_TYPES.includes(type as AccessType)) {
+      return NextResponse.json(
+        { error: `type must be one of: ${ACCESS_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const from = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const [summary, { entries, total }] = await Promise.all([
+      accessAuditService.instance.getAccessSummary(email, days),
+      accessAuditService.instance.getAccessLog(email, {
+        from,
+        accessorEmail: accessor,
+        accessType: (type as AccessType) || undefined,
+        limit,
+        offset,
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      days,
+      accessors: summary,
+      entries,
+      total,
+      limit,
+      offset,
+    });
+  } catch (error) {
+    console.error('[Share] Error fetching access log:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch access log' },
+      { status: 500 }
+    );
+  }
+});
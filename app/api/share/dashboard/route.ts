@@ -5,22 +5,21 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { shareRelationshipService } from '@/lib/services/share/share-relationship-service';
+import { withAuth } from '@/lib/middleware';
+import {
+  shareRelationshipService,
+  type SharePermissions,
+  type ShareRelationship,
+} from '@/lib/services/share/share-relationship-service';
+import { accessAuditService } from '@/lib/services/share/access-audit-service';
 import { getServiceClient } from '@/lib/supabase/server';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const supabase = getServiceClient();
-    const email = request.headers.get('x-user-email');
+    const email = auth.email;
     const sharerEmail = request.nextUrl.searchParams.get('sharerEmail');
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 401 }
-      );
-    }
-
     if (sharerEmail) {
       // Detailed view for one person
       return await getPersonDetail(email, sharerEmail);
@@ -43,6 +42,17 @@ export async function GET(request: NextRequest) {
     // Get stats
     const stats = await shareRelationshipService.instance.getStats(email);
 
+    // Record the view in each monitored person's access log
+    await accessAuditService.recordAccesses(monitoredPeople.map((person) => ({
+      sharerEmail: person.sharer_email,
+      accessorEmail: email,
+      accessorType: 'caregiver' as const,
+      accessType: 'dashboard_overview' as const,
+      channel: 'app' as const,
+      relationshipId: person.relationship_id,
+      dataCategories: ['alerts'],
+    })));
+
     return NextResponse.json({
       success: true,
       monitored_people: monitoredPeople,
@@ -60,7 +70,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 async function getPersonDetail(caregiverEmail: string, sharerEmail: string) {
   const supabase = getServiceClient();
@@ -89,7 +99,7 @@ async function getPersonDetail(caregiverEmail: string, sharerEmail: string) {
       .eq('sharer_email', sharerEmail)
       .eq('caregiver_email', caregiverEmail)
       .eq('status', 'active')
-      .single();
+      .single<ShareRelationship & { share_permissions: SharePermissions[] | null }>();
 
     if (!relationship) {
       return NextResponse.json(
@@ -140,6 +150,23 @@ async function getPersonDetail(caregiverEmail: string, sharerEmail: string) {
     const permissions = relationship.share_permissions?.[0] || {};
     const filteredBaselines = filterBaselinesForPermissions(baselines || [], permissions);
 
+    const dataCategories = ['alerts'];
+    if (filteredBaselines.length > 0) dataCategories.push('baselines');
+    if (interventions && interventions.length > 0) dataCategories.push('interventions');
+    if (snapshot) dataCategories.push('health_snapshot');
+    if (clinicalProviders && clinicalProviders.length > 0) dataCategories.push('clinical_providers');
+
+    await accessAuditService.recordAccess({
+      sharerEmail,
+      accessorEmail: caregiverEmail,
+      accessorType: 'caregiver',
+      accessType: 'dashboard_detail',
+      channel: 'app',
+      relationshipId: relationship.id,
+      dataCategories,
+      metadata: { metrics: filteredBaselines.map((b) => b.metric_type) },
+    });
+
     return NextResponse.json({
       success: true,
       relationship: {
@@ -0,0 +1,109 @@
+/**
+ * Share Escalation Policy API Route
+ * GET /api/share/escalation-policy - Get my escalation policy and caregivers to build it from
+ * PUT /api/share/escalation-policy - Create or replace my escalation policy
+ * DELETE /api/share/escalation-policy - Go back to the default escalation rules
+ *
+ * A policy is an ordered chain of steps. Each step names caregivers by
+ * relationship_id, optionally with on-call windows (e.g. weekdays for one
+ * caregiver, weekends for another), and waits the policy's per-severity
+ * timer after the previous step. With emergency_step on, caregivers allowed
+ * to contact emergency services are prompted after the last step.
+ *
+ * Preview a policy with POST /api/share/escalation-policy/simulate.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
+import { escalationPolicyService } from '@/lib/services/share/escalation-policy-service';
+import { DEFAULT_ESCALATION_RULES } from '@/lib/services/share/escalation-policy';
+import { escalationPolicySchema, validateBody, formatZodError } from '@/lib/validation/schemas';
+
+export const GET = withAuth(async (_request: NextRequest, auth) => {
+  try {
+    const email = auth.email;
+
+    const [policy, caregivers] = await Promise.all([
+      escalationPolicyService.instance.getPolicy(email),
+      escalationPolicyService.instance.getPolicyCaregivers(email),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      policy,
+      default_rules: DEFAULT_ESCALATION_RULES,
+      caregivers: caregivers.map((c) => ({
+        relationship_id: c.relationship_id,
+        caregiver_email: c.caregiver_email,
+        caregiver_role: c.caregiver_role,
+        label: c.label,
+        can_contact_emergency: c.can_contact_emergency,
+      })),
+    });
+  } catch (error) {
+    console.error('[Share] Error fetching escalation policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch escalation policy' },
+      { status: 500 }
+    );
+  }
+});
+
+export const PUT = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const email = auth.email;
+
+    const body = await request.json();
+    const validation = validateBody(body, escalationPolicySchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    console.log(`[Share] Saving escalation policy for ${email}`);
+
+    const result = await escalationPolicyService.instance.savePolicy(email, validation.data);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      policy: result.policy,
+    });
+  } catch (error) {
+    console.error('[Share] Error saving escalation policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to save escalation policy' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withAuth(async (_request: NextRequest, auth) => {
+  try {
+    const email = auth.email;
+
+    const deleted = await escalationPolicyService.instance.deletePolicy(email);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'No escalation policy to delete' },
+        { status: 404 }
+      );
+    }
+
+    console.log(`[Share] Deleted escalation policy for ${email}`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Share] Error deleting escalation policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete escalation policy' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,48 @@
+/**
+ * Share Escalation Simulation API Route
+ * POST /api/share/escalation-policy/simulate - Who would be notified, and when, for a hypothetical alert
+ *
+ * Body:
+ * - severity (required): critical | high | medium | low | info
+ * - at (optional): ISO time the alert is raised, default now. On-call
+ *   windows and quiet hours are evaluated at each step's time.
+ * - policy (optional): Unsaved policy to try instead of the saved one
+ *
+ * Nothing is sent.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
+import { escalationPolicyService } from '@/lib/services/share/escalation-policy-service';
+import { simulateEscalationSchema, validateBody, formatZodError } from '@/lib/validation/schemas';
+
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const email = auth.email;
+
+    const body = await request.json();
+    const validation = validateBody(body, simulateEscalationSchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { severity, at, policy } = validation.data;
+    const simulation = await escalationPolicyService.instance.simulate(
+      email,
+      severity,
+      at ? new Date(at) : new Date(),
+      policy
+    );
+
+    return NextResponse.json({
+      success: true,
+      simulation,
+    });
+  } catch (error) {
+    console.error('[Share] Error simulating escalation:', error);
+    return NextResponse.json(
+      { error: 'Failed to simulate escalation' },
+      { status: 500 }
+    );
+  }
+});
@@ -5,11 +5,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { shareRelationshipService } from '@/lib/services/share/share-relationship-service';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
-    const email = request.headers.get('x-user-email');
+    const email = auth.email;
     const body = await request.json();
     const {
       caregiverEmail,
@@ -20,13 +21,6 @@ export async function POST(request: NextRequest) {
       isBidirectional,
     } = body;
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 401 }
-      );
-    }
-
     if (!caregiverEmail) {
       return NextResponse.json(
         { error: 'Caregiver email is required' },
@@ -77,20 +71,13 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
-    const email = request.headers.get('x-user-email');
+    const email = auth.email;
     const type = request.nextUrl.searchParams.get('type'); // 'sent' or 'received' or both
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 401 }
-      );
-    }
-
     console.log(`[Share] Fetching invites for ${email}`);
 
     // Get pending invites received
@@ -114,4 +101,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -2,23 +2,19 @@
  * Share Permissions API Route
  * GET /api/share/permissions?relationshipId=xxx - Get permissions for a relationship
  * PUT /api/share/permissions - Update permissions for a relationship
+ *
+ * Only the sharer and caregiver in a relationship can read its permissions.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { shareRelationshipService } from '@/lib/services/share/share-relationship-service';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
-    const email = request.headers.get('x-user-email');
+    const email = auth.email;
     const relationshipId = request.nextUrl.searchParams.get('relationshipId');
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 401 }
-      );
-    }
-
     if (!relationshipId) {
       return NextResponse.json(
         { error: 'Relationship ID is required' },
@@ -28,7 +24,10 @@ export async function GET(request: NextRequest) {
 
     console.log(`[Share] Fetching permissions for relationship ${relationshipId}`);
 
-    const permissions = await shareRelationshipService.instance.getPermissions(relationshipId);
+    const isMember = await shareRelationshipService.instance.isRelationshipMember(relationshipId, email);
+    const permissions = isMember
+      ? await shareRelationshipService.instance.getPermissions(relationshipId)
+      : null;
 
     if (!permissions) {
       return NextResponse.json(
@@ -48,21 +47,14 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth(async (request: NextRequest, auth) => {
   try {
-    const email = request.headers.get('x-user-email');
+    const email = auth.email;
     const body = await request.json();
     const { relationshipId, permissions } = body;
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 401 }
-      );
-    }
-
     if (!relationshipId) {
       return NextResponse.json(
         { error: 'Relationship ID is required' },
@@ -100,4 +92,4 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
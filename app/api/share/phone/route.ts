@@ -0,0 +1,124 @@
+/**
+ * Caregiver Phone API Route
+ * GET /api/share/phone - Get the registered phone number
+ * POST /api/share/phone - Register a number and text a verification code
+ * PUT /api/share/phone - Turn SMS or voice alerts on or off
+ * DELETE /api/share/phone - Remove the phone number
+ *
+ * Confirm the code with POST /api/share/phone/verify. Only verified numbers
+ * receive SMS and voice alerts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
+import { caregiverPhoneService } from '@/lib/services/share/caregiver-phone-service';
+
+export const GET = withAuth(async (_request: NextRequest, auth) => {
+  try {
+    const email = auth.email;
+
+    const phone = await caregiverPhoneService.instance.getPhone(email);
+
+    return NextResponse.json({ success: true, phone });
+  } catch (error) {
+    console.error('[Share] Error fetching phone number:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch phone number' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const email = auth.email;
+    const body = await request.json();
+    const { phoneNumber } = body;
+
+    if (!phoneNumber) {
+      return NextResponse.json(
+        { error: 'Phone number is required' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[Share] ${email} registering phone number for alerts`);
+
+    const result = await caregiverPhoneService.instance.startVerification(email, phoneNumber);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, phone: result.phone });
+  } catch (error) {
+    console.error('[Share] Error registering phone number:', error);
+    return NextResponse.json(
+      { error: 'Failed to register phone number' },
+      { status: 500 }
+    );
+  }
+});
+
+export const PUT = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const email = auth.email;
+    const body = await request.json();
+    const { smsEnabled, voiceEnabled } = body;
+
+    if (typeof smsEnabled !== 'boolean' && typeof voiceEnabled !== 'boolean') {
+      return NextResponse.json(
+        { error: 'smsEnabled or voiceEnabled is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await caregiverPhoneService.instance.updateChannels(email, {
+      ...(typeof smsEnabled === 'boolean' && { sms_enabled: smsEnabled }),
+      ...(typeof voiceEnabled === 'boolean' && { voice_enabled: voiceEnabled }),
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, phone: result.phone });
+  } catch (error) {
+    console.error('[Share] Error updating phone settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to update phone settings' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withAuth(async (_request: NextRequest, auth) => {
+  try {
+    const email = auth.email;
+
+    console.log(`[Share] ${email} removing phone number`);
+
+    const result = await caregiverPhoneService.instance.removePhone(email);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Share] Error removing phone number:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove phone number' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,42 @@
+/**
+ * Caregiver Phone Verification API Route
+ * POST /api/share/phone/verify - Confirm the texted verification code
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
+import { caregiverPhoneService } from '@/lib/services/share/caregiver-phone-service';
+
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const email = auth.email;
+    const body = await request.json();
+    const { code } = body;
+
+    if (!code || typeof code !== 'string') {
+      return NextResponse.json(
+        { error: 'Verification code is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await caregiverPhoneService.instance.confirmVerification(email, code);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[Share] ${email} verified phone number for alerts`);
+
+    return NextResponse.json({ success: true, phone: result.phone });
+  } catch (error) {
+    console.error('[Share] Error verifying phone number:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify phone number' },
+      { status: 500 }
+    );
+  }
+});
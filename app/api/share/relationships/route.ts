@@ -6,20 +6,14 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { shareRelationshipService } from '@/lib/services/share/share-relationship-service';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
-    const email = request.headers.get('x-user-email');
+    const email = auth.email;
     const role = request.nextUrl.searchParams.get('role'); // 'caregiver' or 'sharer'
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 401 }
-      );
-    }
-
     console.log(`[Share] Fetching relationships for ${email} (role: ${role || 'both'})`);
 
     // Get both monitored people (caregiver role) and caregivers (sharer role)
@@ -42,21 +36,14 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth(async (request: NextRequest, auth) => {
   try {
-    const email = request.headers.get('x-user-email');
+    const email = auth.email;
     const body = await request.json();
     const { caregiverEmail, action, role, reason } = body;
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 401 }
-      );
-    }
-
     if (!caregiverEmail) {
       return NextResponse.json(
         { error: 'Caregiver email is required' },
@@ -112,21 +99,14 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
   try {
-    const email = request.headers.get('x-user-email');
+    const email = auth.email;
     const caregiverEmail = request.nextUrl.searchParams.get('caregiverEmail');
     const reason = request.nextUrl.searchParams.get('reason');
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 401 }
-      );
-    }
-
     if (!caregiverEmail) {
       return NextResponse.json(
         { error: 'Caregiver email is required' },
@@ -157,4 +137,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
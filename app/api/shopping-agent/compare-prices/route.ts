@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@supabase/supabase-js';
 import { BrowserController } from '@/lib/services/shopping-agent/browser-controller';
 import type { ProductSearchResult } from '@/lib/services/shopping-agent/sites/types';
@@ -30,14 +31,11 @@ interface PriceComparisonResult {
 /**
  * POST - Compare prices for products across multiple sites
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, products, sites, taskId } = body;
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
+    const { products, sites, taskId } = body;
+    const email = auth.email;
 
     if (!products || !Array.isArray(products) || products.length === 0) {
       return NextResponse.json(
@@ -68,7 +66,8 @@ export async function POST(request: NextRequest) {
           status: 'searching',
           updated_at: new Date().toISOString(),
         })
-        .eq('id', taskId);
+        .eq('id', taskId)
+        .eq('user_email', email);
     }
 
     const browserController = new BrowserController({ headless: true });
@@ -144,7 +143,8 @@ export async function POST(request: NextRequest) {
           search_completed_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         })
-        .eq('id', taskId);
+        .eq('id', taskId)
+        .eq('user_email', email);
 
       // Calculate price comparison summary
       const priceComparison = comparisonResults.map(result => ({
@@ -174,7 +174,8 @@ export async function POST(request: NextRequest) {
           recommended_site: recommendedSite,
           updated_at: new Date().toISOString(),
         })
-        .eq('id', taskId);
+        .eq('id', taskId)
+        .eq('user_email', email);
     }
 
     // Build summary
@@ -203,7 +204,7 @@ export async function POST(request: NextRequest) {
     console.error('[Shopping Agent] Error in compare-prices:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+}, { internal: true });
 
 /**
  * Build search query from product info
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@supabase/supabase-js';
 import {
   encryptSiteCredentials,
@@ -22,16 +23,12 @@ function isValidSite(site: string): site is SupportedSite {
 /**
  * GET - List stored credentials for a user (masked)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
+    const email = auth.email;
     const site = searchParams.get('site');
 
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
-
     let query = supabase
       .from('external_site_credentials')
       .select('id, site_name, is_active, last_used_at, login_failures, created_at, encrypted_email')
@@ -85,20 +82,21 @@ export async function GET(request: NextRequest) {
     console.error('[Shopping Agent] Error in GET /credentials:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
 /**
  * POST - Store new site credentials
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, site, siteEmail, sitePassword, totpSecret, backupCodes } = body;
+    const { site, siteEmail, sitePassword, totpSecret, backupCodes } = body;
+    const email = auth.email;
 
     // Validation
-    if (!email || !site || !siteEmail || !sitePassword) {
+    if (!site || !siteEmail || !sitePassword) {
       return NextResponse.json(
-        { error: 'Email, site, siteEmail, and sitePassword are required' },
+        { error: 'site, siteEmail, and sitePassword are required' },
         { status: 400 }
       );
     }
@@ -156,22 +154,18 @@ export async function POST(request: NextRequest) {
     console.error('[Shopping Agent] Error in POST /credentials:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
 /**
  * DELETE - Remove site credentials
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
+    const email = auth.email;
     const site = searchParams.get('site');
     const credentialId = searchParams.get('id');
 
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
-
     if (!site && !credentialId) {
       return NextResponse.json({ error: 'Either site or id is required' }, { status: 400 });
     }
@@ -202,18 +196,19 @@ export async function DELETE(request: NextRequest) {
     console.error('[Shopping Agent] Error in DELETE /credentials:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
 /**
  * PATCH - Update credential status (e.g., mark as inactive after failures)
  */
-export async function PATCH(request: NextRequest) {
+export const PATCH = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, site, action, newPassword, newTotpSecret } = body;
+    const { site, action, newPassword, newTotpSecret } = body;
+    const email = auth.email;
 
-    if (!email || !site) {
-      return NextResponse.json({ error: 'Email and site are required' }, { status: 400 });
+    if (!site) {
+      return NextResponse.json({ error: 'site is required' }, { status: 400 });
     }
 
     switch (action) {
@@ -295,7 +290,7 @@ export async function PATCH(request: NextRequest) {
     console.error('[Shopping Agent] Error in PATCH /credentials:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@supabase/supabase-js';
 import { BrowserController } from '@/lib/services/shopping-agent/browser-controller';
 import {
@@ -15,13 +16,14 @@ const supabase = createClient(
 /**
  * POST - Execute a shopping task (search, add to cart, checkout)
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, taskId, action } = body;
+    const { taskId, action } = body;
+    const email = auth.email;
 
-    if (!email || !taskId) {
-      return NextResponse.json({ error: 'Email and taskId are required' }, { status: 400 });
+    if (!taskId) {
+      return NextResponse.json({ error: 'taskId is required' }, { status: 400 });
     }
 
     // Fetch task
@@ -68,7 +70,7 @@ export async function POST(request: NextRequest) {
     console.error('[Shopping Agent] Error in execute:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+}, { internal: true });
 
 /**
  * Determine next action based on task status
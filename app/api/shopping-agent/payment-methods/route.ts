@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@supabase/supabase-js';
 import {
   encryptPaymentCard,
@@ -14,14 +15,9 @@ const supabase = createClient(
 /**
  * GET - List stored payment methods for a user (masked)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
+    const email = auth.email;
 
     const { data: cards, error } = await supabase
       .from('user_payment_credentials')
@@ -56,20 +52,21 @@ export async function GET(request: NextRequest) {
     console.error('[Shopping Agent] Error in GET /payment-methods:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
 /**
  * POST - Store new payment method
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, cardNumber, expiry, cvv, cardholderName, billingAddressId, setAsDefault } = body;
+    const { cardNumber, expiry, cvv, cardholderName, billingAddressId, setAsDefault } = body;
+    const email = auth.email;
 
     // Validation
-    if (!email || !cardNumber || !expiry || !cvv) {
+    if (!cardNumber || !expiry || !cvv) {
       return NextResponse.json(
-        { error: 'Email, cardNumber, expiry, and cvv are required' },
+        { error: 'cardNumber, expiry, and cvv are required' },
         { status: 400 }
       );
     }
@@ -189,19 +186,19 @@ export async function POST(request: NextRequest) {
     console.error('[Shopping Agent] Error in POST /payment-methods:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
 /**
  * DELETE - Remove payment method
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
+    const email = auth.email;
     const id = searchParams.get('id');
 
-    if (!email || !id) {
-      return NextResponse.json({ error: 'Email and id are required' }, { status: 400 });
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
     }
 
     // Soft delete (mark as inactive)
@@ -224,18 +221,19 @@ export async function DELETE(request: NextRequest) {
     console.error('[Shopping Agent] Error in DELETE /payment-methods:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
 /**
  * PATCH - Update payment method (e.g., set as default)
  */
-export async function PATCH(request: NextRequest) {
+export const PATCH = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, id, action, billingAddressId } = body;
+    const { id, action, billingAddressId } = body;
+    const email = auth.email;
 
-    if (!email || !id) {
-      return NextResponse.json({ error: 'Email and id are required' }, { status: 400 });
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
     }
 
     switch (action) {
@@ -282,7 +280,7 @@ export async function PATCH(request: NextRequest) {
     console.error('[Shopping Agent] Error in PATCH /payment-methods:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@supabase/supabase-js';
 
 const supabase = createClient(
@@ -14,17 +15,13 @@ function generateTaskId(): string {
 /**
  * GET - Get shopping task(s) for a user
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
+    const email = auth.email;
     const taskId = searchParams.get('taskId');
     const status = searchParams.get('status');
 
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
-
     let query = supabase
       .from('shopping_agent_tasks')
       .select('*')
@@ -63,21 +60,18 @@ export async function GET(request: NextRequest) {
     console.error('[Shopping Agent] Error in GET /tasks:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
 /**
  * POST - Create a new shopping task
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, parentTaskId, products, targetSites } = body;
+    const { parentTaskId, products, targetSites } = body;
+    const email = auth.email;
 
     // Validation
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
-
     if (!products || !Array.isArray(products) || products.length === 0) {
       return NextResponse.json(
         { error: 'Products array is required and must not be empty' },
@@ -134,18 +128,19 @@ export async function POST(request: NextRequest) {
     console.error('[Shopping Agent] Error in POST /tasks:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+}, { internal: true });
 
 /**
  * PATCH - Update shopping task (approve, reject, provide 2FA, retry)
  */
-export async function PATCH(request: NextRequest) {
+export const PATCH = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, taskId, action, selectedProducts, twoFACode } = body;
+    const { taskId, action, selectedProducts, twoFACode } = body;
+    const email = auth.email;
 
-    if (!email || !taskId) {
-      return NextResponse.json({ error: 'Email and taskId are required' }, { status: 400 });
+    if (!taskId) {
+      return NextResponse.json({ error: 'taskId is required' }, { status: 400 });
     }
 
     // Fetch task
@@ -263,19 +258,19 @@ export async function PATCH(request: NextRequest) {
     console.error('[Shopping Agent] Error in PATCH /tasks:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
 /**
  * DELETE - Cancel/delete a shopping task
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
+    const email = auth.email;
     const taskId = searchParams.get('taskId');
 
-    if (!email || !taskId) {
-      return NextResponse.json({ error: 'Email and taskId are required' }, { status: 400 });
+    if (!taskId) {
+      return NextResponse.json({ error: 'taskId is required' }, { status: 400 });
     }
 
     // Soft delete - mark as cancelled
@@ -301,7 +296,7 @@ export async function DELETE(request: NextRequest) {
     console.error('[Shopping Agent] Error in DELETE /tasks:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -1,6 +1,13 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
+import { revokeToken } from '@/lib/services/token-manager';
+
+export const POST = withAuth(async (_request: NextRequest, auth) => {
+  const result = await revokeToken(auth.email, 'slack');
+  if (!result.success) {
+    console.error(`[Slack] Failed to revoke token: ${result.error}`);
+  }
 
-export async function POST() {
   const response = NextResponse.json({ success: true });
 
   // Clear all Slack cookies
@@ -9,4 +16,4 @@ export async function POST() {
   response.cookies.delete('slack_team');
 
   return response;
-}
+});
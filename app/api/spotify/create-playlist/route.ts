@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { getAccessToken } from '@/lib/services/token-manager';
 import { createClient } from '@supabase/supabase-js';
 
@@ -48,14 +49,11 @@ const MOOD_CONFIGS: Record<string, {
   },
 };
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
-    const { email, userCode, name, mood, duration = 60 } = body;
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
+    const { userCode, name, mood, duration = 60 } = body;
+    const email = auth.email;
 
     if (!mood || !MOOD_CONFIGS[mood]) {
       return NextResponse.json(
@@ -221,7 +219,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { internal: true });
 
 export async function OPTIONS() {
   return new NextResponse(null, {
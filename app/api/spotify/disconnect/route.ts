@@ -1,21 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
+import { withAuth } from '@/lib/middleware';
 import { revokeToken } from '@/lib/services/token-manager';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (_request: NextRequest, auth) => {
   try {
     const cookieStore = await cookies();
-    const userEmail = cookieStore.get('user_email')?.value;
-    const userCode = cookieStore.get('user_code')?.value;
 
     // Revoke token in database
-    if (userEmail) {
-      const result = await revokeToken(userEmail, 'spotify', userCode);
-      if (result.success) {
-        console.log(`[Spotify] Token revoked for ${userEmail}`);
-      } else {
-        console.error(`[Spotify] Failed to revoke token:`, result.error);
-      }
+    const result = await revokeToken(auth.email, 'spotify');
+    if (result.success) {
+      console.log(`[Spotify] Token revoked for ${auth.email}`);
+    } else {
+      console.error(`[Spotify] Failed to revoke token:`, result.error);
     }
 
     // Clear cookies
@@ -47,7 +44,7 @@ export async function POST(request: NextRequest) {
       }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, {
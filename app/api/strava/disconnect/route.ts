@@ -1,10 +1,17 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
+import { withAuth } from '@/lib/middleware';
+import { revokeToken } from '@/lib/services/token-manager';
 
-export async function POST() {
+export const POST = withAuth(async (_request: NextRequest, auth) => {
   try {
     const cookieStore = await cookies();
 
+    const result = await revokeToken(auth.email, 'strava');
+    if (!result.success) {
+      console.error(`[Strava] Failed to revoke token: ${result.error}`);
+    }
+
     // Remove all Strava-related cookies
     cookieStore.delete('strava_access_token');
     cookieStore.delete('strava_refresh_token');
@@ -23,4 +30,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+});
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { getAccessToken } from '@/lib/services/token-manager';
 import { createClient } from '@/lib/supabase/server';
 
@@ -180,13 +181,9 @@ function analyzeWorkoutPatterns(workouts: ProcessedWorkout[], totalDays: number)
  *
  * Fetch workout data from Strava and analyze training patterns
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { email } = await request.json();
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
+    const email = auth.email;
 
     console.log(`[Strava Fetch] Starting data fetch for ${email}`);
 
@@ -346,7 +343,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { internal: true });
 
 /**
  * GET endpoint (legacy support)
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { cookies } from 'next/headers';
 import { createAdminClient } from '@/lib/supabase/server';
 import { runHealthAnalysis } from '@/lib/services/health-pattern-analyzer';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const cookieStore = await cookies();
     const accessToken = cookieStore.get('strava_access_token')?.value;
@@ -18,17 +19,10 @@ export async function POST(request: NextRequest) {
 
     // Get parameters from request
     const body = await request.json();
-    const email = body.email;
+    const email = auth.email;
     const page = body.page || 1;
     const perPage = body.perPage || 30;
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400 }
-      );
-    }
-
     console.log(`[Strava] Syncing activities for athlete ${athleteId}`);
 
     // Fetch athlete's activities
@@ -167,7 +161,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { internal: true });
 
 // Handle token refresh if access token expires
 async function refreshAccessToken(refreshToken: string): Promise<string | null> {
@@ -3,14 +3,19 @@
  * POST /api/supplements/match
  *
  * Takes AI-generated supplement recommendations and enriches them with
- * actual product data (pricing, availability, etc.)
+ * actual product data (pricing, availability, etc.) and checks them as a
+ * stack against the signed-in user's supplements, medications and blood
+ * results (anonymous callers' recommendations are only checked against each
+ * other)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { resolveAuthContext } from '@/lib/middleware';
 import {
   matchSupplementsToProducts,
   type SupplementRecommendation,
 } from '@/lib/services/supplement-matching';
+import { annotateRecommendations } from '@/lib/services/supplement-safety';
 
 export async function POST(request: NextRequest) {
   try {
@@ -26,9 +31,12 @@ export async function POST(request: NextRequest) {
 
     console.log(`[Supplement Match API] Matching ${recommendations.length} recommendations...`);
 
-    const enrichedRecommendations = await matchSupplementsToProducts(
+    const matched = await matchSupplementsToProducts(
       recommendations as SupplementRecommendation[]
     );
+    // Only the caller's own stack is read; a named email must be theirs
+    const auth = await resolveAuthContext(request, { internal: true });
+    const enrichedRecommendations = await annotateRecommendations(auth.allowed ? auth.email : null, matched);
 
     const matchedCount = enrichedRecommendations.filter(
       (r) => r.matchStatus === 'matched'
@@ -44,6 +52,7 @@ export async function POST(request: NextRequest) {
         matched: enrichedRecommendations.filter((r) => r.matchStatus === 'matched').length,
         noMatch: enrichedRecommendations.filter((r) => r.matchStatus === 'no_match').length,
         outOfStock: enrichedRecommendations.filter((r) => r.matchStatus === 'out_of_stock').length,
+        blocked: enrichedRecommendations.filter((r) => r.matchStatus === 'blocked').length,
       },
     });
   } catch (error) {
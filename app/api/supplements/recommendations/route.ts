@@ -0,0 +1,57 @@
+/**
+ * Supplement Recommendations API
+ *
+ * GET /api/supplements/recommendations - Catalog products for the user's biomarker needs
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { supplementRecommendationsQuerySchema, validateQuery, formatZodError } from '@/lib/validation/schemas';
+import { getBiomarkerNeeds, recommendForNeeds } from '@/lib/services/supplement-catalog';
+
+const logger = createLogger('SupplementRecommendationsAPI');
+
+/**
+ * GET /api/supplements/recommendations
+ *
+ * Query params:
+ * - budget (optional): low | medium | high per-day cost, default medium
+ * - dosage_form (optional): Preferred form, e.g. "capsule"
+ */
+export const GET = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const searchParams = new URLSearchParams(request.nextUrl.searchParams);
+    searchParams.set('email', auth.email);
+    const validation = validateQuery(searchParams, supplementRecommendationsQuerySchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, budget, dosage_form } = validation.data;
+    const needs = await getBiomarkerNeeds(email);
+    const result = await recommendForNeeds(needs, { budget, dosageForm: dosage_form, email });
+
+    return NextResponse.json({
+      success: true,
+      recommendations: result.recommendations.map((r) => ({
+        forDeficiency: r.forDeficiency,
+        severity: r.severity,
+        priority: r.priority,
+        recommended: r.recommended.product,
+        alternatives: r.alternatives.map((a) => a.product),
+        safetyWarnings: r.warnings,
+      })),
+      deficiencyCount: needs.length,
+      noProductFor: result.unmatched,
+      notRecommended: result.blocked,
+      estimatedMonthlyCost: result.estimatedMonthlyCost,
+    });
+  } catch (error) {
+    logger.error('Error building supplement recommendations', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}, { internal: true });
@@ -0,0 +1,63 @@
+/**
+ * Supplement Catalog Search API
+ *
+ * GET /api/supplements/search?query=xxx&deficiency=xxx - Search the product catalog
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { supplementSearchQuerySchema, validateQuery, formatZodError } from '@/lib/validation/schemas';
+import { getBiomarkerNeeds, searchCatalog } from '@/lib/services/supplement-catalog';
+
+const logger = createLogger('SupplementSearchAPI');
+
+/**
+ * GET /api/supplements/search
+ *
+ * Results are ranked by the user's biomarker needs.
+ *
+ * Query params:
+ * - query (optional): Name, brand or description text
+ * - deficiency (optional): e.g. "vitamin_d" or "ferritin"
+ * - dosage_form (optional): Preferred form, e.g. "capsule"
+ * - max_price (optional): Maximum package price
+ * - max_per_day_price (optional): Maximum price per day of use
+ * - sort (optional): relevance | per_day_price | price_low | price_high
+ * - limit (optional): Max results, default 10
+ */
+export const GET = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const searchParams = new URLSearchParams(request.nextUrl.searchParams);
+    searchParams.set('email', auth.email);
+    const validation = validateQuery(searchParams, supplementSearchQuerySchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, query, deficiency, dosage_form, max_price, max_per_day_price, sort, limit } = validation.data;
+    const needs = await getBiomarkerNeeds(email);
+
+    const results = await searchCatalog({
+      query,
+      deficiency,
+      dosageForm: dosage_form,
+      maxPrice: max_price,
+      maxPerDayPrice: max_per_day_price,
+      sort,
+      limit,
+    }, needs);
+
+    return NextResponse.json({
+      success: true,
+      products: results.map((r) => ({ ...r.product, relevance: r.score, addressesNeeds: r.addresses })),
+      total: results.length,
+    });
+  } catch (error) {
+    logger.error('Error searching supplement catalog', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}, { internal: true });
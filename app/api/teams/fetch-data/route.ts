@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { getAccessToken } from '@/lib/services/token-manager';
 import { createClient, createAdminClient } from '@/lib/supabase/server';
 import type { SlackPatterns } from '@/lib/services/ecosystem-fetcher';
@@ -288,13 +289,10 @@ function generateInsights(patterns: Omit<TeamsPatterns, 'insights'>): string[] {
 /**
  * POST endpoint to fetch and analyze Microsoft Teams chat data
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
-    const { email, code } = await request.json();
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
+    const { code } = await request.json();
+    const email = auth.email;
 
     console.log(`[Teams Fetch] Starting data fetch for ${email}`);
 
@@ -582,7 +580,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { internal: true });
 
 /**
  * GET endpoint (legacy support) - redirects to use POST
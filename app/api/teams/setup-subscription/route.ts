@@ -7,6 +7,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 import { getAccessToken } from '@/lib/services/token-manager';
 import crypto from 'crypto';
@@ -21,13 +22,10 @@ const SUBSCRIPTION_LIFETIME_MINUTES = 4200;
  *
  * Creates a webhook subscription for Teams chat messages
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
-    const { email, code } = await request.json();
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email required' }, { status: 400 });
-    }
+    const { code } = await request.json();
+    const email = auth.email;
 
     // Get user's Teams access token
     const { token, error: tokenError } = await getAccessToken(email, 'teams', code);
@@ -171,21 +169,16 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { internal: true });
 
 /**
  * GET /api/teams/setup-subscription
  *
  * Check subscription status
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email required' }, { status: 400 });
-    }
+    const email = auth.email;
 
     const supabase = createAdminClient();
 
@@ -217,20 +210,16 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * DELETE /api/teams/setup-subscription
  *
  * Remove subscription
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { email } = await request.json();
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email required' }, { status: 400 });
-    }
+    const email = auth.email;
 
     const supabase = createAdminClient();
 
@@ -274,4 +263,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
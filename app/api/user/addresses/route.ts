@@ -4,22 +4,15 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@/lib/supabase/server';
 
 /**
  * GET - Get all addresses for a user
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json(
-        { success: false, error: 'Email is required' },
-        { status: 400 }
-      );
-    }
+    const { email } = auth;
 
     const supabase = await createClient();
 
@@ -53,16 +46,16 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST - Add a new address
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
+    const { email } = auth;
     const body = await request.json();
     const {
-      email,
       fullName,
       addressLine1,
       addressLine2,
@@ -75,7 +68,7 @@ export async function POST(request: NextRequest) {
     } = body;
 
     // Validation
-    if (!email || !fullName || !addressLine1 || !city || !stateProvince || !postalCode) {
+    if (!fullName || !addressLine1 || !city || !stateProvince || !postalCode) {
       return NextResponse.json(
         { success: false, error: 'Missing required fields' },
         { status: 400 }
@@ -124,17 +117,17 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PUT - Update an address
  */
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth(async (request: NextRequest, auth) => {
   try {
+    const { email } = auth;
     const body = await request.json();
     const {
       id,
-      email,
       fullName,
       addressLine1,
       addressLine2,
@@ -146,9 +139,9 @@ export async function PUT(request: NextRequest) {
       isDefault,
     } = body;
 
-    if (!id || !email) {
+    if (!id) {
       return NextResponse.json(
-        { success: false, error: 'Address ID and email are required' },
+        { success: false, error: 'Address ID is required' },
         { status: 400 }
       );
     }
@@ -197,20 +190,20 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * DELETE - Delete an address
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
-    const email = searchParams.get('email');
+    const { email } = auth;
 
-    if (!id || !email) {
+    if (!id) {
       return NextResponse.json(
-        { success: false, error: 'Address ID and email are required' },
+        { success: false, error: 'Address ID is required' },
         { status: 400 }
       );
     }
@@ -246,4 +239,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
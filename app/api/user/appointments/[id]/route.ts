@@ -0,0 +1,82 @@
+/**
+ * Appointment API
+ *
+ * GET /api/user/appointments/:id - Get an appointment
+ * DELETE /api/user/appointments/:id - Cancel an appointment with the provider
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { cancelAppointmentSchema, validateQuery, formatZodError } from '@/lib/validation/schemas';
+import { BookingError, cancelAppointment, getAppointment } from '@/lib/services/provider-directory';
+
+const logger = createLogger('AppointmentDetailAPI');
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/user/appointments/:id
+ *
+ * Query params:
+ * - email (optional): A sharer's email, for caregivers they share appointments with
+ */
+export const GET = withAuth<RouteContext>(async (_request: NextRequest, auth, context) => {
+  try {
+    const { id } = await context.params;
+    const { email } = auth;
+
+    const appointment = await getAppointment(email, id);
+    if (!appointment) {
+      return NextResponse.json({ error: 'Appointment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, appointment });
+  } catch (error) {
+    logger.error('Error fetching appointment', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}, { delegation: { permission: 'share_appointments' } });
+
+/**
+ * DELETE /api/user/appointments/:id
+ *
+ * Query params:
+ * - reason (optional): Reason for cancelling
+ *
+ * Cancels with the provider and removes the calendar event. The appointment
+ * is kept with status cancelled.
+ */
+export const DELETE = withAuth<RouteContext>(async (request: NextRequest, auth, context) => {
+  try {
+    const { id } = await context.params;
+    const searchParams = new URLSearchParams(request.nextUrl.searchParams);
+    searchParams.set('email', auth.email);
+    const validation = validateQuery(searchParams, cancelAppointmentSchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, reason } = validation.data;
+    const appointment = await cancelAppointment(email, id, { reason });
+    if (!appointment) {
+      return NextResponse.json({ error: 'Appointment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, appointment });
+  } catch (error) {
+    if (error instanceof BookingError) {
+      return NextResponse.json({ error: error.message, reason: error.reason }, { status: error.status });
+    }
+    logger.error('Error cancelling appointment', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,98 @@
+/**
+ * Appointments API
+ *
+ * GET /api/user/appointments - List the user's appointments
+ * POST /api/user/appointments - Book an appointment with a provider
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import {
+  appointmentsQuerySchema,
+  bookAppointmentSchema,
+  validateBody,
+  validateQuery,
+  formatZodError,
+} from '@/lib/validation/schemas';
+import { BookingError, bookAppointment, listAppointments } from '@/lib/services/provider-directory';
+
+const logger = createLogger('AppointmentsAPI');
+
+/**
+ * GET /api/user/appointments
+ *
+ * Query params:
+ * - email (optional): A sharer's email, for caregivers they share appointments with
+ * - upcoming (optional): "true" for future appointments only
+ */
+export const GET = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const searchParams = new URLSearchParams(request.nextUrl.searchParams);
+    searchParams.set('email', auth.email);
+    const validation = validateQuery(searchParams, appointmentsQuerySchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, upcoming } = validation.data;
+    const appointments = await listAppointments(email, { upcoming });
+
+    return NextResponse.json({ success: true, appointments });
+  } catch (error) {
+    logger.error('Error fetching appointments', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}, { delegation: { permission: 'share_appointments' } });
+
+/**
+ * POST /api/user/appointments
+ *
+ * Body:
+ * - provider_id (required): Provider from GET /api/user/providers
+ * - appointment_type (required): e.g. "consultation"
+ * - slot_id (optional): Slot from GET /api/user/providers/:id/slots
+ * - preferred_date (optional): Without a slot, book the first opening from this ISO time
+ * - preferred_time (optional): morning | afternoon | any
+ * - reason (optional): Reason for the visit
+ *
+ * The appointment is added to the user's Google Calendar when connected.
+ */
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const body = await request.json();
+    const validation = validateBody({ ...body, email: auth.email }, bookAppointmentSchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, provider_id, slot_id, preferred_date, preferred_time, appointment_type, reason } = validation.data;
+    const result = await bookAppointment(email, {
+      providerId: provider_id,
+      slotId: slot_id,
+      preferredStart: preferred_date ? new Date(preferred_date) : undefined,
+      preferredTime: preferred_time,
+      appointmentType: appointment_type,
+      reason,
+    });
+
+    return NextResponse.json({
+      success: true,
+      appointment: result.appointment,
+      provider: result.provider,
+      calendar_synced: result.calendarSynced,
+    });
+  } catch (error) {
+    if (error instanceof BookingError) {
+      return NextResponse.json({ error: error.message, reason: error.reason }, { status: error.status });
+    }
+    logger.error('Error booking appointment', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}, { internal: true });
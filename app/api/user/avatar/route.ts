@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 
 const BUCKET_NAME = 'avatars';
@@ -48,19 +49,24 @@ function inferMimeType(filename: string): string | null {
 }
 
 /**
- * POST - Upload avatar image
+ * POST - Upload the signed-in user's avatar image
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     console.log('[Avatar] ========== NEW UPLOAD REQUEST ==========');
 
     const formData = await request.formData();
     const file = formData.get('file') as File | null;
-    const userId = formData.get('user_id') as string | null;
+    const requestedUserId = formData.get('user_id') as string | null;
+    const userId = auth.principal.userId;
 
     console.log('[Avatar] FormData keys:', Array.from(formData.keys()));
     console.log('[Avatar] user_id:', userId);
 
+    if (requestedUserId && requestedUserId !== userId) {
+      return NextResponse.json({ error: 'user_id does not match the signed-in user' }, { status: 403 });
+    }
+
     if (!file) {
       console.log('[Avatar] ERROR: No file provided');
       return NextResponse.json({ error: 'No file provided' }, { status: 400 });
@@ -73,11 +79,6 @@ export async function POST(request: NextRequest) {
       lastModified: file.lastModified,
     });
 
-    if (!userId) {
-      console.log('[Avatar] ERROR: No user_id provided');
-      return NextResponse.json({ error: 'user_id is required' }, { status: 400 });
-    }
-
     // Determine file type - use provided type, or infer from extension
     let fileType = file.type;
     if (!fileType || fileType === 'application/octet-stream') {
@@ -181,18 +182,19 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
- * DELETE - Remove avatar image
+ * DELETE - Remove the signed-in user's avatar image
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('user_id');
+    const requestedUserId = searchParams.get('user_id');
+    const userId = auth.principal.userId;
 
-    if (!userId) {
-      return NextResponse.json({ error: 'user_id is required' }, { status: 400 });
+    if (requestedUserId && requestedUserId !== userId) {
+      return NextResponse.json({ error: 'user_id does not match the signed-in user' }, { status: 403 });
     }
 
     console.log(`[Avatar] Removing avatar for user ${userId}`);
@@ -235,4 +237,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
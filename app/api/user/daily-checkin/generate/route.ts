@@ -1,7 +1,7 @@
 /**
  * Generate AI-Powered Daily Check-in Questions
  *
- * GET /api/user/daily-checkin/generate?email=xxx
+ * GET /api/user/daily-checkin/generate
  *
  * Generates personalized check-in questions based on:
  * - User's health data context
@@ -12,6 +12,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 import OpenAI from 'openai';
 
@@ -34,19 +35,12 @@ interface CheckInQuestion {
   }[];
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
+    const { email } = auth;
     const date = searchParams.get('date') || new Date().toISOString().substring(0, 10);
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
     const supabase = createAdminClient();
 
     // Check if we already generated a question for today
@@ -99,7 +93,7 @@ export async function GET(request: NextRequest) {
       fallback: true,
     }, { headers: corsHeaders });
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
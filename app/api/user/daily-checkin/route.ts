@@ -10,6 +10,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 
 const corsHeaders = {
@@ -22,14 +23,15 @@ const corsHeaders = {
  * POST /api/user/daily-checkin
  * Store a daily check-in response
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
+    const { email } = auth;
     const body = await request.json();
-    const { email, question, questionId, category, selectedOption, selectedText, learnedFact, date } = body;
+    const { question, questionId, category, selectedOption, selectedText, learnedFact, date } = body;
 
-    if (!email || !question || !selectedOption || !date) {
+    if (!question || !selectedOption || !date) {
       return NextResponse.json(
-        { error: 'email, question, selectedOption, and date are required' },
+        { error: 'question, selectedOption, and date are required' },
         { status: 400, headers: corsHeaders }
       );
     }
@@ -95,26 +97,19 @@ export async function POST(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 /**
  * GET /api/user/daily-checkin
  * Get user's check-in history or check if completed for a specific date
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const email = searchParams.get('email');
+    const { email } = auth;
     const date = searchParams.get('date'); // Optional: check specific date
     const limit = parseInt(searchParams.get('limit') || '30');
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'email is required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
     const supabase = createAdminClient();
 
     // If date is provided, check if user has completed check-in for that date
@@ -175,7 +170,7 @@ export async function GET(request: NextRequest) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, { status: 200, headers: corsHeaders });
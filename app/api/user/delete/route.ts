@@ -4,20 +4,22 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 
 /**
- * DELETE - Delete user account and all associated data
+ * DELETE - Delete the signed-in user's account and all associated data
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('user_id');
+    const userId = auth.principal.userId;
+    const requestedUserId = searchParams.get('user_id');
 
-    if (!userId) {
+    if (requestedUserId && requestedUserId !== userId) {
       return NextResponse.json(
-        { success: false, error: 'User ID is required' },
-        { status: 400 }
+        { success: false, error: 'User ID does not match the signed-in user' },
+        { status: 403 }
       );
     }
 
@@ -170,7 +172,7 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // Also support OPTIONS for CORS preflight
 export async function OPTIONS() {
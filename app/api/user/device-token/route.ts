@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
 import {
   registerDeviceTokenSchema,
   unregisterDeviceTokenSchema,
@@ -17,17 +18,16 @@ const logger = createLogger('DeviceTokenAPI');
  * Register a device token for push notifications
  *
  * Body:
- * - email (required): User email
  * - device_token (required): FCM or OneSignal device token
  * - platform (required): 'ios' or 'android'
  * - provider (optional): 'fcm' or 'onesignal' (defaults to 'fcm')
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
 
     // Validate request body
-    const validation = validateBody(body, registerDeviceTokenSchema);
+    const validation = validateBody({ ...body, email: auth.email }, registerDeviceTokenSchema);
     if (!validation.success) {
       return NextResponse.json(formatZodError(validation.error), { status: 400 });
     }
@@ -73,22 +73,21 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * DELETE /api/user/device-token
  * Unregister a device token (e.g., on logout)
  *
  * Body:
- * - email (required): User email
  * - device_token (required): FCM device token to remove
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
 
     // Validate request body
-    const validation = validateBody(body, unregisterDeviceTokenSchema);
+    const validation = validateBody({ ...body, email: auth.email }, unregisterDeviceTokenSchema);
     if (!validation.success) {
       return NextResponse.json(formatZodError(validation.error), { status: 400 });
     }
@@ -122,18 +121,16 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * GET /api/user/device-token
  * Get device tokens for a user (for debugging)
- *
- * Query params:
- * - email (required): User email
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
-    const searchParams = request.nextUrl.searchParams;
+    const searchParams = new URLSearchParams(request.nextUrl.searchParams);
+    searchParams.set('email', auth.email);
 
     // Validate query parameters
     const validation = validateQuery(searchParams, deviceTokenQuerySchema);
@@ -167,4 +164,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
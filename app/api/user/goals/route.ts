@@ -6,6 +6,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import {
   createGoal,
   getGoals,
@@ -29,7 +30,6 @@ import { generateGoalSuggestions, getSuggestionForInsight } from '@/lib/services
  * GET /api/user/goals
  *
  * Query params:
- * - email (required): User's email
  * - status: Filter by status (active, completed, paused, abandoned)
  * - category: Filter by category
  * - insight_category: Get goals relevant to an insight category
@@ -43,10 +43,10 @@ import { generateGoalSuggestions, getSuggestionForInsight } from '@/lib/services
  * - suggestion_insight_id: If provided with suggestions, link suggestion to this insight
  * - limit: Max number of goals to return
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const { email } = auth;
     const status = searchParams.get('status') as GoalStatus | null;
     const category = searchParams.get('category') as GoalCategory | null;
     const insightCategory = searchParams.get('insight_category');
@@ -58,7 +58,7 @@ export async function GET(request: NextRequest) {
     const shouldSync = searchParams.get('sync') === 'true';
 
     // Return current health metric values
-    if (getMetricsValues && email) {
+    if (getMetricsValues) {
       const currentMetrics = await getCurrentMetrics(email);
       return NextResponse.json({
         success: true,
@@ -71,7 +71,7 @@ export async function GET(request: NextRequest) {
     const suggestionCategory = searchParams.get('suggestion_category');
     const suggestionInsightId = searchParams.get('suggestion_insight_id');
 
-    if (getSuggestions && email) {
+    if (getSuggestions) {
       try {
         let suggestions;
         if (suggestionInsightId && suggestionCategory) {
@@ -124,13 +124,6 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400 }
-      );
-    }
-
     // Return context for AI prompt injection
     if (getContext) {
       const context = await buildGoalsContext(email);
@@ -181,31 +174,35 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/user/goals
  *
  * Body:
  * - action: 'create' | 'update' | 'delete'
- * - email: User's email (for create)
  * - goalId: Goal ID (for update/delete)
  * - ...goal fields (for create/update)
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
+    const { email } = auth;
     const body = await request.json();
-    const { action, email, goalId, ...data } = body;
+    const { action, goalId, ...data } = body;
+
+    // Goals can only be changed by their owner
+    if (goalId) {
+      const goal = await getGoal(goalId);
+      if (!goal || goal.email !== email) {
+        return NextResponse.json(
+          { error: 'Goal not found' },
+          { status: 404 }
+        );
+      }
+    }
 
     switch (action) {
       case 'create': {
-        if (!email) {
-          return NextResponse.json(
-            { error: 'Email is required' },
-            { status: 400 }
-          );
-        }
-
         if (!data.title || !data.category || data.targetValue === undefined) {
           return NextResponse.json(
             { error: 'title, category, and targetValue are required' },
@@ -315,7 +312,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, {
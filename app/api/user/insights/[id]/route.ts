@@ -1,6 +1,17 @@
+/**
+ * Insight Detail API
+ *
+ * GET    /api/user/insights/:id - Get one insight
+ * PATCH  /api/user/insights/:id - Mark viewed, dismissed or acted on
+ * DELETE /api/user/insights/:id - Dismiss an insight
+ *
+ * Insights belonging to anyone else are not found.
+ */
+
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
 import { uuidSchema, patchInsightSchema, validateBody, formatZodError } from '@/lib/validation/schemas';
 
 const logger = createLogger('InsightDetailAPI');
@@ -13,7 +24,7 @@ interface RouteContext {
  * GET /api/user/insights/:id
  * Get a single insight by ID
  */
-export async function GET(request: NextRequest, context: RouteContext) {
+export const GET = withAuth<RouteContext>(async (_request: NextRequest, auth, context) => {
   try {
     const { id } = await context.params;
 
@@ -32,7 +43,8 @@ export async function GET(request: NextRequest, context: RouteContext) {
       .from('real_time_insights')
       .select('*')
       .eq('id', id)
-      .single();
+      .eq('email', auth.email)
+      .maybeSingle();
 
     if (error) {
       logger.error('Error fetching insight', error, { id });
@@ -54,7 +66,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PATCH /api/user/insights/:id
@@ -66,7 +78,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
  * - acted_on: boolean - Mark action taken
  * - action_taken: string - Description of action taken
  */
-export async function PATCH(request: NextRequest, context: RouteContext) {
+export const PATCH = withAuth<RouteContext>(async (request: NextRequest, auth, context) => {
   try {
     const { id } = await context.params;
 
@@ -116,14 +128,19 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       .from('real_time_insights')
       .update(updateData)
       .eq('id', id)
+      .eq('email', auth.email)
       .select()
-      .single();
+      .maybeSingle();
 
     if (error) {
       logger.error('Error updating insight', error, { id });
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
+    if (!data) {
+      return NextResponse.json({ error: 'Insight not found' }, { status: 404 });
+    }
+
     logger.info('Insight updated', { id, viewed, dismissed, acted_on });
 
     return NextResponse.json({
@@ -137,13 +154,13 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * DELETE /api/user/insights/:id
  * Delete an insight (soft delete by dismissing)
  */
-export async function DELETE(request: NextRequest, context: RouteContext) {
+export const DELETE = withAuth<RouteContext>(async (_request: NextRequest, auth, context) => {
   try {
     const { id } = await context.params;
 
@@ -165,14 +182,19 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
         updated_at: new Date().toISOString(),
       })
       .eq('id', id)
+      .eq('email', auth.email)
       .select()
-      .single();
+      .maybeSingle();
 
     if (error) {
       logger.error('Error dismissing insight', error, { id });
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
+    if (!data) {
+      return NextResponse.json({ error: 'Insight not found' }, { status: 404 });
+    }
+
     logger.info('Insight dismissed', { id });
 
     return NextResponse.json({
@@ -187,4 +209,4 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient, createAdminClient } from '@/lib/supabase/server';
 import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
 import { insightRequestSchema, validateQuery, formatZodError } from '@/lib/validation/schemas';
 import { getCachedInsights, cacheInsights } from '@/lib/services/cache-service';
 
@@ -30,7 +31,6 @@ interface PaginatedInsightsResponse {
  * Fetch paginated insights for a user
  *
  * Query params:
- * - email (required): User email
  * - page (optional): Page number, default 1
  * - pageSize (optional): Results per page, default 20, max 50
  * - severity (optional): Filter by severity (comma-separated)
@@ -38,11 +38,12 @@ interface PaginatedInsightsResponse {
  * - unread_only (optional): Only return unread insights
  * - since (optional): Only return insights created after this timestamp (ISO 8601)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   const startTime = Date.now();
 
   try {
-    const searchParams = request.nextUrl.searchParams;
+    const searchParams = new URLSearchParams(request.nextUrl.searchParams);
+    searchParams.set('email', auth.email);
 
     // Validate query parameters
     const validation = validateQuery(searchParams, insightRequestSchema);
@@ -178,26 +179,22 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/user/insights
  * Manually trigger insight generation for a user
  *
  * Body:
- * - email (required): User email
  * - forceRefresh (optional): Force regeneration even if cached
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   const startTime = Date.now();
 
   try {
+    const { email } = auth;
     const body = await request.json();
-    const { email, forceRefresh } = body;
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
+    const { forceRefresh } = body;
 
     logger.info('Triggering insight generation', { email, forceRefresh });
 
@@ -233,4 +230,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
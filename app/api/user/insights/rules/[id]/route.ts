@@ -0,0 +1,126 @@
+/**
+ * Custom Insight Rule API
+ *
+ * GET /api/user/insights/rules/:id - Get a rule and evaluate it against current data
+ * PATCH /api/user/insights/rules/:id - Update a rule
+ * DELETE /api/user/insights/rules/:id - Delete a rule
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { uuidSchema, updateInsightRuleSchema, validateBody, formatZodError } from '@/lib/validation/schemas';
+import {
+  getCustomRule,
+  updateCustomRule,
+  deleteCustomRule,
+  describeRuleCondition,
+  previewRuleCondition,
+} from '@/lib/services/custom-insight-rules';
+
+const logger = createLogger('InsightRuleDetailAPI');
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/user/insights/rules/:id
+ */
+export const GET = withAuth<RouteContext>(async (_request: NextRequest, auth, context) => {
+  try {
+    const { id } = await context.params;
+    const { email } = auth;
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json({ error: 'Invalid rule ID format' }, { status: 400 });
+    }
+
+    const rule = await getCustomRule(email, id);
+    if (!rule) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    const preview = await previewRuleCondition(email, rule.condition);
+
+    return NextResponse.json({
+      success: true,
+      rule: { ...rule, summary: describeRuleCondition(rule.condition) },
+      preview,
+    });
+  } catch (error) {
+    logger.error('Error fetching insight rule', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PATCH /api/user/insights/rules/:id
+ *
+ * Body:
+ * - name, description, condition, severity, message, enabled, cooldown_hours
+ *   (at least one required)
+ */
+export const PATCH = withAuth<RouteContext>(async (request: NextRequest, auth, context) => {
+  try {
+    const { id } = await context.params;
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json({ error: 'Invalid rule ID format' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateBody({ ...body, email: auth.email }, updateInsightRuleSchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, ...updates } = validation.data;
+    const rule = await updateCustomRule(email, id, updates);
+    if (!rule) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    logger.info('Insight rule updated', { email, ruleId: id });
+
+    return NextResponse.json({
+      success: true,
+      rule: { ...rule, summary: describeRuleCondition(rule.condition) },
+    });
+  } catch (error) {
+    logger.error('Error updating insight rule', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/user/insights/rules/:id
+ */
+export const DELETE = withAuth<RouteContext>(async (_request: NextRequest, auth, context) => {
+  try {
+    const { id } = await context.params;
+    const { email } = auth;
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json({ error: 'Invalid rule ID format' }, { status: 400 });
+    }
+
+    const deleted = await deleteCustomRule(email, id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    logger.info('Insight rule deleted', { email, ruleId: id });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Error deleting insight rule', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
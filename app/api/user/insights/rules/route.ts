@@ -0,0 +1,82 @@
+/**
+ * Custom Insight Rules API
+ *
+ * GET /api/user/insights/rules - List the user's rules
+ * POST /api/user/insights/rules - Create a rule
+ *
+ * Rules are evaluated by the sync cron against unified_health_daily; see
+ * lib/services/custom-insight-rules for the condition format.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { createInsightRuleSchema, validateBody, formatZodError } from '@/lib/validation/schemas';
+import {
+  listCustomRules,
+  createCustomRule,
+  describeRuleCondition,
+  previewRuleCondition,
+} from '@/lib/services/custom-insight-rules';
+
+const logger = createLogger('InsightRulesAPI');
+
+/**
+ * GET /api/user/insights/rules
+ */
+export const GET = withAuth(async (_request: NextRequest, auth) => {
+  try {
+    const { email } = auth;
+    const rules = await listCustomRules(email);
+
+    return NextResponse.json({
+      success: true,
+      rules: rules.map((rule) => ({ ...rule, summary: describeRuleCondition(rule.condition) })),
+    });
+  } catch (error) {
+    logger.error('Error listing insight rules', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/user/insights/rules
+ *
+ * Body:
+ * - name (required): Rule name, used as the notification title
+ * - condition (required): Metric condition or all/any combination
+ * - severity (optional): critical | high | medium | low, default medium
+ * - description, message, enabled, cooldown_hours (optional)
+ *
+ * The response includes an evaluation of the new rule against current data.
+ */
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const body = await request.json();
+    const validation = validateBody({ ...body, email: auth.email }, createInsightRuleSchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, ...input } = validation.data;
+    const rule = await createCustomRule(email, input);
+    const preview = await previewRuleCondition(email, rule.condition);
+
+    logger.info('Insight rule created', { email, ruleId: rule.id, matchesNow: preview.matched });
+
+    return NextResponse.json({
+      success: true,
+      rule: { ...rule, summary: describeRuleCondition(rule.condition) },
+      preview,
+    });
+  } catch (error) {
+    logger.error('Error creating insight rule', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -6,6 +6,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import {
   logInterventionSuggestion,
   markInterventionStarted,
@@ -24,28 +25,20 @@ import {
  * Fetch user's intervention experiments
  *
  * Query params:
- * - email: User email (required)
  * - status: Filter by status (optional)
  * - limit: Max results (optional, default 20)
  * - successful_only: Only return successful interventions (optional)
  * - pending_evaluation: Only return interventions ready for evaluation (optional)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, auth) => {
   try {
     const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
+    const { email } = auth;
     const status = searchParams.get('status') as 'SUGGESTED' | 'ONGOING' | 'COMPLETED' | 'ABANDONED' | null;
     const limit = parseInt(searchParams.get('limit') || '20');
     const successfulOnly = searchParams.get('successful_only') === 'true';
     const pendingEvaluation = searchParams.get('pending_evaluation') === 'true';
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400 }
-      );
-    }
-
     // Handle special queries
     if (successfulOnly) {
       const successful = await getSuccessfulInterventions(email, limit);
@@ -83,7 +76,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/user/interventions
@@ -92,17 +85,17 @@ export async function GET(request: NextRequest) {
  *
  * Body:
  * - action: 'create' | 'start' | 'complete' | 'abandon'
- * - email: User email (required for create)
  * - insightId: Insight ID (optional for create)
  * - experimentId: Experiment ID (required for start/complete/abandon)
  * - intervention: InterventionSuggestion (required for create)
  * - outcome: InterventionOutcome (required for complete)
  * - reason: Abandon reason (optional for abandon)
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
+    const { email } = auth;
     const body = await request.json();
-    const { action, email, insightId, experimentId, intervention, outcome, reason } = body;
+    const { action, insightId, experimentId, intervention, outcome, reason } = body;
 
     if (!action) {
       return NextResponse.json(
@@ -113,9 +106,9 @@ export async function POST(request: NextRequest) {
 
     switch (action) {
       case 'create': {
-        if (!email || !intervention) {
+        if (!intervention) {
           return NextResponse.json(
-            { error: 'Email and intervention are required for create action' },
+            { error: 'intervention is required for create action' },
             { status: 400 }
           );
         }
@@ -243,7 +236,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * OPTIONS /api/user/interventions
@@ -9,10 +9,10 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { inferUserActivities, formatActivitySummary } from '@/lib/services/activity-inference-service';
 import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
 
 const logger = createLogger('LocationProfileAPI');
 
@@ -20,23 +20,11 @@ const logger = createLogger('LocationProfileAPI');
 // GET - Fetch user's location profile
 // ============================================================================
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const supabase = await createClient();
+    const { email } = auth;
 
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-
-    if (authError || !user?.email) {
-      return NextResponse.json(
-        { error: 'Unauthorized - must be logged in' },
-        { status: 401 }
-      );
-    }
-
-    logger.info('Fetching location profile', { email: user.email });
+    logger.info('Fetching location profile', { email });
 
     const adminClient = createAdminClient();
 
@@ -44,7 +32,7 @@ export async function GET(request: NextRequest) {
     const { data: profile, error: profileError } = await adminClient
       .from('user_location_profile')
       .select('*')
-      .eq('email', user.email)
+      .eq('email', email)
       .single();
 
     if (profileError && profileError.code !== 'PGRST116') {
@@ -74,7 +62,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       success: true,
       profile: profile || {
-        email: user.email,
+        email,
         city: null,
         neighborhood: null,
         home_latitude: null,
@@ -95,7 +83,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // ============================================================================
 // PUT - Update user's location profile
@@ -111,21 +99,9 @@ interface UpdateLocationProfileBody {
   preferredRadiusKm?: number;
 }
 
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth(async (request: NextRequest, auth) => {
   try {
-    const supabase = await createClient();
-
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-
-    if (authError || !user?.email) {
-      return NextResponse.json(
-        { error: 'Unauthorized - must be logged in' },
-        { status: 401 }
-      );
-    }
+    const { email } = auth;
 
     const body: UpdateLocationProfileBody = await request.json();
 
@@ -156,7 +132,7 @@ export async function PUT(request: NextRequest) {
     }
 
     logger.info('Updating location profile', {
-      email: user.email,
+      email,
       city: body.city,
       neighborhood: body.neighborhood,
     });
@@ -165,7 +141,7 @@ export async function PUT(request: NextRequest) {
 
     // Build update object
     const updateData: Record<string, unknown> = {
-      email: user.email,
+      email,
       updated_at: new Date().toISOString(),
     };
 
@@ -207,32 +183,20 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // ============================================================================
 // POST - Trigger activity inference
 // ============================================================================
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const supabase = await createClient();
+    const { email } = auth;
 
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-
-    if (authError || !user?.email) {
-      return NextResponse.json(
-        { error: 'Unauthorized - must be logged in' },
-        { status: 401 }
-      );
-    }
-
-    logger.info('Triggering activity inference', { email: user.email });
+    logger.info('Triggering activity inference', { email });
 
     // Run activity inference
-    const inference = await inferUserActivities(user.email);
+    const inference = await inferUserActivities(email);
 
     return NextResponse.json({
       success: true,
@@ -258,4 +222,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -12,16 +12,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
 
 const logger = createLogger('UserLocationAPI');
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
-    const { email, location, timezone, timezone_offset } = await request.json();
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
+    const { email } = auth;
+    const { location, timezone, timezone_offset } = await request.json();
 
     if (!location) {
       return NextResponse.json({ error: 'Location is required' }, { status: 400 });
@@ -109,16 +107,11 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-    }
+    const { email } = auth;
 
     const supabase = createAdminClient();
 
@@ -171,4 +164,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,138 @@
+/**
+ * Medication API
+ *
+ * GET /api/user/medications/:id - Get a medication with recent doses and compliance
+ * PATCH /api/user/medications/:id - Update a medication, its schedule or its supply
+ * DELETE /api/user/medications/:id - Delete a medication and its dose history
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { uuidSchema, updateMedicationSchema, validateBody, formatZodError } from '@/lib/validation/schemas';
+import {
+  getMedication,
+  updateMedication,
+  deleteMedication,
+  getDoses,
+  computeCompliance,
+  predictRefill,
+} from '@/lib/services/medications';
+
+const logger = createLogger('MedicationDetailAPI');
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/user/medications/:id
+ *
+ * Query params:
+ * - email (optional): A sharer's email, for caregivers they share medications with
+ *
+ * Includes the last 7 days of doses and their compliance.
+ */
+export const GET = withAuth<RouteContext>(async (_request: NextRequest, auth, context) => {
+  try {
+    const { id } = await context.params;
+    const { email } = auth;
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json({ error: 'Invalid medication ID format' }, { status: 400 });
+    }
+
+    const medication = await getMedication(email, id);
+    if (!medication) {
+      return NextResponse.json({ error: 'Medication not found' }, { status: 404 });
+    }
+
+    const now = new Date();
+    const doses = await getDoses(email, {
+      from: new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000),
+      to: new Date(now.getTime() + 24 * 60 * 60 * 1000),
+      medicationId: id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      medication: { ...medication, refill: predictRefill(medication, now) },
+      doses,
+      compliance: computeCompliance(doses, medication.missed_after_minutes),
+    });
+  } catch (error) {
+    logger.error('Error fetching medication', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}, { delegation: { permission: 'share_medication_list' } });
+
+/**
+ * PATCH /api/user/medications/:id
+ *
+ * Body:
+ * - Any medication field (at least one required). Raising supply_remaining
+ *   records a refill; is_active false stops the schedule.
+ */
+export const PATCH = withAuth<RouteContext>(async (request: NextRequest, auth, context) => {
+  try {
+    const { id } = await context.params;
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json({ error: 'Invalid medication ID format' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateBody({ ...body, email: auth.email }, updateMedicationSchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, ...updates } = validation.data;
+    const medication = await updateMedication(email, id, updates);
+    if (!medication) {
+      return NextResponse.json({ error: 'Medication not found' }, { status: 404 });
+    }
+
+    logger.info('Medication updated', { email, medicationId: id, fields: Object.keys(updates) });
+
+    return NextResponse.json({
+      success: true,
+      medication: { ...medication, refill: predictRefill(medication) },
+    });
+  } catch (error) {
+    logger.error('Error updating medication', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/user/medications/:id
+ */
+export const DELETE = withAuth<RouteContext>(async (_request: NextRequest, auth, context) => {
+  try {
+    const { id } = await context.params;
+    const { email } = auth;
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json({ error: 'Invalid medication ID format' }, { status: 400 });
+    }
+
+    const deleted = await deleteMedication(email, id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Medication not found' }, { status: 404 });
+    }
+
+    logger.info('Medication deleted', { email, medicationId: id });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Error deleting medication', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
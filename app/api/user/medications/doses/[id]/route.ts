@@ -0,0 +1,64 @@
+/**
+ * Medication Dose API
+ *
+ * PATCH /api/user/medications/doses/:id - Mark a scheduled dose taken or skipped
+ *
+ * Used by the taken/skip actions on dose reminder notifications, which carry
+ * the dose id as medication_log_id.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { uuidSchema, updateMedicationDoseSchema, validateBody, formatZodError } from '@/lib/validation/schemas';
+import { logDose } from '@/lib/services/medications';
+
+const logger = createLogger('MedicationDoseAPI');
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/user/medications/doses/:id
+ *
+ * Body:
+ * - status (required): taken | skipped
+ * - source (optional): push | app, default app
+ * - taken_at (optional): ISO timestamp, default now
+ * - notes (optional)
+ */
+export const PATCH = withAuth<RouteContext>(async (request: NextRequest, auth, context) => {
+  try {
+    const { id } = await context.params;
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json({ error: 'Invalid dose ID format' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateBody({ ...body, email: auth.email }, updateMedicationDoseSchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, status, source, taken_at, notes } = validation.data;
+    const dose = await logDose(email, {
+      doseId: id,
+      status,
+      takenAt: taken_at ? new Date(taken_at) : undefined,
+      source,
+      notes,
+    });
+    if (!dose) {
+      return NextResponse.json({ error: 'Dose not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, dose });
+  } catch (error) {
+    logger.error('Error updating medication dose', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
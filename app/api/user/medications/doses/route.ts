@@ -0,0 +1,97 @@
+/**
+ * Medication Doses API
+ *
+ * GET /api/user/medications/doses - Doses over the last N days and the next day
+ * POST /api/user/medications/doses - Log a dose of a medication as taken or skipped
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import {
+  medicationDosesQuerySchema,
+  logMedicationDoseSchema,
+  validateBody,
+  validateQuery,
+  formatZodError,
+} from '@/lib/validation/schemas';
+import { getDoses, logDose } from '@/lib/services/medications';
+
+const logger = createLogger('MedicationDosesAPI');
+
+/**
+ * GET /api/user/medications/doses
+ *
+ * Query params:
+ * - email (optional): A sharer's email, for caregivers they share medications with
+ * - medication_id (optional): Only this medication
+ * - days (optional): Days of history, default 7
+ */
+export const GET = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const searchParams = new URLSearchParams(request.nextUrl.searchParams);
+    searchParams.set('email', auth.email);
+    const validation = validateQuery(searchParams, medicationDosesQuerySchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, medication_id, days } = validation.data;
+    const now = new Date();
+    const doses = await getDoses(email, {
+      from: new Date(now.getTime() - days * 24 * 60 * 60 * 1000),
+      to: new Date(now.getTime() + 24 * 60 * 60 * 1000),
+      medicationId: medication_id,
+    });
+
+    return NextResponse.json({ success: true, doses });
+  } catch (error) {
+    logger.error('Error fetching medication doses', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}, { delegation: { permission: 'share_medication_compliance' } });
+
+/**
+ * POST /api/user/medications/doses
+ *
+ * Body:
+ * - medication_id (required): Medication taken
+ * - status (optional): taken | skipped, default taken
+ * - taken_at (optional): ISO timestamp, default now
+ * - notes (optional)
+ *
+ * Matches the closest scheduled dose within 12 hours, otherwise records an
+ * unscheduled dose.
+ */
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const body = await request.json();
+    const validation = validateBody({ ...body, email: auth.email }, logMedicationDoseSchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, medication_id, status, taken_at, notes } = validation.data;
+    const dose = await logDose(email, {
+      medicationId: medication_id,
+      status,
+      takenAt: taken_at ? new Date(taken_at) : undefined,
+      source: 'app',
+      notes,
+    });
+    if (!dose) {
+      return NextResponse.json({ error: 'Medication not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, dose });
+  } catch (error) {
+    logger.error('Error logging medication dose', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
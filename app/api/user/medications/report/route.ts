@@ -0,0 +1,36 @@
+/**
+ * Medication Report API
+ *
+ * GET /api/user/medications/report?days=30 - Compliance, refill predictions and interaction warnings
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { getMedicationReport } from '@/lib/services/medications';
+
+const logger = createLogger('MedicationReportAPI');
+
+/**
+ * GET /api/user/medications/report
+ *
+ * Query params:
+ * - email (optional): A sharer's email, for caregivers they share medications with
+ * - days (optional): Compliance window in days, 1-90, default 30
+ */
+export const GET = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const { email } = auth;
+
+    const days = Math.min(90, Math.max(1, parseInt(request.nextUrl.searchParams.get('days') || '30', 10) || 30));
+    const report = await getMedicationReport(email, days);
+
+    return NextResponse.json({ success: true, days, ...report });
+  } catch (error) {
+    logger.error('Error building medication report', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}, { delegation: { permission: 'share_medication_compliance' } });
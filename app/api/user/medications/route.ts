@@ -0,0 +1,93 @@
+/**
+ * Medications API
+ *
+ * GET /api/user/medications - List medications with refill predictions
+ * POST /api/user/medications - Add a medication and its dosing schedule
+ *
+ * Doses are scheduled, reminded about and marked missed by the
+ * medication-doses cron; see lib/services/medications.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { createMedicationSchema, validateBody, formatZodError } from '@/lib/validation/schemas';
+import {
+  listMedications,
+  createMedication,
+  getMedicationInteractions,
+  predictRefill,
+} from '@/lib/services/medications';
+
+const logger = createLogger('MedicationsAPI');
+
+/**
+ * GET /api/user/medications
+ *
+ * Query params:
+ * - email (optional): A sharer's email, for caregivers they share medications with
+ * - include_inactive (optional): 'true' to include stopped medications
+ */
+export const GET = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const { email } = auth;
+
+    const includeInactive = request.nextUrl.searchParams.get('include_inactive') === 'true';
+    const medications = await listMedications(email, includeInactive);
+
+    return NextResponse.json({
+      success: true,
+      medications: medications.map((medication) => ({
+        ...medication,
+        refill: predictRefill(medication),
+      })),
+    });
+  } catch (error) {
+    logger.error('Error listing medications', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}, { delegation: { permission: 'share_medication_list' } });
+
+/**
+ * POST /api/user/medications
+ *
+ * Body:
+ * - name (required): Medication name
+ * - schedule_times: Local dose times, 'HH:MM' (required unless as_needed)
+ * - days_of_week: 0-6 (Sunday = 0), omit for every day
+ * - as_needed: Taken as needed, no schedule
+ * - is_critical: Alert caregivers when a dose is missed
+ * - supply_remaining, units_per_dose, refill_threshold_days: Refill tracking
+ * - generic_name, dosage, unit_label, frequency, instructions,
+ *   missed_after_minutes, start_date, end_date (optional)
+ *
+ * Returns the medication and any interactions with the user's supplements.
+ */
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const body = await request.json();
+    const validation = validateBody({ ...body, email: auth.email }, createMedicationSchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, ...input } = validation.data;
+    const medication = await createMedication(email, input);
+    const interactions = await getMedicationInteractions(email, [medication]);
+
+    return NextResponse.json({
+      success: true,
+      medication: { ...medication, refill: predictRefill(medication) },
+      interactions,
+    });
+  } catch (error) {
+    logger.error('Error creating medication', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
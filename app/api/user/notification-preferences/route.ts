@@ -0,0 +1,91 @@
+/**
+ * Notification Delivery Preferences API
+ *
+ * GET /api/user/notification-preferences - Get quiet hours and the current delivery window
+ * PATCH /api/user/notification-preferences - Update timezone, quiet hours, sleep-aware mode or digest settings
+ *
+ * Quiet hours are evaluated in the user's timezone; medium and low severity
+ * notifications that land in them are delivered when the window opens.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { updateDeliveryPreferencesSchema, validateBody, formatZodError } from '@/lib/validation/schemas';
+import {
+  getDeliveryContext,
+  updateDeliveryPreferences,
+  evaluateDeliveryWindow,
+} from '@/lib/services/delivery-window';
+
+const logger = createLogger('NotificationPreferencesAPI');
+
+/**
+ * GET /api/user/notification-preferences
+ *
+ *
+ * Returns the stored preferences, the timezone they are evaluated in, the
+ * inferred sleep window (when sleep-aware mode is on) and the current window.
+ */
+export const GET = withAuth(async (_request: NextRequest, auth) => {
+  try {
+    const { email } = auth;
+
+    const context = await getDeliveryContext(email);
+
+    return NextResponse.json({
+      success: true,
+      ...context,
+      window: evaluateDeliveryWindow(context),
+    });
+  } catch (error) {
+    logger.error('Error fetching notification preferences', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PATCH /api/user/notification-preferences
+ *
+ * Body:
+ * - timezone: IANA timezone, or null to follow the device timezone
+ * - quiet_hours_start, quiet_hours_end: Weekday quiet hours (local hour 0-23)
+ * - weekend_quiet_hours_start, weekend_quiet_hours_end: Saturday/Sunday
+ *   quiet hours, or null to use the weekday hours
+ * - sleep_aware_quiet_hours: Also hold notifications during the bedtime
+ *   window inferred from wearables
+ * - digest_mode: off | overflow | batch_low - what happens to notifications
+ *   held back by daily limits (see lib/services/notification-digest)
+ * - digest_channel: push | email
+ * - digest_hour: Local hour the digest is sent (0-23)
+ */
+export const PATCH = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const body = await request.json();
+    const validation = validateBody({ ...body, email: auth.email }, updateDeliveryPreferencesSchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, ...updates } = validation.data;
+    await updateDeliveryPreferences(email, updates);
+    const context = await getDeliveryContext(email);
+
+    logger.info('Notification preferences updated', { email, fields: Object.keys(updates) });
+
+    return NextResponse.json({
+      success: true,
+      ...context,
+      window: evaluateDeliveryWindow(context),
+    });
+  } catch (error) {
+    logger.error('Error updating notification preferences', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
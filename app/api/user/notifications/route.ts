@@ -0,0 +1,99 @@
+/**
+ * Notification Inbox API
+ *
+ * GET /api/user/notifications - List notifications, newest first
+ * PATCH /api/user/notifications - Mark notifications read
+ *
+ * The inbox lists everything the coordinator recorded for the user, including
+ * notifications held for quiet hours ('deferred'), waiting for the digest
+ * ('batched') or folded into one ('digested', with digestId set).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import {
+  inboxQuerySchema,
+  markInboxReadSchema,
+  validateQuery,
+  validateBody,
+  formatZodError,
+} from '@/lib/validation/schemas';
+import { NotificationCoordinator, DeliveryStatus } from '@/lib/services/notification-coordinator';
+
+const logger = createLogger('NotificationInboxAPI');
+
+/**
+ * GET /api/user/notifications
+ *
+ * Query params:
+ * - status (optional): Comma-separated delivery statuses, e.g. "batched,digested"
+ * - unread_only (optional): Only unread notifications
+ * - page, pageSize (optional): Pagination, default 1 and 20
+ */
+export const GET = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const searchParams = new URLSearchParams(request.nextUrl.searchParams);
+    searchParams.set('email', auth.email);
+    const validation = validateQuery(searchParams, inboxQuerySchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, status, unread_only, page, pageSize } = validation.data;
+    const { items, total, unread } = await NotificationCoordinator.getInbox(email, {
+      status: status ? (status.split(',').map((value: string) => value.trim()) as DeliveryStatus[]) : undefined,
+      unreadOnly: unread_only,
+      page,
+      pageSize,
+    });
+
+    return NextResponse.json({
+      success: true,
+      notifications: items,
+      unread,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+        hasMore: page * pageSize < total,
+      },
+    });
+  } catch (error) {
+    logger.error('Error fetching notification inbox', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PATCH /api/user/notifications
+ *
+ * Body:
+ * - ids (optional): Notification IDs to mark read; all unread when omitted
+ */
+export const PATCH = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const body = await request.json();
+    const validation = validateBody({ ...body, email: auth.email }, markInboxReadSchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, ids } = validation.data;
+    const updated = await NotificationCoordinator.markInboxRead(email, ids);
+
+    logger.info('Inbox notifications marked read', { email, updated });
+
+    return NextResponse.json({ success: true, updated });
+  } catch (error) {
+    logger.error('Error marking inbox read', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -5,6 +5,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@supabase/supabase-js';
 
 const supabase = createClient(
@@ -12,16 +13,9 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const email = request.headers.get('x-user-email');
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 401 }
-      );
-    }
+    const { email } = auth;
 
     const { data: profile, error } = await supabase
       .from('user_profiles')
@@ -50,18 +44,11 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth(async (request: NextRequest, auth) => {
   try {
-    const email = request.headers.get('x-user-email');
-
-    if (!email) {
-      return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 401 }
-      );
-    }
+    const { email } = auth;
 
     const body = await request.json();
     const { display_name, avatar_url, bio } = body;
@@ -159,4 +146,4 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,61 @@
+/**
+ * Provider Slots API
+ *
+ * GET /api/user/providers/:id/slots - Open appointment slots for a provider
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { providerSlotsQuerySchema, validateQuery, formatZodError } from '@/lib/validation/schemas';
+import { findProviderSlots } from '@/lib/services/provider-directory';
+
+const logger = createLogger('ProviderSlotsAPI');
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/user/providers/:id/slots
+ *
+ * Query params:
+ * - from (optional): ISO timestamp, default now
+ * - days (optional): Days to look ahead, default 14
+ * - appointment_type (optional): Only slots for this visit type
+ *
+ * Providers that don't take online bookings have no slots.
+ */
+export const GET = withAuth<RouteContext>(async (request: NextRequest, _auth, context) => {
+  try {
+    const { id } = await context.params;
+    const validation = validateQuery(request.nextUrl.searchParams, providerSlotsQuerySchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { from, days, appointment_type } = validation.data;
+    const start = from ? new Date(from) : new Date();
+    const result = await findProviderSlots(id, {
+      from: start,
+      to: new Date(start.getTime() + days * 24 * 60 * 60 * 1000),
+      appointmentType: appointment_type,
+    });
+    if (!result) {
+      return NextResponse.json({ error: 'Provider not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      provider: result.provider,
+      bookable: result.provider.bookable,
+      slots: result.slots,
+    });
+  } catch (error) {
+    logger.error('Error fetching provider slots', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
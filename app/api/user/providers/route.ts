@@ -0,0 +1,51 @@
+/**
+ * Provider Directory API
+ *
+ * GET /api/user/providers?specialty=xxx&location=xxx - Search healthcare providers
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { providerSearchQuerySchema, validateQuery, formatZodError } from '@/lib/validation/schemas';
+import { searchProviders } from '@/lib/services/provider-directory';
+
+const logger = createLogger('ProviderDirectoryAPI');
+
+/**
+ * GET /api/user/providers
+ *
+ * Query params:
+ * - specialty (optional): e.g. "Endocrinology"
+ * - appointment_type (optional): e.g. "consultation"
+ * - insurance (optional): Insurance network
+ * - location (optional): "City, ST" or ZIP code
+ * - available_within (optional): Only providers with an opening within this many days
+ * - limit (optional): Max results, default 10
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+  try {
+    const validation = validateQuery(request.nextUrl.searchParams, providerSearchQuerySchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { specialty, appointment_type, insurance, location, available_within, limit } = validation.data;
+    const providers = await searchProviders({
+      specialty,
+      appointmentType: appointment_type,
+      insurance,
+      location,
+      limit,
+      availableWithinDays: available_within,
+    });
+
+    return NextResponse.json({ success: true, providers, total: providers.length });
+  } catch (error) {
+    logger.error('Error searching providers', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}, { internal: true });
@@ -0,0 +1,88 @@
+/**
+ * Replenishment Actions API
+ *
+ * POST /api/user/replenishment/:id/actions - Skip the next shipment, pause,
+ * resume, or swap to another product
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { uuidSchema, replenishmentActionSchema, validateBody, formatZodError } from '@/lib/validation/schemas';
+import {
+  ReplenishmentError,
+  pauseSubscription,
+  resumeSubscription,
+  skipNextShipment,
+  swapProduct,
+} from '@/lib/services/replenishment';
+import type { SafetyIssue } from '@/lib/services/supplement-safety';
+
+const logger = createLogger('ReplenishmentActionsAPI');
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/user/replenishment/:id/actions
+ *
+ * Body:
+ * - action (required): skip | pause | resume | swap
+ * - until (pause, optional): YYYY-MM-DD to resume on; omit to pause until resumed
+ * - product_id (swap, required): Product to switch to
+ * - dosage (swap, optional): Default the new product's directions
+ */
+export const POST = withAuth<RouteContext>(async (request: NextRequest, auth, context) => {
+  try {
+    const { id } = await context.params;
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json({ error: 'Invalid subscription ID format' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateBody({ ...body, email: auth.email }, replenishmentActionSchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const params = validation.data;
+    let safetyWarnings: SafetyIssue[] = [];
+    let subscription;
+
+    switch (params.action) {
+      case 'skip':
+        subscription = await skipNextShipment(params.email, id);
+        break;
+      case 'pause':
+        subscription = await pauseSubscription(params.email, id, params.until);
+        break;
+      case 'resume':
+        subscription = await resumeSubscription(params.email, id);
+        break;
+      case 'swap': {
+        const result = await swapProduct(params.email, id, params.product_id, params.dosage);
+        subscription = result?.subscription;
+        safetyWarnings = result?.safety.issues || [];
+        break;
+      }
+    }
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 });
+    }
+
+    logger.info('Replenishment action applied', { email: params.email, subscriptionId: id, action: params.action });
+
+    return NextResponse.json({ success: true, subscription, safetyWarnings });
+  } catch (error) {
+    if (error instanceof ReplenishmentError) {
+      return NextResponse.json({ error: error.message, reason: error.reason }, { status: error.status });
+    }
+    logger.error('Error applying replenishment action', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,119 @@
+/**
+ * Replenishment Subscription API
+ *
+ * GET /api/user/replenishment/:id - Get a subscription
+ * PATCH /api/user/replenishment/:id - Change quantity, dosage, cadence, address or card
+ * DELETE /api/user/replenishment/:id - Cancel a subscription
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { uuidSchema, updateReplenishmentSchema, validateBody, formatZodError } from '@/lib/validation/schemas';
+import {
+  ReplenishmentError,
+  cancelSubscription,
+  getSubscription,
+  updateSubscription,
+} from '@/lib/services/replenishment';
+
+const logger = createLogger('ReplenishmentDetailAPI');
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/user/replenishment/:id
+ */
+export const GET = withAuth<RouteContext>(async (_request: NextRequest, auth, context) => {
+  try {
+    const { id } = await context.params;
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json({ error: 'Invalid subscription ID format' }, { status: 400 });
+    }
+
+    const subscription = await getSubscription(auth.email, id);
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, subscription });
+  } catch (error) {
+    logger.error('Error fetching replenishment subscription', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PATCH /api/user/replenishment/:id
+ *
+ * Body:
+ * - quantity, dosage, cadence_days, address_id, stripe_payment_method_id
+ *   (at least one, or reset_cadence). Quantity and dosage changes recompute
+ *   the cadence unless it was set by hand; reset_cadence goes back to the
+ *   computed one.
+ */
+export const PATCH = withAuth<RouteContext>(async (request: NextRequest, auth, context) => {
+  try {
+    const { id } = await context.params;
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json({ error: 'Invalid subscription ID format' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateBody({ ...body, email: auth.email }, updateReplenishmentSchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, ...updates } = validation.data;
+    const subscription = await updateSubscription(email, id, updates);
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 });
+    }
+
+    logger.info('Replenishment subscription updated', { email, subscriptionId: id, fields: Object.keys(updates) });
+
+    return NextResponse.json({ success: true, subscription });
+  } catch (error) {
+    if (error instanceof ReplenishmentError) {
+      return NextResponse.json({ error: error.message, reason: error.reason }, { status: error.status });
+    }
+    logger.error('Error updating replenishment subscription', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/user/replenishment/:id
+ */
+export const DELETE = withAuth<RouteContext>(async (_request: NextRequest, auth, context) => {
+  try {
+    const { id } = await context.params;
+    if (!uuidSchema.safeParse(id).success) {
+      return NextResponse.json({ error: 'Invalid subscription ID format' }, { status: 400 });
+    }
+
+    const cancelled = await cancelSubscription(auth.email, id);
+    if (!cancelled) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 });
+    }
+
+    logger.info('Replenishment subscription cancelled', { email: auth.email, subscriptionId: id });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Error cancelling replenishment subscription', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,86 @@
+/**
+ * Replenishment API
+ *
+ * GET /api/user/replenishment - List supplement replenishment subscriptions
+ * POST /api/user/replenishment - Subscribe to a supplement
+ *
+ * Shipments are reminded about, charged and ordered by the
+ * supplement-replenishment cron; see lib/services/replenishment.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { withAuth } from '@/lib/middleware';
+import { createReplenishmentSchema, validateBody, formatZodError } from '@/lib/validation/schemas';
+import {
+  ReplenishmentError,
+  createSubscription,
+  listSubscriptions,
+} from '@/lib/services/replenishment';
+
+const logger = createLogger('ReplenishmentAPI');
+
+/**
+ * GET /api/user/replenishment
+ *
+ * Query params:
+ * - include_cancelled (optional): 'true' to include cancelled subscriptions
+ */
+export const GET = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const includeCancelled = request.nextUrl.searchParams.get('include_cancelled') === 'true';
+    const subscriptions = await listSubscriptions(auth.email, includeCancelled);
+
+    return NextResponse.json({ success: true, subscriptions });
+  } catch (error) {
+    logger.error('Error listing replenishment subscriptions', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/user/replenishment
+ *
+ * Body:
+ * - product_id (required): Catalog product to subscribe to
+ * - quantity (optional): Containers per shipment, default 1
+ * - dosage (optional): How the user takes it, default the product's directions
+ * - cadence_days (optional): Days between shipments, default computed from
+ *   the container size and dosage
+ * - first_ship_date (optional): YYYY-MM-DD
+ * - address_id, stripe_payment_method_id (optional): Default address and card
+ *   when omitted
+ *
+ * Returns the subscription and any stack safety warnings. Products that are
+ * out of stock or unsafe with the user's stack are refused.
+ */
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const body = await request.json();
+    const validation = validateBody({ ...body, email: auth.email }, createReplenishmentSchema);
+    if (!validation.success) {
+      return NextResponse.json(formatZodError(validation.error), { status: 400 });
+    }
+
+    const { email, ...input } = validation.data;
+    const { subscription, safety } = await createSubscription(email, input);
+
+    return NextResponse.json({
+      success: true,
+      subscription,
+      safetyWarnings: safety.issues,
+    });
+  } catch (error) {
+    if (error instanceof ReplenishmentError) {
+      return NextResponse.json({ error: error.message, reason: error.reason }, { status: error.status });
+    }
+    logger.error('Error creating replenishment subscription', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,15 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 
-export async function POST(request: NextRequest) {
-  try {
-    const { userId, provider } = await request.json();
+/**
+ * Vital client_user_id the onboarding pages register for an email (Vital
+ * asks for no PII in it)
+ */
+function vitalClientUserId(email: string): string {
+  return `user_${Buffer.from(email).toString('base64').replace(/[^a-zA-Z0-9]/g, '')}`;
+}
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      );
-    }
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  try {
+    const { provider } = await request.json().catch(() => ({}));
 
     const apiKey = process.env.VITAL_API_KEY;
     const environment = process.env.VITAL_ENVIRONMENT || 'sandbox';
@@ -27,9 +29,26 @@ export async function POST(request: NextRequest) {
       ? `https://api.eu.vital.io`
       : `https://api.${environment}.tryvital.io`;
 
+    // Only the caller's own Vital user can be disconnected
+    const resolveResponse = await fetch(`${baseUrl}/v2/user/resolve/${encodeURIComponent(vitalClientUserId(auth.email))}`, {
+      headers: {
+        'X-Vital-API-Key': apiKey,
+      },
+    });
+
+    if (!resolveResponse.ok) {
+      console.error('[Vital] Could not resolve user for disconnect:', await resolveResponse.text());
+      return NextResponse.json(
+        { error: 'No Vital connection found' },
+        { status: 404 }
+      );
+    }
+
+    const { user_id: userId } = await resolveResponse.json();
+
     // Deregister provider or entire user
     const endpoint = provider
-      ? `${baseUrl}/v2/user/provider/${userId}/${provider}`
+      ? `${baseUrl}/v2/user/provider/${userId}/${encodeURIComponent(provider)}`
       : `${baseUrl}/v2/user/${userId}`;
 
     const response = await fetch(endpoint, {
@@ -62,4 +81,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createClient } from '@supabase/supabase-js';
 import { circuitBreakers, CircuitOpenError } from '@/lib/utils/circuit-breaker';
 
@@ -7,13 +8,14 @@ const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
-    const { email, userId, startDate, endDate } = await request.json();
+    const { userId, startDate, endDate } = await request.json();
+    const email = auth.email;
 
-    if (!email || !userId) {
+    if (!userId) {
       return NextResponse.json(
-        { error: 'Email and userId are required' },
+        { error: 'userId is required' },
         { status: 400 }
       );
     }
@@ -149,4 +151,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { internal: true });
@@ -0,0 +1,53 @@
+/**
+ * Telephony Inbound SMS Webhook
+ * POST /api/webhooks/telephony/inbound
+ *
+ * Caregivers reply "1" to an alert text to acknowledge it. Responds with
+ * TwiML so the provider texts the confirmation back.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { alertRoutingService } from '@/lib/services/share/alert-routing-service';
+import {
+  buildMessagingResponse,
+  getTelephonyProvider,
+  getTelephonyWebhookUrl,
+  isTelephonyConfigured,
+  parseInboundSms,
+} from '@/lib/services/share/telephony';
+
+function twiml(text?: string, status: number = 200): NextResponse {
+  return new NextResponse(buildMessagingResponse(text), {
+    status,
+    headers: { 'Content-Type': 'text/xml' },
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // With no provider configured there is no signature to check against
+    if (!isTelephonyConfigured()) {
+      console.error('[Telephony Webhook] Telephony is not configured, rejecting inbound SMS');
+      return NextResponse.json({ error: 'Telephony is not configured' }, { status: 503 });
+    }
+
+    const params = Object.fromEntries(new URLSearchParams(await request.text()));
+    const signature = request.headers.get('x-twilio-signature');
+
+    if (!getTelephonyProvider().verifyWebhook(getTelephonyWebhookUrl('inbound'), params, signature)) {
+      console.error('[Telephony Webhook] Invalid inbound SMS signature');
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    const sms = parseInboundSms(params);
+    if (!sms) {
+      return twiml(undefined, 400);
+    }
+
+    const reply = await alertRoutingService.handleInboundSms(sms);
+    return twiml(reply);
+  } catch (error) {
+    console.error('[Telephony Webhook] Error handling inbound SMS:', error);
+    return twiml('Sorry, we could not process your reply. Please open the moccet app.');
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Telephony Delivery Receipt Webhook
+ * POST /api/webhooks/telephony/status
+ *
+ * Twilio-format status callbacks for caregiver alert SMS and calls. Receipts
+ * update share_alert_deliveries and, through it, the alert's status.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { alertRoutingService } from '@/lib/services/share/alert-routing-service';
+import {
+  getTelephonyProvider,
+  getTelephonyWebhookUrl,
+  isTelephonyConfigured,
+  parseStatusCallback,
+} from '@/lib/services/share/telephony';
+
+export async function POST(request: NextRequest) {
+  try {
+    // With no provider configured there is no signature to check against
+    if (!isTelephonyConfigured()) {
+      console.error('[Telephony Webhook] Telephony is not configured, rejecting status callback');
+      return NextResponse.json({ error: 'Telephony is not configured' }, { status: 503 });
+    }
+
+    const params = Object.fromEntries(new URLSearchParams(await request.text()));
+    const signature = request.headers.get('x-twilio-signature');
+
+    if (!getTelephonyProvider().verifyWebhook(getTelephonyWebhookUrl('status'), params, signature)) {
+      console.error('[Telephony Webhook] Invalid status callback signature');
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    const receipt = parseStatusCallback(params);
+    if (!receipt) {
+      return NextResponse.json({ error: 'Unrecognized status callback' }, { status: 400 });
+    }
+
+    const result = await alertRoutingService.handleDeliveryReceipt(receipt);
+
+    console.log(
+      `[Telephony Webhook] ${receipt.channel} ${receipt.messageId} ${receipt.providerStatus}` +
+      (result ? ` (alert ${result.alertId}: ${result.alertStatus})` : ' (no matching delivery)')
+    );
+
+    return NextResponse.json({ success: true, matched: !!result });
+  } catch (error) {
+    console.error('[Telephony Webhook] Error handling status callback:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { storeToken } from '@/lib/services/token-manager';
+import { enqueueBackfill } from '@/lib/services/health-backfill';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
 
 export async function GET(request: NextRequest) {
   try {
@@ -139,6 +141,12 @@ export async function GET(request: NextRequest) {
 
       if (storeResult.success) {
         console.log(`[Whoop] Tokens stored in database for ${userEmail}${userCode ? ` (code: ${userCode})` : ''}`);
+
+        // Queue historical backfill so the user gets history, not just data from today onwards
+        const backfillResult = await enqueueBackfill(userEmail, 'whoop');
+        if (!backfillResult.success) {
+          console.error('[Whoop] Failed to queue historical backfill:', backfillResult.error);
+        }
       } else {
         console.error(`[Whoop] Failed to store tokens in database:`, storeResult.error);
       }
@@ -173,7 +181,7 @@ export async function GET(request: NextRequest) {
       // Initial data sync
       fetch(`${baseUrl}/api/whoop/fetch-data`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
         body: JSON.stringify({ email: userEmail, code: userCode }),
       }).then(response => {
         if (response.ok) {
@@ -188,7 +196,7 @@ export async function GET(request: NextRequest) {
       // Subscribe to Whoop webhooks for real-time updates
       fetch(`${baseUrl}/api/whoop/webhook/subscribe`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
         body: JSON.stringify({ email: userEmail }),
       }).then(response => {
         if (response.ok) {
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/middleware';
 import { createAdminClient } from '@/lib/supabase/server';
 import { getAccessToken } from '@/lib/services/token-manager';
 import { createLogger } from '@/lib/utils/logger';
@@ -15,13 +16,9 @@ const WHOOP_WEBHOOK_URL = 'https://moccet.ai/api/whoop/webhook';
  *
  * Whoop Webhook API: https://developer.whoop.com/docs/webhooks
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { email } = await request.json();
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email required' }, { status: 400 });
-    }
+    const email = auth.email;
 
     // Get user's Whoop access token
     const { token: accessToken, error: tokenError } = await getAccessToken(email, 'whoop');
@@ -111,21 +108,16 @@ export async function POST(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error',
     }, { status: 500 });
   }
-}
+}, { internal: true });
 
 /**
  * GET /api/whoop/webhook/subscribe
  *
  * Lists current webhook subscriptions for a user.
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (_request: NextRequest, auth) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email required' }, { status: 400 });
-    }
+    const email = auth.email;
 
     // Get user's Whoop access token
     const { token: accessToken, error: tokenError } = await getAccessToken(email, 'whoop');
@@ -165,20 +157,17 @@ export async function GET(request: NextRequest) {
       error: 'Failed to fetch subscriptions',
     }, { status: 500 });
   }
-}
+});
 
 /**
  * DELETE /api/whoop/webhook/subscribe
  *
  * Unsubscribes from Whoop webhooks for a user.
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, auth) => {
   try {
-    const { email, subscription_id } = await request.json();
-
-    if (!email) {
-      return NextResponse.json({ error: 'Email required' }, { status: 400 });
-    }
+    const { subscription_id } = await request.json();
+    const email = auth.email;
 
     const { token: accessToken } = await getAccessToken(email, 'whoop');
 
@@ -237,4 +226,4 @@ export async function DELETE(request: NextRequest) {
     logger.error('Error deleting subscriptions', error);
     return NextResponse.json({ error: 'Failed to delete subscriptions' }, { status: 500 });
   }
-}
+});
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import './personalised-plan.css';
 import ShoppingCart from '@/components/ShoppingCart';
 
@@ -246,13 +246,14 @@ export default function PersonalisedPlanPage() {
   const [enrichedEssentialSupplements, setEnrichedEssentialSupplements] = useState<any[]>([]);
   const [enrichedOptionalSupplements, setEnrichedOptionalSupplements] = useState<any[]>([]);
   const [loadingProducts, setLoadingProducts] = useState(false);
+  const [supplementsToEnrich, setSupplementsToEnrich] = useState<{ essential: unknown[]; optional: unknown[] } | null>(null);
   const [addingToCart, setAddingToCart] = useState<string | null>(null);
   const [cartOpen, setCartOpen] = useState(false);
   const [openDays, setOpenDays] = useState<Record<string, boolean>>({});
   const [cartItemCount, setCartItemCount] = useState(0);
 
   // Enrich supplements with product data
-  const enrichSupplements = async (supplements: any[], type: 'essential' | 'optional') => {
+  const enrichSupplements = useCallback(async (supplements: any[], type: 'essential' | 'optional') => {
     if (!supplements || supplements.length === 0) return;
 
     setLoadingProducts(true);
@@ -260,7 +261,7 @@ export default function PersonalisedPlanPage() {
       const response = await fetch('/api/supplements/match', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ recommendations: supplements }),
+        body: JSON.stringify({ recommendations: supplements, email }),
       });
 
       const data = await response.json();
@@ -276,10 +277,17 @@ export default function PersonalisedPlanPage() {
     } finally {
       setLoadingProducts(false);
     }
-  };
+  }, [email]);
+
+  // Enrich once the plan has loaded, with the email it may have supplied
+  useEffect(() => {
+    if (!supplementsToEnrich) return;
+    enrichSupplements(supplementsToEnrich.essential, 'essential');
+    enrichSupplements(supplementsToEnrich.optional, 'optional');
+  }, [supplementsToEnrich, enrichSupplements]);
 
   const fetchCartCount = async () => {
-    const userIdentifier = email || `guest-${planCode}`;
+    const userIdentifier = `guest-${planCode}`;
     if (!userIdentifier) return;
 
     try {
@@ -296,8 +304,8 @@ export default function PersonalisedPlanPage() {
 
   // Add to cart handler
   const handleAddToCart = async (productId: string, supplementName: string, recommendation: any) => {
-    // Use email if logged in, otherwise use planCode as identifier for guest checkout
-    const userIdentifier = email || `guest-${planCode}`;
+    // Plan pages have no session, so the cart is the plan code's guest cart
+    const userIdentifier = `guest-${planCode}`;
 
     setAddingToCart(productId);
     try {
@@ -653,7 +661,7 @@ export default function PersonalisedPlanPage() {
         setPlanCode(code || null);
 
         // Extract and set email from API response if not already set
-        if (!email && planData.email) {
+        if (!emailParam && planData.email) {
           setEmail(planData.email);
           console.log('[Email] Extracted from plan data:', planData.email);
         }
@@ -667,12 +675,7 @@ export default function PersonalisedPlanPage() {
           const optional = planData.plan.supplementRecommendations.optionalSupplements ||
                           planData.plan.supplementRecommendations.optional || [];
 
-          if (essential.length > 0) {
-            enrichSupplements(essential, 'essential');
-          }
-          if (optional.length > 0) {
-            enrichSupplements(optional, 'optional');
-          }
+          setSupplementsToEnrich({ essential, optional });
         }
 
         // Set blood analysis if available
@@ -888,7 +891,7 @@ export default function PersonalisedPlanPage() {
     <div className="plan-container">
       {/* Shopping Cart Sidepanel */}
       <ShoppingCart
-        userEmail={email || `guest-${planCode}`}
+        userEmail={`guest-${planCode}`}
         planCode={planCode || undefined}
         isOpen={cartOpen}
         onClose={() => setCartOpen(false)}
@@ -1602,7 +1605,7 @@ export default function PersonalisedPlanPage() {
                       }
                     }
                     // Redirect to checkout after a short delay
-                    const userIdentifier = email || `guest-${planCode}`;
+                    const userIdentifier = `guest-${planCode}`;
                     setTimeout(() => {
                       window.location.href = `/checkout?email=${encodeURIComponent(userIdentifier)}${planCode ? `&planCode=${planCode}` : ''}`;
                     }, 800);
@@ -1713,7 +1716,7 @@ export default function PersonalisedPlanPage() {
                               <button
                                 onClick={() => {
                                   handleAddToCart(supp.product.productId, supp.name, supp);
-                                  const userIdentifier = email || `guest-${planCode}`;
+                                  const userIdentifier = `guest-${planCode}`;
                                   setTimeout(() => {
                                     window.location.href = `/checkout?email=${encodeURIComponent(userIdentifier)}${planCode ? `&planCode=${planCode}` : ''}`;
                                   }, 500);
@@ -1863,6 +1866,23 @@ export default function PersonalisedPlanPage() {
                           Product not available in our store yet
                         </div>
                       )}
+
+                      {/* Stack Safety Notes */}
+                      {supp.safety?.issues?.length > 0 && (
+                        <div style={{
+                          marginTop: '16px',
+                          padding: '12px 16px',
+                          background: 'rgba(254, 243, 199, 0.08)',
+                          borderRadius: '6px',
+                          border: '1px solid rgba(254, 243, 199, 0.15)',
+                          fontFamily: '"Inter", Helvetica, sans-serif',
+                          fontSize: '13px',
+                          color: '#fbbf24'
+                        }}>
+                          {supp.matchStatus === 'blocked' ? 'Not recommended for you: ' : 'Note: '}
+                          {supp.safety.issues.map((issue: { message: string }) => issue.message).join('; ')}
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -1948,7 +1968,7 @@ export default function PersonalisedPlanPage() {
                               <button
                                 onClick={() => {
                                   handleAddToCart(supp.product.productId, supp.name, supp);
-                                  const userIdentifier = email || `guest-${planCode}`;
+                                  const userIdentifier = `guest-${planCode}`;
                                   setTimeout(() => {
                                     window.location.href = `/checkout?email=${encodeURIComponent(userIdentifier)}${planCode ? `&planCode=${planCode}` : ''}`;
                                   }, 500);
@@ -2098,6 +2118,23 @@ export default function PersonalisedPlanPage() {
                           Product not available in our store yet
                         </div>
                       )}
+
+                      {/* Stack Safety Notes */}
+                      {supp.safety?.issues?.length > 0 && (
+                        <div style={{
+                          marginTop: '16px',
+                          padding: '12px 16px',
+                          background: 'rgba(254, 243, 199, 0.08)',
+                          borderRadius: '6px',
+                          border: '1px solid rgba(254, 243, 199, 0.15)',
+                          fontFamily: '"Inter", Helvetica, sans-serif',
+                          fontSize: '13px',
+                          color: '#fbbf24'
+                        }}>
+                          {supp.matchStatus === 'blocked' ? 'Not recommended for you: ' : 'Note: '}
+                          {supp.safety.issues.map((issue: { message: string }) => issue.message).join('; ')}
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -10,6 +10,7 @@ import { StateGraph, END, START, Annotation } from '@langchain/langgraph';
 import { ChatOpenAI } from '@langchain/openai';
 import { HumanMessage, SystemMessage, AIMessage, BaseMessage } from '@langchain/core/messages';
 import { createClient } from '@supabase/supabase-js';
+import { getPerformanceContext } from '@/lib/forge/workout-sessions';
 
 // =============================================================================
 // STATE DEFINITION
@@ -115,6 +116,7 @@ You are speaking through voice (text-to-speech). Your responses must be natural
 - Recovery metrics (HRV, sleep, strain)
 - Fitness goals (strength, endurance, weight loss, muscle gain)
 - Activity level and workout history
+- Logged Forge sessions: loads, reps, RPE, plan adherence and estimated 1RM trends
 - Any injuries or limitations
 - Available equipment
 
@@ -154,6 +156,14 @@ If you have their recovery data:
 - High strain yesterday → Maybe a rest day or light mobility work
 - Good recovery → Can push harder, progressive overload
 
+## Logged Performance
+
+If they have logged sessions, base loads and progression on what they actually lifted:
+- Suggest weights from their last top sets and estimated 1RM, not generic numbers
+- Sets missed or RPE 9-10 at the prescribed reps → hold or reduce the load
+- Hitting the top of the rep range at RPE 8 or below → add weight
+- Exercises they keep skipping → ask why and offer a swap
+
 ## Exercise Form Cues
 
 When explaining exercises, give 1-2 key form cues:
@@ -195,6 +205,9 @@ async function getUserFitnessContext(userEmail: string): Promise<Record<string,
     .order('completed_at', { ascending: false })
     .limit(5);
 
+  // Get logged Forge sessions (actual vs prescribed)
+  const loggedPerformance = await getPerformanceContext(userEmail);
+
   // Get any injuries or limitations
   const { data: limitations } = await supabase
     .from('user_health_limitations')
@@ -208,6 +221,7 @@ async function getUserFitnessContext(userEmail: string): Promise<Record<string,
     fitnessLevel: profile?.fitness_level || 'intermediate',
     recovery: recoveryData || null,
     recentWorkouts: recentWorkouts || [],
+    loggedPerformance,
     limitations: limitations || [],
   };
 }
@@ -265,6 +279,11 @@ function buildContextPrompt(context: Record<string, any>): string {
     }
   }
 
+  // Logged sessions (to ground loads and progression in what they actually did)
+  if (context.loggedPerformance) {
+    parts.push(`**Logged Training:**\n${context.loggedPerformance}`);
+  }
+
   // Injuries/limitations
   if (context.limitations?.length > 0) {
     const limitationsList = context.limitations
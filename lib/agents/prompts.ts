@@ -325,6 +325,10 @@ Use these tools to help users track their health:
   - get_weight_history: View weight trend over time
   - set_weight_goal: Set target weight (requires approval)
 
+- **Medications**
+  - log_medication_dose: Log a dose as taken or skipped (e.g., "I took my lisinopril")
+  - get_medications: Medications with compliance, refill timing and supplement interactions
+
 ### Health Goals (You CAN manage)
 - get_health_goals: View active goals and progress
 - create_health_goal: Create new goals (SLEEP, ACTIVITY, RECOVERY, GLUCOSE, WEIGHT, STRESS, CUSTOM)
@@ -334,6 +338,8 @@ Use these tools to help users track their health:
 ### Plans (READ + limited actions)
 - **Sage (Nutrition)**: Can read meal plans, log meals from plan
 - **Forge (Fitness)**: Can read workout plans, mark workouts complete
+  - find_exercise_substitutes: Alternatives for a plan exercise given the equipment at hand or an injury
+  - substitute_exercise: Swap an exercise, or adapt a whole day to equipment, injuries or time available (requires approval)
 
 ### External Connectors (READ ONLY)
 Data from these sources is synced automatically. You can READ but NOT modify:
@@ -5,60 +5,23 @@
 
 import { z } from 'zod';
 import { ToolDefinition, ToolContext, ToolResult } from './types';
-
-// Mock provider database (in production, integrate with real provider APIs)
-const MOCK_PROVIDERS = [
-  {
-    id: 'prov_pcp_smith',
-    name: 'Dr. Sarah Smith',
-    specialty: 'Primary Care',
-    location: 'San Francisco, CA',
-    rating: 4.8,
-    acceptsInsurance: ['Aetna', 'Blue Cross', 'United', 'Cigna'],
-    nextAvailable: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString(),
-    appointmentTypes: ['checkup', 'consultation', 'follow_up'],
-  },
-  {
-    id: 'prov_endo_jones',
-    name: 'Dr. Michael Jones',
-    specialty: 'Endocrinology',
-    location: 'San Francisco, CA',
-    rating: 4.9,
-    acceptsInsurance: ['Aetna', 'Blue Cross', 'Kaiser'],
-    nextAvailable: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-    appointmentTypes: ['consultation', 'thyroid', 'diabetes', 'hormone'],
-  },
-  {
-    id: 'prov_derm_patel',
-    name: 'Dr. Priya Patel',
-    specialty: 'Dermatology',
-    location: 'Oakland, CA',
-    rating: 4.7,
-    acceptsInsurance: ['Blue Cross', 'United', 'Cigna'],
-    nextAvailable: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(),
-    appointmentTypes: ['skin_check', 'consultation', 'follow_up'],
-  },
-  {
-    id: 'prov_cardio_chen',
-    name: 'Dr. Wei Chen',
-    specialty: 'Cardiology',
-    location: 'San Francisco, CA',
-    rating: 4.9,
-    acceptsInsurance: ['Aetna', 'Blue Cross', 'United', 'Kaiser'],
-    nextAvailable: new Date(Date.now() + 21 * 24 * 60 * 60 * 1000).toISOString(),
-    appointmentTypes: ['consultation', 'stress_test', 'ecg', 'follow_up'],
-  },
-  {
-    id: 'prov_lab_quest',
-    name: 'Quest Diagnostics',
-    specialty: 'Laboratory',
-    location: 'Multiple Locations',
-    rating: 4.3,
-    acceptsInsurance: ['Aetna', 'Blue Cross', 'United', 'Cigna', 'Kaiser'],
-    nextAvailable: new Date(Date.now() + 1 * 24 * 60 * 60 * 1000).toISOString(),
-    appointmentTypes: ['blood_test', 'lab_work'],
-  },
-];
+import {
+  BookingError,
+  bookAppointment,
+  cancelAppointment,
+  formatProviderLocation,
+  getProvider,
+  isInNetwork,
+  searchProviders,
+} from '@/lib/services/provider-directory';
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
 
 // Find health providers
 export const findHealthProvidersTool: ToolDefinition = {
@@ -74,7 +37,7 @@ export const findHealthProvidersTool: ToolDefinition = {
     insurance: z.string().optional()
       .describe('Insurance provider name'),
     location: z.string().optional()
-      .describe('Location or city'),
+      .describe('City and state (e.g., "San Francisco, CA") or ZIP code'),
     availableWithin: z.number().optional()
       .describe('Maximum days until next available appointment'),
   }),
@@ -82,59 +45,31 @@ export const findHealthProvidersTool: ToolDefinition = {
     try {
       const { specialty, appointmentType, insurance, location, availableWithin } = params;
 
-      let results = [...MOCK_PROVIDERS];
-
-      // Filter by specialty
-      if (specialty) {
-        results = results.filter((p) =>
-          p.specialty.toLowerCase().includes(specialty.toLowerCase())
-        );
-      }
-
-      // Filter by appointment type
-      if (appointmentType) {
-        results = results.filter((p) =>
-          p.appointmentTypes.some((t) =>
-            t.toLowerCase().includes(appointmentType.toLowerCase())
-          )
-        );
-      }
-
-      // Filter by insurance
-      if (insurance) {
-        results = results.filter((p) =>
-          p.acceptsInsurance.some((i) =>
-            i.toLowerCase().includes(insurance.toLowerCase())
-          )
-        );
-      }
-
-      // Filter by location
-      if (location) {
-        results = results.filter((p) =>
-          p.location.toLowerCase().includes(location.toLowerCase())
-        );
-      }
-
-      // Filter by availability
-      if (availableWithin !== undefined) {
-        const maxDate = new Date(Date.now() + availableWithin * 24 * 60 * 60 * 1000);
-        results = results.filter((p) => new Date(p.nextAvailable) <= maxDate);
-      }
-
-      // Sort by rating
-      results.sort((a, b) => b.rating - a.rating);
+      const results = await searchProviders({
+        specialty,
+        appointmentType,
+        insurance,
+        location,
+        availableWithinDays: availableWithin,
+      });
 
       return {
         success: true,
         data: {
           providers: results.map((p) => ({
-            ...p,
-            nextAvailableFormatted: new Date(p.nextAvailable).toLocaleDateString('en-US', {
-              weekday: 'short',
-              month: 'short',
-              day: 'numeric',
-            }),
+            id: p.id,
+            name: p.name,
+            credential: p.credential,
+            specialty: p.specialty,
+            location: formatProviderLocation(p),
+            phone: p.phone,
+            rating: p.rating,
+            acceptsInsurance: p.acceptsInsurance,
+            inNetwork: insurance ? isInNetwork(p, insurance) : undefined,
+            appointmentTypes: p.appointmentTypes,
+            bookableOnline: p.bookable,
+            nextAvailable: p.nextAvailable,
+            nextAvailableFormatted: p.nextAvailable ? formatDate(p.nextAvailable) : null,
           })),
           totalFound: results.length,
           searchCriteria: {
@@ -168,12 +103,14 @@ export const checkInsuranceTool: ToolDefinition = {
   parameters: z.object({
     procedureType: z.string().optional()
       .describe('Type of procedure or visit to check coverage for'),
+    providerId: z.string().optional()
+      .describe('ID of a provider from find_health_providers to check if in-network'),
     providerName: z.string().optional()
-      .describe('Provider name to check if in-network'),
+      .describe('Provider name, for display'),
   }),
   execute: async (params, context): Promise<ToolResult> => {
     try {
-      const { procedureType, providerName } = params;
+      const { procedureType, providerId, providerName } = params;
 
       // Get user's insurance info from profile
       const { data: profile } = await context.supabase
@@ -184,18 +121,17 @@ export const checkInsuranceTool: ToolDefinition = {
 
       const insuranceProvider = profile?.form_data?.insurance || 'Unknown';
 
-      // Mock coverage check (in production, integrate with insurance APIs)
+      // Network status comes from the provider directory; a null means the
+      // directory doesn't list the provider's networks
+      const provider = providerId ? await getProvider(providerId) : null;
+
+      // Plan benefits are mocked (in production, integrate with insurance APIs)
       const coverageInfo = {
         insuranceProvider,
         planType: 'PPO',
-        inNetwork: providerName
-          ? MOCK_PROVIDERS.some(
-              (p) =>
-                p.name.toLowerCase().includes(providerName.toLowerCase()) &&
-                p.acceptsInsurance.some((i) =>
-                  i.toLowerCase().includes(insuranceProvider.toLowerCase())
-                )
-            )
+        provider: provider ? { id: provider.id, name: provider.name } : providerName ? { name: providerName } : null,
+        inNetwork: provider && insuranceProvider !== 'Unknown'
+          ? isInNetwork(provider, insuranceProvider)
           : null,
         coverage: {
           preventiveCare: { covered: true, copay: 0 },
@@ -256,15 +192,17 @@ export const checkInsuranceTool: ToolDefinition = {
 export const bookAppointmentTool: ToolDefinition = {
   name: 'book_appointment',
   description: `Book a healthcare appointment with a provider.
+    Books the first open slot on or after the preferred date, saves the appointment,
+    adds it to the user's calendar and schedules reminders.
     HIGH RISK: This creates a medical commitment - requires explicit user approval.
     Only use after user confirms they want to book.`,
   riskLevel: 'high',
   parameters: z.object({
-    providerId: z.string().describe('ID of the provider'),
-    providerName: z.string().describe('Name of the provider'),
+    providerId: z.string().describe('ID of the provider from find_health_providers'),
+    providerName: z.string().optional().describe('Name of the provider'),
     appointmentType: z.string().describe('Type of appointment'),
     preferredDate: z.string().optional()
-      .describe('Preferred date in ISO format'),
+      .describe('Earliest date to book, in ISO format'),
     preferredTime: z.enum(['morning', 'afternoon', 'any']).optional()
       .describe('Preferred time of day'),
     reason: z.string().optional()
@@ -276,7 +214,6 @@ export const bookAppointmentTool: ToolDefinition = {
     try {
       const {
         providerId,
-        providerName,
         appointmentType,
         preferredDate,
         preferredTime = 'any',
@@ -291,42 +228,13 @@ export const bookAppointmentTool: ToolDefinition = {
         };
       }
 
-      // Find provider
-      const provider = MOCK_PROVIDERS.find((p) => p.id === providerId);
-      if (!provider) {
-        return {
-          success: false,
-          error: `Provider not found: ${providerId}`,
-        };
-      }
-
-      // Generate appointment time
-      let appointmentDate = preferredDate
-        ? new Date(preferredDate)
-        : new Date(provider.nextAvailable);
-
-      // Adjust for preferred time
-      if (preferredTime === 'morning') {
-        appointmentDate.setHours(9, 0, 0, 0);
-      } else if (preferredTime === 'afternoon') {
-        appointmentDate.setHours(14, 0, 0, 0);
-      }
-
-      // Create appointment ID
-      const appointmentId = `appt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-      // Save appointment to database
-      await context.supabase.from('user_appointments').insert({
-        id: appointmentId,
-        user_email: context.userEmail,
-        provider_id: providerId,
-        provider_name: providerName,
-        specialty: provider.specialty,
-        appointment_type: appointmentType,
-        scheduled_at: appointmentDate.toISOString(),
-        reason: reason,
-        status: 'confirmed',
-        created_at: new Date().toISOString(),
+      const { appointment, provider, calendarSynced } = await bookAppointment(context.userEmail, {
+        providerId,
+        appointmentType,
+        preferredStart: preferredDate ? new Date(preferredDate) : undefined,
+        preferredTime,
+        reason,
+        googleAccessToken: context.accessTokens.google,
       });
 
       // Log the action
@@ -334,33 +242,31 @@ export const bookAppointmentTool: ToolDefinition = {
         user_email: context.userEmail,
         action_type: 'appointment_booked',
         details: {
-          appointmentId,
+          appointmentId: appointment.id,
           providerId,
-          providerName,
-          scheduledAt: appointmentDate.toISOString(),
+          providerName: provider.name,
+          scheduledAt: appointment.scheduled_at,
         },
       });
 
-      // Also create calendar event if Google connected
-      if (context.accessTokens.google) {
-        // This would be handled by the calendar tool
-        // For now, just note that it should be created
-      }
+      const scheduledAt = new Date(appointment.scheduled_at);
 
       return {
         success: true,
         data: {
-          appointmentId,
+          appointmentId: appointment.id,
           provider: {
-            id: providerId,
-            name: providerName,
+            id: provider.id,
+            name: provider.name,
             specialty: provider.specialty,
-            location: provider.location,
+            location: appointment.location,
+            phone: provider.phone,
           },
           appointment: {
             type: appointmentType,
-            scheduledAt: appointmentDate.toISOString(),
-            scheduledAtFormatted: appointmentDate.toLocaleString('en-US', {
+            scheduledAt: appointment.scheduled_at,
+            endsAt: appointment.ends_at,
+            scheduledAtFormatted: scheduledAt.toLocaleString('en-US', {
               weekday: 'long',
               year: 'numeric',
               month: 'long',
@@ -370,13 +276,17 @@ export const bookAppointmentTool: ToolDefinition = {
             }),
             reason,
           },
-          status: 'confirmed',
-          confirmationSent: true,
+          status: appointment.status,
+          calendarSynced,
           reminderSet: true,
           notes: [
-            'Confirmation email sent to your inbox',
+            appointment.status === 'pending'
+              ? 'The provider still needs to confirm this request'
+              : 'The provider has confirmed this appointment',
+            calendarSynced
+              ? 'Added to your Google Calendar'
+              : 'Connect Google Calendar to have appointments added automatically',
             'Remember to bring your insurance card and ID',
-            'Arrive 15 minutes early to complete paperwork',
           ],
         },
         metadata: {
@@ -385,6 +295,9 @@ export const bookAppointmentTool: ToolDefinition = {
         },
       };
     } catch (error) {
+      if (error instanceof BookingError) {
+        return { success: false, error: error.message };
+      }
       return {
         success: false,
         error: `Failed to book appointment: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -416,13 +329,10 @@ export const cancelAppointmentTool: ToolDefinition = {
         };
       }
 
-      // Get appointment
-      const { data: appointment } = await context.supabase
-        .from('user_appointments')
-        .select('*')
-        .eq('id', appointmentId)
-        .eq('user_email', context.userEmail)
-        .maybeSingle();
+      const appointment = await cancelAppointment(context.userEmail, appointmentId, {
+        reason,
+        googleAccessToken: context.accessTokens.google,
+      });
 
       if (!appointment) {
         return {
@@ -431,16 +341,6 @@ export const cancelAppointmentTool: ToolDefinition = {
         };
       }
 
-      // Update appointment status
-      await context.supabase
-        .from('user_appointments')
-        .update({
-          status: 'cancelled',
-          cancellation_reason: reason,
-          cancelled_at: new Date().toISOString(),
-        })
-        .eq('id', appointmentId);
-
       // Log the action
       await context.supabase.from('agent_action_log').insert({
         user_email: context.userEmail,
@@ -451,15 +351,19 @@ export const cancelAppointmentTool: ToolDefinition = {
         },
       });
 
+      const providerNotified = !!appointment.external_id;
+
       return {
         success: true,
         data: {
           cancelled: true,
           appointmentId,
-          providerNotified: true,
+          providerNotified,
           notes: [
             'Appointment has been cancelled',
-            'Provider has been notified',
+            providerNotified
+              ? 'Provider has been notified'
+              : `Please also let ${appointment.provider_name} know you won't make it`,
             'You may reschedule at any time',
           ],
         },
@@ -469,6 +373,9 @@ export const cancelAppointmentTool: ToolDefinition = {
         },
       };
     } catch (error) {
+      if (error instanceof BookingError) {
+        return { success: false, error: error.message };
+      }
       return {
         success: false,
         error: `Failed to cancel appointment: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -5,6 +5,45 @@
 
 import { z } from 'zod';
 import { ToolDefinition, ToolContext, ToolResult } from './types';
+import { accessAuditService } from '@/lib/services/share/access-audit-service';
+
+/**
+ * Record a caregiver's agent read of someone's data in their access log
+ */
+async function recordAgentAccess(
+  context: ToolContext,
+  toolName: string,
+  sharerEmails: string[],
+  dataCategories: string[]
+): Promise<void> {
+  await accessAuditService.recordAccesses([...new Set(sharerEmails)].map((sharerEmail) => ({
+    sharerEmail,
+    accessorEmail: context.userEmail,
+    accessorType: 'caregiver' as const,
+    accessType: 'agent_tool' as const,
+    channel: 'agent' as const,
+    resourceType: 'agent_tool',
+    resourceId: toolName,
+    dataCategories,
+  })));
+}
+
+/**
+ * A care alert as returned to the agent by get_care_alerts
+ */
+interface FormattedCareAlert {
+  alert_id: string;
+  recipient_email: string;
+  recipient_label: string | null;
+  type: string;
+  severity: string;
+  title: string;
+  message: string;
+  recommendation: string | null;
+  suggested_actions: unknown;
+  created_at: string;
+  status: string;
+}
 
 // =============================================================================
 // CAREGIVER READING TOOLS (As a sharer - who monitors me)
@@ -197,6 +236,13 @@ export const getCareRecipientsTool: ToolDefinition = {
         })
       );
 
+      await recordAgentAccess(
+        context,
+        'get_care_recipients',
+        recipients.map((r) => r.email),
+        ['health_snapshot', 'alerts']
+      );
+
       return {
         success: true,
         data: {
@@ -266,6 +312,13 @@ export const getCareRecipientStatusTool: ToolDefinition = {
         .order('created_at', { ascending: false })
         .limit(5);
 
+      await recordAgentAccess(
+        context,
+        'get_care_recipient_status',
+        [email],
+        ['health_snapshot', 'metrics', 'trends', 'alerts']
+      );
+
       return {
         success: true,
         data: {
@@ -331,10 +384,10 @@ export const getCareAlertsTool: ToolDefinition = {
 
       if (error) throw error;
 
-      const formattedAlerts = alerts?.map((a: any) => ({
+      const formattedAlerts: FormattedCareAlert[] = alerts?.map((a: any) => ({
         alert_id: a.id,
         recipient_email: a.sharer_email,
-        recipient_label: a.share_relationships?.relationship_label,
+        recipient_label: a.share_relationships?.relationship_label ?? null,
         type: a.alert_type,
         severity: a.severity,
         title: a.title,
@@ -345,6 +398,13 @@ export const getCareAlertsTool: ToolDefinition = {
         status: a.status,
       })) || [];
 
+      await recordAgentAccess(
+        context,
+        'get_care_alerts',
+        formattedAlerts.map(a => a.recipient_email),
+        ['alerts']
+      );
+
       // Group by severity
       const bySeverity = {
         critical: formattedAlerts.filter(a => a.severity === 'critical'),
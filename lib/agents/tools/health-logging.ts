@@ -1,11 +1,16 @@
 /**
  * Health Logging Tools
- * Tools for logging water intake, food, and weight data
+ * Tools for logging water intake, food, weight and medication doses
  */
 
 import { z } from 'zod';
 import { ToolDefinition, ToolContext, ToolResult } from './types';
 import { randomUUID } from 'crypto';
+import {
+  findMedicationByName,
+  logDose,
+  getMedicationReport,
+} from '@/lib/services/medications';
 
 // =============================================================================
 // WATER LOGGING TOOLS
@@ -675,6 +680,103 @@ export const setWeightGoalTool: ToolDefinition = {
   },
 };
 
+// =============================================================================
+// MEDICATION TOOLS
+// =============================================================================
+
+// Log a medication dose
+export const logMedicationDoseTool: ToolDefinition = {
+  name: 'log_medication_dose',
+  description: `Log that the user took or skipped a dose of one of their medications.
+    Use when user says "I took my metformin", "skipping my evening dose", etc.
+    The dose is matched to the closest scheduled dose.`,
+  riskLevel: 'low',
+  parameters: z.object({
+    medication_name: z.string().min(1).max(100)
+      .describe('Name of the medication (brand or generic)'),
+    status: z.enum(['taken', 'skipped']).optional()
+      .describe('Whether the dose was taken or skipped. Defaults to taken.'),
+    taken_at: z.string().optional()
+      .describe('ISO timestamp of when it was taken, if not just now'),
+    notes: z.string().max(500).optional()
+      .describe('Optional notes, e.g. why a dose was skipped'),
+  }),
+  execute: async (params, context): Promise<ToolResult> => {
+    try {
+      const medication = await findMedicationByName(context.userEmail, params.medication_name);
+      if (!medication) {
+        return {
+          success: false,
+          error: `No active medication named "${params.medication_name}". The user can add it in the Medications screen.`,
+        };
+      }
+
+      const takenAt = params.taken_at ? new Date(params.taken_at) : undefined;
+      const dose = await logDose(context.userEmail, {
+        medicationId: medication.id,
+        status: params.status || 'taken',
+        takenAt: takenAt && !isNaN(takenAt.getTime()) ? takenAt : undefined,
+        source: 'agent',
+        notes: params.notes,
+      });
+
+      return {
+        success: true,
+        data: {
+          medication: medication.name,
+          dosage: medication.dosage,
+          status: dose?.status,
+          scheduled_time: dose?.scheduled_time,
+          taken_at: dose?.taken_at,
+        },
+        metadata: {
+          source: 'medication_logs',
+          timestamp: new Date().toISOString(),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to log medication dose: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  },
+};
+
+// Get medications, compliance and refill status
+export const getMedicationsTool: ToolDefinition = {
+  name: 'get_medications',
+  description: `Get the user's medications with compliance, refill predictions and
+    interactions with their supplements. Use for "did I take my meds?", "when do I need a refill?".`,
+  riskLevel: 'low',
+  parameters: z.object({
+    days: z.number().min(1).max(90).optional()
+      .describe('Days of compliance history. Defaults to 7.'),
+  }),
+  execute: async (params, context): Promise<ToolResult> => {
+    try {
+      const report = await getMedicationReport(context.userEmail, params.days || 7);
+
+      return {
+        success: true,
+        data: {
+          period_days: params.days || 7,
+          ...report,
+        },
+        metadata: {
+          source: 'medications',
+          timestamp: new Date().toISOString(),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get medications: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  },
+};
+
 // Export all health logging tools
 export const healthLoggingTools = [
   logWaterIntakeTool,
@@ -686,4 +788,6 @@ export const healthLoggingTools = [
   logWeightTool,
   getWeightHistoryTool,
   setWeightGoalTool,
+  logMedicationDoseTool,
+  getMedicationsTool,
 ];
@@ -22,6 +22,7 @@ import { bookingTools } from './booking';
 import { emailTools } from './email';
 import { socialTools } from './social';
 import { caregivingTools } from './caregiving';
+import { trainingTools } from './training';
 
 // Export all tools
 export const allTools: ToolDefinition[] = [
@@ -36,6 +37,7 @@ export const allTools: ToolDefinition[] = [
   ...emailTools,
   ...socialTools,
   ...caregivingTools,
+  ...trainingTools,
 ];
 
 // Tool map for quick lookup
@@ -122,3 +124,4 @@ export { bookingTools } from './booking';
 export { emailTools } from './email';
 export { socialTools } from './social';
 export { caregivingTools } from './caregiving';
+export { trainingTools } from './training';
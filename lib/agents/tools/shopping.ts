@@ -5,134 +5,51 @@
 
 import { z } from 'zod';
 import { ToolDefinition, ToolContext, ToolResult } from './types';
+import { Cart, addToCart, clearCart, getCart, validateCart } from '@/lib/services/cart';
+import { getBiomarkerNeeds, searchCatalog } from '@/lib/services/supplement-catalog';
+import { validateProductAvailability } from '@/lib/services/supplement-matching';
 
-// Simulated shopping cart (in production, this would be in database or external service)
-const userCarts: Map<string, any[]> = new Map();
-
-// Search for products
+// Search the product catalog
 export const searchProductsTool: ToolDefinition = {
   name: 'search_products',
-  description: `Search for health-related products from various retailers.
-    Use this to find supplements, health devices, or wellness products.`,
+  description: `Search the supplement product catalog.
+    Results are ranked by the user's biomarker needs, preferred dosage form and per-day price,
+    and only include products in stock.`,
   riskLevel: 'low',
   parameters: z.object({
     query: z.string().describe('Search query'),
-    category: z.enum(['supplements', 'devices', 'fitness', 'wellness', 'all']).optional()
-      .describe('Product category to search in'),
+    dosageForm: z.string().optional()
+      .describe('Preferred dosage form (e.g., "capsule", "softgel", "powder")'),
     maxPrice: z.number().optional()
       .describe('Maximum price filter'),
-    sortBy: z.enum(['price_low', 'price_high', 'rating', 'relevance']).optional()
+    sortBy: z.enum(['relevance', 'per_day_price', 'price_low', 'price_high']).optional()
       .describe('Sort order'),
   }),
   execute: async (params, context): Promise<ToolResult> => {
     try {
-      const { query, category = 'all', maxPrice, sortBy = 'relevance' } = params;
-
-      // Simulated product search (in production, this would call real APIs)
-      // For now, we use the supplement database and add some mock products
-      const mockProducts = [
-        {
-          id: 'prod_fitbit_inspire',
-          name: 'Fitbit Inspire 3',
-          category: 'devices',
-          price: 99.95,
-          rating: 4.5,
-          retailer: 'Amazon',
-          description: 'Health and fitness tracker with heart rate monitoring',
-          url: 'https://amazon.com/fitbit-inspire-3',
-        },
-        {
-          id: 'prod_oura_gen3',
-          name: 'Oura Ring Gen 3',
-          category: 'devices',
-          price: 299.00,
-          rating: 4.7,
-          retailer: 'Oura',
-          description: 'Smart ring for sleep and recovery tracking',
-          url: 'https://ouraring.com/product/oura-ring-gen3',
-        },
-        {
-          id: 'prod_vitd_thorne',
-          name: 'Thorne Vitamin D3 Liquid',
-          category: 'supplements',
-          price: 24.99,
-          rating: 4.8,
-          retailer: 'Thorne',
-          description: 'High-quality vitamin D3 in liquid form',
-          url: 'https://www.thorne.com/products/dp/vitamin-d-liquid',
-        },
-        {
-          id: 'prod_mag_pure',
-          name: 'Pure Encapsulations Magnesium',
-          category: 'supplements',
-          price: 32.50,
-          rating: 4.8,
-          retailer: 'Pure Encapsulations',
-          description: 'Magnesium glycinate for sleep and relaxation',
-          url: 'https://www.pureencapsulations.com/magnesium-glycinate',
-        },
-        {
-          id: 'prod_yoga_mat',
-          name: 'Manduka PRO Yoga Mat',
-          category: 'fitness',
-          price: 120.00,
-          rating: 4.9,
-          retailer: 'Amazon',
-          description: 'Professional-grade yoga mat',
-          url: 'https://amazon.com/manduka-pro',
-        },
-        {
-          id: 'prod_meditation_cushion',
-          name: 'Zafu Meditation Cushion',
-          category: 'wellness',
-          price: 49.99,
-          rating: 4.6,
-          retailer: 'Amazon',
-          description: 'Traditional meditation cushion for comfort',
-          url: 'https://amazon.com/zafu-cushion',
-        },
-      ];
+      const { query, dosageForm, maxPrice, sortBy = 'relevance' } = params;
 
-      // Filter products
-      let results = mockProducts.filter((p) => {
-        const matchesQuery =
-          p.name.toLowerCase().includes(query.toLowerCase()) ||
-          p.description.toLowerCase().includes(query.toLowerCase());
-        const matchesCategory = category === 'all' || p.category === category;
-        const matchesPrice = maxPrice === undefined || p.price <= maxPrice;
-        return matchesQuery && matchesCategory && matchesPrice;
-      });
-
-      // Sort results
-      switch (sortBy) {
-        case 'price_low':
-          results.sort((a, b) => a.price - b.price);
-          break;
-        case 'price_high':
-          results.sort((a, b) => b.price - a.price);
-          break;
-        case 'rating':
-          results.sort((a, b) => b.rating - a.rating);
-          break;
-        default:
-          // relevance - keep original order
-          break;
-      }
+      const needs = await getBiomarkerNeeds(context.userEmail);
+      const results = await searchCatalog({ query, dosageForm, maxPrice, sort: sortBy }, needs);
 
       return {
         success: true,
         data: {
-          products: results,
+          products: results.map((r) => ({
+            ...r.product,
+            relevance: r.score,
+            addressesNeeds: r.addresses,
+          })),
           totalFound: results.length,
           searchCriteria: {
             query,
-            category,
+            dosageForm,
             maxPrice,
             sortBy,
           },
         },
         metadata: {
-          source: 'product_search',
+          source: 'supplement_catalog',
           timestamp: new Date().toISOString(),
         },
       };
@@ -145,83 +62,85 @@ export const searchProductsTool: ToolDefinition = {
   },
 };
 
+function summarizeCart(cart: Cart) {
+  return {
+    totalItems: cart.totalItems,
+    totalPrice: cart.subtotal,
+    items: cart.items.map((item) => ({
+      productId: item.productId,
+      name: item.name,
+      brand: item.brand,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      lineTotal: item.lineTotal,
+      inStock: item.inStock,
+    })),
+  };
+}
+
 // Add item to cart
 export const addToCartTool: ToolDefinition = {
   name: 'add_to_cart',
-  description: `Add a product to the user's shopping cart.
+  description: `Add a catalog product to the user's shopping cart.
     MEDIUM RISK: This prepares for a purchase - requires approval.
-    Use after finding a product the user wants to buy.`,
+    Use after finding a product the user wants to buy with search_products or search_supplements.`,
   riskLevel: 'medium',
   parameters: z.object({
-    productId: z.string().describe('ID of the product to add'),
-    productName: z.string().describe('Name of the product'),
-    price: z.number().describe('Price of the product'),
+    productId: z.string().describe('Catalog ID of the product to add'),
     quantity: z.number().min(1).max(10).optional()
       .describe('Quantity to add. Default is 1.'),
-    retailer: z.string().optional().describe('Retailer name'),
-    url: z.string().optional().describe('Product URL'),
+    forDeficiency: z.string().optional()
+      .describe('Deficiency the product was recommended for'),
   }),
   execute: async (params, context): Promise<ToolResult> => {
     try {
-      const { productId, productName, price, quantity = 1, retailer, url } = params;
-
-      // Get or create cart
-      const cart = userCarts.get(context.userEmail) || [];
+      const { productId, quantity = 1, forDeficiency } = params;
 
-      // Check if item already in cart
-      const existingIndex = cart.findIndex((item) => item.productId === productId);
-
-      if (existingIndex >= 0) {
-        cart[existingIndex].quantity += quantity;
-      } else {
-        cart.push({
-          productId,
-          productName,
-          price,
-          quantity,
-          retailer,
-          url,
-          addedAt: new Date().toISOString(),
-        });
+      const availability = await validateProductAvailability(productId);
+      if (!availability.available || !availability.product) {
+        return {
+          success: false,
+          error: availability.reason || 'Product not available',
+        };
       }
+      const product = availability.product;
 
-      userCarts.set(context.userEmail, cart);
-
-      // Also save to database for persistence
-      await context.supabase.from('user_shopping_cart').upsert({
-        user_email: context.userEmail,
-        cart_items: cart,
-        updated_at: new Date().toISOString(),
+      const { cart, error, warnings = [] } = await addToCart(context.userEmail, productId, quantity, undefined, {
+        source: 'agent',
+        forDeficiency,
       });
 
+      if (error || !cart) {
+        return {
+          success: false,
+          error: error || 'Failed to add to cart',
+        };
+      }
+
       // Log the action
       await context.supabase.from('agent_action_log').insert({
         user_email: context.userEmail,
         action_type: 'product_added_to_cart',
         details: {
           productId,
-          productName,
-          price,
+          productName: product.name,
+          price: product.retailPrice,
           quantity,
         },
       });
 
-      const cartTotal = cart.reduce((sum, item) => sum + item.price * item.quantity, 0);
-
       return {
         success: true,
         data: {
           addedItem: {
             productId,
-            productName,
-            price,
+            productName: product.name,
+            brand: product.brand,
+            price: product.retailPrice,
             quantity,
           },
-          cartSummary: {
-            totalItems: cart.reduce((sum, item) => sum + item.quantity, 0),
-            totalPrice: cartTotal,
-            items: cart,
-          },
+          cartSummary: summarizeCart(cart),
+          safetyWarnings: warnings.map((w) => `${w.message}. ${w.advice}`),
         },
         metadata: {
           source: 'shopping_cart',
@@ -245,26 +164,20 @@ export const getCartTool: ToolDefinition = {
   parameters: z.object({}),
   execute: async (params, context): Promise<ToolResult> => {
     try {
-      // Try to get from database first
-      const { data: cartData } = await context.supabase
-        .from('user_shopping_cart')
-        .select('cart_items')
-        .eq('user_email', context.userEmail)
-        .maybeSingle();
+      const { cart, error } = await getCart(context.userEmail);
 
-      const cart = cartData?.cart_items || userCarts.get(context.userEmail) || [];
-      const cartTotal = cart.reduce(
-        (sum: number, item: any) => sum + item.price * item.quantity,
-        0
-      );
+      if (error || !cart) {
+        return {
+          success: false,
+          error: error || 'Failed to get cart',
+        };
+      }
 
       return {
         success: true,
         data: {
-          items: cart,
-          totalItems: cart.reduce((sum: number, item: any) => sum + item.quantity, 0),
-          totalPrice: cartTotal,
-          isEmpty: cart.length === 0,
+          ...summarizeCart(cart),
+          isEmpty: cart.items.length === 0,
         },
         metadata: {
           source: 'shopping_cart',
@@ -306,26 +219,25 @@ export const completePurchaseTool: ToolDefinition = {
         };
       }
 
-      // Get cart
-      const { data: cartData } = await context.supabase
-        .from('user_shopping_cart')
-        .select('cart_items')
-        .eq('user_email', context.userEmail)
-        .maybeSingle();
+      // Get cart, checking stock and prices as the web checkout does
+      const { valid, issues, cart } = await validateCart(context.userEmail);
 
-      const cart = cartData?.cart_items || [];
-
-      if (cart.length === 0) {
+      if (!cart || cart.items.length === 0) {
         return {
           success: false,
           error: 'Cart is empty. Nothing to purchase.',
         };
       }
 
-      const orderTotal = cart.reduce(
-        (sum: number, item: any) => sum + item.price * item.quantity,
-        0
-      );
+      if (!valid) {
+        return {
+          success: false,
+          error: `Cart needs attention before purchase: ${issues.join('; ')}`,
+        };
+      }
+
+      const orderTotal = cart.subtotal;
+      const items = summarizeCart(cart).items;
 
       // In production, this would:
       // 1. Call payment processor (Stripe)
@@ -339,18 +251,14 @@ export const completePurchaseTool: ToolDefinition = {
       await context.supabase.from('user_orders').insert({
         id: orderId,
         user_email: context.userEmail,
-        items: cart,
+        items,
         total: orderTotal,
         status: 'pending',
         created_at: new Date().toISOString(),
       });
 
       // Clear cart
-      await context.supabase
-        .from('user_shopping_cart')
-        .delete()
-        .eq('user_email', context.userEmail);
-      userCarts.delete(context.userEmail);
+      await clearCart(context.userEmail);
 
       // Log the action
       await context.supabase.from('agent_action_log').insert({
@@ -359,7 +267,7 @@ export const completePurchaseTool: ToolDefinition = {
         details: {
           orderId,
           total: orderTotal,
-          itemCount: cart.length,
+          itemCount: items.length,
         },
       });
 
@@ -368,7 +276,7 @@ export const completePurchaseTool: ToolDefinition = {
         data: {
           orderId,
           orderTotal,
-          itemsPurchased: cart.length,
+          itemsPurchased: items.length,
           status: 'Order placed successfully',
           estimatedDelivery: '3-5 business days',
           confirmationSent: true,
@@ -0,0 +1,147 @@
+/**
+ * Training Tools
+ * Tools for adjusting the user's Forge workout plan
+ */
+
+import { z } from 'zod';
+import { ToolDefinition, ToolResult } from './types';
+import { SubstitutionError, findSubstitutes, rewritePlanDay } from '@/lib/forge/exercise-substitution';
+
+const dayOfWeek = z.enum(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']);
+const injuryArea = z.enum(['shoulder', 'elbow', 'wrist', 'lower_back', 'hip', 'knee', 'ankle', 'neck']);
+
+// Find alternatives for a plan exercise
+export const findExerciseSubstitutesTool: ToolDefinition = {
+  name: 'find_exercise_substitutes',
+  description: `Find alternatives for an exercise in the user's Forge plan.
+    Ranks exercises that work the same muscles with the same movement pattern, using only the equipment available and avoiding injured areas.
+    Use when the user can't do an exercise (e.g., "my hotel gym only has dumbbells", "bench press hurts my shoulder") before swapping it.`,
+  riskLevel: 'low',
+  parameters: z.object({
+    exercise: z.string()
+      .describe('Exercise name (or id) as it appears in the plan'),
+    day: dayOfWeek.optional()
+      .describe('Plan day the exercise is on. Defaults to today, or the first day with it.'),
+    equipment: z.array(z.string()).optional()
+      .describe('Equipment available right now (e.g., ["dumbbells", "bench"]). Defaults to the profile equipment.'),
+    injuries: z.array(injuryArea).optional()
+      .describe('Injured areas to avoid, in addition to the profile'),
+    limit: z.number().min(1).max(10).optional()
+      .describe('Number of alternatives. Defaults to 5.'),
+  }),
+  execute: async (params, context): Promise<ToolResult> => {
+    try {
+      const { exercise, day, equipment, injuries, limit } = params;
+
+      const result = await findSubstitutes(context.userEmail, {
+        exercise,
+        dayOfWeek: day,
+        constraints: { equipment, injuries },
+        limit,
+      });
+
+      return {
+        success: true,
+        data: {
+          day: result.dayOfWeek,
+          replacing: result.exercise.exerciseName,
+          alternatives: result.options.map((o) => ({
+            id: o.exercise.id,
+            name: o.exercise.name,
+            score: o.score,
+            reasons: o.reasons,
+            equipment: o.exercise.equipment_required,
+            sets: o.prescription.sets,
+            reps: o.prescription.reps,
+            restSeconds: o.prescription.restSeconds,
+          })),
+        },
+        metadata: {
+          source: 'forge_exercises',
+          timestamp: new Date().toISOString(),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof SubstitutionError
+          ? error.message
+          : `Failed to find substitutes: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  },
+};
+
+// Swap an exercise or adapt a whole plan day
+export const substituteExerciseTool: ToolDefinition = {
+  name: 'substitute_exercise',
+  description: `Swap an exercise in the user's Forge plan, or adapt a whole plan day to the equipment, injuries or time available.
+    With an exercise, it is replaced by the given replacement or the best match. Without one, every exercise on the day
+    that needs missing equipment or loads an injured area is swapped, and the day is cut to fit the time limit.
+    Sets and reps are adjusted for the new exercises and the plan is saved. Only this week's day changes unless
+    the user wants the change kept for the rest of the plan.`,
+  riskLevel: 'medium',
+  parameters: z.object({
+    exercise: z.string().optional()
+      .describe('Exercise name (or id) to swap. Omit to adapt the whole day.'),
+    replacement: z.string().optional()
+      .describe('Exercise name (or id) to swap in, e.g. one from find_exercise_substitutes. Defaults to the best match.'),
+    day: dayOfWeek.optional()
+      .describe('Plan day to change. Defaults to today, or the first day with the exercise.'),
+    equipment: z.array(z.string()).optional()
+      .describe('Equipment available (e.g., ["dumbbells", "bench"]). Defaults to the profile equipment.'),
+    injuries: z.array(injuryArea).optional()
+      .describe('Injured areas to avoid, in addition to the profile'),
+    time_limit_minutes: z.number().min(10).max(240).optional()
+      .describe('Minutes available for the whole session'),
+    scope: z.enum(['once', 'rest_of_plan']).optional()
+      .describe('once (default): only this week\'s day. rest_of_plan: every week from now on.'),
+  }),
+  execute: async (params, context): Promise<ToolResult> => {
+    try {
+      const { exercise, replacement, day, equipment, injuries, time_limit_minutes, scope } = params;
+
+      const rewrite = await rewritePlanDay(context.userEmail, {
+        exercise,
+        replacement: exercise ? replacement : undefined,
+        dayOfWeek: day,
+        constraints: { equipment, injuries, timeLimitMinutes: time_limit_minutes },
+        scope,
+      });
+
+      return {
+        success: true,
+        data: {
+          day: rewrite.day.dayOfWeek,
+          scope: rewrite.scope,
+          focus: rewrite.day.focus,
+          swaps: rewrite.swaps,
+          changes: rewrite.changes,
+          estimatedDuration: rewrite.day.estimatedDuration,
+          exercises: (rewrite.day.mainWorkout?.exercises ?? []).map((e) => ({
+            name: e.exerciseName,
+            sets: e.sets,
+            reps: e.reps,
+            restSeconds: e.restSeconds,
+          })),
+        },
+        metadata: {
+          source: 'forge_workout_plans',
+          timestamp: new Date().toISOString(),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof SubstitutionError
+          ? error.message
+          : `Failed to substitute exercise: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  },
+};
+
+export const trainingTools = [
+  findExerciseSubstitutesTool,
+  substituteExerciseTool,
+];
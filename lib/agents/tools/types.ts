@@ -58,10 +58,15 @@ export const TOOL_RISK_LEVELS: Record<string, RiskLevel> = {
   get_food_log: 'low',
   log_weight: 'low',
   get_weight_history: 'low',
+  log_medication_dose: 'low',
+  get_medications: 'low',
 
   // Goal tools - low risk for reading
   get_health_goals: 'low',
 
+  // Training tools - low risk for reading
+  find_exercise_substitutes: 'low',
+
   // Medium risk - modifies user data
   create_calendar_event: 'medium',
   update_calendar_event: 'medium',
@@ -81,6 +86,9 @@ export const TOOL_RISK_LEVELS: Record<string, RiskLevel> = {
   complete_goal: 'medium',
   abandon_goal: 'medium',
 
+  // Training tools - medium risk (rewrites the workout plan)
+  substitute_exercise: 'medium',
+
   // Social tools (Moccet Connect) - low risk for reading
   get_friends: 'low',
   get_pending_friend_requests: 'low',
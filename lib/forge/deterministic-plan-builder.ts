@@ -17,6 +17,8 @@ import type {
   ProgressionGuidelines,
   DayFocus,
   SplitType,
+  EventTarget,
+  FitnessGoal,
 } from './types';
 import {
   selectSplitType,
@@ -26,27 +28,27 @@ import {
   RepRangeConfig,
 } from './split-templates';
 import { getExercisesForDay } from './exercise-selector';
+import { DEFAULT_PLAN_WEEKS, withWeeklyTargets } from './progression-engine';
+import { buildMacrocycle, withBlockTargets } from './macrocycle';
+import { estimateExerciseMinutes } from './exercise-substitution';
 
 // ==================== MAIN BUILDER ====================
 
 /**
- * Build a workout plan deterministically using templates and database exercises
+ * Build a workout plan deterministically using templates and database exercises.
+ * Estimated 1RMs from logged sessions (keyed by exercise ID) give the weekly
+ * targets concrete loads.
  */
 export async function buildDeterministicPlan(
   profile: ForgeProfile,
   healthMods: TrainingModifications,
-  categorizedExercises: CategorizedExercises
+  categorizedExercises: CategorizedExercises,
+  oneRepMaxes: Record<string, number> = {}
 ): Promise<WorkoutPlanData> {
   console.log('[PlanBuilder] Building deterministic plan...');
 
   // 1. Calculate effective training days
-  const effectiveTrainingDays = Math.max(
-    2,
-    Math.min(
-      healthMods.maxTrainingDays ?? 7,
-      profile.training_days_per_week - healthMods.extraRestDays
-    )
-  );
+  const effectiveTrainingDays = getEffectiveTrainingDays(profile, healthMods);
 
   console.log(`[PlanBuilder] Effective training days: ${effectiveTrainingDays} (original: ${profile.training_days_per_week})`);
 
@@ -54,39 +56,24 @@ export async function buildDeterministicPlan(
   const splitType = selectSplitType(effectiveTrainingDays, profile.primary_goal);
   console.log(`[PlanBuilder] Selected split: ${splitType}`);
 
-  // 3. Get day focuses for the split
-  const dayFocuses = adjustSplitForDays(splitType, effectiveTrainingDays);
-
-  // 4. Get rep ranges for the goal (adjusted for health)
-  const baseRepRanges = getRepRangesForGoal(profile.primary_goal);
-  const adjustedRepRanges = adjustRepRangesForHealth(baseRepRanges, healthMods);
-
-  // 5. Build each day
-  const days: DayPlan[] = [];
-  for (const focus of dayFocuses) {
-    if (focus.isRest) {
-      days.push(buildRestDay(focus, healthMods.prioritizeRecovery));
-    } else {
-      days.push(
-        buildTrainingDay(
-          focus,
-          categorizedExercises,
-          adjustedRepRanges,
-          profile.session_length_minutes,
-          healthMods
-        )
-      );
-    }
-  }
+  // 3. Build each day of the split
+  const days = buildTemplateDays(
+    profile,
+    healthMods,
+    categorizedExercises,
+    splitType,
+    profile.primary_goal,
+    effectiveTrainingDays
+  );
 
-  // 6. Build progression guidelines
+  // 4. Build progression guidelines
   const progression = buildProgressionGuidelines(
     profile.primary_goal,
     profile.experience_level
   );
 
-  // 7. Assemble final plan
-  const plan: WorkoutPlanData = {
+  // 5. Assemble final plan
+  const template: WorkoutPlanData = {
     version: '1.0',
     generatedAt: new Date().toISOString(),
     splitType,
@@ -100,13 +87,104 @@ export async function buildDeterministicPlan(
     progression,
   };
 
+  // 6. Turn the progression strategy into week-by-week targets
+  const plan = withWeeklyTargets(template, DEFAULT_PLAN_WEEKS, oneRepMaxes);
+
   console.log(`[PlanBuilder] Plan built with ${countExercisesInPlan(plan)} total exercises`);
 
   return plan;
 }
 
+/**
+ * Build a plan periodized toward an event: one template week per training
+ * block, each with the block's split, goal and rep ranges, and weekly targets
+ * numbered in macrocycle weeks that follow the block's volume curve.
+ */
+export async function buildPeriodizedPlan(
+  profile: ForgeProfile,
+  healthMods: TrainingModifications,
+  categorizedExercises: CategorizedExercises,
+  event: EventTarget,
+  oneRepMaxes: Record<string, number> = {},
+  startDate: string = new Date().toISOString().slice(0, 10)
+): Promise<WorkoutPlanData> {
+  console.log(`[PlanBuilder] Building periodized plan for ${event.name} on ${event.date}...`);
+
+  const effectiveTrainingDays = getEffectiveTrainingDays(profile, healthMods);
+  const macrocycle = buildMacrocycle(event, {
+    startDate,
+    trainingDays: effectiveTrainingDays,
+    experience: profile.experience_level,
+  });
+
+  const weeks: WeekPlan[] = macrocycle.blocks.map((block) => {
+    console.log(`[PlanBuilder] ${block.phase}: weeks ${block.startWeek}-${block.startWeek + block.weeks - 1}, ${block.splitType}, ${block.trainingDays} days`);
+    const days = buildTemplateDays(
+      profile,
+      healthMods,
+      categorizedExercises,
+      block.splitType,
+      block.goal,
+      block.trainingDays
+    );
+    return withBlockTargets({ weekNumber: block.startWeek, days }, block, macrocycle.timeline, oneRepMaxes);
+  });
+
+  const [first] = macrocycle.blocks;
+  const plan: WorkoutPlanData = {
+    version: '1.0',
+    generatedAt: new Date().toISOString(),
+    splitType: first.splitType,
+    userProfile: {
+      goal: profile.primary_goal,
+      experience: profile.experience_level,
+      trainingDays: effectiveTrainingDays,
+      sessionLength: profile.session_length_minutes,
+    },
+    weeks,
+    progression: first.progression,
+    macrocycle,
+  };
+
+  console.log(`[PlanBuilder] Periodized plan built: ${macrocycle.totalWeeks} weeks, ${countExercisesInPlan(plan)} total exercises`);
+
+  return plan;
+}
+
 // ==================== DAY BUILDERS ====================
 
+function getEffectiveTrainingDays(profile: ForgeProfile, healthMods: TrainingModifications): number {
+  return Math.max(
+    2,
+    Math.min(
+      healthMods.maxTrainingDays ?? 7,
+      profile.training_days_per_week - healthMods.extraRestDays
+    )
+  );
+}
+
+/**
+ * One week of the split: training days from the goal's rep ranges (adjusted
+ * for health), rest days in between
+ */
+function buildTemplateDays(
+  profile: ForgeProfile,
+  healthMods: TrainingModifications,
+  categorizedExercises: CategorizedExercises,
+  splitType: Exclude<SplitType, 'auto'>,
+  goal: FitnessGoal,
+  trainingDays: number
+): DayPlan[] {
+  const dayFocuses = adjustSplitForDays(splitType, trainingDays);
+  const repRanges = adjustRepRangesForHealth(getRepRangesForGoal(goal), healthMods);
+
+  return dayFocuses.map((focus) =>
+    focus.isRest
+      ? buildRestDay(focus, healthMods.prioritizeRecovery)
+      : buildTrainingDay(focus, categorizedExercises, repRanges, profile.session_length_minutes, healthMods)
+  );
+}
+
 function buildTrainingDay(
   focus: DayFocus,
   exercises: CategorizedExercises,
@@ -187,10 +265,7 @@ function buildTrainingDay(
 
   // Calculate estimated duration
   const warmupDuration = warmup.durationMinutes;
-  const mainDuration = programmedExercises.reduce(
-    (sum, ex) => sum + (ex.sets * 1.5) + (ex.sets * ex.restSeconds / 60), // 1.5 min per set + rest
-    0
-  );
+  const mainDuration = programmedExercises.reduce((sum, ex) => sum + estimateExerciseMinutes(ex), 0);
   const cooldownDuration = cooldown.durationMinutes;
   const estimatedDuration = Math.round(warmupDuration + mainDuration + cooldownDuration);
 
@@ -328,6 +403,7 @@ function buildProgressionGuidelines(
     weeklyIncrements: strategy.weeklyIncrements,
     repProgression: 'Complete all sets at the top of the rep range before increasing weight',
     deloadFrequency: strategy.deloadFrequency,
+    deloadEveryWeeks: strategy.deloadEveryWeeks,
     plateauStrategy: 'If stuck for 2+ weeks: reduce weight by 10%, increase reps, rebuild',
   };
 }
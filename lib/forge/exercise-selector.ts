@@ -46,7 +46,7 @@ const CORE_MUSCLES = ['core', 'abs', 'obliques', 'lower_back', 'abdominals', 'tr
  * Intermediate sees beginner + intermediate
  * Advanced sees all
  */
-function getAllowedDifficultyLevels(userLevel: DifficultyLevel): DifficultyLevel[] {
+export function getAllowedDifficultyLevels(userLevel: DifficultyLevel): DifficultyLevel[] {
   switch (userLevel) {
     case 'beginner':
       return ['beginner'];
@@ -59,6 +59,30 @@ function getAllowedDifficultyLevels(userLevel: DifficultyLevel): DifficultyLevel
   }
 }
 
+// ==================== COMPATIBILITY CHECKS ====================
+
+/**
+ * Whether every piece of required equipment is available
+ */
+export function hasRequiredEquipment(required: string[], available: string[]): boolean {
+  return required.length === 0 ||
+    required.every((eq) =>
+      available.some((a) => a.toLowerCase() === eq.toLowerCase())
+    );
+}
+
+/**
+ * Whether an exercise's muscle groups load any of the injured areas
+ */
+export function conflictsWithInjuries(muscleGroups: string[], injuries: InjuryArea[]): boolean {
+  return injuries.some((injury) => {
+    const musclesToAvoid = INJURY_MUSCLE_MAP[injury] || [];
+    return musclesToAvoid.some((muscle) =>
+      muscleGroups.some((target) => target.toLowerCase().includes(muscle.toLowerCase()))
+    );
+  });
+}
+
 // ==================== MAIN QUERY FUNCTION ====================
 
 /**
@@ -100,28 +124,10 @@ export async function queryEligibleExercises(
   console.log(`[ExerciseSelector] Found ${exercises.length} exercises before filtering`);
 
   // Post-query filtering for JSONB arrays (equipment and injuries)
-  const filteredExercises = exercises.filter((ex: ForgeExercise) => {
-    // Check equipment compatibility
-    const requiredEquipment = (ex.equipment_required || []) as string[];
-    const hasEquipment =
-      requiredEquipment.length === 0 ||
-      requiredEquipment.every((eq) =>
-        params.equipmentAvailable.some(
-          (available) => available.toLowerCase() === eq.toLowerCase()
-        )
-      );
-
-    // Check injury compatibility
-    const targetMuscles = (ex.muscle_groups || []) as string[];
-    const avoidsInjuries = !params.injuriesToAvoid.some((injury) => {
-      const musclestoAvoid = INJURY_MUSCLE_MAP[injury] || [];
-      return musclestoAvoid.some((muscle) =>
-        targetMuscles.some((target) => target.toLowerCase().includes(muscle.toLowerCase()))
-      );
-    });
-
-    return hasEquipment && avoidsInjuries;
-  });
+  const filteredExercises = exercises.filter((ex: ForgeExercise) =>
+    hasRequiredEquipment(ex.equipment_required || [], params.equipmentAvailable) &&
+    !conflictsWithInjuries(ex.muscle_groups || [], params.injuriesToAvoid)
+  );
 
   console.log(`[ExerciseSelector] ${filteredExercises.length} exercises after filtering`);
 
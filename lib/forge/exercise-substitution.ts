@@ -0,0 +1,669 @@
+/**
+ * Exercise Substitution
+ * Ranks forge_exercises alternatives for a programmed exercise by muscle
+ * groups, movement pattern and compound status, under the equipment, injury
+ * and time constraints of the day, and rewrites the plan day with adjusted
+ * sets and reps.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import {
+  conflictsWithInjuries,
+  getAllowedDifficultyLevels,
+  hasRequiredEquipment,
+  loadUserProfile,
+  normalizeEquipment,
+} from './exercise-selector';
+import { progressionForWeek } from './macrocycle';
+import { buildWeeklyTargets } from './progression-engine';
+import { currentPlanWeek, dayOverrideKey, parseRepRange, planWeekIndex, type PlanRecord } from './session-metrics';
+import { getActivePlan, userDayOfWeek } from './workout-sessions';
+import type {
+  DayOfWeek,
+  DayPlan,
+  DayRewrite,
+  ExerciseSwap,
+  ExerciseType,
+  ForgeExercise,
+  MovementPattern,
+  ProgrammedExercise,
+  ProgressionGuidelines,
+  SubstituteOption,
+  SubstitutionConstraints,
+  WorkoutPlanData,
+} from './types';
+
+const DEFAULT_OPTION_LIMIT = 5;
+const MIN_SUBSTITUTE_SCORE = 40;
+
+// Scores add up to 100
+const PRIMARY_MUSCLE_POINTS = 30;
+const MUSCLE_OVERLAP_POINTS = 30;
+const PATTERN_POINTS = 25;
+const COMPOUND_POINTS = 15;
+
+// Fitting a time limit caps rest first, then trims sets, then drops exercises
+const MAX_REST_SECONDS = { compound: 90, isolation: 60 };
+const MIN_SETS = { compound: 3, isolation: 2 };
+
+// Strength days never take these (see categorizeExercises)
+const NON_STRENGTH_TYPES: ExerciseType[] = ['cardio', 'hiit', 'running', 'yoga', 'pilates'];
+
+// ==================== MOVEMENT PATTERNS ====================
+
+// Checked in order, first match wins, so a split squat is a lunge and a leg
+// raise is core work
+const PATTERN_KEYWORDS: [MovementPattern, string[]][] = [
+  ['lunge', ['lunge', 'split squat', 'step up']],
+  ['hinge', ['deadlift', 'rdl', 'romanian', 'good morning', 'hip thrust', 'glute bridge', 'swing', 'back extension', 'hyperextension']],
+  ['squat', ['squat', 'leg press', 'hack']],
+  ['knee_flexion', ['leg curl', 'hamstring curl', 'nordic']],
+  ['knee_extension', ['leg extension']],
+  ['calf_raise', ['calf']],
+  ['vertical_pull', ['pull up', 'pullup', 'chin', 'pulldown', 'pull down']],
+  ['horizontal_pull', ['row', 'face pull', 'reverse fly', 'rear delt']],
+  ['vertical_push', ['overhead', 'shoulder press', 'military', 'arnold', 'pike', 'handstand']],
+  ['horizontal_push', ['bench', 'push up', 'pushup', 'chest press', 'floor press', 'dip', 'fly']],
+  ['elbow_flexion', ['curl']],
+  ['elbow_extension', ['tricep', 'skull', 'pushdown', 'kickback', 'extension']],
+  ['core', ['plank', 'crunch', 'sit up', 'twist', 'leg raise', 'dead bug', 'hollow', 'ab wheel', 'rollout']],
+  ['shoulder_raise', ['raise']],
+  ['carry', ['carry', 'farmer']],
+];
+
+// Fallback from the primary muscle group when the name says nothing
+const MUSCLE_PATTERNS: Record<string, MovementPattern> = {
+  chest: 'horizontal_push',
+  shoulders: 'vertical_push',
+  triceps: 'elbow_extension',
+  biceps: 'elbow_flexion',
+  lats: 'vertical_pull',
+  back: 'horizontal_pull',
+  'upper back': 'horizontal_pull',
+  quadriceps: 'squat',
+  glutes: 'hinge',
+  hamstrings: 'hinge',
+  calves: 'calf_raise',
+  core: 'core',
+  abs: 'core',
+  obliques: 'core',
+};
+
+const MUSCLE_ALIASES: Record<string, string> = {
+  quads: 'quadriceps',
+  pectorals: 'chest',
+  pecs: 'chest',
+  deltoids: 'shoulders',
+  delts: 'shoulders',
+  abdominals: 'abs',
+  'latissimus dorsi': 'lats',
+};
+
+function normalizeMuscle(muscle: string): string {
+  const name = muscle.toLowerCase().replace(/[_\s]+/g, ' ').trim();
+  return MUSCLE_ALIASES[name] ?? name;
+}
+
+function musclesMatch(a: string, b: string): boolean {
+  return a === b || a.includes(b) || b.includes(a);
+}
+
+export function movementPattern(name: string, muscleGroups: string[]): MovementPattern {
+  // Word-prefix matching on a padded name, so "narrow" isn't a row
+  const words = ` ${name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+  for (const [pattern, keywords] of PATTERN_KEYWORDS) {
+    if (keywords.some((k) => words.includes(` ${k}`))) return pattern;
+  }
+
+  const primary = muscleGroups.length > 0 ? normalizeMuscle(muscleGroups[0]) : null;
+  return (primary && MUSCLE_PATTERNS[primary]) || 'other';
+}
+
+function isBodyweight(equipment: string[]): boolean {
+  return equipment.every((eq) => eq.toLowerCase() === 'bodyweight');
+}
+
+// ==================== RANKING ====================
+
+/**
+ * Whether an exercise can be done with the equipment at hand, spares the
+ * injured areas and suits the athlete's level
+ */
+export function fitsConstraints(
+  exercise: Pick<ForgeExercise, 'equipment_required' | 'muscle_groups' | 'difficulty_level'>,
+  constraints: SubstitutionConstraints
+): boolean {
+  if (constraints.equipment &&
+    !hasRequiredEquipment(exercise.equipment_required || [], normalizeEquipment(constraints.equipment))) {
+    return false;
+  }
+  if (constraints.injuries && conflictsWithInjuries(exercise.muscle_groups || [], constraints.injuries)) {
+    return false;
+  }
+  if (constraints.experienceLevel &&
+    !getAllowedDifficultyLevels(constraints.experienceLevel).includes(exercise.difficulty_level)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Why a programmed exercise can't stay in the plan under the constraints,
+ * or null if it can. Equipment comes from its catalog entry, when known.
+ */
+export function substitutionReason(
+  exercise: ProgrammedExercise,
+  source: ForgeExercise | undefined,
+  constraints: SubstitutionConstraints
+): string | null {
+  if (constraints.injuries && conflictsWithInjuries(exercise.muscleGroups, constraints.injuries)) {
+    return `${exercise.exerciseName} loads an injured area`;
+  }
+  if (source && constraints.equipment &&
+    !hasRequiredEquipment(source.equipment_required || [], normalizeEquipment(constraints.equipment))) {
+    return `${exercise.exerciseName} needs equipment that isn't available`;
+  }
+  return null;
+}
+
+/**
+ * How well a candidate stands in for a programmed exercise, 0-100: the
+ * original's primary muscle, share of its muscle groups, movement pattern
+ * and compound status
+ */
+export function scoreSubstitute(
+  original: ProgrammedExercise,
+  candidate: ForgeExercise
+): { score: number; reasons: string[] } {
+  const originalMuscles = original.muscleGroups.map(normalizeMuscle);
+  const candidateMuscles = (candidate.muscle_groups || []).map(normalizeMuscle);
+  const shared = originalMuscles.filter((m) => candidateMuscles.some((c) => musclesMatch(m, c)));
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (originalMuscles.length > 0) {
+    if (shared.includes(originalMuscles[0])) score += PRIMARY_MUSCLE_POINTS;
+    score += (MUSCLE_OVERLAP_POINTS * shared.length) / originalMuscles.length;
+  }
+  if (shared.length > 0) reasons.push(`Works ${shared.join(', ')}`);
+
+  const pattern = movementPattern(original.exerciseName, original.muscleGroups);
+  if (pattern !== 'other' && pattern === movementPattern(candidate.name, candidate.muscle_groups || [])) {
+    score += PATTERN_POINTS;
+    reasons.push(`Same movement pattern (${pattern.replace('_', ' ')})`);
+  }
+
+  if (candidate.is_compound === original.isCompound) {
+    score += COMPOUND_POINTS;
+  } else {
+    reasons.push(candidate.is_compound ? 'Compound lift in place of isolation work' : 'Isolation work in place of a compound lift');
+  }
+
+  return { score: Math.round(score), reasons };
+}
+
+/**
+ * Sets, reps and rest carried over to the replacement: isolation work runs
+ * higher reps and shorter rest than the compound it replaces and vice versa,
+ * bodyweight stand-ins for loaded lifts take half again the reps, and
+ * unilateral ones are counted per side. Weekly targets are rebuilt without
+ * loads, so the first logged session sets them.
+ */
+export function adaptPrescription(
+  original: ProgrammedExercise,
+  replacement: ForgeExercise,
+  options: { originalEquipment?: string[]; guidelines?: ProgressionGuidelines } = {}
+): ProgrammedExercise {
+  const bodyweight = isBodyweight(replacement.equipment_required || []);
+  const wasLoaded = options.originalEquipment !== undefined && !isBodyweight(options.originalEquipment);
+  const range = parseRepRange(original.reps);
+
+  let sets = original.sets;
+  let restSeconds = original.restSeconds;
+  let reps = original.reps;
+
+  if (range) {
+    let { min, max } = range;
+    if (original.isCompound && !replacement.is_compound) {
+      min += 4;
+      max += 4;
+      sets = Math.max(MIN_SETS.isolation, sets - 1);
+      restSeconds = Math.min(restSeconds, MAX_REST_SECONDS.compound);
+    } else if (!original.isCompound && replacement.is_compound) {
+      min = Math.max(3, min - 4);
+      max = Math.max(min, max - 4);
+      restSeconds = Math.max(restSeconds, 120);
+    }
+    if (bodyweight && wasLoaded) {
+      min = Math.round(min * 1.5);
+      max = Math.round(max * 1.5);
+    }
+    reps = (min === max ? `${min}` : `${min}-${max}`) + (replacement.is_unilateral ? ' per side' : '');
+  }
+
+  const adapted: ProgrammedExercise = {
+    ...original,
+    exerciseId: replacement.id,
+    exerciseName: replacement.name,
+    sets,
+    reps,
+    restSeconds,
+    weight: bodyweight ? 'Bodyweight' : undefined,
+    tips: replacement.tips || [],
+    commonMistakes: replacement.common_mistakes || [],
+    isCompound: replacement.is_compound,
+    muscleGroups: replacement.muscle_groups || [],
+    progressionNotes: bodyweight
+      ? 'Add reps, then slow the tempo'
+      : replacement.is_compound
+        ? 'Add 1-2.5kg when completing all reps with good form'
+        : 'Increase reps before adding weight',
+    weeklyTargets: undefined,
+  };
+
+  if (original.weeklyTargets && options.guidelines) {
+    const weekNumbers = original.weeklyTargets.map((t) => t.weekNumber);
+    adapted.weeklyTargets = buildWeeklyTargets(adapted, options.guidelines, {
+      weeks: weekNumbers.length,
+    }).map((t, i) => ({ ...t, weekNumber: weekNumbers[i] }));
+  }
+
+  return adapted;
+}
+
+/**
+ * Catalog exercises that can replace a programmed one, best first
+ */
+export function rankSubstitutes(
+  original: ProgrammedExercise,
+  catalog: ForgeExercise[],
+  constraints: SubstitutionConstraints,
+  options: { exclude?: string[]; limit?: number; guidelines?: ProgressionGuidelines } = {}
+): SubstituteOption[] {
+  const exclude = options.exclude ?? [];
+  const source = catalog.find((ex) => ex.id === original.exerciseId);
+
+  return catalog
+    .filter((ex) =>
+      ex.is_active !== false &&
+      ex.id !== original.exerciseId &&
+      !exclude.includes(ex.id) &&
+      !NON_STRENGTH_TYPES.includes(ex.exercise_type) &&
+      fitsConstraints(ex, constraints)
+    )
+    .map((ex) => ({ exercise: ex, ...scoreSubstitute(original, ex) }))
+    .filter((option) => option.score >= MIN_SUBSTITUTE_SCORE)
+    .sort((a, b) => b.score - a.score || a.exercise.name.localeCompare(b.exercise.name))
+    .slice(0, options.limit ?? DEFAULT_OPTION_LIMIT)
+    .map((option) => ({
+      ...option,
+      prescription: adaptPrescription(original, option.exercise, {
+        originalEquipment: source?.equipment_required,
+        guidelines: options.guidelines,
+      }),
+    }));
+}
+
+// ==================== TIME LIMIT ====================
+
+export function estimateExerciseMinutes(exercise: Pick<ProgrammedExercise, 'sets' | 'restSeconds'>): number {
+  return exercise.sets * 1.5 + (exercise.sets * exercise.restSeconds) / 60; // 1.5 min per set + rest
+}
+
+export function estimateDayMinutes(day: DayPlan): number {
+  if (day.isRestDay) return 0;
+  const main = (day.mainWorkout?.exercises ?? []).reduce((sum, ex) => sum + estimateExerciseMinutes(ex), 0);
+  return Math.round((day.warmup?.durationMinutes ?? 0) + main + (day.cooldown?.durationMinutes ?? 0));
+}
+
+function lastIndexWhere<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
+
+/**
+ * Shortens a day to a time limit: rest is capped first, then sets are
+ * trimmed from the end of the session (isolation work before compounds),
+ * then exercises are dropped from the end, keeping at least one
+ */
+export function fitDayToTime(day: DayPlan, limitMinutes: number): { day: DayPlan; changes: string[] } {
+  const original = day.mainWorkout?.exercises ?? [];
+  const exercises = original.map((ex) => ({ ...ex }));
+  const fixedMinutes = (day.warmup?.durationMinutes ?? 0) + (day.cooldown?.durationMinutes ?? 0);
+  const overLimit = () =>
+    fixedMinutes + exercises.reduce((sum, ex) => sum + estimateExerciseMinutes(ex), 0) > limitMinutes;
+
+  if (day.isRestDay || !overLimit()) return { day, changes: [] };
+
+  for (const ex of exercises) {
+    ex.restSeconds = Math.min(ex.restSeconds, ex.isCompound ? MAX_REST_SECONDS.compound : MAX_REST_SECONDS.isolation);
+  }
+
+  while (overLimit()) {
+    let index = lastIndexWhere(exercises, (ex) => !ex.isCompound && ex.sets > MIN_SETS.isolation);
+    if (index === -1) index = lastIndexWhere(exercises, (ex) => ex.isCompound && ex.sets > MIN_SETS.compound);
+    if (index === -1) break;
+    exercises[index].sets--;
+  }
+
+  while (overLimit() && exercises.length > 1) {
+    const isolation = lastIndexWhere(exercises, (ex) => !ex.isCompound);
+    exercises.splice(isolation !== -1 ? isolation : exercises.length - 1, 1);
+  }
+
+  const changes: string[] = [];
+  for (const before of original) {
+    const after = exercises.find((ex) => ex.exerciseId === before.exerciseId);
+    if (!after) {
+      changes.push(`Dropped ${before.exerciseName}`);
+      continue;
+    }
+
+    const parts: string[] = [];
+    if (after.sets !== before.sets) {
+      parts.push(`${before.sets} → ${after.sets} sets`);
+      const cut = before.sets - after.sets;
+      after.weeklyTargets = after.weeklyTargets?.map((t) => ({ ...t, sets: Math.max(1, t.sets - cut) }));
+    }
+    if (after.restSeconds !== before.restSeconds) {
+      parts.push(`rest ${before.restSeconds}s → ${after.restSeconds}s`);
+    }
+    if (parts.length > 0) changes.push(`${before.exerciseName}: ${parts.join(', ')}`);
+  }
+
+  const fitted: DayPlan = { ...day, mainWorkout: { exercises } };
+  fitted.estimatedDuration = estimateDayMinutes(fitted);
+  if (fitted.estimatedDuration > limitMinutes) {
+    changes.push(`Still about ${fitted.estimatedDuration} minutes with the warmup and cooldown`);
+  }
+
+  return { day: fitted, changes };
+}
+
+// ==================== DAY REWRITE ====================
+
+/**
+ * Rewrites a plan day under the constraints. With `exerciseId`, that
+ * exercise is swapped for `replacement` or the best-ranked substitute;
+ * otherwise every exercise that breaks the constraints is. Exercises that
+ * break them with nothing to stand in are dropped, and the day is then
+ * fitted to the time limit.
+ */
+export function rewriteDay(
+  day: DayPlan,
+  catalog: ForgeExercise[],
+  constraints: SubstitutionConstraints,
+  options: { exerciseId?: string; replacement?: ForgeExercise; guidelines?: ProgressionGuidelines } = {}
+): DayRewrite {
+  const byId = new Map(catalog.map((ex) => [ex.id, ex]));
+  const inDay = new Set((day.mainWorkout?.exercises ?? []).map((ex) => ex.exerciseId));
+  const swaps: ExerciseSwap[] = [];
+  const exercises: ProgrammedExercise[] = [];
+
+  for (const exercise of day.mainWorkout?.exercises ?? []) {
+    const source = byId.get(exercise.exerciseId);
+    const violation = substitutionReason(exercise, source, constraints);
+    const requested = options.exerciseId === exercise.exerciseId;
+    if (!requested && (options.exerciseId || !violation)) {
+      exercises.push(exercise);
+      continue;
+    }
+
+    let prescription: ProgrammedExercise | null = null;
+    let reasons: string[] = [];
+    if (requested && options.replacement) {
+      prescription = adaptPrescription(exercise, options.replacement, {
+        originalEquipment: source?.equipment_required,
+        guidelines: options.guidelines,
+      });
+      reasons = scoreSubstitute(exercise, options.replacement).reasons;
+    } else {
+      const [best] = rankSubstitutes(exercise, catalog, constraints, {
+        exclude: [...inDay],
+        limit: 1,
+        guidelines: options.guidelines,
+      });
+      if (best) {
+        prescription = best.prescription;
+        reasons = best.reasons;
+      }
+    }
+
+    if (prescription) {
+      inDay.add(prescription.exerciseId);
+      exercises.push(prescription);
+    } else if (!violation) {
+      // Asked for, but nothing fits: the exercise stays
+      exercises.push(exercise);
+    }
+
+    swaps.push({
+      fromId: exercise.exerciseId,
+      fromName: exercise.exerciseName,
+      toId: prescription?.exerciseId ?? null,
+      toName: prescription?.exerciseName ?? null,
+      reasons: [...(violation ? [violation] : []), ...(prescription ? reasons : ['No substitute fits the constraints'])],
+    });
+  }
+
+  const rewritten: DayPlan = { ...day, mainWorkout: { exercises } };
+  rewritten.estimatedDuration = estimateDayMinutes(rewritten);
+
+  if (!constraints.timeLimitMinutes) return { day: rewritten, swaps, changes: [] };
+  return { ...fitDayToTime(rewritten, constraints.timeLimitMinutes), swaps };
+}
+
+// ==================== ERRORS ====================
+
+export type SubstitutionErrorReason =
+  | 'plan_not_found'
+  | 'exercise_not_found'
+  | 'not_a_training_day'
+  | 'no_substitute'
+  | 'invalid_replacement';
+
+/**
+ * A swap that can't be made as asked, as opposed to a database failure.
+ * Routes answer these with a 4xx.
+ */
+export class SubstitutionError extends Error {
+  constructor(
+    public readonly reason: SubstitutionErrorReason,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SubstitutionError';
+  }
+
+  get status(): number {
+    return this.reason === 'plan_not_found' || this.reason === 'exercise_not_found' ? 404 : 422;
+  }
+}
+
+// ==================== PLAN SWAPS ====================
+
+export interface SubstitutionRequest {
+  exercise?: string;           // Exercise id or name in the plan day
+  dayOfWeek?: DayOfWeek;       // Default: today, or the first day with the exercise
+  constraints?: SubstitutionConstraints;
+}
+
+/**
+ * How far a rewrite reaches: 'once' changes only this week's occurrence of
+ * the day; 'rest_of_plan' rewrites the template week it repeats from
+ */
+export type RewriteScope = 'once' | 'rest_of_plan';
+
+async function loadCatalog(): Promise<ForgeExercise[]> {
+  const { data, error } = await createAdminClient()
+    .from('forge_exercises')
+    .select('*')
+    .eq('is_active', true);
+
+  if (error) throw new Error('Failed to load exercises: ' + error.message);
+  return (data ?? []) as ForgeExercise[];
+}
+
+/**
+ * Constraints with the profile filled in: its equipment when none was
+ * given, its injuries alongside any new ones, and its experience level
+ */
+async function resolveConstraints(
+  userEmail: string,
+  constraints: SubstitutionConstraints
+): Promise<SubstitutionConstraints> {
+  const profile = await loadUserProfile(userEmail);
+  return {
+    ...constraints,
+    equipment: constraints.equipment ?? (profile?.equipment?.length ? profile.equipment : undefined),
+    injuries: [...new Set([...(profile?.injuries ?? []), ...(constraints.injuries ?? [])])],
+    experienceLevel: constraints.experienceLevel ?? profile?.experience_level,
+  };
+}
+
+function matchesExercise(exercise: ProgrammedExercise, ref: string): boolean {
+  return exercise.exerciseId === ref || exercise.exerciseName.toLowerCase() === ref.trim().toLowerCase();
+}
+
+/**
+ * The training day to rewrite in the current plan week: the given day,
+ * else today if it has the exercise, else the first day that does. Days
+ * changed once this week come as changed unless the template is wanted.
+ */
+function locateDay(
+  plan: PlanRecord,
+  request: SubstitutionRequest,
+  today: DayOfWeek,
+  scope: RewriteScope
+): { weekIndex: number; weekNumber: number; day: DayPlan; exercise: ProgrammedExercise | null } {
+  const weekNumber = currentPlanWeek(plan.started_at || plan.created_at);
+  const weekIndex = planWeekIndex(plan.plan_data, weekNumber);
+  const overrides = scope === 'once' ? plan.plan_data.dayOverrides ?? {} : {};
+  const trainingDays = (plan.plan_data.weeks[weekIndex]?.days ?? [])
+    .map((d) => overrides[dayOverrideKey(weekNumber, d.dayOfWeek)] ?? d)
+    .filter((d) => !d.isRestDay);
+
+  const ref = request.exercise;
+  const hasExercise = (d: DayPlan) => !ref || (d.mainWorkout?.exercises ?? []).some((ex) => matchesExercise(ex, ref));
+
+  const day = request.dayOfWeek
+    ? trainingDays.find((d) => d.dayOfWeek === request.dayOfWeek)
+    : trainingDays.find((d) => d.dayOfWeek === today && hasExercise(d)) ?? (ref ? trainingDays.find(hasExercise) : undefined);
+
+  if (!day) {
+    throw ref && !request.dayOfWeek
+      ? new SubstitutionError('exercise_not_found', `${ref} isn't in the current plan week`)
+      : new SubstitutionError('not_a_training_day', `No training scheduled on ${request.dayOfWeek ?? today}`);
+  }
+
+  const exercise = ref ? (day.mainWorkout?.exercises ?? []).find((ex) => matchesExercise(ex, ref)) ?? null : null;
+  if (ref && !exercise) {
+    throw new SubstitutionError('exercise_not_found', `${ref} isn't on ${day.dayOfWeek}'s workout`);
+  }
+
+  return { weekIndex, weekNumber, day, exercise };
+}
+
+async function loadContext(userEmail: string, request: SubstitutionRequest, scope: RewriteScope = 'once') {
+  const plan = await getActivePlan(userEmail);
+  if (!plan) throw new SubstitutionError('plan_not_found', 'No active workout plan');
+
+  const located = locateDay(plan, request, await userDayOfWeek(userEmail), scope);
+  const [catalog, constraints] = await Promise.all([
+    loadCatalog(),
+    resolveConstraints(userEmail, request.constraints ?? {}),
+  ]);
+
+  return { plan, ...located, catalog, constraints };
+}
+
+/**
+ * Ranked alternatives for an exercise on the active plan, without changing
+ * the plan
+ */
+export async function findSubstitutes(
+  userEmail: string,
+  request: SubstitutionRequest & { exercise: string; limit?: number }
+): Promise<{ planId: string; dayOfWeek: DayOfWeek; exercise: ProgrammedExercise; options: SubstituteOption[] }> {
+  const { plan, weekNumber, day, exercise, catalog, constraints } = await loadContext(userEmail, request);
+  if (!exercise) throw new SubstitutionError('exercise_not_found', `${request.exercise} isn't in the plan`);
+
+  const options = rankSubstitutes(exercise, catalog, constraints, {
+    exclude: (day.mainWorkout?.exercises ?? []).map((ex) => ex.exerciseId),
+    limit: request.limit,
+    guidelines: progressionForWeek(plan.plan_data, weekNumber),
+  });
+
+  return { planId: plan.id, dayOfWeek: day.dayOfWeek, exercise, options };
+}
+
+/**
+ * Swaps an exercise on the active plan (for `replacement`, an id or name, or
+ * the best substitute), or with no exercise given, every exercise on the day
+ * that breaks the constraints, then fits the day to the time limit and saves
+ * it. By default only this week's occurrence of the day changes, kept in
+ * the plan's dayOverrides. With scope 'rest_of_plan' the template week (the
+ * block's, on event-targeted plans) is rewritten, so the change carries
+ * forward.
+ */
+export async function rewritePlanDay(
+  userEmail: string,
+  request: SubstitutionRequest & { replacement?: string; scope?: RewriteScope }
+): Promise<DayRewrite & { planId: string; scope: RewriteScope }> {
+  const scope = request.scope ?? 'once';
+  const { plan, weekIndex, weekNumber, day, exercise, catalog, constraints } = await loadContext(userEmail, request, scope);
+
+  let replacement: ForgeExercise | undefined;
+  if (request.replacement) {
+    const ref = request.replacement.trim().toLowerCase();
+    replacement = catalog.find((ex) => ex.id === request.replacement || ex.name.toLowerCase() === ref);
+    if (!replacement || !fitsConstraints(replacement, constraints)) {
+      throw new SubstitutionError('invalid_replacement', `${request.replacement} isn't an exercise that fits the constraints`);
+    }
+  }
+
+  const rewrite = rewriteDay(day, catalog, constraints, {
+    exerciseId: exercise?.exerciseId,
+    replacement,
+    guidelines: progressionForWeek(plan.plan_data, weekNumber),
+  });
+
+  if (exercise && !rewrite.swaps.some((s) => s.toId)) {
+    throw new SubstitutionError('no_substitute', `No substitute for ${exercise.exerciseName} fits the constraints`);
+  }
+
+  if (rewrite.swaps.length > 0 || rewrite.changes.length > 0) {
+    // A template rewrite replaces this week's override of the day, and
+    // overrides of past weeks are dropped
+    const key = dayOverrideKey(weekNumber, day.dayOfWeek);
+    const dayOverrides = Object.fromEntries(
+      Object.entries(plan.plan_data.dayOverrides ?? {})
+        .filter(([k]) => k !== key && Number(k.split(':')[0]) >= weekNumber)
+    );
+
+    const planData: WorkoutPlanData = scope === 'once'
+      ? { ...plan.plan_data, dayOverrides: { ...dayOverrides, [key]: rewrite.day } }
+      : {
+        ...plan.plan_data,
+        dayOverrides,
+        weeks: plan.plan_data.weeks.map((week, i) =>
+          i === weekIndex
+            ? { ...week, days: week.days.map((d) => (d.dayOfWeek === day.dayOfWeek ? rewrite.day : d)) }
+            : week
+        ),
+      };
+
+    const { error } = await createAdminClient()
+      .from('forge_workout_plans')
+      .update({ plan_data: planData, updated_at: new Date().toISOString() })
+      .eq('id', plan.id)
+      .eq('user_email', userEmail);
+
+    if (error) throw new Error('Failed to save workout plan: ' + error.message);
+    console.log(`[ExerciseSubstitution] Rewrote ${day.dayOfWeek} (${scope}) on plan ${plan.id}: ${rewrite.swaps.length} swap(s), ${rewrite.changes.length} change(s)`);
+  }
+
+  return { planId: plan.id, scope, ...rewrite };
+}
@@ -5,6 +5,7 @@
  */
 
 import { getServiceClient } from '@/lib/supabase/server';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
 import type {
   UnifiedHealthContext,
   BloodBiomarkersContext,
@@ -220,7 +221,7 @@ async function fetchWhoopData(userEmail: string): Promise<WhoopData | null> {
     // Whoop data is fetched via backend API
     const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || ''}/api/whoop/fetch-data`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
       body: JSON.stringify({ userEmail }),
     });
 
@@ -0,0 +1,420 @@
+/**
+ * Macrocycle
+ * Periodizes a plan toward a dated event (a marathon, a powerlifting meet,
+ * ski season) as base, build, peak and taper blocks, each with its own split,
+ * goal and volume curve, and eases volume back in after missed sessions.
+ * Pure functions, no I/O.
+ */
+
+import { SPLIT_TEMPLATES, getProgressionStrategy, selectSplitType } from './split-templates';
+import { buildWeeklyTargets, isDeloadWeek } from './progression-engine';
+import type {
+  DifficultyLevel,
+  EventTarget,
+  EventType,
+  FitnessGoal,
+  Macrocycle,
+  MacrocycleAdjustment,
+  MacrocyclePhase,
+  MacrocycleWeek,
+  ProgrammedExercise,
+  ProgressionGuidelines,
+  ProgressionStrategy,
+  SplitType,
+  TrainingBlock,
+  WeekPlan,
+  WeekTarget,
+  WorkoutPlanData,
+} from './types';
+
+export const MIN_MACROCYCLE_WEEKS = 4;
+export const MAX_MACROCYCLE_WEEKS = 52;
+
+// Base and build blocks deload every 4th week; peak and taper already cut volume
+const DELOAD_EVERY_WEEKS = 4;
+const DELOAD_VOLUME = 0.6;
+
+// A week under this share of its planned sessions counts as missed
+const MISSED_WEEK_COMPLETION = 0.75;
+// Volume after a missed week restarts from what was done, never under the
+// floor, and climbs back one step a week
+const MIN_RETURN_VOLUME = 0.5;
+const RETURN_STEP = 0.1;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const MACROCYCLE_PHASES: MacrocyclePhase[] = ['base', 'build', 'peak', 'taper'];
+
+// ==================== ERRORS ====================
+
+export type MacrocycleErrorReason = 'invalid_date' | 'event_too_soon' | 'event_too_far';
+
+/**
+ * An event that can't be planned for, as opposed to a database failure.
+ * Routes answer these with a 4xx.
+ */
+export class MacrocycleError extends Error {
+  constructor(
+    public readonly reason: MacrocycleErrorReason,
+    message: string
+  ) {
+    super(message);
+    this.name = 'MacrocycleError';
+  }
+
+  get status(): number {
+    return this.reason === 'invalid_date' ? 400 : 422;
+  }
+}
+
+// ==================== EVENT PROFILES ====================
+
+interface PhaseProfile {
+  splitType?: Exclude<SplitType, 'auto'>;  // Chosen from the training days when omitted
+  goal: FitnessGoal;
+  volume: [number, number];                // Planned volume at the block's first and last week
+  daysDelta?: number;                      // Training days relative to the profile
+  focus: string;
+}
+
+interface EventProfile {
+  taperWeeks: number;
+  buildShare: number;                      // Of the weeks before the taper
+  peakShare: number;
+  phases: Record<MacrocyclePhase, PhaseProfile>;
+}
+
+export const EVENT_PROFILES: Record<EventType, EventProfile> = {
+  marathon: {
+    taperWeeks: 3,
+    buildShare: 0.35,
+    peakShare: 0.2,
+    phases: {
+      base: { goal: 'improveEndurance', volume: [0.8, 1], focus: 'Strength endurance and injury-proofing while mileage builds' },
+      build: { splitType: 'full_body', goal: 'improveEndurance', volume: [0.9, 0.8], focus: 'Lower-body strength, trimmed as the long runs get longer' },
+      peak: { splitType: 'full_body', goal: 'getStronger', volume: [0.7, 0.6], daysDelta: -1, focus: 'Heavy, low-volume maintenance around peak mileage' },
+      taper: { splitType: 'full_body', goal: 'generalFitness', volume: [0.5, 0.3], daysDelta: -1, focus: 'Mobility and light activation to stay fresh for race day' },
+    },
+  },
+  half_marathon: {
+    taperWeeks: 2,
+    buildShare: 0.35,
+    peakShare: 0.2,
+    phases: {
+      base: { goal: 'improveEndurance', volume: [0.8, 1], focus: 'Strength endurance and injury-proofing while mileage builds' },
+      build: { splitType: 'full_body', goal: 'improveEndurance', volume: [0.9, 0.85], focus: 'Lower-body strength and single-leg stability' },
+      peak: { splitType: 'full_body', goal: 'getStronger', volume: [0.75, 0.65], daysDelta: -1, focus: 'Heavy, low-volume maintenance around race-pace work' },
+      taper: { splitType: 'full_body', goal: 'generalFitness', volume: [0.5, 0.4], daysDelta: -1, focus: 'Mobility and light activation to stay fresh for race day' },
+    },
+  },
+  powerlifting_meet: {
+    taperWeeks: 1,
+    buildShare: 0.35,
+    peakShare: 0.2,
+    phases: {
+      base: { goal: 'buildMuscle', volume: [0.9, 1.1], focus: 'Hypertrophy and work capacity' },
+      build: { splitType: 'upper_lower', goal: 'getStronger', volume: [1, 1], focus: 'Strength in the squat, bench and deadlift' },
+      peak: { splitType: 'full_body', goal: 'getStronger', volume: [0.8, 0.6], focus: 'Heavy singles and doubles on the competition lifts' },
+      taper: { splitType: 'full_body', goal: 'getStronger', volume: [0.4, 0.4], daysDelta: -1, focus: 'Openers only; recover for the meet' },
+    },
+  },
+  ski_season: {
+    taperWeeks: 1,
+    buildShare: 0.35,
+    peakShare: 0.2,
+    phases: {
+      base: { goal: 'generalFitness', volume: [0.8, 1], focus: 'General strength and aerobic base' },
+      build: { splitType: 'upper_lower', goal: 'buildMuscle', volume: [1, 1.1], focus: 'Leg strength and single-leg stability' },
+      peak: { splitType: 'full_body', goal: 'getStronger', volume: [0.9, 0.8], focus: 'Power and eccentric leg strength' },
+      taper: { splitType: 'full_body', goal: 'generalFitness', volume: [0.6, 0.6], daysDelta: -1, focus: 'Stay sharp and fresh for the first days on snow' },
+    },
+  },
+  other: {
+    taperWeeks: 1,
+    buildShare: 0.35,
+    peakShare: 0.2,
+    phases: {
+      base: { goal: 'generalFitness', volume: [0.8, 1], focus: 'Work capacity and technique' },
+      build: { goal: 'buildMuscle', volume: [1, 1.1], focus: 'Strength and muscle' },
+      peak: { splitType: 'full_body', goal: 'getStronger', volume: [0.9, 0.7], focus: 'Intensity up, volume down' },
+      taper: { splitType: 'full_body', goal: 'generalFitness', volume: [0.5, 0.5], daysDelta: -1, focus: 'Recover and arrive fresh' },
+    },
+  },
+};
+
+// Base builds steadily, build varies the stimulus, peak concentrates
+// intensity and the taper holds loads while volume falls
+const PHASE_STRATEGY: Record<MacrocyclePhase, ProgressionStrategy> = {
+  base: 'linear',
+  build: 'undulating',
+  peak: 'block',
+  taper: 'linear',
+};
+
+// ==================== DATES ====================
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function parseDate(date: string): number {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return NaN;
+  return new Date(`${date}T00:00:00Z`).getTime();
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(parseDate(date) + days * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/**
+ * Weeks from the start date up to the event, the event's week included.
+ * Throws MacrocycleError when the event is too close or too far to plan for.
+ */
+export function macrocycleWeeks(eventDate: string, startDate: string): number {
+  const event = parseDate(eventDate);
+  const start = parseDate(startDate);
+  if (isNaN(event) || isNaN(start)) {
+    throw new MacrocycleError('invalid_date', `Event date must be YYYY-MM-DD, got ${eventDate}`);
+  }
+
+  const weeks = Math.ceil((event - start) / MS_PER_DAY / 7);
+  if (weeks < MIN_MACROCYCLE_WEEKS) {
+    throw new MacrocycleError('event_too_soon', `The event needs to be at least ${MIN_MACROCYCLE_WEEKS} weeks away to plan a build-up`);
+  }
+  if (weeks > MAX_MACROCYCLE_WEEKS) {
+    throw new MacrocycleError('event_too_far', `Events more than ${MAX_MACROCYCLE_WEEKS} weeks away can't be planned yet`);
+  }
+  return weeks;
+}
+
+// ==================== BLOCKS ====================
+
+/**
+ * Weeks per phase: the taper first (a quarter of the cycle at most), then
+ * the peak and build shares of the rest, with base taking what's left
+ */
+export function allocatePhaseWeeks(totalWeeks: number, type: EventType): Record<MacrocyclePhase, number> {
+  const profile = EVENT_PROFILES[type];
+  const taper = Math.min(profile.taperWeeks, Math.max(1, Math.floor(totalWeeks / 4)));
+  const rest = totalWeeks - taper;
+  const peak = Math.max(1, Math.round(rest * profile.peakShare));
+  const build = Math.max(1, Math.round(rest * profile.buildShare));
+
+  return { base: rest - peak - build, build, peak, taper };
+}
+
+function blockProgression(
+  phase: MacrocyclePhase,
+  goal: FitnessGoal,
+  experience: DifficultyLevel
+): ProgressionGuidelines {
+  const strategy = getProgressionStrategy(goal, experience);
+  const deloads = phase === 'base' || phase === 'build';
+
+  return {
+    // Block periodization needs a training history to work from
+    strategy: PHASE_STRATEGY[phase] === 'block' && experience === 'beginner' ? 'linear' : PHASE_STRATEGY[phase],
+    weeklyIncrements: strategy.weeklyIncrements,
+    repProgression: phase === 'taper'
+      ? 'Keep the loads from the start of the taper and do fewer sets'
+      : 'Complete all sets at the top of the rep range before increasing weight',
+    deloadFrequency: deloads ? `Every ${DELOAD_EVERY_WEEKS}th week of the block` : 'None; volume already falls toward the event',
+    deloadEveryWeeks: deloads ? DELOAD_EVERY_WEEKS : 0,
+    plateauStrategy: 'If stuck for 2+ weeks: reduce weight by 10%, increase reps, rebuild',
+  };
+}
+
+/**
+ * Training days a split schedules for the days asked: all of them, up to
+ * the template's own count
+ */
+function scheduledDays(splitType: Exclude<SplitType, 'auto'>, trainingDays: number): number {
+  return Math.min(trainingDays, SPLIT_TEMPLATES[splitType].days.filter((d) => !d.isRest).length);
+}
+
+/**
+ * Base, build, peak and taper blocks from the start date to the event, and
+ * the week-by-week timeline with each week's planned volume. Volume follows
+ * the phase's curve, and base and build drop to a deload every 4th week.
+ */
+export function buildMacrocycle(
+  event: EventTarget,
+  options: { startDate: string; trainingDays: number; experience: DifficultyLevel }
+): Macrocycle {
+  const totalWeeks = macrocycleWeeks(event.date, options.startDate);
+  const profile = EVENT_PROFILES[event.type];
+  const phaseWeeks = allocatePhaseWeeks(totalWeeks, event.type);
+
+  const blocks: TrainingBlock[] = [];
+  const timeline: MacrocycleWeek[] = [];
+  let startWeek = 1;
+
+  for (const phase of MACROCYCLE_PHASES) {
+    const weeks = phaseWeeks[phase];
+    const phaseProfile = profile.phases[phase];
+    const requestedDays = Math.max(2, Math.min(7, options.trainingDays + (phaseProfile.daysDelta ?? 0)));
+    const splitType = phaseProfile.splitType ?? selectSplitType(requestedDays, phaseProfile.goal);
+    const trainingDays = scheduledDays(splitType, requestedDays);
+    const progression = blockProgression(phase, phaseProfile.goal, options.experience);
+    const last = phase === 'taper';
+
+    blocks.push({
+      phase,
+      startWeek,
+      weeks,
+      startDate: addDays(options.startDate, (startWeek - 1) * 7),
+      endDate: last ? event.date : addDays(options.startDate, (startWeek - 1 + weeks) * 7 - 1),
+      splitType,
+      goal: phaseProfile.goal,
+      trainingDays,
+      focus: phaseProfile.focus,
+      progression,
+    });
+
+    const [from, to] = phaseProfile.volume;
+    for (let i = 0; i < weeks; i++) {
+      const weekNumber = startWeek + i;
+      const deload = isDeloadWeek(i + 1, progression.deloadEveryWeeks ?? 0);
+      const curve = weeks === 1 ? from : from + ((to - from) * i) / (weeks - 1);
+      const plannedVolume = round2(deload ? Math.min(curve, DELOAD_VOLUME) : curve);
+
+      timeline.push({
+        weekNumber,
+        startDate: addDays(options.startDate, (weekNumber - 1) * 7),
+        phase,
+        deload,
+        plannedVolume,
+        volumeMultiplier: plannedVolume,
+        plannedSessions: trainingDays,
+        completedSessions: null,
+      });
+    }
+
+    startWeek += weeks;
+  }
+
+  return { event, startDate: options.startDate, totalWeeks, blocks, timeline, adjustments: [] };
+}
+
+export function blockForWeek(macrocycle: Macrocycle, weekNumber: number): TrainingBlock | null {
+  return macrocycle.blocks.find((b) => weekNumber >= b.startWeek && weekNumber < b.startWeek + b.weeks) ?? null;
+}
+
+export function timelineWeek(macrocycle: Macrocycle, weekNumber: number): MacrocycleWeek | null {
+  return macrocycle.timeline.find((w) => w.weekNumber === weekNumber) ?? null;
+}
+
+/**
+ * Progression for a plan week: the training block's on event-targeted plans,
+ * the plan's own otherwise
+ */
+export function progressionForWeek(plan: WorkoutPlanData, weekNumber: number): ProgressionGuidelines {
+  const block = plan.macrocycle ? blockForWeek(plan.macrocycle, weekNumber) : null;
+  return block?.progression ?? plan.progression;
+}
+
+// ==================== TARGETS ====================
+
+/**
+ * A week target with its sets scaled. Deload weeks are already cut back and
+ * are left alone.
+ */
+export function scaleTargetVolume(target: WeekTarget, factor: number): WeekTarget {
+  if (target.phase === 'deload' || factor === 1) return target;
+  return { ...target, sets: Math.max(1, Math.round(target.sets * factor)) };
+}
+
+/**
+ * An exercise's targets across a block, numbered in macrocycle weeks, with
+ * sets following the timeline's planned volume. The taper holds the loads of
+ * its first week.
+ */
+export function buildBlockTargets(
+  exercise: ProgrammedExercise,
+  block: TrainingBlock,
+  timeline: MacrocycleWeek[],
+  oneRepMaxKg: number | null = null
+): WeekTarget[] {
+  const targets = buildWeeklyTargets(exercise, block.progression, {
+    weeks: block.phase === 'taper' ? 1 : block.weeks,
+    oneRepMaxKg,
+  });
+
+  return Array.from({ length: block.weeks }, (_, i) => {
+    const weekNumber = block.startWeek + i;
+    const target = targets[Math.min(i, targets.length - 1)];
+    const week = timeline.find((w) => w.weekNumber === weekNumber);
+    return scaleTargetVolume({ ...target, weekNumber }, week?.plannedVolume ?? 1);
+  });
+}
+
+/**
+ * A block's template week with block targets on every programmed exercise.
+ * `oneRepMaxes` is keyed by forge_exercises id.
+ */
+export function withBlockTargets(
+  week: WeekPlan,
+  block: TrainingBlock,
+  timeline: MacrocycleWeek[],
+  oneRepMaxes: Record<string, number> = {}
+): WeekPlan {
+  return {
+    ...week,
+    days: week.days.map((day) => day.mainWorkout
+      ? {
+          ...day,
+          mainWorkout: {
+            ...day.mainWorkout,
+            exercises: day.mainWorkout.exercises.map((exercise) => ({
+              ...exercise,
+              weeklyTargets: buildBlockTargets(exercise, block, timeline, oneRepMaxes[exercise.exerciseId] ?? null),
+            })),
+          },
+        }
+      : day),
+  };
+}
+
+// ==================== MISSED SESSIONS ====================
+
+/**
+ * The timeline with completed sessions recorded and volume lowered after
+ * missed weeks. A training week under 75% of its planned sessions caps the
+ * following weeks at the volume actually done (at least half) plus a step,
+ * rising a step a week until the plan's own curve is back under the cap.
+ * Recomputed from scratch, so sessions logged late still count; adjustments
+ * list the current and future weeks that were lowered.
+ */
+export function adjustForMissedSessions(
+  macrocycle: Macrocycle,
+  completedByWeek: Record<number, number>,
+  currentWeek: number
+): Macrocycle {
+  const adjustments: MacrocycleAdjustment[] = [];
+  let ceiling: number | null = null;
+  let cause = '';
+
+  const timeline = macrocycle.timeline.map((week) => {
+    const volumeMultiplier = ceiling !== null ? Math.min(week.plannedVolume, ceiling) : week.plannedVolume;
+    const completedSessions = week.weekNumber <= currentWeek ? completedByWeek[week.weekNumber] ?? 0 : null;
+
+    if (volumeMultiplier < week.plannedVolume && week.weekNumber >= currentWeek) {
+      adjustments.push({ weekNumber: week.weekNumber, plannedVolume: week.plannedVolume, volumeMultiplier, reason: cause });
+    }
+
+    if (ceiling !== null) ceiling = round2(ceiling + RETURN_STEP);
+
+    // Skipping a deload costs no fitness
+    if (completedSessions !== null && week.weekNumber < currentWeek && !week.deload && week.plannedSessions > 0) {
+      const completion = Math.min(1, completedSessions / week.plannedSessions);
+      if (completion < MISSED_WEEK_COMPLETION) {
+        ceiling = round2(Math.max(MIN_RETURN_VOLUME, completion * volumeMultiplier) + RETURN_STEP);
+        cause = `Missed ${week.plannedSessions - completedSessions} of ${week.plannedSessions} sessions in week ${week.weekNumber}`;
+      }
+    }
+
+    return { ...week, volumeMultiplier, completedSessions };
+  });
+
+  return { ...macrocycle, timeline, adjustments };
+}
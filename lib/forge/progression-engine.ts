@@ -0,0 +1,509 @@
+/**
+ * Progression Engine
+ * Turns a plan's progression strategy (linear, undulating or block) into
+ * week-by-week sets, rep targets and loads per exercise, schedules deloads,
+ * and adjusts the next session from logged performance and daily readiness.
+ * Pure functions, no I/O.
+ */
+
+import type {
+  ExerciseHistory,
+  FatigueAssessment,
+  LoggedExercise,
+  NextSessionPrescription,
+  ProgrammedExercise,
+  ProgressionGuidelines,
+  ProgressionPhase,
+  ProgressionStrategy,
+  TrainingReadiness,
+  WeekTarget,
+  WorkoutPlanData,
+} from './types';
+import { estimateOneRepMax, parseRepRange, repsInReserve } from './session-metrics';
+
+export const DEFAULT_PLAN_WEEKS = 4;
+
+// Matches the deloadFrequency text of each strategy in split-templates
+export const DEFAULT_DELOAD_EVERY_WEEKS: Record<ProgressionStrategy, number> = {
+  linear: 7,
+  undulating: 5,
+  block: 4,
+};
+
+const DEFAULT_INCREMENT_KG = { upperBody: 1, lowerBody: 2.5 };
+const DEFAULT_TARGET_RPE = 8;
+const LOAD_STEP_KG = 0.5;
+
+// Deload: ~60% of the sets at 90% of the load, two RPE points easier
+const DELOAD_SET_FACTOR = 0.6;
+const DELOAD_LOAD_FACTOR = 0.9;
+
+const REDUCE_LOAD_FACTOR = 0.95;
+const LOW_READINESS_LOAD_FACTOR = 0.9;
+const LOW_RECOVERY_SCORE = 34;
+const HIGH_RECOVERY_SCORE = 67;
+
+const LOWER_BODY_MUSCLES = ['quadriceps', 'quads', 'hamstrings', 'glutes', 'calves', 'legs'];
+
+// ==================== HELPERS ====================
+
+export function roundLoad(kg: number): number {
+  return Math.max(LOAD_STEP_KG, Math.round(kg / LOAD_STEP_KG) * LOAD_STEP_KG);
+}
+
+function clampRpe(rpe: number): number {
+  return Math.min(9.5, Math.max(5, Math.round(rpe * 2) / 2));
+}
+
+function formatReps(min: number, max: number): string {
+  return min === max ? `${min}` : `${min}-${max}`;
+}
+
+/**
+ * Increment from the guideline text ("1-2.5 kg per week" -> 1). Takes the low
+ * end so progression stays achievable.
+ */
+export function parseIncrementKg(text: string | undefined, fallback: number): number {
+  const match = /(\d+(?:\.\d+)?)/.exec(text ?? '');
+  const value = match ? parseFloat(match[1]) : NaN;
+  return value > 0 ? value : fallback;
+}
+
+export function isLowerBody(muscleGroups: string[]): boolean {
+  return muscleGroups.some((m) => LOWER_BODY_MUSCLES.includes(m.toLowerCase()));
+}
+
+export function incrementFor(
+  exercise: Pick<ProgrammedExercise, 'muscleGroups'>,
+  guidelines: Pick<ProgressionGuidelines, 'weeklyIncrements'>
+): number {
+  return isLowerBody(exercise.muscleGroups)
+    ? parseIncrementKg(guidelines.weeklyIncrements.lowerBody, DEFAULT_INCREMENT_KG.lowerBody)
+    : parseIncrementKg(guidelines.weeklyIncrements.upperBody, DEFAULT_INCREMENT_KG.upperBody);
+}
+
+/**
+ * Target RPE from the plan's intensity text ("2-3 reps in reserve" -> 7.5)
+ */
+export function targetRpeFromIntensity(intensity: string): number {
+  const match = /(\d+)(?:\s*-\s*(\d+))?\+?\s*reps? in reserve/i.exec(intensity);
+  if (!match) return DEFAULT_TARGET_RPE;
+
+  const low = parseInt(match[1], 10);
+  const high = match[2] ? parseInt(match[2], 10) : low;
+  return clampRpe(10 - (low + high) / 2);
+}
+
+/**
+ * Load for a rep target at an RPE, from an estimated 1RM (inverse Epley)
+ */
+export function loadForReps(oneRepMaxKg: number, reps: number, rpe: number): number {
+  const effectiveReps = reps + Math.max(0, 10 - rpe);
+  if (effectiveReps <= 1) return roundLoad(oneRepMaxKg);
+  return roundLoad(oneRepMaxKg / (1 + effectiveReps / 30));
+}
+
+export function deloadInterval(guidelines: Pick<ProgressionGuidelines, 'strategy' | 'deloadEveryWeeks'>): number {
+  return guidelines.deloadEveryWeeks ?? DEFAULT_DELOAD_EVERY_WEEKS[guidelines.strategy];
+}
+
+export function isDeloadWeek(weekNumber: number, everyWeeks: number): boolean {
+  return everyWeeks > 1 && weekNumber % everyWeeks === 0;
+}
+
+// ==================== STRATEGIES ====================
+
+interface PhaseShape {
+  phase: ProgressionPhase;
+  sets: number;
+  min: number;
+  max: number;
+  rpe: number;
+}
+
+const UNDULATING_WAVE: ProgressionPhase[] = ['moderate', 'heavy', 'light'];
+const BLOCK_PHASES: ProgressionPhase[] = ['accumulation', 'intensification', 'realization'];
+
+/**
+ * Shape of a training (non-deload) week. `index` counts training weeks from
+ * zero, so deloads don't shift the wave.
+ */
+function phaseShape(strategy: ProgressionStrategy, index: number, base: Omit<PhaseShape, 'phase'>): PhaseShape {
+  if (strategy === 'undulating') {
+    const phase = UNDULATING_WAVE[index % UNDULATING_WAVE.length];
+    if (phase === 'heavy') {
+      return { phase, sets: base.sets, min: Math.max(1, base.min - 2), max: base.min, rpe: clampRpe(base.rpe + 1) };
+    }
+    if (phase === 'light') {
+      return { phase, sets: base.sets, min: base.max, max: base.max + 3, rpe: clampRpe(base.rpe - 1) };
+    }
+    return { phase, ...base };
+  }
+
+  if (strategy === 'block') {
+    const phase = BLOCK_PHASES[index % BLOCK_PHASES.length];
+    if (phase === 'accumulation') {
+      return { phase, sets: base.sets + 1, min: base.min + 2, max: base.max + 2, rpe: clampRpe(base.rpe - 1) };
+    }
+    if (phase === 'realization') {
+      return {
+        phase,
+        sets: Math.max(2, base.sets - 1),
+        min: Math.max(1, base.min - 2),
+        max: Math.max(1, base.max - 2),
+        rpe: clampRpe(base.rpe + 1),
+      };
+    }
+    return { phase, ...base };
+  }
+
+  return { phase: 'linear', ...base };
+}
+
+/**
+ * Increments applied by a training week: linear adds one every week,
+ * undulating once per wave and block once per block
+ */
+function progressionSteps(strategy: ProgressionStrategy, index: number): number {
+  return strategy === 'linear' ? index : Math.floor(index / 3);
+}
+
+/**
+ * Week-by-week targets for an exercise. Loads need an estimated 1RM; without
+ * one the targets carry sets, reps and RPE only, and the first logged session
+ * sets the load.
+ */
+export function buildWeeklyTargets(
+  exercise: ProgrammedExercise,
+  guidelines: Pick<ProgressionGuidelines, 'strategy' | 'weeklyIncrements' | 'deloadEveryWeeks'>,
+  options: { weeks?: number; oneRepMaxKg?: number | null } = {}
+): WeekTarget[] {
+  const weeks = options.weeks ?? DEFAULT_PLAN_WEEKS;
+  const range = parseRepRange(exercise.reps);
+  const baseRpe = targetRpeFromIntensity(exercise.intensity);
+  const every = deloadInterval(guidelines);
+  const increment = incrementFor(exercise, guidelines);
+  const oneRepMax = options.oneRepMaxKg && range ? options.oneRepMaxKg : null;
+
+  const targets: WeekTarget[] = [];
+  let trainingWeeks = 0;
+  let lastLoad: number | null = null;
+
+  for (let weekNumber = 1; weekNumber <= weeks; weekNumber++) {
+    if (isDeloadWeek(weekNumber, every)) {
+      targets.push({
+        weekNumber,
+        phase: 'deload',
+        sets: Math.max(1, Math.round(exercise.sets * DELOAD_SET_FACTOR)),
+        reps: exercise.reps,
+        loadKg: lastLoad !== null ? roundLoad(lastLoad * DELOAD_LOAD_FACTOR) : null,
+        targetRpe: clampRpe(baseRpe - 2),
+      });
+      continue;
+    }
+
+    const shape = phaseShape(guidelines.strategy, trainingWeeks, {
+      sets: exercise.sets,
+      min: range?.min ?? 0,
+      max: range?.max ?? 0,
+      rpe: baseRpe,
+    });
+    const steps = progressionSteps(guidelines.strategy, trainingWeeks);
+
+    let loadKg: number | null = null;
+    if (oneRepMax !== null) {
+      loadKg = guidelines.strategy === 'linear'
+        ? roundLoad(loadForReps(oneRepMax, shape.max, shape.rpe) + steps * increment)
+        : loadForReps(oneRepMax + steps * increment, shape.max, shape.rpe);
+    }
+
+    targets.push({
+      weekNumber,
+      phase: shape.phase,
+      sets: shape.sets,
+      reps: range ? formatReps(shape.min, shape.max) : exercise.reps,
+      loadKg,
+      targetRpe: shape.rpe,
+    });
+
+    lastLoad = loadKg;
+    trainingWeeks++;
+  }
+
+  return targets;
+}
+
+/**
+ * The plan with weekly targets on every programmed exercise. `oneRepMaxes` is
+ * keyed by forge_exercises id.
+ */
+export function withWeeklyTargets(
+  plan: WorkoutPlanData,
+  weeks: number = DEFAULT_PLAN_WEEKS,
+  oneRepMaxes: Record<string, number> = {}
+): WorkoutPlanData {
+  return {
+    ...plan,
+    weeks: plan.weeks.map((week) => ({
+      ...week,
+      days: week.days.map((day) => day.mainWorkout
+        ? {
+            ...day,
+            mainWorkout: {
+              ...day.mainWorkout,
+              exercises: day.mainWorkout.exercises.map((exercise) => ({
+                ...exercise,
+                weeklyTargets: buildWeeklyTargets(exercise, plan.progression, {
+                  weeks,
+                  oneRepMaxKg: oneRepMaxes[exercise.exerciseId] ?? null,
+                }),
+              })),
+            },
+          }
+        : day),
+    })),
+  };
+}
+
+/**
+ * An exercise's target for a plan week, from the stored weekly targets or,
+ * past them or on plans built before them, computed without loads
+ */
+export function targetForWeek(
+  exercise: ProgrammedExercise,
+  guidelines: ProgressionGuidelines,
+  weekNumber: number
+): WeekTarget {
+  const stored = exercise.weeklyTargets?.find((t) => t.weekNumber === weekNumber);
+  if (stored) return stored;
+
+  const computed = buildWeeklyTargets(exercise, guidelines, { weeks: Math.max(1, weekNumber) });
+  return computed[computed.length - 1];
+}
+
+// ==================== FATIGUE ====================
+
+/**
+ * Deload early when progress stalls across the main lifts: over the last
+ * three sessions of an exercise the estimated 1RM hasn't gone up and the
+ * latest one was near failure (RPE 9+). Two or more stalled exercises that
+ * are at least half of those with enough history trigger a deload.
+ */
+export function detectFatigue(history: ExerciseHistory[]): FatigueAssessment {
+  const stalled: string[] = [];
+  let tracked = 0;
+
+  for (const exercise of history) {
+    const recent = exercise.entries.filter((e) => e.estimatedOneRepMaxKg !== null).slice(-3);
+    if (recent.length < 3) continue;
+    tracked++;
+
+    const first = recent[0].estimatedOneRepMaxKg ?? 0;
+    const latest = recent[2];
+    if ((latest.estimatedOneRepMaxKg ?? 0) <= first && (latest.averageRpe ?? 0) >= 9) {
+      stalled.push(exercise.exerciseName);
+    }
+  }
+
+  return {
+    deload: stalled.length >= 2 && stalled.length * 2 >= tracked,
+    stalledExercises: stalled,
+  };
+}
+
+// ==================== NEXT SESSION ====================
+
+export type ReadinessLevel = 'low' | 'moderate' | 'high';
+
+export function readinessLevel(readiness: TrainingReadiness = {}): ReadinessLevel {
+  const score = readiness.recoveryScore;
+  if (readiness.modifications?.prioritizeRecovery) return 'low';
+  if (score === null || score === undefined) return 'high';
+  if (score < LOW_RECOVERY_SCORE) return 'low';
+  if (score < HIGH_RECOVERY_SCORE) return 'moderate';
+  return 'high';
+}
+
+export interface PrescriptionInput {
+  exercise: ProgrammedExercise;
+  guidelines: ProgressionGuidelines;
+  target: WeekTarget;
+  /** The exercise's most recent logged performance */
+  lastPerformance?: LoggedExercise | null;
+  /** What that session prescribed; defaults to the exercise's base sets and reps */
+  lastPrescribed?: { sets: number; reps: string } | null;
+  readiness?: TrainingReadiness;
+  fatigue?: FatigueAssessment;
+}
+
+interface LastPerformance {
+  completedSets: number;
+  missedSets: number;
+  belowRange: number;
+  atTopOfRange: boolean;
+  averageRpe: number | null;
+  topLoadKg: number | null;
+  oneRepMaxKg: number | null;
+  sameTarget: boolean;
+}
+
+function readLastPerformance(input: PrescriptionInput): LastPerformance | null {
+  const logged = input.lastPerformance;
+  if (!logged || logged.skipped) return null;
+
+  const sets = logged.sets.filter((s) => s.completed);
+  if (sets.length === 0) return null;
+
+  const prescribed = input.lastPrescribed ?? { sets: input.exercise.sets, reps: input.exercise.reps };
+  const range = parseRepRange(prescribed.reps);
+  const rpes = sets
+    .map((s) => (s.rpe ?? (s.rir !== null && s.rir !== undefined ? 10 - s.rir : null)))
+    .filter((r): r is number => r !== null);
+
+  let topLoad: number | null = null;
+  let oneRepMax: number | null = null;
+  for (const set of sets) {
+    if (set.loadKg && (topLoad === null || set.loadKg > topLoad)) topLoad = set.loadKg;
+    const estimate = estimateOneRepMax(set.loadKg, set.reps, repsInReserve(set));
+    if (estimate !== null && (oneRepMax === null || estimate > oneRepMax)) oneRepMax = estimate;
+  }
+
+  return {
+    completedSets: sets.length,
+    missedSets: Math.max(0, prescribed.sets - sets.length),
+    belowRange: range ? sets.filter((s) => s.reps < range.min).length : 0,
+    atTopOfRange: range ? sets.every((s) => s.reps >= range.max) : false,
+    averageRpe: rpes.length > 0 ? rpes.reduce((a, b) => a + b, 0) / rpes.length : null,
+    topLoadKg: topLoad,
+    oneRepMaxKg: oneRepMax,
+    sameTarget: prescribed.reps === input.target.reps,
+  };
+}
+
+/**
+ * Next-session prescription for one exercise: the week's target, adjusted
+ * for how the last session went and for today's readiness.
+ *
+ * - Deload weeks, and deloads triggered by fatigue, take priority
+ * - All sets at the top of the range at or under the target RPE: progress
+ * - Missed reps or sets, or RPE well over target: hold or reduce the load
+ * - Low recovery drops a set and 10% of the load; moderate recovery holds
+ */
+export function prescribeNextSession(input: PrescriptionInput): NextSessionPrescription {
+  const { exercise, guidelines, target, readiness = {}, fatigue } = input;
+  const modifications = readiness.modifications;
+  const range = parseRepRange(target.reps);
+  const increment = incrementFor(exercise, guidelines);
+  const last = readLastPerformance(input);
+  const reasons: string[] = [];
+
+  const prescription: NextSessionPrescription = {
+    exerciseId: exercise.exerciseId,
+    exerciseName: exercise.exerciseName,
+    phase: target.phase,
+    sets: target.sets,
+    reps: target.reps,
+    loadKg: target.loadKg,
+    targetRpe: target.targetRpe,
+    restSeconds: exercise.restSeconds,
+    adjustment: 'as_planned',
+    reasons,
+  };
+
+  if (modifications?.skipTrainingToday) {
+    reasons.push(modifications.reasoningSummary || 'Health data suggests resting today');
+    return { ...prescription, sets: 0, loadKg: null, adjustment: 'rest' };
+  }
+
+  // Without a planned load, work from the last session: its estimated 1RM at
+  // this week's reps and RPE, or its top set
+  let plannedLoad = target.loadKg;
+  if (plannedLoad === null && last) {
+    plannedLoad = last.oneRepMaxKg !== null && range
+      ? loadForReps(last.oneRepMaxKg, range.max, target.targetRpe)
+      : last.topLoadKg;
+  }
+  prescription.loadKg = plannedLoad;
+
+  if (target.phase === 'deload' || fatigue?.deload) {
+    prescription.adjustment = 'deload';
+    if (target.phase === 'deload') {
+      reasons.push('Scheduled deload week');
+      if (target.loadKg === null && plannedLoad !== null) {
+        prescription.loadKg = roundLoad(plannedLoad * DELOAD_LOAD_FACTOR);
+      }
+    } else {
+      reasons.push(`Progress has stalled on ${fatigue?.stalledExercises.join(', ')}; deloading to recover`);
+      prescription.sets = Math.max(1, Math.round(target.sets * DELOAD_SET_FACTOR));
+      prescription.targetRpe = clampRpe(target.targetRpe - 2);
+      prescription.loadKg = plannedLoad !== null ? roundLoad(plannedLoad * DELOAD_LOAD_FACTOR) : null;
+    }
+    return prescription;
+  }
+
+  if (last) {
+    const rpeOver = last.averageRpe !== null ? last.averageRpe - target.targetRpe : 0;
+
+    if (last.belowRange * 2 > last.completedSets || last.missedSets >= 2 || (last.averageRpe ?? 0) >= 9.5) {
+      prescription.adjustment = 'reduce';
+      const reference = last.sameTarget && last.topLoadKg !== null ? last.topLoadKg : plannedLoad;
+      prescription.loadKg = reference !== null ? roundLoad(reference * REDUCE_LOAD_FACTOR) : null;
+      reasons.push('Missed reps or sets last session, or it was at failure; reducing the load');
+    } else if (last.missedSets > 0 || last.belowRange > 0 || rpeOver > 0.5) {
+      prescription.adjustment = 'hold';
+      if (last.sameTarget && last.topLoadKg !== null) {
+        prescription.loadKg = target.loadKg !== null ? Math.min(target.loadKg, last.topLoadKg) : last.topLoadKg;
+      }
+      reasons.push('Last session fell short of the target; holding the load');
+    } else if (last.atTopOfRange && rpeOver <= 0) {
+      prescription.adjustment = 'progress';
+      if (last.sameTarget && last.topLoadKg !== null) {
+        prescription.loadKg = roundLoad(Math.max(plannedLoad ?? 0, last.topLoadKg + increment));
+      } else if (last.oneRepMaxKg !== null && range && target.loadKg === null) {
+        prescription.loadKg = loadForReps(last.oneRepMaxKg + increment, range.max, target.targetRpe);
+      }
+      reasons.push(`Hit the top of the rep range last session; adding ${increment}kg`);
+    }
+  }
+
+  const level = readinessLevel(readiness);
+  if (level === 'low') {
+    prescription.adjustment = 'reduce';
+    prescription.sets = Math.max(1, prescription.sets - 1);
+    prescription.targetRpe = clampRpe(prescription.targetRpe - 1);
+    if (prescription.loadKg !== null) {
+      prescription.loadKg = roundLoad(prescription.loadKg * LOW_READINESS_LOAD_FACTOR);
+    }
+    reasons.push(
+      readiness.recoveryScore !== null && readiness.recoveryScore !== undefined
+        ? `Low recovery (${readiness.recoveryScore}); lighter session`
+        : 'Recovery is the priority today; lighter session'
+    );
+  } else if (level === 'moderate' && prescription.adjustment === 'progress') {
+    prescription.adjustment = 'hold';
+    prescription.loadKg = last?.sameTarget && last.topLoadKg !== null ? last.topLoadKg : plannedLoad;
+    reasons.push(`Moderate recovery (${readiness.recoveryScore}); holding instead of progressing`);
+  }
+
+  if (modifications && level !== 'low') {
+    if (modifications.intensityAdjustment < 0 && prescription.loadKg !== null) {
+      prescription.loadKg = roundLoad(prescription.loadKg * (1 + modifications.intensityAdjustment / 100));
+      reasons.push(`Intensity reduced ${-modifications.intensityAdjustment}% for current health data`);
+    }
+    if (modifications.volumeAdjustment < 0) {
+      prescription.sets = Math.max(1, Math.round(prescription.sets * (1 + modifications.volumeAdjustment / 100)));
+    }
+  }
+
+  if (modifications) {
+    const muscles = exercise.muscleGroups.map((m) => m.toLowerCase());
+    for (const [muscle, modifier] of Object.entries(modifications.muscleGroupModifiers)) {
+      if (modifier.reduceVolume && muscles.includes(muscle.toLowerCase())) {
+        prescription.sets = Math.max(1, Math.round(prescription.sets * (1 - modifier.reduceVolume / 100)));
+        if (modifier.reason) reasons.push(modifier.reason);
+      }
+    }
+  }
+
+  return prescription;
+}
@@ -0,0 +1,501 @@
+/**
+ * Session Metrics
+ * Compares logged workout sessions against the plan that prescribed them and
+ * derives per-exercise strength and volume history. Pure functions, no I/O.
+ */
+
+import type {
+  DayOfWeek,
+  DayPlan,
+  ExerciseComparison,
+  ExerciseHistory,
+  ExerciseHistoryEntry,
+  ForgeWorkoutSession,
+  LoggedExercise,
+  LoggedSet,
+  PerformanceSummary,
+  PlanAdherence,
+  ProgrammedExercise,
+  SessionComparison,
+  WorkoutPlanData,
+} from './types';
+
+// Epley gets unreliable past this many reps (counting reps in reserve)
+const MAX_REPS_FOR_ESTIMATE = 12;
+
+const DAY_INDEX: Record<DayOfWeek, number> = {
+  sunday: 0,
+  monday: 1,
+  tuesday: 2,
+  wednesday: 3,
+  thursday: 4,
+  friday: 5,
+  saturday: 6,
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ==================== SETS ====================
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 100) / 100 : null;
+}
+
+/**
+ * Prescribed rep range from a plan's reps text ("8-10", "12", "10 each side").
+ * Timed or open-ended prescriptions ("30 seconds", "AMRAP") have no range.
+ */
+export function parseRepRange(reps: string): { min: number; max: number } | null {
+  const text = reps.trim().toLowerCase();
+  if (/\b(sec|second|min|minute)s?\b|\d\s*s\b/.test(text)) return null;
+
+  const range = /(\d+)\s*(?:-|–|to)\s*(\d+)/.exec(text);
+  if (range) {
+    const a = parseInt(range[1], 10);
+    const b = parseInt(range[2], 10);
+    return { min: Math.min(a, b), max: Math.max(a, b) };
+  }
+
+  const single = /^(\d+)/.exec(text);
+  if (single) {
+    const n = parseInt(single[1], 10);
+    return { min: n, max: n };
+  }
+
+  return null;
+}
+
+/**
+ * Reps left in the tank, from RIR or RPE (RPE 8 = 2 in reserve). Sets logged
+ * with neither are treated as taken close to failure.
+ */
+export function repsInReserve(set: Pick<LoggedSet, 'rpe' | 'rir'>): number {
+  if (set.rir !== null && set.rir !== undefined) return Math.max(0, set.rir);
+  if (set.rpe !== null && set.rpe !== undefined) return Math.max(0, 10 - set.rpe);
+  return 0;
+}
+
+/**
+ * Estimated one-rep max (Epley), counting reps in reserve as reps the athlete
+ * could have done. Null for bodyweight sets and high-rep sets.
+ */
+export function estimateOneRepMax(loadKg: number | null, reps: number, rir = 0): number | null {
+  if (!loadKg || loadKg <= 0 || reps < 1) return null;
+
+  const effectiveReps = reps + rir;
+  if (effectiveReps > MAX_REPS_FOR_ESTIMATE) return null;
+  if (effectiveReps === 1) return round1(loadKg);
+
+  return round1(loadKg * (1 + effectiveReps / 30));
+}
+
+export function setVolume(set: LoggedSet): number {
+  return set.completed && set.loadKg ? set.reps * set.loadKg : 0;
+}
+
+interface LoggedExerciseTotals {
+  completedSets: number;
+  volumeKg: number;
+  topSet: LoggedSet | null;
+  estimatedOneRepMaxKg: number | null;
+  averageRpe: number | null;
+}
+
+function totalsFor(logged: LoggedExercise | null): LoggedExerciseTotals {
+  const sets = logged && !logged.skipped ? logged.sets.filter((s) => s.completed) : [];
+
+  let topSet: LoggedSet | null = null;
+  let best: number | null = null;
+  let volume = 0;
+  const rpes: number[] = [];
+
+  for (const set of sets) {
+    volume += setVolume(set);
+    if (set.rpe !== null && set.rpe !== undefined) rpes.push(set.rpe);
+
+    if (!topSet || (set.loadKg ?? 0) > (topSet.loadKg ?? 0) ||
+        ((set.loadKg ?? 0) === (topSet.loadKg ?? 0) && set.reps > topSet.reps)) {
+      topSet = set;
+    }
+
+    const estimate = estimateOneRepMax(set.loadKg, set.reps, repsInReserve(set));
+    if (estimate !== null && (best === null || estimate > best)) best = estimate;
+  }
+
+  return {
+    completedSets: sets.length,
+    volumeKg: round1(volume),
+    topSet,
+    estimatedOneRepMaxKg: best,
+    averageRpe: rpes.length > 0 ? round1(rpes.reduce((a, b) => a + b, 0) / rpes.length) : null,
+  };
+}
+
+// ==================== ACTUAL VS PRESCRIBED ====================
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Key that identifies an exercise across sessions: its forge_exercises id, or
+ * its name for exercises logged without one
+ */
+export function exerciseKey(exercise: { exerciseId: string | null; exerciseName: string }): string {
+  return exercise.exerciseId || `name:${normalizeName(exercise.exerciseName)}`;
+}
+
+/**
+ * Whether a logged exercise is the prescribed one, by id or by name
+ */
+export function sameExercise(prescribed: ProgrammedExercise, logged: LoggedExercise): boolean {
+  if (logged.exerciseId && logged.exerciseId === prescribed.exerciseId) return true;
+  return normalizeName(logged.exerciseName) === normalizeName(prescribed.exerciseName);
+}
+
+/**
+ * One exercise's logged sets against its prescription. Either side may be
+ * missing: a prescribed exercise that wasn't logged, or an unplanned one.
+ */
+export function compareExercise(
+  prescribed: ProgrammedExercise | null,
+  logged: LoggedExercise | null
+): ExerciseComparison {
+  const totals = totalsFor(logged);
+  const range = prescribed ? parseRepRange(prescribed.reps) : null;
+  const completed = logged && !logged.skipped ? logged.sets.filter((s) => s.completed) : [];
+
+  return {
+    exerciseId: logged?.exerciseId ?? prescribed?.exerciseId ?? null,
+    exerciseName: prescribed?.exerciseName ?? logged?.exerciseName ?? 'Exercise',
+    prescribed: prescribed !== null,
+    skipped: !logged || logged.skipped,
+    prescribedSets: prescribed?.sets ?? 0,
+    completedSets: totals.completedSets,
+    prescribedReps: prescribed?.reps ?? null,
+    setsInRepRange: range
+      ? completed.filter((s) => s.reps >= range.min && s.reps <= range.max).length
+      : 0,
+    volumeKg: totals.volumeKg,
+    topSetLoadKg: totals.topSet?.loadKg ?? null,
+    estimatedOneRepMaxKg: totals.estimatedOneRepMaxKg,
+    averageRpe: totals.averageRpe,
+  };
+}
+
+/**
+ * Index of the template week in force for a plan week. Plans store one
+ * template week that repeats for the plan's duration, so later weeks cycle
+ * through it; event-targeted plans store one per training block, numbered by
+ * the block's first week, and have none past the event. -1 when there's none.
+ */
+export function planWeekIndex(plan: WorkoutPlanData, weekNumber: number | null): number {
+  if (plan.weeks.length === 0) return -1;
+
+  const macrocycle = plan.macrocycle;
+  if (macrocycle && weekNumber !== null) {
+    const block = macrocycle.blocks.find((b) => weekNumber >= b.startWeek && weekNumber < b.startWeek + b.weeks);
+    return block ? plan.weeks.findIndex((w) => w.weekNumber === block.startWeek) : -1;
+  }
+
+  const found = plan.weeks.findIndex((w) => w.weekNumber === weekNumber);
+  return found !== -1 ? found : ((weekNumber ?? 1) - 1) % plan.weeks.length;
+}
+
+/**
+ * Key of a one-off change to one day of one plan week, in dayOverrides
+ */
+export function dayOverrideKey(weekNumber: number, dayOfWeek: DayOfWeek): string {
+  return `${weekNumber}:${dayOfWeek}`;
+}
+
+/**
+ * Plan day a session was logged against: that week's override of the day,
+ * if it has one, else the template week's
+ */
+export function findPlannedDay(
+  plan: WorkoutPlanData,
+  weekNumber: number | null,
+  dayOfWeek: DayOfWeek | null
+): DayPlan | null {
+  if (!dayOfWeek) return null;
+
+  const override = weekNumber !== null ? plan.dayOverrides?.[dayOverrideKey(weekNumber, dayOfWeek)] : undefined;
+  if (override) return override;
+
+  const week = plan.weeks[planWeekIndex(plan, weekNumber)];
+  return week?.days.find((d) => d.dayOfWeek === dayOfWeek && !d.isRestDay) ?? null;
+}
+
+/**
+ * A logged session against the plan day it was logged for. Without a plan
+ * day every exercise counts as unplanned.
+ */
+export function compareSession(
+  session: Pick<ForgeWorkoutSession, 'id' | 'day_of_week' | 'focus' | 'duration_minutes' | 'exercises'>,
+  day: DayPlan | null
+): SessionComparison {
+  const prescribed = day?.mainWorkout?.exercises ?? [];
+  const matched = new Set<LoggedExercise>();
+  const exercises: ExerciseComparison[] = [];
+
+  for (const exercise of prescribed) {
+    const logged = session.exercises.find((l) => !matched.has(l) && sameExercise(exercise, l)) ?? null;
+    if (logged) matched.add(logged);
+    exercises.push(compareExercise(exercise, logged));
+  }
+
+  for (const logged of session.exercises) {
+    if (!matched.has(logged) && !logged.skipped) {
+      exercises.push(compareExercise(null, logged));
+    }
+  }
+
+  const planned = exercises.filter((e) => e.prescribed);
+  const prescribedSets = planned.reduce((sum, e) => sum + e.prescribedSets, 0);
+  const completedPrescribedSets = planned.reduce((sum, e) => sum + Math.min(e.completedSets, e.prescribedSets), 0);
+  const rangedSets = planned
+    .filter((e) => e.prescribedReps && parseRepRange(e.prescribedReps))
+    .reduce((sum, e) => sum + e.completedSets, 0);
+  const inRange = planned.reduce((sum, e) => sum + e.setsInRepRange, 0);
+
+  return {
+    sessionId: session.id,
+    dayOfWeek: session.day_of_week,
+    focus: session.focus ?? day?.focus ?? null,
+    exercises,
+    skippedExercises: planned.filter((e) => e.skipped).map((e) => e.exerciseName),
+    unplannedExercises: exercises.filter((e) => !e.prescribed).map((e) => e.exerciseName),
+    prescribedSets,
+    completedSets: exercises.reduce((sum, e) => sum + e.completedSets, 0),
+    setCompletion: ratio(completedPrescribedSets, prescribedSets),
+    repTargetHitRate: ratio(inRange, rangedSets),
+    volumeKg: round1(exercises.reduce((sum, e) => sum + e.volumeKg, 0)),
+    durationMinutes: session.duration_minutes,
+    estimatedDurationMinutes: day?.estimatedDuration ?? null,
+  };
+}
+
+// ==================== PLAN ADHERENCE ====================
+
+function startOfDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/**
+ * 1-based plan week for a date, counting whole weeks from when the plan started
+ */
+export function currentPlanWeek(startedAt: string, now: Date = new Date()): number {
+  const days = Math.floor((startOfDay(now) - startOfDay(new Date(startedAt))) / MS_PER_DAY);
+  return Math.max(1, Math.floor(days / 7) + 1);
+}
+
+/**
+ * Training days the plan has scheduled from its start up to and including
+ * today. Each plan week runs seven days from the start date, and a training
+ * day falls on the first matching weekday in it.
+ */
+export function countPlannedSessions(
+  plan: WorkoutPlanData,
+  startedAt: string,
+  durationWeeks: number,
+  now: Date = new Date()
+): number {
+  if (plan.weeks.length === 0) return 0;
+
+  const start = startOfDay(new Date(startedAt));
+  const today = startOfDay(now);
+  const weeks = Math.min(currentPlanWeek(startedAt, now), Math.max(1, durationWeeks));
+  let count = 0;
+
+  for (let week = 1; week <= weeks; week++) {
+    const weekStart = start + (week - 1) * 7 * MS_PER_DAY;
+    const template = plan.weeks[planWeekIndex(plan, week)];
+    if (!template) continue;
+
+    for (const day of template.days) {
+      if (day.isRestDay) continue;
+      const offset = (DAY_INDEX[day.dayOfWeek] - new Date(weekStart).getUTCDay() + 7) % 7;
+      if (weekStart + offset * MS_PER_DAY <= today) count++;
+    }
+  }
+
+  return count;
+}
+
+export interface PlanRecord {
+  id: string;
+  plan_data: WorkoutPlanData;
+  started_at: string | null;
+  created_at: string;
+  duration_weeks: number | null;
+}
+
+/**
+ * How closely the logged sessions follow a plan: sessions done against
+ * scheduled, prescribed sets completed, sets in the prescribed rep range and
+ * the exercises skipped most often
+ */
+export function summarizeAdherence(
+  plan: PlanRecord,
+  sessions: ForgeWorkoutSession[],
+  now: Date = new Date()
+): PlanAdherence {
+  const startedAt = plan.started_at || plan.created_at;
+  const planSessions = sessions.filter((s) => s.plan_id === plan.id && s.status === 'completed');
+
+  let prescribedSets = 0;
+  let completedPrescribedSets = 0;
+  let rangedSets = 0;
+  let inRange = 0;
+  const skipped = new Map<string, number>();
+
+  for (const session of planSessions) {
+    const comparison = compareSession(
+      session,
+      findPlannedDay(plan.plan_data, session.week_number, session.day_of_week)
+    );
+
+    for (const exercise of comparison.exercises) {
+      if (!exercise.prescribed) continue;
+      prescribedSets += exercise.prescribedSets;
+      completedPrescribedSets += Math.min(exercise.completedSets, exercise.prescribedSets);
+      if (exercise.prescribedReps && parseRepRange(exercise.prescribedReps)) {
+        rangedSets += exercise.completedSets;
+        inRange += exercise.setsInRepRange;
+      }
+      if (exercise.skipped) {
+        skipped.set(exercise.exerciseName, (skipped.get(exercise.exerciseName) ?? 0) + 1);
+      }
+    }
+  }
+
+  const sessionsPlanned = countPlannedSessions(plan.plan_data, startedAt, plan.duration_weeks ?? 4, now);
+
+  return {
+    planId: plan.id,
+    currentWeek: currentPlanWeek(startedAt, now),
+    sessionsPlanned,
+    sessionsCompleted: planSessions.length,
+    sessionAdherence: sessionsPlanned > 0 ? Math.min(1, ratio(planSessions.length, sessionsPlanned) ?? 0) : null,
+    setCompletion: ratio(completedPrescribedSets, prescribedSets),
+    repTargetHitRate: ratio(inRange, rangedSets),
+    mostSkippedExercises: Array.from(skipped.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(([exerciseName, timesSkipped]) => ({ exerciseName, timesSkipped })),
+  };
+}
+
+// ==================== EXERCISE HISTORY ====================
+
+/**
+ * Per-exercise estimated 1RM and volume, one entry per session the exercise
+ * was performed in. Abandoned sessions count; their completed sets were real.
+ */
+export function buildExerciseHistory(sessions: ForgeWorkoutSession[]): ExerciseHistory[] {
+  const byExercise = new Map<string, { exerciseId: string | null; exerciseName: string; entries: ExerciseHistoryEntry[] }>();
+  const ordered = [...sessions].sort((a, b) => a.started_at.localeCompare(b.started_at));
+
+  for (const session of ordered) {
+    for (const logged of session.exercises) {
+      const totals = totalsFor(logged);
+      if (totals.completedSets === 0) continue;
+
+      const key = exerciseKey(logged);
+      let history = byExercise.get(key);
+      if (!history) {
+        history = { exerciseId: logged.exerciseId, exerciseName: logged.exerciseName, entries: [] };
+        byExercise.set(key, history);
+      }
+
+      history.entries.push({
+        sessionId: session.id,
+        date: session.started_at.slice(0, 10),
+        sets: totals.completedSets,
+        topSetReps: totals.topSet?.reps ?? null,
+        topSetLoadKg: totals.topSet?.loadKg ?? null,
+        volumeKg: totals.volumeKg,
+        estimatedOneRepMaxKg: totals.estimatedOneRepMaxKg,
+        averageRpe: totals.averageRpe,
+      });
+    }
+  }
+
+  return Array.from(byExercise.values())
+    .map((history) => {
+      const estimates = history.entries
+        .map((e) => e.estimatedOneRepMaxKg)
+        .filter((e): e is number => e !== null);
+      const first = estimates[0] ?? null;
+      const latest = estimates[estimates.length - 1] ?? null;
+
+      return {
+        ...history,
+        bestEstimatedOneRepMaxKg: estimates.length > 0 ? Math.max(...estimates) : null,
+        latestEstimatedOneRepMaxKg: latest,
+        estimatedOneRepMaxChangeKg: first !== null && latest !== null && estimates.length > 1
+          ? round1(latest - first)
+          : null,
+        totalVolumeKg: round1(history.entries.reduce((sum, e) => sum + e.volumeKg, 0)),
+      };
+    })
+    .sort((a, b) => b.entries.length - a.entries.length || b.totalVolumeKg - a.totalVolumeKg);
+}
+
+// ==================== PROMPT CONTEXT ====================
+
+function percent(value: number | null): string {
+  return value === null ? 'n/a' : `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Plain-text summary of logged performance for coaching and adaptation
+ * prompts. Empty when nothing has been logged.
+ */
+export function formatPerformanceSummary(summary: PerformanceSummary, maxExercises = 8): string {
+  if (summary.sessionsLogged === 0) return '';
+
+  const lines: string[] = [`Sessions logged (last ${summary.periodDays} days): ${summary.sessionsLogged}`];
+
+  const { adherence } = summary;
+  if (adherence) {
+    lines.push(
+      `Plan week ${adherence.currentWeek}: ${adherence.sessionsCompleted}/${adherence.sessionsPlanned} scheduled sessions done ` +
+      `(${percent(adherence.sessionAdherence)}), ${percent(adherence.setCompletion)} of prescribed sets completed, ` +
+      `${percent(adherence.repTargetHitRate)} of sets in the prescribed rep range`
+    );
+    if (adherence.mostSkippedExercises.length > 0) {
+      lines.push(
+        `Most skipped: ${adherence.mostSkippedExercises.map((e) => `${e.exerciseName} (${e.timesSkipped}x)`).join(', ')}`
+      );
+    }
+  }
+
+  for (const exercise of summary.exercises.slice(0, maxExercises)) {
+    const latest = exercise.entries[exercise.entries.length - 1];
+    const count = exercise.entries.length;
+    const parts = [`${count} session${count === 1 ? '' : 's'}`];
+    if (latest.topSetLoadKg !== null && latest.topSetReps !== null) {
+      parts.push(`last top set ${latest.topSetLoadKg}kg x ${latest.topSetReps}`);
+    } else if (latest.topSetReps !== null) {
+      parts.push(`last top set ${latest.topSetReps} reps`);
+    }
+    if (latest.averageRpe !== null) parts.push(`RPE ${latest.averageRpe}`);
+    if (exercise.latestEstimatedOneRepMaxKg !== null) {
+      const change = exercise.estimatedOneRepMaxChangeKg;
+      parts.push(
+        `e1RM ${exercise.latestEstimatedOneRepMaxKg}kg` +
+        (change !== null ? ` (${change >= 0 ? '+' : ''}${change}kg)` : '')
+      );
+    }
+    parts.push(`volume ${exercise.totalVolumeKg}kg`);
+    lines.push(`- ${exercise.exerciseName}: ${parts.join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
@@ -409,6 +409,7 @@ export function getProgressionStrategy(goal: FitnessGoal, experience: string): {
   description: string;
   weeklyIncrements: { upperBody: string; lowerBody: string };
   deloadFrequency: string;
+  deloadEveryWeeks: number;
 } {
   if (experience === 'beginner') {
     return {
@@ -419,6 +420,7 @@ export function getProgressionStrategy(goal: FitnessGoal, experience: string): {
         lowerBody: '2.5-5 kg per week',
       },
       deloadFrequency: 'Every 6-8 weeks or when progress stalls',
+      deloadEveryWeeks: 7,
     };
   }
 
@@ -431,6 +433,7 @@ export function getProgressionStrategy(goal: FitnessGoal, experience: string): {
         lowerBody: '2-3 kg per block',
       },
       deloadFrequency: 'Every 4th week',
+      deloadEveryWeeks: 4,
     };
   }
 
@@ -442,5 +445,6 @@ export function getProgressionStrategy(goal: FitnessGoal, experience: string): {
       lowerBody: '2.5-5 kg when completing rep targets',
     },
     deloadFrequency: 'Every 4-6 weeks',
+    deloadEveryWeeks: 5,
   };
 }
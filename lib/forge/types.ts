@@ -128,6 +128,8 @@ export interface WorkoutPlanData {
   };
   weeks: WeekPlan[];
   progression: ProgressionGuidelines;
+  macrocycle?: Macrocycle;  // Event-targeted plans: one template week per training block
+  dayOverrides?: Record<string, DayPlan>;  // One-off changes to a single day, keyed by dayOverrideKey
 }
 
 export interface WeekPlan {
@@ -179,6 +181,7 @@ export interface ProgrammedExercise {
 
   // Progression
   progressionNotes?: string;
+  weeklyTargets?: WeekTarget[];  // Week-by-week targets from the progression engine
 
   // From database (denormalized for fast rendering)
   tips: string[];
@@ -207,18 +210,19 @@ export interface ProgressionGuidelines {
   };
   repProgression: string;
   deloadFrequency: string;
+  deloadEveryWeeks?: number;  // Scheduled deload interval; plans built before it existed use the strategy default
   plateauStrategy: string;
 }
 
 // ==================== API TYPES ====================
 
 export interface GenerateWorkoutPlanRequest {
-  userEmail: string;
   overrides?: {
     trainingDays?: number;
     sessionLength?: number;
     splitType?: SplitType;
     excludeExercises?: string[]; // exercise IDs to exclude
+    event?: EventTarget;         // Periodizes the plan into blocks leading up to the event
   };
 }
 
@@ -389,3 +393,290 @@ export interface EnhancedExerciseQueryParams extends ExerciseQueryParams {
   preferCompound?: boolean;
   avoidHighImpact?: boolean;
 }
+
+// ==================== WORKOUT SESSIONS ====================
+
+export type WorkoutSessionStatus = 'in_progress' | 'completed' | 'abandoned';
+
+export interface LoggedSet {
+  reps: number;
+  loadKg: number | null;   // null for bodyweight
+  rpe?: number | null;     // 1-10
+  rir?: number | null;     // reps in reserve
+  completed: boolean;      // false for a set that was started but failed
+}
+
+export interface LoggedExercise {
+  // Reference to forge_exercises; null for exercises added on the fly
+  exerciseId: string | null;
+  exerciseName: string;
+  skipped: boolean;
+  skipReason?: string | null;
+  sets: LoggedSet[];
+  notes?: string | null;
+}
+
+/** What the athlete actually did on a training day (forge_workout_sessions) */
+export interface ForgeWorkoutSession {
+  id: string;
+  user_email: string;
+  plan_id: string | null;
+  week_number: number | null;
+  day_of_week: DayOfWeek | null;
+  focus: string | null;
+  status: WorkoutSessionStatus;
+  started_at: string;
+  completed_at: string | null;
+  duration_minutes: number | null;
+  session_rpe: number | null;
+  notes: string | null;
+  exercises: LoggedExercise[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkoutSessionInput {
+  plan_id?: string | null;
+  week_number?: number | null;
+  day_of_week?: DayOfWeek | null;
+  focus?: string | null;
+  status?: WorkoutSessionStatus;
+  started_at?: string;
+  completed_at?: string | null;
+  duration_minutes?: number | null;
+  session_rpe?: number | null;
+  notes?: string | null;
+  exercises?: LoggedExercise[];
+}
+
+export type WorkoutSessionUpdate = Omit<WorkoutSessionInput, 'plan_id' | 'week_number' | 'day_of_week'>;
+
+// ==================== ACTUAL VS PRESCRIBED ====================
+
+export interface ExerciseComparison {
+  exerciseId: string | null;
+  exerciseName: string;
+  prescribed: boolean;       // false for exercises not in the plan for that day
+  skipped: boolean;
+  prescribedSets: number;
+  completedSets: number;
+  prescribedReps: string | null;
+  setsInRepRange: number;    // completed sets whose reps fell in the prescribed range
+  volumeKg: number;          // sum of reps x load over completed sets
+  topSetLoadKg: number | null;
+  estimatedOneRepMaxKg: number | null;
+  averageRpe: number | null;
+}
+
+export interface SessionComparison {
+  sessionId: string;
+  dayOfWeek: DayOfWeek | null;
+  focus: string | null;
+  exercises: ExerciseComparison[];
+  skippedExercises: string[];     // prescribed but skipped or not logged
+  unplannedExercises: string[];
+  prescribedSets: number;
+  completedSets: number;
+  setCompletion: number | null;   // completed / prescribed sets, 0-1
+  repTargetHitRate: number | null; // share of completed prescribed sets in rep range
+  volumeKg: number;
+  durationMinutes: number | null;
+  estimatedDurationMinutes: number | null;
+}
+
+export interface PlanAdherence {
+  planId: string;
+  currentWeek: number;
+  sessionsPlanned: number;        // training days up to and including today
+  sessionsCompleted: number;
+  sessionAdherence: number | null; // 0-1
+  setCompletion: number | null;
+  repTargetHitRate: number | null;
+  mostSkippedExercises: { exerciseName: string; timesSkipped: number }[];
+}
+
+export interface ExerciseHistoryEntry {
+  sessionId: string;
+  date: string;                   // YYYY-MM-DD
+  sets: number;
+  topSetReps: number | null;
+  topSetLoadKg: number | null;
+  volumeKg: number;
+  estimatedOneRepMaxKg: number | null;
+  averageRpe: number | null;
+}
+
+export interface ExerciseHistory {
+  exerciseId: string | null;
+  exerciseName: string;
+  entries: ExerciseHistoryEntry[]; // oldest first
+  bestEstimatedOneRepMaxKg: number | null;
+  latestEstimatedOneRepMaxKg: number | null;
+  estimatedOneRepMaxChangeKg: number | null; // latest vs first entry with an estimate
+  totalVolumeKg: number;
+}
+
+export interface PerformanceSummary {
+  periodDays: number;
+  sessionsLogged: number;
+  adherence: PlanAdherence | null;  // null without an active plan
+  exercises: ExerciseHistory[];
+}
+
+// ==================== PROGRESSION ====================
+
+export type ProgressionStrategy = ProgressionGuidelines['strategy'];
+
+export type ProgressionPhase =
+  | 'linear'
+  | 'heavy'
+  | 'moderate'
+  | 'light'
+  | 'accumulation'
+  | 'intensification'
+  | 'realization'
+  | 'deload';
+
+export interface WeekTarget {
+  weekNumber: number;
+  phase: ProgressionPhase;
+  sets: number;
+  reps: string;            // e.g., "6-8"
+  loadKg: number | null;   // null until there's a logged or estimated max to work from
+  targetRpe: number;
+}
+
+export interface TrainingReadiness {
+  recoveryScore?: number | null;  // 0-100
+  modifications?: TrainingModifications | null;
+}
+
+export type PrescriptionAdjustment = 'as_planned' | 'progress' | 'hold' | 'reduce' | 'deload' | 'rest';
+
+export interface NextSessionPrescription {
+  exerciseId: string;
+  exerciseName: string;
+  phase: ProgressionPhase;
+  sets: number;
+  reps: string;
+  loadKg: number | null;
+  targetRpe: number;
+  restSeconds: number;
+  adjustment: PrescriptionAdjustment;
+  reasons: string[];
+}
+
+export interface FatigueAssessment {
+  deload: boolean;
+  stalledExercises: string[];
+}
+
+export interface NextSessionPlan {
+  planId: string;
+  weekNumber: number;
+  dayOfWeek: DayOfWeek;
+  focus: string;
+  scheduledDeload: boolean;
+  fatigue: FatigueAssessment;
+  exercises: NextSessionPrescription[];
+}
+
+// ==================== SUBSTITUTION ====================
+
+export type MovementPattern =
+  | 'squat'
+  | 'hinge'
+  | 'lunge'
+  | 'horizontal_push'
+  | 'vertical_push'
+  | 'horizontal_pull'
+  | 'vertical_pull'
+  | 'knee_flexion'
+  | 'knee_extension'
+  | 'elbow_flexion'
+  | 'elbow_extension'
+  | 'shoulder_raise'
+  | 'calf_raise'
+  | 'carry'
+  | 'core'
+  | 'other';
+
+export interface SubstitutionConstraints {
+  equipment?: string[];        // What's available now, e.g. a hotel gym; the profile's equipment when omitted
+  injuries?: InjuryArea[];     // Added to the profile's injuries
+  timeLimitMinutes?: number;   // Whole session, warmup and cooldown included
+  experienceLevel?: DifficultyLevel;
+}
+
+export interface SubstituteOption {
+  exercise: ForgeExercise;
+  score: number;               // 0-100
+  reasons: string[];
+  prescription: ProgrammedExercise;
+}
+
+export interface ExerciseSwap {
+  fromId: string;
+  fromName: string;
+  toId: string | null;         // null when dropped for lack of a substitute
+  toName: string | null;
+  reasons: string[];
+}
+
+export interface DayRewrite {
+  day: DayPlan;
+  swaps: ExerciseSwap[];
+  changes: string[];           // Sets, rest and dropped exercises, to fit the time limit
+}
+
+// ==================== MACROCYCLE ====================
+
+export type EventType = 'marathon' | 'half_marathon' | 'powerlifting_meet' | 'ski_season' | 'other';
+
+export type MacrocyclePhase = 'base' | 'build' | 'peak' | 'taper';
+
+export interface EventTarget {
+  type: EventType;
+  name: string;              // e.g., "Berlin Marathon"
+  date: string;              // YYYY-MM-DD
+}
+
+export interface TrainingBlock {
+  phase: MacrocyclePhase;
+  startWeek: number;         // Macrocycle week, 1-based
+  weeks: number;
+  startDate: string;         // YYYY-MM-DD
+  endDate: string;
+  splitType: Exclude<SplitType, 'auto'>;
+  goal: FitnessGoal;
+  trainingDays: number;
+  focus: string;
+  progression: ProgressionGuidelines;
+}
+
+export interface MacrocycleWeek {
+  weekNumber: number;
+  startDate: string;
+  phase: MacrocyclePhase;
+  deload: boolean;
+  plannedVolume: number;     // Fraction of the block's prescribed sets
+  volumeMultiplier: number;  // plannedVolume, lowered after missed sessions
+  plannedSessions: number;
+  completedSessions: number | null;  // null until the week has started
+}
+
+export interface MacrocycleAdjustment {
+  weekNumber: number;
+  plannedVolume: number;
+  volumeMultiplier: number;
+  reason: string;
+}
+
+export interface Macrocycle {
+  event: EventTarget;
+  startDate: string;
+  totalWeeks: number;
+  blocks: TrainingBlock[];
+  timeline: MacrocycleWeek[];
+  adjustments: MacrocycleAdjustment[];
+}
@@ -0,0 +1,456 @@
+/**
+ * Workout Sessions
+ * Logs what the athlete actually did on a training day (sets, load, reps,
+ * RPE/RIR, skipped exercises, duration) against the plan that prescribed it,
+ * summarizes logged performance for the trainer agent and adaptations, and
+ * prescribes the next session through the progression engine.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { getDeliveryPreferences, getLocalTime, resolveTimezone } from '@/lib/services/delivery-window';
+import { aggregateHealthContext } from './health-context-aggregator';
+import { interpretHealthForTraining } from './health-interpreter';
+import type {
+  DayOfWeek,
+  DayPlan,
+  ForgeWorkoutSession,
+  LoggedExercise,
+  NextSessionPlan,
+  PerformanceSummary,
+  SessionComparison,
+  TrainingReadiness,
+  WorkoutPlanData,
+  WorkoutSessionInput,
+  WorkoutSessionUpdate,
+} from './types';
+import {
+  buildExerciseHistory,
+  compareSession,
+  currentPlanWeek,
+  findPlannedDay,
+  formatPerformanceSummary,
+  sameExercise,
+  summarizeAdherence,
+  type PlanRecord,
+} from './session-metrics';
+import {
+  deloadInterval,
+  detectFatigue,
+  isDeloadWeek,
+  prescribeNextSession,
+  targetForWeek,
+} from './progression-engine';
+import { adjustForMissedSessions, blockForWeek, scaleTargetVolume, timelineWeek } from './macrocycle';
+
+const DEFAULT_PERIOD_DAYS = 56;
+
+const DAYS: DayOfWeek[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Day of the week at `date` where the athlete is, so an evening session
+ * isn't filed under tomorrow's UTC day
+ */
+export async function userDayOfWeek(userEmail: string, date: Date = new Date()): Promise<DayOfWeek> {
+  const timeZone = await resolveTimezone(userEmail, await getDeliveryPreferences(userEmail));
+  return DAYS[getLocalTime(date, timeZone).weekday];
+}
+
+// ==================== ERRORS ====================
+
+export type WorkoutSessionErrorReason = 'plan_not_found' | 'not_a_training_day';
+
+/**
+ * A session that can't be logged as asked, as opposed to a database failure.
+ * Routes answer these with a 4xx.
+ */
+export class WorkoutSessionError extends Error {
+  constructor(
+    public readonly reason: WorkoutSessionErrorReason,
+    message: string
+  ) {
+    super(message);
+    this.name = 'WorkoutSessionError';
+  }
+
+  get status(): number {
+    return this.reason === 'plan_not_found' ? 404 : 422;
+  }
+}
+
+// ==================== PLANS ====================
+
+const PLAN_COLUMNS = 'id, plan_data, started_at, created_at, duration_weeks';
+
+async function getPlan(userEmail: string, planId: string): Promise<PlanRecord | null> {
+  const { data, error } = await createAdminClient()
+    .from('forge_workout_plans')
+    .select(PLAN_COLUMNS)
+    .eq('id', planId)
+    .eq('user_email', userEmail)
+    .maybeSingle();
+
+  if (error) throw new Error('Failed to load workout plan: ' + error.message);
+  return data as PlanRecord | null;
+}
+
+export async function getActivePlan(userEmail: string): Promise<PlanRecord | null> {
+  const { data, error } = await createAdminClient()
+    .from('forge_workout_plans')
+    .select(PLAN_COLUMNS)
+    .eq('user_email', userEmail)
+    .eq('is_active', true)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error('Failed to load active workout plan: ' + error.message);
+  return data as PlanRecord | null;
+}
+
+/**
+ * Prescribed exercises for the day, with no sets logged yet, so a session
+ * started from the plan opens with its exercise list
+ */
+function exercisesFromPlan(day: DayPlan): LoggedExercise[] {
+  return (day.mainWorkout?.exercises ?? []).map((exercise) => ({
+    exerciseId: exercise.exerciseId,
+    exerciseName: exercise.exerciseName,
+    skipped: false,
+    sets: [],
+  }));
+}
+
+// ==================== SESSIONS ====================
+
+function minutesBetween(from: string, to: string): number | null {
+  const minutes = Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000);
+  return minutes > 0 ? minutes : null;
+}
+
+/**
+ * Completion fields implied by a status change: completed sessions get a
+ * completed_at and, unless one was logged, a duration from the start time
+ */
+function completionFields(
+  startedAt: string,
+  fields: Pick<WorkoutSessionInput, 'status' | 'completed_at' | 'duration_minutes'>
+): Pick<WorkoutSessionInput, 'completed_at' | 'duration_minutes'> {
+  if (fields.status !== 'completed') return {};
+
+  const completedAt = fields.completed_at ?? new Date().toISOString();
+  return {
+    completed_at: completedAt,
+    duration_minutes: fields.duration_minutes ?? minutesBetween(startedAt, completedAt),
+  };
+}
+
+export async function listSessions(
+  userEmail: string,
+  options: { since?: string; planId?: string; limit?: number } = {}
+): Promise<ForgeWorkoutSession[]> {
+  let query = createAdminClient()
+    .from('forge_workout_sessions')
+    .select('*')
+    .eq('user_email', userEmail)
+    .order('started_at', { ascending: false })
+    .limit(options.limit ?? 50);
+
+  if (options.since) query = query.gte('started_at', options.since);
+  if (options.planId) query = query.eq('plan_id', options.planId);
+
+  const { data, error } = await query;
+  if (error) throw new Error('Failed to list workout sessions: ' + error.message);
+  return (data || []) as ForgeWorkoutSession[];
+}
+
+export async function getSession(userEmail: string, sessionId: string): Promise<ForgeWorkoutSession | null> {
+  const { data, error } = await createAdminClient()
+    .from('forge_workout_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .eq('user_email', userEmail)
+    .maybeSingle();
+
+  if (error) throw new Error('Failed to load workout session: ' + error.message);
+  return data as ForgeWorkoutSession | null;
+}
+
+/**
+ * Log a session. Without a plan_id it is logged against the active plan, if
+ * there is one; pass plan_id null for a session outside any plan. The plan
+ * week defaults to the week the session falls in and the day to its weekday
+ * in the athlete's timezone. A session started without exercises opens with
+ * the day's prescribed ones; one on an unscheduled day is kept with the plan
+ * as extra work.
+ */
+export async function createSession(
+  userEmail: string,
+  input: WorkoutSessionInput
+): Promise<ForgeWorkoutSession> {
+  const startedAt = input.started_at ?? new Date().toISOString();
+
+  let plan: PlanRecord | null = null;
+  if (input.plan_id) {
+    plan = await getPlan(userEmail, input.plan_id);
+    if (!plan) throw new WorkoutSessionError('plan_not_found', 'Workout plan not found');
+  } else if (input.plan_id === undefined) {
+    plan = await getActivePlan(userEmail);
+  }
+
+  const dayOfWeek = input.day_of_week ?? (plan ? await userDayOfWeek(userEmail, new Date(startedAt)) : null);
+  const weekNumber = input.week_number ?? (plan ? currentPlanWeek(plan.started_at || plan.created_at, new Date(startedAt)) : null);
+
+  const day = plan && weekNumber ? findPlannedDay(plan.plan_data, weekNumber, dayOfWeek) : null;
+  if (plan && input.day_of_week && !day) {
+    throw new WorkoutSessionError('not_a_training_day', `The plan has no workout on ${input.day_of_week}`);
+  }
+
+  let exercises = input.exercises ?? [];
+  if (day && exercises.length === 0) {
+    exercises = exercisesFromPlan(day);
+  }
+
+  const status = input.status ?? 'in_progress';
+
+  const { data, error } = await createAdminClient()
+    .from('forge_workout_sessions')
+    .insert({
+      user_email: userEmail,
+      plan_id: plan?.id ?? null,
+      week_number: weekNumber,
+      day_of_week: dayOfWeek,
+      focus: input.focus ?? day?.focus ?? null,
+      status,
+      started_at: startedAt,
+      completed_at: input.completed_at ?? null,
+      duration_minutes: input.duration_minutes ?? null,
+      session_rpe: input.session_rpe ?? null,
+      notes: input.notes ?? null,
+      exercises,
+      ...completionFields(startedAt, { ...input, status }),
+    })
+    .select('*')
+    .single();
+
+  if (error) throw new Error('Failed to log workout session: ' + error.message);
+
+  console.log(`[WorkoutSessions] Logged ${status} session for ${userEmail} (plan ${plan?.id ?? 'none'})`);
+  return data as ForgeWorkoutSession;
+}
+
+export async function updateSession(
+  userEmail: string,
+  sessionId: string,
+  updates: WorkoutSessionUpdate
+): Promise<ForgeWorkoutSession | null> {
+  const existing = await getSession(userEmail, sessionId);
+  if (!existing) return null;
+
+  const startedAt = updates.started_at ?? existing.started_at;
+  const completion = completionFields(startedAt, {
+    status: updates.status,
+    completed_at: updates.completed_at ?? existing.completed_at,
+    duration_minutes: updates.duration_minutes ?? existing.duration_minutes,
+  });
+
+  const { data, error } = await createAdminClient()
+    .from('forge_workout_sessions')
+    .update({
+      ...updates,
+      ...completion,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', sessionId)
+    .eq('user_email', userEmail)
+    .select('*')
+    .single();
+
+  if (error) throw new Error('Failed to update workout session: ' + error.message);
+  return data as ForgeWorkoutSession;
+}
+
+export async function deleteSession(userEmail: string, sessionId: string): Promise<boolean> {
+  const { data, error } = await createAdminClient()
+    .from('forge_workout_sessions')
+    .delete()
+    .eq('id', sessionId)
+    .eq('user_email', userEmail)
+    .select('id');
+
+  if (error) throw new Error('Failed to delete workout session: ' + error.message);
+  return (data || []).length > 0;
+}
+
+/**
+ * A session against the plan day it was logged for
+ */
+export async function compareSessionToPlan(session: ForgeWorkoutSession): Promise<SessionComparison> {
+  const plan = session.plan_id ? await getPlan(session.user_email, session.plan_id) : null;
+  const day = plan ? findPlannedDay(plan.plan_data, session.week_number, session.day_of_week) : null;
+  return compareSession(session, day);
+}
+
+// ==================== PERFORMANCE ====================
+
+/**
+ * Adherence to the active plan and per-exercise e1RM and volume history over
+ * the last `periodDays`
+ */
+export async function getPerformanceSummary(
+  userEmail: string,
+  periodDays: number = DEFAULT_PERIOD_DAYS
+): Promise<PerformanceSummary> {
+  const periodStart = new Date(Date.now() - periodDays * 24 * 60 * 60 * 1000).toISOString();
+  const plan = await getActivePlan(userEmail);
+
+  // Adherence covers the whole plan, even where it started before the period
+  const planStart = plan ? plan.started_at || plan.created_at : null;
+  const since = planStart && planStart < periodStart ? planStart : periodStart;
+  const sessions = await listSessions(userEmail, { since, limit: 500 });
+  const inPeriod = sessions.filter((s) => s.started_at >= periodStart);
+
+  return {
+    periodDays,
+    sessionsLogged: inPeriod.filter((s) => s.status !== 'in_progress').length,
+    adherence: plan ? summarizeAdherence(plan, sessions) : null,
+    exercises: buildExerciseHistory(inPeriod),
+  };
+}
+
+/**
+ * Logged performance as prompt text, or null when nothing has been logged or
+ * it can't be loaded. Prompts go on without it rather than failing.
+ */
+export async function getPerformanceContext(
+  userEmail: string,
+  periodDays: number = DEFAULT_PERIOD_DAYS
+): Promise<string | null> {
+  try {
+    const summary = await getPerformanceSummary(userEmail, periodDays);
+    return formatPerformanceSummary(summary) || null;
+  } catch (error) {
+    console.error('[WorkoutSessions] Error loading performance context:', error);
+    return null;
+  }
+}
+
+// ==================== MACROCYCLE ====================
+
+/**
+ * Event-targeted plans: records the sessions completed in each macrocycle
+ * week and lowers upcoming volume after missed ones (see
+ * adjustForMissedSessions). The timeline is rebuilt from the logged sessions
+ * on every read, so nothing is saved; other plans come back as they are.
+ */
+export async function syncMacrocycle(
+  userEmail: string,
+  plan: PlanRecord,
+  now: Date = new Date()
+): Promise<WorkoutPlanData> {
+  const macrocycle = plan.plan_data.macrocycle;
+  if (!macrocycle) return plan.plan_data;
+
+  const sessions = await listSessions(userEmail, { planId: plan.id, limit: 500 });
+  const completedByWeek: Record<number, number> = {};
+  for (const session of sessions) {
+    if (session.status !== 'completed' || !session.week_number) continue;
+    completedByWeek[session.week_number] = (completedByWeek[session.week_number] ?? 0) + 1;
+  }
+
+  const currentWeek = currentPlanWeek(plan.started_at || plan.created_at, now);
+  const adjusted = adjustForMissedSessions(macrocycle, completedByWeek, currentWeek);
+
+  return { ...plan.plan_data, macrocycle: adjusted };
+}
+
+// ==================== NEXT SESSION ====================
+
+/**
+ * Today's readiness from the cached health interpretation and latest recovery
+ * score. Prescriptions go on without it rather than failing.
+ */
+async function loadReadiness(userEmail: string): Promise<TrainingReadiness> {
+  try {
+    const healthContext = await aggregateHealthContext(userEmail);
+    const modifications = await interpretHealthForTraining(healthContext, userEmail);
+    return { recoveryScore: healthContext.recovery?.score ?? null, modifications };
+  } catch (error) {
+    console.error('[WorkoutSessions] Error loading readiness:', error);
+    return {};
+  }
+}
+
+/**
+ * The next session on the active plan, with each exercise's week target
+ * adjusted for its last logged performance, fatigue across recent sessions
+ * and today's readiness. Null without an active plan or on a rest day.
+ */
+export async function getNextSessionPlan(
+  userEmail: string,
+  options: { date?: Date; dayOfWeek?: DayOfWeek; recoveryScore?: number } = {}
+): Promise<NextSessionPlan | null> {
+  const plan = await getActivePlan(userEmail);
+  if (!plan) return null;
+
+  const date = options.date ?? new Date();
+  plan.plan_data = await syncMacrocycle(userEmail, plan, date);
+  const weekNumber = currentPlanWeek(plan.started_at || plan.created_at, date);
+  const dayOfWeek = options.dayOfWeek ?? await userDayOfWeek(userEmail, date);
+  const day = findPlannedDay(plan.plan_data, weekNumber, dayOfWeek);
+  if (!day) return null;
+
+  const since = new Date(date.getTime() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const [sessions, readiness] = await Promise.all([
+    listSessions(userEmail, { since, limit: 200 }),
+    loadReadiness(userEmail),
+  ]);
+  if (options.recoveryScore !== undefined) readiness.recoveryScore = options.recoveryScore;
+
+  const fatigue = detectFatigue(buildExerciseHistory(sessions));
+  const macrocycle = plan.plan_data.macrocycle;
+  const block = macrocycle ? blockForWeek(macrocycle, weekNumber) : null;
+  const guidelines = block?.progression ?? plan.plan_data.progression;
+  // Volume taken off the block's curve after missed sessions
+  const timeline = macrocycle ? timelineWeek(macrocycle, weekNumber) : null;
+  const volumeFactor = timeline && timeline.plannedVolume > 0 ? timeline.volumeMultiplier / timeline.plannedVolume : 1;
+
+  const exercises = (day.mainWorkout?.exercises ?? []).map((exercise) => {
+    // Sessions are newest first
+    let lastPerformance: LoggedExercise | null = null;
+    let lastSession: ForgeWorkoutSession | null = null;
+    for (const session of sessions) {
+      const logged = session.exercises.find(
+        (l) => !l.skipped && l.sets.some((s) => s.completed) && sameExercise(exercise, l)
+      );
+      if (logged) {
+        lastPerformance = logged;
+        lastSession = session;
+        break;
+      }
+    }
+
+    const lastPrescribed = lastSession?.plan_id === plan.id
+      ? targetForWeek(exercise, guidelines, lastSession.week_number ?? 1)
+      : null;
+
+    return prescribeNextSession({
+      exercise,
+      guidelines,
+      target: scaleTargetVolume(targetForWeek(exercise, guidelines, weekNumber), volumeFactor),
+      lastPerformance,
+      lastPrescribed,
+      readiness,
+      fatigue,
+    });
+  });
+
+  return {
+    planId: plan.id,
+    weekNumber,
+    dayOfWeek,
+    focus: day.focus,
+    scheduledDeload: timeline ? timeline.deload : isDeloadWeek(weekNumber, deloadInterval(guidelines)),
+    fatigue,
+    exercises,
+  };
+}
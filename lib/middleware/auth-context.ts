@@ -0,0 +1,444 @@
+/**
+ * Authenticated Request Context
+ *
+ * Resolves who is calling an API route instead of trusting an `email` query
+ * parameter or body field:
+ * - Mobile clients send a Supabase access token as `Authorization: Bearer`
+ * - Web clients are identified by the Supabase session cookie
+ *
+ * A request may still name an `email`. If it is not the caller's own, it is
+ * only allowed for a caregiver with an active share relationship (on routes
+ * that opt in to delegation) or an admin giving an `x-impersonation-reason`
+ * (on routes that opt in to impersonation). Both are recorded in the
+ * sharer's access log. Anything else is rejected.
+ *
+ * Routes the app also calls itself (see lib/utils/internal-auth) can opt in
+ * to internal requests, which act for the `email` they name. Checkout routes
+ * can opt in to guests, who name a `guest-<plan code>` identifier instead of
+ * signing in.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { User } from '@supabase/supabase-js';
+import { createAdminClient, createClient } from '../supabase/server';
+import { createLogger } from '../utils/logger';
+import { isInternalRequest } from '../utils/internal-auth';
+import {
+  shareRelationshipService,
+  type CaregiverRole,
+  type SharePermissions,
+  type ShareRelationship,
+} from '../services/share/share-relationship-service';
+import { accessAuditService } from '../services/share/access-audit-service';
+
+const logger = createLogger('AuthContext');
+
+const GUEST_PREFIX = 'guest-';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AuthMethod = 'session' | 'bearer' | 'internal' | 'guest';
+export type PrincipalRole = 'user' | 'admin';
+
+/**
+ * The authenticated caller
+ */
+export interface Principal {
+  userId: string;
+  email: string;
+  method: AuthMethod;
+  role: PrincipalRole;
+}
+
+export type AuthAccess =
+  | { kind: 'self' }
+  | {
+      kind: 'delegated';
+      relationshipId: string;
+      caregiverRole: CaregiverRole;
+      permissions: SharePermissions | null;
+    }
+  | { kind: 'impersonation'; reason: string }
+  | { kind: 'internal' }
+  | { kind: 'guest' };
+
+export interface AuthContext {
+  principal: Principal;
+  /** The user whose data the request reads or changes */
+  email: string;
+  access: AuthAccess;
+}
+
+export interface AuthOptions {
+  /**
+   * Let caregivers act for a sharer they have an active relationship with.
+   * With a permission, the relationship must also grant it.
+   */
+  delegation?: boolean | { permission: keyof SharePermissions };
+  /** Let admins act as any user given an x-impersonation-reason header (default false) */
+  impersonation?: boolean;
+  /** Accept requests from the app itself carrying the internal key (default false) */
+  internal?: boolean;
+  /** Let callers without a session act on a `guest-` checkout identifier (default false) */
+  guest?: boolean;
+}
+
+export type AuthErrorReason =
+  | 'unauthenticated'
+  | 'email_mismatch'
+  | 'not_delegated'
+  | 'permission_denied'
+  | 'impersonation_reason_required'
+  | 'email_required';
+
+export type AccessDecision =
+  | { allowed: true; principal: Principal; email: string; access: AuthAccess }
+  | { allowed: false; reason: AuthErrorReason; status: 400 | 401 | 403; error: string };
+
+export interface AccessDecisionInput {
+  principal: Principal | null;
+  requestedEmail: string | null;
+  options?: AuthOptions;
+  relationship?: Pick<ShareRelationship, 'id' | 'caregiver_role'> | null;
+  permissions?: SharePermissions | null;
+  impersonationReason?: string | null;
+  /** The request carries a valid internal key */
+  internal?: boolean;
+}
+
+export type AuthenticatedHandler<C = unknown> = (
+  request: NextRequest,
+  auth: AuthContext,
+  context: C
+) => Promise<NextResponse>;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Token from an `Authorization: Bearer <token>` header
+ */
+export function getBearerToken(request: Pick<Request, 'headers'>): string | null {
+  const header = request.headers.get('authorization');
+  if (!header) return null;
+
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(header.trim());
+  return match ? match[1] : null;
+}
+
+/**
+ * Guest checkout identifier, keyed by the plan code rather than an email
+ */
+export function isGuestIdentifier(identifier: string | null): identifier is string {
+  return !!identifier && identifier.startsWith(GUEST_PREFIX) && !identifier.includes('@');
+}
+
+export function emailsMatch(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function getAdminEmails(): string[] {
+  return (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Principal for a Supabase user, or null when the account has no email
+ */
+export function toPrincipal(
+  user: Pick<User, 'id' | 'email' | 'app_metadata'>,
+  method: AuthMethod
+): Principal | null {
+  if (!user.email) return null;
+
+  const isAdmin =
+    user.app_metadata?.role === 'admin' || getAdminEmails().includes(user.email.toLowerCase());
+
+  return {
+    userId: user.id,
+    email: user.email,
+    method,
+    role: isAdmin ? 'admin' : 'user',
+  };
+}
+
+/**
+ * Whether the caller may act on the requested user's data, and as what.
+ * Relationship and permissions are only needed for delegated requests.
+ */
+export function decideAccess(input: AccessDecisionInput): AccessDecision {
+  const { principal, requestedEmail, options = {} } = input;
+
+  if (input.internal && options.internal) {
+    if (!requestedEmail) {
+      return {
+        allowed: false,
+        reason: 'email_required',
+        status: 400,
+        error: 'Internal requests must name the user they act for',
+      };
+    }
+    return {
+      allowed: true,
+      principal: { userId: 'internal', email: requestedEmail, method: 'internal', role: 'user' },
+      email: requestedEmail,
+      access: { kind: 'internal' },
+    };
+  }
+
+  if (!principal) {
+    if (options.guest && isGuestIdentifier(requestedEmail)) {
+      return {
+        allowed: true,
+        principal: { userId: requestedEmail, email: requestedEmail, method: 'guest', role: 'user' },
+        email: requestedEmail,
+        access: { kind: 'guest' },
+      };
+    }
+    return { allowed: false, reason: 'unauthenticated', status: 401, error: 'Authentication required' };
+  }
+
+  if (!requestedEmail || emailsMatch(requestedEmail, principal.email)) {
+    return { allowed: true, principal, email: principal.email, access: { kind: 'self' } };
+  }
+
+  if (options.delegation && input.relationship) {
+    const permission = typeof options.delegation === 'object' ? options.delegation.permission : null;
+    if (permission && !input.permissions?.[permission]) {
+      return {
+        allowed: false,
+        reason: 'permission_denied',
+        status: 403,
+        error: 'This person has not shared this data with you',
+      };
+    }
+
+    return {
+      allowed: true,
+      principal,
+      email: requestedEmail,
+      access: {
+        kind: 'delegated',
+        relationshipId: input.relationship.id,
+        caregiverRole: input.relationship.caregiver_role,
+        permissions: input.permissions ?? null,
+      },
+    };
+  }
+
+  if (principal.role === 'admin' && options.impersonation === true) {
+    const reason = input.impersonationReason?.trim();
+    if (!reason) {
+      return {
+        allowed: false,
+        reason: 'impersonation_reason_required',
+        status: 403,
+        error: 'An x-impersonation-reason header is required to act as another user',
+      };
+    }
+    return { allowed: true, principal, email: requestedEmail, access: { kind: 'impersonation', reason } };
+  }
+
+  if (options.delegation) {
+    return {
+      allowed: false,
+      reason: 'not_delegated',
+      status: 403,
+      error: 'You do not have access to this person\'s data',
+    };
+  }
+
+  return {
+    allowed: false,
+    reason: 'email_mismatch',
+    status: 403,
+    error: 'Email does not match the signed-in user',
+  };
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+// One lookup per request, shared by withRateLimit and withAuth
+const principals = new WeakMap<Request, Promise<Principal | null>>();
+
+async function lookupPrincipal(request: NextRequest): Promise<Principal | null> {
+  try {
+    const token = getBearerToken(request);
+    if (token) {
+      const { data, error } = await createAdminClient().auth.getUser(token);
+      if (error || !data.user) return null;
+      return toPrincipal(data.user, 'bearer');
+    }
+
+    const supabase = await createClient();
+    const { data, error } = await supabase.auth.getUser();
+    if (error || !data.user) return null;
+    return toPrincipal(data.user, 'session');
+  } catch (error) {
+    logger.warn('Could not resolve caller', {
+      path: request.nextUrl.pathname,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * The authenticated caller, from the bearer token or session cookie
+ */
+export function getPrincipal(request: NextRequest): Promise<Principal | null> {
+  let principal = principals.get(request);
+  if (!principal) {
+    principal = lookupPrincipal(request);
+    principals.set(request, principal);
+  }
+  return principal;
+}
+
+/**
+ * The `email` (or older clients' `userEmail`) a request names, from the
+ * query string, JSON body or x-user-email header
+ */
+async function getRequestedEmail(request: NextRequest): Promise<string | null> {
+  const { searchParams } = request.nextUrl;
+  const queryEmail = searchParams.get('email') || searchParams.get('userEmail');
+  if (queryEmail) return queryEmail;
+
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    try {
+      const body = await request.clone().json();
+      if (typeof body?.email === 'string' && body.email) return body.email;
+      if (typeof body?.userEmail === 'string' && body.userEmail) return body.userEmail;
+    } catch {
+      // Not JSON or no body
+    }
+  }
+
+  return request.headers.get('x-user-email');
+}
+
+async function recordAccess(request: NextRequest, auth: AuthContext, options: AuthOptions): Promise<void> {
+  const { access } = auth;
+  if (access.kind !== 'delegated' && access.kind !== 'impersonation') return;
+
+  const permission = typeof options.delegation === 'object' ? options.delegation.permission : null;
+
+  await accessAuditService.instance.recordAccess({
+    sharerEmail: auth.email,
+    accessorEmail: auth.principal.email,
+    accessorType: access.kind === 'delegated' ? 'caregiver' : 'admin',
+    accessType: access.kind === 'delegated' ? 'delegated_api' : 'admin_impersonation',
+    channel: 'app',
+    resourceType: 'api_route',
+    resourceId: `${request.method} ${request.nextUrl.pathname}`,
+    dataCategories: permission ? [permission] : [],
+    relationshipId: access.kind === 'delegated' ? access.relationshipId : undefined,
+    metadata: access.kind === 'impersonation' ? { reason: access.reason } : {},
+  });
+}
+
+/**
+ * Resolve the caller and the user they are acting for
+ */
+export async function resolveAuthContext(
+  request: NextRequest,
+  options: AuthOptions = {}
+): Promise<AccessDecision> {
+  if (options.internal && isInternalRequest(request)) {
+    return decideAccess({
+      principal: null,
+      requestedEmail: await getRequestedEmail(request),
+      options,
+      internal: true,
+    });
+  }
+
+  const principal = await getPrincipal(request);
+  const requestedEmail = principal || options.guest ? await getRequestedEmail(request) : null;
+
+  let relationship: ShareRelationship | null = null;
+  let permissions: SharePermissions | null = null;
+
+  if (principal && requestedEmail && options.delegation && !emailsMatch(requestedEmail, principal.email)) {
+    relationship = await shareRelationshipService.instance.getActiveRelationship(
+      requestedEmail,
+      principal.email
+    );
+    if (relationship) {
+      permissions = await shareRelationshipService.instance.getPermissions(relationship.id);
+    }
+  }
+
+  return decideAccess({
+    principal,
+    requestedEmail,
+    options,
+    relationship,
+    permissions,
+    impersonationReason: request.headers.get('x-impersonation-reason'),
+  });
+}
+
+// ============================================================================
+// MIDDLEWARE
+// ============================================================================
+
+/**
+ * Wrap an API route handler so it receives the authenticated caller and the
+ * user they are acting for. Unauthenticated requests get a 401 and requests
+ * for someone else's data a 403. With `internal`, the app's own calls act
+ * for the user they name.
+ *
+ * The wrapped handler keeps the `(request, context)` shape, so it can go
+ * inside withRequestTracing or withRateLimit, and dynamic routes still get
+ * their params.
+ *
+ * @example
+ * ```ts
+ * export const GET = withAuth(async (request, auth) => {
+ *   const logs = await getLogs(auth.email);
+ *   return NextResponse.json({ success: true, logs });
+ * });
+ *
+ * export const POST = withRateLimit('api', withAuth(handler, {
+ *   delegation: { permission: 'share_medication_list' },
+ * }));
+ * ```
+ */
+export function withAuth<C = unknown>(handler: AuthenticatedHandler<C>, options: AuthOptions = {}) {
+  return async (request: NextRequest, context?: C): Promise<NextResponse> => {
+    const decision = await resolveAuthContext(request, options);
+
+    if (!decision.allowed) {
+      if (decision.status === 403) {
+        logger.warn('Access denied', { reason: decision.reason, path: request.nextUrl.pathname });
+      }
+      return NextResponse.json({ error: decision.error, reason: decision.reason }, { status: decision.status });
+    }
+
+    const auth: AuthContext = {
+      principal: decision.principal,
+      email: decision.email,
+      access: decision.access,
+    };
+
+    if (auth.access.kind === 'delegated' || auth.access.kind === 'impersonation') {
+      logger.info('Acting for another user', {
+        email: auth.principal.email,
+        subject: auth.email,
+        access: auth.access.kind,
+        path: request.nextUrl.pathname,
+      });
+      await recordAccess(request, auth, options);
+    }
+
+    return handler(request, auth, context as C);
+  };
+}
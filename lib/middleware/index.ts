@@ -23,3 +23,18 @@ export {
   type RateLimitResult,
   type RateLimitedHandler,
 } from './rate-limiter';
+
+// Authentication
+export {
+  withAuth,
+  getPrincipal,
+  resolveAuthContext,
+  decideAccess,
+  getBearerToken,
+  type AuthContext,
+  type AuthOptions,
+  type AuthAccess,
+  type AccessDecision,
+  type AuthenticatedHandler,
+  type Principal,
+} from './auth-context';
@@ -9,6 +9,7 @@ import { Ratelimit } from '@upstash/ratelimit';
 import { Redis } from '@upstash/redis';
 import { NextRequest, NextResponse } from 'next/server';
 import { createLogger } from '../utils/logger';
+import { getPrincipal } from './auth-context';
 
 const logger = createLogger('RateLimiter');
 
@@ -172,7 +173,7 @@ export type RateLimitedHandler = (request: NextRequest) => Promise<NextResponse>
  */
 export function withRateLimit(type: string, handler: RateLimitedHandler) {
   return async (request: NextRequest): Promise<NextResponse> => {
-    // Get identifier (prefer email from body/query, fallback to IP)
+    // Get identifier (prefer signed-in user, then email from body/query, fallback to IP)
     const identifier = await getIdentifier(request);
 
     // Get tier multiplier if available
@@ -216,6 +217,12 @@ export function withRateLimit(type: string, handler: RateLimitedHandler) {
  * Get identifier for rate limiting
  */
 async function getIdentifier(request: NextRequest): Promise<string> {
+  // Prefer the authenticated caller
+  const principal = await getPrincipal(request);
+  if (principal) {
+    return `user:${principal.userId}`;
+  }
+
   // Try to get email from body
   try {
     const body = await request.clone().json();
@@ -27,6 +27,8 @@ export interface AdaptationInput {
       };
     };
   };
+  /** Logged Forge sessions, see formatPerformanceSummary in lib/forge/session-metrics */
+  loggedPerformance?: string | null;
 }
 
 export function generateAdaptationPrompt(input: AdaptationInput): string {
@@ -52,7 +54,12 @@ STANDARD TRAINING PROGRAM:
 ${Object.entries(input.trainingProgram.weeklyProgram).map(([day, workout]) => `
 - ${day}: ${workout.focus} (${workout.duration})
   ${workout.mainWorkout.slice(0, 2).map(ex => `  * ${ex.exercise || ex.exerciseName || 'Exercise'}`).join('\n')}`).join('')}
+${input.loggedPerformance ? `
+LOGGED PERFORMANCE (what they actually did against the program):
+${input.loggedPerformance}
 
+Ground the adaptation rules in this history: use their real loads, rep-range hit rate, RPE and estimated 1RM trends to set when to push or back off, and address exercises they skip.
+` : ''}
 INSTRUCTIONS:
 1. Create decision trees for high-energy vs. low-energy days
 2. Provide workout modifications for poor recovery score/sleep
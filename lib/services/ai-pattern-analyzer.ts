@@ -116,6 +116,32 @@ function buildDataSummary(ecosystemData: EcosystemFetchResult): string {
 - Workout data: ${JSON.stringify(vital.workoutsData) || 'none'}`);
   }
 
+  // Garmin / Google Fit data (read from unified_health_data)
+  for (const [key, label] of [['garmin', 'GARMIN'], ['googleFit', 'GOOGLE FIT']] as const) {
+    const source = ecosystemData[key];
+    if (!source?.available || !source.data) continue;
+    const wearable = source.data as {
+      avgSleepHours?: number | null;
+      avgSleepScore?: number | null;
+      avgHRV?: number | null;
+      avgRestingHR?: number | null;
+      avgSteps?: number | null;
+      avgStressScore?: number | null;
+      avgBodyBattery?: number | null;
+      workoutCount?: number;
+      workoutTypes?: string[];
+    };
+    parts.push(`## ${label} DATA (${source.daysOfData || 0} days)
+- Average sleep: ${wearable.avgSleepHours ?? 'unknown'} hours/night
+- Sleep score: ${wearable.avgSleepScore ?? 'unknown'}/100
+- Average HRV: ${wearable.avgHRV ?? 'unknown'} ms
+- Resting heart rate: ${wearable.avgRestingHR ?? 'unknown'} bpm
+- Steps per day: ${wearable.avgSteps ?? 'unknown'}
+- Stress level: ${wearable.avgStressScore ?? 'unknown'}/100
+- Body Battery peak: ${wearable.avgBodyBattery ?? 'unknown'}/100
+- Workouts: ${wearable.workoutCount || 0}${wearable.workoutTypes?.length ? ` (${wearable.workoutTypes.join(', ')})` : ''}`);
+  }
+
   // Blood biomarkers
   if (ecosystemData.bloodBiomarkers.available && ecosystemData.bloodBiomarkers.data) {
     const bio = ecosystemData.bloodBiomarkers.data as any;
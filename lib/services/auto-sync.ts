@@ -5,37 +5,32 @@
  * Manages TTL-based refresh logic, parallel fetching, error handling, and sync status tracking.
  *
  * Features:
- * - TTL-based sync decisions (default 24 hours)
+ * - TTL-based sync decisions (per-provider cadence, default 24 hours)
  * - Parallel data fetching for performance
  * - Graceful error handling (uses cached data on failure)
  * - Per-source sync status tracking
- * - Integration with existing API endpoints
+ * - Providers and their sync endpoints come from the provider registry
  *
  * @module lib/services/auto-sync
  */
 
 import { createClient } from '@/lib/supabase/server';
+import { getAutoSyncProviders, getProviderPlugin, SyncResult } from './providers';
+
+export type { SyncResult } from './providers';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
 export interface SyncOptions {
-  ttlHours?: number; // Time-to-live before re-sync (default 24)
+  ttlHours?: number; // Time-to-live before re-sync (default: each provider's sync cadence)
   forceSync?: boolean; // Force sync regardless of TTL
   startDate?: Date; // Start of data range
   endDate?: Date; // End of data range
   sources?: string[]; // Specific sources to sync (if undefined, sync all)
 }
 
-export interface SyncResult {
-  source: string;
-  success: boolean;
-  recordCount?: number;
-  error?: string;
-  syncedAt: string;
-}
-
 export interface AutoSyncReport {
   email: string;
   planType: 'sage' | 'forge';
@@ -55,68 +50,11 @@ export interface AutoSyncReport {
  */
 async function verifyDataExists(email: string, source: string): Promise<boolean> {
   try {
-    const supabase = await createClient();
-
-    // Check the appropriate table based on source
-    if (source === 'gmail' || source === 'slack') {
-      const { data } = await supabase
-        .from('behavioral_patterns')
-        .select('id')
-        .eq('email', email)
-        .eq('source', source)
-        .limit(1);
-      return data !== null && data.length > 0;
-    }
-
-    if (source === 'oura') {
-      const { data } = await supabase
-        .from('oura_data')
-        .select('id')
-        .eq('email', email)
-        .limit(1);
-      return data !== null && data.length > 0;
-    }
-
-    if (source === 'dexcom') {
-      const { data } = await supabase
-        .from('dexcom_data')
-        .select('id')
-        .eq('email', email)
-        .limit(1);
-      return data !== null && data.length > 0;
-    }
-
-    if (source === 'vital') {
-      const { data } = await supabase
-        .from('vital_data')
-        .select('id')
-        .eq('email', email)
-        .limit(1);
-      return data !== null && data.length > 0;
-    }
-
-    if (source === 'outlook' || source === 'teams') {
-      const { data } = await supabase
-        .from('behavioral_patterns')
-        .select('id')
-        .eq('email', email)
-        .eq('source', source)
-        .limit(1);
-      return data !== null && data.length > 0;
+    const healthCheck = getProviderPlugin(source)?.healthCheck;
+    if (!healthCheck) {
+      return false; // Unknown source, assume no data
     }
-
-    if (source === 'whoop') {
-      // Whoop data is stored in forge_training_data with provider='whoop'
-      const { data } = await supabase
-        .from('forge_training_data')
-        .select('id')
-        .eq('email', email)
-        .eq('provider', 'whoop')
-        .limit(1);
-      return data !== null && data.length > 0;
-    }
-
-    return false; // Unknown source, assume no data
+    return await healthCheck(email);
   } catch (error) {
     console.error(`[Auto-Sync] Error verifying data exists for ${source}:`, error);
     return false; // Assume no data on error (will trigger sync)
@@ -230,368 +168,6 @@ async function updateSyncStatus(
   }
 }
 
-// ============================================================================
-// SYNC FUNCTIONS (Call existing API endpoints)
-// ============================================================================
-
-/**
- * Sync Oura data
- */
-async function syncOuraData(
-  email: string,
-  startDate: Date,
-  endDate: Date
-): Promise<SyncResult> {
-  try {
-    const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || ''}/api/oura/sync`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        email,
-        startDate: startDate.toISOString(),
-        endDate: endDate.toISOString(),
-      }),
-    });
-
-    const result = await response.json();
-
-    if (!response.ok) {
-      return {
-        source: 'oura',
-        success: false,
-        error: result.error || 'Sync failed',
-        syncedAt: new Date().toISOString(),
-      };
-    }
-
-    return {
-      source: 'oura',
-      success: true,
-      recordCount: result.recordCount || 0,
-      syncedAt: new Date().toISOString(),
-    };
-  } catch (error) {
-    return {
-      source: 'oura',
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      syncedAt: new Date().toISOString(),
-    };
-  }
-}
-
-/**
- * Sync Dexcom data
- */
-async function syncDexcomData(
-  email: string,
-  startDate: Date,
-  endDate: Date
-): Promise<SyncResult> {
-  try {
-    const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || ''}/api/dexcom/sync`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        email,
-        startDate: startDate.toISOString(),
-        endDate: endDate.toISOString(),
-      }),
-    });
-
-    const result = await response.json();
-
-    if (!response.ok) {
-      return {
-        source: 'dexcom',
-        success: false,
-        error: result.error || 'Sync failed',
-        syncedAt: new Date().toISOString(),
-      };
-    }
-
-    return {
-      source: 'dexcom',
-      success: true,
-      recordCount: result.recordCount || 0,
-      syncedAt: new Date().toISOString(),
-    };
-  } catch (error) {
-    return {
-      source: 'dexcom',
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      syncedAt: new Date().toISOString(),
-    };
-  }
-}
-
-/**
- * Sync Vital data
- */
-async function syncVitalData(
-  email: string,
-  startDate: Date,
-  endDate: Date
-): Promise<SyncResult> {
-  try {
-    const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || ''}/api/vital/sync`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        email,
-        startDate: startDate.toISOString().split('T')[0],
-        endDate: endDate.toISOString().split('T')[0],
-      }),
-    });
-
-    const result = await response.json();
-
-    if (!response.ok) {
-      return {
-        source: 'vital',
-        success: false,
-        error: result.error || 'Sync failed',
-        syncedAt: new Date().toISOString(),
-      };
-    }
-
-    return {
-      source: 'vital',
-      success: true,
-      recordCount: result.recordCount || 0,
-      syncedAt: new Date().toISOString(),
-    };
-  } catch (error) {
-    return {
-      source: 'vital',
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      syncedAt: new Date().toISOString(),
-    };
-  }
-}
-
-/**
- * Sync Gmail patterns
- */
-async function syncGmailPatterns(email: string): Promise<SyncResult> {
-  try {
-    const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || ''}/api/gmail/fetch-data`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ email }),
-    });
-
-    const result = await response.json();
-
-    if (!response.ok) {
-      return {
-        source: 'gmail',
-        success: false,
-        error: result.error || 'Pattern analysis failed',
-        syncedAt: new Date().toISOString(),
-      };
-    }
-
-    // Store patterns in behavioral_patterns table
-    const supabase = await createClient();
-    const patterns = result.patterns || {};
-    const metrics = result.metrics || {};
-
-    await supabase.from('behavioral_patterns').insert({
-      email,
-      source: 'gmail',
-      patterns,
-      metrics,
-      data_period_start: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-      data_period_end: new Date().toISOString().split('T')[0],
-      data_points_analyzed: result.messagesAnalyzed || 0,
-    });
-
-    return {
-      source: 'gmail',
-      success: true,
-      recordCount: result.messagesAnalyzed || 0,
-      syncedAt: new Date().toISOString(),
-    };
-  } catch (error) {
-    return {
-      source: 'gmail',
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      syncedAt: new Date().toISOString(),
-    };
-  }
-}
-
-/**
- * Sync Slack patterns
- */
-async function syncSlackPatterns(email: string): Promise<SyncResult> {
-  try {
-    const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || ''}/api/slack/fetch-data`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ email }),
-    });
-
-    const result = await response.json();
-
-    if (!response.ok) {
-      return {
-        source: 'slack',
-        success: false,
-        error: result.error || 'Pattern analysis failed',
-        syncedAt: new Date().toISOString(),
-      };
-    }
-
-    // Store patterns in behavioral_patterns table
-    const supabase = await createClient();
-    const patterns = result.patterns || {};
-    const metrics = result.metrics || {};
-
-    await supabase.from('behavioral_patterns').insert({
-      email,
-      source: 'slack',
-      patterns,
-      metrics,
-      data_period_start: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-      data_period_end: new Date().toISOString().split('T')[0],
-      data_points_analyzed: result.messagesAnalyzed || 0,
-    });
-
-    return {
-      source: 'slack',
-      success: true,
-      recordCount: result.messagesAnalyzed || 0,
-      syncedAt: new Date().toISOString(),
-    };
-  } catch (error) {
-    return {
-      source: 'slack',
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      syncedAt: new Date().toISOString(),
-    };
-  }
-}
-
-/**
- * Sync Outlook patterns (email + calendar)
- */
-async function syncOutlookPatterns(email: string): Promise<SyncResult> {
-  try {
-    const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || ''}/api/outlook/fetch-data`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ email }),
-    });
-
-    const result = await response.json();
-
-    if (!response.ok) {
-      return {
-        source: 'outlook',
-        success: false,
-        error: result.error || 'Pattern analysis failed',
-        syncedAt: new Date().toISOString(),
-      };
-    }
-
-    return {
-      source: 'outlook',
-      success: true,
-      recordCount: result.dataPointsAnalyzed || 0,
-      syncedAt: new Date().toISOString(),
-    };
-  } catch (error) {
-    return {
-      source: 'outlook',
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      syncedAt: new Date().toISOString(),
-    };
-  }
-}
-
-/**
- * Sync Teams patterns (chat messages)
- */
-async function syncTeamsPatterns(email: string): Promise<SyncResult> {
-  try {
-    const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || ''}/api/teams/fetch-data`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ email }),
-    });
-
-    const result = await response.json();
-
-    if (!response.ok) {
-      return {
-        source: 'teams',
-        success: false,
-        error: result.error || 'Pattern analysis failed',
-        syncedAt: new Date().toISOString(),
-      };
-    }
-
-    return {
-      source: 'teams',
-      success: true,
-      recordCount: result.dataPointsAnalyzed || 0,
-      syncedAt: new Date().toISOString(),
-    };
-  } catch (error) {
-    return {
-      source: 'teams',
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      syncedAt: new Date().toISOString(),
-    };
-  }
-}
-
-/**
- * Sync Whoop data (recovery, cycles, sleep, HRV)
- */
-async function syncWhoopData(email: string): Promise<SyncResult> {
-  try {
-    const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || ''}/api/whoop/fetch-data`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ email }),
-    });
-
-    const result = await response.json();
-
-    if (!response.ok) {
-      return {
-        source: 'whoop',
-        success: false,
-        error: result.error || 'Sync failed',
-        syncedAt: new Date().toISOString(),
-      };
-    }
-
-    return {
-      source: 'whoop',
-      success: true,
-      recordCount: result.cyclesAnalyzed || 0,
-      syncedAt: new Date().toISOString(),
-    };
-  } catch (error) {
-    return {
-      source: 'whoop',
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      syncedAt: new Date().toISOString(),
-    };
-  }
-}
-
 // ============================================================================
 // MAIN AUTO-SYNC FUNCTION
 // ============================================================================
@@ -612,7 +188,7 @@ export async function autoSyncEcosystemData(
   const startTime = Date.now();
 
   const {
-    ttlHours = 24,
+    ttlHours,
     forceSync = false,
     startDate = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // Default: 30 days ago
     endDate = new Date(),
@@ -624,7 +200,7 @@ export async function autoSyncEcosystemData(
   console.log(`${'='.repeat(80)}\n`);
 
   // Available sync sources
-  const allSources = ['oura', 'dexcom', 'vital', 'gmail', 'slack', 'outlook', 'teams', 'whoop'];
+  const allSources = getAutoSyncProviders().map(plugin => plugin.id);
   const sourcesToSync = requestedSources || allSources;
 
   // Determine which sources need syncing
@@ -637,7 +213,8 @@ export async function autoSyncEcosystemData(
     console.log('[Auto-Sync] Force sync enabled - syncing all requested sources');
   } else {
     for (const source of sourcesToSync) {
-      syncDecisions[source] = await needsSync(email, planType, source, ttlHours);
+      const cadenceHours = getProviderPlugin(source)?.sync?.cadenceHours ?? 24;
+      syncDecisions[source] = await needsSync(email, planType, source, ttlHours ?? cadenceHours);
       console.log(`[Auto-Sync] ${source}: ${syncDecisions[source] ? 'NEEDS SYNC' : 'CACHED (skip)'}`);
     }
   }
@@ -645,81 +222,14 @@ export async function autoSyncEcosystemData(
   // Execute syncs in parallel
   const syncPromises: Promise<SyncResult>[] = [];
 
-  if (syncDecisions.oura) {
-    syncPromises.push(
-      syncOuraData(email, startDate, endDate)
-        .then(result => {
-          updateSyncStatus(email, planType, 'oura', result.success, { recordCount: result.recordCount });
-          return result;
-        })
-    );
-  }
-
-  if (syncDecisions.dexcom) {
-    syncPromises.push(
-      syncDexcomData(email, startDate, endDate)
-        .then(result => {
-          updateSyncStatus(email, planType, 'dexcom', result.success, { recordCount: result.recordCount });
-          return result;
-        })
-    );
-  }
-
-  if (syncDecisions.vital) {
-    syncPromises.push(
-      syncVitalData(email, startDate, endDate)
-        .then(result => {
-          updateSyncStatus(email, planType, 'vital', result.success, { recordCount: result.recordCount });
-          return result;
-        })
-    );
-  }
-
-  if (syncDecisions.gmail) {
-    syncPromises.push(
-      syncGmailPatterns(email)
-        .then(result => {
-          updateSyncStatus(email, planType, 'gmail', result.success, { messagesAnalyzed: result.recordCount });
-          return result;
-        })
-    );
-  }
-
-  if (syncDecisions.slack) {
-    syncPromises.push(
-      syncSlackPatterns(email)
-        .then(result => {
-          updateSyncStatus(email, planType, 'slack', result.success, { messagesAnalyzed: result.recordCount });
-          return result;
-        })
-    );
-  }
-
-  if (syncDecisions.outlook) {
-    syncPromises.push(
-      syncOutlookPatterns(email)
-        .then(result => {
-          updateSyncStatus(email, planType, 'outlook', result.success, { dataPointsAnalyzed: result.recordCount });
-          return result;
-        })
-    );
-  }
-
-  if (syncDecisions.teams) {
-    syncPromises.push(
-      syncTeamsPatterns(email)
-        .then(result => {
-          updateSyncStatus(email, planType, 'teams', result.success, { messagesAnalyzed: result.recordCount });
-          return result;
-        })
-    );
-  }
+  for (const source of sourcesToSync) {
+    const sync = getProviderPlugin(source)?.sync;
+    if (!syncDecisions[source] || !sync) continue;
 
-  if (syncDecisions.whoop) {
     syncPromises.push(
-      syncWhoopData(email)
+      sync.run(email, { startDate, endDate })
         .then(result => {
-          updateSyncStatus(email, planType, 'whoop', result.success, { cyclesAnalyzed: result.recordCount });
+          updateSyncStatus(email, planType, source, result.success, { [sync.statusMetric]: result.recordCount });
           return result;
         })
     );
@@ -5,8 +5,9 @@
 
 import OpenAI from 'openai';
 import { createClient } from '@supabase/supabase-js';
-import { Biomarker, BloodAnalysisResult, Recommendations, ANALYSIS_MODEL } from './types';
+import { Biomarker, BloodAnalysisResult, Demographics, PanelOptions, Recommendations, ANALYSIS_MODEL } from './types';
 import { getConcerningBiomarkers, getOptimalBiomarkers, groupByCategory } from './validator';
+import { recordBiomarkerPanel } from './history';
 
 const openai = new OpenAI();
 
@@ -15,6 +16,34 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
+/**
+ * Get the user's sex and age for reference-range selection
+ */
+export async function getUserDemographics(email: string): Promise<Demographics> {
+  try {
+    const { data: userData } = await supabase
+      .from('sage_onboarding_data')
+      .select('age, gender')
+      .eq('email', email)
+      .maybeSingle();
+
+    const demographics: Demographics = {};
+    const gender = String(userData?.gender || '').trim().toLowerCase();
+    if (['male', 'm', 'man'].includes(gender)) demographics.sex = 'male';
+    if (['female', 'f', 'woman'].includes(gender)) demographics.sex = 'female';
+
+    const age = Number(userData?.age);
+    if (userData?.age !== null && userData?.age !== undefined && isFinite(age) && age > 0) {
+      demographics.age = age;
+    }
+
+    return demographics;
+  } catch (error) {
+    console.error('[Blood Analyzer] Error fetching demographics:', error);
+    return {};
+  }
+}
+
 /**
  * Get user context for personalized analysis
  */
@@ -184,11 +213,12 @@ Provide a comprehensive analysis with personalized recommendations based on the
 }
 
 /**
- * Save analysis result to database
+ * Save analysis result to database and add the panel to the biomarker history
  */
 export async function saveAnalysisToDatabase(
   email: string,
-  analysis: BloodAnalysisResult
+  analysis: BloodAnalysisResult,
+  panelOptions: PanelOptions = {}
 ): Promise<void> {
   console.log(`[Blood Analyzer] Saving analysis to database for ${email}`);
 
@@ -209,7 +239,8 @@ export async function saveAnalysisToDatabase(
       totalCount: analysis.totalCount,
       confidence: analysis.confidence,
       analyzedAt: new Date().toISOString(),
-      processingTimeMs: analysis.processingTimeMs
+      processingTimeMs: analysis.processingTimeMs,
+      extraction: analysis.extraction
     };
 
     if (existing) {
@@ -238,4 +269,11 @@ export async function saveAnalysisToDatabase(
     console.error('[Blood Analyzer] Error saving analysis to database:', error);
     throw error;
   }
+
+  // History is additive; a failure here shouldn't fail the analysis
+  try {
+    await recordBiomarkerPanel(email, analysis.biomarkers, panelOptions);
+  } catch (error) {
+    console.error('[Blood Analyzer] Error recording biomarker history:', error);
+  }
 }
@@ -198,7 +198,8 @@ IMPORTANT: Examine the entire image carefully. Extract EVERY biomarker you find
       referenceRange: b.referenceRange || 'Not specified',
       status: b.status || 'normal',
       significance: b.significance || '',
-      implications: b.implications || ''
+      implications: b.implications || '',
+      provenance: 'inferred' as const
     }));
 
     console.log(`[Blood Analyzer] Batch "${batchConfig.name}" extracted ${cleanedBiomarkers.length} biomarkers from image`);
@@ -308,7 +309,8 @@ IMPORTANT: Read ALL pages of the document. Extract EVERY biomarker you find in t
       referenceRange: b.referenceRange || 'Not specified',
       status: b.status || 'normal',
       significance: b.significance || '',
-      implications: b.implications || ''
+      implications: b.implications || '',
+      provenance: 'inferred' as const
     }));
 
     // Clean up assistant
@@ -361,17 +363,31 @@ function getImageMimeType(fileName: string): string {
   return mimeTypes[ext] || 'image/png';
 }
 
+/**
+ * Restrict batches to the given categories, dropping batches left empty
+ */
+function selectBatches(categories?: string[]): BatchConfig[] {
+  if (!categories) return BATCH_CONFIGS;
+
+  return BATCH_CONFIGS
+    .map(batch => ({ ...batch, categories: batch.categories.filter(c => categories.includes(c)) }))
+    .filter(batch => batch.categories.length > 0);
+}
+
 /**
  * Run all batch extractions sequentially
  * For PDFs: uses Assistants API with file_search
  * For images: uses GPT-4o vision
+ * Pass categories to extract only those (e.g. what text parsing didn't cover)
  */
 export async function runAllBatchExtractions(
   openaiFileId: string | null,
   fileBuffer?: Buffer,
-  fileName?: string
+  fileName?: string,
+  categories?: string[]
 ): Promise<BatchExtractionResult[]> {
   const results: BatchExtractionResult[] = [];
+  const batches = selectBatches(categories);
 
   // Check if this is an image file
   const isImage = fileName && isImageFile(fileName);
@@ -381,7 +397,7 @@ export async function runAllBatchExtractions(
     const imageBase64 = fileBuffer.toString('base64');
     const mimeType = getImageMimeType(fileName);
 
-    for (const batchConfig of BATCH_CONFIGS) {
+    for (const batchConfig of batches) {
       const result = await extractBatchFromImage(imageBase64, mimeType, batchConfig);
       results.push(result);
 
@@ -391,7 +407,7 @@ export async function runAllBatchExtractions(
   } else if (openaiFileId) {
     console.log(`[Blood Analyzer] Using FILE_SEARCH mode for PDF file`);
 
-    for (const batchConfig of BATCH_CONFIGS) {
+    for (const batchConfig of batches) {
       const result = await extractBatch(openaiFileId, batchConfig);
       results.push(result);
 
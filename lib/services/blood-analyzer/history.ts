@@ -0,0 +1,311 @@
+/**
+ * Blood Analyzer History
+ * Stores every analyzed panel and computes per-biomarker trends across panels
+ */
+
+import { randomUUID } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import {
+  Biomarker,
+  BiomarkerHistory,
+  BiomarkerReading,
+  BiomarkerStatus,
+  BiomarkerTrend,
+  PanelOptions,
+  PanelSource,
+  PanelSummary,
+  TrendAssessment,
+  TrendDirection
+} from './types';
+import { normalizeBiomarkerName } from './names';
+import { toCanonicalUnit } from './units';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+/** Changes smaller than this (percent) are reported as stable */
+const STABLE_THRESHOLD_PERCENT = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STATUS_SEVERITY: Record<BiomarkerStatus, number> = {
+  optimal: 0,
+  normal: 0,
+  borderline: 1,
+  high: 2,
+  low: 2,
+  critical: 3
+};
+
+interface HistoryRow {
+  panel_id: string;
+  panel_date: string;
+  source: PanelSource;
+  marker_key: string;
+  name: string;
+  category: string | null;
+  value: string;
+  unit: string | null;
+  reference_range: string | null;
+  status: BiomarkerStatus | null;
+  provenance: BiomarkerReading['provenance'] | null;
+  canonical_value: number | string | null;
+  canonical_unit: string | null;
+}
+
+/**
+ * Store a panel's biomarkers in the history table
+ * Returns the new panel id
+ */
+export async function recordBiomarkerPanel(
+  email: string,
+  biomarkers: Biomarker[],
+  options: PanelOptions = {}
+): Promise<string> {
+  const panelId = randomUUID();
+  const panelDate = options.collectedAt || new Date().toISOString();
+  const rows = new Map<string, Record<string, unknown>>();
+
+  for (const biomarker of biomarkers) {
+    const markerKey = normalizeBiomarkerName(biomarker.name);
+    if (!markerKey || rows.has(markerKey)) continue;
+
+    const canonical = toCanonicalUnit(biomarker.name, biomarker.value, biomarker.unit);
+    rows.set(markerKey, {
+      email,
+      panel_id: panelId,
+      panel_date: panelDate,
+      source: options.source || 'upload',
+      marker_key: markerKey,
+      name: biomarker.name,
+      category: biomarker.category,
+      value: biomarker.value,
+      unit: biomarker.unit || null,
+      reference_range: biomarker.referenceRange,
+      status: biomarker.status,
+      provenance: biomarker.provenance || null,
+      canonical_value: canonical?.value ?? null,
+      canonical_unit: canonical?.unit ?? null
+    });
+  }
+
+  const { error } = await supabase
+    .from('blood_biomarker_history')
+    .insert(Array.from(rows.values()));
+
+  if (error) {
+    throw new Error(`Failed to record biomarker panel: ${error.message}`);
+  }
+
+  console.log(`[Blood Analyzer] Recorded panel ${panelId} with ${rows.size} biomarkers for ${email}`);
+  return panelId;
+}
+
+function toReading(row: HistoryRow): BiomarkerReading {
+  const canonicalValue = row.canonical_value === null ? null : Number(row.canonical_value);
+
+  return {
+    panelId: row.panel_id,
+    panelDate: row.panel_date,
+    markerKey: row.marker_key,
+    name: row.name,
+    category: row.category || 'other',
+    value: row.value,
+    unit: row.unit || '',
+    canonicalValue: canonicalValue !== null && isFinite(canonicalValue) ? canonicalValue : null,
+    canonicalUnit: row.canonical_unit,
+    referenceRange: row.reference_range || 'Not specified',
+    status: row.status || 'normal',
+    provenance: row.provenance || undefined
+  };
+}
+
+function formatSince(previousDate: string, latestDate: string): string {
+  const previous = new Date(previousDate);
+  const month = previous.toLocaleString('en-US', { month: 'long', timeZone: 'UTC' });
+  return previous.getUTCFullYear() === new Date(latestDate).getUTCFullYear()
+    ? month
+    : `${month} ${previous.getUTCFullYear()}`;
+}
+
+/**
+ * Least-squares slope of value over time, in units per 30 days
+ */
+function slopePer30Days(points: Array<{ panelDate: string; value: number }>): number | null {
+  if (points.length < 2) return null;
+
+  const xs = points.map(p => new Date(p.panelDate).getTime() / DAY_MS);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = points.reduce((sum, p) => sum + p.value, 0) / points.length;
+
+  let numerator = 0;
+  let denominator = 0;
+  points.forEach((p, i) => {
+    numerator += (xs[i] - meanX) * (p.value - meanY);
+    denominator += (xs[i] - meanX) ** 2;
+  });
+
+  if (denominator === 0) return null;
+  return Math.round((numerator / denominator) * 30 * 1000) / 1000;
+}
+
+/**
+ * Compare the latest status with the previous one. Within the same severity,
+ * an out-of-range value moving back toward the range counts as improving.
+ */
+function assessTrend(
+  previousStatus: BiomarkerStatus,
+  latestStatus: BiomarkerStatus,
+  direction: TrendDirection
+): TrendAssessment {
+  const before = STATUS_SEVERITY[previousStatus] ?? 0;
+  const after = STATUS_SEVERITY[latestStatus] ?? 0;
+
+  if (after < before) return 'improving';
+  if (after > before) return 'worsening';
+  if (direction === 'stable' || after === 0) return 'unchanged';
+
+  const status = latestStatus === 'critical' ? previousStatus : latestStatus;
+  if (status === 'high') return direction === 'down' ? 'improving' : 'worsening';
+  if (status === 'low') return direction === 'up' ? 'improving' : 'worsening';
+  return 'unchanged';
+}
+
+/**
+ * Build per-biomarker trends from readings across panels.
+ * Only numeric readings in the marker's current canonical unit are compared.
+ * Trends are ordered by size of the most recent change.
+ */
+export function computeBiomarkerTrends(readings: BiomarkerReading[]): BiomarkerTrend[] {
+  const byMarker = new Map<string, BiomarkerReading[]>();
+  for (const reading of readings) {
+    if (reading.canonicalValue === null) continue;
+    const list = byMarker.get(reading.markerKey) || [];
+    list.push(reading);
+    byMarker.set(reading.markerKey, list);
+  }
+
+  const trends: BiomarkerTrend[] = [];
+
+  for (const [markerKey, markerReadings] of byMarker) {
+    const sorted = [...markerReadings].sort(
+      (a, b) => new Date(a.panelDate).getTime() - new Date(b.panelDate).getTime()
+    );
+    const latestReading = sorted[sorted.length - 1];
+    const comparable = sorted.filter(r => r.canonicalUnit === latestReading.canonicalUnit);
+    const points = comparable.map(r => ({
+      panelDate: r.panelDate,
+      value: r.canonicalValue as number,
+      status: r.status
+    }));
+
+    const latest = points[points.length - 1];
+    const previous = points.length > 1 ? points[points.length - 2] : null;
+
+    let deltaAbsolute: number | null = null;
+    let deltaPercent: number | null = null;
+    let direction: TrendDirection = 'stable';
+    let annotation: string | null = null;
+
+    if (previous) {
+      deltaAbsolute = Math.round((latest.value - previous.value) * 1000) / 1000;
+      deltaPercent = previous.value !== 0
+        ? Math.round((deltaAbsolute / Math.abs(previous.value)) * 1000) / 10
+        : null;
+
+      const changed = deltaPercent === null
+        ? deltaAbsolute !== 0
+        : Math.abs(deltaPercent) >= STABLE_THRESHOLD_PERCENT;
+      if (changed) {
+        direction = deltaAbsolute > 0 ? 'up' : 'down';
+      }
+
+      const since = formatSince(previous.panelDate, latest.panelDate);
+      annotation = direction === 'stable'
+        ? `${latestReading.name} stable since ${since}`
+        : deltaPercent === null
+          ? `${latestReading.name} ${direction} from ${previous.value} to ${latest.value} since ${since}`
+          : `${latestReading.name} ${direction} ${Math.abs(Math.round(deltaPercent))}% since ${since}`;
+    }
+
+    trends.push({
+      markerKey,
+      name: latestReading.name,
+      category: latestReading.category,
+      unit: latestReading.canonicalUnit,
+      readings: points,
+      latest: latest.value,
+      previous: previous?.value ?? null,
+      deltaAbsolute,
+      deltaPercent,
+      direction,
+      slopePer30Days: slopePer30Days(points),
+      assessment: previous ? assessTrend(previous.status, latest.status, direction) : 'unchanged',
+      annotation
+    });
+  }
+
+  return trends.sort((a, b) => Math.abs(b.deltaPercent ?? 0) - Math.abs(a.deltaPercent ?? 0));
+}
+
+/**
+ * Get a user's panels and biomarker trends
+ */
+export async function getBiomarkerHistory(
+  email: string,
+  options: { markers?: string[]; since?: string } = {}
+): Promise<BiomarkerHistory> {
+  let query = supabase
+    .from('blood_biomarker_history')
+    .select('panel_id, panel_date, source, marker_key, name, category, value, unit, reference_range, status, provenance, canonical_value, canonical_unit')
+    .eq('email', email)
+    .order('panel_date', { ascending: true });
+
+  if (options.since) {
+    query = query.gte('panel_date', options.since);
+  }
+  if (options.markers && options.markers.length > 0) {
+    query = query.in('marker_key', options.markers.map(normalizeBiomarkerName));
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch biomarker history: ${error.message}`);
+  }
+
+  const rows = (data || []) as HistoryRow[];
+  const panels = new Map<string, PanelSummary>();
+  for (const row of rows) {
+    const panel = panels.get(row.panel_id);
+    if (panel) {
+      panel.biomarkerCount++;
+    } else {
+      panels.set(row.panel_id, {
+        panelId: row.panel_id,
+        panelDate: row.panel_date,
+        source: row.source,
+        biomarkerCount: 1
+      });
+    }
+  }
+
+  return {
+    panels: Array.from(panels.values()),
+    trends: computeBiomarkerTrends(rows.map(toReading))
+  };
+}
+
+/**
+ * Human-readable changes between the two most recent panels, largest first
+ * (e.g. "LDL Cholesterol down 18% since March"), for plan and insight prompts
+ */
+export async function getBiomarkerChanges(email: string, limit = 10): Promise<string[]> {
+  const { trends } = await getBiomarkerHistory(email);
+
+  return trends
+    .filter(trend => trend.direction !== 'stable' && trend.annotation)
+    .slice(0, limit)
+    .map(trend => trend.annotation as string);
+}
@@ -6,6 +6,10 @@
 
 export * from './types';
 export * from './extractors';
+export * from './text-parser';
 export * from './validator';
 export * from './analyzer';
+export * from './units';
+export * from './reference-ranges';
+export * from './history';
 export * from './orchestrator';
@@ -0,0 +1,75 @@
+/**
+ * Blood Analyzer Names
+ * Canonical keys for biomarker names, shared by parsing, validation and history
+ */
+
+/**
+ * Normalize biomarker names for comparison
+ * Handles common variations and abbreviations
+ */
+export function normalizeBiomarkerName(name: string): string {
+  const normalized = name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]/g, ''); // Remove all non-alphanumeric
+
+  // Common abbreviation mappings
+  const abbreviations: Record<string, string> = {
+    'hb': 'haemoglobin',
+    'hemoglobin': 'haemoglobin',
+    'rbc': 'redcellcount',
+    'wbc': 'whitecellcount',
+    'plt': 'platelets',
+    'hct': 'haematocrit',
+    'hematocrit': 'haematocrit',
+    'ldl': 'ldlcholesterol',
+    'hdl': 'hdlcholesterol',
+    'tc': 'totalcholesterol',
+    'tg': 'triglycerides',
+    'alt': 'alanineaminotransferase',
+    'sgpt': 'alanineaminotransferase',
+    'ast': 'aspartateaminotransferase',
+    'sgot': 'aspartateaminotransferase',
+    'alp': 'alkalinephosphatase',
+    'ggt': 'gammaglutamyltransferase',
+    'gamagt': 'gammaglutamyltransferase',
+    'tsh': 'thyroidstimulatinghormone',
+    'ft4': 'freet4',
+    'ft3': 'freet3',
+    'hba1c': 'glycatedhaemoglobin',
+    'egfr': 'estimatedgfr',
+    'bun': 'bloodureanitrogen',
+    'crp': 'creactiveprotein',
+    'hscrp': 'highsensitivitycrp',
+    'esr': 'erythrocytesedimentationrate',
+    'psa': 'prostatespecificantigen',
+    'vitd': 'vitamind',
+    'vitb12': 'vitaminb12',
+    'b12': 'vitaminb12',
+    'lpa': 'lipoproteina',
+    'apoa': 'apolipoproteina1',
+    'apob': 'apolipoproteinb',
+    'shbg': 'sexhormonebindingglobulin',
+    'dhea': 'dheas',
+    'dheas': 'dheasulphate',
+    'igf1': 'igf1',
+    'ck': 'creatinekinase',
+    'cpk': 'creatinekinase',
+    'ldh': 'lactatedehydrogenase',
+    'mch': 'meancorpuscularhaemoglobin',
+    'mchc': 'meancorpuscularhaemoglobinconcentration',
+    'mcv': 'meancorpuscularvolume',
+    'mpv': 'meanplateletvolume',
+    'rdw': 'redcelldistributionwidth',
+    'tibc': 'totalironbindingcapacity',
+    'uibc': 'unsaturatedironbindingcapacity',
+    'acr': 'albumincreatinineratio'
+  };
+
+  // Check if the normalized name is an abbreviation
+  if (abbreviations[normalized]) {
+    return abbreviations[normalized];
+  }
+
+  return normalized;
+}
@@ -3,23 +3,26 @@
  * Coordinates multi-agent extraction and analysis pipeline
  */
 
-import { BloodAnalysisResult, Biomarker } from './types';
+import { BloodAnalysisResult, Biomarker, BatchExtractionResult, TextParseResult } from './types';
 import {
   uploadFileToOpenAI,
   deleteFileFromOpenAI,
   runAllBatchExtractions,
   isImageFile
 } from './extractors';
-import { validateAndDedupe } from './validator';
-import { generateAnalysis, saveAnalysisToDatabase } from './analyzer';
+import { extractPdfLines, parseLabReportLines, getUnparsedCategories } from './text-parser';
+import { validateAndDedupe, normalizeBiomarkerName } from './validator';
+import { generateAnalysis, getUserDemographics, saveAnalysisToDatabase } from './analyzer';
 
 /**
  * Run the complete multi-agent blood analysis pipeline
  *
  * Pipeline:
- * 1. Upload file to OpenAI
- * 2. Run 4 batch extractions (GPT-4o-mini) sequentially
- * 3. Validate and deduplicate all biomarkers
+ * 0. Parse the PDF text layer locally (Quest, LabCorp, generic tables)
+ * 1. Upload file to OpenAI (skipped when text parsing covered every category)
+ * 2. Run batch extractions (GPT-4o-mini) sequentially for unparsed categories
+ * 3. Validate and deduplicate all biomarkers, preferring parsed values, and
+ *    recompute statuses from the reference-range catalog
  * 4. Generate comprehensive analysis (GPT-4o)
  * 5. Save to database
  * 6. Clean up file from OpenAI
@@ -38,30 +41,50 @@ export async function runMultiAgentBloodAnalysis(
   console.log(`[Blood Analyzer] File type: ${isImage ? 'IMAGE (using vision)' : 'PDF (using file_search)'}`);
 
   try {
-    // Step 1: Upload file to OpenAI (only for PDFs, not images)
+    // Step 0: Parse text-layer PDFs locally
+    let parsed: TextParseResult = { layout: null, biomarkers: [], unmatchedRows: 0 };
     if (!isImage) {
-      console.log(`[Blood Analyzer] Step 1: Uploading file to OpenAI...`);
-      openaiFileId = await uploadFileToOpenAI(fileBuffer, fileName);
-    } else {
-      console.log(`[Blood Analyzer] Step 1: Skipping OpenAI upload for image (using vision API directly)`);
+      console.log(`[Blood Analyzer] Step 0: Parsing PDF text layer...`);
+      parsed = await parseTextLayer(fileBuffer);
     }
 
-    // Step 2: Run all batch extractions
-    console.log(`[Blood Analyzer] Step 2: Running batch extractions...`);
-    const batchResults = await runAllBatchExtractions(openaiFileId, fileBuffer, fileName);
+    const llmCategories = getUnparsedCategories(parsed);
+    console.log(`[Blood Analyzer] Text parser (${parsed.layout || 'no text layer'}): ${parsed.biomarkers.length} biomarkers, ${parsed.unmatchedRows} unmatched rows`);
+
+    let batchResults: BatchExtractionResult[] = [];
+    if (llmCategories.length === 0) {
+      console.log(`[Blood Analyzer] Steps 1-2: Skipping LLM extraction, all categories parsed from text`);
+    } else {
+      // Step 1: Upload file to OpenAI (only for PDFs, not images)
+      if (!isImage) {
+        console.log(`[Blood Analyzer] Step 1: Uploading file to OpenAI...`);
+        openaiFileId = await uploadFileToOpenAI(fileBuffer, fileName);
+      } else {
+        console.log(`[Blood Analyzer] Step 1: Skipping OpenAI upload for image (using vision API directly)`);
+      }
 
-    // Collect all biomarkers from all batches
-    const allBiomarkers: Biomarker[] = [];
+      // Step 2: Run batch extractions for categories the parser didn't cover
+      console.log(`[Blood Analyzer] Step 2: Running batch extractions for ${llmCategories.join(', ')}...`);
+      batchResults = await runAllBatchExtractions(openaiFileId, fileBuffer, fileName, llmCategories);
+    }
+
+    // Collect parsed biomarkers, then LLM biomarkers the parser didn't already find
+    const parsedNames = new Set(parsed.biomarkers.map(b => normalizeBiomarkerName(b.name)));
+    const allBiomarkers: Biomarker[] = [...parsed.biomarkers];
+    let inferredCount = 0;
     for (const result of batchResults) {
       console.log(`[Blood Analyzer] Batch "${result.batchName}": ${result.biomarkers.length} biomarkers in ${result.processingTimeMs}ms`);
-      allBiomarkers.push(...result.biomarkers);
+      const inferred = result.biomarkers.filter(b => !parsedNames.has(normalizeBiomarkerName(b.name)));
+      inferredCount += inferred.length;
+      allBiomarkers.push(...inferred);
     }
 
     console.log(`[Blood Analyzer] Total raw biomarkers extracted: ${allBiomarkers.length}`);
 
     // Step 3: Validate and deduplicate
     console.log(`[Blood Analyzer] Step 3: Validating and deduplicating...`);
-    const validation = validateAndDedupe(allBiomarkers);
+    const demographics = await getUserDemographics(userEmail);
+    const validation = validateAndDedupe(allBiomarkers, demographics);
 
     // Step 4: Generate comprehensive analysis
     console.log(`[Blood Analyzer] Step 4: Generating analysis with GPT-4o...`);
@@ -83,7 +106,13 @@ export async function runMultiAgentBloodAnalysis(
     const result: BloodAnalysisResult = {
       ...analysis,
       processingTimeMs,
-      batchResults
+      batchResults,
+      extraction: {
+        layout: parsed.layout,
+        parsedCount: parsed.biomarkers.length,
+        inferredCount,
+        llmCategories
+      }
     };
 
     console.log(`[Blood Analyzer] Analysis complete!`);
@@ -108,6 +137,20 @@ export async function runMultiAgentBloodAnalysis(
   }
 }
 
+/**
+ * Parse biomarkers from a PDF's text layer.
+ * Any failure (encrypted, malformed, scanned) falls back to full LLM extraction.
+ */
+async function parseTextLayer(fileBuffer: Buffer): Promise<TextParseResult> {
+  try {
+    const lines = await extractPdfLines(fileBuffer);
+    return parseLabReportLines(lines);
+  } catch (error) {
+    console.warn(`[Blood Analyzer] Text parsing failed, falling back to LLM extraction:`, error);
+    return { layout: null, biomarkers: [], unmatchedRows: 0 };
+  }
+}
+
 /**
  * Run analysis and save to database
  * This is the main entry point for the QStash webhook
@@ -0,0 +1,270 @@
+/**
+ * Blood Analyzer Reference Ranges
+ * Rules-based biomarker status from a reference-range catalog keyed by
+ * normalized name, sex and age band. Replaces the extraction model's status
+ * where a rule applies, and records where each status came from and which
+ * classifications (lab range, model) disagree with it.
+ */
+
+import {
+  Biomarker,
+  BiomarkerStatus,
+  Demographics,
+  ReferenceRangeRule,
+  StatusDisagreement,
+  StatusSource
+} from './types';
+import { normalizeBiomarkerName } from './names';
+import { parseNumericValue, toCanonicalUnit } from './units';
+import { parseRangeCell, determineStatus } from './text-parser';
+
+/** Rules without a minAge apply from this age */
+const ADULT_AGE = 18;
+
+/** Values this far (fraction of the limit) outside the range are borderline */
+const BORDERLINE_MARGIN = 0.1;
+
+const LDL: ReferenceRangeRule[] = [{ unit: 'mg/dL', high: 99, optimalHigh: 70 }];
+const FASTING_GLUCOSE: ReferenceRangeRule[] = [
+  { unit: 'mg/dL', low: 70, high: 99, optimalLow: 75, optimalHigh: 90, criticalLow: 50, criticalHigh: 400 }
+];
+const INSULIN: ReferenceRangeRule[] = [{ unit: 'µIU/mL', low: 2.6, high: 24.9, optimalHigh: 10 }];
+const WBC: ReferenceRangeRule[] = [{ unit: 'x10^3/µL', low: 4.0, high: 11.0, criticalLow: 2.0, criticalHigh: 30 }];
+const RBC: ReferenceRangeRule[] = [
+  { unit: 'x10^6/µL', sex: 'male', low: 4.35, high: 5.65 },
+  { unit: 'x10^6/µL', sex: 'female', low: 3.92, high: 5.13 }
+];
+const IRON: ReferenceRangeRule[] = [
+  { unit: 'µg/dL', sex: 'male', low: 65, high: 175 },
+  { unit: 'µg/dL', sex: 'female', low: 50, high: 170 }
+];
+const BILIRUBIN: ReferenceRangeRule[] = [{ unit: 'mg/dL', low: 0.1, high: 1.2, criticalHigh: 15 }];
+const TESTOSTERONE: ReferenceRangeRule[] = [
+  { unit: 'ng/dL', sex: 'male', low: 264, high: 916, optimalLow: 500 },
+  { unit: 'ng/dL', sex: 'female', low: 15, high: 70 }
+];
+const VITAMIN_D: ReferenceRangeRule[] = [
+  { unit: 'ng/mL', low: 30, high: 100, optimalLow: 40, optimalHigh: 60, criticalLow: 10, criticalHigh: 150 }
+];
+const FOLATE: ReferenceRangeRule[] = [{ unit: 'ng/mL', low: 3.0, optimalLow: 10 }];
+
+/**
+ * Adult reference ranges in canonical units, keyed by normalizeBiomarkerName().
+ * Within a marker the first matching rule wins, so list specific bands first.
+ */
+export const REFERENCE_RANGES: Record<string, ReferenceRangeRule[]> = {
+  // Blood count
+  haemoglobin: [
+    { unit: 'g/dL', sex: 'male', low: 13.5, high: 17.5, criticalLow: 7, criticalHigh: 20 },
+    { unit: 'g/dL', sex: 'female', low: 12.0, high: 15.5, criticalLow: 7, criticalHigh: 20 }
+  ],
+  haematocrit: [
+    { unit: '%', sex: 'male', low: 38.3, high: 48.6, criticalLow: 20, criticalHigh: 60 },
+    { unit: '%', sex: 'female', low: 35.5, high: 44.9, criticalLow: 20, criticalHigh: 60 }
+  ],
+  whitecellcount: WBC,
+  wbccount: WBC,
+  redcellcount: RBC,
+  rbccount: RBC,
+  platelets: [{ unit: 'x10^3/µL', low: 150, high: 450, criticalLow: 50, criticalHigh: 1000 }],
+
+  // Iron
+  ferritin: [
+    { unit: 'ng/mL', sex: 'male', low: 24, high: 336, optimalLow: 50, optimalHigh: 150 },
+    { unit: 'ng/mL', sex: 'female', low: 11, high: 307, optimalLow: 50, optimalHigh: 150 }
+  ],
+  iron: IRON,
+  serumiron: IRON,
+
+  // Lipids
+  totalcholesterol: [{ unit: 'mg/dL', high: 199, optimalHigh: 180 }],
+  ldlcholesterol: LDL,
+  hdlcholesterol: [
+    { unit: 'mg/dL', sex: 'male', low: 40, optimalLow: 60 },
+    { unit: 'mg/dL', sex: 'female', low: 50, optimalLow: 60 }
+  ],
+  triglycerides: [{ unit: 'mg/dL', high: 149, optimalHigh: 100, criticalHigh: 1000 }],
+
+  // Metabolic
+  glucose: FASTING_GLUCOSE,
+  fastingglucose: FASTING_GLUCOSE,
+  glycatedhaemoglobin: [{ unit: '%', low: 4.0, high: 5.6, optimalHigh: 5.3 }],
+  insulin: INSULIN,
+  fastinginsulin: INSULIN,
+
+  // Kidney and electrolytes
+  creatinine: [
+    { unit: 'mg/dL', sex: 'male', low: 0.74, high: 1.35 },
+    { unit: 'mg/dL', sex: 'female', low: 0.59, high: 1.04 }
+  ],
+  estimatedgfr: [{ unit: 'mL/min/1.73m²', low: 60, criticalLow: 15 }],
+  bloodureanitrogen: [{ unit: 'mg/dL', low: 6, high: 20, criticalHigh: 100 }],
+  uricacid: [
+    { unit: 'mg/dL', sex: 'male', low: 3.4, high: 7.0 },
+    { unit: 'mg/dL', sex: 'female', low: 2.4, high: 6.0 }
+  ],
+  sodium: [{ unit: 'mmol/L', low: 135, high: 145, criticalLow: 120, criticalHigh: 160 }],
+  potassium: [{ unit: 'mmol/L', low: 3.5, high: 5.1, criticalLow: 2.5, criticalHigh: 6.5 }],
+  calcium: [{ unit: 'mg/dL', low: 8.6, high: 10.3, criticalLow: 6.5, criticalHigh: 13 }],
+  magnesium: [{ unit: 'mg/dL', low: 1.7, high: 2.2, criticalLow: 1.0, criticalHigh: 4.9 }],
+
+  // Liver
+  alanineaminotransferase: [
+    { unit: 'U/L', sex: 'male', low: 7, high: 55 },
+    { unit: 'U/L', sex: 'female', low: 7, high: 45 }
+  ],
+  aspartateaminotransferase: [{ unit: 'U/L', low: 8, high: 48 }],
+  alkalinephosphatase: [{ unit: 'U/L', low: 40, high: 129 }],
+  bilirubin: BILIRUBIN,
+  totalbilirubin: BILIRUBIN,
+  albumin: [{ unit: 'g/dL', low: 3.5, high: 5.0 }],
+
+  // Thyroid
+  thyroidstimulatinghormone: [{ unit: 'mIU/L', low: 0.4, high: 4.5, optimalLow: 0.5, optimalHigh: 2.5 }],
+  freet4: [{ unit: 'ng/dL', low: 0.8, high: 1.8 }],
+
+  // Hormones
+  testosterone: TESTOSTERONE,
+  totaltestosterone: TESTOSTERONE,
+  // Age-specific PSA upper limits
+  prostatespecificantigen: [
+    { unit: 'ng/mL', sex: 'male', maxAge: 49, high: 2.5 },
+    { unit: 'ng/mL', sex: 'male', minAge: 50, maxAge: 59, high: 3.5 },
+    { unit: 'ng/mL', sex: 'male', minAge: 60, maxAge: 69, high: 4.5 },
+    { unit: 'ng/mL', sex: 'male', minAge: 70, high: 6.5 }
+  ],
+
+  // Nutrients
+  vitamind: VITAMIN_D,
+  '25ohvitamind': VITAMIN_D,
+  vitaminb12: [{ unit: 'pg/mL', low: 200, high: 900, optimalLow: 400 }],
+  folate: FOLATE,
+  serumfolate: FOLATE,
+
+  // Inflammation
+  highsensitivitycrp: [{ unit: 'mg/L', high: 3.0, optimalHigh: 1.0 }],
+  creactiveprotein: [{ unit: 'mg/L', high: 10 }]
+};
+
+function ruleMatches(rule: ReferenceRangeRule, demographics: Demographics): boolean {
+  if (rule.sex && rule.sex !== demographics.sex) return false;
+
+  const minAge = rule.minAge ?? ADULT_AGE;
+  if (demographics.age === undefined) {
+    // Without an age, only the default adult band applies
+    return minAge <= ADULT_AGE && rule.maxAge === undefined;
+  }
+
+  return demographics.age >= minAge && (rule.maxAge === undefined || demographics.age <= rule.maxAge);
+}
+
+/**
+ * Find the catalog rule for a biomarker and person, if any
+ */
+export function findReferenceRule(
+  name: string,
+  demographics: Demographics = {}
+): ReferenceRangeRule | null {
+  const rules = REFERENCE_RANGES[normalizeBiomarkerName(name)];
+  return rules?.find(rule => ruleMatches(rule, demographics)) || null;
+}
+
+/**
+ * Describe a rule for the audit trail, e.g. "male 18+: 13.5-17.5 g/dL"
+ */
+export function describeRule(rule: ReferenceRangeRule): string {
+  const minAge = rule.minAge ?? ADULT_AGE;
+  const ages = rule.maxAge !== undefined ? `${minAge}-${rule.maxAge}` : `${minAge}+`;
+  const range = rule.low !== undefined && rule.high !== undefined
+    ? `${rule.low}-${rule.high}`
+    : rule.high !== undefined
+      ? `<=${rule.high}`
+      : `>=${rule.low}`;
+
+  return `${rule.sex || 'all'} ${ages}: ${range} ${rule.unit}`;
+}
+
+/**
+ * Classify a value (in the rule's unit) against a catalog rule
+ */
+export function classifyValue(value: number, rule: ReferenceRangeRule): BiomarkerStatus {
+  if (rule.criticalLow !== undefined && value < rule.criticalLow) return 'critical';
+  if (rule.criticalHigh !== undefined && value > rule.criticalHigh) return 'critical';
+
+  if (rule.low !== undefined && value < rule.low) {
+    return value >= rule.low * (1 - BORDERLINE_MARGIN) ? 'borderline' : 'low';
+  }
+  if (rule.high !== undefined && value > rule.high) {
+    return value <= rule.high * (1 + BORDERLINE_MARGIN) ? 'borderline' : 'high';
+  }
+
+  const hasOptimal = rule.optimalLow !== undefined || rule.optimalHigh !== undefined;
+  const aboveOptimalLow = rule.optimalLow === undefined || value >= rule.optimalLow;
+  const belowOptimalHigh = rule.optimalHigh === undefined || value <= rule.optimalHigh;
+  return hasOptimal && aboveOptimalLow && belowOptimalHigh ? 'optimal' : 'normal';
+}
+
+/** 'optimal' and 'normal' are both in range; anything else must match exactly */
+function sameClassification(a: BiomarkerStatus, b: BiomarkerStatus): boolean {
+  const inRange = (status: BiomarkerStatus) => status === 'optimal' || status === 'normal';
+  return a === b || (inRange(a) && inRange(b));
+}
+
+/** A missing unit can't be assumed to be the rule's, so it never matches */
+function unitsMatch(unit: string, ruleUnit: string): boolean {
+  return !!unit && unit.toLowerCase() === ruleUnit.toLowerCase();
+}
+
+/**
+ * Recompute a biomarker's status from its numeric value.
+ * Precedence: catalog rule, then the lab's printed range, then the model's status.
+ * The catalog rule only applies when the value's unit is known and matches it.
+ * Qualitative values ("Negative") keep the model's status without an audit.
+ */
+export function applyReferenceRange(
+  biomarker: Biomarker,
+  demographics: Demographics = {}
+): Biomarker {
+  const value = parseNumericValue(biomarker.value);
+  if (value === null) return biomarker;
+
+  const modelStatus = biomarker.statusAudit?.modelStatus ?? biomarker.status;
+
+  const labRange = parseRangeCell(biomarker.referenceRange || '');
+  const labStatus = labRange ? determineStatus(value, labRange) : undefined;
+
+  let catalogStatus: BiomarkerStatus | undefined;
+  let ruleDescription: string | undefined;
+  const rule = findReferenceRule(biomarker.name, demographics);
+  if (rule) {
+    const canonical = toCanonicalUnit(biomarker.name, biomarker.value, biomarker.unit);
+    if (canonical && unitsMatch(canonical.unit, rule.unit)) {
+      catalogStatus = classifyValue(canonical.value, rule);
+      ruleDescription = describeRule(rule);
+    }
+  }
+
+  const source: StatusSource = catalogStatus ? 'catalog' : labStatus ? 'lab' : 'model';
+  const status = catalogStatus ?? labStatus ?? modelStatus;
+
+  const disagreements: StatusDisagreement[] = [];
+  if (labStatus && source !== 'lab' && !sameClassification(labStatus, status)) {
+    disagreements.push({ source: 'lab', status: labStatus });
+  }
+  if (source !== 'model' && !sameClassification(modelStatus, status)) {
+    disagreements.push({ source: 'model', status: modelStatus });
+  }
+
+  return {
+    ...biomarker,
+    status,
+    statusAudit: {
+      source,
+      modelStatus,
+      labStatus,
+      catalogStatus,
+      rule: ruleDescription,
+      disagreements
+    }
+  };
+}
@@ -0,0 +1,373 @@
+/**
+ * Blood Analyzer Text Parser
+ * Deterministic extraction of biomarkers from PDFs with a text layer
+ * (Quest, LabCorp and similar tabular reports). Categories this stage
+ * covers don't need to be sent to the LLM extractors.
+ */
+
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import {
+  Biomarker,
+  BiomarkerStatus,
+  LabReportLayout,
+  ParsedReferenceRange,
+  TextParseResult,
+  CATEGORY_CONFIGS
+} from './types';
+import { normalizeBiomarkerName } from './names';
+
+/** Max vertical distance (pt) between text items on the same row */
+const ROW_TOLERANCE = 2;
+/** Horizontal gap (pt) treated as a column break */
+const COLUMN_GAP = 4;
+
+// Lab-specific test names that don't normalize to a CATEGORY_CONFIGS marker
+const LAB_NAME_ALIASES: Record<string, string> = {
+  'cholesteroltotal': 'Total Cholesterol',
+  'hemoglobina1c': 'HbA1c',
+  'vitamind25ohtotalia': 'Vitamin D',
+  'vitamind25hydroxy': 'Vitamin D',
+  'ldlcholesterolcalc': 'LDL Cholesterol',
+  'ldlcholcalcnih': 'LDL Cholesterol',
+  'altsgpt': 'ALT',
+  'astsgot': 'AST',
+  't4free': 'Free T4',
+  't4freedirect': 'Free T4',
+  'freet4direct': 'Free T4',
+  'ironbindcapacitytibc': 'TIBC',
+  'carbondioxidetotal': 'CO2',
+  'globulintotal': 'Globulin',
+  'proteintotal': 'Total Protein',
+  'bilirubintotal': 'Total Bilirubin',
+  'ureanitrogenbun': 'BUN',
+  'creactiveproteincardiac': 'hs-CRP',
+  'testosteronetotalmsms': 'Total Testosterone',
+  'plateletcount': 'Platelets',
+  'whitebloodcellcount': 'WBC Count',
+  'redbloodcellcount': 'RBC Count',
+  'egfrnonaframerican': 'eGFR',
+  'egfrifnonafricnam': 'eGFR'
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  'mg/dl': 'mg/dL',
+  'g/dl': 'g/dL',
+  'ng/ml': 'ng/mL',
+  'pg/ml': 'pg/mL',
+  'ng/dl': 'ng/dL',
+  'ug/dl': 'µg/dL',
+  'mcg/dl': 'µg/dL',
+  'µg/dl': 'µg/dL',
+  'mg/l': 'mg/L',
+  'mmol/l': 'mmol/L',
+  'nmol/l': 'nmol/L',
+  'pmol/l': 'pmol/L',
+  'umol/l': 'µmol/L',
+  'µmol/l': 'µmol/L',
+  'meq/l': 'mEq/L',
+  'miu/l': 'mIU/L',
+  'uiu/ml': 'µIU/mL',
+  'µiu/ml': 'µIU/mL',
+  'u/l': 'U/L',
+  'iu/l': 'U/L',
+  'x10e3/ul': 'x10^3/µL',
+  'thousand/ul': 'x10^3/µL',
+  'k/ul': 'x10^3/µL',
+  'x10e6/ul': 'x10^6/µL',
+  'million/ul': 'x10^6/µL',
+  'm/ul': 'x10^6/µL',
+  'fl': 'fL',
+  'pg': 'pg',
+  '%': '%',
+  '% of total hgb': '%',
+  'ml/min/1.73m2': 'mL/min/1.73m²',
+  'ml/min/1.73': 'mL/min/1.73m²'
+};
+
+const VALUE_CELL = /^(<=|>=|<|>)?\s*(-?\d+(?:\.\d+)?)(?:\s+(HH|LL|H|L|A|High|Low|Abnormal|Critical|\*))?$/i;
+const FLAG_CELL = /^(HH|LL|H|L|A|High|Low|Abnormal|Critical)$/i;
+const RANGE_BETWEEN = /(\d+(?:\.\d+)?)\s*(?:-|–|to)\s*(\d+(?:\.\d+)?)/i;
+const RANGE_BOUND = /(< OR =|> OR =|<=|>=|≤|≥|<|>)\s*(\d+(?:\.\d+)?)/i;
+
+interface KnownMarker {
+  name: string;
+  category: string;
+}
+
+const knownMarkers = new Map<string, KnownMarker>();
+for (const [category, config] of Object.entries(CATEGORY_CONFIGS)) {
+  for (const marker of config.expectedMarkers) {
+    const key = normalizeBiomarkerName(marker);
+    if (!knownMarkers.has(key)) {
+      knownMarkers.set(key, { name: marker, category });
+    }
+  }
+}
+
+/**
+ * Group positioned text items into rows, separating columns with tabs
+ */
+function groupItemsIntoLines(items: TextItem[]): string[] {
+  const rows: Array<{ y: number; items: TextItem[] }> = [];
+
+  for (const item of items) {
+    if (!item.str.trim()) continue;
+    const y = item.transform[5];
+    const row = rows.find(r => Math.abs(r.y - y) <= ROW_TOLERANCE);
+    if (row) {
+      row.items.push(item);
+    } else {
+      rows.push({ y, items: [item] });
+    }
+  }
+
+  return rows
+    .sort((a, b) => b.y - a.y)
+    .map(row => {
+      const sorted = row.items.sort((a, b) => a.transform[4] - b.transform[4]);
+      let line = '';
+      let previousEnd: number | null = null;
+
+      for (const item of sorted) {
+        const x = item.transform[4];
+        if (previousEnd !== null) {
+          const gap = x - previousEnd;
+          line += gap > COLUMN_GAP ? '\t' : gap > 0.5 ? ' ' : '';
+        }
+        line += item.str.trim();
+        previousEnd = x + item.width;
+      }
+
+      return line;
+    });
+}
+
+/**
+ * Extract the text layer of a PDF as tab-separated rows.
+ * Returns an empty array for scanned PDFs without a text layer.
+ */
+export async function extractPdfLines(fileBuffer: Buffer): Promise<string[]> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.js');
+  const doc = await pdfjs.getDocument({
+    data: new Uint8Array(fileBuffer),
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false
+  }).promise;
+
+  try {
+    const lines: string[] = [];
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+      const page = await doc.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const textItems = content.items.filter((item): item is TextItem => 'str' in item);
+      lines.push(...groupItemsIntoLines(textItems));
+    }
+    return lines;
+  } finally {
+    await doc.destroy();
+  }
+}
+
+/**
+ * Recognize the lab that produced the report
+ */
+export function detectLabLayout(lines: string[]): LabReportLayout {
+  const header = lines.slice(0, 40).join(' ');
+  if (/quest diagnostics/i.test(header)) return 'quest';
+  if (/labcorp|laboratory corporation of america/i.test(header)) return 'labcorp';
+  return 'generic';
+}
+
+/** Qualifier Quest prints after the unit of derived results ("mg/dL (calc)") */
+const UNIT_QUALIFIER = /\s*\((?:calc|calculated)\)$/i;
+
+/**
+ * Standardize unit spelling (e.g. "mg/dl" -> "mg/dL", "mg/dL (calc)" -> "mg/dL");
+ * unknown units pass through
+ */
+export function normalizeUnit(unit: string): string {
+  const trimmed = unit.trim().replace(UNIT_QUALIFIER, '');
+  return UNIT_ALIASES[trimmed.toLowerCase()] || trimmed;
+}
+
+function isUnit(cell: string): boolean {
+  const lower = cell.trim().replace(UNIT_QUALIFIER, '').toLowerCase();
+  return !!UNIT_ALIASES[lower] || /^[a-zµ%][a-z0-9µ%^.]*\/[a-z0-9µ%^./]+$/i.test(lower);
+}
+
+/**
+ * Parse a reference range cell ("65-99 mg/dL", "<5.7 %", "> OR = 40 mg/dL")
+ */
+export function parseRangeCell(cell: string): ParsedReferenceRange | null {
+  const between = cell.match(RANGE_BETWEEN);
+  if (between && between.index !== undefined) {
+    return {
+      text: `${between[1]}-${between[2]}`,
+      low: parseFloat(between[1]),
+      high: parseFloat(between[2]),
+      remainder: cell.slice(between.index + between[0].length).trim()
+    };
+  }
+
+  const bound = cell.match(RANGE_BOUND);
+  if (bound && bound.index !== undefined) {
+    const operator = bound[1].toUpperCase().replace(/\s+/g, ' ');
+    const inclusive = operator.includes('=') || operator === '≤' || operator === '≥';
+    const isUpper = operator.startsWith('<') || operator === '≤';
+    const value = parseFloat(bound[2]);
+
+    return {
+      text: `${isUpper ? '<' : '>'}${inclusive ? '=' : ''}${bound[2]}`,
+      low: isUpper ? undefined : value,
+      high: isUpper ? value : undefined,
+      remainder: cell.slice(bound.index + bound[0].length).trim()
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Status from the value against its reference range, falling back to the lab's flag.
+ * Mirrors the extractor prompt: borderline is within 10% outside the range,
+ * critical is more than double the upper limit or below half the lower limit.
+ */
+export function determineStatus(
+  value: number,
+  range: ParsedReferenceRange | null,
+  flag?: string
+): BiomarkerStatus {
+  if (range && (range.low !== undefined || range.high !== undefined)) {
+    if (range.high !== undefined && value > range.high) {
+      if (value > range.high * 2) return 'critical';
+      return value - range.high <= range.high * 0.1 ? 'borderline' : 'high';
+    }
+    if (range.low !== undefined && value < range.low) {
+      if (value < range.low * 0.5) return 'critical';
+      return range.low - value <= range.low * 0.1 ? 'borderline' : 'low';
+    }
+    return 'normal';
+  }
+
+  const normalizedFlag = flag?.toUpperCase();
+  if (normalizedFlag === 'HH' || normalizedFlag === 'LL' || normalizedFlag === 'CRITICAL') return 'critical';
+  if (normalizedFlag === 'H' || normalizedFlag === 'HIGH') return 'high';
+  if (normalizedFlag === 'L' || normalizedFlag === 'LOW') return 'low';
+  if (normalizedFlag === 'A' || normalizedFlag === 'ABNORMAL') return 'borderline';
+  return 'normal';
+}
+
+/**
+ * Resolve a test name as printed by the lab to a known marker
+ */
+function matchMarker(rawName: string, layout: LabReportLayout): KnownMarker | null {
+  // LabCorp appends a two-digit test code to names ("Glucose 01")
+  const name = layout === 'labcorp' ? rawName.replace(/\s+\d{2}$/, '') : rawName;
+  const candidates = [
+    name,
+    name.replace(/\(.*?\)/g, ''),
+    name.split(',')[0]
+  ];
+
+  for (const candidate of candidates) {
+    const compact = candidate.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const alias = LAB_NAME_ALIASES[compact];
+    const marker = knownMarkers.get(normalizeBiomarkerName(alias || candidate));
+    if (marker) return marker;
+  }
+
+  return null;
+}
+
+/**
+ * Parse one tab-separated row into a biomarker
+ */
+function parseRow(cells: string[], layout: LabReportLayout): Biomarker | null | 'unmatched' {
+  const valueIndex = cells.findIndex((cell, i) => i > 0 && VALUE_CELL.test(cell));
+  if (valueIndex === -1) return null;
+
+  const marker = matchMarker(cells[0], layout);
+  if (!marker) return 'unmatched';
+
+  const valueMatch = cells[valueIndex].match(VALUE_CELL)!;
+  const comparator = valueMatch[1] || '';
+  const value = parseFloat(valueMatch[2]);
+  let flag = valueMatch[3];
+
+  let range: ParsedReferenceRange | null = null;
+  let unit = '';
+
+  for (const cell of cells.slice(valueIndex + 1)) {
+    if (!flag && FLAG_CELL.test(cell)) {
+      flag = cell;
+    } else if (!unit && isUnit(cell)) {
+      unit = normalizeUnit(cell);
+    } else if (!range) {
+      // Quest prints the unit in the same cell as the range ("65-99 mg/dL")
+      range = parseRangeCell(cell);
+      if (range && !unit && isUnit(range.remainder)) {
+        unit = normalizeUnit(range.remainder);
+      }
+    }
+  }
+
+  return {
+    name: marker.name,
+    value: `${comparator}${valueMatch[2]}`,
+    unit,
+    referenceRange: range?.text || 'Not specified',
+    status: determineStatus(value, range, flag),
+    category: marker.category,
+    significance: '',
+    implications: '',
+    provenance: 'parsed'
+  };
+}
+
+/**
+ * Parse biomarkers from the rows of a lab report's text layer
+ */
+export function parseLabReportLines(lines: string[]): TextParseResult {
+  if (lines.length === 0) {
+    return { layout: null, biomarkers: [], unmatchedRows: 0 };
+  }
+
+  const layout = detectLabLayout(lines);
+  const biomarkers: Biomarker[] = [];
+  let unmatchedRows = 0;
+
+  for (const line of lines) {
+    const cells = line.split(/\t| {2,}/).map(cell => cell.trim()).filter(Boolean);
+    if (cells.length < 2) continue;
+
+    const result = parseRow(cells, layout);
+    if (result === 'unmatched') {
+      unmatchedRows++;
+    } else if (result) {
+      biomarkers.push(result);
+    }
+  }
+
+  return { layout, biomarkers, unmatchedRows };
+}
+
+/**
+ * Categories that text parsing didn't cover well enough to skip the LLM.
+ * A report where every result row matched a known marker is fully covered;
+ * otherwise categories with fewer parsed markers than expected are re-extracted.
+ */
+export function getUnparsedCategories(parsed: TextParseResult): string[] {
+  if (parsed.biomarkers.length > 0 && parsed.unmatchedRows === 0) {
+    return [];
+  }
+
+  const counts = new Map<string, number>();
+  for (const biomarker of parsed.biomarkers) {
+    counts.set(biomarker.category, (counts.get(biomarker.category) || 0) + 1);
+  }
+
+  return Object.entries(CATEGORY_CONFIGS)
+    .filter(([category, config]) => (counts.get(category) || 0) < Math.max(1, config.minExpected))
+    .map(([category]) => category);
+}
@@ -5,6 +5,55 @@
 
 export type BiomarkerStatus = 'optimal' | 'normal' | 'borderline' | 'high' | 'low' | 'critical';
 
+/** 'parsed' = read deterministically from the report's text layer, 'inferred' = extracted by the LLM */
+export type BiomarkerProvenance = 'parsed' | 'inferred';
+
+export type LabReportLayout = 'quest' | 'labcorp' | 'generic';
+
+export type Sex = 'male' | 'female';
+
+export interface Demographics {
+  sex?: Sex;
+  age?: number;
+}
+
+/**
+ * Where a biomarker's final status came from: our reference-range catalog,
+ * the lab's printed range, or the extraction model's classification
+ */
+export type StatusSource = 'catalog' | 'lab' | 'model';
+
+export interface ReferenceRangeRule {
+  /** Canonical unit (see units.ts) the limits are expressed in */
+  unit: string;
+  low?: number;
+  high?: number;
+  optimalLow?: number;
+  optimalHigh?: number;
+  criticalLow?: number;
+  criticalHigh?: number;
+  sex?: Sex;
+  /** Inclusive age band; rules default to adults (18+) */
+  minAge?: number;
+  maxAge?: number;
+}
+
+export interface StatusDisagreement {
+  source: 'lab' | 'model';
+  status: BiomarkerStatus;
+}
+
+export interface StatusAudit {
+  source: StatusSource;
+  modelStatus: BiomarkerStatus;
+  labStatus?: BiomarkerStatus;
+  catalogStatus?: BiomarkerStatus;
+  /** Catalog rule applied, e.g. "male 18+: 13.5-17.5 g/dL" */
+  rule?: string;
+  /** Classifications that differ from the final status */
+  disagreements: StatusDisagreement[];
+}
+
 export interface Biomarker {
   name: string;
   value: string;
@@ -14,6 +63,8 @@ export interface Biomarker {
   category: string;
   significance: string;
   implications: string;
+  provenance?: BiomarkerProvenance;
+  statusAudit?: StatusAudit;
 }
 
 export interface CategoryConfig {
@@ -46,6 +97,32 @@ export interface ValidationResult {
   biomarkers: Biomarker[];
   duplicatesRemoved: number;
   confidence: number;
+  /** Biomarkers whose final status disagrees with the lab's range or the model */
+  statusDisagreements: number;
+}
+
+export interface TextParseResult {
+  layout: LabReportLayout | null;
+  biomarkers: Biomarker[];
+  /** Table-like rows that didn't match a known biomarker */
+  unmatchedRows: number;
+}
+
+export interface ParsedReferenceRange {
+  /** Normalized range text, e.g. "65-99", "<5.7", ">=40" */
+  text: string;
+  low?: number;
+  high?: number;
+  /** Text after the range (usually the unit) */
+  remainder: string;
+}
+
+export interface ExtractionSummary {
+  layout: LabReportLayout | null;
+  parsedCount: number;
+  inferredCount: number;
+  /** Categories that still had to be sent to the LLM */
+  llmCategories: string[];
 }
 
 export interface Recommendations {
@@ -65,6 +142,7 @@ export interface BloodAnalysisResult {
   confidence: number;
   processingTimeMs: number;
   batchResults?: BatchExtractionResult[];
+  extraction?: ExtractionSummary;
 }
 
 export interface AnalysisJobPayload {
@@ -80,6 +158,70 @@ export interface AnalysisJobResult {
   error?: string;
 }
 
+// =============================================================================
+// BIOMARKER HISTORY
+// =============================================================================
+
+export type PanelSource = 'upload' | 'fhir';
+
+export type TrendDirection = 'up' | 'down' | 'stable';
+
+export type TrendAssessment = 'improving' | 'worsening' | 'unchanged';
+
+export interface PanelOptions {
+  source?: PanelSource;
+  /** When the blood was drawn, if known (defaults to now) */
+  collectedAt?: string;
+}
+
+export interface BiomarkerReading {
+  panelId: string;
+  panelDate: string;
+  /** normalizeBiomarkerName() key, stable across labs */
+  markerKey: string;
+  name: string;
+  category: string;
+  value: string;
+  unit: string;
+  /** Numeric value converted to the marker's canonical unit */
+  canonicalValue: number | null;
+  canonicalUnit: string | null;
+  referenceRange: string;
+  status: BiomarkerStatus;
+  provenance?: BiomarkerProvenance;
+}
+
+export interface BiomarkerTrend {
+  markerKey: string;
+  name: string;
+  category: string;
+  unit: string | null;
+  readings: Array<{ panelDate: string; value: number; status: BiomarkerStatus }>;
+  latest: number;
+  previous: number | null;
+  /** Change since the previous panel */
+  deltaAbsolute: number | null;
+  deltaPercent: number | null;
+  direction: TrendDirection;
+  /** Least-squares slope over all readings, canonical units per 30 days */
+  slopePer30Days: number | null;
+  assessment: TrendAssessment;
+  /** e.g. "LDL Cholesterol down 18% since March" */
+  annotation: string | null;
+}
+
+export interface PanelSummary {
+  panelId: string;
+  panelDate: string;
+  source: PanelSource;
+  biomarkerCount: number;
+}
+
+export interface BiomarkerHistory {
+  panels: PanelSummary[];
+  trends: BiomarkerTrend[];
+}
+
 // Category configurations for extraction
 export const CATEGORY_CONFIGS: Record<string, CategoryConfig> = {
   blood_count: {
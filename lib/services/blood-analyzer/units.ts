@@ -0,0 +1,121 @@
+/**
+ * Blood Analyzer Units
+ * Conversion of biomarker values to a canonical unit per marker so panels
+ * from different labs (mg/dL vs mmol/L etc.) can be compared over time
+ */
+
+import { normalizeBiomarkerName } from './names';
+import { normalizeUnit } from './text-parser';
+
+type Converter = number | ((value: number) => number);
+
+interface UnitConversion {
+  canonicalUnit: string;
+  /** Multiplier (or function) from a unit, lowercased, to the canonical unit */
+  from: Record<string, Converter>;
+}
+
+const LIPID_MG_DL: UnitConversion = { canonicalUnit: 'mg/dL', from: { 'mmol/l': 38.67 } };
+const ELECTROLYTE: UnitConversion = { canonicalUnit: 'mmol/L', from: { 'meq/l': 1 } };
+const THOUSANDS_PER_UL: UnitConversion = {
+  canonicalUnit: 'x10^3/µL',
+  from: { 'x10^9/l': 1, '10^9/l': 1, 'x10e9/l': 1 }
+};
+
+// Keyed by normalizeBiomarkerName()
+const CONVERSIONS: Record<string, UnitConversion> = {
+  glucose: { canonicalUnit: 'mg/dL', from: { 'mmol/l': 18.016 } },
+  fastingglucose: { canonicalUnit: 'mg/dL', from: { 'mmol/l': 18.016 } },
+  totalcholesterol: LIPID_MG_DL,
+  ldlcholesterol: LIPID_MG_DL,
+  hdlcholesterol: LIPID_MG_DL,
+  nonhdlcholesterol: LIPID_MG_DL,
+  triglycerides: { canonicalUnit: 'mg/dL', from: { 'mmol/l': 88.57 } },
+  // IFCC mmol/mol to NGSP %
+  glycatedhaemoglobin: { canonicalUnit: '%', from: { 'mmol/mol': v => v * 0.09148 + 2.152 } },
+  insulin: { canonicalUnit: 'µIU/mL', from: { 'pmol/l': 1 / 6.945, 'miu/l': 1 } },
+  fastinginsulin: { canonicalUnit: 'µIU/mL', from: { 'pmol/l': 1 / 6.945, 'miu/l': 1 } },
+  creatinine: { canonicalUnit: 'mg/dL', from: { 'µmol/l': 1 / 88.42 } },
+  bloodureanitrogen: { canonicalUnit: 'mg/dL', from: { 'mmol/l': 2.801 } },
+  uricacid: { canonicalUnit: 'mg/dL', from: { 'µmol/l': 1 / 59.48, 'mmol/l': 16.81 } },
+  calcium: { canonicalUnit: 'mg/dL', from: { 'mmol/l': 4.008 } },
+  magnesium: { canonicalUnit: 'mg/dL', from: { 'mmol/l': 2.431 } },
+  haemoglobin: { canonicalUnit: 'g/dL', from: { 'g/l': 0.1, 'mmol/l': 1.611 } },
+  haematocrit: { canonicalUnit: '%', from: { 'l/l': 100 } },
+  ferritin: { canonicalUnit: 'ng/mL', from: { 'µg/l': 1, 'pmol/l': 0.445 } },
+  iron: { canonicalUnit: 'µg/dL', from: { 'µmol/l': 5.585 } },
+  serumiron: { canonicalUnit: 'µg/dL', from: { 'µmol/l': 5.585 } },
+  vitamind: { canonicalUnit: 'ng/mL', from: { 'nmol/l': 1 / 2.496 } },
+  '25ohvitamind': { canonicalUnit: 'ng/mL', from: { 'nmol/l': 1 / 2.496 } },
+  vitaminb12: { canonicalUnit: 'pg/mL', from: { 'pmol/l': 1.355, 'ng/l': 1 } },
+  folate: { canonicalUnit: 'ng/mL', from: { 'nmol/l': 1 / 2.266, 'µg/l': 1 } },
+  serumfolate: { canonicalUnit: 'ng/mL', from: { 'nmol/l': 1 / 2.266, 'µg/l': 1 } },
+  thyroidstimulatinghormone: { canonicalUnit: 'mIU/L', from: { 'µiu/ml': 1 } },
+  freet4: { canonicalUnit: 'ng/dL', from: { 'pmol/l': 1 / 12.87 } },
+  testosterone: { canonicalUnit: 'ng/dL', from: { 'nmol/l': 28.84 } },
+  totaltestosterone: { canonicalUnit: 'ng/dL', from: { 'nmol/l': 28.84 } },
+  cortisol: { canonicalUnit: 'µg/dL', from: { 'nmol/l': 1 / 27.59 } },
+  sodium: ELECTROLYTE,
+  potassium: ELECTROLYTE,
+  chloride: ELECTROLYTE,
+  bicarbonate: ELECTROLYTE,
+  whitecellcount: THOUSANDS_PER_UL,
+  wbccount: THOUSANDS_PER_UL,
+  platelets: THOUSANDS_PER_UL,
+  redcellcount: { canonicalUnit: 'x10^6/µL', from: { 'x10^12/l': 1, '10^12/l': 1, 'x10e12/l': 1 } },
+  rbccount: { canonicalUnit: 'x10^6/µL', from: { 'x10^12/l': 1, '10^12/l': 1, 'x10e12/l': 1 } },
+  creactiveprotein: { canonicalUnit: 'mg/L', from: { 'mg/dl': 10 } },
+  highsensitivitycrp: { canonicalUnit: 'mg/L', from: { 'mg/dl': 10 } }
+};
+
+/**
+ * Parse the numeric part of an extracted value ("5.4", "<0.5", "1,200").
+ * Returns null for qualitative results ("Negative", "Trace").
+ */
+export function parseNumericValue(value: string): number | null {
+  const match = value.replace(/,/g, '').match(/-?\d+(?:\.\d+)?/);
+  if (!match) return null;
+  const parsed = parseFloat(match[0]);
+  return isNaN(parsed) ? null : parsed;
+}
+
+function unitKey(unit: string): string {
+  return normalizeUnit(unit)
+    .toLowerCase()
+    .replace(/μ/g, 'µ') // Greek mu -> micro sign
+    .replace(/^mcg/, 'µg')
+    .replace(/^u(?=(g|mol|iu)\/)/, 'µ');
+}
+
+/**
+ * Convert a biomarker value to the marker's canonical unit.
+ * Markers without a conversion keep their (normalized) unit as canonical.
+ * Returns null when the value isn't numeric or the unit isn't convertible,
+ * including a missing unit on a marker reported in more than one unit.
+ */
+export function toCanonicalUnit(
+  name: string,
+  value: string,
+  unit: string
+): { value: number; unit: string } | null {
+  const numeric = parseNumericValue(value);
+  if (numeric === null) return null;
+
+  const conversion = CONVERSIONS[normalizeBiomarkerName(name)];
+  const normalizedUnit = normalizeUnit(unit);
+  if (!conversion) {
+    return { value: numeric, unit: normalizedUnit };
+  }
+
+  const key = unitKey(unit);
+  if (!key) return null;
+  if (key === unitKey(conversion.canonicalUnit)) {
+    return { value: numeric, unit: conversion.canonicalUnit };
+  }
+
+  const converter = conversion.from[key];
+  if (converter === undefined) return null;
+
+  const converted = typeof converter === 'number' ? numeric * converter : converter(numeric);
+  return { value: Math.round(converted * 1000) / 1000, unit: conversion.canonicalUnit };
+}
@@ -3,78 +3,11 @@
  * Deduplication and validation of extracted biomarkers
  */
 
-import { Biomarker, ValidationResult, CATEGORY_CONFIGS } from './types';
+import { Biomarker, Demographics, ValidationResult, CATEGORY_CONFIGS } from './types';
+import { normalizeBiomarkerName } from './names';
+import { applyReferenceRange } from './reference-ranges';
 
-/**
- * Normalize biomarker names for comparison
- * Handles common variations and abbreviations
- */
-function normalizeBiomarkerName(name: string): string {
-  let normalized = name
-    .toLowerCase()
-    .trim()
-    .replace(/[^a-z0-9]/g, ''); // Remove all non-alphanumeric
-
-  // Common abbreviation mappings
-  const abbreviations: Record<string, string> = {
-    'hb': 'haemoglobin',
-    'hemoglobin': 'haemoglobin',
-    'rbc': 'redcellcount',
-    'wbc': 'whitecellcount',
-    'plt': 'platelets',
-    'hct': 'haematocrit',
-    'hematocrit': 'haematocrit',
-    'ldl': 'ldlcholesterol',
-    'hdl': 'hdlcholesterol',
-    'tc': 'totalcholesterol',
-    'tg': 'triglycerides',
-    'alt': 'alanineaminotransferase',
-    'sgpt': 'alanineaminotransferase',
-    'ast': 'aspartateaminotransferase',
-    'sgot': 'aspartateaminotransferase',
-    'alp': 'alkalinephosphatase',
-    'ggt': 'gammaglutamyltransferase',
-    'gamagt': 'gammaglutamyltransferase',
-    'tsh': 'thyroidstimulatinghormone',
-    'ft4': 'freet4',
-    'ft3': 'freet3',
-    'hba1c': 'glycatedhaemoglobin',
-    'egfr': 'estimatedgfr',
-    'bun': 'bloodureanitrogen',
-    'crp': 'creactiveprotein',
-    'hscrp': 'highsensitivitycrp',
-    'esr': 'erythrocytesedimentationrate',
-    'psa': 'prostatespecificantigen',
-    'vitd': 'vitamind',
-    'vitb12': 'vitaminb12',
-    'b12': 'vitaminb12',
-    'lpa': 'lipoproteina',
-    'apoa': 'apolipoproteina1',
-    'apob': 'apolipoproteinb',
-    'shbg': 'sexhormonebindingglobulin',
-    'dhea': 'dheas',
-    'dheas': 'dheasulphate',
-    'igf1': 'igf1',
-    'ck': 'creatinekinase',
-    'cpk': 'creatinekinase',
-    'ldh': 'lactatedehydrogenase',
-    'mch': 'meancorpuscularhaemoglobin',
-    'mchc': 'meancorpuscularhaemoglobinconcentration',
-    'mcv': 'meancorpuscularvolume',
-    'mpv': 'meanplateletvolume',
-    'rdw': 'redcelldistributionwidth',
-    'tibc': 'totalironbindingcapacity',
-    'uibc': 'unsaturatedironbindingcapacity',
-    'acr': 'albumincreatinineratio'
-  };
-
-  // Check if the normalized name is an abbreviation
-  if (abbreviations[normalized]) {
-    return abbreviations[normalized];
-  }
-
-  return normalized;
-}
+export { normalizeBiomarkerName };
 
 /**
  * Calculate confidence score based on expected vs found biomarkers
@@ -99,9 +32,13 @@ function calculateConfidence(biomarkers: Biomarker[]): number {
 }
 
 /**
- * Validate and deduplicate biomarkers from all batches
+ * Validate and deduplicate biomarkers from all batches, then recompute each
+ * status from the reference-range catalog for the user's sex and age
  */
-export function validateAndDedupe(biomarkers: Biomarker[]): ValidationResult {
+export function validateAndDedupe(
+  biomarkers: Biomarker[],
+  demographics: Demographics = {}
+): ValidationResult {
   const seen = new Map<string, Biomarker>();
   let duplicatesRemoved = 0;
 
@@ -123,19 +60,24 @@ export function validateAndDedupe(biomarkers: Biomarker[]): ValidationResult {
     }
   }
 
-  const uniqueBiomarkers = Array.from(seen.values());
+  const uniqueBiomarkers = Array.from(seen.values())
+    .map(biomarker => applyReferenceRange(biomarker, demographics));
+  const statusDisagreements = uniqueBiomarkers
+    .filter(b => (b.statusAudit?.disagreements.length || 0) > 0).length;
   const confidence = calculateConfidence(uniqueBiomarkers);
 
   console.log(`[Blood Analyzer] Validation complete:`);
   console.log(`  - Input biomarkers: ${biomarkers.length}`);
   console.log(`  - Unique biomarkers: ${uniqueBiomarkers.length}`);
   console.log(`  - Duplicates removed: ${duplicatesRemoved}`);
+  console.log(`  - Status disagreements: ${statusDisagreements}`);
   console.log(`  - Confidence: ${confidence}%`);
 
   return {
     biomarkers: uniqueBiomarkers,
     duplicatesRemoved,
-    confidence
+    confidence,
+    statusDisagreements
   };
 }
 
@@ -191,7 +133,7 @@ export function getConcerningBiomarkers(biomarkers: Biomarker[]): Biomarker[] {
   ).sort((a, b) => {
     // Sort by severity: critical > high/low > borderline
     const severityOrder = { critical: 0, high: 1, low: 1, borderline: 2, normal: 3, optimal: 4 };
-    return (severityOrder[a.status] || 3) - (severityOrder[b.status] || 3);
+    return (severityOrder[a.status] ?? 3) - (severityOrder[b.status] ?? 3);
   });
 }
 
@@ -6,6 +6,7 @@
 
 import { createClient } from '@supabase/supabase-js';
 import { validateProductAvailability } from './supplement-matching';
+import { checkCartAddition, type SafetyIssue } from './supplement-safety';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
@@ -111,6 +112,8 @@ export async function getOrCreateCart(
 
 /**
  * Adds a product to the cart
+ * New products are checked against the user's supplement stack first;
+ * unsafe ones are refused and other safety issues returned as warnings.
  */
 export async function addToCart(
   userEmail: string,
@@ -118,7 +121,7 @@ export async function addToCart(
   quantity: number = 1,
   planCode?: string,
   recommendationContext?: Record<string, unknown>
-): Promise<{ cart: Cart | null; error: string | null }> {
+): Promise<{ cart: Cart | null; error: string | null; warnings?: SafetyIssue[] }> {
   try {
     console.log(`[Cart Service] Adding product ${productId} (qty: ${quantity}) to cart for ${userEmail}`);
 
@@ -149,6 +152,8 @@ export async function addToCart(
       return { cart: null, error: cartError || 'Failed to get cart' };
     }
 
+    let warnings: SafetyIssue[] = [];
+
     // Check if product already in cart
     const { data: existingItem, error: itemError } = await supabase
       .from('cart_items')
@@ -182,6 +187,20 @@ export async function addToCart(
 
       console.log(`[Cart Service] Updated quantity to ${newQuantity}`);
     } else {
+      // Check the product against the rest of the stack
+      const safety = await checkCartAddition(userEmail, product);
+
+      if (safety.blocked) {
+        console.warn(`[Cart Service] Blocked ${product.name} for ${userEmail}: ${safety.issues[0]?.message}`);
+        return {
+          cart: null,
+          error: `${product.name} was not added: ${safety.issues[0]?.message || 'Not safe with your current supplements'}`,
+          warnings: safety.issues,
+        };
+      }
+
+      warnings = safety.issues;
+
       // Add new item
       const { error: insertError } = await supabase.from('cart_items').insert({
         cart_id: existingCart.id,
@@ -200,7 +219,8 @@ export async function addToCart(
     }
 
     // Fetch updated cart
-    return getCart(userEmail);
+    const result = await getCart(userEmail);
+    return { ...result, warnings };
   } catch (error) {
     console.error('[Cart Service] Error:', error);
     return { cart: null, error: 'Failed to add to cart' };
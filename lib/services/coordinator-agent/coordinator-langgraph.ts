@@ -16,6 +16,7 @@ import { StateGraph, END, START } from '@langchain/langgraph';
 import { ChatOpenAI } from '@langchain/openai';
 import { HumanMessage, SystemMessage } from '@langchain/core/messages';
 import { z } from 'zod';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
 
 // =============================================================================
 // STATE DEFINITION
@@ -379,7 +380,7 @@ async function executeAgent(task: PlannedTask, userEmail: string): Promise<any>
 
   const response = await fetch(`${baseUrl}/api/agent/execute`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
     body: JSON.stringify({
       taskId: task.id,
       email: userEmail,
@@ -10,6 +10,7 @@ import {
 } from './dependency-resolver';
 import { buildPlanningContext, PlanningContext } from '../agent-planning/context-builder';
 import { getCoordinatorPlanningPrompt } from '../../prompts/agent-planning-prompt';
+import { internalRequestHeaders } from '../../utils/internal-auth';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -480,7 +481,7 @@ export class CoordinatorAgent {
       `${process.env.NEXT_PUBLIC_BASE_URL}/api/agent/execute`,
       {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
         body: JSON.stringify({
           taskId,
           email: this.userEmail,
@@ -0,0 +1,247 @@
+/**
+ * Custom Insight Rules Evaluator
+ * Evaluates rule conditions against daily rollup rows
+ */
+
+import type { UnifiedHealthDaily } from '../unified-data/types';
+import {
+  CustomInsightRule,
+  InsightRuleCondition,
+  MetricCondition,
+  RuleAggregate,
+  RuleEvaluation,
+  RuleMetric,
+  RuleObservation,
+  RuleOperator,
+} from './types';
+
+const METRIC_LABELS: Record<RuleMetric, string> = {
+  sleep_hours: 'Sleep hours',
+  sleep_score: 'Sleep score',
+  deep_sleep_minutes: 'Deep sleep minutes',
+  rem_sleep_minutes: 'REM sleep minutes',
+  sleep_efficiency: 'Sleep efficiency',
+  recovery_score: 'Recovery score',
+  readiness_score: 'Readiness score',
+  hrv_avg: 'HRV',
+  resting_hr: 'Resting heart rate',
+  steps: 'Steps',
+  active_calories: 'Active calories',
+  active_minutes: 'Active minutes',
+  workout_count: 'Workouts',
+  total_workout_minutes: 'Workout minutes',
+  glucose_avg: 'Average glucose',
+  time_in_range_percent: 'Time in range',
+  stress_score: 'Stress score',
+  meeting_count: 'Meetings',
+  meeting_minutes: 'Meeting minutes',
+  focus_time_minutes: 'Focus time',
+};
+
+const OPERATOR_SYMBOLS: Record<RuleOperator, string> = {
+  lt: '<',
+  lte: '<=',
+  gt: '>',
+  gte: '>=',
+  eq: '=',
+};
+
+/** Fewest baseline days with data before a baseline comparison can fire */
+const MIN_BASELINE_SAMPLES = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateKey(date: Date | string): string {
+  return typeof date === 'string' ? date.slice(0, 10) : date.toISOString().slice(0, 10);
+}
+
+function shiftDate(dateKey: string, days: number): string {
+  return new Date(new Date(`${dateKey}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function aggregate(values: number[], kind: RuleAggregate): number | null {
+  if (values.length === 0) return null;
+  switch (kind) {
+    case 'latest':
+      return values[0];
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+    case 'sum':
+      return values.reduce((sum, v) => sum + v, 0);
+    case 'avg':
+      return values.reduce((sum, v) => sum + v, 0) / values.length;
+  }
+}
+
+function compare(observed: number, op: RuleOperator, target: number): boolean {
+  switch (op) {
+    case 'lt':
+      return observed < target;
+    case 'lte':
+      return observed <= target;
+    case 'gt':
+      return observed > target;
+    case 'gte':
+      return observed >= target;
+    case 'eq':
+      return observed === target;
+  }
+}
+
+function round(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 10) / 10;
+}
+
+/**
+ * Metric values for `count` days ending on `endDate`, most recent first
+ */
+function valuesFor(
+  byDate: Map<string, UnifiedHealthDaily>,
+  metric: RuleMetric,
+  endDate: string,
+  count: number
+): number[] {
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const value = byDate.get(shiftDate(endDate, -i))?.[metric];
+    if (typeof value === 'number' && isFinite(value)) values.push(value);
+  }
+  return values;
+}
+
+function evaluateMetricOnDay(
+  condition: MetricCondition,
+  byDate: Map<string, UnifiedHealthDaily>,
+  day: string
+): { observed: number | null; target: number | null; matched: boolean } {
+  const windowDays = condition.window_days ?? 1;
+  const observed = aggregate(
+    valuesFor(byDate, condition.metric, day, windowDays),
+    condition.aggregate ?? 'latest'
+  );
+
+  let target: number | null = condition.value ?? null;
+  if (condition.baseline) {
+    const baselineValues = valuesFor(
+      byDate,
+      condition.metric,
+      shiftDate(day, -windowDays),
+      condition.baseline.days
+    );
+    const baseline = baselineValues.length >= Math.min(MIN_BASELINE_SAMPLES, condition.baseline.days)
+      ? aggregate(baselineValues, condition.baseline.aggregate ?? 'avg')
+      : null;
+    target = baseline === null ? null : baseline * (1 + (condition.baseline.percent ?? 0) / 100);
+  }
+
+  const matched = observed !== null && target !== null && compare(observed, condition.op, target);
+  return { observed, target, matched };
+}
+
+function evaluateNode(
+  condition: InsightRuleCondition,
+  byDate: Map<string, UnifiedHealthDaily>,
+  day: string,
+  observations: RuleObservation[]
+): boolean {
+  if ('all' in condition) {
+    // Evaluate every child so all observations are reported
+    return condition.all.map((c) => evaluateNode(c, byDate, day, observations)).every(Boolean);
+  }
+  if ('any' in condition) {
+    return condition.any.map((c) => evaluateNode(c, byDate, day, observations)).some(Boolean);
+  }
+
+  const required = condition.consecutive_days ?? 1;
+  const latest = evaluateMetricOnDay(condition, byDate, day);
+
+  let streak = 0;
+  while (streak < required) {
+    const result = streak === 0 ? latest : evaluateMetricOnDay(condition, byDate, shiftDate(day, -streak));
+    if (!result.matched) break;
+    streak++;
+  }
+
+  const matched = streak >= required;
+  observations.push({
+    metric: condition.metric,
+    op: condition.op,
+    observed: round(latest.observed),
+    target: round(latest.target),
+    streak,
+    matched,
+  });
+  return matched;
+}
+
+/**
+ * Evaluate a rule condition against daily rollup rows, as of the latest day
+ */
+export function evaluateRuleCondition(
+  condition: InsightRuleCondition,
+  daily: UnifiedHealthDaily[]
+): RuleEvaluation {
+  const byDate = new Map(daily.map((row) => [toDateKey(row.date), row]));
+  const evaluatedDate = Array.from(byDate.keys()).sort().pop() ?? null;
+
+  if (!evaluatedDate) {
+    return { matched: false, evaluatedDate: null, observations: [] };
+  }
+
+  const observations: RuleObservation[] = [];
+  const matched = evaluateNode(condition, byDate, evaluatedDate, observations);
+  return { matched, evaluatedDate, observations };
+}
+
+/**
+ * Days of history a condition needs to be evaluated
+ */
+export function getRuleLookbackDays(condition: InsightRuleCondition): number {
+  if ('all' in condition) return Math.max(...condition.all.map(getRuleLookbackDays));
+  if ('any' in condition) return Math.max(...condition.any.map(getRuleLookbackDays));
+  return (condition.window_days ?? 1) + (condition.baseline?.days ?? 0) + (condition.consecutive_days ?? 1);
+}
+
+/**
+ * Human-readable form of a condition, e.g.
+ * "HRV < 14-day avg -15% for 2 days in a row"
+ */
+export function describeRuleCondition(condition: InsightRuleCondition): string {
+  if ('all' in condition) return condition.all.map(describeRuleCondition).join(' AND ');
+  if ('any' in condition) return `(${condition.any.map(describeRuleCondition).join(' OR ')})`;
+
+  const windowDays = condition.window_days ?? 1;
+  const subject = windowDays > 1
+    ? `${windowDays}-day ${condition.aggregate ?? 'latest'} ${METRIC_LABELS[condition.metric]}`
+    : METRIC_LABELS[condition.metric];
+
+  let target = String(condition.value);
+  if (condition.baseline) {
+    const percent = condition.baseline.percent ?? 0;
+    target = `${condition.baseline.days}-day ${condition.baseline.aggregate ?? 'avg'}`;
+    if (percent !== 0) target += ` ${percent > 0 ? '+' : ''}${percent}%`;
+  }
+
+  const days = condition.consecutive_days ?? 1;
+  const streak = days > 1 ? ` for ${days} days in a row` : '';
+  return `${subject} ${OPERATOR_SYMBOLS[condition.op]} ${target}${streak}`;
+}
+
+/**
+ * Notification text for a matched rule: the rule's own message, or the
+ * condition plus the values that matched
+ */
+export function buildRuleMessage(
+  rule: Pick<CustomInsightRule, 'condition' | 'message'>,
+  evaluation: RuleEvaluation
+): string {
+  if (rule.message) return rule.message;
+
+  const details = evaluation.observations
+    .filter((o) => o.matched)
+    .map((o) => `${METRIC_LABELS[o.metric]} ${o.observed} ${OPERATOR_SYMBOLS[o.op]} ${o.target}`)
+    .join(', ');
+  return `Your rule "${describeRuleCondition(rule.condition)}" matched${details ? ` (${details})` : ''}.`;
+}
@@ -0,0 +1,240 @@
+/**
+ * Custom Insight Rules
+ *
+ * User-defined alert rules over the unified_health_daily rollup, for alerts
+ * the fixed generators can't express, e.g. "HRV 15% below my 14-day average
+ * two days in a row":
+ *
+ * ```json
+ * {
+ *   "metric": "hrv_avg",
+ *   "op": "lt",
+ *   "baseline": { "days": 14, "percent": -15 },
+ *   "consecutive_days": 2
+ * }
+ * ```
+ *
+ * Conditions compare an aggregate over a window of days against a fixed value
+ * or against the metric's own baseline (the days preceding the window), can be
+ * required to hold several days in a row and combine with `all` / `any`.
+ * Rules are evaluated by the sync cron and delivered through the
+ * NotificationCoordinator with the rule's own severity.
+ *
+ * @module lib/services/custom-insight-rules
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import { getUnifiedHealthDaily } from '../unified-data';
+import { NotificationCoordinator } from '../notification-coordinator';
+import {
+  CustomInsightRule,
+  CustomInsightRuleInput,
+  InsightRuleCondition,
+  RuleEvaluation,
+  RuleRunSummary,
+} from './types';
+import {
+  evaluateRuleCondition,
+  getRuleLookbackDays,
+  describeRuleCondition,
+  buildRuleMessage,
+} from './evaluator';
+
+export * from './types';
+export { evaluateRuleCondition, getRuleLookbackDays, describeRuleCondition, buildRuleMessage };
+
+const logger = createLogger('CustomInsightRules');
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+export async function listCustomRules(email: string): Promise<CustomInsightRule[]> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('custom_insight_rules')
+    .select('*')
+    .eq('email', email)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to list custom rules: ${error.message}`);
+  }
+  return (data || []) as CustomInsightRule[];
+}
+
+export async function getCustomRule(email: string, id: string): Promise<CustomInsightRule | null> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('custom_insight_rules')
+    .select('*')
+    .eq('email', email)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch custom rule: ${error.message}`);
+  }
+  return data as CustomInsightRule | null;
+}
+
+export async function createCustomRule(email: string, input: CustomInsightRuleInput): Promise<CustomInsightRule> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('custom_insight_rules')
+    .insert({ email, ...input })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create custom rule: ${error.message}`);
+  }
+  logger.info('Custom insight rule created', { email, ruleId: data.id });
+  return data as CustomInsightRule;
+}
+
+export async function updateCustomRule(
+  email: string,
+  id: string,
+  updates: Partial<CustomInsightRuleInput>
+): Promise<CustomInsightRule | null> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('custom_insight_rules')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('email', email)
+    .eq('id', id)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update custom rule: ${error.message}`);
+  }
+  return data as CustomInsightRule | null;
+}
+
+export async function deleteCustomRule(email: string, id: string): Promise<boolean> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('custom_insight_rules')
+    .delete()
+    .eq('email', email)
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete custom rule: ${error.message}`);
+  }
+  return (data || []).length > 0;
+}
+
+// ============================================================================
+// CRON EVALUATION
+// ============================================================================
+
+/**
+ * Evaluate a condition against the user's current data without storing or
+ * notifying, so rules can be checked before they are saved
+ */
+export async function previewRuleCondition(
+  email: string,
+  condition: InsightRuleCondition
+): Promise<RuleEvaluation> {
+  const daily = await getUnifiedHealthDaily(email, { days: getRuleLookbackDays(condition) + 1 });
+  return evaluateRuleCondition(condition, daily);
+}
+
+/**
+ * Evaluate a user's enabled rules against their daily rollup, store an
+ * insight for each rule that matches (outside its cooldown) and notify
+ */
+export async function evaluateCustomRules(email: string): Promise<RuleRunSummary> {
+  const summary: RuleRunSummary = { evaluated: 0, triggered: 0, notified: 0 };
+  const rules = (await listCustomRules(email)).filter((rule) => rule.enabled);
+  if (rules.length === 0) return summary;
+
+  const supabase = createAdminClient();
+  const lookbackDays = Math.max(...rules.map((rule) => getRuleLookbackDays(rule.condition)));
+  const daily = await getUnifiedHealthDaily(email, { days: lookbackDays + 1 });
+  const now = new Date();
+
+  for (const rule of rules) {
+    summary.evaluated++;
+    const evaluation = evaluateRuleCondition(rule.condition, daily);
+
+    const coolingDown = rule.last_triggered_at !== null
+      && now.getTime() - new Date(rule.last_triggered_at).getTime() < rule.cooldown_hours * 60 * 60 * 1000;
+    const triggered = evaluation.matched && !coolingDown;
+
+    await supabase
+      .from('custom_insight_rules')
+      .update({
+        last_evaluated_at: now.toISOString(),
+        ...(triggered ? { last_triggered_at: now.toISOString() } : {}),
+      })
+      .eq('id', rule.id);
+
+    if (!triggered) continue;
+    summary.triggered++;
+
+    const message = buildRuleMessage(rule, evaluation);
+    const { data: insight, error } = await supabase
+      .from('real_time_insights')
+      .insert({
+        email,
+        insight_type: 'custom_rule',
+        title: rule.name,
+        message,
+        severity: rule.severity,
+        actionable_recommendation: rule.description || '',
+        source_provider: 'custom_rule',
+        source_data_type: 'unified_health_daily',
+        context_data: {
+          rule_id: rule.id,
+          condition: describeRuleCondition(rule.condition),
+          evaluated_date: evaluation.evaluatedDate,
+          observations: evaluation.observations,
+        },
+        notification_sent: false,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      logger.error('Error storing custom rule insight', error, { email, ruleId: rule.id });
+      continue;
+    }
+
+    const result = await NotificationCoordinator.send({
+      userEmail: email,
+      sourceService: 'custom_rules',
+      notificationType: 'custom_rule',
+      theme: `custom_rule_${rule.id}`,
+      category: 'HEALTH',
+      severity: rule.severity,
+      title: rule.name,
+      body: message,
+      data: { insight_id: insight.id, rule_id: rule.id },
+      relatedEntityType: 'custom_insight_rule',
+      relatedEntityId: rule.id,
+    });
+
+    if (result.success) {
+      summary.notified++;
+      await supabase
+        .from('real_time_insights')
+        .update({
+          notification_sent: true,
+          notification_sent_at: now.toISOString(),
+          notification_channel: 'push',
+        })
+        .eq('id', insight.id);
+    } else if (result.suppressed) {
+      logger.info('Custom rule notification suppressed', { email, ruleId: rule.id, reason: result.suppressionReason });
+    }
+  }
+
+  logger.info('Custom rules evaluated', { email, ...summary });
+  return summary;
+}
@@ -0,0 +1,105 @@
+/**
+ * Custom Insight Rules Types
+ * Condition format for user-defined rules over unified_health_daily fields
+ */
+
+export const RULE_METRICS = [
+  'sleep_hours',
+  'sleep_score',
+  'deep_sleep_minutes',
+  'rem_sleep_minutes',
+  'sleep_efficiency',
+  'recovery_score',
+  'readiness_score',
+  'hrv_avg',
+  'resting_hr',
+  'steps',
+  'active_calories',
+  'active_minutes',
+  'workout_count',
+  'total_workout_minutes',
+  'glucose_avg',
+  'time_in_range_percent',
+  'stress_score',
+  'meeting_count',
+  'meeting_minutes',
+  'focus_time_minutes',
+] as const;
+
+export type RuleMetric = (typeof RULE_METRICS)[number];
+
+export type RuleAggregate = 'latest' | 'avg' | 'min' | 'max' | 'sum';
+
+export type RuleOperator = 'lt' | 'lte' | 'gt' | 'gte' | 'eq';
+
+export interface RuleBaseline {
+  /** Number of days before the window to build the baseline from */
+  days: number;
+  aggregate?: RuleAggregate;
+  /** Shift applied to the baseline, e.g. -15 for "15% below" */
+  percent?: number;
+}
+
+export interface MetricCondition {
+  metric: RuleMetric;
+  /** Aggregate over the window (default: latest) */
+  aggregate?: RuleAggregate;
+  /** Days in the window, ending on the evaluated day (default: 1) */
+  window_days?: number;
+  op: RuleOperator;
+  /** Compare against a fixed value... */
+  value?: number;
+  /** ...or against the metric's own baseline */
+  baseline?: RuleBaseline;
+  /** Condition must hold this many days in a row, ending on the latest day (default: 1) */
+  consecutive_days?: number;
+}
+
+export type InsightRuleCondition =
+  | MetricCondition
+  | { all: InsightRuleCondition[] }
+  | { any: InsightRuleCondition[] };
+
+export type RuleSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export interface CustomInsightRule {
+  id: string;
+  email: string;
+  name: string;
+  description: string | null;
+  condition: InsightRuleCondition;
+  severity: RuleSeverity;
+  message: string | null;
+  enabled: boolean;
+  cooldown_hours: number;
+  last_evaluated_at: string | null;
+  last_triggered_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CustomInsightRuleInput = Pick<CustomInsightRule, 'name' | 'condition' | 'severity'> &
+  Partial<Pick<CustomInsightRule, 'description' | 'message' | 'enabled' | 'cooldown_hours'>>;
+
+export interface RuleObservation {
+  metric: RuleMetric;
+  op: RuleOperator;
+  observed: number | null;
+  target: number | null;
+  /** Days in a row (ending on the evaluated day) the condition held */
+  streak: number;
+  matched: boolean;
+}
+
+export interface RuleEvaluation {
+  matched: boolean;
+  /** Latest day in the data, the day rules are evaluated for */
+  evaluatedDate: string | null;
+  observations: RuleObservation[];
+}
+
+export interface RuleRunSummary {
+  evaluated: number;
+  triggered: number;
+  notified: number;
+}
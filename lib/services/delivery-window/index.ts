@@ -0,0 +1,258 @@
+/**
+ * Delivery Windows
+ *
+ * Per-user quiet hours evaluated in the recipient's own timezone, shared by
+ * the NotificationCoordinator and caregiver alert routing:
+ *
+ * - Weekday quiet hours come from user_notification_preferences.quiet_hours_*,
+ *   Saturday and Sunday use weekend_quiet_hours_* when set
+ * - The timezone is the user's explicit preference, otherwise the timezone
+ *   their device last reported, otherwise UTC
+ * - With sleep_aware_quiet_hours the typical bedtime window from wearable
+ *   sleep records is quiet as well
+ *
+ * Notifications that land in a quiet period are held in
+ * deferred_notifications until the window opens; each sender releases its
+ * own kind from the deferred-notifications cron.
+ *
+ * @module lib/services/delivery-window
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import {
+  DEFAULT_DELIVERY_PREFERENCES,
+  DEFAULT_TIMEZONE,
+  evaluateDeliveryWindow,
+  inferSleepWindow,
+  isValidTimeZone,
+} from './schedule';
+import type {
+  DeferredKind,
+  DeferredNotification,
+  DeliveryContext,
+  DeliveryPreferences,
+  DeliveryPreferencesUpdate,
+  DeliveryWindowResult,
+  QuietReason,
+  SleepWindow,
+} from './types';
+
+export * from './types';
+export {
+  DEFAULT_DELIVERY_PREFERENCES,
+  evaluateDeliveryWindow,
+  getLocalTime,
+  getQuietReason,
+  inferSleepWindow,
+  isValidTimeZone,
+} from './schedule';
+
+const logger = createLogger('DeliveryWindow');
+
+const SLEEP_LOOKBACK_DAYS = 14;
+
+const PREFERENCE_COLUMNS =
+  'timezone, quiet_hours_start, quiet_hours_end, weekend_quiet_hours_start, weekend_quiet_hours_end, sleep_aware_quiet_hours, digest_mode, digest_channel, digest_hour';
+
+/** Held notifications this long past their release time are dropped as stale */
+export const DEFERRED_MAX_DELAY_HOURS = 12;
+
+// ============================================================================
+// PREFERENCES
+// ============================================================================
+
+export async function getDeliveryPreferences(email: string): Promise<DeliveryPreferences> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('user_notification_preferences')
+    .select(PREFERENCE_COLUMNS)
+    .eq('user_email', email)
+    .maybeSingle();
+
+  if (error) {
+    logger.warn('Failed to load delivery preferences, using defaults', { email, error: error.message });
+  }
+  if (!data) {
+    return DEFAULT_DELIVERY_PREFERENCES;
+  }
+
+  const weekday = {
+    start: data.quiet_hours_start ?? DEFAULT_DELIVERY_PREFERENCES.weekday.start,
+    end: data.quiet_hours_end ?? DEFAULT_DELIVERY_PREFERENCES.weekday.end,
+  };
+
+  return {
+    timezone: data.timezone && isValidTimeZone(data.timezone) ? data.timezone : null,
+    weekday,
+    weekend: {
+      start: data.weekend_quiet_hours_start ?? weekday.start,
+      end: data.weekend_quiet_hours_end ?? weekday.end,
+    },
+    sleepAware: data.sleep_aware_quiet_hours ?? false,
+    digest: {
+      mode: data.digest_mode ?? DEFAULT_DELIVERY_PREFERENCES.digest.mode,
+      channel: data.digest_channel ?? DEFAULT_DELIVERY_PREFERENCES.digest.channel,
+      hour: data.digest_hour ?? DEFAULT_DELIVERY_PREFERENCES.digest.hour,
+    },
+  };
+}
+
+export async function updateDeliveryPreferences(
+  email: string,
+  updates: DeliveryPreferencesUpdate
+): Promise<void> {
+  const supabase = createAdminClient();
+  const { error } = await supabase
+    .from('user_notification_preferences')
+    .upsert(
+      { user_email: email, ...updates, updated_at: new Date().toISOString() },
+      { onConflict: 'user_email' }
+    );
+
+  if (error) {
+    throw new Error(`Failed to update delivery preferences: ${error.message}`);
+  }
+}
+
+/**
+ * Explicit preference, then the latest device-reported timezone, then UTC
+ */
+export async function resolveTimezone(email: string, preferences: DeliveryPreferences): Promise<string> {
+  if (preferences.timezone) return preferences.timezone;
+
+  const supabase = createAdminClient();
+  const { data } = await supabase
+    .from('user_device_context')
+    .select('timezone')
+    .eq('email', email)
+    .order('synced_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data?.timezone && isValidTimeZone(data.timezone) ? data.timezone : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Typical sleep window from the last two weeks of wearable sleep periods
+ */
+export async function getSleepWindow(email: string, timezone: string): Promise<SleepWindow | null> {
+  const supabase = createAdminClient();
+  const since = new Date(Date.now() - SLEEP_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const { data, error } = await supabase
+    .from('unified_health_data')
+    .select('bedtime_start, bedtime_end')
+    .eq('email', email)
+    .eq('data_type', 'sleep')
+    .gte('recorded_at', since.toISOString())
+    .not('bedtime_start', 'is', null)
+    .not('bedtime_end', 'is', null);
+
+  if (error) {
+    logger.warn('Failed to load sleep periods', { email, error: error.message });
+    return null;
+  }
+  return inferSleepWindow(data || [], timezone);
+}
+
+export async function getDeliveryContext(email: string): Promise<DeliveryContext> {
+  const preferences = await getDeliveryPreferences(email);
+  const timezone = await resolveTimezone(email, preferences);
+  const sleepWindow = preferences.sleepAware ? await getSleepWindow(email, timezone) : null;
+
+  return { preferences, timezone, sleepWindow };
+}
+
+/**
+ * Whether the recipient's delivery window is open now and, if not, when it opens
+ */
+export async function checkDeliveryWindow(email: string, now: Date = new Date()): Promise<DeliveryWindowResult> {
+  return evaluateDeliveryWindow(await getDeliveryContext(email), now);
+}
+
+// ============================================================================
+// DEFERRED DELIVERY QUEUE
+// ============================================================================
+
+export async function deferNotification(input: {
+  recipientEmail: string;
+  kind: DeferredKind;
+  payload: object;
+  reason: QuietReason;
+  deliverAfter: Date;
+  notificationId?: string;
+}): Promise<string | null> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('deferred_notifications')
+    .insert({
+      recipient_email: input.recipientEmail,
+      kind: input.kind,
+      payload: input.payload,
+      notification_id: input.notificationId || null,
+      reason: input.reason,
+      deliver_after: input.deliverAfter.toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    logger.error('Failed to defer notification', error, { email: input.recipientEmail, kind: input.kind });
+    return null;
+  }
+
+  logger.info('Notification deferred', {
+    email: input.recipientEmail,
+    kind: input.kind,
+    reason: input.reason,
+    deliverAfter: input.deliverAfter.toISOString(),
+  });
+  return data.id as string;
+}
+
+/**
+ * Pending entries of one kind whose window has opened, oldest first
+ */
+export async function getDueDeferredNotifications<T>(
+  kind: DeferredKind,
+  limit = 100
+): Promise<Array<DeferredNotification<T>>> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('deferred_notifications')
+    .select('*')
+    .eq('kind', kind)
+    .eq('status', 'pending')
+    .lte('deliver_after', new Date().toISOString())
+    .order('deliver_after', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load deferred notifications: ${error.message}`);
+  }
+  return (data || []) as Array<DeferredNotification<T>>;
+}
+
+export function isDeferredNotificationStale(entry: DeferredNotification<unknown>, now: Date = new Date()): boolean {
+  return now.getTime() - new Date(entry.deliver_after).getTime() > DEFERRED_MAX_DELAY_HOURS * 60 * 60 * 1000;
+}
+
+/**
+ * Push an entry back when the window closed again before release
+ */
+export async function rescheduleDeferredNotification(id: string, deliverAfter: Date, reason: QuietReason): Promise<void> {
+  const supabase = createAdminClient();
+  await supabase
+    .from('deferred_notifications')
+    .update({ deliver_after: deliverAfter.toISOString(), reason, updated_at: new Date().toISOString() })
+    .eq('id', id);
+}
+
+export async function completeDeferredNotification(id: string, status: 'released' | 'expired'): Promise<void> {
+  const supabase = createAdminClient();
+  const now = new Date().toISOString();
+  await supabase
+    .from('deferred_notifications')
+    .update({ status, released_at: status === 'released' ? now : null, updated_at: now })
+    .eq('id', id);
+}
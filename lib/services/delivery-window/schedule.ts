@@ -0,0 +1,178 @@
+/**
+ * Delivery Window Schedule
+ *
+ * Pure evaluation of quiet hours in a recipient's local time. Each local
+ * calendar day uses its own schedule for both ends of an overnight range, so
+ * with weekend quiet hours of 23-9 Saturday and Sunday mornings stay quiet
+ * until 9 while Monday morning opens at the weekday end.
+ *
+ * @module lib/services/delivery-window/schedule
+ */
+
+import type {
+  DeliveryContext,
+  DeliveryPreferences,
+  DeliveryWindowResult,
+  QuietHours,
+  QuietReason,
+  SleepWindow,
+} from './types';
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export const DEFAULT_DELIVERY_PREFERENCES: DeliveryPreferences = {
+  timezone: null,
+  weekday: { start: 23, end: 7 },
+  weekend: { start: 23, end: 7 },
+  sleepAware: false,
+  digest: { mode: 'overflow', channel: 'push', hour: 19 },
+};
+
+/** Minimum nights of wearable data before a sleep window is inferred */
+export const MIN_SLEEP_NIGHTS = 3;
+
+/** How far ahead to look for the next opening */
+const NEXT_OPEN_HORIZON_MINUTES = 48 * 60;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Local weekday (0 = Sunday) and minutes since local midnight
+ */
+export function getLocalTime(date: Date, timeZone: string): { weekday: number; minutes: number } {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value || '';
+
+  return {
+    weekday: WEEKDAYS.indexOf(part('weekday')),
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+export function formatClock(minutes: number): string {
+  const h = Math.floor(minutes / 60) % 24;
+  const m = minutes % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+function parseClock(clock: string): number {
+  const [h, m] = clock.split(':').map(Number);
+  return h * 60 + (m || 0);
+}
+
+/**
+ * Whether minutes-since-midnight falls in [start, end), wrapping at midnight
+ */
+function inRange(minutes: number, start: number, end: number): boolean {
+  if (start === end) return false;
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+export function getQuietHoursForDay(preferences: DeliveryPreferences, weekday: number): QuietHours {
+  return weekday === 0 || weekday === 6 ? preferences.weekend : preferences.weekday;
+}
+
+/**
+ * Why a moment is quiet for the recipient, or null when delivery is allowed
+ */
+export function getQuietReason(date: Date, context: DeliveryContext): QuietReason | null {
+  const { preferences, timezone, sleepWindow } = context;
+  const { weekday, minutes } = getLocalTime(date, timezone);
+  const quiet = getQuietHoursForDay(preferences, weekday);
+
+  if (inRange(minutes, quiet.start * 60, quiet.end * 60)) {
+    return 'quiet_hours';
+  }
+  if (
+    preferences.sleepAware &&
+    sleepWindow &&
+    inRange(minutes, parseClock(sleepWindow.bedtime), parseClock(sleepWindow.wakeTime))
+  ) {
+    return 'sleeping';
+  }
+  return null;
+}
+
+/**
+ * Evaluate the delivery window at `now`, including when it next opens
+ */
+export function evaluateDeliveryWindow(context: DeliveryContext, now: Date = new Date()): DeliveryWindowResult {
+  const reason = getQuietReason(now, context);
+  const localTime = formatClock(getLocalTime(now, context.timezone).minutes);
+
+  if (!reason) {
+    return { open: true, timezone: context.timezone, localTime, nextOpenAt: null };
+  }
+
+  // Step minute by minute from the next whole minute; DST shifts are handled
+  // by re-reading local time at each step
+  const start = Math.ceil((now.getTime() + 1) / 60000) * 60000;
+  let nextOpenAt: Date | null = null;
+  for (let i = 0; i < NEXT_OPEN_HORIZON_MINUTES; i++) {
+    const candidate = new Date(start + i * 60000);
+    if (!getQuietReason(candidate, context)) {
+      nextOpenAt = candidate;
+      break;
+    }
+  }
+
+  return { open: false, reason, timezone: context.timezone, localTime, nextOpenAt };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+/**
+ * Typical local sleep window from recent wearable sleep periods. Bedtimes are
+ * shifted by 12 hours before taking the median so nights either side of
+ * midnight average correctly.
+ */
+export function inferSleepWindow(
+  nights: Array<{ bedtime_start: string; bedtime_end: string }>,
+  timeZone: string
+): SleepWindow | null {
+  if (nights.length < MIN_SLEEP_NIGHTS) return null;
+
+  const half = MINUTES_PER_DAY / 2;
+  const bedtimes = nights.map((n) => (getLocalTime(new Date(n.bedtime_start), timeZone).minutes + half) % MINUTES_PER_DAY);
+  const wakeTimes = nights.map((n) => getLocalTime(new Date(n.bedtime_end), timeZone).minutes);
+
+  return {
+    bedtime: formatClock((median(bedtimes) + half) % MINUTES_PER_DAY),
+    wakeTime: formatClock(median(wakeTimes)),
+    nights: nights.length,
+  };
+}
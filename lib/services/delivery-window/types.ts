@@ -0,0 +1,108 @@
+/**
+ * Delivery Window Types
+ *
+ * @module lib/services/delivery-window/types
+ */
+
+/**
+ * Quiet period in local hours (0-23). Ranges where start > end span midnight;
+ * start === end means no quiet hours.
+ */
+export interface QuietHours {
+  start: number;
+  end: number;
+}
+
+/**
+ * How notifications held back by daily limits are handled: dropped ('off'),
+ * folded into a daily digest ('overflow'), or additionally batching every
+ * low severity notification ('batch_low')
+ */
+export type DigestMode = 'off' | 'overflow' | 'batch_low';
+
+export type DigestChannel = 'push' | 'email';
+
+export interface DigestPreferences {
+  mode: DigestMode;
+  channel: DigestChannel;
+  /** Local hour the digest is sent */
+  hour: number;
+}
+
+export interface DeliveryPreferences {
+  /** Explicit IANA timezone; null follows the device timezone */
+  timezone: string | null;
+  /** Monday to Friday */
+  weekday: QuietHours;
+  /** Saturday and Sunday */
+  weekend: QuietHours;
+  /** Also hold notifications during the inferred sleep window */
+  sleepAware: boolean;
+  digest: DigestPreferences;
+}
+
+/**
+ * Typical sleep window in local "HH:MM", inferred from wearable bedtimes
+ */
+export interface SleepWindow {
+  bedtime: string;
+  wakeTime: string;
+  nights: number;
+}
+
+export interface DeliveryContext {
+  preferences: DeliveryPreferences;
+  /** Resolved timezone the schedule is evaluated in */
+  timezone: string;
+  sleepWindow: SleepWindow | null;
+}
+
+export type QuietReason = 'quiet_hours' | 'sleeping';
+
+export interface DeliveryWindowResult {
+  open: boolean;
+  reason?: QuietReason;
+  timezone: string;
+  /** Recipient's local time, "HH:MM" */
+  localTime: string;
+  /** When the window next opens; null if open now or no opening within the search horizon */
+  nextOpenAt: Date | null;
+}
+
+/**
+ * Columns of user_notification_preferences that control delivery windows
+ */
+export interface DeliveryPreferencesUpdate {
+  timezone?: string | null;
+  quiet_hours_start?: number;
+  quiet_hours_end?: number;
+  weekend_quiet_hours_start?: number | null;
+  weekend_quiet_hours_end?: number | null;
+  sleep_aware_quiet_hours?: boolean;
+  digest_mode?: DigestMode;
+  digest_channel?: DigestChannel;
+  digest_hour?: number;
+}
+
+export type DeferredKind = 'notification' | 'caregiver_alert';
+
+export type DeferredStatus = 'pending' | 'released' | 'expired';
+
+export interface DeferredNotification<T = Record<string, unknown>> {
+  id: string;
+  recipient_email: string;
+  kind: DeferredKind;
+  payload: T;
+  notification_id: string | null;
+  reason: QuietReason;
+  deliver_after: string;
+  status: DeferredStatus;
+  released_at: string | null;
+  created_at: string;
+}
+
+export interface DeferredReleaseSummary {
+  released: number;
+  rescheduled: number;
+  expired: number;
+}
@@ -0,0 +1,174 @@
+/**
+ * FHIR Code Systems
+ * LOINC codes for the metrics and biomarkers we exchange
+ */
+
+import { FhirCodeableConcept } from './types';
+
+export const LOINC_SYSTEM = 'http://loinc.org';
+export const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+export const OBSERVATION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+export const INTERPRETATION_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation';
+export const MEDICATION_STATEMENT_CATEGORY_SYSTEM =
+  'http://terminology.hl7.org/CodeSystem/medication-statement-category';
+export const GOAL_ACHIEVEMENT_SYSTEM = 'http://terminology.hl7.org/CodeSystem/goal-achievement';
+export const DIAGNOSTIC_SERVICE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v2-0074';
+
+/** LOINC code for the DiagnosticReport grouping a lab panel */
+export const LAB_REPORT_CODE = { code: '11502-2', display: 'Laboratory report' };
+
+export type ObservationCategory = 'vital-signs' | 'laboratory' | 'activity';
+
+export interface DailyMetricCode {
+  loinc: string;
+  display: string;
+  unit: string;
+  ucum: string;
+  category: ObservationCategory;
+}
+
+/** unified_health_daily fields exported as Observations */
+export const DAILY_METRIC_CODES: Record<string, DailyMetricCode> = {
+  resting_hr: {
+    loinc: '40443-4',
+    display: 'Heart rate --resting',
+    unit: 'beats/minute',
+    ucum: '/min',
+    category: 'vital-signs',
+  },
+  hrv_avg: {
+    loinc: '80404-7',
+    display: 'R-R interval.standard deviation (Heart rate variability)',
+    unit: 'ms',
+    ucum: 'ms',
+    category: 'vital-signs',
+  },
+  spo2_avg: {
+    loinc: '59408-5',
+    display: 'Oxygen saturation in Arterial blood by Pulse oximetry',
+    unit: '%',
+    ucum: '%',
+    category: 'vital-signs',
+  },
+  glucose_avg: {
+    loinc: '2339-0',
+    display: 'Glucose [Mass/volume] in Blood',
+    unit: 'mg/dL',
+    ucum: 'mg/dL',
+    category: 'laboratory',
+  },
+  sleep_hours: {
+    loinc: '93832-4',
+    display: 'Sleep duration',
+    unit: 'h',
+    ucum: 'h',
+    category: 'activity',
+  },
+  steps: {
+    loinc: '41950-7',
+    display: 'Number of steps in 24 hour Measured',
+    unit: 'steps',
+    ucum: '{steps}',
+    category: 'activity',
+  },
+};
+
+/**
+ * LOINC codes for common lab biomarkers, keyed by normalized name.
+ * Several names map to the same code to cover lab naming differences.
+ */
+const BIOMARKER_LOINC: Record<string, { code: string; display: string }> = {
+  haemoglobin: { code: '718-7', display: 'Hemoglobin [Mass/volume] in Blood' },
+  hemoglobin: { code: '718-7', display: 'Hemoglobin [Mass/volume] in Blood' },
+  haematocrit: { code: '4544-3', display: 'Hematocrit [Volume Fraction] of Blood' },
+  hematocrit: { code: '4544-3', display: 'Hematocrit [Volume Fraction] of Blood' },
+  mcv: { code: '787-2', display: 'MCV [Entitic volume]' },
+  rbccount: { code: '789-8', display: 'Erythrocytes [#/volume] in Blood' },
+  redcellcount: { code: '789-8', display: 'Erythrocytes [#/volume] in Blood' },
+  wbccount: { code: '6690-2', display: 'Leukocytes [#/volume] in Blood' },
+  whitecellcount: { code: '6690-2', display: 'Leukocytes [#/volume] in Blood' },
+  platelets: { code: '777-3', display: 'Platelets [#/volume] in Blood' },
+  ferritin: { code: '2276-4', display: 'Ferritin [Mass/volume] in Serum or Plasma' },
+  iron: { code: '2498-4', display: 'Iron [Mass/volume] in Serum or Plasma' },
+  serumiron: { code: '2498-4', display: 'Iron [Mass/volume] in Serum or Plasma' },
+  totalcholesterol: { code: '2093-3', display: 'Cholesterol [Mass/volume] in Serum or Plasma' },
+  ldlcholesterol: { code: '13457-7', display: 'Cholesterol in LDL [Mass/volume] in Serum or Plasma by calculation' },
+  ldl: { code: '13457-7', display: 'Cholesterol in LDL [Mass/volume] in Serum or Plasma by calculation' },
+  hdlcholesterol: { code: '2085-9', display: 'Cholesterol in HDL [Mass/volume] in Serum or Plasma' },
+  hdl: { code: '2085-9', display: 'Cholesterol in HDL [Mass/volume] in Serum or Plasma' },
+  triglycerides: { code: '2571-8', display: 'Triglyceride [Mass/volume] in Serum or Plasma' },
+  apolipoproteinb: { code: '1884-6', display: 'Apolipoprotein B [Mass/volume] in Serum or Plasma' },
+  apob: { code: '1884-6', display: 'Apolipoprotein B [Mass/volume] in Serum or Plasma' },
+  lipoproteina: { code: '10835-7', display: 'Lipoprotein a [Mass/volume] in Serum or Plasma' },
+  lpa: { code: '10835-7', display: 'Lipoprotein a [Mass/volume] in Serum or Plasma' },
+  glucose: { code: '2345-7', display: 'Glucose [Mass/volume] in Serum or Plasma' },
+  fastingglucose: { code: '1558-6', display: 'Fasting glucose [Mass/volume] in Serum or Plasma' },
+  hba1c: { code: '4548-4', display: 'Hemoglobin A1c/Hemoglobin.total in Blood' },
+  glycatedhaemoglobin: { code: '4548-4', display: 'Hemoglobin A1c/Hemoglobin.total in Blood' },
+  insulin: { code: '20448-7', display: 'Insulin [Units/volume] in Serum or Plasma' },
+  fastinginsulin: { code: '20448-7', display: 'Insulin [Units/volume] in Serum or Plasma' },
+  creatinine: { code: '2160-0', display: 'Creatinine [Mass/volume] in Serum or Plasma' },
+  egfr: { code: '33914-3', display: 'Glomerular filtration rate/1.73 sq M.predicted' },
+  urea: { code: '3094-0', display: 'Urea nitrogen [Mass/volume] in Serum or Plasma' },
+  bloodureanitrogen: { code: '3094-0', display: 'Urea nitrogen [Mass/volume] in Serum or Plasma' },
+  bun: { code: '3094-0', display: 'Urea nitrogen [Mass/volume] in Serum or Plasma' },
+  uricacid: { code: '3084-1', display: 'Urate [Mass/volume] in Serum or Plasma' },
+  sodium: { code: '2951-2', display: 'Sodium [Moles/volume] in Serum or Plasma' },
+  potassium: { code: '2823-3', display: 'Potassium [Moles/volume] in Serum or Plasma' },
+  calcium: { code: '17861-6', display: 'Calcium [Mass/volume] in Serum or Plasma' },
+  magnesium: { code: '19123-9', display: 'Magnesium [Mass/volume] in Serum or Plasma' },
+  alt: { code: '1742-6', display: 'Alanine aminotransferase [Enzymatic activity/volume] in Serum or Plasma' },
+  alanineaminotransferase: { code: '1742-6', display: 'Alanine aminotransferase [Enzymatic activity/volume] in Serum or Plasma' },
+  ast: { code: '1920-8', display: 'Aspartate aminotransferase [Enzymatic activity/volume] in Serum or Plasma' },
+  aspartateaminotransferase: { code: '1920-8', display: 'Aspartate aminotransferase [Enzymatic activity/volume] in Serum or Plasma' },
+  alp: { code: '6768-6', display: 'Alkaline phosphatase [Enzymatic activity/volume] in Serum or Plasma' },
+  alkalinephosphatase: { code: '6768-6', display: 'Alkaline phosphatase [Enzymatic activity/volume] in Serum or Plasma' },
+  ggt: { code: '2324-2', display: 'Gamma glutamyl transferase [Enzymatic activity/volume] in Serum or Plasma' },
+  gammagt: { code: '2324-2', display: 'Gamma glutamyl transferase [Enzymatic activity/volume] in Serum or Plasma' },
+  bilirubin: { code: '1975-2', display: 'Bilirubin.total [Mass/volume] in Serum or Plasma' },
+  totalbilirubin: { code: '1975-2', display: 'Bilirubin.total [Mass/volume] in Serum or Plasma' },
+  albumin: { code: '1751-7', display: 'Albumin [Mass/volume] in Serum or Plasma' },
+  tsh: { code: '3016-3', display: 'Thyrotropin [Units/volume] in Serum or Plasma' },
+  thyroidstimulatinghormone: { code: '3016-3', display: 'Thyrotropin [Units/volume] in Serum or Plasma' },
+  freet4: { code: '3024-7', display: 'Thyroxine (T4) free [Mass/volume] in Serum or Plasma' },
+  ft4: { code: '3024-7', display: 'Thyroxine (T4) free [Mass/volume] in Serum or Plasma' },
+  freet3: { code: '3051-0', display: 'Triiodothyronine (T3) Free [Mass/volume] in Serum or Plasma' },
+  ft3: { code: '3051-0', display: 'Triiodothyronine (T3) Free [Mass/volume] in Serum or Plasma' },
+  testosterone: { code: '2986-8', display: 'Testosterone [Mass/volume] in Serum or Plasma' },
+  totaltestosterone: { code: '2986-8', display: 'Testosterone [Mass/volume] in Serum or Plasma' },
+  cortisol: { code: '2143-6', display: 'Cortisol [Mass/volume] in Serum or Plasma' },
+  vitamind: { code: '1989-3', display: '25-hydroxyvitamin D3 [Mass/volume] in Serum or Plasma' },
+  '25ohvitamind': { code: '1989-3', display: '25-hydroxyvitamin D3 [Mass/volume] in Serum or Plasma' },
+  vitaminb12: { code: '2132-9', display: 'Cobalamin (Vitamin B12) [Mass/volume] in Serum or Plasma' },
+  folate: { code: '2284-8', display: 'Folate [Mass/volume] in Serum or Plasma' },
+  serumfolate: { code: '2284-8', display: 'Folate [Mass/volume] in Serum or Plasma' },
+  crp: { code: '1988-5', display: 'C reactive protein [Mass/volume] in Serum or Plasma' },
+  creactiveprotein: { code: '1988-5', display: 'C reactive protein [Mass/volume] in Serum or Plasma' },
+  hscrp: { code: '30522-7', display: 'C reactive protein [Mass/volume] in Serum or Plasma by High sensitivity method' },
+  highsensitivitycrp: { code: '30522-7', display: 'C reactive protein [Mass/volume] in Serum or Plasma by High sensitivity method' },
+  homocysteine: { code: '13965-9', display: 'Homocysteine [Moles/volume] in Serum or Plasma' },
+};
+
+export function normalizeCodeKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * LOINC-coded concept for a biomarker name, or a text-only concept if we have no code for it
+ */
+export function biomarkerCode(name: string): FhirCodeableConcept {
+  const loinc = BIOMARKER_LOINC[normalizeCodeKey(name)];
+  if (!loinc) {
+    return { text: name };
+  }
+
+  return {
+    coding: [{ system: LOINC_SYSTEM, code: loinc.code, display: loinc.display }],
+    text: name,
+  };
+}
+
+export function categoryConcept(category: ObservationCategory): FhirCodeableConcept[] {
+  const display = { 'vital-signs': 'Vital Signs', laboratory: 'Laboratory', activity: 'Activity' }[category];
+  return [{ coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code: category, display }] }];
+}
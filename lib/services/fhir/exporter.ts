@@ -0,0 +1,385 @@
+/**
+ * FHIR R4 Exporter
+ *
+ * Builds a FHIR collection Bundle of a user's health record for clinicians:
+ * daily wearable metrics as LOINC-coded Observations, lab biomarkers as
+ * laboratory Observations under a DiagnosticReport, goals as Goal resources
+ * and current supplements as MedicationStatements.
+ */
+
+import { randomUUID } from 'crypto';
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import { getUnifiedHealthDaily, getUnifiedHealthData, UnifiedHealthDaily } from '@/lib/services/unified-data';
+import { Biomarker, BiomarkerStatus } from '@/lib/services/blood-analyzer/types';
+import { getGoals, GoalStatus, UserHealthGoal } from '@/lib/services/goals-service';
+import {
+  DAILY_METRIC_CODES,
+  DIAGNOSTIC_SERVICE_SYSTEM,
+  GOAL_ACHIEVEMENT_SYSTEM,
+  INTERPRETATION_SYSTEM,
+  LAB_REPORT_CODE,
+  LOINC_SYSTEM,
+  MEDICATION_STATEMENT_CATEGORY_SYSTEM,
+  UCUM_SYSTEM,
+  biomarkerCode,
+  categoryConcept,
+} from './codes';
+import {
+  FhirBundle,
+  FhirBundleEntry,
+  FhirCodeableConcept,
+  FhirDiagnosticReport,
+  FhirExportOptions,
+  FhirGoal,
+  FhirMedicationStatement,
+  FhirObservation,
+  FhirObservationReferenceRange,
+  FhirPatient,
+  FhirReference,
+  FhirResource,
+} from './types';
+
+const logger = createLogger('FhirExporter');
+
+/** Daily field -> rollup column naming the provider, used when field_provenance is empty */
+const DAILY_PROVIDER_COLUMNS: Record<string, keyof UnifiedHealthDaily> = {
+  resting_hr: 'recovery_provider',
+  hrv_avg: 'recovery_provider',
+  glucose_avg: 'glucose_provider',
+  sleep_hours: 'sleep_provider',
+  steps: 'activity_provider',
+};
+
+/** Goal tracked metrics that correspond to an exported daily metric */
+const GOAL_METRIC_FIELDS: Record<string, string> = {
+  sleep_duration_hours: 'sleep_hours',
+  daily_steps: 'steps',
+  hrv_ms: 'hrv_avg',
+  resting_hr: 'resting_hr',
+  avg_glucose: 'glucose_avg',
+};
+
+const GOAL_LIFECYCLE: Record<GoalStatus, FhirGoal['lifecycleStatus']> = {
+  active: 'active',
+  completed: 'completed',
+  paused: 'on-hold',
+  abandoned: 'cancelled',
+};
+
+const STATUS_INTERPRETATION: Record<BiomarkerStatus, { code: string; display: string }> = {
+  optimal: { code: 'N', display: 'Normal' },
+  normal: { code: 'N', display: 'Normal' },
+  borderline: { code: 'A', display: 'Abnormal' },
+  high: { code: 'H', display: 'High' },
+  low: { code: 'L', display: 'Low' },
+  critical: { code: 'AA', display: 'Critical abnormal' },
+};
+
+interface OnboardingRecord {
+  form_data?: Record<string, unknown> | null;
+  lab_file_analysis?: { biomarkers?: Biomarker[]; analyzedAt?: string; summary?: string } | null;
+}
+
+function entry<T extends FhirResource>(resource: T & { id: string }): FhirBundleEntry<T> {
+  return { fullUrl: `urn:uuid:${resource.id}`, resource };
+}
+
+function buildPatient(email: string, formData: Record<string, unknown>): FhirPatient & { id: string } {
+  const gender = typeof formData.gender === 'string' ? formData.gender.toLowerCase() : '';
+
+  return {
+    resourceType: 'Patient',
+    id: randomUUID(),
+    name: typeof formData.fullName === 'string' && formData.fullName ? [{ text: formData.fullName }] : undefined,
+    telecom: [{ system: 'email', value: email }],
+    gender: gender === 'male' || gender === 'female' ? gender : gender ? 'other' : 'unknown',
+  };
+}
+
+function buildDailyObservations(
+  daily: UnifiedHealthDaily[],
+  spo2ByDate: Map<string, number>,
+  subject: FhirReference
+): Array<FhirObservation & { id: string }> {
+  const observations: Array<FhirObservation & { id: string }> = [];
+
+  for (const day of daily) {
+    const date = typeof day.date === 'string' ? day.date : day.date.toISOString().split('T')[0];
+    const values: Record<string, number | undefined> = {
+      resting_hr: day.resting_hr,
+      hrv_avg: day.hrv_avg,
+      spo2_avg: spo2ByDate.get(date),
+      glucose_avg: day.glucose_avg,
+      sleep_hours: day.sleep_hours,
+      steps: day.steps,
+    };
+
+    for (const [field, value] of Object.entries(values)) {
+      if (value === undefined || value === null) continue;
+
+      const metric = DAILY_METRIC_CODES[field];
+      const providerColumn = DAILY_PROVIDER_COLUMNS[field];
+      const provider =
+        day.field_provenance?.[field]?.provider ||
+        (providerColumn ? (day[providerColumn] as string | undefined) : undefined);
+
+      observations.push({
+        resourceType: 'Observation',
+        id: randomUUID(),
+        status: 'final',
+        category: categoryConcept(metric.category),
+        code: {
+          coding: [{ system: LOINC_SYSTEM, code: metric.loinc, display: metric.display }],
+          text: metric.display,
+        },
+        subject,
+        effectiveDateTime: date,
+        valueQuantity: {
+          value: Number(value),
+          unit: metric.unit,
+          system: UCUM_SYSTEM,
+          code: metric.ucum,
+        },
+        device: provider ? { display: provider } : undefined,
+        note: [{ text: 'Daily value from consumer wearable data' }],
+      });
+    }
+  }
+
+  return observations;
+}
+
+/**
+ * Parse a free-text reference range ("70-100", "<5.0", ">40") into FHIR form
+ */
+export function parseReferenceRange(range: string, unit: string): FhirObservationReferenceRange | undefined {
+  if (!range || range === 'Not specified') return undefined;
+
+  const quantity = (value: string) => ({ value: parseFloat(value), unit });
+  const between = range.match(/^\s*([\d.]+)\s*(?:-|–|to)\s*([\d.]+)/);
+  if (between) {
+    return { low: quantity(between[1]), high: quantity(between[2]), text: range };
+  }
+
+  const upper = range.match(/^\s*(?:<|≤|<=)\s*([\d.]+)/);
+  if (upper) {
+    return { high: quantity(upper[1]), text: range };
+  }
+
+  const lower = range.match(/^\s*(?:>|≥|>=)\s*([\d.]+)/);
+  if (lower) {
+    return { low: quantity(lower[1]), text: range };
+  }
+
+  return { text: range };
+}
+
+function buildLabObservations(
+  biomarkers: Biomarker[],
+  analyzedAt: string | undefined,
+  subject: FhirReference
+): Array<FhirObservation & { id: string }> {
+  return biomarkers.map(biomarker => {
+    const numeric = /^\s*-?[\d.]+\s*$/.test(biomarker.value) ? parseFloat(biomarker.value) : NaN;
+    const referenceRange = parseReferenceRange(biomarker.referenceRange, biomarker.unit);
+    const interpretation = STATUS_INTERPRETATION[biomarker.status];
+
+    return {
+      resourceType: 'Observation',
+      id: randomUUID(),
+      status: 'final',
+      category: categoryConcept('laboratory'),
+      code: biomarkerCode(biomarker.name),
+      subject,
+      effectiveDateTime: analyzedAt,
+      valueQuantity: !isNaN(numeric) ? { value: numeric, unit: biomarker.unit } : undefined,
+      valueString: !isNaN(numeric) ? undefined : biomarker.value,
+      interpretation: interpretation
+        ? [{ coding: [{ system: INTERPRETATION_SYSTEM, ...interpretation }] }]
+        : undefined,
+      referenceRange: referenceRange ? [referenceRange] : undefined,
+      note: biomarker.implications ? [{ text: biomarker.implications }] : undefined,
+    };
+  });
+}
+
+/**
+ * DiagnosticReport grouping the lab Observations of the stored panel
+ */
+function buildLabReport(
+  observations: Array<FhirObservation & { id: string }>,
+  analyzedAt: string | undefined,
+  summary: string | undefined,
+  subject: FhirReference
+): FhirDiagnosticReport & { id: string } {
+  return {
+    resourceType: 'DiagnosticReport',
+    id: randomUUID(),
+    status: 'final',
+    category: [{ coding: [{ system: DIAGNOSTIC_SERVICE_SYSTEM, code: 'LAB', display: 'Laboratory' }] }],
+    code: { coding: [{ system: LOINC_SYSTEM, ...LAB_REPORT_CODE }], text: LAB_REPORT_CODE.display },
+    subject,
+    effectiveDateTime: analyzedAt,
+    result: observations.map(observation => ({ reference: `urn:uuid:${observation.id}` })),
+    conclusion: summary || undefined,
+  };
+}
+
+function buildGoals(goals: UserHealthGoal[], subject: FhirReference): Array<FhirGoal & { id: string }> {
+  return goals.map(goal => {
+    const dailyField = goal.trackedMetric ? GOAL_METRIC_FIELDS[goal.trackedMetric] : undefined;
+    const metric = dailyField ? DAILY_METRIC_CODES[dailyField] : undefined;
+    const measure: FhirCodeableConcept | undefined = metric
+      ? { coding: [{ system: LOINC_SYSTEM, code: metric.loinc, display: metric.display }] }
+      : goal.trackedMetric || goal.customMetricName
+        ? { text: goal.customMetricName || goal.trackedMetric }
+        : undefined;
+
+    return {
+      resourceType: 'Goal',
+      id: randomUUID(),
+      lifecycleStatus: GOAL_LIFECYCLE[goal.status] || 'active',
+      achievementStatus: {
+        coding: [
+          {
+            system: GOAL_ACHIEVEMENT_SYSTEM,
+            code: goal.status === 'completed' ? 'achieved' : 'in-progress',
+          },
+        ],
+      },
+      category: [{ text: goal.category }],
+      description: { text: goal.title },
+      subject,
+      startDate: goal.startDate?.split('T')[0],
+      target: [
+        {
+          measure,
+          detailQuantity: { value: goal.targetValue, unit: goal.unit },
+          dueDate: goal.targetDate?.split('T')[0],
+        },
+      ],
+      note: goal.description ? [{ text: goal.description }] : undefined,
+    };
+  });
+}
+
+/**
+ * Supplements from onboarding, stored either as a list or free text
+ */
+function parseSupplements(value: unknown): string[] {
+  const items = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? value.split(/[,\n;]/) : [];
+  return items
+    .map(item => item.trim())
+    .filter(item => item && !/^(none|n\/a|no)$/i.test(item));
+}
+
+function buildMedicationStatements(
+  supplements: string[],
+  subject: FhirReference
+): Array<FhirMedicationStatement & { id: string }> {
+  return supplements.map(name => ({
+    resourceType: 'MedicationStatement',
+    id: randomUUID(),
+    status: 'active',
+    category: {
+      coding: [{ system: MEDICATION_STATEMENT_CATEGORY_SYSTEM, code: 'patientspecified', display: 'Patient Specified' }],
+    },
+    medicationCodeableConcept: { text: name },
+    subject,
+    dateAsserted: new Date().toISOString(),
+    informationSource: subject,
+  }));
+}
+
+/**
+ * Average SpO2 per day; the daily rollup doesn't carry it
+ */
+async function getDailySpo2(email: string, days: number): Promise<Map<string, number>> {
+  const records = await getUnifiedHealthData(email, { days, dataTypes: ['sleep', 'recovery'] });
+  const readings = new Map<string, number[]>();
+
+  for (const record of records) {
+    if (typeof record.spo2_avg !== 'number') continue;
+    const recordedAt = record.recorded_at instanceof Date ? record.recorded_at.toISOString() : record.recorded_at;
+    const date = recordedAt.split('T')[0];
+    readings.set(date, [...(readings.get(date) || []), record.spo2_avg]);
+  }
+
+  return new Map(
+    [...readings].map(([date, values]) => [
+      date,
+      Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10,
+    ])
+  );
+}
+
+async function getOnboardingRecord(email: string): Promise<OnboardingRecord> {
+  const supabase = createAdminClient();
+
+  for (const table of ['sage_onboarding_data', 'forge_onboarding_data']) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('form_data, lab_file_analysis')
+      .eq('email', email)
+      .maybeSingle();
+
+    if (error) {
+      logger.warn('Failed to load onboarding data', { email, table, error: error.message });
+      continue;
+    }
+    if (data) return data as OnboardingRecord;
+  }
+
+  return {};
+}
+
+/**
+ * Build a FHIR R4 collection Bundle of the user's health record
+ */
+export async function exportFhirBundle(email: string, options: FhirExportOptions = {}): Promise<FhirBundle> {
+  const {
+    days = 30,
+    includeVitals = true,
+    includeLabs = true,
+    includeGoals = true,
+    includeSupplements = true,
+  } = options;
+
+  const [onboarding, daily, spo2ByDate, goals] = await Promise.all([
+    getOnboardingRecord(email),
+    includeVitals ? getUnifiedHealthDaily(email, { days }) : Promise.resolve([]),
+    includeVitals ? getDailySpo2(email, days) : Promise.resolve(new Map<string, number>()),
+    includeGoals ? getGoals(email) : Promise.resolve([]),
+  ]);
+
+  const patient = buildPatient(email, onboarding.form_data || {});
+  const subject: FhirReference = { reference: `urn:uuid:${patient.id}` };
+  const labAnalysis = onboarding.lab_file_analysis;
+  const labObservations =
+    includeLabs && labAnalysis?.biomarkers
+      ? buildLabObservations(labAnalysis.biomarkers, labAnalysis.analyzedAt, subject)
+      : [];
+
+  const resources: Array<FhirResource & { id: string }> = [
+    patient,
+    ...(includeVitals ? buildDailyObservations(daily, spo2ByDate, subject) : []),
+    ...(labObservations.length > 0
+      ? [buildLabReport(labObservations, labAnalysis?.analyzedAt, labAnalysis?.summary, subject), ...labObservations]
+      : []),
+    ...(includeGoals ? buildGoals(goals, subject) : []),
+    ...(includeSupplements
+      ? buildMedicationStatements(parseSupplements(onboarding.form_data?.supplements), subject)
+      : []),
+  ];
+
+  logger.info('Built FHIR bundle', { email, resources: resources.length, days });
+
+  return {
+    resourceType: 'Bundle',
+    id: randomUUID(),
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: resources.map(resource => entry(resource)),
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * FHIR R4 Lab Importer
+ *
+ * Accepts a FHIR Bundle of laboratory Observations (e.g. exported from a
+ * clinic's EHR), optionally grouped by a DiagnosticReport, and stores them as
+ * blood biomarkers, the same way an analyzed lab PDF is stored.
+ */
+
+import { createLogger } from '@/lib/utils/logger';
+import {
+  Biomarker,
+  BiomarkerStatus,
+  BloodAnalysisResult,
+  CATEGORY_CONFIGS,
+} from '@/lib/services/blood-analyzer/types';
+import {
+  validateAndDedupe,
+  getConcerningBiomarkers,
+  getOptimalBiomarkers,
+} from '@/lib/services/blood-analyzer/validator';
+import {
+  generateAnalysis,
+  getUserDemographics,
+  saveAnalysisToDatabase,
+} from '@/lib/services/blood-analyzer/analyzer';
+import { normalizeCodeKey } from './codes';
+import {
+  FhirBundle,
+  FhirDiagnosticReport,
+  FhirImportOptions,
+  FhirImportResult,
+  FhirObservation,
+  FhirObservationReferenceRange,
+} from './types';
+
+const logger = createLogger('FhirImporter');
+
+const INTERPRETATION_STATUS: Record<string, BiomarkerStatus> = {
+  HH: 'critical',
+  LL: 'critical',
+  AA: 'critical',
+  H: 'high',
+  HU: 'high',
+  L: 'low',
+  LU: 'low',
+  A: 'borderline',
+  N: 'normal',
+};
+
+const SKIPPED_STATUSES = new Set(['cancelled', 'entered-in-error', 'registered']);
+
+const markerCategories = new Map<string, string>();
+for (const [category, config] of Object.entries(CATEGORY_CONFIGS)) {
+  for (const marker of config.expectedMarkers) {
+    const key = normalizeCodeKey(marker);
+    if (!markerCategories.has(key)) markerCategories.set(key, category);
+  }
+}
+
+function isLabObservation(observation: FhirObservation): boolean {
+  if (!observation.category || observation.category.length === 0) return true;
+  return observation.category.some(category =>
+    category.coding?.some(coding => coding.code === 'laboratory')
+  );
+}
+
+function observationName(observation: FhirObservation): string | undefined {
+  const coding = observation.code?.coding?.[0];
+  return observation.code?.text || coding?.display || coding?.code;
+}
+
+function formatReferenceRange(range: FhirObservationReferenceRange | undefined): string {
+  if (!range) return 'Not specified';
+  if (range.text) return range.text;
+
+  const low = range.low?.value;
+  const high = range.high?.value;
+  if (low !== undefined && high !== undefined) return `${low}-${high}`;
+  if (high !== undefined) return `<${high}`;
+  if (low !== undefined) return `>${low}`;
+  return 'Not specified';
+}
+
+function observationStatus(observation: FhirObservation, value: number | undefined): BiomarkerStatus {
+  for (const interpretation of observation.interpretation || []) {
+    for (const coding of interpretation.coding || []) {
+      const status = coding.code ? INTERPRETATION_STATUS[coding.code] : undefined;
+      if (status) return status;
+    }
+  }
+
+  // No interpretation: compare against the numeric reference range
+  const range = observation.referenceRange?.[0];
+  if (value !== undefined && range) {
+    if (range.low?.value !== undefined && value < range.low.value) return 'low';
+    if (range.high?.value !== undefined && value > range.high.value) return 'high';
+  }
+
+  return 'normal';
+}
+
+/**
+ * Convert a laboratory Observation to a Biomarker, or explain why it can't be
+ */
+export function observationToBiomarker(observation: FhirObservation): Biomarker | string {
+  if (SKIPPED_STATUSES.has(observation.status)) {
+    return `Observation status is ${observation.status}`;
+  }
+
+  if (!isLabObservation(observation)) {
+    return 'Not a laboratory observation';
+  }
+
+  const name = observationName(observation);
+  if (!name) {
+    return 'Observation has no code';
+  }
+
+  const quantity = observation.valueQuantity;
+  const value = quantity?.value !== undefined ? String(quantity.value) : observation.valueString;
+  if (value === undefined || value === '') {
+    return `${name} has no value`;
+  }
+
+  return {
+    name,
+    value,
+    unit: quantity?.unit || quantity?.code || '',
+    referenceRange: formatReferenceRange(observation.referenceRange?.[0]),
+    status: observationStatus(observation, quantity?.value),
+    category: markerCategories.get(normalizeCodeKey(name)) || 'other',
+    significance: '',
+    implications: observation.note?.map(note => note.text).join(' ') || '',
+    provenance: 'parsed',
+  };
+}
+
+/**
+ * Import lab results from a FHIR Bundle into the user's blood biomarkers.
+ * Like a new lab upload, this replaces the previously stored analysis.
+ */
+export async function importFhirLabBundle(
+  email: string,
+  bundle: FhirBundle,
+  options: FhirImportOptions = {}
+): Promise<FhirImportResult> {
+  const startTime = Date.now();
+
+  if (bundle?.resourceType !== 'Bundle' || !Array.isArray(bundle.entry)) {
+    return { success: false, imported: 0, skipped: [], error: 'Expected a FHIR Bundle with entries' };
+  }
+
+  const biomarkers: Biomarker[] = [];
+  const skipped: FhirImportResult['skipped'] = [];
+  let collectedAt: string | undefined;
+  let reportDate: string | undefined;
+
+  bundle.entry.forEach((entry, index) => {
+    const resource = entry.resource;
+    if (resource?.resourceType === 'DiagnosticReport') {
+      // The report only groups the panel; its results are the Observations
+      const report = resource as FhirDiagnosticReport;
+      reportDate = reportDate || report.effectiveDateTime || report.issued;
+      return;
+    }
+
+    if (resource?.resourceType !== 'Observation') {
+      skipped.push({ index, reason: `Unsupported resource type: ${resource?.resourceType || 'none'}` });
+      return;
+    }
+
+    const result = observationToBiomarker(resource as FhirObservation);
+    if (typeof result === 'string') {
+      skipped.push({ index, reason: result });
+    } else {
+      biomarkers.push(result);
+      const observation = resource as FhirObservation;
+      const effective = observation.effectiveDateTime || observation.effectivePeriod?.start;
+      if (effective && (!collectedAt || Date.parse(effective) > Date.parse(collectedAt))) collectedAt = effective;
+    }
+  });
+
+  if (biomarkers.length === 0) {
+    return { success: false, imported: 0, skipped, error: 'Bundle contains no importable lab results' };
+  }
+
+  collectedAt = collectedAt || reportDate;
+
+  const validation = validateAndDedupe(biomarkers, await getUserDemographics(email));
+
+  let analysis: BloodAnalysisResult;
+  if (options.analyze) {
+    const generated = await generateAnalysis(validation.biomarkers, email, validation.confidence);
+    analysis = { ...generated, processingTimeMs: Date.now() - startTime };
+  } else {
+    analysis = {
+      summary: `Imported ${validation.biomarkers.length} lab results from a FHIR bundle.`,
+      biomarkers: validation.biomarkers,
+      totalCount: validation.biomarkers.length,
+      concerns: getConcerningBiomarkers(validation.biomarkers).map(
+        b => `${b.name}: ${[b.value, b.unit].filter(Boolean).join(' ')} (${b.status})`
+      ),
+      positives: getOptimalBiomarkers(validation.biomarkers).map(b => `${b.name} within range`),
+      recommendations: { lifestyle: [], dietary: [], supplements: [], followUp: [] },
+      confidence: validation.confidence,
+      processingTimeMs: Date.now() - startTime,
+    };
+  }
+
+  await saveAnalysisToDatabase(email, analysis, { source: 'fhir', collectedAt });
+
+  logger.info('Imported FHIR lab bundle', {
+    email,
+    imported: validation.biomarkers.length,
+    skipped: skipped.length,
+    analyzed: !!options.analyze,
+  });
+
+  return { success: true, imported: validation.biomarkers.length, skipped };
+}
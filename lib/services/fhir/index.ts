@@ -0,0 +1,9 @@
+/**
+ * FHIR Interoperability
+ * FHIR R4 export of a user's health record and import of lab results
+ */
+
+export * from './types';
+export { DAILY_METRIC_CODES, biomarkerCode } from './codes';
+export { exportFhirBundle, parseReferenceRange } from './exporter';
+export { importFhirLabBundle, observationToBiomarker } from './importer';
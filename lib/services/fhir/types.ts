@@ -0,0 +1,208 @@
+/**
+ * FHIR R4 Types
+ *
+ * The subset of FHIR R4 resources we read and write. Only fields we populate
+ * or consume are modelled; see https://hl7.org/fhir/R4/ for the full spec.
+ */
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirQuantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+export interface FhirReference {
+  reference?: string;
+  display?: string;
+}
+
+export interface FhirPeriod {
+  start?: string;
+  end?: string;
+}
+
+export interface FhirObservationReferenceRange {
+  low?: FhirQuantity;
+  high?: FhirQuantity;
+  text?: string;
+}
+
+export interface FhirPatient {
+  resourceType: 'Patient';
+  id?: string;
+  name?: Array<{ text?: string }>;
+  telecom?: Array<{ system: 'email' | 'phone'; value: string }>;
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+}
+
+export interface FhirObservation {
+  resourceType: 'Observation';
+  id?: string;
+  status: 'registered' | 'preliminary' | 'final' | 'amended' | 'corrected' | 'cancelled' | 'entered-in-error' | 'unknown';
+  category?: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject?: FhirReference;
+  effectiveDateTime?: string;
+  effectivePeriod?: FhirPeriod;
+  issued?: string;
+  valueQuantity?: FhirQuantity;
+  valueString?: string;
+  interpretation?: FhirCodeableConcept[];
+  referenceRange?: FhirObservationReferenceRange[];
+  note?: Array<{ text: string }>;
+  device?: FhirReference;
+}
+
+export interface FhirDiagnosticReport {
+  resourceType: 'DiagnosticReport';
+  id?: string;
+  status:
+    | 'registered'
+    | 'partial'
+    | 'preliminary'
+    | 'final'
+    | 'amended'
+    | 'corrected'
+    | 'appended'
+    | 'cancelled'
+    | 'entered-in-error'
+    | 'unknown';
+  category?: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject?: FhirReference;
+  effectiveDateTime?: string;
+  issued?: string;
+  result?: FhirReference[];
+  conclusion?: string;
+}
+
+export interface FhirGoal {
+  resourceType: 'Goal';
+  id?: string;
+  lifecycleStatus: 'proposed' | 'planned' | 'accepted' | 'active' | 'on-hold' | 'completed' | 'cancelled' | 'entered-in-error' | 'rejected';
+  achievementStatus?: FhirCodeableConcept;
+  category?: FhirCodeableConcept[];
+  description: FhirCodeableConcept;
+  subject: FhirReference;
+  startDate?: string;
+  target?: Array<{
+    measure?: FhirCodeableConcept;
+    detailQuantity?: FhirQuantity;
+    dueDate?: string;
+  }>;
+  note?: Array<{ text: string }>;
+}
+
+export interface FhirMedicationStatement {
+  resourceType: 'MedicationStatement';
+  id?: string;
+  status: 'active' | 'completed' | 'entered-in-error' | 'intended' | 'stopped' | 'on-hold' | 'unknown' | 'not-taken';
+  category?: FhirCodeableConcept;
+  medicationCodeableConcept: FhirCodeableConcept;
+  subject: FhirReference;
+  dateAsserted?: string;
+  informationSource?: FhirReference;
+}
+
+export interface FhirIdentifier {
+  system?: string;
+  value?: string;
+}
+
+export interface FhirPractitioner {
+  resourceType: 'Practitioner';
+  id?: string;
+  identifier?: FhirIdentifier[];
+  name?: Array<{ text?: string; family?: string; given?: string[] }>;
+}
+
+export interface FhirSlot {
+  resourceType: 'Slot';
+  id?: string;
+  serviceType?: FhirCodeableConcept[];
+  appointmentType?: FhirCodeableConcept;
+  schedule: FhirReference;
+  status: 'busy' | 'free' | 'busy-unavailable' | 'busy-tentative' | 'entered-in-error';
+  start: string;
+  end: string;
+}
+
+export interface FhirAppointment {
+  resourceType: 'Appointment';
+  id?: string;
+  status: 'proposed' | 'pending' | 'booked' | 'arrived' | 'fulfilled' | 'cancelled' | 'noshow' | 'entered-in-error' | 'checked-in' | 'waitlist';
+  cancelationReason?: FhirCodeableConcept;
+  appointmentType?: FhirCodeableConcept;
+  description?: string;
+  start?: string;
+  end?: string;
+  slot?: FhirReference[];
+  comment?: string;
+  participant: Array<{
+    actor?: FhirReference;
+    required?: 'required' | 'optional' | 'information-only';
+    status: 'accepted' | 'declined' | 'tentative' | 'needs-action';
+  }>;
+}
+
+export type FhirResource =
+  | FhirPatient
+  | FhirObservation
+  | FhirDiagnosticReport
+  | FhirGoal
+  | FhirMedicationStatement
+  | FhirPractitioner
+  | FhirSlot
+  | FhirAppointment
+  | { resourceType: string; id?: string };
+
+export interface FhirBundleEntry<T extends FhirResource = FhirResource> {
+  fullUrl?: string;
+  resource?: T;
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id?: string;
+  type: 'collection' | 'document' | 'searchset' | 'transaction' | 'batch' | 'message' | 'history';
+  timestamp?: string;
+  total?: number;
+  entry?: FhirBundleEntry[];
+}
+
+// =============================================================================
+// SERVICE TYPES
+// =============================================================================
+
+export interface FhirExportOptions {
+  /** Days of daily metrics to include (default 30) */
+  days?: number;
+  includeVitals?: boolean;
+  includeLabs?: boolean;
+  includeGoals?: boolean;
+  includeSupplements?: boolean;
+}
+
+export interface FhirImportOptions {
+  /** Run the AI analysis over imported biomarkers (same as a PDF upload) */
+  analyze?: boolean;
+}
+
+export interface FhirImportResult {
+  success: boolean;
+  imported: number;
+  skipped: Array<{ index: number; reason: string }>;
+  error?: string;
+}
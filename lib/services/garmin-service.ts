@@ -0,0 +1,335 @@
+/**
+ * Garmin Health Service
+ *
+ * Pulls daily summaries, sleep, HRV, stress/Body Battery and activities from
+ * the Garmin Health (wellness) API and writes them to the unified health table.
+ * Also handles Garmin's push notifications, keyed by Garmin user ID. Pushes
+ * aren't signed, so they only trigger a pull for the user they name.
+ *
+ * Garmin only allows pulling by upload window of at most 24 hours, so longer
+ * ranges are fetched one day at a time.
+ *
+ * @module lib/services/garmin-service
+ */
+
+import crypto from 'crypto';
+import { createAdminClient } from '@/lib/supabase/server';
+import { getAccessToken } from './token-manager';
+import { createLogger } from '@/lib/utils/logger';
+import { circuitBreakers, CircuitOpenError } from '@/lib/utils/circuit-breaker';
+import {
+  transformGarminDaily,
+  transformGarminSleep,
+  transformGarminHrv,
+  transformGarminStress,
+  transformGarminActivity,
+  dualWriteUnifiedRecords,
+  dedupeUnifiedRecords,
+  GarminDailySummary,
+  GarminSleepSummary,
+  GarminHrvSummary,
+  GarminStressDetails,
+  GarminActivitySummary,
+  UnifiedHealthRecord,
+} from './unified-data';
+
+const logger = createLogger('GarminService');
+
+const GARMIN_API_BASE = 'https://apis.garmin.com/wellness-api/rest';
+const MAX_WINDOW_SECONDS = 24 * 60 * 60;
+// A push never pulls more than this far back
+const MAX_PUSH_LOOKBACK_SECONDS = 7 * 24 * 60 * 60;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type GarminSummaryType = 'dailies' | 'sleeps' | 'hrv' | 'stressDetails' | 'activities';
+
+export const GARMIN_SUMMARY_TYPES: GarminSummaryType[] = [
+  'dailies',
+  'sleeps',
+  'hrv',
+  'stressDetails',
+  'activities',
+];
+
+export interface GarminSummaries {
+  dailies: GarminDailySummary[];
+  sleeps: GarminSleepSummary[];
+  hrv: GarminHrvSummary[];
+  stressDetails: GarminStressDetails[];
+  activities: GarminActivitySummary[];
+}
+
+/** Push payload: each key holds summaries tagged with the Garmin user ID */
+export type GarminPushPayload = Partial<
+  Record<GarminSummaryType, Array<Record<string, unknown> & { userId?: string }>>
+>;
+
+export interface GarminSyncResult {
+  success: boolean;
+  recordCount: number;
+  notConnected?: boolean;
+  counts?: Record<GarminSummaryType, number>;
+  error?: string;
+}
+
+// ============================================================================
+// FETCHING
+// ============================================================================
+
+/**
+ * Fetch one summary type for a date range, in 24-hour upload windows
+ */
+export async function fetchGarminSummaries<T>(
+  accessToken: string,
+  summaryType: GarminSummaryType,
+  startDate: Date,
+  endDate: Date
+): Promise<T[]> {
+  const results: T[] = [];
+  let windowStart = Math.floor(startDate.getTime() / 1000);
+  const rangeEnd = Math.floor(endDate.getTime() / 1000);
+
+  while (windowStart < rangeEnd) {
+    const windowEnd = Math.min(windowStart + MAX_WINDOW_SECONDS, rangeEnd);
+    const url = `${GARMIN_API_BASE}/${summaryType}?uploadStartTimeInSeconds=${windowStart}&uploadEndTimeInSeconds=${windowEnd}`;
+
+    const response = await circuitBreakers.garmin.execute(async () => {
+      const res = await fetch(url, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      // Only server errors count against the circuit breaker
+      if (res.status >= 500) {
+        throw new Error(`Garmin API error: ${res.status}`);
+      }
+      return res;
+    });
+
+    if (response.status === 401) {
+      throw new Error('Garmin access token rejected');
+    }
+
+    if (response.ok) {
+      const data = await response.json();
+      if (Array.isArray(data)) {
+        results.push(...(data as T[]));
+      }
+    } else {
+      logger.warn('Garmin summary fetch failed', { summaryType, status: response.status });
+    }
+
+    windowStart = windowEnd;
+  }
+
+  return results;
+}
+
+/**
+ * Fetch all supported Garmin summary types for a date range
+ */
+export async function fetchAllGarminSummaries(
+  accessToken: string,
+  startDate: Date,
+  endDate: Date
+): Promise<GarminSummaries> {
+  const [dailies, sleeps, hrv, stressDetails, activities] = await Promise.all([
+    fetchGarminSummaries<GarminDailySummary>(accessToken, 'dailies', startDate, endDate),
+    fetchGarminSummaries<GarminSleepSummary>(accessToken, 'sleeps', startDate, endDate),
+    fetchGarminSummaries<GarminHrvSummary>(accessToken, 'hrv', startDate, endDate),
+    fetchGarminSummaries<GarminStressDetails>(accessToken, 'stressDetails', startDate, endDate),
+    fetchGarminSummaries<GarminActivitySummary>(accessToken, 'activities', startDate, endDate),
+  ]);
+
+  return { dailies, sleeps, hrv, stressDetails, activities };
+}
+
+/**
+ * Look up the Garmin user ID for a connected token (used to route push notifications)
+ */
+export async function fetchGarminUserId(accessToken: string): Promise<string | null> {
+  try {
+    const response = await fetch(`${GARMIN_API_BASE}/user/id`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.userId || null;
+  } catch (error) {
+    logger.warn('Failed to fetch Garmin user ID', { error: error instanceof Error ? error.message : 'Unknown error' });
+    return null;
+  }
+}
+
+// ============================================================================
+// TRANSFORMATION
+// ============================================================================
+
+/**
+ * Transform a set of Garmin summaries into unified records. Garmin re-sends a
+ * day's summary as it updates, so each day keeps its latest upload (and its
+ * longest sleep).
+ */
+export function transformGarminSummaries(
+  email: string,
+  summaries: Partial<GarminSummaries>
+): UnifiedHealthRecord[] {
+  return dedupeUnifiedRecords([
+    ...(summaries.dailies || []).map((s) => transformGarminDaily(email, s)),
+    ...(summaries.sleeps || []).map((s) => transformGarminSleep(email, s)),
+    ...(summaries.hrv || []).map((s) => transformGarminHrv(email, s)),
+    ...(summaries.stressDetails || []).map((s) => transformGarminStress(email, s)),
+    ...(summaries.activities || []).map((s) => transformGarminActivity(email, s)),
+  ]);
+}
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+/**
+ * Pull Garmin data for a user and dual-write it to the unified table
+ */
+export async function syncGarminData(
+  email: string,
+  options?: { startDate?: Date; endDate?: Date; userCode?: string }
+): Promise<GarminSyncResult> {
+  const endDate = options?.endDate || new Date();
+  const startDate = options?.startDate || new Date(endDate.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+  const { token, error: tokenError } = await getAccessToken(email, 'garmin', options?.userCode);
+  if (!token) {
+    return { success: false, recordCount: 0, notConnected: true, error: tokenError || 'Garmin not connected' };
+  }
+
+  try {
+    const summaries = await fetchAllGarminSummaries(token, startDate, endDate);
+    const records = transformGarminSummaries(email, summaries);
+    const writeResult = await dualWriteUnifiedRecords(records, { logPrefix: 'GarminSync' });
+
+    const counts = {
+      dailies: summaries.dailies.length,
+      sleeps: summaries.sleeps.length,
+      hrv: summaries.hrv.length,
+      stressDetails: summaries.stressDetails.length,
+      activities: summaries.activities.length,
+    };
+
+    logger.info('Garmin sync complete', { email, ...counts, written: writeResult.written });
+
+    return {
+      success: writeResult.success,
+      recordCount: records.length,
+      counts,
+      error: writeResult.success ? undefined : 'Failed to write unified records',
+    };
+  } catch (error) {
+    if (error instanceof CircuitOpenError) {
+      logger.warn('Garmin circuit breaker open, skipping sync', { email });
+    } else {
+      logger.error('Garmin sync failed', error, { email });
+    }
+    return {
+      success: false,
+      recordCount: 0,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Upload window a push covers, from its summaries' upload (or start) times.
+ * Bounded to the last week, and the last day when the push carries no times.
+ */
+export function garminPushWindow(
+  summaries: Array<Record<string, unknown>>,
+  now: Date = new Date()
+): { startDate: Date; endDate: Date } {
+  const earliest = now.getTime() - MAX_PUSH_LOOKBACK_SECONDS * 1000;
+  const times = summaries
+    .map((s) => s.uploadStartTimeInSeconds ?? s.startTimeInSeconds)
+    .filter((t): t is number => typeof t === 'number' && Number.isFinite(t))
+    .map((t) => t * 1000);
+
+  const start = times.length > 0 ? Math.min(...times) : now.getTime() - MAX_WINDOW_SECONDS * 1000;
+  return { startDate: new Date(Math.max(earliest, Math.min(start, now.getTime()))), endDate: now };
+}
+
+/**
+ * Process a Garmin push notification
+ * Pushes are unsigned, so their summaries are never written: each Garmin user
+ * ID is resolved to a connected account and its data for the pushed window is
+ * pulled from the Garmin API with that account's own token.
+ */
+export async function processGarminPush(
+  payload: GarminPushPayload
+): Promise<{ usersProcessed: number; recordsWritten: number; unknownUsers: string[] }> {
+  const byUser = new Map<string, Array<Record<string, unknown>>>();
+
+  for (const summaryType of GARMIN_SUMMARY_TYPES) {
+    for (const summary of payload[summaryType] || []) {
+      if (typeof summary.userId !== 'string' || !summary.userId) continue;
+      byUser.set(summary.userId, [...(byUser.get(summary.userId) || []), summary]);
+    }
+  }
+
+  if (byUser.size === 0) {
+    return { usersProcessed: 0, recordsWritten: 0, unknownUsers: [] };
+  }
+
+  const supabase = createAdminClient();
+  const { data: tokens } = await supabase
+    .from('integration_tokens')
+    .select('user_email, provider_user_id')
+    .eq('provider', 'garmin')
+    .eq('is_active', true)
+    .in('provider_user_id', [...byUser.keys()]);
+
+  const emailByGarminId = new Map<string, string>(
+    (tokens || []).map((t) => [t.provider_user_id as string, t.user_email as string])
+  );
+
+  let usersProcessed = 0;
+  let recordsWritten = 0;
+  const unknownUsers: string[] = [];
+
+  for (const [garminUserId, summaries] of byUser) {
+    const email = emailByGarminId.get(garminUserId);
+    if (!email) {
+      unknownUsers.push(garminUserId);
+      continue;
+    }
+
+    const result = await syncGarminData(email, garminPushWindow(summaries));
+    usersProcessed++;
+    if (result.success) recordsWritten += result.recordCount;
+  }
+
+  if (unknownUsers.length > 0) {
+    logger.warn('Garmin push for unknown users', { unknownUsers });
+  }
+
+  return { usersProcessed, recordsWritten, unknownUsers };
+}
+
+// ============================================================================
+// OAUTH
+// ============================================================================
+
+/**
+ * Derive the PKCE code verifier from the OAuth state nonce.
+ * Keyed with the client secret so the auth and callback routes agree without
+ * storing the verifier, while someone holding only the state cannot recreate it.
+ */
+export function createGarminCodeVerifier(nonce: string): string {
+  const secret = process.env.GARMIN_CLIENT_SECRET || '';
+  return crypto.createHmac('sha256', secret).update(nonce).digest('base64url');
+}
+
+/**
+ * S256 code challenge for a PKCE code verifier
+ */
+export function createGarminCodeChallenge(verifier: string): string {
+  return crypto.createHash('sha256').update(verifier).digest('base64url');
+}
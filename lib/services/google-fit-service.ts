@@ -0,0 +1,330 @@
+/**
+ * Google Fit Service
+ *
+ * Pulls daily activity aggregates, sleep sessions (with sleep stages) and
+ * workout sessions from the Google Fit REST API and writes them to the
+ * unified health table.
+ *
+ * Documentation: https://developers.google.com/fit/rest/v1/reference
+ *
+ * @module lib/services/google-fit-service
+ */
+
+import { getAccessToken } from './token-manager';
+import { createLogger } from '@/lib/utils/logger';
+import { circuitBreakers, CircuitOpenError } from '@/lib/utils/circuit-breaker';
+import { getDeliveryPreferences, getLocalTime, resolveTimezone } from './delivery-window';
+import {
+  transformGoogleFitActivity,
+  transformGoogleFitSleep,
+  transformGoogleFitWorkout,
+  dualWriteUnifiedRecords,
+  dedupeUnifiedRecords,
+  GoogleFitDayAggregate,
+  GoogleFitSession,
+  UnifiedHealthRecord,
+} from './unified-data';
+
+const logger = createLogger('GoogleFitService');
+
+const GOOGLE_FIT_API_BASE = 'https://www.googleapis.com/fitness/v1/users/me';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SLEEP_ACTIVITY_TYPE = 72;
+
+// Order matters: bucket datasets come back in the same order as aggregateBy
+const DAILY_AGGREGATES = [
+  'com.google.step_count.delta',
+  'com.google.calories.expended',
+  'com.google.active_minutes',
+  'com.google.distance.delta',
+  'com.google.heart_rate.bpm',
+  'com.google.oxygen_saturation',
+];
+
+// com.google.sleep.segment stage values
+const SLEEP_STAGE = {
+  AWAKE: 1,
+  LIGHT: 4,
+  DEEP: 5,
+  REM: 6,
+};
+
+export const GOOGLE_FIT_SCOPES = [
+  'https://www.googleapis.com/auth/fitness.activity.read',
+  'https://www.googleapis.com/auth/fitness.heart_rate.read',
+  'https://www.googleapis.com/auth/fitness.sleep.read',
+  'https://www.googleapis.com/auth/fitness.oxygen_saturation.read',
+  'https://www.googleapis.com/auth/fitness.location.read',
+];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface AggregatePoint {
+  startTimeNanos?: string;
+  endTimeNanos?: string;
+  value: Array<{ intVal?: number; fpVal?: number }>;
+}
+
+interface AggregateBucket {
+  startTimeMillis: string;
+  endTimeMillis: string;
+  dataset: Array<{ point: AggregatePoint[] }>;
+}
+
+export interface GoogleFitSyncResult {
+  success: boolean;
+  recordCount: number;
+  notConnected?: boolean;
+  days?: number;
+  sessions?: number;
+  error?: string;
+}
+
+// ============================================================================
+// FETCHING
+// ============================================================================
+
+/**
+ * Call Google Fit through the circuit breaker
+ */
+async function googleFitRequest<T>(
+  accessToken: string,
+  path: string,
+  init?: RequestInit
+): Promise<T> {
+  const response = await circuitBreakers.googleFit.execute(async () => {
+    const res = await fetch(`${GOOGLE_FIT_API_BASE}/${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        ...init?.headers,
+      },
+    });
+    if (res.status >= 500) {
+      throw new Error(`Google Fit API error: ${res.status}`);
+    }
+    return res;
+  });
+
+  if (!response.ok) {
+    throw new Error(`Google Fit API error: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+function sumPoints(points: AggregatePoint[] | undefined, field: 'intVal' | 'fpVal'): number | undefined {
+  if (!points || points.length === 0) return undefined;
+  return points.reduce((sum, p) => sum + (p.value[0]?.[field] || 0), 0);
+}
+
+/**
+ * Local midnight starting the day a date falls on
+ */
+function startOfLocalDay(date: Date, timeZone: string): Date {
+  const wholeMinute = Math.floor(date.getTime() / 60000) * 60000;
+  return new Date(wholeMinute - getLocalTime(date, timeZone).minutes * 60000);
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) of an instant
+ */
+function localDate(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+}
+
+/**
+ * Fetch daily activity aggregates for a date range, one bucket per calendar
+ * day in the user's timezone
+ */
+export async function fetchGoogleFitDailyAggregates(
+  accessToken: string,
+  startDate: Date,
+  endDate: Date,
+  timeZone: string = 'UTC'
+): Promise<GoogleFitDayAggregate[]> {
+  const data = await googleFitRequest<{ bucket?: AggregateBucket[] }>(accessToken, 'dataset:aggregate', {
+    method: 'POST',
+    body: JSON.stringify({
+      aggregateBy: DAILY_AGGREGATES.map((dataTypeName) => ({ dataTypeName })),
+      bucketByTime: { period: { type: 'day', value: 1, timeZoneId: timeZone } },
+      startTimeMillis: startOfLocalDay(startDate, timeZone).getTime(),
+      endTimeMillis: endDate.getTime(),
+    }),
+  });
+
+  const buckets = data.bucket || [];
+
+  return buckets
+    .map((bucket) => {
+      const [steps, calories, activeMinutes, distance, heartRate, spo2] = bucket.dataset.map((d) => d.point);
+      // Heart rate aggregate values are [average, max, min]
+      const hrPoint = heartRate?.[0];
+
+      return {
+        date: localDate(new Date(Number(bucket.startTimeMillis)), timeZone),
+        steps: sumPoints(steps, 'intVal'),
+        caloriesExpended: sumPoints(calories, 'fpVal'),
+        activeMinutes: sumPoints(activeMinutes, 'intVal'),
+        distanceMeters: sumPoints(distance, 'fpVal'),
+        avgHeartRate: hrPoint?.value[0]?.fpVal ? Math.round(hrPoint.value[0].fpVal) : undefined,
+        minHeartRate: hrPoint?.value[2]?.fpVal ? Math.round(hrPoint.value[2].fpVal) : undefined,
+        avgSpo2: spo2?.[0]?.value[0]?.fpVal,
+      };
+    })
+    .filter((day) => day.steps !== undefined || day.caloriesExpended !== undefined);
+}
+
+/**
+ * Fetch sleep stage totals for a single sleep session
+ */
+async function fetchSleepStages(
+  accessToken: string,
+  session: GoogleFitSession
+): Promise<GoogleFitSession['sleepStages']> {
+  const start = Number(session.startTimeMillis);
+  const end = Number(session.endTimeMillis);
+
+  const data = await googleFitRequest<{ bucket?: AggregateBucket[] }>(accessToken, 'dataset:aggregate', {
+    method: 'POST',
+    body: JSON.stringify({
+      aggregateBy: [{ dataTypeName: 'com.google.sleep.segment' }],
+      bucketByTime: { durationMillis: end - start },
+      startTimeMillis: start,
+      endTimeMillis: end,
+    }),
+  });
+
+  const points: AggregatePoint[] = (data.bucket || []).flatMap(
+    (b) => b.dataset.flatMap((d) => d.point)
+  );
+  if (points.length === 0) return undefined;
+
+  const minutesByStage: Record<number, number> = {};
+  for (const point of points) {
+    const stage = point.value[0]?.intVal;
+    if (stage === undefined || !point.startTimeNanos || !point.endTimeNanos) continue;
+    const minutes = (Number(point.endTimeNanos) - Number(point.startTimeNanos)) / 6e10;
+    minutesByStage[stage] = (minutesByStage[stage] || 0) + minutes;
+  }
+
+  return {
+    awakeMinutes: Math.round(minutesByStage[SLEEP_STAGE.AWAKE] || 0),
+    lightMinutes: Math.round(minutesByStage[SLEEP_STAGE.LIGHT] || 0),
+    deepMinutes: Math.round(minutesByStage[SLEEP_STAGE.DEEP] || 0),
+    remMinutes: Math.round(minutesByStage[SLEEP_STAGE.REM] || 0),
+  };
+}
+
+/**
+ * Fetch sleep and workout sessions for a date range
+ */
+export async function fetchGoogleFitSessions(
+  accessToken: string,
+  startDate: Date,
+  endDate: Date
+): Promise<GoogleFitSession[]> {
+  const params = new URLSearchParams({
+    startTime: startDate.toISOString(),
+    endTime: endDate.toISOString(),
+  });
+  const data = await googleFitRequest<{ session?: GoogleFitSession[] }>(accessToken, `sessions?${params.toString()}`);
+  const sessions = data.session || [];
+
+  for (const session of sessions) {
+    if (session.activityType !== SLEEP_ACTIVITY_TYPE) continue;
+    try {
+      session.sleepStages = await fetchSleepStages(accessToken, session);
+    } catch (error) {
+      logger.warn('Failed to fetch sleep stages', {
+        sessionId: session.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return sessions;
+}
+
+// ============================================================================
+// TRANSFORMATION
+// ============================================================================
+
+/**
+ * Transform Google Fit aggregates and sessions into unified records. A nap
+ * and the night's sleep share a wake-up day, so that day keeps the longest.
+ */
+export function transformGoogleFitData(
+  email: string,
+  days: GoogleFitDayAggregate[],
+  sessions: GoogleFitSession[]
+): UnifiedHealthRecord[] {
+  const records: UnifiedHealthRecord[] = days.map((day) => transformGoogleFitActivity(email, day));
+
+  for (const session of sessions) {
+    const record = transformGoogleFitSleep(email, session) || transformGoogleFitWorkout(email, session);
+    if (record) records.push(record);
+  }
+
+  return dedupeUnifiedRecords(records);
+}
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+/**
+ * Pull Google Fit data for a user and dual-write it to the unified table
+ */
+export async function syncGoogleFitData(
+  email: string,
+  options?: { startDate?: Date; endDate?: Date; userCode?: string }
+): Promise<GoogleFitSyncResult> {
+  const endDate = options?.endDate || new Date();
+  const startDate = options?.startDate || new Date(endDate.getTime() - 7 * DAY_MS);
+
+  const { token, error: tokenError } = await getAccessToken(email, 'google_fit', options?.userCode);
+  if (!token) {
+    return { success: false, recordCount: 0, notConnected: true, error: tokenError || 'Google Fit not connected' };
+  }
+
+  try {
+    const timeZone = await resolveTimezone(email, await getDeliveryPreferences(email));
+    const [days, sessions] = await Promise.all([
+      fetchGoogleFitDailyAggregates(token, startDate, endDate, timeZone),
+      fetchGoogleFitSessions(token, startDate, endDate),
+    ]);
+
+    const records = transformGoogleFitData(email, days, sessions);
+    const writeResult = await dualWriteUnifiedRecords(records, { logPrefix: 'GoogleFitSync' });
+
+    logger.info('Google Fit sync complete', {
+      email,
+      days: days.length,
+      sessions: sessions.length,
+      written: writeResult.written,
+    });
+
+    return {
+      success: writeResult.success,
+      recordCount: records.length,
+      days: days.length,
+      sessions: sessions.length,
+      error: writeResult.success ? undefined : 'Failed to write unified records',
+    };
+  } catch (error) {
+    if (error instanceof CircuitOpenError) {
+      logger.warn('Google Fit circuit breaker open, skipping sync', { email });
+    } else {
+      logger.error('Google Fit sync failed', error, { email });
+    }
+    return {
+      success: false,
+      recordCount: 0,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
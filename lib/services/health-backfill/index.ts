@@ -0,0 +1,10 @@
+/**
+ * Health Backfill
+ * Resumable historical backfill and replay of provider data into unified_health_data,
+ * followed by daily rollup and baseline recomputation
+ */
+
+export * from './types';
+export * from './providers';
+export * from './jobs';
+export * from './runner';
@@ -0,0 +1,175 @@
+/**
+ * Health Backfill Job Store
+ * Persistence and checkpointing for health_backfill_jobs
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import { BACKFILL_PROVIDERS } from './providers';
+import {
+  BackfillJob,
+  BackfillProvider,
+  EnqueueBackfillOptions,
+  EnqueueBackfillResult,
+} from './types';
+
+const logger = createLogger('HealthBackfillJobs');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ACTIVE_STATUSES = ['pending', 'running', 'finalizing'];
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Queue a backfill (or replay) for a user + provider.
+ * Returns the existing job if one is already active for that provider.
+ */
+export async function enqueueBackfill(
+  email: string,
+  provider: BackfillProvider,
+  options: EnqueueBackfillOptions = {}
+): Promise<EnqueueBackfillResult> {
+  const supabase = createAdminClient();
+  const config = BACKFILL_PROVIDERS[provider];
+  const mode = options.mode || 'backfill';
+
+  const endDate = options.endDate || new Date();
+  const startDate = options.startDate || new Date(endDate.getTime() - config.defaultHistoryDays * DAY_MS);
+
+  if (startDate > endDate) {
+    return { success: false, error: 'startDate must be before or equal to endDate' };
+  }
+
+  const { data: existing } = await supabase
+    .from('health_backfill_jobs')
+    .select('*')
+    .eq('user_email', email)
+    .eq('provider', provider)
+    .in('status', ACTIVE_STATUSES)
+    .maybeSingle();
+
+  if (existing) {
+    return { success: true, job: existing as BackfillJob, alreadyQueued: true };
+  }
+
+  const rangeEnd = toDateString(endDate);
+
+  const { data, error } = await supabase
+    .from('health_backfill_jobs')
+    .insert({
+      user_email: email,
+      provider,
+      mode,
+      status: 'pending',
+      range_start: toDateString(startDate),
+      range_end: rangeEnd,
+      // Nothing processed yet: the first chunk ends on range_end
+      cursor_date: toDateString(new Date(new Date(rangeEnd).getTime() + DAY_MS)),
+      chunk_days: options.chunkDays || config.chunkDays,
+      next_attempt_at: new Date().toISOString(),
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    logger.error('Failed to enqueue backfill', error, { email, provider, mode });
+    return { success: false, error: error.message };
+  }
+
+  logger.info('Backfill enqueued', {
+    email,
+    provider,
+    mode,
+    rangeStart: data.range_start,
+    rangeEnd: data.range_end,
+  });
+
+  return { success: true, job: data as BackfillJob };
+}
+
+/**
+ * Get a user's backfill jobs, newest first
+ */
+export async function getBackfillJobs(email: string, limit: number = 20): Promise<BackfillJob[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('health_backfill_jobs')
+    .select('*')
+    .eq('user_email', email)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    logger.error('Failed to get backfill jobs', error, { email });
+    return [];
+  }
+
+  return (data || []) as BackfillJob[];
+}
+
+/**
+ * Get active jobs whose next attempt is due, oldest first
+ */
+export async function getRunnableBackfillJobs(limit: number = 10): Promise<BackfillJob[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('health_backfill_jobs')
+    .select('*')
+    .in('status', ACTIVE_STATUSES)
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    logger.error('Failed to get runnable backfill jobs', error);
+    return [];
+  }
+
+  return (data || []) as BackfillJob[];
+}
+
+/**
+ * Persist job progress. Called after every chunk so a job can resume from its last checkpoint.
+ */
+export async function updateBackfillJob(
+  id: string,
+  patch: Partial<Omit<BackfillJob, 'id' | 'user_email' | 'provider' | 'created_at'>>
+): Promise<void> {
+  const supabase = createAdminClient();
+
+  const { error } = await supabase
+    .from('health_backfill_jobs')
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    // Surface checkpoint failures so the runner stops instead of re-fetching chunks forever
+    throw new Error(`Failed to update backfill job ${id}: ${error.message}`);
+  }
+}
+
+/**
+ * Cancel an active job owned by the user
+ */
+export async function cancelBackfillJob(email: string, jobId: string): Promise<boolean> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('health_backfill_jobs')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('user_email', email)
+    .in('status', ACTIVE_STATUSES)
+    .select('id');
+
+  if (error) {
+    logger.error('Failed to cancel backfill job', error, { email, jobId });
+    return false;
+  }
+
+  return (data || []).length > 0;
+}
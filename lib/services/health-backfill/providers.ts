@@ -0,0 +1,391 @@
+/**
+ * Health Backfill Provider Fetchers
+ * Pages through each provider's history one chunk at a time and maps it to unified records.
+ * All requests go through the provider's circuit breaker so a struggling API
+ * pauses the backfill instead of hammering it.
+ */
+
+import { providerCircuitBreakers } from '@/lib/utils/circuit-breaker';
+import {
+  transformOuraSleep,
+  transformOuraReadiness,
+  transformOuraActivity,
+  transformWhoopRecovery,
+  transformWhoopSleep,
+  transformWhoopWorkout,
+  transformFitbitActivity,
+  transformFitbitSleep,
+  transformStravaActivity,
+  transformDexcomGlucose,
+  OuraSleepRecord,
+  OuraReadinessRecord,
+  OuraActivityRecord,
+  WhoopRecoveryRecord,
+  WhoopSleepRecord,
+  WhoopWorkoutRecord,
+  FitbitDayData,
+  StravaActivityRecord,
+  UnifiedHealthRecord,
+} from '@/lib/services/unified-data';
+import { BackfillChunk, BackfillProvider, ProviderBackfillConfig } from './types';
+
+const MAX_PAGES_PER_CHUNK = 50;
+
+/**
+ * Provider API responded with an error status
+ */
+export class BackfillHttpError extends Error {
+  constructor(
+    public readonly provider: BackfillProvider,
+    public readonly status: number
+  ) {
+    super(`${provider} API error: ${status}`);
+    this.name = 'BackfillHttpError';
+  }
+
+  /** Auth failures will not fix themselves by retrying */
+  get isAuthError(): boolean {
+    return this.status === 401 || this.status === 403;
+  }
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/** Last day covered by a chunk (chunk.end is exclusive) */
+function lastDay(chunk: BackfillChunk): Date {
+  return new Date(chunk.end.getTime() - 24 * 60 * 60 * 1000);
+}
+
+/**
+ * GET a provider endpoint through its circuit breaker.
+ * Only 5xx responses count as breaker failures; other errors are thrown afterwards.
+ */
+async function providerGet<T>(
+  provider: BackfillProvider,
+  url: string,
+  accessToken: string
+): Promise<T> {
+  const breaker = providerCircuitBreakers.get(provider);
+
+  const response = await breaker.execute(async () => {
+    const res = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: 'application/json',
+      },
+    });
+    if (res.status >= 500) {
+      throw new BackfillHttpError(provider, res.status);
+    }
+    return res;
+  });
+
+  if (!response.ok) {
+    throw new BackfillHttpError(provider, response.status);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+// ============================================================================
+// OURA
+// ============================================================================
+
+async function fetchOuraCollection<T>(
+  accessToken: string,
+  endpoint: string,
+  chunk: BackfillChunk
+): Promise<T[]> {
+  const records: T[] = [];
+  let nextToken: string | null = null;
+  let pages = 0;
+
+  do {
+    const params = new URLSearchParams({
+      start_date: toDateString(chunk.start),
+      end_date: toDateString(lastDay(chunk)),
+    });
+    if (nextToken) params.set('next_token', nextToken);
+
+    const data = await providerGet<{ data?: T[]; next_token?: string | null }>(
+      'oura',
+      `https://api.ouraring.com/v2/usercollection/${endpoint}?${params.toString()}`,
+      accessToken
+    );
+    records.push(...(data.data || []));
+    nextToken = data.next_token || null;
+    pages++;
+  } while (nextToken && pages < MAX_PAGES_PER_CHUNK);
+
+  return records;
+}
+
+async function fetchOuraChunk(
+  email: string,
+  accessToken: string,
+  chunk: BackfillChunk
+): Promise<UnifiedHealthRecord[]> {
+  const sleep = await fetchOuraCollection<OuraSleepRecord>(accessToken, 'sleep', chunk);
+  const readiness = await fetchOuraCollection<OuraReadinessRecord>(accessToken, 'daily_readiness', chunk);
+  const activity = await fetchOuraCollection<OuraActivityRecord>(accessToken, 'daily_activity', chunk);
+
+  return [
+    ...sleep.map((r) => transformOuraSleep(email, r)),
+    ...readiness.map((r) => transformOuraReadiness(email, r)),
+    ...activity.map((r) => transformOuraActivity(email, r)),
+  ];
+}
+
+// ============================================================================
+// WHOOP
+// ============================================================================
+
+async function fetchWhoopCollection<T>(
+  accessToken: string,
+  path: string,
+  chunk: BackfillChunk
+): Promise<T[]> {
+  const records: T[] = [];
+  let nextToken: string | null = null;
+  let pages = 0;
+
+  do {
+    const params = new URLSearchParams({
+      start: chunk.start.toISOString(),
+      end: chunk.end.toISOString(),
+      limit: '25',
+    });
+    if (nextToken) params.set('nextToken', nextToken);
+
+    const data = await providerGet<{ records?: T[]; next_token?: string | null }>(
+      'whoop',
+      `https://api.prod.whoop.com/developer/v2/${path}?${params.toString()}`,
+      accessToken
+    );
+    records.push(...(data.records || []));
+    nextToken = data.next_token || null;
+    pages++;
+  } while (nextToken && pages < MAX_PAGES_PER_CHUNK);
+
+  return records;
+}
+
+async function fetchWhoopChunk(
+  email: string,
+  accessToken: string,
+  chunk: BackfillChunk
+): Promise<UnifiedHealthRecord[]> {
+  const recovery = await fetchWhoopCollection<WhoopRecoveryRecord>(accessToken, 'recovery', chunk);
+  const sleep = await fetchWhoopCollection<WhoopSleepRecord>(accessToken, 'activity/sleep', chunk);
+  const workouts = await fetchWhoopCollection<WhoopWorkoutRecord>(accessToken, 'activity/workout', chunk);
+
+  return [
+    ...recovery.filter((r) => r.score).map((r) => transformWhoopRecovery(email, r)),
+    ...sleep.filter((r) => r.score).map((r) => transformWhoopSleep(email, r)),
+    ...workouts.map((r) => transformWhoopWorkout(email, r)),
+  ];
+}
+
+// ============================================================================
+// FITBIT
+// ============================================================================
+
+interface FitbitSleepLog {
+  dateOfSleep: string;
+  isMainSleep?: boolean;
+  minutesAsleep?: number;
+  efficiency?: number;
+  levels?: {
+    summary?: Record<string, { minutes?: number }>;
+  };
+}
+
+type FitbitSeries = Array<{ dateTime: string; value: string }>;
+
+async function fetchFitbitSeries(
+  accessToken: string,
+  resource: string,
+  chunk: BackfillChunk
+): Promise<Map<string, number>> {
+  const key = `activities-${resource}`;
+  const data = await providerGet<Record<string, FitbitSeries>>(
+    'fitbit',
+    `https://api.fitbit.com/1/user/-/activities/${resource}/date/${toDateString(chunk.start)}/${toDateString(lastDay(chunk))}.json`,
+    accessToken
+  );
+  return new Map((data[key] || []).map((d) => [d.dateTime, Number(d.value)]));
+}
+
+async function fetchFitbitChunk(
+  email: string,
+  accessToken: string,
+  chunk: BackfillChunk
+): Promise<UnifiedHealthRecord[]> {
+  const start = toDateString(chunk.start);
+  const end = toDateString(lastDay(chunk));
+
+  // Range endpoints keep this to 7 requests per chunk (Fitbit allows 150/hour)
+  const steps = await fetchFitbitSeries(accessToken, 'steps', chunk);
+  const calories = await fetchFitbitSeries(accessToken, 'calories', chunk);
+  const distance = await fetchFitbitSeries(accessToken, 'distance', chunk);
+  const veryActive = await fetchFitbitSeries(accessToken, 'minutesVeryActive', chunk);
+  const fairlyActive = await fetchFitbitSeries(accessToken, 'minutesFairlyActive', chunk);
+
+  const heart = await providerGet<{
+    'activities-heart'?: Array<{ dateTime: string; value?: { restingHeartRate?: number } }>;
+  }>('fitbit', `https://api.fitbit.com/1/user/-/activities/heart/date/${start}/${end}.json`, accessToken);
+  const restingHr = new Map(
+    (heart['activities-heart'] || []).map((d) => [d.dateTime, d.value?.restingHeartRate])
+  );
+
+  const sleepData = await providerGet<{ sleep?: FitbitSleepLog[] }>(
+    'fitbit',
+    `https://api.fitbit.com/1.2/user/-/sleep/date/${start}/${end}.json`,
+    accessToken
+  );
+  const mainSleep = new Map<string, FitbitSleepLog>();
+  for (const log of sleepData.sleep || []) {
+    if (log.isMainSleep === false && mainSleep.has(log.dateOfSleep)) continue;
+    mainSleep.set(log.dateOfSleep, log);
+  }
+
+  const records: UnifiedHealthRecord[] = [];
+  for (const date of steps.keys()) {
+    const sleep = mainSleep.get(date);
+    const stages = sleep?.levels?.summary;
+    const day: FitbitDayData = {
+      date,
+      summary: {
+        steps: steps.get(date),
+        caloriesOut: calories.get(date),
+        activeMinutes: (veryActive.get(date) || 0) + (fairlyActive.get(date) || 0),
+        distances: distance.has(date) ? [{ distance: distance.get(date) as number }] : undefined,
+      },
+      sleep: sleep
+        ? {
+            totalMinutesAsleep: sleep.minutesAsleep,
+            efficiency: sleep.efficiency,
+            stages: stages
+              ? {
+                  deep: stages.deep?.minutes,
+                  rem: stages.rem?.minutes,
+                  light: stages.light?.minutes,
+                  wake: stages.wake?.minutes,
+                }
+              : undefined,
+          }
+        : undefined,
+      heartRate: { restingHeartRate: restingHr.get(date) },
+    };
+
+    // Days the tracker wasn't worn come back as zero steps
+    if (day.summary?.steps) {
+      records.push(transformFitbitActivity(email, day));
+    }
+    const sleepRecord = transformFitbitSleep(email, day);
+    if (sleepRecord) records.push(sleepRecord);
+  }
+
+  return records;
+}
+
+// ============================================================================
+// STRAVA
+// ============================================================================
+
+async function fetchStravaChunk(
+  email: string,
+  accessToken: string,
+  chunk: BackfillChunk
+): Promise<UnifiedHealthRecord[]> {
+  const perPage = 100;
+  const after = Math.floor(chunk.start.getTime() / 1000);
+  const before = Math.floor(chunk.end.getTime() / 1000);
+  const activities: StravaActivityRecord[] = [];
+
+  for (let page = 1; page <= MAX_PAGES_PER_CHUNK; page++) {
+    const batch = await providerGet<StravaActivityRecord[]>(
+      'strava',
+      `https://www.strava.com/api/v3/athlete/activities?after=${after}&before=${before}&page=${page}&per_page=${perPage}`,
+      accessToken
+    );
+    activities.push(...batch);
+    if (batch.length < perPage) break;
+  }
+
+  return activities.map((a) => transformStravaActivity(email, a));
+}
+
+// ============================================================================
+// DEXCOM
+// ============================================================================
+
+function getDexcomBaseUrl(): string {
+  return process.env.NODE_ENV === 'production'
+    ? 'https://api.dexcom.com'
+    : 'https://sandbox-api.dexcom.com';
+}
+
+async function fetchDexcomChunk(
+  email: string,
+  accessToken: string,
+  chunk: BackfillChunk
+): Promise<UnifiedHealthRecord[]> {
+  // Dexcom expects timestamps without a timezone suffix
+  const format = (d: Date) => d.toISOString().split('.')[0];
+  const data = await providerGet<{ egvs?: Array<{ value: number; systemTime?: string; displayTime?: string }> }>(
+    'dexcom',
+    `${getDexcomBaseUrl()}/v2/users/self/egvs?startDate=${format(chunk.start)}&endDate=${format(chunk.end)}`,
+    accessToken
+  );
+
+  // One glucose record per day, matching the daily rollup granularity
+  const byDay = new Map<string, number[]>();
+  for (const egv of data.egvs || []) {
+    const time = egv.systemTime || egv.displayTime;
+    if (!time || !egv.value || egv.value <= 0) continue;
+    const day = time.split('T')[0];
+    const values = byDay.get(day) || [];
+    values.push(egv.value);
+    byDay.set(day, values);
+  }
+
+  const records: UnifiedHealthRecord[] = [];
+  for (const [day, values] of byDay) {
+    const inRange = values.filter((v) => v >= 70 && v <= 180).length;
+    records.push(
+      transformDexcomGlucose(email, {
+        timestamp: `${day}T00:00:00.000Z`,
+        analysis: {
+          avgGlucose: Math.round(values.reduce((a, b) => a + b, 0) / values.length),
+          minGlucose: Math.min(...values),
+          maxGlucose: Math.max(...values),
+          timeInRange: Math.round((inRange / values.length) * 100),
+          readings: values.length,
+        },
+      })
+    );
+  }
+
+  return records;
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export const BACKFILL_PROVIDERS: Record<BackfillProvider, ProviderBackfillConfig> = {
+  oura: { chunkDays: 30, defaultHistoryDays: 365, fetchChunk: fetchOuraChunk },
+  whoop: { chunkDays: 30, defaultHistoryDays: 365, fetchChunk: fetchWhoopChunk },
+  // Fitbit sleep ranges are capped at 100 days, but smaller chunks keep us well under the hourly rate limit
+  fitbit: { chunkDays: 30, defaultHistoryDays: 365, fetchChunk: fetchFitbitChunk },
+  strava: { chunkDays: 60, defaultHistoryDays: 730, fetchChunk: fetchStravaChunk },
+  // Dexcom caps EGV queries at 90 days; readings are dense so keep chunks short
+  dexcom: { chunkDays: 14, defaultHistoryDays: 180, fetchChunk: fetchDexcomChunk },
+};
+
+export function isBackfillProvider(provider: string): provider is BackfillProvider {
+  return Object.hasOwn(BACKFILL_PROVIDERS, provider);
+}
@@ -0,0 +1,234 @@
+/**
+ * Health Backfill Runner
+ * Processes queued backfill jobs chunk by chunk, checkpointing after each one,
+ * then recomputes daily rollups and insight baselines once a job's range is done.
+ */
+
+import { getAccessToken } from '@/lib/services/token-manager';
+import { writeUnifiedRecords, updateDailyRollup } from '@/lib/services/unified-data';
+import { recomputeBaselinesFromHistory } from '@/lib/services/insight-trigger-service';
+import { CircuitOpenError } from '@/lib/utils/circuit-breaker';
+import { createLogger } from '@/lib/utils/logger';
+import { BACKFILL_PROVIDERS, BackfillHttpError } from './providers';
+import { getRunnableBackfillJobs, updateBackfillJob } from './jobs';
+import {
+  BackfillChunk,
+  BackfillFinalizeResult,
+  BackfillJob,
+  BackfillRunResult,
+} from './types';
+
+const logger = createLogger('HealthBackfillRunner');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+const DEFAULT_TIME_BUDGET_MS = 240_000; // Leave headroom under the 5 minute function limit
+
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00.000Z`);
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Next chunk to fetch, walking backwards from the checkpoint.
+ * Most recent history is fetched first so insights benefit as early as possible.
+ */
+export function getNextChunk(job: Pick<BackfillJob, 'range_start' | 'cursor_date' | 'chunk_days'>): BackfillChunk | null {
+  const rangeStart = parseDate(job.range_start);
+  const cursor = parseDate(job.cursor_date);
+
+  if (cursor <= rangeStart) return null;
+
+  const start = new Date(Math.max(rangeStart.getTime(), cursor.getTime() - job.chunk_days * DAY_MS));
+  return { start, end: cursor };
+}
+
+/**
+ * Exponential backoff for transient failures: 2, 4, 8, 16... minutes
+ */
+function getRetryDelayMs(attempts: number): number {
+  return Math.pow(2, attempts) * 60 * 1000;
+}
+
+/**
+ * Recompute unified_health_daily for every day in the job range, then rebuild baselines
+ */
+export async function finalizeBackfill(
+  email: string,
+  rangeStart: string,
+  rangeEnd: string
+): Promise<BackfillFinalizeResult> {
+  let rollupDays = 0;
+  let rollupFailures = 0;
+
+  for (let day = parseDate(rangeStart); day <= parseDate(rangeEnd); day = new Date(day.getTime() + DAY_MS)) {
+    const result = await updateDailyRollup(email, toDateString(day));
+    rollupDays++;
+    if (!result.success) rollupFailures++;
+  }
+
+  const baselinesUpdated = await recomputeBaselinesFromHistory(email);
+
+  logger.info('Backfill finalized', { email, rollupDays, rollupFailures, baselinesUpdated });
+
+  return { rollupDays, rollupFailures, baselinesUpdated };
+}
+
+/**
+ * Run a single job until it completes, fails, is deferred, or the deadline passes
+ */
+export async function runBackfillJob(
+  job: BackfillJob,
+  options: { deadline?: number } = {}
+): Promise<BackfillRunResult> {
+  const deadline = options.deadline ?? Date.now() + DEFAULT_TIME_BUDGET_MS;
+  const config = BACKFILL_PROVIDERS[job.provider];
+  const result: BackfillRunResult = {
+    jobId: job.id,
+    email: job.user_email,
+    provider: job.provider,
+    status: job.status,
+    chunksProcessed: 0,
+    recordsWritten: 0,
+  };
+
+  let cursorDate = job.cursor_date;
+  let chunksCompleted = job.chunks_completed;
+  let recordsWritten = job.records_written;
+  let attempts = job.attempts;
+
+  try {
+    if (job.status === 'pending') {
+      await updateBackfillJob(job.id, { status: 'running', started_at: new Date().toISOString() });
+      result.status = 'running';
+    }
+
+    if (job.status !== 'finalizing') {
+      const { token, error: tokenError } = await getAccessToken(job.user_email, job.provider);
+      if (!token) {
+        await updateBackfillJob(job.id, {
+          status: 'failed',
+          last_error: tokenError || `${job.provider} not connected`,
+        });
+        return { ...result, status: 'failed', error: tokenError || `${job.provider} not connected` };
+      }
+
+      let chunk = getNextChunk({ ...job, cursor_date: cursorDate });
+      while (chunk && Date.now() < deadline) {
+        const records = await config.fetchChunk(job.user_email, token, chunk);
+        const writeResult = await writeUnifiedRecords(records);
+        if (!writeResult.success) {
+          throw new Error(`Failed to write unified records: ${writeResult.errors.join(', ')}`);
+        }
+
+        cursorDate = toDateString(chunk.start);
+        chunksCompleted++;
+        recordsWritten += writeResult.written;
+        attempts = 0;
+        result.chunksProcessed++;
+        result.recordsWritten += writeResult.written;
+
+        await updateBackfillJob(job.id, {
+          cursor_date: cursorDate,
+          chunks_completed: chunksCompleted,
+          records_written: recordsWritten,
+          attempts: 0,
+          last_error: null,
+        });
+
+        logger.info('Backfill chunk complete', {
+          jobId: job.id,
+          email: job.user_email,
+          provider: job.provider,
+          chunkStart: toDateString(chunk.start),
+          records: writeResult.written,
+        });
+
+        chunk = getNextChunk({ ...job, cursor_date: cursorDate });
+      }
+
+      if (chunk) {
+        // Out of time; the next cron run resumes from the checkpoint
+        return result;
+      }
+
+      await updateBackfillJob(job.id, { status: 'finalizing' });
+      result.status = 'finalizing';
+    }
+
+    if (Date.now() >= deadline) {
+      return result;
+    }
+
+    await finalizeBackfill(job.user_email, job.range_start, job.range_end);
+    const now = new Date().toISOString();
+    await updateBackfillJob(job.id, {
+      status: 'completed',
+      completed_at: now,
+      rollups_recomputed_at: now,
+    });
+
+    return { ...result, status: 'completed' };
+  } catch (error) {
+    if (error instanceof CircuitOpenError) {
+      // Provider is unhealthy: keep the checkpoint and try again once the breaker can half-open
+      logger.warn('Circuit open, deferring backfill', { jobId: job.id, provider: job.provider });
+      try {
+        await updateBackfillJob(job.id, {
+          last_error: error.message,
+          next_attempt_at: new Date(Date.now() + error.resetTimeout).toISOString(),
+        });
+      } catch (updateError) {
+        logger.error('Failed to defer backfill job', updateError, { jobId: job.id });
+      }
+      return { ...result, deferred: true, error: error.message };
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    attempts++;
+    const fatal = (error instanceof BackfillHttpError && error.isAuthError) || attempts >= MAX_ATTEMPTS;
+
+    logger.error('Backfill job error', error, {
+      jobId: job.id,
+      email: job.user_email,
+      provider: job.provider,
+      attempts,
+      fatal,
+    });
+
+    try {
+      await updateBackfillJob(job.id, {
+        status: fatal ? 'failed' : result.status,
+        attempts,
+        last_error: message,
+        next_attempt_at: new Date(Date.now() + getRetryDelayMs(attempts)).toISOString(),
+      });
+    } catch (updateError) {
+      logger.error('Failed to record backfill error', updateError, { jobId: job.id });
+    }
+
+    return { ...result, status: fatal ? 'failed' : result.status, error: message };
+  }
+}
+
+/**
+ * Process due backfill jobs within a time budget (called from cron)
+ */
+export async function processBackfillQueue(
+  options: { maxJobs?: number; timeBudgetMs?: number } = {}
+): Promise<BackfillRunResult[]> {
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS);
+  const jobs = await getRunnableBackfillJobs(options.maxJobs ?? 10);
+  const results: BackfillRunResult[] = [];
+
+  // Sequential on purpose: backfills are bulk reads and provider rate limits are per app
+  for (const job of jobs) {
+    if (Date.now() >= deadline) break;
+    results.push(await runBackfillJob(job, { deadline }));
+  }
+
+  return results;
+}
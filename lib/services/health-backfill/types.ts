@@ -0,0 +1,90 @@
+/**
+ * Health Backfill Types
+ * Resumable historical backfill and replay of provider data into unified_health_data
+ */
+
+import { UnifiedHealthRecord } from '@/lib/services/unified-data';
+
+export type BackfillProvider = 'oura' | 'whoop' | 'fitbit' | 'strava' | 'dexcom';
+
+export type BackfillMode = 'backfill' | 'replay';
+
+export type BackfillJobStatus =
+  | 'pending'
+  | 'running'
+  | 'finalizing'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface BackfillJob {
+  id: string;
+  user_email: string;
+  provider: BackfillProvider;
+  mode: BackfillMode;
+  status: BackfillJobStatus;
+  range_start: string; // YYYY-MM-DD
+  range_end: string; // YYYY-MM-DD
+  cursor_date: string; // YYYY-MM-DD, [cursor_date, range_end] already written
+  chunk_days: number;
+  chunks_completed: number;
+  records_written: number;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  rollups_recomputed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BackfillChunk {
+  start: Date; // inclusive, 00:00 UTC
+  end: Date; // exclusive, 00:00 UTC of the day after the last day
+}
+
+export interface ProviderBackfillConfig {
+  /** Days of history fetched per chunk (bounded by the provider's max query window) */
+  chunkDays: number;
+  /** How far back a default backfill reaches */
+  defaultHistoryDays: number;
+  /** Fetch one chunk of history and transform it into unified records */
+  fetchChunk: (
+    email: string,
+    accessToken: string,
+    chunk: BackfillChunk
+  ) => Promise<UnifiedHealthRecord[]>;
+}
+
+export interface EnqueueBackfillOptions {
+  mode?: BackfillMode;
+  startDate?: Date;
+  endDate?: Date;
+  chunkDays?: number;
+}
+
+export interface EnqueueBackfillResult {
+  success: boolean;
+  job?: BackfillJob;
+  alreadyQueued?: boolean;
+  error?: string;
+}
+
+export interface BackfillRunResult {
+  jobId: string;
+  email: string;
+  provider: BackfillProvider;
+  status: BackfillJobStatus;
+  chunksProcessed: number;
+  recordsWritten: number;
+  /** Circuit breaker was open; job left in place to resume later */
+  deferred?: boolean;
+  error?: string;
+}
+
+export interface BackfillFinalizeResult {
+  rollupDays: number;
+  rollupFailures: number;
+  baselinesUpdated: string[];
+}
@@ -0,0 +1,254 @@
+/**
+ * Insight Harness
+ *
+ * Dry-runs processAllProviders for a set of users with a stubbed LLM and
+ * captures every generated insight. Nothing is stored, no notifications are
+ * sent and baselines are left untouched, so runs from two code versions can
+ * be diffed while tuning thresholds.
+ *
+ * Typical use (see __tests__/unit/services/insight-harness.test.ts):
+ *   INSIGHT_HARNESS_OUT=/tmp/before.json npm run test:insights   # old version
+ *   INSIGHT_HARNESS_BASELINE=/tmp/before.json npm run test:insights   # new version
+ *
+ * @module lib/services/insight-harness
+ */
+
+import {
+  processAllProviders,
+  GeneratedInsight,
+  InsightCompletionProvider,
+} from './insight-trigger-service';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('InsightHarness');
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HarnessUser {
+  email: string;
+  /** Insights the stubbed LLM returns, in the AI response format */
+  aiInsights?: Array<Record<string, unknown>>;
+}
+
+export interface CapturedInsight {
+  /** Stable identity across runs: source, type and title */
+  key: string;
+  insight_type: GeneratedInsight['insight_type'];
+  title: string;
+  message: string;
+  severity: GeneratedInsight['severity'];
+  actionable_recommendation: string;
+  source_provider: string;
+  source_data_type: string;
+}
+
+export interface HarnessUserRun {
+  email: string;
+  insights: CapturedInsight[];
+  errors: string[];
+  llmCalls: number;
+}
+
+export interface InsightHarnessRun {
+  label: string;
+  generatedAt: string;
+  users: HarnessUserRun[];
+}
+
+export interface InsightFieldChange {
+  field: keyof CapturedInsight;
+  before: string;
+  after: string;
+}
+
+export interface InsightHarnessUserDiff {
+  email: string;
+  added: CapturedInsight[];
+  removed: CapturedInsight[];
+  changed: Array<{ key: string; changes: InsightFieldChange[] }>;
+}
+
+export interface InsightHarnessDiff {
+  from: string;
+  to: string;
+  users: InsightHarnessUserDiff[];
+  summary: { added: number; removed: number; changed: number; unchanged: number };
+}
+
+const COMPARED_FIELDS: Array<keyof CapturedInsight> = [
+  'severity',
+  'message',
+  'actionable_recommendation',
+  'source_data_type',
+];
+
+// ============================================================================
+// RUNNING
+// ============================================================================
+
+/**
+ * Completion provider that returns canned AI insights and counts calls
+ */
+export function createStubCompletionProvider(
+  aiInsights: Array<Record<string, unknown>> = []
+): InsightCompletionProvider & { calls: number } {
+  const provider = async () => {
+    provider.calls++;
+    return JSON.stringify({ insights: aiInsights });
+  };
+  provider.calls = 0;
+  return provider;
+}
+
+/**
+ * Reduce an insight to the fields compared between runs. Repeated keys in one
+ * run get a numeric suffix so each insight stays addressable.
+ */
+function captureInsights(insights: GeneratedInsight[]): CapturedInsight[] {
+  const seen = new Map<string, number>();
+
+  const captured = insights.map((insight) => {
+    const baseKey = `${insight.source_provider}:${insight.insight_type}:${insight.title}`;
+    const count = (seen.get(baseKey) || 0) + 1;
+    seen.set(baseKey, count);
+
+    return {
+      key: count > 1 ? `${baseKey}#${count}` : baseKey,
+      insight_type: insight.insight_type,
+      title: insight.title,
+      message: insight.message,
+      severity: insight.severity,
+      actionable_recommendation: insight.actionable_recommendation,
+      source_provider: insight.source_provider,
+      source_data_type: insight.source_data_type,
+    };
+  });
+
+  return captured.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Dry-run insight generation for each user in turn
+ */
+export async function runInsightHarness(
+  users: HarnessUser[],
+  options: { label?: string } = {}
+): Promise<InsightHarnessRun> {
+  const label = options.label || 'current';
+  const results: HarnessUserRun[] = [];
+
+  for (const user of users) {
+    const completionProvider = createStubCompletionProvider(user.aiInsights);
+
+    try {
+      const result = await processAllProviders(user.email, { dryRun: true, completionProvider });
+      results.push({
+        email: user.email,
+        insights: captureInsights(result.insights),
+        errors: result.errors,
+        llmCalls: completionProvider.calls,
+      });
+    } catch (error) {
+      logger.error('Harness run failed for user', error, { email: user.email });
+      results.push({
+        email: user.email,
+        insights: [],
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        llmCalls: completionProvider.calls,
+      });
+    }
+  }
+
+  logger.info('Insight harness run complete', {
+    label,
+    users: results.length,
+    insights: results.reduce((sum, r) => sum + r.insights.length, 0),
+  });
+
+  return { label, generatedAt: new Date().toISOString(), users: results };
+}
+
+// ============================================================================
+// DIFFING
+// ============================================================================
+
+/**
+ * Compare two harness runs user by user, matching insights by key
+ */
+export function diffInsightRuns(before: InsightHarnessRun, after: InsightHarnessRun): InsightHarnessDiff {
+  const beforeUsers = new Map(before.users.map((u) => [u.email, u]));
+  const afterUsers = new Map(after.users.map((u) => [u.email, u]));
+  const emails = Array.from(new Set([...beforeUsers.keys(), ...afterUsers.keys()])).sort();
+
+  const summary = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  const users: InsightHarnessUserDiff[] = [];
+
+  for (const email of emails) {
+    const beforeInsights = new Map((beforeUsers.get(email)?.insights || []).map((i) => [i.key, i]));
+    const afterInsights = new Map((afterUsers.get(email)?.insights || []).map((i) => [i.key, i]));
+    const diff: InsightHarnessUserDiff = { email, added: [], removed: [], changed: [] };
+
+    for (const [key, insight] of afterInsights) {
+      const previous = beforeInsights.get(key);
+      if (!previous) {
+        diff.added.push(insight);
+        continue;
+      }
+
+      const changes = COMPARED_FIELDS
+        .filter((field) => previous[field] !== insight[field])
+        .map((field) => ({ field, before: String(previous[field]), after: String(insight[field]) }));
+
+      if (changes.length > 0) {
+        diff.changed.push({ key, changes });
+      } else {
+        summary.unchanged++;
+      }
+    }
+
+    for (const [key, insight] of beforeInsights) {
+      if (!afterInsights.has(key)) diff.removed.push(insight);
+    }
+
+    summary.added += diff.added.length;
+    summary.removed += diff.removed.length;
+    summary.changed += diff.changed.length;
+
+    if (diff.added.length || diff.removed.length || diff.changed.length) {
+      users.push(diff);
+    }
+  }
+
+  return { from: before.label, to: after.label, users, summary };
+}
+
+/**
+ * Render a diff as a plain-text report
+ */
+export function formatInsightDiff(diff: InsightHarnessDiff): string {
+  const { added, removed, changed, unchanged } = diff.summary;
+  const lines = [
+    `Insight diff ${diff.from} -> ${diff.to}`,
+    `${added} added, ${removed} removed, ${changed} changed, ${unchanged} unchanged`,
+  ];
+
+  for (const user of diff.users) {
+    lines.push('', user.email);
+    for (const insight of user.added) {
+      lines.push(`  + [${insight.severity}] ${insight.key}`);
+    }
+    for (const insight of user.removed) {
+      lines.push(`  - [${insight.severity}] ${insight.key}`);
+    }
+    for (const change of user.changed) {
+      lines.push(`  ~ ${change.key}`);
+      for (const { field, before, after } of change.changes) {
+        lines.push(`      ${field}: ${before} -> ${after}`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -29,13 +29,13 @@ import {
 } from './ecosystem-fetcher';
 import {
   getUnifiedHealthData,
+  getUnifiedHealthDaily,
   groupByProvider,
   UnifiedHealthRecord,
+  UnifiedHealthDaily,
 } from './unified-data';
 import {
-  sendInsightNotification,
-  canSendNotification,
-  wasThemeNotifiedToday,
+  sendCoordinatedInsightNotification,
   markThemeNotified,
   getInsightTheme,
 } from './onesignal-service';
@@ -49,6 +49,13 @@ import { searchLocalRecommendations, formatRecommendationsForInsight } from './l
 const openai = new OpenAI();
 const logger = createLogger('InsightTriggerService');
 
+const openAICompletion = async (
+  request: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming
+): Promise<string | null> => {
+  const response = await openai.chat.completions.create(request);
+  return response.choices[0]?.message?.content ?? null;
+};
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -111,6 +118,22 @@ export interface BaselineChange {
   is_significant: boolean;
 }
 
+/**
+ * Returns the raw JSON text for an AI insight request.
+ * Defaults to OpenAI; the insight harness swaps in a stub.
+ */
+export type InsightCompletionProvider = (
+  request: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming
+) => Promise<string | null>;
+
+export interface ProcessProvidersOptions {
+  useUnified?: boolean;
+  /** Generate insights without storing them, notifying or updating baselines */
+  dryRun?: boolean;
+  /** LLM used for AI-powered insights */
+  completionProvider?: InsightCompletionProvider;
+}
+
 /**
  * User location context for location-aware insights
  */
@@ -371,6 +394,63 @@ async function updateBaseline(
   }
 }
 
+/**
+ * Rebuild baselines from the daily rollup (used after a historical backfill)
+ * Replaces each rolling average with the mean of the most recent window_days of data
+ */
+export async function recomputeBaselinesFromHistory(
+  email: string,
+  window_days: number = 14
+): Promise<string[]> {
+  const supabase = createAdminClient();
+  const daily = await getUnifiedHealthDaily(email, { days: window_days });
+
+  const metricSources: Record<string, (day: UnifiedHealthDaily) => number | undefined> = {
+    sleep_score: (day) => day.sleep_score,
+    recovery_score: (day) => day.recovery_score,
+    hrv_ms: (day) => day.hrv_avg,
+    resting_hr: (day) => day.resting_hr,
+    daily_steps: (day) => day.steps,
+    avg_glucose: (day) => day.glucose_avg,
+    time_in_range_pct: (day) => day.time_in_range_percent,
+  };
+
+  const updated: string[] = [];
+
+  for (const [metric_type, pick] of Object.entries(metricSources)) {
+    const values = daily.map(pick).filter((v): v is number => v != null);
+    if (values.length === 0) continue;
+
+    const baseline_value = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const sample_count = Math.min(values.length, window_days);
+    const existing = await getBaseline(email, metric_type);
+
+    if (!existing) {
+      await supabase.from('user_health_baselines').insert({
+        email,
+        metric_type,
+        baseline_value,
+        sample_count,
+        window_days,
+      });
+    } else {
+      await supabase
+        .from('user_health_baselines')
+        .update({
+          baseline_value,
+          sample_count,
+          last_updated: new Date().toISOString(),
+        })
+        .eq('email', email)
+        .eq('metric_type', metric_type);
+    }
+
+    updated.push(metric_type);
+  }
+
+  return updated;
+}
+
 /**
  * Check if a value is significantly different from baseline
  */
@@ -419,7 +499,8 @@ async function checkSignificantChange(
  */
 async function generateSleepInsights(
   email: string,
-  ouraData: OuraData
+  ouraData: OuraData,
+  dryRun = false
 ): Promise<GeneratedInsight[]> {
   const insights: GeneratedInsight[] = [];
 
@@ -430,7 +511,7 @@ async function generateSleepInsights(
       'sleep_score',
       ouraData.avgReadinessScore
     );
-    await updateBaseline(email, 'sleep_score', ouraData.avgReadinessScore);
+    if (!dryRun) await updateBaseline(email, 'sleep_score', ouraData.avgReadinessScore);
 
     if (sleepChange.is_significant && sleepChange.direction === 'decrease') {
       insights.push({
@@ -473,7 +554,7 @@ async function generateSleepInsights(
   // Check HRV
   if (ouraData.avgHRV > 0) {
     const hrvChange = await checkSignificantChange(email, 'hrv_ms', ouraData.avgHRV);
-    await updateBaseline(email, 'hrv_ms', ouraData.avgHRV);
+    if (!dryRun) await updateBaseline(email, 'hrv_ms', ouraData.avgHRV);
 
     if (hrvChange.is_significant && hrvChange.direction === 'decrease') {
       insights.push({
@@ -521,7 +602,8 @@ async function generateSleepInsights(
  */
 async function generateGlucoseInsights(
   email: string,
-  dexcomData: DexcomData
+  dexcomData: DexcomData,
+  dryRun = false
 ): Promise<GeneratedInsight[]> {
   const insights: GeneratedInsight[] = [];
 
@@ -532,7 +614,7 @@ async function generateGlucoseInsights(
       'avg_glucose',
       dexcomData.avgGlucose
     );
-    await updateBaseline(email, 'avg_glucose', dexcomData.avgGlucose);
+    if (!dryRun) await updateBaseline(email, 'avg_glucose', dexcomData.avgGlucose);
 
     // High glucose alert
     if (dexcomData.avgGlucose > 140) {
@@ -574,7 +656,7 @@ async function generateGlucoseInsights(
 
   // Time in range
   if (dexcomData.timeInRange > 0 && dexcomData.timeInRange < 70) {
-    await updateBaseline(email, 'time_in_range_pct', dexcomData.timeInRange);
+    if (!dryRun) await updateBaseline(email, 'time_in_range_pct', dexcomData.timeInRange);
 
     insights.push({
       insight_type: 'glucose_spike',
@@ -600,7 +682,8 @@ async function generateGlucoseInsights(
  */
 async function generateRecoveryInsights(
   email: string,
-  whoopData: WhoopData
+  whoopData: WhoopData,
+  dryRun = false
 ): Promise<GeneratedInsight[]> {
   const insights: GeneratedInsight[] = [];
 
@@ -611,7 +694,7 @@ async function generateRecoveryInsights(
       'recovery_score',
       whoopData.avgRecoveryScore
     );
-    await updateBaseline(email, 'recovery_score', whoopData.avgRecoveryScore);
+    if (!dryRun) await updateBaseline(email, 'recovery_score', whoopData.avgRecoveryScore);
 
     // Low recovery (red zone < 34)
     if (whoopData.avgRecoveryScore < 34) {
@@ -670,7 +753,7 @@ async function generateRecoveryInsights(
 
   // Strain update
   if (whoopData.avgStrainScore > 0) {
-    await updateBaseline(email, 'strain_score', whoopData.avgStrainScore);
+    if (!dryRun) await updateBaseline(email, 'strain_score', whoopData.avgStrainScore);
   }
 
   // Overtraining risk
@@ -1743,7 +1826,8 @@ async function generateAIInsights(
   email: string,
   ecosystemData: AllConnectorData,
   userContext: UserContext | null,
-  subscriptionTier: string = 'free'
+  subscriptionTier: string = 'free',
+  complete: InsightCompletionProvider = openAICompletion
 ): Promise<GeneratedInsight[]> {
   const tierConfig = INSIGHT_TIER_CONFIG[subscriptionTier] || INSIGHT_TIER_CONFIG.free;
   logger.info('Generating AI-powered insights', { email, tier: subscriptionTier, maxInsights: tierConfig.insightCount });
@@ -2146,7 +2230,7 @@ async function generateAIInsights(
     const systemPrompt = buildTierSpecificPrompt(tierConfig, subscriptionTier);
 
     // Generate insights using appropriate model
-    const response = await openai.chat.completions.create({
+    const responseText = (await complete({
       model: tierConfig.model,
       messages: [
         {
@@ -2161,9 +2245,7 @@ async function generateAIInsights(
       response_format: { type: 'json_object' },
       max_tokens: tierConfig.maxTokens,
       temperature: 0.7,
-    });
-
-    const responseText = response.choices[0]?.message?.content || '{}';
+    })) || '{}';
     let parsed: { insights?: any[] } = {};
 
     try {
@@ -3033,37 +3115,11 @@ async function storeInsight(email: string, insight: GeneratedInsight): Promise<s
     }
   }
 
-  // Send push notification via OneSignal (with throttling)
+  // Send push notification through the coordinator, which applies the daily
+  // limits, quiet hours and digest batching
   if (insightId) {
     try {
-      // Check 1: Daily notification limit (critical alerts bypass)
-      const canSend = await canSendNotification(email, insight.severity, 'insight');
-
-      if (!canSend) {
-        logger.info('Skipping notification - daily limit reached', {
-          email,
-          insightId,
-          severity: insight.severity,
-        });
-        return insightId;
-      }
-
-      // Check 2: Theme deduplication (only 1 per theme per day)
-      const theme = getInsightTheme(insight.title, insight.message);
-      const themeAlreadySent = await wasThemeNotifiedToday(email, theme);
-
-      if (themeAlreadySent) {
-        logger.info('Skipping notification - theme already sent today', {
-          email,
-          insightId,
-          theme,
-          title: insight.title.substring(0, 50),
-        });
-        return insightId;
-      }
-
-      // Both checks passed - send the notification
-      const sentCount = await sendInsightNotification(email, {
+      const result = await sendCoordinatedInsightNotification(email, {
         id: insightId,
         title: insight.title,
         message: insight.message,
@@ -3071,8 +3127,7 @@ async function storeInsight(email: string, insight: GeneratedInsight): Promise<s
         severity: insight.severity,
       });
 
-      // Mark notification as sent if successful
-      if (sentCount > 0) {
+      if (result.success) {
         // Update insight record
         await supabase
           .from('real_time_insights')
@@ -3083,7 +3138,8 @@ async function storeInsight(email: string, insight: GeneratedInsight): Promise<s
           })
           .eq('id', insightId);
 
-        // Track theme for deduplication
+        // Keep the theme tracking used by webhook notifications in sync
+        const theme = getInsightTheme(insight.title, insight.message);
         await markThemeNotified(email, theme, 'insight');
 
         logger.info('Notification sent successfully', {
@@ -3092,6 +3148,15 @@ async function storeInsight(email: string, insight: GeneratedInsight): Promise<s
           theme,
           title: insight.title.substring(0, 50),
         });
+      } else {
+        logger.info('Notification not sent immediately', {
+          email,
+          insightId,
+          severity: insight.severity,
+          reason: result.suppressionReason,
+          deferred: result.deferred,
+          batched: result.batched,
+        });
       }
     } catch (pushError) {
       logger.error('Error sending push notification', pushError, { email, insightId });
@@ -3105,12 +3170,13 @@ async function storeInsight(email: string, insight: GeneratedInsight): Promise<s
 /**
  * Process all providers for a user and generate insights
  */
-export async function processAllProviders(email: string, options?: { useUnified?: boolean }): Promise<{
+export async function processAllProviders(email: string, options?: ProcessProvidersOptions): Promise<{
   insights_generated: number;
   insights: GeneratedInsight[];
   errors: string[];
 }> {
-  logger.info('Processing all providers', { email, useUnified: options?.useUnified });
+  logger.info('Processing all providers', { email, useUnified: options?.useUnified, dryRun: options?.dryRun });
+  const dryRun = options?.dryRun ?? false;
 
   const allInsights: GeneratedInsight[] = [];
   const errors: string[] = [];
@@ -3148,17 +3214,17 @@ export async function processAllProviders(email: string, options?: { useUnified?
 
       // Generate insights from available data
       if (ecosystemData.oura?.available && ecosystemData.oura.data) {
-        const ouraInsights = await generateSleepInsights(email, ecosystemData.oura.data as OuraData);
+        const ouraInsights = await generateSleepInsights(email, ecosystemData.oura.data as OuraData, dryRun);
         allInsights.push(...ouraInsights);
       }
 
       if (ecosystemData.dexcom?.available && ecosystemData.dexcom.data) {
-        const dexcomInsights = await generateGlucoseInsights(email, ecosystemData.dexcom.data as DexcomData);
+        const dexcomInsights = await generateGlucoseInsights(email, ecosystemData.dexcom.data as DexcomData, dryRun);
         allInsights.push(...dexcomInsights);
       }
 
       if (ecosystemData.whoop?.available && ecosystemData.whoop.data) {
-        const whoopInsights = await generateRecoveryInsights(email, ecosystemData.whoop.data as WhoopData);
+        const whoopInsights = await generateRecoveryInsights(email, ecosystemData.whoop.data as WhoopData, dryRun);
         allInsights.push(...whoopInsights);
       }
 
@@ -3253,20 +3319,21 @@ export async function processAllProviders(email: string, options?: { useUnified?
 
   // Generate insights from each available provider
   if (ouraResult?.available && ouraResult.data) {
-    const ouraInsights = await generateSleepInsights(email, ouraResult.data as OuraData);
+    const ouraInsights = await generateSleepInsights(email, ouraResult.data as OuraData, dryRun);
     allInsights.push(...ouraInsights);
   }
 
   if (dexcomResult?.available && dexcomResult.data) {
     const dexcomInsights = await generateGlucoseInsights(
       email,
-      dexcomResult.data as DexcomData
+      dexcomResult.data as DexcomData,
+      dryRun
     );
     allInsights.push(...dexcomInsights);
   }
 
   if (whoopResult?.available && whoopResult.data) {
-    const whoopInsights = await generateRecoveryInsights(email, whoopResult.data as WhoopData);
+    const whoopInsights = await generateRecoveryInsights(email, whoopResult.data as WhoopData, dryRun);
     allInsights.push(...whoopInsights);
   }
 
@@ -3327,12 +3394,27 @@ export async function processAllProviders(email: string, options?: { useUnified?
   // NEW: Generate AI-powered personalized insights using comprehensive user context
   // This uses GPT-4o with full context: profile, labs, conversation history, plans, and ecosystem data
   // Pro and Max tiers get deeper, more complex insights
-  const aiInsights = await generateAIInsights(email, ecosystemData, userContext, subscriptionTier);
+  const aiInsights = await generateAIInsights(
+    email,
+    ecosystemData,
+    userContext,
+    subscriptionTier,
+    options?.completionProvider
+  );
   allInsights.push(...aiInsights);
 
   // NEW: Enhance insights with local recommendations (if location data available)
   const enhancedInsights = await enhanceGeneratedInsights(email, allInsights, userContext?.locationProfile || null);
 
+  if (dryRun) {
+    logger.info('Dry run complete, insights not stored', { email, generated: enhancedInsights.length });
+    return {
+      insights_generated: enhancedInsights.length,
+      insights: enhancedInsights,
+      errors,
+    };
+  }
+
   // Store all generated insights
   let stored_count = 0;
   for (const insight of enhancedInsights) {
@@ -10,6 +10,7 @@
 import { createClient } from '@/lib/supabase/server';
 import { getUserIntegrations, type Provider } from '@/lib/services/token-manager';
 import { createLogger } from '@/lib/utils/logger';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
 
 const logger = createLogger('MCPSync');
 
@@ -227,9 +228,7 @@ async function syncProvider(
     // Call the provider's sync endpoint
     const response = await fetch(`${baseUrl}${config.endpoint}`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
       body: JSON.stringify({ email }),
       signal: AbortSignal.timeout(config.timeout),
     });
@@ -0,0 +1,556 @@
+/**
+ * Medications
+ *
+ * Medication management for the user and, through Share, their caregivers:
+ * dosing schedules, dose logging from push actions, the app and the agent,
+ * compliance, refill prediction and interaction warnings against the user's
+ * supplement stack.
+ *
+ * Scheduled doses are materialized into medication_logs a day ahead by the
+ * medication-doses cron, which also sends the dose reminder push (with
+ * taken/skip actions), marks doses missed once their window passes and, for
+ * medications flagged critical, alerts caregivers through AlertRoutingService.
+ *
+ * @module lib/services/medications
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import { NotificationCoordinator } from '../notification-coordinator';
+import { getDeliveryPreferences, resolveTimezone } from '../delivery-window';
+import { getUserSupplementStack } from '../supplement-matching';
+import { alertRoutingService } from '../share/alert-routing-service';
+import { contextBuilderService } from '../share/context-builder-service';
+import {
+  DoseSource,
+  Medication,
+  MedicationDose,
+  MedicationInput,
+  MedicationInteraction,
+  MedicationJobSummary,
+  MedicationReport,
+} from './types';
+import {
+  computeCompliance,
+  expandDoseTimes,
+  isDoseOverdue,
+  predictRefill,
+} from './schedule';
+import { checkMedicationInteractions } from './interactions';
+
+export * from './types';
+export {
+  computeCompliance,
+  expandDoseTimes,
+  getLocalDate,
+  getUnitsPerDay,
+  isDoseOverdue,
+  isValidScheduleTime,
+  predictRefill,
+  zonedTimeToUtc,
+} from './schedule';
+export { checkMedicationInteractions } from './interactions';
+
+const logger = createLogger('Medications');
+
+/** How far ahead doses are materialized */
+const SCHEDULE_AHEAD_HOURS = 24;
+
+/** A logged dose matches a scheduled one within this many hours */
+const DOSE_MATCH_WINDOW_HOURS = 12;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ============================================================================
+// MEDICATIONS
+// ============================================================================
+
+export async function listMedications(email: string, includeInactive: boolean = false): Promise<Medication[]> {
+  const supabase = createAdminClient();
+  let query = supabase
+    .from('medications')
+    .select('*')
+    .eq('user_email', email)
+    .order('created_at', { ascending: true });
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to list medications: ${error.message}`);
+  }
+  return (data || []) as Medication[];
+}
+
+export async function getMedication(email: string, id: string): Promise<Medication | null> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('medications')
+    .select('*')
+    .eq('user_email', email)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch medication: ${error.message}`);
+  }
+  return data as Medication | null;
+}
+
+/**
+ * Find an active medication by brand or generic name, for the agent
+ */
+export async function findMedicationByName(email: string, name: string): Promise<Medication | null> {
+  const needle = name.trim().toLowerCase();
+  const medications = await listMedications(email);
+
+  return medications.find((m) => m.name.toLowerCase() === needle || m.generic_name?.toLowerCase() === needle) ||
+    medications.find((m) => m.name.toLowerCase().includes(needle) || m.generic_name?.toLowerCase().includes(needle)) ||
+    null;
+}
+
+export async function createMedication(email: string, input: MedicationInput): Promise<Medication> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('medications')
+    .insert({
+      user_email: email,
+      ...input,
+      last_refilled_at: input.supply_remaining != null ? new Date().toISOString() : null,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create medication: ${error.message}`);
+  }
+  logger.info('Medication created', { email, medicationId: data.id });
+  return data as Medication;
+}
+
+/**
+ * Update a medication. Raising supply_remaining counts as a refill and
+ * re-arms the refill reminder. Schedule changes drop doses materialized for
+ * the old schedule; the next cron run creates the new ones. Deactivating
+ * drops every dose still scheduled, past or future, so none are left for
+ * the dose job to pick up.
+ */
+export async function updateMedication(
+  email: string,
+  id: string,
+  updates: Partial<MedicationInput>
+): Promise<Medication | null> {
+  const existing = await getMedication(email, id);
+  if (!existing) return null;
+
+  const now = new Date().toISOString();
+  const changes: Record<string, unknown> = { ...updates, updated_at: now };
+
+  if (updates.supply_remaining != null && updates.supply_remaining > (existing.supply_remaining ?? 0)) {
+    changes.last_refilled_at = now;
+    changes.refill_reminded_at = null;
+  }
+
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('medications')
+    .update(changes)
+    .eq('user_email', email)
+    .eq('id', id)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update medication: ${error.message}`);
+  }
+
+  const scheduleChanged = ['schedule_times', 'days_of_week', 'as_needed', 'start_date', 'end_date', 'is_active']
+    .some((field) => field in updates);
+  if (updates.is_active === false) {
+    await supabase
+      .from('medication_logs')
+      .delete()
+      .eq('medication_id', id)
+      .eq('status', 'scheduled');
+  } else if (scheduleChanged) {
+    await supabase
+      .from('medication_logs')
+      .delete()
+      .eq('medication_id', id)
+      .eq('status', 'scheduled')
+      .gt('scheduled_time', now);
+  }
+
+  return data as Medication | null;
+}
+
+export async function deleteMedication(email: string, id: string): Promise<boolean> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('medications')
+    .delete()
+    .eq('user_email', email)
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete medication: ${error.message}`);
+  }
+  return !!data && data.length > 0;
+}
+
+// ============================================================================
+// DOSES
+// ============================================================================
+
+export async function getDoses(
+  email: string,
+  options: { from: Date; to: Date; medicationId?: string }
+): Promise<MedicationDose[]> {
+  const supabase = createAdminClient();
+  let query = supabase
+    .from('medication_logs')
+    .select('*')
+    .eq('user_email', email)
+    .gte('scheduled_time', options.from.toISOString())
+    .lt('scheduled_time', options.to.toISOString())
+    .order('scheduled_time', { ascending: true });
+
+  if (options.medicationId) {
+    query = query.eq('medication_id', options.medicationId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch doses: ${error.message}`);
+  }
+  return (data || []) as MedicationDose[];
+}
+
+/**
+ * Record a dose as taken or skipped. Identify it by id (push actions) or by
+ * medication, in which case the open dose closest to `takenAt` is used and
+ * an unscheduled dose is recorded when there is none (as-needed medications,
+ * extra doses). Taking a dose draws down the tracked supply.
+ */
+export async function logDose(
+  email: string,
+  input: {
+    doseId?: string;
+    medicationId?: string;
+    status: 'taken' | 'skipped';
+    takenAt?: Date;
+    source: DoseSource;
+    notes?: string;
+  }
+): Promise<MedicationDose | null> {
+  const supabase = createAdminClient();
+  const takenAt = input.takenAt || new Date();
+  let dose: MedicationDose | null = null;
+
+  if (input.doseId) {
+    const { data } = await supabase
+      .from('medication_logs')
+      .select('*')
+      .eq('user_email', email)
+      .eq('id', input.doseId)
+      .maybeSingle();
+    dose = data as MedicationDose | null;
+  } else if (input.medicationId) {
+    const { data } = await supabase
+      .from('medication_logs')
+      .select('*')
+      .eq('user_email', email)
+      .eq('medication_id', input.medicationId)
+      .in('status', ['scheduled', 'missed'])
+      .gte('scheduled_time', new Date(takenAt.getTime() - DOSE_MATCH_WINDOW_HOURS * HOUR_MS).toISOString())
+      .lte('scheduled_time', new Date(takenAt.getTime() + DOSE_MATCH_WINDOW_HOURS * HOUR_MS).toISOString());
+
+    dose = ((data || []) as MedicationDose[]).sort((a, b) =>
+      Math.abs(new Date(a.scheduled_time).getTime() - takenAt.getTime()) -
+      Math.abs(new Date(b.scheduled_time).getTime() - takenAt.getTime())
+    )[0] || null;
+  }
+
+  const medicationId = dose?.medication_id || input.medicationId;
+  if (!medicationId) return null;
+
+  const medication = await getMedication(email, medicationId);
+  if (!medication) return null;
+
+  const fields = {
+    status: input.status,
+    taken_at: input.status === 'taken' ? takenAt.toISOString() : null,
+    source: input.source,
+    notes: input.notes ?? dose?.notes ?? null,
+    updated_at: new Date().toISOString(),
+  };
+
+  let result;
+  if (dose) {
+    result = await supabase.from('medication_logs').update(fields).eq('id', dose.id).select('*').single();
+  } else if (input.doseId) {
+    return null;
+  } else {
+    result = await supabase
+      .from('medication_logs')
+      .insert({ medication_id: medicationId, user_email: email, scheduled_time: takenAt.toISOString(), ...fields })
+      .select('*')
+      .single();
+  }
+
+  if (result.error) {
+    throw new Error(`Failed to log dose: ${result.error.message}`);
+  }
+
+  const wasTaken = dose?.status === 'taken';
+  const isTaken = input.status === 'taken';
+  if (medication.supply_remaining !== null && wasTaken !== isTaken) {
+    const delta = isTaken ? -medication.units_per_dose : medication.units_per_dose;
+    await supabase
+      .from('medications')
+      .update({ supply_remaining: Math.max(0, medication.supply_remaining + delta), updated_at: new Date().toISOString() })
+      .eq('id', medication.id);
+  }
+
+  logger.info('Medication dose logged', { email, medicationId, doseId: result.data.id, status: input.status, source: input.source });
+  return result.data as MedicationDose;
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+export async function getMedicationInteractions(email: string, medications?: Medication[]): Promise<MedicationInteraction[]> {
+  const [meds, stack] = await Promise.all([
+    medications ? Promise.resolve(medications) : listMedications(email),
+    getUserSupplementStack(email),
+  ]);
+  return checkMedicationInteractions(meds, stack.map((s) => s.name));
+}
+
+/**
+ * Compliance over the last `days` days, refill predictions and interaction
+ * warnings for the user's active medications
+ */
+export async function getMedicationReport(email: string, days: number = 30, now: Date = new Date()): Promise<MedicationReport> {
+  const medications = await listMedications(email);
+  const doses = await getDoses(email, { from: new Date(now.getTime() - days * 24 * HOUR_MS), to: now });
+  const scheduled = medications.filter((m) => !m.as_needed);
+
+  const perMedication = scheduled.map((medication) => ({
+    medicationId: medication.id,
+    name: medication.name,
+    ...computeCompliance(doses.filter((d) => d.medication_id === medication.id), medication.missed_after_minutes),
+  }));
+
+  const scheduledIds = new Set(scheduled.map((m) => m.id));
+
+  return {
+    overall: computeCompliance(doses.filter((d) => scheduledIds.has(d.medication_id))),
+    medications: perMedication,
+    refills: medications
+      .map((m) => predictRefill(m, now))
+      .filter((p): p is NonNullable<typeof p> => p !== null),
+    interactions: await getMedicationInteractions(email, medications),
+  };
+}
+
+// ============================================================================
+// SCHEDULED JOB
+// ============================================================================
+
+function formatLocalTime(date: Date, timeZone: string): string {
+  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone });
+}
+
+async function sendDoseReminder(medication: Medication, dose: MedicationDose): Promise<boolean> {
+  const details = [medication.dosage, medication.instructions].filter(Boolean).join(' · ');
+  const result = await NotificationCoordinator.send({
+    userEmail: medication.user_email,
+    sourceService: 'medication_reminders',
+    notificationType: 'medication_reminder',
+    severity: 'high',
+    title: `Time for ${medication.name}`,
+    body: details || 'Tap to log your dose',
+    data: {
+      medication_id: medication.id,
+      medication_log_id: dose.id,
+      actions: 'medication_taken,medication_skipped',
+      action_url: '/medications',
+    },
+    relatedEntityType: 'medication_dose',
+    relatedEntityId: dose.id,
+    // The user asked for this reminder at this time
+    bypassLimits: true,
+  });
+  return result.success;
+}
+
+async function sendRefillReminder(medication: Medication, runOutDate: string): Promise<boolean> {
+  const result = await NotificationCoordinator.send({
+    userEmail: medication.user_email,
+    sourceService: 'medication_reminders',
+    notificationType: 'medication_refill',
+    severity: 'medium',
+    title: `${medication.name} is running low`,
+    body: `At your current schedule you'll run out around ${runOutDate}. Time to order a refill.`,
+    data: { medication_id: medication.id, action_url: '/medications' },
+    relatedEntityType: 'medication',
+    relatedEntityId: medication.id,
+  });
+  return result.success;
+}
+
+/**
+ * Alert the user's caregivers about a missed dose of a critical medication.
+ * Returns false when the user shares with no one.
+ */
+async function alertCaregiversOfMissedDose(medication: Medication, dose: MedicationDose, timeZone: string): Promise<boolean> {
+  const supabase = createAdminClient();
+  const { count } = await supabase
+    .from('share_relationships')
+    .select('id', { count: 'exact', head: true })
+    .eq('sharer_email', medication.user_email)
+    .eq('status', 'active');
+
+  if (!count) return false;
+
+  const scheduledAt = formatLocalTime(new Date(dose.scheduled_time), timeZone);
+  const context = await contextBuilderService.buildAlertContext(medication.user_email, 'medication_missed');
+
+  await alertRoutingService.createAlert(
+    medication.user_email,
+    'medication_missed',
+    'high',
+    `Missed dose: ${medication.name}`,
+    `${medication.name}${medication.dosage ? ` ${medication.dosage}` : ''} scheduled for ${scheduledAt} hasn't been confirmed.`,
+    context,
+    'Check in to make sure the dose was taken.'
+  );
+  return true;
+}
+
+/**
+ * Materialize upcoming doses, send reminders for doses now due, mark doses
+ * missed once their window passes (alerting caregivers for critical
+ * medications) and send refill reminders. Called by the medication-doses
+ * cron every 15 minutes.
+ */
+export async function runMedicationDoseJob(now: Date = new Date()): Promise<MedicationJobSummary> {
+  const summary: MedicationJobSummary = {
+    dosesScheduled: 0,
+    remindersSent: 0,
+    dosesMissed: 0,
+    caregiverAlerts: 0,
+    refillReminders: 0,
+  };
+  const supabase = createAdminClient();
+
+  const { data: rows, error } = await supabase
+    .from('medications')
+    .select('*')
+    .eq('is_active', true);
+
+  if (error) {
+    throw new Error(`Failed to load medications: ${error.message}`);
+  }
+
+  const medications = (rows || []) as Medication[];
+  const byId = new Map(medications.map((m) => [m.id, m]));
+  const timezones = new Map<string, string>();
+
+  const getTimezone = async (email: string): Promise<string> => {
+    let timezone = timezones.get(email);
+    if (!timezone) {
+      timezone = await resolveTimezone(email, await getDeliveryPreferences(email));
+      timezones.set(email, timezone);
+    }
+    return timezone;
+  };
+
+  // 1. Materialize the next day of doses
+  const horizon = new Date(now.getTime() + SCHEDULE_AHEAD_HOURS * HOUR_MS);
+  for (const medication of medications) {
+    try {
+      const times = expandDoseTimes(medication, now, horizon, await getTimezone(medication.user_email));
+      if (times.length === 0) continue;
+
+      const { data: inserted } = await supabase
+        .from('medication_logs')
+        .upsert(
+          times.map((time) => ({
+            medication_id: medication.id,
+            user_email: medication.user_email,
+            scheduled_time: time.toISOString(),
+          })),
+          { onConflict: 'medication_id,scheduled_time', ignoreDuplicates: true }
+        )
+        .select('id');
+      summary.dosesScheduled += inserted?.length || 0;
+    } catch (err) {
+      logger.error('Failed to schedule doses', err, { medicationId: medication.id });
+    }
+  }
+
+  // 2. Remind about due doses and close out overdue ones
+  if (medications.length === 0) return summary;
+  const { data: openDoses } = await supabase
+    .from('medication_logs')
+    .select('*')
+    .in('medication_id', Array.from(byId.keys()))
+    .eq('status', 'scheduled')
+    .lte('scheduled_time', now.toISOString())
+    .order('scheduled_time', { ascending: true })
+    .limit(500);
+
+  for (const dose of (openDoses || []) as MedicationDose[]) {
+    const medication = byId.get(dose.medication_id);
+    if (!medication) continue;
+
+    try {
+      if (isDoseOverdue(dose, medication.missed_after_minutes, now)) {
+        await supabase
+          .from('medication_logs')
+          .update({ status: 'missed', updated_at: now.toISOString() })
+          .eq('id', dose.id)
+          .eq('status', 'scheduled');
+        summary.dosesMissed++;
+
+        if (medication.is_critical && !dose.alerted_at) {
+          const alerted = await alertCaregiversOfMissedDose(medication, dose, await getTimezone(medication.user_email));
+          await supabase.from('medication_logs').update({ alerted_at: now.toISOString() }).eq('id', dose.id);
+          if (alerted) summary.caregiverAlerts++;
+        }
+      } else if (!dose.reminded_at) {
+        const sent = await sendDoseReminder(medication, dose);
+        await supabase.from('medication_logs').update({ reminded_at: now.toISOString() }).eq('id', dose.id);
+        if (sent) summary.remindersSent++;
+      }
+    } catch (err) {
+      logger.error('Failed to process medication dose', err, { doseId: dose.id });
+    }
+  }
+
+  // 3. Refill reminders, once per refill
+  for (const medication of medications) {
+    const prediction = predictRefill(medication, now);
+    if (!prediction?.needsRefill || medication.refill_reminded_at) continue;
+
+    try {
+      if (await sendRefillReminder(medication, prediction.runOutDate)) {
+        summary.refillReminders++;
+      }
+      await supabase
+        .from('medications')
+        .update({ refill_reminded_at: now.toISOString() })
+        .eq('id', medication.id);
+    } catch (err) {
+      logger.error('Failed to send refill reminder', err, { medicationId: medication.id });
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,172 @@
+/**
+ * Medication–Supplement Interactions
+ *
+ * A small local knowledge base of well-established interactions between
+ * common prescription drugs and supplements. Matching is by keyword on the
+ * medication's brand and generic names and on the supplement name, so
+ * "Coumadin (warfarin)" and "Nordic Naturals Ultimate Omega" pair up.
+ * Warnings are informational; they don't replace a pharmacist's review.
+ *
+ * @module lib/services/medications/interactions
+ */
+
+import type { InteractionSeverity, Medication, MedicationInteraction } from './types';
+
+interface InteractionRule {
+  medications: string[];
+  supplements: string[];
+  severity: InteractionSeverity;
+  effect: string;
+  advice: string;
+}
+
+const ANTICOAGULANTS = ['warfarin', 'coumadin', 'apixaban', 'eliquis', 'rivaroxaban', 'xarelto', 'dabigatran', 'clopidogrel', 'plavix'];
+const SEROTONERGIC = ['sertraline', 'zoloft', 'fluoxetine', 'prozac', 'escitalopram', 'lexapro', 'citalopram', 'paroxetine', 'venlafaxine', 'duloxetine', 'tramadol'];
+const THYROID = ['levothyroxine', 'synthroid', 'liothyronine'];
+const CHELATING_ANTIBIOTICS = ['doxycycline', 'tetracycline', 'minocycline', 'ciprofloxacin', 'levofloxacin', 'moxifloxacin'];
+const BISPHOSPHONATES = ['alendronate', 'fosamax', 'risedronate', 'ibandronate'];
+const POTASSIUM_SPARING = ['lisinopril', 'enalapril', 'ramipril', 'losartan', 'valsartan', 'spironolactone', 'eplerenone'];
+const STATINS = ['atorvastatin', 'lipitor', 'simvastatin', 'rosuvastatin', 'crestor', 'pravastatin'];
+const GLUCOSE_LOWERING = ['metformin', 'insulin', 'glipizide', 'glyburide', 'glimepiride', 'semaglutide'];
+const SEDATIVES = ['zolpidem', 'ambien', 'lorazepam', 'alprazolam', 'diazepam', 'clonazepam', 'trazodone'];
+const ST_JOHNS_WORT_SUBSTRATES = [
+  ...ANTICOAGULANTS, 'oral contraceptive', 'ethinyl estradiol', 'norethindrone', 'cyclosporine', 'tacrolimus', 'digoxin',
+];
+
+const MINERALS = ['calcium', 'magnesium', 'iron', 'zinc'];
+
+const INTERACTION_RULES: InteractionRule[] = [
+  {
+    medications: ANTICOAGULANTS,
+    supplements: ['fish oil', 'omega-3', 'omega 3', 'ultimate omega', 'vitamin e', 'ginkgo', 'turmeric', 'curcumin', 'garlic', 'nattokinase'],
+    severity: 'major',
+    effect: 'Increased bleeding risk',
+    advice: 'Check with your prescriber before combining; watch for unusual bruising or bleeding.',
+  },
+  {
+    medications: ['warfarin', 'coumadin'],
+    supplements: ['vitamin k', 'k2'],
+    severity: 'major',
+    effect: 'Reduces the anticoagulant effect of warfarin',
+    advice: 'Keep vitamin K intake consistent and tell your prescriber before starting or stopping it.',
+  },
+  {
+    medications: SEROTONERGIC,
+    supplements: ["st. john's wort", "st john's wort", 'st johns wort', 'hypericum', '5-htp', 'tryptophan', 'same'],
+    severity: 'major',
+    effect: 'Risk of serotonin syndrome',
+    advice: 'Avoid combining unless your prescriber has approved it.',
+  },
+  {
+    medications: ST_JOHNS_WORT_SUBSTRATES,
+    supplements: ["st. john's wort", "st john's wort", 'st johns wort', 'hypericum'],
+    severity: 'major',
+    effect: "St. John's wort speeds up metabolism of this medication, making it less effective",
+    advice: "Avoid St. John's wort while taking this medication.",
+  },
+  {
+    medications: THYROID,
+    supplements: [...MINERALS, 'multivitamin', 'soy'],
+    severity: 'moderate',
+    effect: 'Reduces absorption of thyroid hormone',
+    advice: 'Take the supplement at least 4 hours apart from your thyroid medication.',
+  },
+  {
+    medications: CHELATING_ANTIBIOTICS,
+    supplements: [...MINERALS, 'multivitamin'],
+    severity: 'moderate',
+    effect: 'Minerals bind the antibiotic and reduce its absorption',
+    advice: 'Take the antibiotic 2 hours before or 6 hours after the supplement.',
+  },
+  {
+    medications: BISPHOSPHONATES,
+    supplements: [...MINERALS, 'multivitamin'],
+    severity: 'moderate',
+    effect: 'Reduces absorption of the bisphosphonate',
+    advice: 'Take the medication first thing with water and wait at least 30 minutes before supplements.',
+  },
+  {
+    medications: POTASSIUM_SPARING,
+    supplements: ['potassium'],
+    severity: 'major',
+    effect: 'Risk of high blood potassium (hyperkalemia)',
+    advice: 'Only take potassium supplements if your prescriber recommends them.',
+  },
+  {
+    medications: STATINS,
+    supplements: ['red yeast rice'],
+    severity: 'major',
+    effect: 'Red yeast rice contains a statin, doubling up the dose',
+    advice: 'Avoid combining with a prescription statin.',
+  },
+  {
+    medications: STATINS,
+    supplements: ['niacin', 'vitamin b3'],
+    severity: 'moderate',
+    effect: 'Higher risk of muscle problems at high niacin doses',
+    advice: 'Ask your prescriber before taking more than 1 g of niacin daily.',
+  },
+  {
+    medications: GLUCOSE_LOWERING,
+    supplements: ['berberine', 'chromium', 'cinnamon', 'alpha-lipoic acid', 'alpha lipoic acid'],
+    severity: 'moderate',
+    effect: 'Additive blood sugar lowering, risk of hypoglycemia',
+    advice: 'Monitor blood glucose closely if combining.',
+  },
+  {
+    medications: SEDATIVES,
+    supplements: ['melatonin', 'valerian', 'kava', 'magnesium glycinate', 'ashwagandha'],
+    severity: 'minor',
+    effect: 'Additive drowsiness',
+    advice: 'Avoid driving until you know how the combination affects you.',
+  },
+];
+
+function includesKeyword(text: string, keywords: string[]): boolean {
+  return keywords.some((keyword) => new RegExp(`(^|[^a-z0-9])${escapeRegExp(keyword)}([^a-z0-9]|$)`).test(text));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Known interactions between the user's medications and supplements, most
+ * severe first. A pair is reported once, with the most severe rule.
+ */
+export function checkMedicationInteractions(
+  medications: Pick<Medication, 'id' | 'name' | 'generic_name'>[],
+  supplements: string[]
+): MedicationInteraction[] {
+  const severityRank: Record<InteractionSeverity, number> = { major: 0, moderate: 1, minor: 2 };
+  const found = new Map<string, MedicationInteraction>();
+
+  for (const medication of medications) {
+    const medicationText = `${medication.name} ${medication.generic_name || ''}`.toLowerCase();
+
+    for (const supplement of supplements) {
+      const supplementText = supplement.toLowerCase();
+
+      for (const rule of INTERACTION_RULES) {
+        if (!includesKeyword(medicationText, rule.medications) || !includesKeyword(supplementText, rule.supplements)) {
+          continue;
+        }
+
+        const key = `${medication.id}:${supplementText}`;
+        const existing = found.get(key);
+        if (!existing || severityRank[rule.severity] < severityRank[existing.severity]) {
+          found.set(key, {
+            medicationId: medication.id,
+            medication: medication.name,
+            supplement,
+            severity: rule.severity,
+            effect: rule.effect,
+            advice: rule.advice,
+          });
+        }
+      }
+    }
+  }
+
+  return [...found.values()].sort((a, b) => severityRank[a.severity] - severityRank[b.severity]);
+}
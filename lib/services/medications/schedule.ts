@@ -0,0 +1,191 @@
+/**
+ * Medication Schedule
+ *
+ * Pure dosing math: expanding a medication's local schedule into dose times,
+ * compliance over logged doses and when the supply runs out. Schedule times
+ * are wall-clock times in the user's timezone, so a 08:00 dose stays at 08:00
+ * across DST changes.
+ *
+ * @module lib/services/medications/schedule
+ */
+
+import type { ComplianceSummary, Medication, MedicationDose, RefillPrediction } from './types';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock time of an instant in a timezone, as if it were UTC
+ */
+function toWallClock(date: Date, timeZone: string): number {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'));
+}
+
+export function isValidScheduleTime(time: string): boolean {
+  return TIME_PATTERN.test(time);
+}
+
+function parseScheduleTime(time: string): number | null {
+  const match = time.match(TIME_PATTERN);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * Local calendar date of an instant, 'YYYY-MM-DD'
+ */
+export function getLocalDate(date: Date, timeZone: string): string {
+  return new Date(toWallClock(date, timeZone)).toISOString().split('T')[0];
+}
+
+/**
+ * The instant a local date and time occurs in a timezone. Times skipped by
+ * a DST jump resolve to the shifted instant.
+ */
+export function zonedTimeToUtc(localDate: string, minutes: number, timeZone: string): Date {
+  const [year, month, day] = localDate.split('-').map(Number);
+  const target = Date.UTC(year, month - 1, day) + minutes * MINUTE_MS;
+
+  let guess = target;
+  for (let i = 0; i < 2; i++) {
+    guess += target - toWallClock(new Date(guess), timeZone);
+  }
+  return new Date(guess);
+}
+
+/**
+ * Scheduled dose times in [from, to), oldest first. As-needed medications
+ * have no schedule.
+ */
+export function expandDoseTimes(
+  medication: Pick<Medication, 'schedule_times' | 'days_of_week' | 'as_needed' | 'start_date' | 'end_date'>,
+  from: Date,
+  to: Date,
+  timeZone: string
+): Date[] {
+  if (medication.as_needed) return [];
+
+  const minutes = medication.schedule_times
+    .map(parseScheduleTime)
+    .filter((m): m is number => m !== null)
+    .sort((a, b) => a - b);
+  if (minutes.length === 0) return [];
+
+  const times: Date[] = [];
+  // Start a day early so doses late on the previous local day are covered
+  let day = new Date(Date.parse(getLocalDate(from, timeZone)) - DAY_MS);
+  const lastDay = Date.parse(getLocalDate(to, timeZone)) + DAY_MS;
+
+  for (; day.getTime() <= lastDay; day = new Date(day.getTime() + DAY_MS)) {
+    const localDate = day.toISOString().split('T')[0];
+
+    if (medication.days_of_week && !medication.days_of_week.includes(day.getUTCDay())) continue;
+    if (medication.start_date && localDate < medication.start_date) continue;
+    if (medication.end_date && localDate > medication.end_date) continue;
+
+    for (const m of minutes) {
+      const time = zonedTimeToUtc(localDate, m, timeZone);
+      if (time >= from && time < to) {
+        times.push(time);
+      }
+    }
+  }
+
+  return times;
+}
+
+/**
+ * A scheduled dose still untaken once its missed window has passed
+ */
+export function isDoseOverdue(
+  dose: Pick<MedicationDose, 'status' | 'scheduled_time'>,
+  missedAfterMinutes: number,
+  now: Date
+): boolean {
+  return dose.status === 'scheduled' &&
+    now.getTime() - new Date(dose.scheduled_time).getTime() >= missedAfterMinutes * MINUTE_MS;
+}
+
+/**
+ * Compliance over doses with an outcome. Doses still inside their window
+ * ('scheduled') don't count yet.
+ */
+export function computeCompliance(
+  doses: Pick<MedicationDose, 'status' | 'scheduled_time' | 'taken_at'>[],
+  onTimeMinutes: number = 60
+): ComplianceSummary {
+  const taken = doses.filter((d) => d.status === 'taken');
+  const skipped = doses.filter((d) => d.status === 'skipped').length;
+  const missed = doses.filter((d) => d.status === 'missed').length;
+  const due = taken.length + skipped + missed;
+
+  const onTime = taken.filter((d) =>
+    d.taken_at &&
+    Math.abs(new Date(d.taken_at).getTime() - new Date(d.scheduled_time).getTime()) <= onTimeMinutes * MINUTE_MS
+  ).length;
+
+  return {
+    due,
+    taken: taken.length,
+    skipped,
+    missed,
+    adherencePct: due > 0 ? Math.round((taken.length / due) * 100) : null,
+    onTimePct: taken.length > 0 ? Math.round((onTime / taken.length) * 100) : null,
+  };
+}
+
+/**
+ * Units taken per day on average, accounting for weekly schedules
+ */
+export function getUnitsPerDay(
+  medication: Pick<Medication, 'schedule_times' | 'days_of_week' | 'as_needed' | 'units_per_dose'>
+): number {
+  if (medication.as_needed) return 0;
+
+  const dosesPerDay = medication.schedule_times.filter(isValidScheduleTime).length *
+    (medication.days_of_week ? medication.days_of_week.length / 7 : 1);
+  return dosesPerDay * medication.units_per_dose;
+}
+
+/**
+ * When the tracked supply runs out at the scheduled rate. Null when supply
+ * isn't tracked or the medication is taken as needed.
+ */
+export function predictRefill(medication: Medication, now: Date = new Date()): RefillPrediction | null {
+  const unitsPerDay = getUnitsPerDay(medication);
+  if (medication.supply_remaining === null || unitsPerDay === 0) return null;
+
+  const daysRemaining = Math.floor((medication.supply_remaining / unitsPerDay) * 10) / 10;
+
+  return {
+    medicationId: medication.id,
+    name: medication.name,
+    supplyRemaining: medication.supply_remaining,
+    unitsPerDay: Math.round(unitsPerDay * 100) / 100,
+    daysRemaining,
+    runOutDate: new Date(now.getTime() + daysRemaining * DAY_MS).toISOString().split('T')[0],
+    needsRefill: daysRemaining <= medication.refill_threshold_days,
+  };
+}
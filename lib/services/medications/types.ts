@@ -0,0 +1,126 @@
+/**
+ * Medication Types
+ *
+ * @module lib/services/medications/types
+ */
+
+export type DoseStatus = 'scheduled' | 'taken' | 'skipped' | 'missed';
+
+/** Where a dose was logged from: a push notification action, the agent or the app */
+export type DoseSource = 'push' | 'agent' | 'app';
+
+export interface Medication {
+  id: string;
+  user_email: string;
+  name: string;
+  generic_name: string | null;
+  dosage: string | null;
+  units_per_dose: number;
+  unit_label: string | null;
+  frequency: string | null;
+  /** Local times, 'HH:MM' */
+  schedule_times: string[];
+  /** 0 = Sunday; null means every day */
+  days_of_week: number[] | null;
+  as_needed: boolean;
+  is_critical: boolean;
+  missed_after_minutes: number;
+  instructions: string | null;
+  supply_remaining: number | null;
+  refill_threshold_days: number;
+  last_refilled_at: string | null;
+  refill_reminded_at: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MedicationInput {
+  name: string;
+  generic_name?: string | null;
+  dosage?: string | null;
+  units_per_dose?: number;
+  unit_label?: string | null;
+  frequency?: string | null;
+  schedule_times?: string[];
+  days_of_week?: number[] | null;
+  as_needed?: boolean;
+  is_critical?: boolean;
+  missed_after_minutes?: number;
+  instructions?: string | null;
+  supply_remaining?: number | null;
+  refill_threshold_days?: number;
+  start_date?: string | null;
+  end_date?: string | null;
+  is_active?: boolean;
+}
+
+/** A row of medication_logs */
+export interface MedicationDose {
+  id: string;
+  medication_id: string;
+  user_email: string;
+  scheduled_time: string;
+  taken_at: string | null;
+  status: DoseStatus;
+  source: DoseSource | null;
+  notes: string | null;
+  reminded_at: string | null;
+  alerted_at: string | null;
+  created_at: string;
+}
+
+export interface ComplianceSummary {
+  /** Doses whose scheduled time has passed */
+  due: number;
+  taken: number;
+  skipped: number;
+  missed: number;
+  /** Taken / due, null with nothing due */
+  adherencePct: number | null;
+  /** Share of taken doses logged within the missed window */
+  onTimePct: number | null;
+}
+
+export interface MedicationCompliance extends ComplianceSummary {
+  medicationId: string;
+  name: string;
+}
+
+export interface RefillPrediction {
+  medicationId: string;
+  name: string;
+  supplyRemaining: number;
+  unitsPerDay: number;
+  daysRemaining: number;
+  runOutDate: string;
+  needsRefill: boolean;
+}
+
+export type InteractionSeverity = 'major' | 'moderate' | 'minor';
+
+export interface MedicationInteraction {
+  medicationId: string;
+  medication: string;
+  supplement: string;
+  severity: InteractionSeverity;
+  effect: string;
+  advice: string;
+}
+
+export interface MedicationReport {
+  overall: ComplianceSummary;
+  medications: MedicationCompliance[];
+  refills: RefillPrediction[];
+  interactions: MedicationInteraction[];
+}
+
+export interface MedicationJobSummary {
+  dosesScheduled: number;
+  remindersSent: number;
+  dosesMissed: number;
+  caregiverAlerts: number;
+  refillReminders: number;
+}
@@ -8,6 +8,7 @@
  */
 
 import { createAdminClient } from '@/lib/supabase/server';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
 import { BotJoinRequest, BotJoinResult, BotWebhookEvent } from './types';
 
 // ============================================================================
@@ -604,7 +605,8 @@ export async function syncUpcomingMeetingsForUser(
 
     // Fetch upcoming meetings from calendar API
     const calendarResponse = await fetch(
-      `${APP_URL}/api/gmail/calendar/events?email=${encodeURIComponent(userEmail)}&days=7`
+      `${APP_URL}/api/gmail/calendar/events?email=${encodeURIComponent(userEmail)}&days=7`,
+      { headers: internalRequestHeaders() }
     );
 
     if (!calendarResponse.ok) {
@@ -28,6 +28,7 @@ export class BloodAgent extends BaseAgent {
         concerns: context.bloodBiomarkers.concerns,
         positives: context.bloodBiomarkers.positives,
         biomarkers: context.bloodBiomarkers.biomarkers,
+        changes: context.bloodBiomarkers.changes,
       };
     }
 
@@ -72,9 +73,13 @@ ${(bloodData?.positives as string[] || []).map(p => `- ${p}`).join('\n') || 'Non
 ### Biomarkers:
 ${biomarkerText}
 
+### Changes Since Previous Panel:
+${(bloodData?.changes as string[] || []).map(c => `- ${c}`).join('\n') || 'No changes recorded'}
+
 ANALYSIS INSTRUCTIONS:
 1. Identify the most impactful biomarker findings
 2. Connect biomarkers to energy, recovery, and performance
+   - Where a biomarker changed since the previous panel, reference the change rather than the snapshot
 3. Suggest targeted nutritional interventions
 4. Recommend specific supplements if appropriate
 5. Indicate when to retest
@@ -6,6 +6,7 @@ import { createAdminClient } from '@/lib/supabase/server';
 import { DataSource, UserContext, UserPreferences, LearnedPattern, PatternType, DeepContentContext, InsightHistoryContext } from './types';
 import { getCombinedDeepAnalysis } from '@/lib/services/deep-content-analyzer';
 import { getUnifiedHealthDaily, UnifiedHealthDaily } from '@/lib/services/unified-data';
+import { getBiomarkerChanges } from '@/lib/services/blood-analyzer/history';
 
 /**
  * Build UserContext by fetching all available data for a user
@@ -241,7 +242,10 @@ export async function buildUserContext(email: string, userId?: string): Promise<
       .maybeSingle();
 
     if (bloodData?.lab_file_analysis) {
-      context.bloodBiomarkers = bloodData.lab_file_analysis;
+      context.bloodBiomarkers = {
+        ...bloodData.lab_file_analysis,
+        changes: await getBiomarkerChanges(email).catch(() => []),
+      };
       availableDataSources.push('blood_biomarkers');
       console.log('[ContextBuilder] Found blood biomarkers');
     }
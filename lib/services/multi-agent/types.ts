@@ -457,6 +457,8 @@ export interface BloodBiomarkers {
     status: string;
     healthImplications?: string;
   }>;
+  /** Changes since the previous panel, e.g. "LDL Cholesterol down 18% since March" */
+  changes?: string[];
 }
 
 export interface SpotifyData {
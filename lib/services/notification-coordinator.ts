@@ -7,12 +7,25 @@
  * - Cross-system awareness and deduplication
  * - Global rate limiting
  * - Context tracking for intelligent notification decisions
+ * - Quiet hours in the user's timezone, deferring instead of dropping
+ * - Digest batching for notifications held back by limits
  *
  * @module lib/services/notification-coordinator
  */
 
 import { createAdminClient } from '@/lib/supabase/server';
 import { sendPushNotification, PushNotificationPayload } from './onesignal-service';
+import {
+  checkDeliveryWindow,
+  getDeliveryPreferences,
+  deferNotification,
+  getDueDeferredNotifications,
+  rescheduleDeferredNotification,
+  completeDeferredNotification,
+  isDeferredNotificationStale,
+  DeferredReleaseSummary,
+  QuietReason,
+} from './delivery-window';
 
 // =============================================================================
 // TYPES
@@ -24,13 +37,26 @@ export type SourceService =
   | 'achievements'
   | 'insights'
   | 'sage_reminders'
-  | 'daily_digest';
+  | 'daily_digest'
+  | 'custom_rules'
+  | 'notification_digest'
+  | 'medication_reminders'
+  | 'appointment_reminders'
+  | 'supplement_replenishment';
 
 export type NotificationSeverity = 'critical' | 'high' | 'medium' | 'low';
 
 export type NotificationChannel = 'push' | 'email' | 'sms' | 'in_app';
 
-export type DeliveryStatus = 'pending' | 'sent' | 'delivered' | 'failed' | 'suppressed';
+export type DeliveryStatus =
+  | 'pending'
+  | 'sent'
+  | 'delivered'
+  | 'failed'
+  | 'suppressed'
+  | 'deferred'
+  | 'batched' // Waiting for the user's notification digest
+  | 'digested'; // Folded into a sent digest
 
 export interface NotificationRequest {
   userEmail: string;
@@ -53,6 +79,9 @@ export interface SendResult {
   notificationId?: string;
   suppressed?: boolean;
   suppressionReason?: string;
+  deferred?: boolean;
+  deliverAt?: Date;
+  batched?: boolean;
 }
 
 export interface NotificationRecord {
@@ -67,9 +96,54 @@ export interface NotificationRecord {
   sentAt: Date | null;
 }
 
+export interface InboxItem {
+  id: string;
+  sourceService: string;
+  notificationType: string;
+  category: string | null;
+  theme: string | null;
+  severity: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  status: DeliveryStatus;
+  suppressionReason: string | null;
+  digestId: string | null;
+  readAt: Date | null;
+  createdAt: Date;
+  sentAt: Date | null;
+}
+
+interface NotificationRow {
+  id: string;
+  source_service: string;
+  notification_type: string;
+  category: string | null;
+  theme: string | null;
+  severity: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown> | null;
+  delivery_status: DeliveryStatus;
+  suppression_reason: string | null;
+  digest_id: string | null;
+  read_at: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+export interface InboxQuery {
+  status?: DeliveryStatus[];
+  unreadOnly?: boolean;
+  page?: number;
+  pageSize?: number;
+}
+
 export interface CanSendResult {
   allowed: boolean;
   reason?: string;
+  /** Set when only the recipient's delivery window is closed */
+  deliverAt?: Date;
 }
 
 // =============================================================================
@@ -87,14 +161,24 @@ const SERVICE_LIMITS: Record<SourceService, number> = {
   insights: 3,
   sage_reminders: 1,
   daily_digest: 1,
+  custom_rules: 2,
+  notification_digest: 1,
+  medication_reminders: 12,
+  appointment_reminders: 4,
+  supplement_replenishment: 3,
 };
 
 // Category saturation limit (max notifications per category per day)
 const CATEGORY_LIMIT = 2;
 
-// Quiet hours (11pm - 7am) - skip medium/low severity during this time
-const QUIET_HOURS_START = 23; // 11 PM
-const QUIET_HOURS_END = 7; // 7 AM
+// Medium/low severity waits for the user's delivery window (see delivery-window)
+const WINDOWED_SEVERITIES: NotificationSeverity[] = ['medium', 'low'];
+
+// Services whose held-back notifications go into the digest (see notification-digest)
+const DIGEST_SOURCES: SourceService[] = ['insights', 'streak_alerts', 'achievements', 'proactive_engagement'];
+
+// Suppression reasons caused by volume rather than duplication
+const DIGESTIBLE_REASONS = ['global_daily_limit_reached', 'service_limit_reached', 'category_saturation'];
 
 // =============================================================================
 // NOTIFICATION COORDINATOR CLASS
@@ -158,8 +242,46 @@ class NotificationCoordinatorClass {
       console.error('[NotificationCoordinator] Error recording notification:', err);
     }
 
+    return this.deliver(request, notificationId);
+  }
+
+  /**
+   * Check limits and dispatch a recorded notification. Notifications that only
+   * fail the delivery window are queued until it opens; `deferredId` is set
+   * when releasing from that queue so a still-closed window reschedules the
+   * entry instead of queueing a copy.
+   */
+  private async deliver(
+    request: NotificationRequest,
+    notificationId: string | undefined,
+    deferredId?: string
+  ): Promise<SendResult> {
+    const {
+      userEmail,
+      sourceService,
+      notificationType,
+      category,
+      theme,
+      severity,
+      title,
+      body,
+      data = {},
+      channel = 'push',
+      relatedEntityType,
+      relatedEntityId,
+      bypassLimits = false,
+    } = request;
+
     // Step 2: Check if we can send (unless bypassing limits)
     if (!bypassLimits) {
+      const digestMode = DIGEST_SOURCES.includes(sourceService)
+        ? (await getDeliveryPreferences(userEmail)).digest.mode
+        : 'off';
+
+      if (digestMode === 'batch_low' && severity === 'low' && notificationId) {
+        return this.batch(notificationId, 'low_priority');
+      }
+
       const canSendResult = await this.canSend({
         userEmail,
         sourceService,
@@ -170,6 +292,53 @@ class NotificationCoordinatorClass {
         relatedEntityId,
       });
 
+      if (!canSendResult.allowed && canSendResult.deliverAt) {
+        const reason = canSendResult.reason as QuietReason;
+        const deliverAt = canSendResult.deliverAt;
+        let queued: string | null | undefined = deferredId;
+        if (deferredId) {
+          await rescheduleDeferredNotification(deferredId, deliverAt, reason);
+        } else {
+          queued = await deferNotification({
+            recipientEmail: userEmail,
+            kind: 'notification',
+            payload: request,
+            reason,
+            deliverAfter: deliverAt,
+            notificationId,
+          });
+        }
+
+        if (queued) {
+          console.log(`[NotificationCoordinator] Deferring notification (${reason}) until ${deliverAt.toISOString()}`);
+
+          if (notificationId) {
+            await this.supabase.rpc('update_notification_status', {
+              p_notification_id: notificationId,
+              p_status: 'deferred',
+              p_suppression_reason: reason,
+            });
+          }
+
+          return {
+            success: false,
+            notificationId,
+            suppressed: false,
+            deferred: true,
+            deliverAt,
+          };
+        }
+      }
+
+      if (
+        !canSendResult.allowed &&
+        digestMode !== 'off' &&
+        notificationId &&
+        DIGESTIBLE_REASONS.some((reason) => canSendResult.reason?.startsWith(reason))
+      ) {
+        return this.batch(notificationId, canSendResult.reason!);
+      }
+
       if (!canSendResult.allowed) {
         console.log(`[NotificationCoordinator] Suppressing notification: ${canSendResult.reason}`);
 
@@ -236,6 +405,65 @@ class NotificationCoordinatorClass {
     };
   }
 
+  /**
+   * Hold a notification for the user's next digest instead of dropping it
+   */
+  private async batch(notificationId: string, reason: string): Promise<SendResult> {
+    console.log(`[NotificationCoordinator] Batching notification for digest: ${reason}`);
+
+    await this.supabase.rpc('update_notification_status', {
+      p_notification_id: notificationId,
+      p_status: 'batched',
+      p_suppression_reason: reason,
+    });
+
+    return {
+      success: false,
+      notificationId,
+      suppressed: false,
+      suppressionReason: reason,
+      batched: true,
+    };
+  }
+
+  // ==========================================================================
+  // DEFERRED DELIVERY
+  // ==========================================================================
+
+  /**
+   * Deliver notifications held for quiet hours whose window has opened.
+   * Daily limits and deduplication are re-checked at release time.
+   */
+  async releaseDeferred(limit: number = 100): Promise<DeferredReleaseSummary> {
+    const summary: DeferredReleaseSummary = { released: 0, rescheduled: 0, expired: 0 };
+    const due = await getDueDeferredNotifications<NotificationRequest>('notification', limit);
+
+    for (const entry of due) {
+      if (isDeferredNotificationStale(entry)) {
+        await completeDeferredNotification(entry.id, 'expired');
+        if (entry.notification_id) {
+          await this.suppress(entry.notification_id, 'deferred_expired');
+        }
+        summary.expired++;
+        continue;
+      }
+
+      const result = await this.deliver(entry.payload, entry.notification_id || undefined, entry.id);
+      if (result.deferred) {
+        summary.rescheduled++;
+        continue;
+      }
+
+      await completeDeferredNotification(entry.id, 'released');
+      summary.released++;
+    }
+
+    if (due.length > 0) {
+      console.log('[NotificationCoordinator] Released deferred notifications:', summary);
+    }
+    return summary;
+  }
+
   // ==========================================================================
   // PRE-FLIGHT CHECK
   // ==========================================================================
@@ -261,11 +489,11 @@ class NotificationCoordinatorClass {
     // Critical severity bypasses all checks except quiet hours for truly urgent matters
     const isCritical = severity === 'critical';
 
-    // Step 1: Check quiet hours (skip for critical)
-    if (!isCritical && (severity === 'medium' || severity === 'low')) {
-      const hour = new Date().getHours();
-      if (hour >= QUIET_HOURS_START || hour < QUIET_HOURS_END) {
-        return { allowed: false, reason: 'quiet_hours' };
+    // Step 1: Check the user's delivery window (medium/low only)
+    if (WINDOWED_SEVERITIES.includes(severity)) {
+      const window = await checkDeliveryWindow(userEmail);
+      if (!window.open) {
+        return { allowed: false, reason: window.reason, deliverAt: window.nextOpenAt || undefined };
       }
     }
 
@@ -456,6 +684,74 @@ class NotificationCoordinatorClass {
     return !!data;
   }
 
+  /**
+   * In-app inbox: every notification recorded for the user, newest first,
+   * including those batched or folded into digests
+   */
+  async getInbox(
+    userEmail: string,
+    query: InboxQuery = {}
+  ): Promise<{ items: InboxItem[]; total: number; unread: number }> {
+    const { status, unreadOnly = false, page = 1, pageSize = 20 } = query;
+    const offset = (page - 1) * pageSize;
+
+    let request = this.supabase
+      .from('notifications_sent')
+      .select('*', { count: 'exact' })
+      .eq('user_email', userEmail)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + pageSize - 1);
+
+    if (status && status.length > 0) {
+      request = request.in('delivery_status', status);
+    }
+    if (unreadOnly) {
+      request = request.is('read_at', null);
+    }
+
+    const [{ data, count, error }, { count: unread }] = await Promise.all([
+      request,
+      this.supabase
+        .from('notifications_sent')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_email', userEmail)
+        .is('read_at', null),
+    ]);
+
+    if (error) {
+      console.error('[NotificationCoordinator] Error getting inbox:', error);
+      return { items: [], total: 0, unread: 0 };
+    }
+
+    return {
+      items: ((data as NotificationRow[]) || []).map(this.mapInboxItem),
+      total: count || 0,
+      unread: unread || 0,
+    };
+  }
+
+  /**
+   * Mark inbox items read; all unread items when no ids are given
+   */
+  async markInboxRead(userEmail: string, ids?: string[]): Promise<number> {
+    let request = this.supabase
+      .from('notifications_sent')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_email', userEmail)
+      .is('read_at', null);
+
+    if (ids) {
+      request = request.in('id', ids);
+    }
+
+    const { data, error } = await request.select('id');
+    if (error) {
+      console.error('[NotificationCoordinator] Error marking inbox read:', error);
+      return 0;
+    }
+    return (data || []).length;
+  }
+
   /**
    * Suppress a pending notification
    */
@@ -485,6 +781,26 @@ class NotificationCoordinatorClass {
     };
   }
 
+  private mapInboxItem(row: NotificationRow): InboxItem {
+    return {
+      id: row.id,
+      sourceService: row.source_service,
+      notificationType: row.notification_type,
+      category: row.category,
+      theme: row.theme,
+      severity: row.severity,
+      title: row.title,
+      body: row.body,
+      data: row.data || {},
+      status: row.delivery_status,
+      suppressionReason: row.suppression_reason,
+      digestId: row.digest_id,
+      readAt: row.read_at ? new Date(row.read_at) : null,
+      createdAt: new Date(row.created_at),
+      sentAt: row.sent_at ? new Date(row.sent_at) : null,
+    };
+  }
+
   // ==========================================================================
   // STATIC INSTANCE
   // ==========================================================================
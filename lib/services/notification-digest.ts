@@ -0,0 +1,317 @@
+/**
+ * Notification Digest Service
+ *
+ * Folds notifications the coordinator held back ('batched' in
+ * notifications_sent) into one summary per user, sent at the user's digest
+ * hour by push or email. Items are ranked by severity, weighted by how much
+ * the user engages with the matching content category (PreferenceLearner).
+ *
+ * @module lib/services/notification-digest
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import { NotificationCoordinator, NotificationSeverity } from './notification-coordinator';
+import { PreferenceLearner, CategoryPreferences } from './preference-learner';
+import { getDeliveryContext, getLocalTime, DigestChannel } from './delivery-window';
+
+const logger = createLogger('NotificationDigest');
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DigestCandidate {
+  id: string;
+  sourceService: string;
+  notificationType: string;
+  theme: string | null;
+  severity: NotificationSeverity;
+  title: string;
+  body: string;
+  createdAt: string;
+}
+
+export interface RankedDigestItem extends DigestCandidate {
+  score: number;
+}
+
+export interface DigestContent {
+  title: string;
+  body: string;
+}
+
+export interface DigestDeliveryResult {
+  email: string;
+  digestId: string | null;
+  channel: DigestChannel;
+  itemCount: number;
+  sent: boolean;
+  error?: string;
+}
+
+// ============================================================================
+// RANKING
+// ============================================================================
+
+const SEVERITY_WEIGHTS: Record<NotificationSeverity, number> = {
+  critical: 4,
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+// Coordinator themes (see extractTheme) mapped to PreferenceLearner categories
+const THEME_CATEGORIES: Record<string, keyof CategoryPreferences> = {
+  sleep: 'health_insights',
+  recovery: 'health_insights',
+  stress: 'health_insights',
+  nutrition: 'health_insights',
+  exercise: 'fitness',
+  work: 'productivity',
+  social: 'life_advice',
+  music: 'life_advice',
+  achievement: 'self_development',
+  streak: 'self_development',
+  goal: 'self_development',
+};
+
+/** Titles shown in a push digest before "+N more" */
+const DIGEST_PREVIEW_ITEMS = 3;
+
+/** A user gets at most one digest in this many hours */
+const MIN_HOURS_BETWEEN_DIGESTS = 20;
+
+/**
+ * Rank by severity weight scaled by engagement with the item's category.
+ * Neutral engagement (0.5) leaves the severity weight unchanged; ties go to
+ * the most recent item.
+ */
+export function rankDigestItems(items: DigestCandidate[], preferences: CategoryPreferences): RankedDigestItem[] {
+  return items
+    .map((item) => {
+      const category = THEME_CATEGORIES[item.theme || ''] || 'health_insights';
+      const engagement = Math.min(1, Math.max(0, preferences[category] ?? 0.5));
+      const score = SEVERITY_WEIGHTS[item.severity] * (0.5 + engagement);
+      return { ...item, score: Math.round(score * 100) / 100 };
+    })
+    .sort((a, b) => b.score - a.score || b.createdAt.localeCompare(a.createdAt));
+}
+
+export function buildDigestContent(items: RankedDigestItem[]): DigestContent {
+  if (items.length === 1) {
+    return { title: items[0].title, body: items[0].body };
+  }
+
+  const preview = items.slice(0, DIGEST_PREVIEW_ITEMS).map((item) => item.title);
+  const remaining = items.length - preview.length;
+  let body = preview.join(' • ');
+  if (remaining > 0) {
+    body += ` (+${remaining} more)`;
+  }
+
+  return {
+    title: `${items.length} updates you missed today`,
+    body: body.length > 250 ? body.substring(0, 247) + '...' : body,
+  };
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+async function getBatchedNotifications(email: string): Promise<DigestCandidate[]> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('notifications_sent')
+    .select('id, source_service, notification_type, theme, severity, title, body, created_at')
+    .eq('user_email', email)
+    .eq('delivery_status', 'batched')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load batched notifications: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    sourceService: row.source_service,
+    notificationType: row.notification_type,
+    theme: row.theme,
+    severity: row.severity,
+    title: row.title,
+    body: row.body,
+    createdAt: row.created_at,
+  }));
+}
+
+async function sentDigestRecently(email: string): Promise<boolean> {
+  const supabase = createAdminClient();
+  const since = new Date(Date.now() - MIN_HOURS_BETWEEN_DIGESTS * 60 * 60 * 1000);
+  const { data } = await supabase
+    .from('notification_digests')
+    .select('id')
+    .eq('user_email', email)
+    .eq('delivery_status', 'sent')
+    .gte('created_at', since.toISOString())
+    .limit(1);
+
+  return !!data && data.length > 0;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+async function sendDigestEmail(email: string, content: DigestContent, items: RankedDigestItem[]): Promise<boolean> {
+  const sendGridApiKey = process.env.SENDGRID_API_KEY;
+  const fromEmail = process.env.SENDGRID_FROM_EMAIL || 'team@moccet.com';
+
+  if (!sendGridApiKey) {
+    logger.warn('SENDGRID_API_KEY is not configured, skipping digest email', { email });
+    return false;
+  }
+
+  const html = items
+    .map((item) => `<p><strong>${escapeHtml(item.title)}</strong><br/>${escapeHtml(item.body)}</p>`)
+    .join('\n');
+
+  const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${sendGridApiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      personalizations: [{ to: [{ email }], subject: content.title }],
+      from: { email: fromEmail, name: 'moccet' },
+      content: [{ type: 'text/html', value: html }],
+    }),
+  });
+
+  if (!response.ok) {
+    logger.error('Failed to send digest email', new Error(await response.text()), { email });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Fold all of a user's batched notifications into one digest and send it.
+ * Items stay batched for the next run if delivery fails.
+ */
+export async function deliverNotificationDigest(
+  email: string,
+  channel: DigestChannel
+): Promise<DigestDeliveryResult> {
+  const candidates = await getBatchedNotifications(email);
+  if (candidates.length === 0) {
+    return { email, digestId: null, channel, itemCount: 0, sent: false };
+  }
+
+  const { preferences } = await PreferenceLearner.getPreferences(email);
+  const items = rankDigestItems(candidates, preferences);
+  const content = buildDigestContent(items);
+
+  const supabase = createAdminClient();
+  const { data: digest, error } = await supabase
+    .from('notification_digests')
+    .insert({
+      user_email: email,
+      channel,
+      title: content.title,
+      body: content.body,
+      item_count: items.length,
+      items: items.map(({ id, score }) => ({ id, score })),
+    })
+    .select('id')
+    .single();
+
+  if (error || !digest) {
+    throw new Error(`Failed to create digest: ${error?.message}`);
+  }
+
+  let sent = false;
+  if (channel === 'email') {
+    sent = await sendDigestEmail(email, content, items);
+  } else {
+    const result = await NotificationCoordinator.send({
+      userEmail: email,
+      sourceService: 'notification_digest',
+      notificationType: 'notification_digest',
+      severity: 'medium',
+      title: content.title,
+      body: content.body,
+      data: { digest_id: digest.id, item_count: items.length, action_url: '/notifications' },
+      relatedEntityType: 'notification_digest',
+      relatedEntityId: digest.id,
+      // The digest is the overflow path for the limits themselves
+      bypassLimits: true,
+    });
+    sent = result.success;
+  }
+
+  const now = new Date().toISOString();
+  await supabase
+    .from('notification_digests')
+    .update({ delivery_status: sent ? 'sent' : 'failed', sent_at: sent ? now : null })
+    .eq('id', digest.id);
+
+  if (sent) {
+    await supabase
+      .from('notifications_sent')
+      .update({ delivery_status: 'digested', digest_id: digest.id })
+      .in('id', items.map((item) => item.id));
+  }
+
+  logger.info('Notification digest delivered', { email, digestId: digest.id, channel, itemCount: items.length, sent });
+
+  return { email, digestId: digest.id, channel, itemCount: items.length, sent };
+}
+
+/**
+ * Send digests to users with batched notifications whose local digest hour
+ * is now. Called by the notification-digest cron every 15 minutes.
+ */
+export async function runNotificationDigestJob(now: Date = new Date()): Promise<{
+  usersWithBatched: number;
+  results: DigestDeliveryResult[];
+}> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('notifications_sent')
+    .select('user_email')
+    .eq('delivery_status', 'batched');
+
+  if (error) {
+    throw new Error(`Failed to load batched notifications: ${error.message}`);
+  }
+
+  const emails = [...new Set((data || []).map((row) => row.user_email as string))];
+  const results: DigestDeliveryResult[] = [];
+
+  for (const email of emails) {
+    try {
+      const { preferences, timezone } = await getDeliveryContext(email);
+      if (preferences.digest.mode === 'off') continue;
+
+      const localHour = Math.floor(getLocalTime(now, timezone).minutes / 60);
+      if (localHour !== preferences.digest.hour) continue;
+      if (await sentDigestRecently(email)) continue;
+
+      results.push(await deliverNotificationDigest(email, preferences.digest.channel));
+    } catch (err) {
+      logger.error('Failed to deliver notification digest', err, { email });
+      results.push({
+        email,
+        digestId: null,
+        channel: 'push',
+        itemCount: 0,
+        sent: false,
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  }
+
+  return { usersWithBatched: emails.length, results };
+}
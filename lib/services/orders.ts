@@ -6,6 +6,7 @@
 
 import { createClient } from '@supabase/supabase-js';
 import { validateCart, deactivateCart, type Cart, type CartItem } from './cart';
+import type { ProductMatch } from './supplement-matching';
 import { calculateOrderTotal } from '../stripe';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
@@ -30,6 +31,7 @@ export interface Order {
   orderNumber: string;
   userEmail: string;
   planCode: string | null;
+  orderSource: 'checkout' | 'replenishment';
 
   // Pricing
   subtotal: number;
@@ -105,21 +107,7 @@ export async function createOrderFromCart(
     console.log(`[Order Service] Order totals: subtotal=$${subtotal}, shipping=$${shipping}, tax=$${tax}, total=$${total}`);
 
     // Create shipping address record
-    const { data: addressData, error: addressError } = await supabase
-      .from('shipping_addresses')
-      .insert({
-        user_email: userEmail,
-        full_name: shippingAddress.fullName,
-        address_line1: shippingAddress.addressLine1,
-        address_line2: shippingAddress.addressLine2 || null,
-        city: shippingAddress.city,
-        state_province: shippingAddress.stateProvince,
-        postal_code: shippingAddress.postalCode,
-        country: shippingAddress.country || 'US',
-        phone: shippingAddress.phone || null,
-      })
-      .select()
-      .single();
+    const { data: addressData, error: addressError } = await insertShippingAddress(userEmail, shippingAddress);
 
     if (addressError || !addressData) {
       console.error('[Order Service] Error creating shipping address:', addressError);
@@ -221,6 +209,112 @@ export async function createOrderFromCart(
   }
 }
 
+/**
+ * Creates a paid order for a replenishment shipment. Unlike checkout orders
+ * these don't come from a cart: the items are the due subscriptions and the
+ * payment was already taken off-session.
+ */
+export async function createReplenishmentOrder(
+  userEmail: string,
+  items: Array<{ product: ProductMatch; quantity: number }>,
+  shippingAddress: ShippingAddress,
+  stripePaymentIntentId: string,
+  stripeChargeId?: string | null
+): Promise<{ order: Order | null; error: string | null }> {
+  try {
+    console.log(`[Order Service] Creating replenishment order for ${userEmail}`);
+
+    const itemsSubtotal = items.reduce((sum, item) => sum + item.product.retailPrice * item.quantity, 0);
+    const { subtotal, shipping, tax, total } = calculateOrderTotal(itemsSubtotal);
+
+    const { data: addressData, error: addressError } = await insertShippingAddress(userEmail, shippingAddress);
+
+    if (addressError || !addressData) {
+      console.error('[Order Service] Error creating shipping address:', addressError);
+      return {
+        order: null,
+        error: 'Failed to save shipping address',
+      };
+    }
+
+    const { data: orderData, error: orderError } = await supabase
+      .from('orders')
+      .insert({
+        user_email: userEmail,
+        order_source: 'replenishment',
+        subtotal,
+        shipping_cost: shipping,
+        tax_amount: tax,
+        total_amount: total,
+        payment_method: 'stripe',
+        payment_status: 'paid',
+        stripe_payment_intent_id: stripePaymentIntentId,
+        stripe_charge_id: stripeChargeId || null,
+        paid_at: new Date().toISOString(),
+        fulfillment_status: 'pending',
+      })
+      .select()
+      .single();
+
+    if (orderError || !orderData) {
+      console.error('[Order Service] Error creating order:', orderError);
+      return {
+        order: null,
+        error: 'Failed to create order',
+      };
+    }
+
+    await supabase
+      .from('shipping_addresses')
+      .update({ order_id: orderData.id })
+      .eq('id', addressData.id);
+
+    const orderItems = items.map(({ product, quantity }) => ({
+      order_id: orderData.id,
+      product_id: product.productId,
+      product_sku: product.sku,
+      product_name: product.name,
+      product_brand: product.brand,
+      quantity,
+      unit_price: product.retailPrice,
+      line_total: Math.round(product.retailPrice * quantity * 100) / 100,
+    }));
+
+    const { error: itemsError } = await supabase
+      .from('order_items')
+      .insert(orderItems);
+
+    if (itemsError) {
+      // The payment has been taken, so keep the order for manual fulfillment
+      console.error('[Order Service] Error creating replenishment order items:', itemsError);
+      await supabase
+        .from('orders')
+        .update({ notes: `Replenishment items failed to save: ${itemsError.message}` })
+        .eq('id', orderData.id);
+    }
+
+    const { order, error: fetchError } = await getOrder(orderData.id);
+
+    if (fetchError || !order) {
+      console.error('[Order Service] Error fetching created order:', fetchError);
+      return {
+        order: null,
+        error: 'Order created but failed to fetch',
+      };
+    }
+
+    console.log(`[Order Service] ✅ Replenishment order ${order.orderNumber} created`);
+
+    return { order, error: null };
+  } catch (error) {
+    console.error('[Order Service] Error:', error);
+    return {
+      order: null,
+      error: error instanceof Error ? error.message : 'Failed to create order',
+    };
+  }
+}
+
 /**
  * Gets an order by ID
  */
@@ -250,6 +344,34 @@ export async function getOrder(
   }
 }
 
+/**
+ * Gets the order paid for by a Stripe payment intent
+ */
+export async function getOrderByPaymentIntent(
+  stripePaymentIntentId: string
+): Promise<{ order: Order | null; error: string | null }> {
+  try {
+    const { data, error } = await supabase
+      .from('orders')
+      .select(`
+        *,
+        order_items (*),
+        shipping_addresses (*)
+      `)
+      .eq('stripe_payment_intent_id', stripePaymentIntentId)
+      .maybeSingle();
+
+    if (error) {
+      return { order: null, error: error.message };
+    }
+
+    return { order: data ? transformToOrder(data) : null, error: null };
+  } catch (error) {
+    console.error('[Order Service] Error:', error);
+    return { order: null, error: 'Failed to get order' };
+  }
+}
+
 /**
  * Gets an order by order number
  */
@@ -446,6 +568,27 @@ export async function cancelOrder(
   }
 }
 
+/**
+ * Saves the shipping address for an order
+ */
+function insertShippingAddress(userEmail: string, shippingAddress: ShippingAddress) {
+  return supabase
+    .from('shipping_addresses')
+    .insert({
+      user_email: userEmail,
+      full_name: shippingAddress.fullName,
+      address_line1: shippingAddress.addressLine1,
+      address_line2: shippingAddress.addressLine2 || null,
+      city: shippingAddress.city,
+      state_province: shippingAddress.stateProvince,
+      postal_code: shippingAddress.postalCode,
+      country: shippingAddress.country || 'US',
+      phone: shippingAddress.phone || null,
+    })
+    .select()
+    .single();
+}
+
 /**
  * Helper function to transform database order to Order type
  */
@@ -484,6 +627,7 @@ function transformToOrder(dbOrder: any): Order {
     orderNumber: dbOrder.order_number,
     userEmail: dbOrder.user_email,
     planCode: dbOrder.plan_code,
+    orderSource: dbOrder.order_source || 'checkout',
 
     subtotal: parseFloat(dbOrder.subtotal),
     shippingCost: parseFloat(dbOrder.shipping_cost),
@@ -0,0 +1,26 @@
+/**
+ * Provider Directory Errors
+ *
+ * @module lib/services/provider-directory/errors
+ */
+
+import { BookingErrorReason } from './types';
+
+/**
+ * A booking or cancellation the directory refused, as opposed to a failure
+ * reaching it. Routes answer these with a 4xx.
+ */
+export class BookingError extends Error {
+  constructor(
+    public readonly reason: BookingErrorReason,
+    message: string
+  ) {
+    super(message);
+    this.name = 'BookingError';
+  }
+
+  /** HTTP status a route should answer with */
+  get status(): number {
+    return this.reason === 'provider_not_found' || this.reason === 'appointment_not_found' ? 404 : 409;
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * FHIR Scheduling Client
+ *
+ * Books through an FHIR R4 server's Scheduling resources: free Slots are
+ * searched through their Schedule's practitioner, booked by creating an
+ * Appointment that references the Slot, and cancelled by updating the
+ * Appointment's status. Practitioners are matched to directory providers by
+ * NPI identifier.
+ *
+ * @see https://hl7.org/fhir/R4/scheduling.html
+ * @module lib/services/provider-directory/fhir-scheduling-client
+ */
+
+import type { FhirAppointment, FhirBundle, FhirPractitioner, FhirSlot } from '../fhir/types';
+import { BookingError } from './errors';
+import { AppointmentSlot, BookedSlot, BookingRequest } from './types';
+
+export const NPI_IDENTIFIER_SYSTEM = 'http://hl7.org/fhir/sid/us-npi';
+
+const FHIR_TIMEOUT_MS = 15000;
+
+/** Most slots fetched per search */
+const SLOT_PAGE_SIZE = 100;
+
+export function slotFromFhir(slot: FhirSlot, providerId: string): AppointmentSlot | null {
+  if (!slot.id || slot.status !== 'free') return null;
+  return {
+    id: slot.id,
+    providerId,
+    start: new Date(slot.start).toISOString(),
+    end: new Date(slot.end).toISOString(),
+    appointmentType: slot.appointmentType?.coding?.[0]?.code ?? slot.appointmentType?.text ?? null,
+  };
+}
+
+/**
+ * Appointment to create for a slot. The patient is identified by contact
+ * details since they have no Patient resource on the provider's server.
+ */
+export function buildAppointmentResource(
+  slot: AppointmentSlot,
+  practitionerId: string,
+  request: BookingRequest
+): FhirAppointment {
+  return {
+    resourceType: 'Appointment',
+    status: 'booked',
+    appointmentType: { text: request.appointmentType },
+    description: request.reason,
+    start: slot.start,
+    end: slot.end,
+    slot: [{ reference: `Slot/${slot.id}` }],
+    comment: `Booked for ${request.patientEmail}`,
+    participant: [
+      {
+        actor: { reference: `Practitioner/${practitionerId}` },
+        required: 'required',
+        status: 'needs-action',
+      },
+      {
+        actor: { display: request.patientName || request.patientEmail },
+        required: 'required',
+        status: 'accepted',
+      },
+    ],
+  };
+}
+
+/**
+ * Our status for an Appointment the server returned. Servers that need staff
+ * to approve requests answer with 'proposed' or 'pending'.
+ */
+export function bookedSlotFromFhir(appointment: FhirAppointment, slot: AppointmentSlot): BookedSlot {
+  if (!appointment.id) {
+    throw new Error('FHIR server did not return an appointment id');
+  }
+  if (appointment.status === 'cancelled' || appointment.status === 'entered-in-error') {
+    throw new BookingError('slot_unavailable', 'Provider declined the appointment');
+  }
+
+  return {
+    externalId: appointment.id,
+    start: appointment.start || slot.start,
+    end: appointment.end || slot.end,
+    status: appointment.status === 'booked' ? 'confirmed' : 'pending',
+  };
+}
+
+function bundleResources<T>(bundle: FhirBundle, resourceType: string): T[] {
+  return (bundle.entry || [])
+    .map((e) => e.resource)
+    .filter((r) => r?.resourceType === resourceType) as T[];
+}
+
+export class FhirSchedulingClient {
+  constructor(
+    private baseUrl: string,
+    private accessToken?: string
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  /** FHIR id of the Practitioner with this NPI, if the server knows them */
+  async findPractitionerByNpi(npi: string): Promise<string | null> {
+    const bundle = await this.request<FhirBundle>(
+      `Practitioner?identifier=${encodeURIComponent(`${NPI_IDENTIFIER_SYSTEM}|${npi}`)}`
+    );
+    return bundleResources<FhirPractitioner>(bundle, 'Practitioner')[0]?.id ?? null;
+  }
+
+  async findFreeSlots(practitionerId: string, from: Date, to: Date): Promise<FhirSlot[]> {
+    const params = new URLSearchParams({
+      'schedule.actor': `Practitioner/${practitionerId}`,
+      status: 'free',
+      _count: String(SLOT_PAGE_SIZE),
+      _sort: 'start',
+    });
+    params.append('start', `ge${from.toISOString()}`);
+    params.append('start', `lt${to.toISOString()}`);
+
+    const bundle = await this.request<FhirBundle>(`Slot?${params.toString()}`);
+    return bundleResources<FhirSlot>(bundle, 'Slot');
+  }
+
+  async createAppointment(appointment: FhirAppointment): Promise<FhirAppointment> {
+    return this.request<FhirAppointment>('Appointment', {
+      method: 'POST',
+      body: JSON.stringify(appointment),
+    });
+  }
+
+  async cancelAppointment(appointmentId: string, reason?: string): Promise<void> {
+    const current = await this.request<FhirAppointment>(`Appointment/${encodeURIComponent(appointmentId)}`);
+    if (current.status === 'cancelled') return;
+
+    await this.request<FhirAppointment>(`Appointment/${encodeURIComponent(appointmentId)}`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        ...current,
+        status: 'cancelled',
+        cancelationReason: reason ? { text: reason } : undefined,
+      }),
+    });
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const headers: Record<string, string> = {
+      Accept: 'application/fhir+json',
+    };
+    if (init.body) {
+      headers['Content-Type'] = 'application/fhir+json';
+    }
+    if (this.accessToken) {
+      headers.Authorization = `Bearer ${this.accessToken}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/${path}`, {
+      ...init,
+      headers,
+      signal: AbortSignal.timeout(FHIR_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      // 409/412 on create means someone else took the slot
+      if (response.status === 409 || response.status === 412) {
+        throw new BookingError('slot_unavailable', 'Slot is no longer available');
+      }
+      throw new Error(`FHIR scheduling error: ${response.status}`);
+    }
+
+    return response.json() as Promise<T>;
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Fixture Provider Directory
+ *
+ * In-memory providers with a generated weekday schedule, used in tests and
+ * local development. Bookings are kept in memory so tests can assert on them.
+ *
+ * @module lib/services/provider-directory/fixture-backend
+ */
+
+import { BookingError } from './errors';
+import { matchesProviderSearch, rankProviders } from './search';
+import {
+  AppointmentSlot,
+  BookedSlot,
+  BookingRequest,
+  DirectoryProvider,
+  ProviderDirectoryBackend,
+  ProviderSearchQuery,
+  SlotRange,
+} from './types';
+
+export interface FixtureBooking extends BookedSlot {
+  providerId: string;
+  slotId: string;
+  request: BookingRequest;
+  cancelled: boolean;
+  cancellationReason?: string;
+}
+
+/** Hours (UTC) fixture providers have a 30-minute slot at, Monday to Friday */
+const FIXTURE_SLOT_HOURS = [9, 10, 11, 14, 15, 16];
+
+const SLOT_MINUTES = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const FIXTURE_PROVIDERS: DirectoryProvider[] = [
+  {
+    id: 'fixture_pcp_1',
+    npi: '1000000001',
+    name: 'Bayview Primary Care',
+    credential: 'MD',
+    specialty: 'Primary Care',
+    location: { address: '100 Market St', city: 'San Francisco', state: 'CA', postalCode: '94105' },
+    phone: '4155550100',
+    acceptsInsurance: ['Aetna', 'Blue Cross', 'United', 'Cigna'],
+    appointmentTypes: ['checkup', 'consultation', 'follow_up'],
+    rating: 4.8,
+    bookable: true,
+  },
+  {
+    id: 'fixture_endo_1',
+    npi: '1000000002',
+    name: 'Mission Endocrinology Group',
+    credential: 'MD',
+    specialty: 'Endocrinology',
+    location: { address: '200 Valencia St', city: 'San Francisco', state: 'CA', postalCode: '94110' },
+    phone: '4155550101',
+    acceptsInsurance: ['Aetna', 'Blue Cross', 'Kaiser'],
+    appointmentTypes: ['consultation', 'thyroid', 'diabetes', 'hormone'],
+    rating: 4.9,
+    bookable: true,
+  },
+  {
+    id: 'fixture_derm_1',
+    npi: '1000000003',
+    name: 'Lakeshore Dermatology',
+    credential: 'MD',
+    specialty: 'Dermatology',
+    location: { address: '300 Grand Ave', city: 'Oakland', state: 'CA', postalCode: '94610' },
+    phone: '5105550102',
+    acceptsInsurance: null,
+    appointmentTypes: ['skin_check', 'consultation', 'follow_up'],
+    rating: 4.7,
+    bookable: true,
+  },
+  {
+    id: 'fixture_lab_1',
+    npi: '1000000004',
+    name: 'Downtown Diagnostic Lab',
+    credential: null,
+    specialty: 'Laboratory',
+    location: { address: '400 Howard St', city: 'San Francisco', state: 'CA', postalCode: '94105' },
+    phone: '4155550103',
+    acceptsInsurance: ['Aetna', 'Blue Cross', 'United', 'Cigna', 'Kaiser'],
+    appointmentTypes: ['blood_test', 'lab_work'],
+    rating: 4.3,
+    bookable: false,
+  },
+];
+
+export class FixtureProviderDirectory implements ProviderDirectoryBackend {
+  readonly name = 'fixture' as const;
+  readonly bookings: FixtureBooking[] = [];
+  private counter = 0;
+
+  constructor(private providers: DirectoryProvider[] = FIXTURE_PROVIDERS) {}
+
+  async searchProviders(query: ProviderSearchQuery): Promise<DirectoryProvider[]> {
+    const results = rankProviders(this.providers.filter((p) => matchesProviderSearch(p, query)));
+    return query.limit ? results.slice(0, query.limit) : results;
+  }
+
+  async getProvider(providerId: string): Promise<DirectoryProvider | null> {
+    return this.providers.find((p) => p.id === providerId) || null;
+  }
+
+  async findSlots(provider: DirectoryProvider, range: SlotRange): Promise<AppointmentSlot[]> {
+    if (!provider.bookable) return [];
+
+    const slots: AppointmentSlot[] = [];
+    const day = new Date(range.from);
+    day.setUTCHours(0, 0, 0, 0);
+
+    for (; day <= range.to; day.setTime(day.getTime() + DAY_MS)) {
+      const weekday = day.getUTCDay();
+      if (weekday === 0 || weekday === 6) continue;
+
+      for (const hour of FIXTURE_SLOT_HOURS) {
+        const start = new Date(day.getTime() + hour * 60 * 60 * 1000);
+        if (start < range.from || start > range.to) continue;
+
+        const id = `${provider.id}_${start.toISOString()}`;
+        if (this.isTaken(id)) continue;
+
+        slots.push({
+          id,
+          providerId: provider.id,
+          start: start.toISOString(),
+          end: new Date(start.getTime() + SLOT_MINUTES * 60 * 1000).toISOString(),
+          appointmentType: range.appointmentType ?? null,
+        });
+      }
+    }
+
+    return slots;
+  }
+
+  async bookSlot(provider: DirectoryProvider, slot: AppointmentSlot, request: BookingRequest): Promise<BookedSlot> {
+    if (this.isTaken(slot.id)) {
+      throw new BookingError('slot_unavailable', 'Slot is no longer available');
+    }
+
+    this.counter++;
+    const booking: FixtureBooking = {
+      externalId: `fixture_appt_${this.counter}`,
+      start: slot.start,
+      end: slot.end,
+      status: 'confirmed',
+      providerId: provider.id,
+      slotId: slot.id,
+      request,
+      cancelled: false,
+    };
+    this.bookings.push(booking);
+
+    const { externalId, start, end, status } = booking;
+    return { externalId, start, end, status };
+  }
+
+  async cancelBooking(externalId: string, reason?: string): Promise<void> {
+    const booking = this.bookings.find((b) => b.externalId === externalId);
+    if (!booking) {
+      throw new BookingError('appointment_not_found', `Unknown appointment: ${externalId}`);
+    }
+    booking.cancelled = true;
+    booking.cancellationReason = reason;
+  }
+
+  reset(): void {
+    this.bookings.length = 0;
+    this.counter = 0;
+  }
+
+  private isTaken(slotId: string): boolean {
+    return this.bookings.some((b) => b.slotId === slotId && !b.cancelled);
+  }
+}
@@ -0,0 +1,499 @@
+/**
+ * Provider Directory
+ *
+ * Finding healthcare providers and booking appointments with them, behind
+ * the booking agent tools, the MCP booking tools and the appointments API.
+ *
+ * The directory backend is pluggable: the registry backend searches
+ * providers imported from the NPI registry and books through an FHIR
+ * Scheduling server (FHIR_SCHEDULING_BASE_URL); the fixture backend serves
+ * in-memory providers for tests and local development.
+ *
+ * Booked appointments are kept in user_appointments, added to the user's
+ * Google Calendar through the calendar tools, and reminded through
+ * NotificationCoordinator by the appointment-reminders cron.
+ *
+ * @module lib/services/provider-directory
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import { createCalendarEventTool, deleteCalendarEventTool } from '@/lib/agents/tools/calendar';
+import { NotificationCoordinator } from '../notification-coordinator';
+import { getDeliveryPreferences, resolveTimezone } from '../delivery-window';
+import { BookingError } from './errors';
+import { FhirSchedulingClient } from './fhir-scheduling-client';
+import { FixtureProviderDirectory } from './fixture-backend';
+import { RegistryProviderDirectory } from './registry-backend';
+import { formatProviderLocation } from './search';
+import { getDueAppointmentReminder, pickSlot } from './scheduling';
+import {
+  Appointment,
+  AppointmentReminderJobSummary,
+  AppointmentReminderStage,
+  AppointmentSlot,
+  BookAppointmentInput,
+  BookAppointmentResult,
+  DirectoryProvider,
+  ProviderDirectoryBackend,
+  ProviderSearchQuery,
+} from './types';
+
+export * from './types';
+export { BookingError } from './errors';
+export { FixtureProviderDirectory, FIXTURE_PROVIDERS } from './fixture-backend';
+export type { FixtureBooking } from './fixture-backend';
+export { RegistryProviderDirectory } from './registry-backend';
+export {
+  FhirSchedulingClient,
+  bookedSlotFromFhir,
+  buildAppointmentResource,
+  slotFromFhir,
+} from './fhir-scheduling-client';
+export { buildNpiSearchParams, fetchNpiProviders, importNpiProviders, mapNpiResult } from './npi-importer';
+export type { NpiResult, NpiProviderRow } from './npi-importer';
+export {
+  formatProviderLocation,
+  isInNetwork,
+  matchesProviderSearch,
+  parseLocationQuery,
+  rankProviders,
+} from './search';
+export { APPOINTMENT_REMINDER_HOURS, getDueAppointmentReminder, pickSlot } from './scheduling';
+
+const logger = createLogger('ProviderDirectory');
+
+/** How far ahead slots are searched when booking and for next availability */
+const SLOT_SEARCH_DAYS = 60;
+
+/** Appointments the reminder job looks at, by hours until they start */
+const REMINDER_LOOKAHEAD_HOURS = 25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let directory: ProviderDirectoryBackend | null = null;
+
+/**
+ * Backend chosen by PROVIDER_DIRECTORY_BACKEND ('registry' | 'fixture').
+ * Without it, the registry is used, booking through the FHIR scheduling
+ * server when one is configured. The fixture is only the default under test.
+ */
+export function getProviderDirectory(): ProviderDirectoryBackend {
+  if (!directory) {
+    const schedulingUrl = process.env.FHIR_SCHEDULING_BASE_URL;
+    const configured = process.env.PROVIDER_DIRECTORY_BACKEND || (process.env.NODE_ENV === 'test' ? 'fixture' : 'registry');
+
+    if (configured === 'fixture') {
+      logger.warn('Using fixture provider directory, providers and bookings are not real');
+      directory = new FixtureProviderDirectory();
+    } else {
+      directory = new RegistryProviderDirectory(
+        schedulingUrl ? new FhirSchedulingClient(schedulingUrl, process.env.FHIR_SCHEDULING_ACCESS_TOKEN) : null
+      );
+    }
+  }
+  return directory;
+}
+
+/**
+ * Override the backend, e.g. with a FixtureProviderDirectory in tests. Pass
+ * null to go back to the configured one.
+ */
+export function setProviderDirectory(override: ProviderDirectoryBackend | null): void {
+  directory = override;
+}
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+export interface ProviderSearchResult extends DirectoryProvider {
+  /** Earliest free slot, for providers that take online bookings */
+  nextAvailable: string | null;
+}
+
+/**
+ * Search the directory. With `availableWithinDays`, only providers with a
+ * free slot in that window are returned.
+ */
+export async function searchProviders(
+  query: ProviderSearchQuery & { availableWithinDays?: number },
+  now: Date = new Date()
+): Promise<ProviderSearchResult[]> {
+  const backend = getProviderDirectory();
+  const providers = await backend.searchProviders(query);
+  const days = query.availableWithinDays ?? SLOT_SEARCH_DAYS;
+
+  const results = await Promise.all(providers.map(async (provider) => {
+    let nextAvailable: string | null = null;
+    if (provider.bookable) {
+      try {
+        const slots = await backend.findSlots(provider, {
+          from: now,
+          to: new Date(now.getTime() + days * DAY_MS),
+          appointmentType: query.appointmentType,
+        });
+        nextAvailable = slots[0]?.start ?? null;
+      } catch (error) {
+        logger.warn('Could not fetch provider availability', { providerId: provider.id, error: String(error) });
+      }
+    }
+    return { ...provider, nextAvailable };
+  }));
+
+  return query.availableWithinDays !== undefined
+    ? results.filter((r) => r.nextAvailable !== null)
+    : results;
+}
+
+export async function getProvider(providerId: string): Promise<DirectoryProvider | null> {
+  return getProviderDirectory().getProvider(providerId);
+}
+
+/**
+ * Free slots for a provider, or null when the provider isn't in the directory
+ */
+export async function findProviderSlots(
+  providerId: string,
+  range: { from: Date; to: Date; appointmentType?: string }
+): Promise<{ provider: DirectoryProvider; slots: AppointmentSlot[] } | null> {
+  const backend = getProviderDirectory();
+  const provider = await backend.getProvider(providerId);
+  if (!provider) return null;
+
+  return { provider, slots: await backend.findSlots(provider, range) };
+}
+
+// ============================================================================
+// APPOINTMENTS
+// ============================================================================
+
+export async function listAppointments(
+  email: string,
+  options: { upcoming?: boolean; includeCancelled?: boolean } = {},
+  now: Date = new Date()
+): Promise<Appointment[]> {
+  const supabase = createAdminClient();
+  let query = supabase
+    .from('user_appointments')
+    .select('*')
+    .eq('user_email', email)
+    .order('scheduled_at', { ascending: true });
+
+  if (options.upcoming) {
+    query = query.gte('scheduled_at', now.toISOString());
+  }
+  if (!options.includeCancelled) {
+    query = query.neq('status', 'cancelled');
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to list appointments: ${error.message}`);
+  }
+  return (data || []) as Appointment[];
+}
+
+export async function getAppointment(email: string, id: string): Promise<Appointment | null> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('user_appointments')
+    .select('*')
+    .eq('id', id)
+    .eq('user_email', email)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch appointment: ${error.message}`);
+  }
+  return data as Appointment | null;
+}
+
+async function getUserTimezone(email: string): Promise<string> {
+  return resolveTimezone(email, await getDeliveryPreferences(email));
+}
+
+/**
+ * Book a slot with a provider, save the appointment and add it to the
+ * user's calendar. Throws BookingError when the provider can't be booked or
+ * the slot is gone.
+ */
+export async function bookAppointment(
+  email: string,
+  input: BookAppointmentInput,
+  now: Date = new Date()
+): Promise<BookAppointmentResult> {
+  const backend = getProviderDirectory();
+
+  const provider = await backend.getProvider(input.providerId);
+  if (!provider) {
+    throw new BookingError('provider_not_found', `Provider not found: ${input.providerId}`);
+  }
+  if (!provider.bookable) {
+    throw new BookingError(
+      'booking_unavailable',
+      `${provider.name} doesn't take online bookings${provider.phone ? `; call ${provider.phone}` : ''}`
+    );
+  }
+
+  const from = input.preferredStart && input.preferredStart > now ? input.preferredStart : now;
+  const slots = await backend.findSlots(provider, {
+    from: input.slotId ? now : from,
+    to: new Date(from.getTime() + SLOT_SEARCH_DAYS * DAY_MS),
+    appointmentType: input.appointmentType,
+  });
+
+  const slot = input.slotId
+    ? slots.find((s) => s.id === input.slotId) || null
+    : pickSlot(slots, from, input.preferredTime || 'any', await getUserTimezone(email));
+
+  if (!slot) {
+    throw input.slotId
+      ? new BookingError('slot_unavailable', 'That time is no longer available')
+      : new BookingError('no_slots', `${provider.name} has no openings that match`);
+  }
+
+  const booked = await backend.bookSlot(provider, slot, {
+    patientEmail: email,
+    appointmentType: input.appointmentType,
+    reason: input.reason,
+  });
+
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('user_appointments')
+    .insert({
+      id: `appt_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+      user_email: email,
+      provider_id: provider.id,
+      provider_name: provider.name,
+      specialty: provider.specialty,
+      appointment_type: input.appointmentType,
+      scheduled_at: booked.start,
+      ends_at: booked.end,
+      location: formatProviderLocation(provider),
+      reason: input.reason ?? null,
+      status: booked.status,
+      directory_backend: backend.name,
+      external_id: booked.externalId,
+      slot_id: slot.id,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Don't leave the provider holding a slot we have no record of
+    await backend.cancelBooking(booked.externalId, 'Booking could not be saved').catch((cancelError) =>
+      logger.error('Failed to release booking after save error', cancelError, { externalId: booked.externalId })
+    );
+    throw new Error(`Failed to save appointment: ${error.message}`);
+  }
+
+  let appointment = data as Appointment;
+  const calendarEventId = await addToCalendar(appointment, provider, input.googleAccessToken);
+  if (calendarEventId) {
+    await supabase
+      .from('user_appointments')
+      .update({ calendar_event_id: calendarEventId })
+      .eq('id', appointment.id);
+    appointment = { ...appointment, calendar_event_id: calendarEventId };
+  }
+
+  logger.info('Appointment booked', { email, providerId: provider.id, appointmentId: appointment.id, status: booked.status });
+  return { appointment, provider, calendarSynced: !!calendarEventId };
+}
+
+/**
+ * Cancel an appointment with the provider, mark it cancelled and remove it
+ * from the user's calendar. Returns null when the user has no such
+ * appointment.
+ */
+export async function cancelAppointment(
+  email: string,
+  id: string,
+  options: { reason?: string; googleAccessToken?: string } = {}
+): Promise<Appointment | null> {
+  const appointment = await getAppointment(email, id);
+  if (!appointment) return null;
+  if (appointment.status === 'cancelled') return appointment;
+
+  const backend = getProviderDirectory();
+  // Appointments booked before the directory, or through another backend,
+  // have nothing to cancel upstream
+  if (appointment.external_id && appointment.directory_backend === backend.name) {
+    await backend.cancelBooking(appointment.external_id, options.reason);
+  }
+
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('user_appointments')
+    .update({
+      status: 'cancelled',
+      cancellation_reason: options.reason ?? null,
+      cancelled_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to cancel appointment: ${error.message}`);
+  }
+
+  if (appointment.calendar_event_id) {
+    await removeFromCalendar(appointment, options.googleAccessToken);
+  }
+
+  logger.info('Appointment cancelled', { email, appointmentId: id });
+  return data as Appointment;
+}
+
+// ============================================================================
+// CALENDAR
+// ============================================================================
+
+async function getGoogleAccessToken(email: string): Promise<string | undefined> {
+  const supabase = createAdminClient();
+  const { data } = await supabase
+    .from('user_oauth_connections')
+    .select('access_token')
+    .eq('user_email', email)
+    .eq('provider', 'google')
+    .maybeSingle();
+
+  return data?.access_token || undefined;
+}
+
+export function formatAppointmentType(type: string): string {
+  const words = type.replace(/_/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Add an appointment to the user's Google Calendar. Returns the event id, or
+ * null when Google isn't connected or the event couldn't be created.
+ */
+async function addToCalendar(
+  appointment: Appointment,
+  provider: DirectoryProvider,
+  googleAccessToken?: string
+): Promise<string | null> {
+  const token = googleAccessToken || await getGoogleAccessToken(appointment.user_email);
+  if (!token) return null;
+
+  const result = await createCalendarEventTool.execute({
+    title: `${formatAppointmentType(appointment.appointment_type)} with ${provider.name}`,
+    description: [
+      appointment.reason ? `Reason: ${appointment.reason}` : null,
+      provider.phone ? `Phone: ${provider.phone}` : null,
+      appointment.status === 'pending' ? 'Awaiting confirmation from the provider.' : null,
+    ].filter(Boolean).join('\n'),
+    startTime: appointment.scheduled_at,
+    endTime: appointment.ends_at || new Date(new Date(appointment.scheduled_at).getTime() + 30 * 60 * 1000).toISOString(),
+    location: appointment.location ?? undefined,
+  }, {
+    userEmail: appointment.user_email,
+    accessTokens: { google: token },
+    supabase: createAdminClient(),
+  });
+
+  if (!result.success) {
+    logger.warn('Could not add appointment to calendar', { appointmentId: appointment.id, error: result.error });
+    return null;
+  }
+  return result.data?.eventId ?? null;
+}
+
+async function removeFromCalendar(appointment: Appointment, googleAccessToken?: string): Promise<void> {
+  const token = googleAccessToken || await getGoogleAccessToken(appointment.user_email);
+  if (!token) return;
+
+  const result = await deleteCalendarEventTool.execute({
+    eventId: appointment.calendar_event_id,
+    reason: 'Appointment cancelled',
+  }, {
+    userEmail: appointment.user_email,
+    accessTokens: { google: token },
+    supabase: createAdminClient(),
+  });
+
+  if (!result.success) {
+    logger.warn('Could not remove appointment from calendar', { appointmentId: appointment.id, error: result.error });
+  }
+}
+
+// ============================================================================
+// SCHEDULED JOB
+// ============================================================================
+
+async function sendAppointmentReminder(appointment: Appointment, stage: AppointmentReminderStage): Promise<boolean> {
+  const timeZone = await getUserTimezone(appointment.user_email);
+  const when = new Date(appointment.scheduled_at).toLocaleString('en-US', {
+    weekday: stage === 'day_before' ? 'long' : undefined,
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone,
+  });
+
+  const result = await NotificationCoordinator.send({
+    userEmail: appointment.user_email,
+    sourceService: 'appointment_reminders',
+    notificationType: 'appointment_reminder',
+    severity: stage === 'two_hours' ? 'high' : 'medium',
+    title: stage === 'day_before'
+      ? `Appointment tomorrow with ${appointment.provider_name}`
+      : `Appointment soon with ${appointment.provider_name}`,
+    body: [
+      `${formatAppointmentType(appointment.appointment_type)} at ${when}`,
+      appointment.location,
+    ].filter(Boolean).join(' · '),
+    data: { appointment_id: appointment.id, reminder: stage },
+    relatedEntityType: 'appointment',
+    relatedEntityId: appointment.id,
+    // The user booked this appointment and expects to be reminded
+    bypassLimits: true,
+  });
+  return result.success;
+}
+
+/**
+ * Send the day-before and two-hour reminders for upcoming appointments.
+ * Run every 15 minutes by the appointment-reminders cron.
+ */
+export async function runAppointmentReminderJob(now: Date = new Date()): Promise<AppointmentReminderJobSummary> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('user_appointments')
+    .select('*')
+    .in('status', ['confirmed', 'pending'])
+    .gt('scheduled_at', now.toISOString())
+    .lte('scheduled_at', new Date(now.getTime() + REMINDER_LOOKAHEAD_HOURS * 60 * 60 * 1000).toISOString());
+
+  if (error) {
+    throw new Error(`Failed to load appointments: ${error.message}`);
+  }
+
+  const appointments = (data || []) as Appointment[];
+  const summary: AppointmentReminderJobSummary = { appointmentsChecked: appointments.length, remindersSent: 0 };
+
+  for (const appointment of appointments) {
+    const stage = getDueAppointmentReminder(appointment, now);
+    if (!stage) continue;
+
+    try {
+      if (await sendAppointmentReminder(appointment, stage)) {
+        summary.remindersSent++;
+      }
+      // Recorded even when the coordinator declines, so it isn't retried every run
+      await supabase
+        .from('user_appointments')
+        .update({ reminders_sent: [...(appointment.reminders_sent || []), stage] })
+        .eq('id', appointment.id);
+    } catch (err) {
+      logger.error('Failed to send appointment reminder', err, { appointmentId: appointment.id, stage });
+    }
+  }
+
+  return summary;
+}
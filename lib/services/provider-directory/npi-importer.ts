@@ -0,0 +1,188 @@
+/**
+ * NPI Registry Importer
+ *
+ * Imports providers from the CMS NPI Registry API
+ * (https://npiregistry.cms.hhs.gov/api-page) into health_providers, which
+ * the registry backend searches. The registry lists who practices what and
+ * where; it has no insurance networks, visit types, ratings or schedules, so
+ * those stay null until another source fills them in.
+ *
+ * @module lib/services/provider-directory/npi-importer
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import { parseLocationQuery } from './search';
+import { ProviderSearchQuery } from './types';
+
+const logger = createLogger('NpiImporter');
+
+const NPI_API_URL = 'https://npiregistry.cms.hhs.gov/api/';
+
+/** Most results the registry returns per request */
+const NPI_MAX_LIMIT = 200;
+
+const NPI_TIMEOUT_MS = 10000;
+
+interface NpiAddress {
+  address_purpose: 'LOCATION' | 'MAILING' | string;
+  address_1?: string;
+  address_2?: string;
+  city?: string;
+  state?: string;
+  postal_code?: string;
+  telephone_number?: string;
+}
+
+interface NpiTaxonomy {
+  code: string;
+  desc: string;
+  primary: boolean;
+}
+
+export interface NpiResult {
+  number: string | number;
+  enumeration_type: 'NPI-1' | 'NPI-2';
+  basic: {
+    first_name?: string;
+    last_name?: string;
+    name_prefix?: string;
+    credential?: string;
+    organization_name?: string;
+    status?: string;
+  };
+  addresses?: NpiAddress[];
+  taxonomies?: NpiTaxonomy[];
+}
+
+/** Row of health_providers as written by the importer */
+export interface NpiProviderRow {
+  npi: string;
+  name: string;
+  credential: string | null;
+  specialty: string;
+  taxonomy_code: string | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  postal_code: string | null;
+  phone: string | null;
+  source: 'npi';
+  imported_at: string;
+}
+
+/** The registry returns names and cities in upper case */
+function titleCase(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/(^|[\s\-'])([a-z])/g, (_m, sep: string, c: string) => sep + c.toUpperCase());
+}
+
+function clean(value: string | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+/**
+ * Query string for a registry search. Specialty is matched against taxonomy
+ * descriptions, which the registry does by prefix.
+ */
+export function buildNpiSearchParams(query: ProviderSearchQuery): URLSearchParams {
+  const params = new URLSearchParams({ version: '2.1' });
+
+  if (query.specialty) {
+    params.set('taxonomy_description', query.specialty);
+  }
+  if (query.location) {
+    const location = parseLocationQuery(query.location);
+    if (location.postalCode) params.set('postal_code', location.postalCode);
+    if (location.city) params.set('city', location.city);
+    if (location.state) params.set('state', location.state);
+  }
+  params.set('limit', String(Math.min(query.limit ?? 50, NPI_MAX_LIMIT)));
+
+  return params;
+}
+
+/**
+ * Registry result as a health_providers row. Returns null for deactivated
+ * NPIs and results without a taxonomy.
+ */
+export function mapNpiResult(result: NpiResult, importedAt: Date = new Date()): NpiProviderRow | null {
+  if (result.basic.status && result.basic.status !== 'A') return null;
+
+  const taxonomy = result.taxonomies?.find((t) => t.primary) || result.taxonomies?.[0];
+  if (!taxonomy) return null;
+
+  const basic = result.basic;
+  const name = result.enumeration_type === 'NPI-2'
+    ? clean(basic.organization_name)
+    : clean([basic.name_prefix, basic.first_name, basic.last_name].filter(Boolean).join(' '));
+  if (!name) return null;
+
+  const address = result.addresses?.find((a) => a.address_purpose === 'LOCATION') || result.addresses?.[0];
+  const street = clean([address?.address_1, address?.address_2].filter(Boolean).join(', '));
+
+  return {
+    npi: String(result.number),
+    name: titleCase(name),
+    credential: clean(basic.credential),
+    specialty: taxonomy.desc,
+    taxonomy_code: taxonomy.code || null,
+    address: street ? titleCase(street) : null,
+    city: address?.city ? titleCase(address.city) : null,
+    state: clean(address?.state),
+    postal_code: address?.postal_code ? address.postal_code.slice(0, 5) : null,
+    phone: address?.telephone_number ? address.telephone_number.replace(/\D/g, '') : null,
+    source: 'npi',
+    imported_at: importedAt.toISOString(),
+  };
+}
+
+/**
+ * Search the registry and map the results
+ */
+export async function fetchNpiProviders(query: ProviderSearchQuery): Promise<NpiProviderRow[]> {
+  const url = `${NPI_API_URL}?${buildNpiSearchParams(query).toString()}`;
+  const response = await fetch(url, { signal: AbortSignal.timeout(NPI_TIMEOUT_MS) });
+
+  if (!response.ok) {
+    throw new Error(`NPI registry error: ${response.status}`);
+  }
+
+  const body = await response.json() as { results?: NpiResult[]; Errors?: Array<{ description: string }> };
+  if (body.Errors?.length) {
+    throw new Error(`NPI registry error: ${body.Errors[0].description}`);
+  }
+
+  const importedAt = new Date();
+  return (body.results || [])
+    .map((r) => mapNpiResult(r, importedAt))
+    .filter((r): r is NpiProviderRow => r !== null);
+}
+
+/**
+ * Import providers matching a search into health_providers. Existing
+ * providers are refreshed; fields the registry doesn't know are left alone.
+ * Returns the number of providers imported.
+ */
+export async function importNpiProviders(query: ProviderSearchQuery): Promise<number> {
+  if (!query.specialty && !query.location) {
+    return 0;
+  }
+
+  const rows = await fetchNpiProviders(query);
+  if (rows.length === 0) return 0;
+
+  const supabase = createAdminClient();
+  const { error } = await supabase
+    .from('health_providers')
+    .upsert(rows, { onConflict: 'npi' });
+
+  if (error) {
+    throw new Error(`Failed to import providers: ${error.message}`);
+  }
+
+  logger.info('Imported providers from NPI registry', { count: rows.length, specialty: query.specialty, location: query.location });
+  return rows.length;
+}
@@ -0,0 +1,222 @@
+/**
+ * Registry Provider Directory
+ *
+ * Searches providers imported from the NPI registry into health_providers,
+ * importing on demand when a search finds nothing locally, and books
+ * through an FHIR Scheduling server when one is configured. Providers the
+ * scheduling server doesn't know can be found but not booked online.
+ *
+ * @module lib/services/provider-directory/registry-backend
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import { BookingError } from './errors';
+import {
+  FhirSchedulingClient,
+  bookedSlotFromFhir,
+  buildAppointmentResource,
+  slotFromFhir,
+} from './fhir-scheduling-client';
+import { importNpiProviders } from './npi-importer';
+import { matchesProviderSearch, parseLocationQuery, rankProviders } from './search';
+import {
+  AppointmentSlot,
+  BookedSlot,
+  BookingRequest,
+  DirectoryProvider,
+  ProviderDirectoryBackend,
+  ProviderSearchQuery,
+  SlotRange,
+} from './types';
+
+const logger = createLogger('RegistryProviderDirectory');
+
+const DEFAULT_SEARCH_LIMIT = 10;
+
+/** How long to trust a "not on the scheduling server" answer */
+const SCHEDULING_RECHECK_DAYS = 7;
+
+interface ProviderRow {
+  id: string;
+  npi: string | null;
+  name: string;
+  credential: string | null;
+  specialty: string;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  postal_code: string | null;
+  phone: string | null;
+  accepts_insurance: string[] | null;
+  appointment_types: string[] | null;
+  rating: number | null;
+  fhir_practitioner_id: string | null;
+  scheduling_checked_at: string | null;
+}
+
+function providerFromRow(row: ProviderRow): DirectoryProvider {
+  return {
+    id: row.id,
+    npi: row.npi,
+    name: row.name,
+    credential: row.credential,
+    specialty: row.specialty,
+    location: {
+      address: row.address,
+      city: row.city,
+      state: row.state,
+      postalCode: row.postal_code,
+    },
+    phone: row.phone,
+    acceptsInsurance: row.accepts_insurance,
+    appointmentTypes: row.appointment_types,
+    rating: row.rating === null ? null : Number(row.rating),
+    bookable: !!row.fhir_practitioner_id,
+  };
+}
+
+export class RegistryProviderDirectory implements ProviderDirectoryBackend {
+  readonly name = 'registry' as const;
+
+  constructor(private scheduling: FhirSchedulingClient | null) {}
+
+  async searchProviders(query: ProviderSearchQuery): Promise<DirectoryProvider[]> {
+    const limit = query.limit ?? DEFAULT_SEARCH_LIMIT;
+
+    let rows = await this.queryProviders(query, limit);
+    if (rows.length === 0) {
+      try {
+        const imported = await importNpiProviders({ ...query, limit: limit * 5 });
+        if (imported > 0) {
+          rows = await this.queryProviders(query, limit);
+        }
+      } catch (error) {
+        logger.error('NPI import failed', error, { specialty: query.specialty, location: query.location });
+      }
+    }
+
+    rows = await this.resolveScheduling(rows);
+
+    const providers = rows.map(providerFromRow).filter((p) => matchesProviderSearch(p, query));
+    return rankProviders(providers).slice(0, limit);
+  }
+
+  async getProvider(providerId: string): Promise<DirectoryProvider | null> {
+    const row = await this.getRow(providerId);
+    if (!row) return null;
+
+    const [resolved] = await this.resolveScheduling([row]);
+    return providerFromRow(resolved);
+  }
+
+  async findSlots(provider: DirectoryProvider, range: SlotRange): Promise<AppointmentSlot[]> {
+    const practitionerId = await this.getPractitionerId(provider);
+    if (!this.scheduling || !practitionerId) return [];
+
+    const slots = await this.scheduling.findFreeSlots(practitionerId, range.from, range.to);
+    return slots
+      .map((s) => slotFromFhir(s, provider.id))
+      .filter((s): s is AppointmentSlot => s !== null)
+      .filter((s) => !range.appointmentType || !s.appointmentType ||
+        s.appointmentType.toLowerCase() === range.appointmentType.toLowerCase());
+  }
+
+  async bookSlot(provider: DirectoryProvider, slot: AppointmentSlot, request: BookingRequest): Promise<BookedSlot> {
+    const practitionerId = await this.getPractitionerId(provider);
+    if (!this.scheduling || !practitionerId) {
+      throw new BookingError('booking_unavailable', `${provider.name} doesn't take online bookings`);
+    }
+
+    const appointment = await this.scheduling.createAppointment(
+      buildAppointmentResource(slot, practitionerId, request)
+    );
+    return bookedSlotFromFhir(appointment, slot);
+  }
+
+  async cancelBooking(externalId: string, reason?: string): Promise<void> {
+    if (!this.scheduling) {
+      throw new BookingError('booking_unavailable', 'Online scheduling is not configured');
+    }
+    await this.scheduling.cancelAppointment(externalId, reason);
+  }
+
+  // ---------------------------------------------------------------------------
+  // STORAGE
+  // ---------------------------------------------------------------------------
+
+  private async queryProviders(query: ProviderSearchQuery, limit: number): Promise<ProviderRow[]> {
+    const supabase = createAdminClient();
+    let request = supabase
+      .from('health_providers')
+      .select('*')
+      .order('rating', { ascending: false, nullsFirst: false })
+      // Insurance and visit types are filtered afterwards, so fetch extra
+      .limit(limit * 5);
+
+    if (query.specialty) {
+      request = request.ilike('specialty', `%${query.specialty}%`);
+    }
+    if (query.location) {
+      const location = parseLocationQuery(query.location);
+      if (location.postalCode) request = request.like('postal_code', `${location.postalCode}%`);
+      if (location.city) request = request.ilike('city', `%${location.city}%`);
+      if (location.state) request = request.eq('state', location.state);
+    }
+
+    const { data, error } = await request;
+    if (error) {
+      throw new Error(`Failed to search providers: ${error.message}`);
+    }
+    return (data || []) as ProviderRow[];
+  }
+
+  private async getRow(providerId: string): Promise<ProviderRow | null> {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase
+      .from('health_providers')
+      .select('*')
+      .eq('id', providerId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch provider: ${error.message}`);
+    }
+    return data as ProviderRow | null;
+  }
+
+  private async getPractitionerId(provider: DirectoryProvider): Promise<string | null> {
+    if (!provider.bookable) return null;
+    const row = await this.getRow(provider.id);
+    return row?.fhir_practitioner_id ?? null;
+  }
+
+  /**
+   * Look up providers on the scheduling server by NPI, at most once a week
+   * for those it doesn't know
+   */
+  private async resolveScheduling(rows: ProviderRow[]): Promise<ProviderRow[]> {
+    if (!this.scheduling) return rows;
+
+    const recheckBefore = Date.now() - SCHEDULING_RECHECK_DAYS * 24 * 60 * 60 * 1000;
+    const supabase = createAdminClient();
+
+    return Promise.all(rows.map(async (row) => {
+      if (row.fhir_practitioner_id || !row.npi) return row;
+      if (row.scheduling_checked_at && new Date(row.scheduling_checked_at).getTime() > recheckBefore) return row;
+
+      try {
+        const practitionerId = await this.scheduling!.findPractitionerByNpi(row.npi);
+        const update = {
+          fhir_practitioner_id: practitionerId,
+          scheduling_checked_at: new Date().toISOString(),
+        };
+        await supabase.from('health_providers').update(update).eq('id', row.id);
+        return { ...row, ...update };
+      } catch (error) {
+        logger.warn('Could not look up provider on scheduling server', { npi: row.npi, error: String(error) });
+        return row;
+      }
+    }));
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Appointment Scheduling
+ *
+ * Slot choice and reminder timing for booked appointments.
+ *
+ * @module lib/services/provider-directory/scheduling
+ */
+
+import { getLocalTime } from '../delivery-window/schedule';
+import { Appointment, AppointmentReminderStage, AppointmentSlot } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Hours before the appointment each reminder goes out */
+export const APPOINTMENT_REMINDER_HOURS: Record<AppointmentReminderStage, number> = {
+  day_before: 24,
+  two_hours: 2,
+};
+
+/** Local hours counted as morning and afternoon */
+const TIME_OF_DAY_HOURS = {
+  morning: [6, 12],
+  afternoon: [12, 18],
+} as const;
+
+/**
+ * First free slot at or after `preferredStart` that falls in the preferred
+ * part of the day in the user's timezone
+ */
+export function pickSlot(
+  slots: AppointmentSlot[],
+  preferredStart: Date,
+  preferredTime: 'morning' | 'afternoon' | 'any',
+  timeZone: string
+): AppointmentSlot | null {
+  const sorted = [...slots].sort((a, b) => a.start.localeCompare(b.start));
+
+  for (const slot of sorted) {
+    const start = new Date(slot.start);
+    if (start < preferredStart) continue;
+    if (preferredTime === 'any') return slot;
+
+    const [from, to] = TIME_OF_DAY_HOURS[preferredTime];
+    const { minutes } = getLocalTime(start, timeZone);
+    if (minutes >= from * 60 && minutes < to * 60) return slot;
+  }
+
+  return null;
+}
+
+/**
+ * Reminder due for an appointment now. Only the closest stage is sent, so a
+ * booking made a few hours out gets one reminder rather than two at once.
+ */
+export function getDueAppointmentReminder(
+  appointment: Pick<Appointment, 'scheduled_at' | 'status' | 'reminders_sent'>,
+  now: Date
+): AppointmentReminderStage | null {
+  if (appointment.status !== 'confirmed' && appointment.status !== 'pending') return null;
+
+  const startsIn = new Date(appointment.scheduled_at).getTime() - now.getTime();
+  if (startsIn <= 0) return null;
+
+  const sent = new Set(appointment.reminders_sent || []);
+  const due = (Object.keys(APPOINTMENT_REMINDER_HOURS) as AppointmentReminderStage[])
+    .filter((stage) => startsIn <= APPOINTMENT_REMINDER_HOURS[stage] * HOUR_MS)
+    .sort((a, b) => APPOINTMENT_REMINDER_HOURS[a] - APPOINTMENT_REMINDER_HOURS[b]);
+
+  return due.length > 0 && !sent.has(due[0]) ? due[0] : null;
+}
@@ -0,0 +1,108 @@
+/**
+ * Provider Search
+ *
+ * Filtering shared by the directory backends. Directories often don't say
+ * which insurance a provider takes or which visit types they offer; those
+ * providers are kept in results rather than ruled out.
+ *
+ * @module lib/services/provider-directory/search
+ */
+
+import { DirectoryProvider, ParsedLocation, ProviderSearchQuery } from './types';
+
+const US_STATES = new Set([
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA',
+  'KS', 'KY', 'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ', 'NM',
+  'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA',
+  'WV', 'WI', 'WY', 'PR',
+]);
+
+function includesText(value: string | null | undefined, search: string): boolean {
+  return !!value && value.toLowerCase().includes(search.toLowerCase());
+}
+
+/**
+ * Split "San Francisco, CA", "CA", "94110" or "San Francisco" into the
+ * fields directories search on
+ */
+export function parseLocationQuery(location: string): ParsedLocation {
+  const text = location.trim();
+
+  const zip = text.match(/\b(\d{5})(?:-\d{4})?\b/);
+  if (zip) {
+    return { postalCode: zip[1] };
+  }
+
+  const parts = text.split(',').map((p) => p.trim()).filter(Boolean);
+  const last = parts[parts.length - 1]?.toUpperCase();
+
+  if (parts.length === 1 && US_STATES.has(last)) {
+    return { state: last };
+  }
+  if (parts.length > 1 && US_STATES.has(last)) {
+    return { city: parts.slice(0, -1).join(', '), state: last };
+  }
+  return { city: text };
+}
+
+export function matchesLocation(provider: DirectoryProvider, location: string): boolean {
+  const parsed = parseLocationQuery(location);
+  const loc = provider.location;
+
+  if (parsed.postalCode) {
+    return !!loc.postalCode && loc.postalCode.startsWith(parsed.postalCode);
+  }
+  if (parsed.state && loc.state?.toUpperCase() !== parsed.state) {
+    return false;
+  }
+  if (parsed.city && !includesText(loc.city, parsed.city)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Whether a provider fits a search. Unknown insurance networks and visit
+ * types count as a match.
+ */
+export function matchesProviderSearch(provider: DirectoryProvider, query: ProviderSearchQuery): boolean {
+  if (query.specialty && !includesText(provider.specialty, query.specialty)) {
+    return false;
+  }
+  if (query.appointmentType && provider.appointmentTypes &&
+      !provider.appointmentTypes.some((t) => includesText(t, query.appointmentType!))) {
+    return false;
+  }
+  if (query.insurance && provider.acceptsInsurance &&
+      !provider.acceptsInsurance.some((i) => includesText(i, query.insurance!))) {
+    return false;
+  }
+  if (query.location && !matchesLocation(provider, query.location)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Whether a provider is in network for an insurer; null when the directory
+ * doesn't list the provider's networks
+ */
+export function isInNetwork(provider: DirectoryProvider, insurance: string): boolean | null {
+  if (!provider.acceptsInsurance) return null;
+  return provider.acceptsInsurance.some((i) => includesText(i, insurance) || includesText(insurance, i));
+}
+
+/**
+ * Bookable providers first, then by rating
+ */
+export function rankProviders(providers: DirectoryProvider[]): DirectoryProvider[] {
+  return [...providers].sort((a, b) =>
+    Number(b.bookable) - Number(a.bookable) || (b.rating ?? 0) - (a.rating ?? 0)
+  );
+}
+
+export function formatProviderLocation(provider: DirectoryProvider): string | null {
+  const { address, city, state, postalCode } = provider.location;
+  const cityState = [city, [state, postalCode].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+  return [address, cityState].filter(Boolean).join(', ') || null;
+}
@@ -0,0 +1,161 @@
+/**
+ * Provider Directory Types
+ *
+ * @module lib/services/provider-directory/types
+ */
+
+export type ProviderDirectoryBackendName = 'registry' | 'fixture';
+
+export interface ProviderLocation {
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  postalCode: string | null;
+}
+
+export interface DirectoryProvider {
+  id: string;
+  /** National Provider Identifier, when known */
+  npi: string | null;
+  name: string;
+  credential: string | null;
+  specialty: string;
+  location: ProviderLocation;
+  phone: string | null;
+  /** Insurance networks the provider accepts; null when the directory doesn't say */
+  acceptsInsurance: string[] | null;
+  /** Visit types the provider offers; null when the directory doesn't say */
+  appointmentTypes: string[] | null;
+  rating: number | null;
+  /** Whether appointments can be booked online through the directory */
+  bookable: boolean;
+}
+
+export interface ProviderSearchQuery {
+  specialty?: string;
+  appointmentType?: string;
+  insurance?: string;
+  /** Free text: "San Francisco, CA", "CA" or a ZIP code */
+  location?: string;
+  limit?: number;
+}
+
+/** Location search text split into the fields directories filter on */
+export interface ParsedLocation {
+  city?: string;
+  state?: string;
+  postalCode?: string;
+}
+
+export interface AppointmentSlot {
+  id: string;
+  providerId: string;
+  start: string;
+  end: string;
+  appointmentType: string | null;
+}
+
+export interface SlotRange {
+  from: Date;
+  to: Date;
+  appointmentType?: string;
+}
+
+export interface BookingRequest {
+  patientEmail: string;
+  patientName?: string;
+  appointmentType: string;
+  reason?: string;
+}
+
+/** A booking as confirmed by the directory backend */
+export interface BookedSlot {
+  /** Appointment id in the backend (FHIR Appointment id for the registry) */
+  externalId: string;
+  start: string;
+  end: string;
+  status: 'confirmed' | 'pending';
+}
+
+/**
+ * A source of providers and their schedules. The registry backend searches
+ * providers imported from the NPI registry and books through an FHIR
+ * Scheduling server; the fixture backend keeps everything in memory.
+ */
+export interface ProviderDirectoryBackend {
+  readonly name: ProviderDirectoryBackendName;
+
+  searchProviders(query: ProviderSearchQuery): Promise<DirectoryProvider[]>;
+
+  getProvider(providerId: string): Promise<DirectoryProvider | null>;
+
+  /** Free slots for a provider within a range, earliest first */
+  findSlots(provider: DirectoryProvider, range: SlotRange): Promise<AppointmentSlot[]>;
+
+  bookSlot(provider: DirectoryProvider, slot: AppointmentSlot, request: BookingRequest): Promise<BookedSlot>;
+
+  cancelBooking(externalId: string, reason?: string): Promise<void>;
+}
+
+// =============================================================================
+// APPOINTMENTS
+// =============================================================================
+
+export type AppointmentStatus = 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'no_show';
+
+/** Reminder points before an appointment */
+export type AppointmentReminderStage = 'day_before' | 'two_hours';
+
+/** Row of user_appointments */
+export interface Appointment {
+  id: string;
+  user_email: string;
+  provider_id: string;
+  provider_name: string;
+  specialty: string | null;
+  appointment_type: string;
+  scheduled_at: string;
+  ends_at: string | null;
+  location: string | null;
+  reason: string | null;
+  status: AppointmentStatus;
+  directory_backend: ProviderDirectoryBackendName | null;
+  external_id: string | null;
+  slot_id: string | null;
+  calendar_event_id: string | null;
+  reminders_sent: AppointmentReminderStage[];
+  cancellation_reason: string | null;
+  cancelled_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BookAppointmentInput {
+  providerId: string;
+  /** Slot from findProviderSlots; otherwise the first free slot after `preferredStart` */
+  slotId?: string;
+  preferredStart?: Date;
+  preferredTime?: 'morning' | 'afternoon' | 'any';
+  appointmentType: string;
+  reason?: string;
+  /** Google access token to add the appointment to the user's calendar */
+  googleAccessToken?: string;
+}
+
+export interface BookAppointmentResult {
+  appointment: Appointment;
+  provider: DirectoryProvider;
+  calendarSynced: boolean;
+}
+
+export type BookingErrorReason =
+  | 'provider_not_found'
+  | 'booking_unavailable'
+  | 'no_slots'
+  | 'slot_unavailable'
+  | 'appointment_not_found';
+
+export interface AppointmentReminderJobSummary {
+  appointmentsChecked: number;
+  remindersSent: number;
+}
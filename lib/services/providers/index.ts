@@ -0,0 +1,24 @@
+/**
+ * Provider Plugins
+ * Typed plugin interface and registry for ecosystem integrations
+ */
+
+export * from './types';
+export * from './registry';
+export { createEmptySource } from './utils';
+
+export { fetchBloodBiomarkers } from './plugins/blood-biomarkers';
+export { fetchOuraData } from './plugins/oura';
+export { fetchDexcomData } from './plugins/dexcom';
+export { fetchVitalData } from './plugins/vital';
+export { fetchGmailPatterns } from './plugins/gmail';
+export { fetchSlackPatterns } from './plugins/slack';
+export { fetchOutlookPatterns } from './plugins/outlook';
+export { fetchTeamsPatterns } from './plugins/teams';
+export { fetchWhoopData } from './plugins/whoop';
+export { fetchSpotifyData } from './plugins/spotify';
+export { fetchNotionData } from './plugins/notion';
+export { fetchLinearData } from './plugins/linear';
+export { fetchAppleHealthData } from './plugins/apple-health';
+export { fetchGarminData } from './plugins/garmin';
+export { fetchGoogleFitData } from './plugins/google-fit';
@@ -0,0 +1,79 @@
+/**
+ * Blood Biomarkers Provider
+ * Biomarkers extracted from uploaded lab results
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import type { EcosystemDataSource, BloodBiomarkers } from '@/lib/services/ecosystem-fetcher';
+import { getBiomarkerChanges } from '@/lib/services/blood-analyzer/history';
+import { ProviderPlugin } from '../types';
+
+const logger = createLogger('BloodBiomarkersProvider');
+
+/**
+ * Fetch blood biomarkers from onboarding data
+ */
+export async function fetchBloodBiomarkers(
+  email: string,
+  planType: 'sage' | 'forge' = 'sage'
+): Promise<EcosystemDataSource> {
+  try {
+    const supabase = createAdminClient();
+    const tableName = planType === 'sage' ? 'sage_onboarding_data' : 'forge_onboarding_data';
+
+    const { data, error } = await supabase
+      .from(tableName)
+      .select('lab_file_analysis')
+      .eq('email', email)
+      .single();
+
+    if (error || !data || !data.lab_file_analysis) {
+      return {
+        source: 'bloodBiomarkers',
+        available: false,
+        data: null,
+        insights: [],
+        fetchedAt: new Date().toISOString(),
+        error: error?.message || 'No blood biomarker data found',
+      };
+    }
+
+    const biomarkerData = data.lab_file_analysis as BloodBiomarkers;
+
+    try {
+      biomarkerData.changes = await getBiomarkerChanges(email);
+    } catch (historyError) {
+      logger.warn('Could not load biomarker history', { email, error: String(historyError) });
+    }
+
+    return {
+      source: 'bloodBiomarkers',
+      available: true,
+      data: biomarkerData,
+      insights: [...(biomarkerData.concerns || []), ...(biomarkerData.changes || [])],
+      fetchedAt: new Date().toISOString(),
+      recordCount: biomarkerData.biomarkers?.length || 0,
+    };
+  } catch (error) {
+    logger.error('Error fetching blood biomarkers', error, { email });
+    return {
+      source: 'bloodBiomarkers',
+      available: false,
+      data: null,
+      insights: [],
+      fetchedAt: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+export const bloodBiomarkersProvider: ProviderPlugin = {
+  id: 'blood_biomarkers',
+  name: 'Blood Biomarkers',
+  description: 'Biomarkers from uploaded lab results',
+  category: 'health',
+  icon: '🩸',
+  resultKey: 'bloodBiomarkers',
+  fetch: (email, { planType }) => fetchBloodBiomarkers(email, planType),
+};
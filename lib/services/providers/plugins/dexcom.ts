@@ -0,0 +1,223 @@
+/**
+ * Dexcom Provider
+ * Continuous glucose readings, time in range and spikes
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import type { EcosystemDataSource, DexcomData } from '@/lib/services/ecosystem-fetcher';
+import { UnifiedHealthRecord } from '@/lib/services/unified-data';
+import { createEmptySource, hasStoredRows, endpointSync, isoRangeBody } from '../utils';
+import { ProviderPlugin } from '../types';
+
+const logger = createLogger('DexcomProvider');
+
+/**
+ * Fetch Dexcom CGM data from database
+ */
+export async function fetchDexcomData(
+  email: string,
+  startDate?: Date,
+  endDate?: Date
+): Promise<EcosystemDataSource> {
+  try {
+    const supabase = createAdminClient();
+
+    // First look up user_id from email (user_connectors uses user_id, not email)
+    const adminClient = createAdminClient();
+    const { data: users } = await adminClient
+      .from('users')
+      .select('id')
+      .eq('email', email)
+      .maybeSingle();
+
+    // Check if user has Dexcom connected - try by user_id first, then by user_email fallback
+    let connector = null;
+    if (users?.id) {
+      const { data } = await adminClient
+        .from('user_connectors')
+        .select('is_connected')
+        .eq('user_id', users.id)
+        .eq('connector_name', 'Dexcom')
+        .eq('is_connected', true)
+        .maybeSingle();
+      connector = data;
+    }
+
+    // Fallback: check by user_email (some callbacks store this)
+    if (!connector) {
+      const { data } = await adminClient
+        .from('user_connectors')
+        .select('is_connected')
+        .eq('user_email', email)
+        .eq('connector_name', 'Dexcom')
+        .eq('is_connected', true)
+        .maybeSingle();
+      connector = data;
+    }
+
+    if (!connector) {
+      return {
+        source: 'dexcom',
+        available: false,
+        data: null,
+        insights: [],
+        fetchedAt: new Date().toISOString(),
+        error: 'Dexcom not connected',
+      };
+    }
+
+    const end = endDate || new Date();
+    const start = startDate || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000); // 30 days ago
+
+    const { data, error } = await supabase
+      .from('dexcom_data')
+      .select('*')
+      .eq('email', email)
+      .gte('start_date', start.toISOString())
+      .lte('end_date', end.toISOString())
+      .order('sync_date', { ascending: false })
+      .limit(1);
+
+    if (error || !data || data.length === 0) {
+      return {
+        source: 'dexcom',
+        available: false,
+        data: null,
+        insights: [],
+        fetchedAt: new Date().toISOString(),
+        error: error?.message || 'No Dexcom data found',
+      };
+    }
+
+    const dexcomRecord = data[0];
+    const egvData = dexcomRecord.egv_data as Array<{value?: number; systemTime?: string}> || [];
+    const eventsData = dexcomRecord.events_data as Array<{eventType?: string; eventTime?: string}> || [];
+    const statsData = dexcomRecord.statistics_data as {timeInRange?: number; averageGlucose?: number} | null;
+
+    // Calculate metrics
+    const glucoseValues = egvData.map(reading => reading.value || 0).filter(v => v > 0);
+    const avgGlucose = glucoseValues.length > 0
+      ? glucoseValues.reduce((sum, val) => sum + val, 0) / glucoseValues.length
+      : 0;
+
+    // Detect spikes (>140 mg/dL)
+    const spikes = egvData.filter(reading => (reading.value || 0) > 140);
+    const spikesByHour = spikes.reduce((acc, spike) => {
+      if (spike.systemTime) {
+        const hour = new Date(spike.systemTime).getHours();
+        const hourKey = `${hour}:00`;
+        acc[hourKey] = (acc[hourKey] || 0) + 1;
+      }
+      return acc;
+    }, {} as Record<string, number>);
+
+    const spikeTimes = Object.entries(spikesByHour)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 3)
+      .map(([time]) => time);
+
+    const processedData: DexcomData = {
+      avgGlucose: Math.round(avgGlucose),
+      avgFastingGlucose: null, // Would need to identify fasting periods
+      glucoseVariability: Math.round(Math.sqrt(glucoseValues.reduce((sum, val) => sum + Math.pow(val - avgGlucose, 2), 0) / glucoseValues.length)),
+      timeInRange: statsData?.timeInRange || 0,
+      spikeTimes,
+      spikeEvents: spikes.slice(0, 10).map(s => ({
+        time: s.systemTime || '',
+        value: s.value || 0,
+      })),
+      trends: [],
+      insights: [],
+      rawData: dexcomRecord,
+    };
+
+    // Generate insights
+    const insights: string[] = [];
+    if (avgGlucose > 110) {
+      insights.push(`Elevated average glucose (${processedData.avgGlucose} mg/dL, optimal <100 mg/dL)`);
+    }
+    if (spikeTimes.length > 0) {
+      insights.push(`Frequent glucose spikes detected at ${spikeTimes.join(', ')}`);
+    }
+    if (processedData.timeInRange < 70) {
+      insights.push(`Low time in range (${processedData.timeInRange}%, target >70%)`);
+    }
+
+    return {
+      source: 'dexcom',
+      available: true,
+      data: processedData,
+      insights,
+      fetchedAt: new Date().toISOString(),
+      recordCount: egvData.length,
+      daysOfData: Math.ceil((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000)),
+    };
+  } catch (error) {
+    logger.error('Error fetching Dexcom data', error, { email });
+    return {
+      source: 'dexcom',
+      available: false,
+      data: null,
+      insights: [],
+      fetchedAt: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Transform unified Dexcom records to DexcomData format
+ */
+function transformUnifiedToDexcom(records: UnifiedHealthRecord[]): EcosystemDataSource {
+  if (records.length === 0) return createEmptySource('dexcom');
+
+  const avgGlucose = records
+    .filter(r => r.glucose_avg != null)
+    .reduce((sum, r, _, arr) => sum + (r.glucose_avg || 0) / arr.length, 0);
+
+  const timeInRange = records
+    .filter(r => r.time_in_range != null)
+    .reduce((sum, r, _, arr) => sum + (r.time_in_range || 0) / arr.length, 0);
+
+  return {
+    source: 'dexcom',
+    available: true,
+    data: {
+      avgGlucose: Math.round(avgGlucose),
+      avgFastingGlucose: null,
+      glucoseVariability: 0,
+      timeInRange,
+      spikeTimes: [],
+      spikeEvents: [],
+      trends: [],
+      insights: [],
+      rawData: records,
+    },
+    insights: [],
+    fetchedAt: new Date().toISOString(),
+    recordCount: records.length,
+    daysOfData: records.length,
+  };
+}
+
+export const dexcomProvider: ProviderPlugin = {
+  id: 'dexcom',
+  name: 'Dexcom',
+  description: 'Continuous glucose monitoring data',
+  category: 'health',
+  icon: '📊',
+  auth: {
+    authEndpoint: '/api/dexcom/auth',
+  },
+  resultKey: 'dexcom',
+  fetch: (email, { startDate, endDate }) => fetchDexcomData(email, startDate, endDate),
+  fromUnified: transformUnifiedToDexcom,
+  sync: endpointSync('dexcom', '/api/dexcom/sync', {
+    cadenceHours: 24,
+    autoSync: true,
+    statusMetric: 'recordCount',
+    body: (email, range) => ({ email, ...isoRangeBody(range) }),
+  }),
+  healthCheck: email => hasStoredRows('dexcom_data', { email }),
+};
@@ -0,0 +1,29 @@
+/**
+ * Fitbit Provider
+ * Activity, heart rate and sleep
+ */
+
+import { endpointSync } from '../utils';
+import { ProviderPlugin } from '../types';
+
+export const fitbitProvider: ProviderPlugin = {
+  id: 'fitbit',
+  name: 'Fitbit',
+  description: 'Activity, heart rate, and sleep data',
+  category: 'health',
+  icon: '⌚',
+  auth: {
+    authEndpoint: '/api/fitbit/auth',
+    refresh: {
+      url: 'https://api.fitbit.com/oauth2/token',
+      clientIdEnv: 'FITBIT_CLIENT_ID',
+      clientSecretEnv: 'FITBIT_CLIENT_SECRET',
+      clientAuth: 'basic',
+    },
+  },
+  sync: endpointSync('fitbit', '/api/fitbit/sync', {
+    cadenceHours: 24,
+    autoSync: false,
+    statusMetric: 'recordCount',
+  }),
+};
@@ -0,0 +1,53 @@
+/**
+ * Garmin Provider
+ * Sleep, HRV, stress, Body Battery and activity (stored directly in unified_health_data)
+ */
+
+import type { EcosystemDataSource } from '@/lib/services/ecosystem-fetcher';
+import { fetchWearableFromUnified, transformUnifiedToWearable } from '../unified-wearable';
+import { hasStoredRows, serviceSyncResult } from '../utils';
+import { ProviderPlugin } from '../types';
+
+/**
+ * Fetch Garmin data (stored directly in unified_health_data)
+ */
+export async function fetchGarminData(
+  email: string,
+  startDate?: Date,
+  endDate?: Date
+): Promise<EcosystemDataSource> {
+  return fetchWearableFromUnified(email, 'garmin', 'garmin', startDate, endDate);
+}
+
+export const garminProvider: ProviderPlugin = {
+  id: 'garmin',
+  name: 'Garmin',
+  description: 'Sleep, HRV, stress, Body Battery, and activities',
+  category: 'health',
+  icon: '🧭',
+  auth: {
+    authEndpoint: '/api/garmin/auth',
+    refresh: {
+      url: 'https://diauth.garmin.com/di-oauth2-service/oauth/token',
+      clientIdEnv: 'GARMIN_CLIENT_ID',
+      clientSecretEnv: 'GARMIN_CLIENT_SECRET',
+      clientAuth: 'body',
+    },
+  },
+  resultKey: 'garmin',
+  fetch: (email, { startDate, endDate }) => fetchGarminData(email, startDate, endDate),
+  fromUnified: records => transformUnifiedToWearable('garmin', records),
+  sync: {
+    endpoint: '/api/garmin/fetch-data',
+    cadenceHours: 24,
+    autoSync: true,
+    statusMetric: 'recordCount',
+    run: async (email, range) => {
+      // Imported lazily: the service's token manager imports the provider registry
+      const { syncGarminData } = await import('@/lib/services/garmin-service');
+      return serviceSyncResult('garmin', await syncGarminData(email, range));
+    },
+  },
+  // Garmin writes straight to the unified table
+  healthCheck: email => hasStoredRows('unified_health_data', { email, provider: 'garmin' }),
+};
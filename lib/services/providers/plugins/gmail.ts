@@ -0,0 +1,181 @@
+/**
+ * Gmail Provider
+ * Work patterns, meeting density and email volume
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import type { EcosystemDataSource, GmailPatterns } from '@/lib/services/ecosystem-fetcher';
+import { UnifiedHealthRecord } from '@/lib/services/unified-data';
+import { createEmptySource, hasStoredRows, endpointSync, storeBehavioralPatterns } from '../utils';
+import { ProviderPlugin } from '../types';
+
+const logger = createLogger('GmailProvider');
+
+/**
+ * Fetch Gmail patterns - tries unified_health_data first, falls back to behavioral_patterns
+ */
+export async function fetchGmailPatterns(email: string): Promise<EcosystemDataSource> {
+  try {
+    const supabase = createAdminClient();
+
+    // Try unified_health_data first (Phase 7)
+    const { data: unifiedData } = await supabase
+      .from('unified_health_data')
+      .select('*')
+      .eq('email', email)
+      .eq('provider', 'gmail')
+      .order('recorded_at', { ascending: false })
+      .limit(1);
+
+    if (unifiedData && unifiedData.length > 0) {
+      const record = unifiedData[0];
+      const providerData = record.provider_data as Record<string, unknown> || {};
+      const patterns = providerData.patterns as GmailPatterns || {};
+
+      // Build response from unified data
+      return {
+        source: 'gmail',
+        available: true,
+        data: {
+          ...patterns,
+          // Include metrics from unified columns
+          stressIndicators: {
+            ...patterns.stressIndicators,
+            workloadStressScore: record.stress_score,
+          },
+          emailVolume: {
+            ...patterns.emailVolume,
+            total: record.email_count || patterns.emailVolume?.total,
+          },
+          focusTime: {
+            ...patterns.focusTime,
+            avgFocusMinutesPerDay: record.focus_time_minutes,
+          },
+        },
+        insights: patterns.insights || [],
+        fetchedAt: new Date().toISOString(),
+        recordCount: record.email_count || 0,
+      };
+    }
+
+    // Fall back to legacy behavioral_patterns table
+    const { data, error } = await supabase
+      .from('behavioral_patterns')
+      .select('*')
+      .eq('email', email)
+      .eq('source', 'gmail')
+      .order('sync_date', { ascending: false })
+      .limit(1);
+
+    if (error || !data || data.length === 0) {
+      return {
+        source: 'gmail',
+        available: false,
+        data: null,
+        insights: [],
+        fetchedAt: new Date().toISOString(),
+        error: error?.message || 'No Gmail pattern data found',
+      };
+    }
+
+    const gmailRecord = data[0];
+    const patterns = gmailRecord.patterns as GmailPatterns;
+
+    return {
+      source: 'gmail',
+      available: true,
+      data: patterns,
+      insights: patterns.insights || [],
+      fetchedAt: new Date().toISOString(),
+      recordCount: gmailRecord.data_points_analyzed || 0,
+    };
+  } catch (error) {
+    logger.error('Error fetching Gmail patterns', error, { email });
+    return {
+      source: 'gmail',
+      available: false,
+      data: null,
+      insights: [],
+      fetchedAt: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Transform unified Gmail/Outlook records to GmailPatterns format
+ */
+export function transformUnifiedToGmail(records: UnifiedHealthRecord[]): EcosystemDataSource {
+  if (records.length === 0) return createEmptySource('gmail');
+
+  const avgStressScore = records
+    .filter(r => r.stress_score != null)
+    .reduce((sum, r, _, arr) => sum + (r.stress_score || 0) / arr.length, 0);
+
+  const avgMeetings = records
+    .filter(r => r.meeting_count != null)
+    .reduce((sum, r, _, arr) => sum + (r.meeting_count || 0) / arr.length, 0);
+
+  return {
+    source: 'gmail',
+    available: true,
+    data: {
+      meetingDensity: {
+        peakHours: [],
+        avgMeetingsPerDay: avgMeetings,
+        backToBackPercentage: 0,
+      },
+      emailVolume: {
+        avgPerDay: 0,
+        peakHours: [],
+        afterHoursPercentage: 0,
+      },
+      workHours: {
+        start: '09:00',
+        end: '17:00',
+        weekendActivity: false,
+      },
+      optimalMealWindows: [],
+      stressIndicators: {
+        highEmailVolume: avgStressScore > 60,
+        frequentAfterHoursWork: false,
+        shortMeetingBreaks: false,
+      },
+      insights: [],
+    },
+    insights: [],
+    fetchedAt: new Date().toISOString(),
+    recordCount: records.length,
+    daysOfData: records.length,
+  };
+}
+
+export const gmailProvider: ProviderPlugin = {
+  id: 'gmail',
+  name: 'Gmail',
+  description: 'Email and calendar integration',
+  category: 'productivity',
+  icon: '📧',
+  auth: {
+    authEndpoint: '/api/gmail/auth',
+    refresh: {
+      url: 'https://oauth2.googleapis.com/token',
+      clientIdEnv: 'GOOGLE_CLIENT_ID',
+      clientSecretEnv: 'GOOGLE_CLIENT_SECRET',
+      clientAuth: 'body',
+    },
+  },
+  resultKey: 'gmail',
+  fetch: email => fetchGmailPatterns(email),
+  fromUnified: transformUnifiedToGmail,
+  sync: endpointSync('gmail', '/api/gmail/fetch-data', {
+    cadenceHours: 24,
+    autoSync: true,
+    statusMetric: 'messagesAnalyzed',
+    countField: 'messagesAnalyzed',
+    failureMessage: 'Pattern analysis failed',
+    onSuccess: (email, result) => storeBehavioralPatterns(email, 'gmail', result),
+  }),
+  healthCheck: email => hasStoredRows('behavioral_patterns', { email, source: 'gmail' }),
+};
@@ -0,0 +1,53 @@
+/**
+ * Google Fit Provider
+ * Daily activity, sleep sessions and workouts (stored directly in unified_health_data)
+ */
+
+import type { EcosystemDataSource } from '@/lib/services/ecosystem-fetcher';
+import { fetchWearableFromUnified, transformUnifiedToWearable } from '../unified-wearable';
+import { hasStoredRows, serviceSyncResult } from '../utils';
+import { ProviderPlugin } from '../types';
+
+/**
+ * Fetch Google Fit data (stored directly in unified_health_data)
+ */
+export async function fetchGoogleFitData(
+  email: string,
+  startDate?: Date,
+  endDate?: Date
+): Promise<EcosystemDataSource> {
+  return fetchWearableFromUnified(email, 'google_fit', 'googleFit', startDate, endDate);
+}
+
+export const googleFitProvider: ProviderPlugin = {
+  id: 'google_fit',
+  name: 'Google Fit',
+  description: 'Daily activity, sleep sessions, and workouts',
+  category: 'health',
+  icon: '💚',
+  auth: {
+    authEndpoint: '/api/google-fit/auth',
+    refresh: {
+      url: 'https://oauth2.googleapis.com/token',
+      clientIdEnv: 'GOOGLE_CLIENT_ID',
+      clientSecretEnv: 'GOOGLE_CLIENT_SECRET',
+      clientAuth: 'body',
+    },
+  },
+  resultKey: 'googleFit',
+  fetch: (email, { startDate, endDate }) => fetchGoogleFitData(email, startDate, endDate),
+  fromUnified: records => transformUnifiedToWearable('googleFit', records),
+  sync: {
+    endpoint: '/api/google-fit/fetch-data',
+    cadenceHours: 24,
+    autoSync: true,
+    statusMetric: 'recordCount',
+    run: async (email, range) => {
+      // Imported lazily: the service's token manager imports the provider registry
+      const { syncGoogleFitData } = await import('@/lib/services/google-fit-service');
+      return serviceSyncResult('google_fit', await syncGoogleFitData(email, range));
+    },
+  },
+  // Google Fit writes straight to the unified table
+  healthCheck: email => hasStoredRows('unified_health_data', { email, provider: 'google_fit' }),
+};
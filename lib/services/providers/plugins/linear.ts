@@ -0,0 +1,191 @@
+/**
+ * Linear Provider
+ * Issues, projects and priorities
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import type { EcosystemDataSource, LinearData } from '@/lib/services/ecosystem-fetcher';
+import { UnifiedHealthRecord } from '@/lib/services/unified-data';
+import { createEmptySource } from '../utils';
+import { ProviderPlugin } from '../types';
+
+const logger = createLogger('LinearProvider');
+
+/**
+ * Fetch Linear data from behavioral_patterns table
+ */
+export async function fetchLinearData(email: string): Promise<EcosystemDataSource> {
+  try {
+    const supabase = createAdminClient();
+
+    // Check if user has Linear connected
+    const adminClient = createAdminClient();
+    const { data: token } = await adminClient
+      .from('integration_tokens')
+      .select('id')
+      .eq('user_email', email)
+      .eq('provider', 'linear')
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (!token) {
+      return {
+        source: 'linear',
+        available: false,
+        data: null,
+        insights: [],
+        fetchedAt: new Date().toISOString(),
+      };
+    }
+
+    // Fetch from behavioral_patterns
+    const { data: patterns } = await adminClient
+      .from('behavioral_patterns')
+      .select('data, updated_at')
+      .eq('user_email', email)
+      .eq('source', 'linear')
+      .maybeSingle();
+
+    if (!patterns?.data) {
+      return {
+        source: 'linear',
+        available: true,
+        data: null,
+        insights: ['Linear connected but no data synced yet'],
+        fetchedAt: new Date().toISOString(),
+      };
+    }
+
+    const linearOverview = patterns.data.linear_overview || {};
+    const linearIssues = patterns.data.linear_issues || [];
+    const linearProjects = patterns.data.linear_projects || [];
+    const urgencyBreakdown = patterns.data.linear_urgency_breakdown || {};
+
+    // Generate insights
+    const insights: string[] = [];
+
+    if (linearOverview.urgent_issues > 0) {
+      insights.push(`${linearOverview.urgent_issues} urgent issue${linearOverview.urgent_issues > 1 ? 's' : ''} need immediate attention`);
+    }
+
+    if (linearOverview.overdue_issues > 0) {
+      insights.push(`${linearOverview.overdue_issues} overdue issue${linearOverview.overdue_issues > 1 ? 's' : ''} in Linear`);
+    }
+
+    if (linearOverview.open_issues > 30) {
+      insights.push(`High issue backlog: ${linearOverview.open_issues} open issues — review and prioritize`);
+    }
+
+    if (linearOverview.due_soon_issues > 5) {
+      insights.push(`${linearOverview.due_soon_issues} issues due in the next 3 days`);
+    }
+
+    // Group by state
+    const issuesByState: Record<string, number> = {};
+    for (const issue of linearIssues) {
+      const state = issue.state || 'Unknown';
+      issuesByState[state] = (issuesByState[state] || 0) + 1;
+    }
+
+    const linearData: LinearData = {
+      organizationName: linearOverview.organization || 'Linear',
+      totalIssues: linearOverview.total_issues || 0,
+      openIssues: linearOverview.open_issues || 0,
+      urgentIssues: linearOverview.urgent_issues || 0,
+      highPriorityIssues: linearOverview.high_priority_issues || 0,
+      overdueIssues: linearOverview.overdue_issues || 0,
+      issuesDueSoon: linearOverview.due_soon_issues || 0,
+      issuesByState,
+      issuesByPriority: {
+        urgent: urgencyBreakdown.urgent || 0,
+        high: urgencyBreakdown.high || 0,
+        medium: urgencyBreakdown.medium || 0,
+        low: urgencyBreakdown.low || 0,
+        none: urgencyBreakdown.none || 0,
+      },
+      projectSummary: linearProjects.slice(0, 10).map((p: any) => ({
+        name: p.name,
+        issueCount: 0, // Would need to count from issues
+        progress: p.progress,
+      })),
+      recentActivity: linearIssues.slice(0, 10).map((i: any) => ({
+        identifier: i.identifier,
+        title: i.title,
+        state: i.state,
+        priority: i.priority,
+        updatedAt: i.updatedAt,
+      })),
+      insights,
+      rawData: patterns.data,
+    };
+
+    return {
+      source: 'linear',
+      available: true,
+      data: linearData,
+      insights,
+      fetchedAt: new Date().toISOString(),
+      recordCount: linearOverview.total_issues || 0,
+    };
+  } catch (error) {
+    logger.error('Error fetching Linear data', error, { email });
+    return {
+      source: 'linear',
+      available: false,
+      data: null,
+      insights: [],
+      fetchedAt: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Transform unified Linear records
+ */
+function transformUnifiedToLinear(records: UnifiedHealthRecord[]): EcosystemDataSource {
+  if (records.length === 0) return createEmptySource('linear');
+
+  const avgProductivityScore = records
+    .filter(r => r.productivity_score != null)
+    .reduce((sum, r, _, arr) => sum + (r.productivity_score || 0) / arr.length, 0);
+
+  return {
+    source: 'linear',
+    available: true,
+    data: {
+      organizationName: '',
+      totalIssues: 0,
+      openIssues: 0,
+      urgentIssues: 0,
+      highPriorityIssues: 0,
+      overdueIssues: 0,
+      issuesDueSoon: 0,
+      issuesByState: {},
+      issuesByPriority: {},
+      projectSummary: [],
+      recentActivity: [],
+      insights: [`Average productivity score: ${Math.round(avgProductivityScore)}`],
+      rawData: records,
+    },
+    insights: [],
+    fetchedAt: new Date().toISOString(),
+    recordCount: records.length,
+    daysOfData: records.length,
+  };
+}
+
+export const linearProvider: ProviderPlugin = {
+  id: 'linear',
+  name: 'Linear',
+  description: 'Issues, projects, and priorities',
+  category: 'productivity',
+  icon: '📐',
+  auth: {
+    authEndpoint: '/api/linear/auth',
+  },
+  resultKey: 'linear',
+  fetch: email => fetchLinearData(email),
+  fromUnified: transformUnifiedToLinear,
+};
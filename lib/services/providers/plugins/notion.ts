@@ -0,0 +1,173 @@
+/**
+ * Notion Provider
+ * Tasks, databases and project tracking
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import type { EcosystemDataSource, NotionData } from '@/lib/services/ecosystem-fetcher';
+import { UnifiedHealthRecord } from '@/lib/services/unified-data';
+import { createEmptySource } from '../utils';
+import { ProviderPlugin } from '../types';
+
+const logger = createLogger('NotionProvider');
+
+/**
+ * Fetch Notion data from behavioral_patterns table
+ */
+export async function fetchNotionData(email: string): Promise<EcosystemDataSource> {
+  try {
+    const supabase = createAdminClient();
+
+    // Check if user has Notion connected
+    const adminClient = createAdminClient();
+    const { data: token } = await adminClient
+      .from('integration_tokens')
+      .select('id')
+      .eq('user_email', email)
+      .eq('provider', 'notion')
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (!token) {
+      return {
+        source: 'notion',
+        available: false,
+        data: null,
+        insights: [],
+        fetchedAt: new Date().toISOString(),
+      };
+    }
+
+    // Fetch from behavioral_patterns
+    const { data: patterns } = await adminClient
+      .from('behavioral_patterns')
+      .select('data, updated_at')
+      .eq('user_email', email)
+      .eq('source', 'notion')
+      .maybeSingle();
+
+    if (!patterns?.data) {
+      return {
+        source: 'notion',
+        available: true,
+        data: null,
+        insights: ['Notion connected but no data synced yet'],
+        fetchedAt: new Date().toISOString(),
+      };
+    }
+
+    const notionOverview = patterns.data.notion_overview || {};
+    const notionTasks = patterns.data.notion_tasks || [];
+
+    // Generate insights
+    const insights: string[] = [];
+
+    if (notionOverview.overdue_tasks > 0) {
+      insights.push(`You have ${notionOverview.overdue_tasks} overdue task${notionOverview.overdue_tasks > 1 ? 's' : ''} in Notion`);
+    }
+
+    if (notionOverview.tasks_due_soon > 0) {
+      insights.push(`${notionOverview.tasks_due_soon} task${notionOverview.tasks_due_soon > 1 ? 's' : ''} due in the next 3 days`);
+    }
+
+    if (notionOverview.open_tasks > 20) {
+      insights.push(`High task load: ${notionOverview.open_tasks} open tasks — consider prioritizing or delegating`);
+    }
+
+    // Group by status
+    const tasksByStatus: Record<string, number> = {};
+    const tasksByPriority: Record<string, number> = {};
+    for (const task of notionTasks) {
+      const status = task.status || 'Unknown';
+      const priority = task.priority || 'None';
+      tasksByStatus[status] = (tasksByStatus[status] || 0) + 1;
+      tasksByPriority[priority] = (tasksByPriority[priority] || 0) + 1;
+    }
+
+    const notionData: NotionData = {
+      workspaceName: notionOverview.workspace || 'Notion',
+      totalDatabases: notionOverview.total_databases || 0,
+      totalTasks: notionOverview.total_tasks || 0,
+      openTasks: notionOverview.open_tasks || 0,
+      overdueTasks: notionOverview.overdue_tasks || 0,
+      tasksDueSoon: notionOverview.tasks_due_soon || 0,
+      tasksByStatus,
+      tasksByPriority,
+      recentActivity: notionTasks.slice(0, 10).map((t: any) => ({
+        title: t.title,
+        status: t.status,
+        dueDate: t.dueDate,
+        lastEdited: t.lastEdited,
+      })),
+      insights,
+      rawData: patterns.data,
+    };
+
+    return {
+      source: 'notion',
+      available: true,
+      data: notionData,
+      insights,
+      fetchedAt: new Date().toISOString(),
+      recordCount: notionOverview.total_tasks || 0,
+    };
+  } catch (error) {
+    logger.error('Error fetching Notion data', error, { email });
+    return {
+      source: 'notion',
+      available: false,
+      data: null,
+      insights: [],
+      fetchedAt: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Transform unified Notion records
+ */
+function transformUnifiedToNotion(records: UnifiedHealthRecord[]): EcosystemDataSource {
+  if (records.length === 0) return createEmptySource('notion');
+
+  const avgProductivityScore = records
+    .filter(r => r.productivity_score != null)
+    .reduce((sum, r, _, arr) => sum + (r.productivity_score || 0) / arr.length, 0);
+
+  return {
+    source: 'notion',
+    available: true,
+    data: {
+      workspaceName: '',
+      totalDatabases: 0,
+      totalTasks: 0,
+      openTasks: 0,
+      overdueTasks: 0,
+      tasksDueSoon: 0,
+      tasksByStatus: {},
+      tasksByPriority: {},
+      recentActivity: [],
+      insights: [`Average productivity score: ${Math.round(avgProductivityScore)}`],
+      rawData: records,
+    },
+    insights: [],
+    fetchedAt: new Date().toISOString(),
+    recordCount: records.length,
+    daysOfData: records.length,
+  };
+}
+
+export const notionProvider: ProviderPlugin = {
+  id: 'notion',
+  name: 'Notion',
+  description: 'Tasks, databases, and project tracking',
+  category: 'productivity',
+  icon: '📝',
+  auth: {
+    authEndpoint: '/api/notion/auth',
+  },
+  resultKey: 'notion',
+  fetch: email => fetchNotionData(email),
+  fromUnified: transformUnifiedToNotion,
+};
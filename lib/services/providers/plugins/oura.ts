@@ -0,0 +1,481 @@
+/**
+ * Oura Ring Provider
+ * Sleep, readiness, HRV and activity from the Oura API
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import type { EcosystemDataSource, OuraData } from '@/lib/services/ecosystem-fetcher';
+import { UnifiedHealthRecord } from '@/lib/services/unified-data';
+import { createEmptySource, hasStoredRows, endpointSync, isoRangeBody } from '../utils';
+import { ProviderPlugin } from '../types';
+
+const logger = createLogger('OuraProvider');
+
+/**
+ * Fetch Oura Ring data from database
+ */
+export async function fetchOuraData(
+  email: string,
+  startDate?: Date,
+  endDate?: Date
+): Promise<EcosystemDataSource> {
+  try {
+    const supabase = createAdminClient();
+
+    // First look up user_id from email (user_connectors uses user_id, not email)
+    const adminClient = createAdminClient();
+    const { data: users } = await adminClient
+      .from('users')
+      .select('id')
+      .eq('email', email)
+      .maybeSingle();
+
+    // Check if user has Oura connected via multiple methods:
+    // 1. user_connectors (Vital integration)
+    // 2. integration_tokens (Direct OAuth)
+    let isConnected = false;
+
+    // Method 1: Check user_connectors (Vital) by user_id
+    if (users?.id) {
+      const { data } = await adminClient
+        .from('user_connectors')
+        .select('is_connected')
+        .eq('user_id', users.id)
+        .eq('connector_name', 'Oura Ring')
+        .eq('is_connected', true)
+        .maybeSingle();
+      if (data) isConnected = true;
+    }
+
+    // Method 2: Check user_connectors by user_email (fallback)
+    if (!isConnected) {
+      const { data } = await adminClient
+        .from('user_connectors')
+        .select('is_connected')
+        .eq('user_email', email)
+        .eq('connector_name', 'Oura Ring')
+        .eq('is_connected', true)
+        .maybeSingle();
+      if (data) isConnected = true;
+    }
+
+    // Method 3: Check integration_tokens for direct OAuth connection
+    if (!isConnected) {
+      const { data } = await adminClient
+        .from('integration_tokens')
+        .select('is_active')
+        .eq('user_email', email)
+        .eq('provider', 'oura')
+        .eq('is_active', true)
+        .maybeSingle();
+      if (data) isConnected = true;
+    }
+
+    if (!isConnected) {
+      return {
+        source: 'oura',
+        available: false,
+        data: null,
+        insights: [],
+        fetchedAt: new Date().toISOString(),
+        error: 'Oura Ring not connected',
+      };
+    }
+
+    const end = endDate || new Date();
+    const start = startDate || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000); // 30 days ago
+
+    // Query for data that OVERLAPS with our date range (not contained within)
+    // Overlap condition: data.end_date >= query.start AND data.start_date <= query.end
+    const { data, error } = await supabase
+      .from('oura_data')
+      .select('*')
+      .eq('email', email)
+      .gte('end_date', start.toISOString().split('T')[0])    // data ends after our start
+      .lte('start_date', end.toISOString().split('T')[0])    // data starts before our end
+      .order('sync_date', { ascending: false })
+      .limit(1);
+
+    if (error || !data || data.length === 0) {
+      return {
+        source: 'oura',
+        available: false,
+        data: null,
+        insights: [],
+        fetchedAt: new Date().toISOString(),
+        error: error?.message || 'No Oura data found',
+      };
+    }
+
+    const ouraRecord = data[0];
+
+    // Type definitions for Oura data structures
+    interface OuraSleepRecord {
+      day?: string;
+      bedtime_start?: string;
+      bedtime_end?: string;
+      total_sleep_duration?: number;
+      deep_sleep_duration?: number;
+      rem_sleep_duration?: number;
+      light_sleep_duration?: number;
+      awake_time?: number;
+      efficiency?: number;
+      sleep_score?: number;
+    }
+
+    interface OuraReadinessRecord {
+      day?: string;
+      score?: number;
+    }
+
+    interface OuraActivityRecord {
+      day?: string;
+      steps?: number;
+      active_calories?: number;
+      sedentary_time?: number;
+      score?: number;
+    }
+
+    interface OuraHRVRecord {
+      day?: string;
+      average_hrv?: number;
+      timestamp?: string;
+    }
+
+    const sleepData = (ouraRecord.sleep_data as OuraSleepRecord[]) || [];
+    const readinessData = (ouraRecord.readiness_data as OuraReadinessRecord[]) || [];
+    const activityData = (ouraRecord.activity_data as OuraActivityRecord[]) || [];
+    const hrvData = (ouraRecord.heart_rate_data as OuraHRVRecord[]) || [];
+
+    // ========== BASIC AVERAGES ==========
+    const avgSleepHours = sleepData.length > 0
+      ? sleepData.reduce((sum, day) => sum + ((day.total_sleep_duration || 0) / 3600), 0) / sleepData.length
+      : 0;
+
+    const avgReadiness = readinessData.length > 0
+      ? readinessData.reduce((sum, day) => sum + (day.score || 0), 0) / readinessData.length
+      : 0;
+
+    const hrvValues = hrvData.filter(d => d.average_hrv).map(d => d.average_hrv!);
+    const avgHRV = hrvValues.length > 0
+      ? hrvValues.reduce((sum, v) => sum + v, 0) / hrvValues.length
+      : 0;
+
+    // ========== SLEEP ARCHITECTURE ==========
+    let sleepArchitecture: OuraData['sleepArchitecture'] = undefined;
+    if (sleepData.length > 0) {
+      const totalDeep = sleepData.reduce((sum, d) => sum + (d.deep_sleep_duration || 0), 0);
+      const totalRem = sleepData.reduce((sum, d) => sum + (d.rem_sleep_duration || 0), 0);
+      const totalLight = sleepData.reduce((sum, d) => sum + (d.light_sleep_duration || 0), 0);
+      const totalAwake = sleepData.reduce((sum, d) => sum + (d.awake_time || 0), 0);
+      const totalSleep = totalDeep + totalRem + totalLight + totalAwake;
+      const avgEfficiency = sleepData.reduce((sum, d) => sum + (d.efficiency || 0), 0) / sleepData.length;
+
+      if (totalSleep > 0) {
+        sleepArchitecture = {
+          deepSleepPercent: Math.round((totalDeep / totalSleep) * 100),
+          remSleepPercent: Math.round((totalRem / totalSleep) * 100),
+          lightSleepPercent: Math.round((totalLight / totalSleep) * 100),
+          awakePercent: Math.round((totalAwake / totalSleep) * 100),
+          avgDeepSleepMins: Math.round((totalDeep / sleepData.length) / 60),
+          avgRemSleepMins: Math.round((totalRem / sleepData.length) / 60),
+          sleepEfficiency: Math.round(avgEfficiency),
+        };
+      }
+    }
+
+    // ========== SLEEP CONSISTENCY ==========
+    let sleepConsistency: OuraData['sleepConsistency'] = undefined;
+    if (sleepData.length >= 7) {
+      const bedtimes = sleepData
+        .filter(d => d.bedtime_start)
+        .map(d => {
+          const date = new Date(d.bedtime_start!);
+          return date.getHours() * 60 + date.getMinutes();
+        });
+
+      const wakeTimes = sleepData
+        .filter(d => d.bedtime_end)
+        .map(d => {
+          const date = new Date(d.bedtime_end!);
+          return date.getHours() * 60 + date.getMinutes();
+        });
+
+      if (bedtimes.length > 0 && wakeTimes.length > 0) {
+        const avgBedtimeMins = bedtimes.reduce((a, b) => a + b, 0) / bedtimes.length;
+        const avgWakeMins = wakeTimes.reduce((a, b) => a + b, 0) / wakeTimes.length;
+
+        // Calculate standard deviation
+        const bedtimeVariance = bedtimes.reduce((sum, t) => sum + Math.pow(t - avgBedtimeMins, 2), 0) / bedtimes.length;
+        const wakeVariance = wakeTimes.reduce((sum, t) => sum + Math.pow(t - avgWakeMins, 2), 0) / wakeTimes.length;
+
+        const bedtimeStdDev = Math.sqrt(bedtimeVariance);
+        const wakeStdDev = Math.sqrt(wakeVariance);
+
+        // Format times
+        const formatTime = (mins: number) => {
+          const h = Math.floor(mins / 60) % 24;
+          const m = Math.round(mins % 60);
+          return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
+        };
+
+        // Consistency score based on variability
+        let consistencyScore: 'excellent' | 'good' | 'fair' | 'poor' = 'poor';
+        const avgVariability = (bedtimeStdDev + wakeStdDev) / 2;
+        if (avgVariability < 30) consistencyScore = 'excellent';
+        else if (avgVariability < 45) consistencyScore = 'good';
+        else if (avgVariability < 60) consistencyScore = 'fair';
+
+        sleepConsistency = {
+          avgBedtime: formatTime(avgBedtimeMins),
+          avgWakeTime: formatTime(avgWakeMins),
+          bedtimeVariability: Math.round(bedtimeStdDev),
+          wakeTimeVariability: Math.round(wakeStdDev),
+          consistencyScore,
+          socialJetLag: 0, // Would need weekday/weekend separation
+        };
+      }
+    }
+
+    // ========== HRV ANALYSIS ==========
+    let hrvAnalysis: OuraData['hrvAnalysis'] = undefined;
+    if (hrvValues.length >= 7) {
+      const baseline = hrvValues.slice(0, 7).reduce((a, b) => a + b, 0) / 7;
+      const currentAvg = hrvValues.slice(-7).reduce((a, b) => a + b, 0) / Math.min(7, hrvValues.length);
+
+      // Find highest and lowest days
+      const hrvWithDays = hrvData.filter(d => d.average_hrv && d.day);
+      const sorted = [...hrvWithDays].sort((a, b) => (a.average_hrv || 0) - (b.average_hrv || 0));
+
+      // Trend detection
+      let trend: 'improving' | 'stable' | 'declining' = 'stable';
+      if (currentAvg > baseline + 5) trend = 'improving';
+      else if (currentAvg < baseline - 5) trend = 'declining';
+
+      // Coefficient of variation
+      const mean = hrvValues.reduce((a, b) => a + b, 0) / hrvValues.length;
+      const variance = hrvValues.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / hrvValues.length;
+      const cv = (Math.sqrt(variance) / mean) * 100;
+
+      hrvAnalysis = {
+        baseline: Math.round(baseline),
+        currentAvg: Math.round(currentAvg),
+        trend,
+        lowestDay: sorted[0]?.day || 'N/A',
+        highestDay: sorted[sorted.length - 1]?.day || 'N/A',
+        morningReadiness: currentAvg >= baseline ? 'optimal' : currentAvg >= baseline * 0.85 ? 'moderate' : 'low',
+        variabilityScore: Math.round(cv),
+      };
+    }
+
+    // ========== SLEEP DEBT ==========
+    let sleepDebt: OuraData['sleepDebt'] = undefined;
+    if (sleepData.length > 0) {
+      const targetHours = 8;
+      const deficits = sleepData.map(d => targetHours - ((d.total_sleep_duration || 0) / 3600));
+      const weeklyDeficit = deficits.slice(-7).reduce((a, b) => a + Math.max(0, b), 0);
+      const accumulatedHours = deficits.reduce((a, b) => a + Math.max(0, b), 0);
+
+      sleepDebt = {
+        accumulatedHours: Math.round(accumulatedHours * 10) / 10,
+        weeklyDeficit: Math.round(weeklyDeficit * 10) / 10,
+        recoveryNeeded: weeklyDeficit > 5,
+        daysToRecover: Math.ceil(weeklyDeficit / 1.5), // ~1.5h extra per night to recover
+      };
+    }
+
+    // ========== ACTIVITY INSIGHTS ==========
+    let activityInsights: OuraData['activityInsights'] = undefined;
+    if (activityData.length > 0) {
+      const avgSteps = activityData.reduce((sum, d) => sum + (d.steps || 0), 0) / activityData.length;
+      const avgCalories = activityData.reduce((sum, d) => sum + (d.active_calories || 0), 0) / activityData.length;
+      const avgSedentary = activityData.reduce((sum, d) => sum + (d.sedentary_time || 0), 0) / activityData.length;
+
+      // Movement consistency based on step count variance
+      const stepCounts = activityData.map(d => d.steps || 0);
+      const stepMean = stepCounts.reduce((a, b) => a + b, 0) / stepCounts.length;
+      const stepVariance = stepCounts.reduce((sum, s) => sum + Math.pow(s - stepMean, 2), 0) / stepCounts.length;
+      const stepCV = stepMean > 0 ? (Math.sqrt(stepVariance) / stepMean) * 100 : 100;
+
+      let movementConsistency: 'excellent' | 'good' | 'fair' | 'poor' = 'poor';
+      if (stepCV < 20) movementConsistency = 'excellent';
+      else if (stepCV < 35) movementConsistency = 'good';
+      else if (stepCV < 50) movementConsistency = 'fair';
+
+      activityInsights = {
+        avgDailySteps: Math.round(avgSteps),
+        avgActiveCalories: Math.round(avgCalories),
+        movementConsistency,
+        sedentaryHoursPerDay: Math.round((avgSedentary / 3600) * 10) / 10,
+      };
+    }
+
+    // ========== BUILD PROCESSED DATA ==========
+    const processedData: OuraData = {
+      avgSleepHours: Math.round(avgSleepHours * 10) / 10,
+      avgReadinessScore: Math.round(avgReadiness),
+      avgHRV: Math.round(avgHRV),
+      sleepQuality: avgReadiness >= 85 ? 'excellent' : avgReadiness >= 70 ? 'good' : avgReadiness >= 55 ? 'fair' : 'poor',
+      hrvTrend: hrvAnalysis?.trend || 'stable',
+      activityLevel: activityInsights?.avgDailySteps
+        ? (activityInsights.avgDailySteps >= 10000 ? 'high' : activityInsights.avgDailySteps >= 6000 ? 'moderate' : 'low')
+        : 'moderate',
+      sleepArchitecture,
+      sleepConsistency,
+      hrvAnalysis,
+      sleepDebt,
+      activityInsights,
+      insights: [],
+      rawData: ouraRecord,
+    };
+
+    // ========== GENERATE RICH INSIGHTS ==========
+    const insights: string[] = [];
+
+    // Sleep architecture insights
+    if (sleepArchitecture) {
+      if (sleepArchitecture.deepSleepPercent < 15) {
+        insights.push(`Deep sleep comprises only ${sleepArchitecture.deepSleepPercent}% of your night — physical recovery may be compromised`);
+      }
+      if (sleepArchitecture.remSleepPercent < 20) {
+        insights.push(`REM sleep at ${sleepArchitecture.remSleepPercent}% falls below optimal — cognitive restoration needs attention`);
+      }
+      if (sleepArchitecture.sleepEfficiency < 85) {
+        insights.push(`Sleep efficiency of ${sleepArchitecture.sleepEfficiency}% suggests time in bed isn't translating to quality rest`);
+      }
+    }
+
+    // Sleep consistency insights
+    if (sleepConsistency) {
+      if (sleepConsistency.consistencyScore === 'poor') {
+        insights.push(`Bedtime varies by ${sleepConsistency.bedtimeVariability} minutes — your circadian rhythm craves regularity`);
+      }
+      if (sleepConsistency.consistencyScore === 'excellent') {
+        insights.push(`Consistent sleep schedule (±${sleepConsistency.bedtimeVariability}min) supports strong circadian alignment`);
+      }
+    }
+
+    // HRV insights
+    if (hrvAnalysis) {
+      if (hrvAnalysis.trend === 'declining') {
+        insights.push(`HRV trending downward from ${hrvAnalysis.baseline}ms baseline — your nervous system signals accumulated strain`);
+      }
+      if (hrvAnalysis.morningReadiness === 'low') {
+        insights.push(`Morning HRV at ${hrvAnalysis.currentAvg}ms (below your ${hrvAnalysis.baseline}ms baseline) suggests incomplete recovery`);
+      }
+      if (hrvAnalysis.trend === 'improving') {
+        insights.push(`HRV climbing toward ${hrvAnalysis.currentAvg}ms — recovery protocols are working`);
+      }
+    }
+
+    // Sleep debt insights
+    if (sleepDebt && sleepDebt.recoveryNeeded) {
+      insights.push(`${sleepDebt.weeklyDeficit}h sleep debt accumulated this week — ${sleepDebt.daysToRecover} nights of extended rest recommended`);
+    }
+
+    // Activity insights
+    if (activityInsights) {
+      if (activityInsights.sedentaryHoursPerDay > 10) {
+        insights.push(`${activityInsights.sedentaryHoursPerDay}h sedentary daily — movement breaks every 90 minutes would benefit recovery`);
+      }
+      if (activityInsights.movementConsistency === 'poor') {
+        insights.push('Activity levels fluctuate significantly day-to-day — consistency supports better adaptation');
+      }
+    }
+
+    // Basic fallback insights
+    if (avgSleepHours < 7 && insights.length === 0) {
+      insights.push(`Sleep averaging ${processedData.avgSleepHours}h falls short of the 7-8h your body requires for full restoration`);
+    }
+
+    if (insights.length === 0) {
+      insights.push('Recovery metrics within healthy ranges — maintain current sleep and activity patterns');
+    }
+
+    return {
+      source: 'oura',
+      available: true,
+      data: processedData,
+      insights,
+      fetchedAt: new Date().toISOString(),
+      recordCount: sleepData.length,
+      daysOfData: sleepData.length,
+    };
+  } catch (error) {
+    logger.error('Error fetching Oura data', error, { email });
+    return {
+      source: 'oura',
+      available: false,
+      data: null,
+      insights: [],
+      fetchedAt: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Transform unified Oura records to OuraData format
+ */
+function transformUnifiedToOura(records: UnifiedHealthRecord[]): EcosystemDataSource {
+  if (records.length === 0) return createEmptySource('oura');
+
+  const avgSleepHours = records
+    .filter(r => r.sleep_hours != null)
+    .reduce((sum, r, _, arr) => sum + (r.sleep_hours || 0) / arr.length, 0);
+
+  const avgReadinessScore = records
+    .filter(r => r.readiness_score != null)
+    .reduce((sum, r, _, arr) => sum + (r.readiness_score || 0) / arr.length, 0);
+
+  const avgHRV = records
+    .filter(r => r.hrv_avg != null)
+    .reduce((sum, r, _, arr) => sum + (r.hrv_avg || 0) / arr.length, 0);
+
+  return {
+    source: 'oura',
+    available: true,
+    data: {
+      avgSleepHours,
+      avgReadinessScore,
+      avgHRV,
+      sleepQuality: avgReadinessScore >= 80 ? 'excellent' : avgReadinessScore >= 60 ? 'good' : avgReadinessScore >= 40 ? 'fair' : 'poor',
+      hrvTrend: 'stable',
+      activityLevel: 'moderate',
+      insights: [],
+      rawData: records,
+    },
+    insights: [],
+    fetchedAt: new Date().toISOString(),
+    recordCount: records.length,
+    daysOfData: records.length,
+  };
+}
+
+export const ouraProvider: ProviderPlugin = {
+  id: 'oura',
+  name: 'Oura Ring',
+  description: 'Sleep, readiness, and activity tracking',
+  category: 'health',
+  icon: '💍',
+  auth: {
+    authEndpoint: '/api/oura/auth',
+    refresh: {
+      url: 'https://api.ouraring.com/oauth/token',
+      clientIdEnv: 'OURA_CLIENT_ID',
+      clientSecretEnv: 'OURA_CLIENT_SECRET',
+      clientAuth: 'body',
+    },
+  },
+  resultKey: 'oura',
+  fetch: (email, { startDate, endDate }) => fetchOuraData(email, startDate, endDate),
+  fromUnified: transformUnifiedToOura,
+  sync: endpointSync('oura', '/api/oura/sync', {
+    cadenceHours: 24,
+    autoSync: true,
+    statusMetric: 'recordCount',
+    body: (email, range) => ({ email, ...isoRangeBody(range) }),
+  }),
+  healthCheck: email => hasStoredRows('oura_data', { email }),
+};
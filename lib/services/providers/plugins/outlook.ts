@@ -0,0 +1,92 @@
+/**
+ * Outlook Provider
+ * Email and calendar patterns from Microsoft 365
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import type { EcosystemDataSource, OutlookPatterns } from '@/lib/services/ecosystem-fetcher';
+import { transformUnifiedToGmail } from './gmail';
+import { hasStoredRows, endpointSync } from '../utils';
+import { ProviderPlugin } from '../types';
+
+const logger = createLogger('OutlookProvider');
+
+/**
+ * Fetch Outlook patterns from behavioral_patterns table
+ */
+export async function fetchOutlookPatterns(email: string): Promise<EcosystemDataSource> {
+  try {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('behavioral_patterns')
+      .select('*')
+      .eq('email', email)
+      .eq('source', 'outlook')
+      .order('sync_date', { ascending: false })
+      .limit(1);
+
+    if (error || !data || data.length === 0) {
+      return {
+        source: 'outlook',
+        available: false,
+        data: null,
+        insights: [],
+        fetchedAt: new Date().toISOString(),
+        error: error?.message || 'No Outlook pattern data found',
+      };
+    }
+
+    const outlookRecord = data[0];
+    const patterns = outlookRecord.patterns as OutlookPatterns;
+
+    return {
+      source: 'outlook',
+      available: true,
+      data: patterns,
+      insights: patterns.insights || [],
+      fetchedAt: new Date().toISOString(),
+      recordCount: outlookRecord.data_points_analyzed || 0,
+    };
+  } catch (error) {
+    logger.error('Error fetching Outlook patterns', error, { email });
+    return {
+      source: 'outlook',
+      available: false,
+      data: null,
+      insights: [],
+      fetchedAt: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+export const outlookProvider: ProviderPlugin = {
+  id: 'outlook',
+  name: 'Outlook Calendar',
+  description: 'Microsoft calendar and email',
+  category: 'productivity',
+  icon: '📅',
+  auth: {
+    authEndpoint: '/api/outlook/auth',
+    refresh: {
+      url: 'https://login.microsoftonline.com/common/oauth2/v2.0/token',
+      clientIdEnv: 'OUTLOOK_CLIENT_ID',
+      clientSecretEnv: 'OUTLOOK_CLIENT_SECRET',
+      clientAuth: 'body',
+    },
+  },
+  resultKey: 'outlook',
+  fetch: email => fetchOutlookPatterns(email),
+  // Same structure as Gmail
+  fromUnified: transformUnifiedToGmail,
+  sync: endpointSync('outlook', '/api/outlook/fetch-data', {
+    cadenceHours: 24,
+    autoSync: true,
+    statusMetric: 'dataPointsAnalyzed',
+    countField: 'dataPointsAnalyzed',
+    failureMessage: 'Pattern analysis failed',
+  }),
+  healthCheck: email => hasStoredRows('behavioral_patterns', { email, source: 'outlook' }),
+};
@@ -0,0 +1,172 @@
+/**
+ * Slack Provider
+ * Message timing, after-hours activity and stress indicators
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import type { EcosystemDataSource, SlackPatterns } from '@/lib/services/ecosystem-fetcher';
+import { UnifiedHealthRecord } from '@/lib/services/unified-data';
+import { createEmptySource, hasStoredRows, endpointSync, storeBehavioralPatterns } from '../utils';
+import { ProviderPlugin } from '../types';
+
+const logger = createLogger('SlackProvider');
+
+/**
+ * Fetch Slack patterns - tries unified_health_data first, falls back to behavioral_patterns
+ */
+export async function fetchSlackPatterns(email: string): Promise<EcosystemDataSource> {
+  try {
+    const supabase = createAdminClient();
+
+    // Try unified_health_data first (Phase 7)
+    const { data: unifiedData } = await supabase
+      .from('unified_health_data')
+      .select('*')
+      .eq('email', email)
+      .eq('provider', 'slack')
+      .order('recorded_at', { ascending: false })
+      .limit(1);
+
+    if (unifiedData && unifiedData.length > 0) {
+      const record = unifiedData[0];
+      const providerData = record.provider_data as Record<string, unknown> || {};
+      const patterns = providerData.patterns as SlackPatterns || {};
+
+      // Build response from unified data
+      return {
+        source: 'slack',
+        available: true,
+        data: {
+          ...patterns,
+          // Include metrics from unified columns
+          metrics: {
+            ...patterns.metrics,
+            stressScore: record.stress_score,
+          },
+          messageVolume: {
+            ...patterns.messageVolume,
+            total: record.email_count || patterns.messageVolume?.total, // email_count used for message count
+          },
+          focusMetrics: {
+            ...patterns.focusMetrics,
+            longestFocusPeriod: record.focus_time_minutes ? record.focus_time_minutes * 60 : patterns.focusMetrics?.longestFocusPeriod,
+          },
+        },
+        insights: patterns.insights || [],
+        fetchedAt: new Date().toISOString(),
+        recordCount: record.email_count || 0,
+      };
+    }
+
+    // Fall back to legacy behavioral_patterns table
+    const { data, error } = await supabase
+      .from('behavioral_patterns')
+      .select('*')
+      .eq('email', email)
+      .eq('source', 'slack')
+      .order('sync_date', { ascending: false })
+      .limit(1);
+
+    if (error || !data || data.length === 0) {
+      return {
+        source: 'slack',
+        available: false,
+        data: null,
+        insights: [],
+        fetchedAt: new Date().toISOString(),
+        error: error?.message || 'No Slack pattern data found',
+      };
+    }
+
+    const slackRecord = data[0];
+    const patterns = slackRecord.patterns as SlackPatterns;
+
+    return {
+      source: 'slack',
+      available: true,
+      data: patterns,
+      insights: patterns.insights || [],
+      fetchedAt: new Date().toISOString(),
+      recordCount: slackRecord.data_points_analyzed || 0,
+    };
+  } catch (error) {
+    logger.error('Error fetching Slack patterns', error, { email });
+    return {
+      source: 'slack',
+      available: false,
+      data: null,
+      insights: [],
+      fetchedAt: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Transform unified Slack/Teams records to SlackPatterns format
+ */
+export function transformUnifiedToSlack(records: UnifiedHealthRecord[]): EcosystemDataSource {
+  if (records.length === 0) return createEmptySource('slack');
+
+  const avgStressScore = records
+    .filter(r => r.stress_score != null)
+    .reduce((sum, r, _, arr) => sum + (r.stress_score || 0) / arr.length, 0);
+
+  return {
+    source: 'slack',
+    available: true,
+    data: {
+      messageVolume: {
+        avgPerDay: 0,
+        peakHours: [],
+        afterHoursPercentage: 0,
+      },
+      workHours: {
+        start: '09:00',
+        end: '17:00',
+        weekendActivity: false,
+      },
+      collaborationIntensity: avgStressScore > 60 ? 'high' : avgStressScore > 30 ? 'moderate' : 'low',
+      stressIndicators: {
+        constantAvailability: false,
+        lateNightMessages: false,
+        noBreakPeriods: false,
+      },
+      insights: [],
+    },
+    insights: [],
+    fetchedAt: new Date().toISOString(),
+    recordCount: records.length,
+    daysOfData: records.length,
+  };
+}
+
+export const slackProvider: ProviderPlugin = {
+  id: 'slack',
+  name: 'Slack',
+  description: 'Team messaging and channels',
+  category: 'communication',
+  icon: '💬',
+  auth: {
+    authEndpoint: '/api/slack/auth',
+    refresh: {
+      url: 'https://slack.com/api/oauth.v2.access',
+      clientIdEnv: 'SLACK_CLIENT_ID',
+      clientSecretEnv: 'SLACK_CLIENT_SECRET',
+      clientAuth: 'body',
+    },
+  },
+  resultKey: 'slack',
+  fetch: email => fetchSlackPatterns(email),
+  fromUnified: transformUnifiedToSlack,
+  sync: endpointSync('slack', '/api/slack/fetch-data', {
+    cadenceHours: 24,
+    autoSync: true,
+    statusMetric: 'messagesAnalyzed',
+    countField: 'messagesAnalyzed',
+    failureMessage: 'Pattern analysis failed',
+    onSuccess: (email, result) => storeBehavioralPatterns(email, 'slack', result),
+  }),
+  healthCheck: email => hasStoredRows('behavioral_patterns', { email, source: 'slack' }),
+};
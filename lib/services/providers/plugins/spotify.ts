@@ -0,0 +1,260 @@
+/**
+ * Spotify Provider
+ * Listening patterns and mood from audio features
+ */
+
+import { createLogger } from '@/lib/utils/logger';
+import type { EcosystemDataSource, SpotifyData } from '@/lib/services/ecosystem-fetcher';
+import { UnifiedHealthRecord } from '@/lib/services/unified-data';
+import { createEmptySource } from '../utils';
+import { ProviderPlugin } from '../types';
+
+const logger = createLogger('SpotifyProvider');
+
+/**
+ * Fetch Spotify listening data and analyze mood from audio features
+ */
+export async function fetchSpotifyData(email: string): Promise<EcosystemDataSource> {
+  try {
+    // Use token manager to get valid access token (handles refresh automatically)
+    const { getAccessToken } = await import('@/lib/services/token-manager');
+    const { token: accessToken, error: tokenError } = await getAccessToken(email, 'spotify');
+
+    if (!accessToken) {
+      return {
+        source: 'spotify',
+        available: false,
+        data: null,
+        insights: [],
+        fetchedAt: new Date().toISOString(),
+        error: tokenError || 'Spotify not connected or token expired - please reconnect',
+      };
+    }
+
+    // Fetch recently played tracks
+    const recentlyPlayedResponse = await fetch(
+      'https://api.spotify.com/v1/me/player/recently-played?limit=50',
+      { headers: { Authorization: `Bearer ${accessToken}` } }
+    );
+
+    if (!recentlyPlayedResponse.ok) {
+      throw new Error(`Spotify API error: ${recentlyPlayedResponse.status}`);
+    }
+
+    const recentlyPlayed = await recentlyPlayedResponse.json();
+    const items = recentlyPlayed.items || [];
+
+    if (items.length === 0) {
+      return {
+        source: 'spotify',
+        available: false,
+        data: null,
+        insights: [],
+        fetchedAt: new Date().toISOString(),
+        error: 'No recent listening history',
+      };
+    }
+
+    // Extract track IDs for audio features
+    const trackIds = items.map((item: any) => item.track.id).join(',');
+
+    // Fetch audio features for tracks
+    const audioFeaturesResponse = await fetch(
+      `https://api.spotify.com/v1/audio-features?ids=${trackIds}`,
+      { headers: { Authorization: `Bearer ${accessToken}` } }
+    );
+
+    const audioFeaturesData = await audioFeaturesResponse.json();
+    const audioFeatures = audioFeaturesData.audio_features?.filter((f: any) => f) || [];
+
+    // Calculate averages
+    const avgEnergy = audioFeatures.length > 0
+      ? audioFeatures.reduce((sum: number, f: any) => sum + (f.energy || 0), 0) / audioFeatures.length
+      : 0.5;
+    const avgValence = audioFeatures.length > 0
+      ? audioFeatures.reduce((sum: number, f: any) => sum + (f.valence || 0), 0) / audioFeatures.length
+      : 0.5;
+    const avgTempo = audioFeatures.length > 0
+      ? audioFeatures.reduce((sum: number, f: any) => sum + (f.tempo || 0), 0) / audioFeatures.length
+      : 120;
+    const avgDanceability = audioFeatures.length > 0
+      ? audioFeatures.reduce((sum: number, f: any) => sum + (f.danceability || 0), 0) / audioFeatures.length
+      : 0.5;
+
+    // Calculate valence variance for emotional volatility
+    const valenceValues = audioFeatures.map((f: any) => f.valence || 0.5);
+    const valenceVariance = valenceValues.length > 1
+      ? valenceValues.reduce((sum: number, v: number) => sum + Math.pow(v - avgValence, 2), 0) / valenceValues.length
+      : 0;
+    const emotionalVolatility: 'low' | 'medium' | 'high' =
+      valenceVariance < 0.02 ? 'low' : valenceVariance < 0.05 ? 'medium' : 'high';
+
+    // Infer mood from audio features
+    let inferredMood: SpotifyData['inferredMood'] = 'mixed';
+    let moodConfidence = 0.5;
+
+    if (avgValence > 0.6 && avgEnergy > 0.6) {
+      inferredMood = 'happy';
+      moodConfidence = Math.min(avgValence, avgEnergy);
+    } else if (avgValence > 0.6 && avgEnergy < 0.4) {
+      inferredMood = 'calm';
+      moodConfidence = avgValence * (1 - avgEnergy);
+    } else if (avgValence < 0.4 && avgEnergy > 0.6) {
+      inferredMood = 'anxious';
+      moodConfidence = (1 - avgValence) * avgEnergy;
+    } else if (avgValence < 0.4 && avgEnergy < 0.4) {
+      inferredMood = 'melancholy';
+      moodConfidence = (1 - avgValence) * (1 - avgEnergy);
+    } else if (avgEnergy > 0.7) {
+      inferredMood = 'energetic';
+      moodConfidence = avgEnergy;
+    } else if (avgValence > 0.4 && avgValence < 0.6 && avgEnergy > 0.4 && avgEnergy < 0.7) {
+      inferredMood = 'focused';
+      moodConfidence = 0.6;
+    }
+
+    // Analyze listening patterns
+    const playedHours = items.map((item: any) => {
+      const date = new Date(item.played_at);
+      return date.getHours();
+    });
+
+    const hourCounts: Record<number, number> = {};
+    playedHours.forEach((hour: number) => {
+      hourCounts[hour] = (hourCounts[hour] || 0) + 1;
+    });
+
+    const sortedHours = Object.entries(hourCounts)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 3)
+      .map(([hour]) => `${hour}:00`);
+
+    // Check for late night listening (after 11pm)
+    const lateNightCount = playedHours.filter((h: number) => h >= 23 || h < 5).length;
+    const lateNightListening = lateNightCount > items.length * 0.2;
+
+    // Build recent tracks array
+    const recentTracks = items.slice(0, 20).map((item: any) => ({
+      id: item.track.id,
+      name: item.track.name,
+      artist: item.track.artists.map((a: any) => a.name).join(', '),
+      playedAt: item.played_at,
+      durationMs: item.track.duration_ms,
+    }));
+
+    // Generate insights
+    const insights: string[] = [];
+
+    if (avgValence < 0.3) {
+      insights.push(`Recent music choices reflect lower mood (valence ${Math.round(avgValence * 100)}%) — music can influence and reflect emotional state`);
+    } else if (avgValence > 0.7) {
+      insights.push(`High-valence music selections (${Math.round(avgValence * 100)}%) suggest positive emotional state`);
+    }
+
+    if (lateNightListening) {
+      insights.push('Significant late-night listening activity detected — may indicate sleep difficulties or stress');
+    }
+
+    if (emotionalVolatility === 'high') {
+      insights.push('High variability in music mood — could reflect emotional fluctuations');
+    }
+
+    if (avgEnergy > 0.8) {
+      insights.push(`High-energy music preference (${Math.round(avgEnergy * 100)}%) — great for motivation, but consider calming music before sleep`);
+    }
+
+    const processedData: SpotifyData = {
+      recentTracks,
+      avgEnergy: Math.round(avgEnergy * 100) / 100,
+      avgValence: Math.round(avgValence * 100) / 100,
+      avgTempo: Math.round(avgTempo),
+      avgDanceability: Math.round(avgDanceability * 100) / 100,
+      inferredMood,
+      moodConfidence: Math.round(moodConfidence * 100) / 100,
+      listeningHours: sortedHours,
+      avgTracksPerDay: Math.round(items.length / 7), // Approximate
+      topGenres: [], // Would need additional API call
+      moodTrend: 'stable', // Would need historical comparison
+      lateNightListening,
+      emotionalVolatility,
+      insights,
+      rawData: { recentlyPlayed, audioFeatures },
+    };
+
+    return {
+      source: 'spotify',
+      available: true,
+      data: processedData,
+      insights,
+      fetchedAt: new Date().toISOString(),
+      recordCount: items.length,
+    };
+  } catch (error) {
+    logger.error('Error fetching Spotify data', error, { email });
+    return {
+      source: 'spotify',
+      available: false,
+      data: null,
+      insights: [],
+      fetchedAt: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Transform unified Spotify records
+ */
+function transformUnifiedToSpotify(records: UnifiedHealthRecord[]): EcosystemDataSource {
+  if (records.length === 0) return createEmptySource('spotify');
+
+  const avgMoodScore = records
+    .filter(r => r.mood_score != null)
+    .reduce((sum, r, _, arr) => sum + (r.mood_score || 0) / arr.length, 0);
+
+  return {
+    source: 'spotify',
+    available: true,
+    data: {
+      recentTracks: [],
+      avgEnergy: 0.5,
+      avgValence: avgMoodScore / 100, // Convert 0-100 to 0-1
+      avgTempo: 120,
+      avgDanceability: 0.5,
+      inferredMood: avgMoodScore >= 70 ? 'happy' : avgMoodScore >= 40 ? 'calm' : 'melancholy',
+      moodConfidence: 0.5,
+      listeningHours: [],
+      avgTracksPerDay: 0,
+      topGenres: [],
+      moodTrend: 'stable',
+      lateNightListening: false,
+      emotionalVolatility: 'low',
+      insights: [],
+      rawData: records,
+    },
+    insights: [],
+    fetchedAt: new Date().toISOString(),
+    recordCount: records.length,
+    daysOfData: records.length,
+  };
+}
+
+export const spotifyProvider: ProviderPlugin = {
+  id: 'spotify',
+  name: 'Spotify',
+  description: 'Listening patterns and music mood',
+  category: 'lifestyle',
+  icon: '🎧',
+  auth: {
+    authEndpoint: '/api/spotify/auth',
+    refresh: {
+      url: 'https://accounts.spotify.com/api/token',
+      clientIdEnv: 'SPOTIFY_CLIENT_ID',
+      clientSecretEnv: 'SPOTIFY_CLIENT_SECRET',
+      clientAuth: 'body',
+    },
+  },
+  resultKey: 'spotify',
+  fetch: email => fetchSpotifyData(email),
+  fromUnified: transformUnifiedToSpotify,
+};
@@ -0,0 +1,29 @@
+/**
+ * Strava Provider
+ * Running, cycling and workout activities
+ */
+
+import { endpointSync } from '../utils';
+import { ProviderPlugin } from '../types';
+
+export const stravaProvider: ProviderPlugin = {
+  id: 'strava',
+  name: 'Strava',
+  description: 'Running, cycling, and workout activities',
+  category: 'health',
+  icon: '🏃',
+  auth: {
+    authEndpoint: '/api/strava/auth',
+    refresh: {
+      url: 'https://www.strava.com/oauth/token',
+      clientIdEnv: 'STRAVA_CLIENT_ID',
+      clientSecretEnv: 'STRAVA_CLIENT_SECRET',
+      clientAuth: 'body',
+    },
+  },
+  sync: endpointSync('strava', '/api/strava/sync', {
+    cadenceHours: 24,
+    autoSync: false,
+    statusMetric: 'recordCount',
+  }),
+};
@@ -0,0 +1,86 @@
+/**
+ * Microsoft Teams Provider
+ * Chat message patterns
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import type { EcosystemDataSource, TeamsPatterns } from '@/lib/services/ecosystem-fetcher';
+import { transformUnifiedToSlack } from './slack';
+import { hasStoredRows, endpointSync } from '../utils';
+import { ProviderPlugin } from '../types';
+
+const logger = createLogger('TeamsProvider');
+
+/**
+ * Fetch Teams patterns from behavioral_patterns table
+ */
+export async function fetchTeamsPatterns(email: string): Promise<EcosystemDataSource> {
+  try {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('behavioral_patterns')
+      .select('*')
+      .eq('email', email)
+      .eq('source', 'teams')
+      .order('sync_date', { ascending: false })
+      .limit(1);
+
+    if (error || !data || data.length === 0) {
+      return {
+        source: 'teams',
+        available: false,
+        data: null,
+        insights: [],
+        fetchedAt: new Date().toISOString(),
+        error: error?.message || 'No Teams pattern data found',
+      };
+    }
+
+    const teamsRecord = data[0];
+    const patterns = teamsRecord.patterns as TeamsPatterns;
+
+    return {
+      source: 'teams',
+      available: true,
+      data: patterns,
+      insights: patterns.insights || [],
+      fetchedAt: new Date().toISOString(),
+      recordCount: teamsRecord.data_points_analyzed || 0,
+    };
+  } catch (error) {
+    logger.error('Error fetching Teams patterns', error, { email });
+    return {
+      source: 'teams',
+      available: false,
+      data: null,
+      insights: [],
+      fetchedAt: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+export const teamsProvider: ProviderPlugin = {
+  id: 'teams',
+  name: 'Microsoft Teams',
+  description: 'Team collaboration and meetings',
+  category: 'communication',
+  icon: '👥',
+  auth: {
+    authEndpoint: '/api/teams/auth',
+  },
+  resultKey: 'teams',
+  fetch: email => fetchTeamsPatterns(email),
+  // Same structure as Slack
+  fromUnified: transformUnifiedToSlack,
+  sync: endpointSync('teams', '/api/teams/fetch-data', {
+    cadenceHours: 24,
+    autoSync: true,
+    statusMetric: 'messagesAnalyzed',
+    countField: 'dataPointsAnalyzed',
+    failureMessage: 'Pattern analysis failed',
+  }),
+  healthCheck: email => hasStoredRows('behavioral_patterns', { email, source: 'teams' }),
+};
@@ -0,0 +1,98 @@
+/**
+ * Vital Provider
+ * Aggregated health data from devices linked through Vital
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import type { EcosystemDataSource, VitalData } from '@/lib/services/ecosystem-fetcher';
+import { hasStoredRows, endpointSync, dateRangeBody } from '../utils';
+import { ProviderPlugin } from '../types';
+
+const logger = createLogger('VitalProvider');
+
+/**
+ * Fetch Vital unified health data from database
+ */
+export async function fetchVitalData(
+  email: string,
+  startDate?: Date,
+  endDate?: Date
+): Promise<EcosystemDataSource> {
+  try {
+    const supabase = createAdminClient();
+    const end = endDate || new Date();
+    const start = startDate || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+
+    const { data, error } = await supabase
+      .from('vital_data')
+      .select('*')
+      .eq('email', email)
+      .gte('start_date', start.toISOString().split('T')[0])
+      .lte('end_date', end.toISOString().split('T')[0])
+      .order('sync_date', { ascending: false })
+      .limit(1);
+
+    if (error || !data || data.length === 0) {
+      return {
+        source: 'vital',
+        available: false,
+        data: null,
+        insights: [],
+        fetchedAt: new Date().toISOString(),
+        error: error?.message || 'No Vital data found',
+      };
+    }
+
+    const vitalRecord = data[0];
+    const processedData: VitalData = {
+      connectedProviders: (vitalRecord.connected_providers as string[]) || [],
+      sleepData: vitalRecord.sleep_data,
+      activityData: vitalRecord.activity_data,
+      bodyData: vitalRecord.body_data,
+      glucoseData: vitalRecord.glucose_data,
+      workoutsData: vitalRecord.workouts_data,
+      insights: [],
+      rawData: vitalRecord,
+    };
+
+    const insights: string[] = [];
+    insights.push(`Connected providers: ${processedData.connectedProviders.join(', ')}`);
+
+    return {
+      source: 'vital',
+      available: true,
+      data: processedData,
+      insights,
+      fetchedAt: new Date().toISOString(),
+      recordCount: processedData.connectedProviders.length,
+    };
+  } catch (error) {
+    logger.error('Error fetching Vital data', error, { email });
+    return {
+      source: 'vital',
+      available: false,
+      data: null,
+      insights: [],
+      fetchedAt: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+export const vitalProvider: ProviderPlugin = {
+  id: 'vital',
+  name: 'Vital',
+  description: 'Health data from devices linked through Vital',
+  category: 'health',
+  icon: '🔗',
+  resultKey: 'vital',
+  fetch: (email, { startDate, endDate }) => fetchVitalData(email, startDate, endDate),
+  sync: endpointSync('vital', '/api/vital/sync', {
+    cadenceHours: 24,
+    autoSync: true,
+    statusMetric: 'recordCount',
+    body: (email, range) => ({ email, ...dateRangeBody(range) }),
+  }),
+  healthCheck: email => hasStoredRows('vital_data', { email }),
+};
@@ -0,0 +1,93 @@
+/**
+ * Provider Registry
+ *
+ * Every integration is registered here once. Adding a provider means writing
+ * its plugin module under ./plugins and listing it below.
+ */
+
+import { bloodBiomarkersProvider } from './plugins/blood-biomarkers';
+import { ouraProvider } from './plugins/oura';
+import { dexcomProvider } from './plugins/dexcom';
+import { vitalProvider } from './plugins/vital';
+import { gmailProvider } from './plugins/gmail';
+import { slackProvider } from './plugins/slack';
+import { outlookProvider } from './plugins/outlook';
+import { teamsProvider } from './plugins/teams';
+import { whoopProvider } from './plugins/whoop';
+import { spotifyProvider } from './plugins/spotify';
+import { notionProvider } from './plugins/notion';
+import { linearProvider } from './plugins/linear';
+import { appleHealthProvider } from './plugins/apple-health';
+import { garminProvider } from './plugins/garmin';
+import { googleFitProvider } from './plugins/google-fit';
+import { fitbitProvider } from './plugins/fitbit';
+import { stravaProvider } from './plugins/strava';
+import {
+  ConnectableProviderPlugin,
+  EcosystemProviderPlugin,
+  ProviderPlugin,
+  ProviderRefreshConfig,
+  SyncableProviderPlugin,
+} from './types';
+
+/** Registration order is the order sources are fetched and synced in */
+export const PROVIDER_PLUGINS: readonly ProviderPlugin[] = [
+  bloodBiomarkersProvider,
+  ouraProvider,
+  dexcomProvider,
+  vitalProvider,
+  gmailProvider,
+  slackProvider,
+  outlookProvider,
+  teamsProvider,
+  whoopProvider,
+  spotifyProvider,
+  notionProvider,
+  linearProvider,
+  appleHealthProvider,
+  garminProvider,
+  googleFitProvider,
+  fitbitProvider,
+  stravaProvider,
+];
+
+const pluginsById = new Map(PROVIDER_PLUGINS.map(plugin => [plugin.id, plugin]));
+
+/**
+ * Look up a plugin by provider id (e.g. 'oura', 'google_fit')
+ */
+export function getProviderPlugin(id: string): ProviderPlugin | undefined {
+  return pluginsById.get(id);
+}
+
+/**
+ * Plugins that contribute a source to EcosystemFetchResult
+ */
+export function getEcosystemProviders(): EcosystemProviderPlugin[] {
+  return PROVIDER_PLUGINS.filter(
+    (plugin): plugin is EcosystemProviderPlugin => !!plugin.resultKey && !!plugin.fetch
+  );
+}
+
+/**
+ * Plugins that auto-sync keeps fresh
+ */
+export function getAutoSyncProviders(): SyncableProviderPlugin[] {
+  return PROVIDER_PLUGINS.filter(
+    (plugin): plugin is SyncableProviderPlugin => !!plugin.sync?.autoSync
+  );
+}
+
+/**
+ * Plugins a user can connect through OAuth
+ */
+export function getConnectableProviders(): ConnectableProviderPlugin[] {
+  return PROVIDER_PLUGINS.filter((plugin): plugin is ConnectableProviderPlugin => !!plugin.auth);
+}
+
+/**
+ * Token refresh settings for a provider, if it supports refresh
+ */
+export function getRefreshConfig(id: string): ProviderRefreshConfig | undefined {
+  return pluginsById.get(id)?.auth?.refresh;
+}
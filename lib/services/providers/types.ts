@@ -0,0 +1,89 @@
+/**
+ * Provider Plugin Types
+ *
+ * Contract each integration implements. The ecosystem fetcher, auto-sync,
+ * token manager and admin connectors page iterate the registry of these
+ * instead of keeping their own hard-coded provider lists.
+ */
+
+import type { EcosystemDataSource, EcosystemSourceKey } from '@/lib/services/ecosystem-fetcher';
+import type { UnifiedHealthRecord } from '@/lib/services/unified-data';
+
+export type ProviderCategory = 'health' | 'productivity' | 'communication' | 'lifestyle';
+
+export interface ProviderRefreshConfig {
+  url: string;
+  clientIdEnv: string;
+  clientSecretEnv: string;
+  /** 'basic' sends client credentials as HTTP Basic auth, 'body' posts them as form fields */
+  clientAuth: 'basic' | 'body';
+  /** Scope re-requested on refresh, for providers that otherwise stop issuing refresh tokens */
+  scope?: string;
+}
+
+export interface ProviderAuthConfig {
+  /** Route returning { authUrl } to start the OAuth flow */
+  authEndpoint: string;
+  /** Omitted when the provider's tokens don't expire or can't be refreshed */
+  refresh?: ProviderRefreshConfig;
+}
+
+export interface ProviderFetchOptions {
+  planType: 'sage' | 'forge';
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface SyncRange {
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface SyncResult {
+  source: string;
+  success: boolean;
+  recordCount?: number;
+  error?: string;
+  syncedAt: string;
+}
+
+export interface ProviderSyncConfig {
+  /** Route that pulls fresh data from the provider and persists it */
+  endpoint: string;
+  /** Hours before previously synced data is considered stale */
+  cadenceHours: number;
+  /** Include in autoSyncEcosystemData runs (otherwise only synced on demand) */
+  autoSync: boolean;
+  /** Key the record count is stored under in ecosystem_sync_status */
+  statusMetric: string;
+  run: (email: string, range: SyncRange) => Promise<SyncResult>;
+}
+
+export interface ProviderPlugin {
+  /** Provider key used in integration_tokens, unified_health_data and sync status */
+  id: string;
+  name: string;
+  description: string;
+  category: ProviderCategory;
+  icon: string;
+  auth?: ProviderAuthConfig;
+  /** Field this provider fills on EcosystemFetchResult */
+  resultKey?: EcosystemSourceKey;
+  /** Read the provider's stored data for insight generation */
+  fetch?: (email: string, options: ProviderFetchOptions) => Promise<EcosystemDataSource>;
+  /** Rebuild the ecosystem source from unified_health_data records */
+  fromUnified?: (records: UnifiedHealthRecord[]) => EcosystemDataSource;
+  sync?: ProviderSyncConfig;
+  /** Whether stored data actually exists for the user (guards against stale sync timestamps) */
+  healthCheck?: (email: string) => Promise<boolean>;
+}
+
+/** A plugin that contributes a source to EcosystemFetchResult */
+export type EcosystemProviderPlugin = ProviderPlugin &
+  Required<Pick<ProviderPlugin, 'resultKey' | 'fetch'>>;
+
+/** A plugin that can be connected through OAuth */
+export type ConnectableProviderPlugin = ProviderPlugin & Required<Pick<ProviderPlugin, 'auth'>>;
+
+/** A plugin that auto-sync keeps fresh */
+export type SyncableProviderPlugin = ProviderPlugin & Required<Pick<ProviderPlugin, 'sync'>>;
@@ -0,0 +1,102 @@
+/**
+ * Unified Wearable Helpers
+ * Shared fetch/transform for wearable providers that have no legacy table
+ * and are read straight from unified_health_data (Garmin, Google Fit)
+ */
+
+import { createLogger } from '@/lib/utils/logger';
+import type { EcosystemDataSource } from '@/lib/services/ecosystem-fetcher';
+import { getUnifiedHealthData, UnifiedHealthRecord } from '@/lib/services/unified-data';
+import { createEmptySource } from './utils';
+
+const logger = createLogger('UnifiedWearableProvider');
+
+/**
+ * Read a wearable provider that has no legacy table from the unified health table
+ */
+export async function fetchWearableFromUnified(
+  email: string,
+  provider: 'garmin' | 'google_fit',
+  source: string,
+  startDate?: Date,
+  endDate?: Date
+): Promise<EcosystemDataSource> {
+  try {
+    const start = startDate || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    const end = endDate || new Date();
+    const days = Math.max(1, Math.ceil((Date.now() - start.getTime()) / (24 * 60 * 60 * 1000)));
+
+    const records = (await getUnifiedHealthData(email, { days, providers: [provider] }))
+      .filter(r => new Date(r.recorded_at) <= end);
+
+    if (records.length === 0) {
+      return {
+        ...createEmptySource(source),
+        error: `No ${source} data found`,
+      };
+    }
+
+    return transformUnifiedToWearable(source, records);
+  } catch (error) {
+    logger.error(`Error fetching ${source} data`, error, { email });
+    return {
+      ...createEmptySource(source),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Transform unified Garmin/Google Fit records into averaged wearable metrics
+ */
+export function transformUnifiedToWearable(source: string, records: UnifiedHealthRecord[]): EcosystemDataSource {
+  if (records.length === 0) return createEmptySource(source);
+
+  const average = (values: Array<number | undefined>): number | null => {
+    const present = values.filter((v): v is number => v != null);
+    if (present.length === 0) return null;
+    return Math.round((present.reduce((sum, v) => sum + v, 0) / present.length) * 10) / 10;
+  };
+
+  const sleep = records.filter(r => r.data_type === 'sleep');
+  const activity = records.filter(r => r.data_type === 'activity');
+  const workouts = records.filter(r => r.data_type === 'workout');
+
+  const data = {
+    avgSleepHours: average(sleep.map(r => r.sleep_duration_hours)),
+    avgSleepScore: average(sleep.map(r => r.sleep_score)),
+    avgDeepSleepMinutes: average(sleep.map(r => r.deep_sleep_minutes)),
+    avgRemSleepMinutes: average(sleep.map(r => r.rem_sleep_minutes)),
+    avgHRV: average(records.map(r => r.hrv_avg)),
+    avgRestingHR: average(records.map(r => r.resting_hr)),
+    avgSteps: average(activity.map(r => r.steps)),
+    avgActiveCalories: average(activity.map(r => r.active_calories)),
+    avgStressScore: average(records.map(r => r.stress_score)),
+    avgBodyBattery: average(records.map(r => r.body_battery)),
+    workoutCount: workouts.length,
+    workoutTypes: [...new Set(workouts.map(r => r.workout_type).filter(Boolean))],
+  };
+
+  const insights: string[] = [];
+  if (data.avgSleepHours != null && data.avgSleepHours < 6.5) {
+    insights.push(`Averaging ${data.avgSleepHours}h of sleep, below the 7-9h target.`);
+  }
+  if (data.avgStressScore != null && data.avgStressScore > 50) {
+    insights.push(`Average stress level is elevated (${data.avgStressScore}/100).`);
+  }
+  if (data.avgBodyBattery != null && data.avgBodyBattery < 50) {
+    insights.push(`Body Battery is peaking at only ${data.avgBodyBattery}/100 on average - recovery may be lagging.`);
+  }
+
+  const days = new Set(records.map(r => new Date(r.recorded_at).toISOString().split('T')[0]));
+
+  return {
+    source,
+    available: true,
+    data: { ...data, insights, rawData: records },
+    insights,
+    fetchedAt: new Date().toISOString(),
+    recordCount: records.length,
+    daysOfData: days.size,
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * Provider Plugin Helpers
+ * Shared building blocks for provider fetch, sync and health check implementations
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import type { EcosystemDataSource } from '@/lib/services/ecosystem-fetcher';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
+import { ProviderSyncConfig, SyncRange, SyncResult } from './types';
+
+type SyncEndpointResponse = { error?: string } & Record<string, unknown>;
+
+interface EndpointSyncOptions extends Omit<ProviderSyncConfig, 'endpoint' | 'run'> {
+  /** Request body for a sync; defaults to { email } */
+  body?: (email: string, range: SyncRange) => Record<string, unknown>;
+  /** Response field holding the number of records processed */
+  countField?: string;
+  failureMessage?: string;
+  onSuccess?: (email: string, result: SyncEndpointResponse) => Promise<void>;
+}
+
+/**
+ * Create an empty data source
+ */
+export function createEmptySource(source: string): EcosystemDataSource {
+  return {
+    source,
+    available: false,
+    data: null,
+    insights: [],
+    fetchedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Check that at least one row exists for the given column filters
+ */
+export async function hasStoredRows(table: string, filters: Record<string, string>): Promise<boolean> {
+  const supabase = await createClient();
+
+  let query = supabase.from(table).select('id');
+  for (const [column, value] of Object.entries(filters)) {
+    query = query.eq(column, value);
+  }
+
+  const { data } = await query.limit(1);
+  return data !== null && data.length > 0;
+}
+
+/**
+ * Sync range as full ISO timestamps
+ */
+export function isoRangeBody(range: SyncRange): { startDate: string; endDate: string } {
+  return {
+    startDate: range.startDate.toISOString(),
+    endDate: range.endDate.toISOString(),
+  };
+}
+
+/**
+ * Sync range as YYYY-MM-DD dates
+ */
+export function dateRangeBody(range: SyncRange): { startDate: string; endDate: string } {
+  return {
+    startDate: range.startDate.toISOString().split('T')[0],
+    endDate: range.endDate.toISOString().split('T')[0],
+  };
+}
+
+/**
+ * Sync a provider by calling its existing API endpoint
+ */
+async function syncViaEndpoint(
+  source: string,
+  endpoint: string,
+  body: Record<string, unknown>,
+  options: {
+    /** Response field holding the number of records processed */
+    countField?: string;
+    failureMessage?: string;
+    onSuccess?: (result: SyncEndpointResponse) => Promise<void>;
+  } = {}
+): Promise<SyncResult> {
+  const { countField = 'recordCount', failureMessage = 'Sync failed', onSuccess } = options;
+
+  try {
+    const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || ''}${endpoint}`, {
+      method: 'POST',
+      headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify(body),
+    });
+
+    const result: SyncEndpointResponse = await response.json();
+
+    if (!response.ok) {
+      return {
+        source,
+        success: false,
+        error: result.error || failureMessage,
+        syncedAt: new Date().toISOString(),
+      };
+    }
+
+    if (onSuccess) {
+      await onSuccess(result);
+    }
+
+    return {
+      source,
+      success: true,
+      recordCount: Number(result[countField]) || 0,
+      syncedAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    return {
+      source,
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      syncedAt: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Sync config for a provider whose own API route pulls and stores its data:
+ * runs POST to the same endpoint the admin connectors page calls
+ */
+export function endpointSync(
+  source: string,
+  endpoint: string,
+  { body = email => ({ email }), countField, failureMessage, onSuccess, ...config }: EndpointSyncOptions
+): ProviderSyncConfig {
+  return {
+    ...config,
+    endpoint,
+    run: (email, range) => syncViaEndpoint(source, endpoint, body(email, range), {
+      countField,
+      failureMessage,
+      onSuccess: onSuccess && (result => onSuccess(email, result)),
+    }),
+  };
+}
+
+/**
+ * Sync result from a provider service called in-process, for providers whose
+ * fetch-data route only serves the signed-in user
+ */
+export function serviceSyncResult(
+  source: string,
+  result: { success: boolean; recordCount: number; error?: string }
+): SyncResult {
+  return result.success
+    ? { source, success: true, recordCount: result.recordCount, syncedAt: new Date().toISOString() }
+    : { source, success: false, error: result.error || 'Sync failed', syncedAt: new Date().toISOString() };
+}
+
+/**
+ * Store patterns returned by a fetch-data endpoint in behavioral_patterns
+ */
+export async function storeBehavioralPatterns(
+  email: string,
+  source: string,
+  result: SyncEndpointResponse
+): Promise<void> {
+  const supabase = await createClient();
+
+  await supabase.from('behavioral_patterns').insert({
+    email,
+    source,
+    patterns: result.patterns || {},
+    metrics: result.metrics || {},
+    data_period_start: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+    data_period_end: new Date().toISOString().split('T')[0],
+    data_points_analyzed: result.messagesAnalyzed || 0,
+  });
+}
@@ -0,0 +1,26 @@
+/**
+ * Replenishment Errors
+ *
+ * @module lib/services/replenishment/errors
+ */
+
+import { ReplenishmentErrorReason } from './types';
+
+/**
+ * A subscription change that was refused, as opposed to a failure reaching
+ * the database. Routes answer these with a 4xx.
+ */
+export class ReplenishmentError extends Error {
+  constructor(
+    public readonly reason: ReplenishmentErrorReason,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ReplenishmentError';
+  }
+
+  /** HTTP status a route should answer with */
+  get status(): number {
+    return this.reason === 'invalid_state' ? 409 : 422;
+  }
+}
@@ -0,0 +1,894 @@
+/**
+ * Supplement Replenishment
+ *
+ * Recurring shipments of catalog supplements. Each subscription ships one
+ * product on a cadence computed from the container size and the user's
+ * dosage (see ./schedule); subscriptions due on the same day ship as one
+ * order and one off-session Stripe charge to the user's saved card.
+ *
+ * The supplement-replenishment cron runs daily: it resumes pauses that have
+ * ended, reminds users a few days before a shipment so they can skip or
+ * swap, swaps out-of-stock products for an in-stock equivalent (see
+ * ./substitution) and charges and places due orders. Repeated payment
+ * failures pause the subscription.
+ *
+ * @module lib/services/replenishment
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import type Stripe from 'stripe';
+import {
+  calculateOrderTotal,
+  cancelPaymentIntent,
+  confirmOffSessionPayment,
+  createOffSessionPayment,
+  createRefund,
+  formatAmountForStripe,
+  getDefaultPaymentMethodId,
+  retrievePaymentIntent,
+} from '@/lib/stripe';
+import { NotificationCoordinator } from '../notification-coordinator';
+import { createReplenishmentOrder, getOrderByPaymentIntent, type ShippingAddress } from '../orders';
+import {
+  ProductMatch,
+  SupplementProductRow,
+  calculatePerDayPrice,
+  productMatchFromRow,
+  validateProductAvailability,
+} from '../supplement-matching';
+import { searchCatalog } from '../supplement-catalog';
+import {
+  checkCartAddition,
+  evaluateStack,
+  issuesFor,
+  loadStackSafety,
+  stackItemFromProduct,
+  type SafetyAnnotation,
+} from '../supplement-safety';
+import { normalizeCatalogText } from '../supplement-catalog/ranking';
+import { ReplenishmentError } from './errors';
+import {
+  MAX_PAYMENT_ATTEMPTS,
+  REMINDER_DAYS_BEFORE,
+  addDays,
+  estimateCadence,
+  firstShipDate,
+  isDueForShipment,
+  needsReminder,
+  nextShipDate,
+  resumeShipDate,
+  savedChargeAction,
+  shouldResume,
+  toDateString,
+} from './schedule';
+import { rankSubstitutes, substituteQuery } from './substitution';
+import {
+  ReplenishmentInput,
+  ReplenishmentJobSummary,
+  ReplenishmentSubscription,
+  ReplenishmentSubscriptionWithProduct,
+  ReplenishmentUpdate,
+} from './types';
+
+export * from './types';
+export { ReplenishmentError } from './errors';
+export {
+  MAX_CADENCE_DAYS,
+  MAX_PAYMENT_ATTEMPTS,
+  MIN_CADENCE_DAYS,
+  REMINDER_DAYS_BEFORE,
+  SHIPPING_LEAD_DAYS,
+  addDays,
+  estimateCadence,
+  firstShipDate,
+  isDueForShipment,
+  needsReminder,
+  nextShipDate,
+  resumeShipDate,
+  savedChargeAction,
+  unitsPerServing,
+} from './schedule';
+export { rankSubstitutes, substituteQuery } from './substitution';
+
+const logger = createLogger('Replenishment');
+
+/** Substitutes checked for safety before giving up on an out-of-stock product */
+const SUBSTITUTE_CANDIDATES = 3;
+
+const SUBSCRIPTION_SELECT = '*, supplement_products (*)';
+
+// ============================================================================
+// SUBSCRIPTIONS
+// ============================================================================
+
+type SubscriptionRow = ReplenishmentSubscription & {
+  supplement_products: SupplementProductRow | null;
+};
+
+function toSubscriptionWithProduct(row: SubscriptionRow): ReplenishmentSubscriptionWithProduct {
+  const { supplement_products: productRow, ...subscription } = row;
+  const product = productRow
+    ? productMatchFromRow(
+      productRow,
+      calculatePerDayPrice(parseFloat(productRow.retail_price), productRow.quantity, subscription.dosage || ''),
+      0,
+      'Subscribed'
+    )
+    : null;
+  return { ...subscription, product };
+}
+
+/** Cadence for a product at a dosage, falling back to the product's directions */
+function cadenceFor(product: ProductMatch, dosage: string | null | undefined, quantity: number): number {
+  return estimateCadence(product, dosage || product.directions || '', quantity).cadenceDays;
+}
+
+export async function listSubscriptions(
+  email: string,
+  includeCancelled: boolean = false
+): Promise<ReplenishmentSubscriptionWithProduct[]> {
+  const supabase = createAdminClient();
+  let query = supabase
+    .from('replenishment_subscriptions')
+    .select(SUBSCRIPTION_SELECT)
+    .eq('user_email', email)
+    .order('next_ship_date', { ascending: true });
+
+  if (!includeCancelled) {
+    query = query.neq('status', 'cancelled');
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to list replenishment subscriptions: ${error.message}`);
+  }
+  return ((data || []) as SubscriptionRow[]).map(toSubscriptionWithProduct);
+}
+
+export async function getSubscription(email: string, id: string): Promise<ReplenishmentSubscriptionWithProduct | null> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('replenishment_subscriptions')
+    .select(SUBSCRIPTION_SELECT)
+    .eq('user_email', email)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch replenishment subscription: ${error.message}`);
+  }
+  return data ? toSubscriptionWithProduct(data as SubscriptionRow) : null;
+}
+
+async function requireAvailableProduct(productId: string): Promise<ProductMatch> {
+  const availability = await validateProductAvailability(productId);
+  if (!availability.available || !availability.product) {
+    throw new ReplenishmentError('product_unavailable', availability.reason || 'Product is not available');
+  }
+  return availability.product;
+}
+
+function assertSafe(product: ProductMatch, safety: SafetyAnnotation): void {
+  if (safety.blocked) {
+    throw new ReplenishmentError(
+      'unsafe_product',
+      `${product.name} can't be subscribed to: ${safety.issues.filter((i) => i.severity === 'major').map((i) => i.message).join('; ')}`
+    );
+  }
+}
+
+/**
+ * Safety check for replacing `from` with `to`. The product being replaced
+ * is left out of the stack so the two aren't counted together.
+ */
+async function checkSwap(email: string, from: ProductMatch | null, to: ProductMatch): Promise<SafetyAnnotation> {
+  const { stack, context } = await loadStackSafety(email);
+  const fromName = from ? normalizeCatalogText(from.name) : null;
+  const candidate = stackItemFromProduct(to);
+  const report = evaluateStack(
+    stack.filter((item) => normalizeCatalogText(item.name) !== fromName),
+    [candidate],
+    context
+  );
+  return { blocked: report.blocked.includes(candidate.name), issues: issuesFor(report, candidate.name) };
+}
+
+/**
+ * Subscribe to a product. The product must be in stock and pass the stack
+ * safety check; the first shipment goes out shortly before a container
+ * bought today would run out, unless first_ship_date says otherwise.
+ */
+export async function createSubscription(
+  email: string,
+  input: ReplenishmentInput,
+  now: Date = new Date()
+): Promise<{ subscription: ReplenishmentSubscriptionWithProduct; safety: SafetyAnnotation }> {
+  const product = await requireAvailableProduct(input.product_id);
+  const safety = await checkCartAddition(email, product);
+  assertSafe(product, safety);
+
+  const quantity = input.quantity ?? 1;
+  const dosage = input.dosage ?? (product.directions || null);
+  const cadenceDays = input.cadence_days ?? cadenceFor(product, dosage, quantity);
+
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('replenishment_subscriptions')
+    .insert({
+      user_email: email,
+      product_id: product.productId,
+      quantity,
+      dosage,
+      cadence_days: cadenceDays,
+      custom_cadence: input.cadence_days !== undefined,
+      next_ship_date: input.first_ship_date ?? firstShipDate(cadenceDays, toDateString(now)),
+      address_id: input.address_id ?? null,
+      stripe_payment_method_id: input.stripe_payment_method_id ?? null,
+    })
+    .select(SUBSCRIPTION_SELECT)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create replenishment subscription: ${error.message}`);
+  }
+  logger.info('Replenishment subscription created', { email, subscriptionId: data.id, productId: product.productId });
+  return { subscription: toSubscriptionWithProduct(data as SubscriptionRow), safety };
+}
+
+async function saveSubscription(
+  email: string,
+  id: string,
+  changes: Record<string, unknown>
+): Promise<ReplenishmentSubscriptionWithProduct | null> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('replenishment_subscriptions')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('user_email', email)
+    .eq('id', id)
+    .select(SUBSCRIPTION_SELECT)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update replenishment subscription: ${error.message}`);
+  }
+  return data ? toSubscriptionWithProduct(data as SubscriptionRow) : null;
+}
+
+async function requireOpenSubscription(email: string, id: string): Promise<ReplenishmentSubscriptionWithProduct | null> {
+  const existing = await getSubscription(email, id);
+  if (existing?.status === 'cancelled') {
+    throw new ReplenishmentError('invalid_state', 'Subscription is cancelled');
+  }
+  return existing;
+}
+
+/**
+ * Update quantity, dosage, cadence, address or card. Changing the quantity
+ * or dosage recomputes the cadence unless the user set it themselves.
+ */
+export async function updateSubscription(
+  email: string,
+  id: string,
+  updates: ReplenishmentUpdate
+): Promise<ReplenishmentSubscriptionWithProduct | null> {
+  const existing = await requireOpenSubscription(email, id);
+  if (!existing) return null;
+
+  const { reset_cadence, ...fields } = updates;
+  const changes: Record<string, unknown> = { ...fields };
+
+  if (fields.cadence_days !== undefined) {
+    changes.custom_cadence = true;
+  } else if (existing.product && (reset_cadence || (!existing.custom_cadence &&
+    (fields.quantity !== undefined || fields.dosage !== undefined)))) {
+    changes.cadence_days = cadenceFor(
+      existing.product,
+      fields.dosage !== undefined ? fields.dosage : existing.dosage,
+      fields.quantity ?? existing.quantity
+    );
+    changes.custom_cadence = false;
+  }
+
+  return saveSubscription(email, id, changes);
+}
+
+/** Skip the next shipment; the one after ships a cadence later */
+export async function skipNextShipment(
+  email: string,
+  id: string,
+  now: Date = new Date()
+): Promise<ReplenishmentSubscriptionWithProduct | null> {
+  const existing = await requireOpenSubscription(email, id);
+  if (!existing) return null;
+
+  const skipped = existing.next_ship_date;
+  const subscription = await saveSubscription(email, id, {
+    next_ship_date: nextShipDate(skipped, existing.cadence_days, toDateString(now)),
+  });
+  logger.info('Replenishment shipment skipped', { email, subscriptionId: id, skipped });
+  return subscription;
+}
+
+/** Pause shipments, until `until` (YYYY-MM-DD) or until resumed */
+export async function pauseSubscription(
+  email: string,
+  id: string,
+  until?: string | null
+): Promise<ReplenishmentSubscriptionWithProduct | null> {
+  const existing = await requireOpenSubscription(email, id);
+  if (!existing) return null;
+
+  return saveSubscription(email, id, { status: 'paused', paused_until: until ?? null });
+}
+
+export async function resumeSubscription(
+  email: string,
+  id: string,
+  now: Date = new Date()
+): Promise<ReplenishmentSubscriptionWithProduct | null> {
+  const existing = await requireOpenSubscription(email, id);
+  if (!existing) return null;
+
+  return saveSubscription(email, id, {
+    status: 'active',
+    paused_until: null,
+    failed_attempts: 0,
+    next_ship_date: resumeShipDate(existing, toDateString(now)),
+  });
+}
+
+/**
+ * Switch the subscription to another product. The dosage becomes the new
+ * product's directions unless one is given, and the cadence follows.
+ */
+export async function swapProduct(
+  email: string,
+  id: string,
+  productId: string,
+  dosage?: string | null
+): Promise<{ subscription: ReplenishmentSubscriptionWithProduct; safety: SafetyAnnotation } | null> {
+  const existing = await requireOpenSubscription(email, id);
+  if (!existing) return null;
+
+  const product = await requireAvailableProduct(productId);
+  const safety = await checkSwap(email, existing.product, product);
+  assertSafe(product, safety);
+
+  const newDosage = dosage !== undefined ? dosage : (product.directions || existing.dosage);
+  const subscription = await saveSubscription(email, id, {
+    product_id: product.productId,
+    dosage: newDosage,
+    swapped_from_product_id: null,
+    ...(existing.custom_cadence ? {} : { cadence_days: cadenceFor(product, newDosage, existing.quantity) }),
+  });
+  if (!subscription) return null;
+
+  logger.info('Replenishment product swapped', { email, subscriptionId: id, productId });
+  return { subscription, safety };
+}
+
+export async function cancelSubscription(email: string, id: string): Promise<boolean> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('replenishment_subscriptions')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('user_email', email)
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to cancel replenishment subscription: ${error.message}`);
+  }
+  return (data?.length ?? 0) > 0;
+}
+
+// ============================================================================
+// SHIPMENTS
+// ============================================================================
+
+/**
+ * An in-stock product that can stand in for `product`, or null. Candidates
+ * that fail the user's stack safety check are passed over.
+ */
+export async function findSubstitute(email: string, product: ProductMatch): Promise<ProductMatch | null> {
+  const candidates = rankSubstitutes(product, await searchCatalog(substituteQuery(product)));
+
+  for (const candidate of candidates.slice(0, SUBSTITUTE_CANDIDATES)) {
+    const safety = await checkSwap(email, product, candidate);
+    if (!safety.blocked) return candidate;
+  }
+  return null;
+}
+
+async function getShippingAddress(email: string, addressId: string | null): Promise<ShippingAddress | null> {
+  const supabase = createAdminClient();
+  let query = supabase.from('user_addresses').select('*').eq('email', email);
+  query = addressId ? query.eq('id', addressId) : query.eq('is_default', true);
+
+  const { data, error } = await query.limit(1).maybeSingle();
+  if (error) {
+    throw new Error(`Failed to fetch shipping address: ${error.message}`);
+  }
+  if (!data) return null;
+
+  return {
+    fullName: data.full_name,
+    addressLine1: data.address_line1,
+    addressLine2: data.address_line2 || undefined,
+    city: data.city,
+    stateProvince: data.state_province,
+    postalCode: data.postal_code,
+    country: data.country,
+    phone: data.phone || undefined,
+  };
+}
+
+function formatShipDate(date: string): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
+}
+
+function listNames(names: string[]): string {
+  return names.length <= 2 ? names.join(' and ') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+async function notify(
+  email: string,
+  notificationType: string,
+  title: string,
+  body: string,
+  subscriptionId: string,
+  severity: 'high' | 'medium' = 'medium'
+): Promise<boolean> {
+  const result = await NotificationCoordinator.send({
+    userEmail: email,
+    sourceService: 'supplement_replenishment',
+    notificationType,
+    severity,
+    title,
+    body,
+    data: { subscription_id: subscriptionId, action_url: '/supplements/subscriptions' },
+    relatedEntityType: 'replenishment_subscription',
+    relatedEntityId: subscriptionId,
+  });
+  return result.success;
+}
+
+/**
+ * Swap out-of-stock products in a due shipment. Returns the subscriptions
+ * that can ship, with their products; the rest are skipped to their next
+ * date and the user is told either way.
+ */
+async function prepareShipment(
+  email: string,
+  due: ReplenishmentSubscriptionWithProduct[],
+  today: string,
+  summary: ReplenishmentJobSummary
+): Promise<Array<{ subscription: ReplenishmentSubscriptionWithProduct; product: ProductMatch }>> {
+  const supabase = createAdminClient();
+  const ready: Array<{ subscription: ReplenishmentSubscriptionWithProduct; product: ProductMatch }> = [];
+
+  for (const subscription of due) {
+    const availability = await validateProductAvailability(subscription.product_id);
+    if (availability.available && availability.product) {
+      ready.push({ subscription, product: availability.product });
+      continue;
+    }
+
+    const original = subscription.product;
+    const substitute = original ? await findSubstitute(email, original) : null;
+    const originalName = original?.name || 'A subscribed supplement';
+
+    if (substitute) {
+      const dosage = substitute.directions || subscription.dosage;
+      const { error } = await supabase
+        .from('replenishment_subscriptions')
+        .update({
+          product_id: substitute.productId,
+          dosage,
+          swapped_from_product_id: subscription.product_id,
+          ...(subscription.custom_cadence ? {} : { cadence_days: cadenceFor(substitute, dosage, subscription.quantity) }),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', subscription.id);
+
+      if (error) {
+        // Still due, so the swap is retried on the next run
+        logger.error('Failed to save replenishment swap, leaving it out of this shipment', new Error(error.message), {
+          email,
+          subscriptionId: subscription.id,
+          to: substitute.productId,
+        });
+        continue;
+      }
+
+      summary.itemsSwapped++;
+      ready.push({ subscription: { ...subscription, product_id: substitute.productId, dosage }, product: substitute });
+      await notify(
+        email,
+        'replenishment_swap',
+        `${originalName} is out of stock`,
+        `We've swapped in ${substitute.name} from ${substitute.brand} for this shipment and the ones after. You can switch back or choose another product in the app.`,
+        subscription.id
+      );
+      logger.info('Out-of-stock replenishment product swapped', {
+        email,
+        subscriptionId: subscription.id,
+        from: subscription.product_id,
+        to: substitute.productId,
+      });
+    } else {
+      const next = nextShipDate(subscription.next_ship_date, subscription.cadence_days, today);
+      const { error } = await supabase
+        .from('replenishment_subscriptions')
+        .update({
+          next_ship_date: next,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', subscription.id);
+
+      if (error) {
+        // Still due, so the skip is retried (and the user told) on the next run
+        logger.error('Failed to skip out-of-stock replenishment', new Error(error.message), {
+          email,
+          subscriptionId: subscription.id,
+        });
+        continue;
+      }
+
+      summary.itemsSkipped++;
+      await notify(
+        email,
+        'replenishment_skipped',
+        `${originalName} is out of stock`,
+        `We couldn't find an equivalent in stock, so it's been left out of this shipment. It will ship again on ${formatShipDate(next)}.`,
+        subscription.id
+      );
+    }
+  }
+
+  return ready;
+}
+
+/**
+ * Refund a charge whose order couldn't be saved, so the user isn't left
+ * paying for nothing. The attempt count moves on, so the next run charges
+ * the shipment afresh. If the refund fails too, the subscriptions are paused
+ * until support resolves the payment intent, rather than charged again.
+ */
+async function refundUnplacedOrder(
+  email: string,
+  ready: Array<{ subscription: ReplenishmentSubscriptionWithProduct; product: ProductMatch }>,
+  paymentIntentId: string,
+  total: number,
+  reason: string,
+  summary: ReplenishmentJobSummary
+): Promise<void> {
+  const supabase = createAdminClient();
+  const ids = ready.map((r) => r.subscription.id);
+  const names = listNames(ready.map((r) => r.product.name));
+
+  logger.error('Replenishment order creation failed after payment', new Error(reason), {
+    email,
+    subscriptionIds: ids,
+    paymentIntentId,
+  });
+
+  let refunded = false;
+  try {
+    await createRefund(paymentIntentId);
+    refunded = true;
+    summary.refunded++;
+  } catch (err) {
+    logger.error('Failed to refund replenishment charge without an order', err, { email, paymentIntentId });
+  }
+
+  const { error } = await supabase
+    .from('replenishment_subscriptions')
+    .update({
+      failed_attempts: Math.max(...ready.map((r) => r.subscription.failed_attempts)) + 1,
+      last_failure: refunded
+        ? `Order could not be placed; charge ${paymentIntentId} refunded`
+        : `Order could not be placed; charge ${paymentIntentId} needs a refund`,
+      payment_intent_id: null,
+      ...(refunded ? {} : { status: 'paused', paused_until: null }),
+      updated_at: new Date().toISOString(),
+    })
+    .in('id', ids);
+
+  if (error) {
+    logger.error('Failed to record unplaced replenishment order', new Error(error.message), {
+      email,
+      subscriptionIds: ids,
+      paymentIntentId,
+    });
+  }
+  if (!refunded) summary.paused += ids.length;
+
+  await notify(
+    email,
+    'replenishment_order_failed',
+    "We couldn't place your supplement order",
+    refunded
+      ? `Something went wrong placing your order for ${names}, so we've refunded the $${total.toFixed(2)} charge. We'll try again tomorrow.`
+      : `Something went wrong placing your order for ${names} after your card was charged $${total.toFixed(2)}. We've paused your subscription and our team will refund you.`,
+    ready[0].subscription.id,
+    'high'
+  );
+}
+
+/**
+ * Charge a shipment off-session. The payment intent is saved on its
+ * subscriptions before it's confirmed, so a rerun after a crash or a failed
+ * schedule write gets the same charge back (see savedChargeAction) rather
+ * than charging again.
+ */
+async function chargeShipment(
+  email: string,
+  ready: Array<{ subscription: ReplenishmentSubscriptionWithProduct; product: ProductMatch }>,
+  total: number,
+  paymentMethodId: string
+): Promise<Stripe.PaymentIntent> {
+  const supabase = createAdminClient();
+  const ids = ready.map((r) => r.subscription.id);
+  const savedId = ready.find((r) => r.subscription.payment_intent_id)?.subscription.payment_intent_id;
+
+  if (savedId) {
+    const saved = await retrievePaymentIntent(savedId);
+    const action = savedChargeAction(saved, formatAmountForStripe(total), ids);
+    if (action === 'use') return saved;
+    if (action === 'confirm') return confirmOffSessionPayment(saved.id);
+
+    if (saved.status !== 'canceled') {
+      try {
+        await cancelPaymentIntent(saved.id);
+      } catch (err) {
+        logger.error('Failed to cancel replaced replenishment charge', err, { email, paymentIntentId: saved.id });
+      }
+    }
+  }
+
+  const paymentIntent = await createOffSessionPayment(total, email, paymentMethodId, {
+    source: 'replenishment',
+    subscription_ids: ids.join(','),
+  });
+
+  const { error } = await supabase
+    .from('replenishment_subscriptions')
+    .update({ payment_intent_id: paymentIntent.id, updated_at: new Date().toISOString() })
+    .in('id', ids);
+
+  if (error) {
+    // Not confirmed, so nothing is charged
+    throw new Error(`Could not save the charge: ${error.message}`);
+  }
+
+  return confirmOffSessionPayment(paymentIntent.id);
+}
+
+/**
+ * Charge and place one order for a user's due subscriptions. A failed
+ * charge is retried on the next run; after MAX_PAYMENT_ATTEMPTS failures
+ * the subscriptions are paused.
+ */
+async function shipDueSubscriptions(
+  email: string,
+  due: ReplenishmentSubscriptionWithProduct[],
+  today: string,
+  summary: ReplenishmentJobSummary
+): Promise<void> {
+  const supabase = createAdminClient();
+  const ready = await prepareShipment(email, due, today, summary);
+  if (ready.length === 0) return;
+
+  const ids = ready.map((r) => r.subscription.id);
+  const lead = ready[0].subscription;
+
+  const recordFailure = async (reason: string) => {
+    summary.paymentFailures++;
+    const attempts = Math.max(...ready.map((r) => r.subscription.failed_attempts)) + 1;
+    const pause = attempts >= MAX_PAYMENT_ATTEMPTS;
+
+    const { error } = await supabase
+      .from('replenishment_subscriptions')
+      .update({
+        failed_attempts: attempts,
+        last_failure: reason,
+        ...(pause ? { status: 'paused', paused_until: null } : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .in('id', ids);
+
+    if (error) {
+      logger.error('Failed to record replenishment charge failure', new Error(error.message), {
+        email,
+        subscriptionIds: ids,
+      });
+    }
+
+    if (pause) summary.paused += ids.length;
+    logger.warn('Replenishment charge failed', { email, subscriptionIds: ids, attempts, reason });
+
+    await notify(
+      email,
+      'replenishment_payment_failed',
+      pause ? 'Supplement subscription paused' : "Your supplement order couldn't be charged",
+      pause
+        ? `We couldn't charge your card after ${attempts} attempts, so your subscription is paused. Update your payment method and resume it in the app.`
+        : `${reason}. We'll try again tomorrow; update your payment method in the app if it has changed.`,
+      lead.id,
+      'high'
+    );
+  };
+
+  const address = await getShippingAddress(email, lead.address_id);
+  if (!address) {
+    await recordFailure('No shipping address on file');
+    return;
+  }
+
+  const paymentMethodId = ready.find((r) => r.subscription.stripe_payment_method_id)?.subscription.stripe_payment_method_id ||
+    await getDefaultPaymentMethodId(email);
+  if (!paymentMethodId) {
+    await recordFailure('No saved card on file');
+    return;
+  }
+
+  const items = ready.map((r) => ({ product: r.product, quantity: r.subscription.quantity }));
+  const { total } = calculateOrderTotal(items.reduce((sum, item) => sum + item.product.retailPrice * item.quantity, 0));
+
+  let paymentIntent;
+  try {
+    paymentIntent = await chargeShipment(email, ready, total, paymentMethodId);
+  } catch (err) {
+    await recordFailure(err instanceof Error ? err.message : 'Payment failed');
+    return;
+  }
+
+  if (paymentIntent.status !== 'succeeded') {
+    await recordFailure(`Payment ${paymentIntent.status.replace(/_/g, ' ')}`);
+    return;
+  }
+
+  // A rerun for a shipment whose schedule didn't advance gets the same
+  // payment intent back; its order was already placed
+  const existing = await getOrderByPaymentIntent(paymentIntent.id);
+  let order = existing.order;
+
+  if (!order) {
+    const chargeId = typeof paymentIntent.latest_charge === 'string'
+      ? paymentIntent.latest_charge
+      : paymentIntent.latest_charge?.id;
+    const created = await createReplenishmentOrder(email, items, address, paymentIntent.id, chargeId);
+
+    if (created.error || !created.order) {
+      await refundUnplacedOrder(email, ready, paymentIntent.id, total, created.error || 'No order', summary);
+      return;
+    }
+    order = created.order;
+  }
+
+  for (const { subscription } of ready) {
+    const { error } = await supabase
+      .from('replenishment_subscriptions')
+      .update({
+        next_ship_date: nextShipDate(subscription.next_ship_date, subscription.cadence_days, today),
+        failed_attempts: 0,
+        last_failure: null,
+        last_order_id: order.id,
+        payment_intent_id: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', subscription.id);
+
+    if (error) {
+      // The next run gets this charge back through the saved payment intent and finds the order
+      logger.error('Failed to advance replenishment schedule after placing order', new Error(error.message), {
+        email,
+        subscriptionId: subscription.id,
+        orderId: order.id,
+        paymentIntentId: paymentIntent.id,
+      });
+    }
+  }
+
+  if (existing.order) {
+    logger.info('Replenishment shipment already placed, advanced its schedule', { email, orderId: order.id });
+    return;
+  }
+
+  summary.ordersPlaced++;
+  await notify(
+    email,
+    'replenishment_order',
+    'Your supplements are on the way',
+    `Order ${order.orderNumber} for ${listNames(ready.map((r) => r.product.name))} has been placed and charged $${total.toFixed(2)}.`,
+    lead.id
+  );
+}
+
+/**
+ * Resume pauses that have ended, send pre-shipment reminders, and swap,
+ * charge and place orders for due subscriptions. Called daily by the
+ * supplement-replenishment cron.
+ */
+export async function runReplenishmentJob(now: Date = new Date()): Promise<ReplenishmentJobSummary> {
+  const summary: ReplenishmentJobSummary = {
+    resumed: 0,
+    remindersSent: 0,
+    ordersPlaced: 0,
+    itemsSwapped: 0,
+    itemsSkipped: 0,
+    paymentFailures: 0,
+    refunded: 0,
+    paused: 0,
+  };
+  const today = toDateString(now);
+  const supabase = createAdminClient();
+
+  const { data: rows, error } = await supabase
+    .from('replenishment_subscriptions')
+    .select(SUBSCRIPTION_SELECT)
+    .in('status', ['active', 'paused'])
+    .or(`next_ship_date.lte.${addDays(today, REMINDER_DAYS_BEFORE)},paused_until.lte.${today}`);
+
+  if (error) {
+    throw new Error(`Failed to load replenishment subscriptions: ${error.message}`);
+  }
+
+  const subscriptions = ((rows || []) as SubscriptionRow[]).map(toSubscriptionWithProduct);
+
+  // 1. Resume pauses that have ended
+  for (const subscription of subscriptions.filter((s) => shouldResume(s, today))) {
+    const next = resumeShipDate(subscription, today);
+    await supabase
+      .from('replenishment_subscriptions')
+      .update({ status: 'active', paused_until: null, next_ship_date: next, updated_at: now.toISOString() })
+      .eq('id', subscription.id);
+    Object.assign(subscription, { status: 'active', paused_until: null, next_ship_date: next });
+    summary.resumed++;
+  }
+
+  const byUser = new Map<string, ReplenishmentSubscriptionWithProduct[]>();
+  for (const subscription of subscriptions) {
+    byUser.set(subscription.user_email, [...(byUser.get(subscription.user_email) || []), subscription]);
+  }
+
+  for (const [email, userSubscriptions] of byUser) {
+    // 2. Pre-shipment reminders, one per user and ship date
+    const upcoming = userSubscriptions.filter((s) => needsReminder(s, today));
+    for (const shipDate of new Set(upcoming.map((s) => s.next_ship_date))) {
+      const shipping = upcoming.filter((s) => s.next_ship_date === shipDate);
+      try {
+        const names = shipping.map((s) => s.product?.name || 'your supplement');
+        const sent = await notify(
+          email,
+          'replenishment_reminder',
+          'Your supplements ship soon',
+          `${listNames(names)} will be charged and shipped on ${formatShipDate(shipDate)}. Skip, pause or swap before then in the app.`,
+          shipping[0].id
+        );
+        await supabase
+          .from('replenishment_subscriptions')
+          .update({ reminded_for: shipDate })
+          .in('id', shipping.map((s) => s.id));
+        if (sent) summary.remindersSent++;
+      } catch (err) {
+        logger.error('Failed to send replenishment reminder', err, { email, shipDate });
+      }
+    }
+
+    // 3. Ship what's due
+    const due = userSubscriptions.filter((s) => isDueForShipment(s, today));
+    if (due.length === 0) continue;
+
+    try {
+      await shipDueSubscriptions(email, due, today, summary);
+    } catch (err) {
+      logger.error('Failed to process replenishment shipment', err, { email, subscriptionIds: due.map((s) => s.id) });
+    }
+  }
+
+  return summary;
+}
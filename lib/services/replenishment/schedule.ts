@@ -0,0 +1,154 @@
+/**
+ * Replenishment Scheduling
+ *
+ * Pure date and cadence logic for replenishment subscriptions. A shipment
+ * lasts as many days as its containers hold servings at the user's dosage,
+ * so shipping on that cadence keeps the lead time of the first shipment.
+ *
+ * @module lib/services/replenishment/schedule
+ */
+
+import { getServingsPerDay } from '../supplement-matching';
+import { CadenceEstimate, ReplenishmentSubscription } from './types';
+
+export const MIN_CADENCE_DAYS = 14;
+export const MAX_CADENCE_DAYS = 180;
+
+/** Days before the supply runs out that a shipment goes out */
+export const SHIPPING_LEAD_DAYS = 5;
+
+/** Days before a shipment that the user is reminded, to skip or swap in time */
+export const REMINDER_DAYS_BEFORE = 3;
+
+/** Consecutive failed charges before a subscription is paused */
+export const MAX_PAYMENT_ATTEMPTS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Serving units recognised in dosages, in addition to the container's own unit */
+const SERVING_UNITS = [
+  'capsule', 'tablet', 'softgel', 'gummy', 'gummies', 'chewable', 'lozenge',
+  'scoop', 'drop', 'pill', 'packet', 'stick', 'serving', 'ml', 'g',
+];
+
+const NUMBER_WORDS: Record<string, string> = { one: '1', two: '2', three: '3', four: '4', five: '5', six: '6' };
+
+/** YYYY-MM-DD in UTC */
+export function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export function addDays(date: string, days: number): string {
+  return toDateString(new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS));
+}
+
+function singular(unit: string): string {
+  const lower = unit.toLowerCase().trim();
+  if (lower.endsWith('ies')) return lower;
+  return lower.endsWith('s') && lower.length > 2 ? lower.slice(0, -1) : lower;
+}
+
+/**
+ * Units per serving from a dosage, e.g. 2 for "2 capsules twice daily" or
+ * 5 for "5g daily" from a container measured in g. Defaults to 1.
+ */
+export function unitsPerServing(dosage: string, containerUnit?: string | null): number {
+  const text = dosage.toLowerCase().replace(/\b(one|two|three|four|five|six)\b/g, (word) => NUMBER_WORDS[word]);
+  const units = containerUnit ? [singular(containerUnit), ...SERVING_UNITS] : SERVING_UNITS;
+
+  for (const unit of units) {
+    const escaped = unit.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = text.match(new RegExp(`(\\d+(?:\\.\\d+)?)\\s*${escaped}(?:s|es)?\\b`));
+    if (match) {
+      const amount = parseFloat(match[1]);
+      if (amount > 0) return amount;
+    }
+  }
+  return 1;
+}
+
+/**
+ * How long a shipment of `containers` lasts at `dosage`, and the cadence
+ * that follows from it
+ */
+export function estimateCadence(
+  product: { quantity: number; unit?: string | null },
+  dosage: string,
+  containers: number = 1
+): CadenceEstimate {
+  const unitsPerDay = unitsPerServing(dosage, product.unit) * getServingsPerDay(dosage);
+  const daysSupply = Math.floor((product.quantity * containers) / unitsPerDay);
+
+  return {
+    unitsPerDay,
+    daysSupply,
+    cadenceDays: Math.min(MAX_CADENCE_DAYS, Math.max(MIN_CADENCE_DAYS, daysSupply)),
+  };
+}
+
+/**
+ * First ship date for a new subscription: shortly before the supply the
+ * user has now would run out, and no earlier than tomorrow
+ */
+export function firstShipDate(cadenceDays: number, today: string): string {
+  return addDays(today, Math.max(1, cadenceDays - SHIPPING_LEAD_DAYS));
+}
+
+/**
+ * Ship date after a shipment (or skip) scheduled for `shipDate`. Keeps the
+ * rhythm unless the shipment was so late the next one would already be due.
+ */
+export function nextShipDate(shipDate: string, cadenceDays: number, today: string): string {
+  const next = addDays(shipDate, cadenceDays);
+  return next > today ? next : addDays(today, cadenceDays);
+}
+
+/** Ship date when a paused subscription resumes: as scheduled, or tomorrow if that has passed */
+export function resumeShipDate(subscription: Pick<ReplenishmentSubscription, 'next_ship_date'>, today: string): string {
+  return subscription.next_ship_date > today ? subscription.next_ship_date : addDays(today, 1);
+}
+
+export function isDueForShipment(
+  subscription: Pick<ReplenishmentSubscription, 'status' | 'next_ship_date'>,
+  today: string
+): boolean {
+  return subscription.status === 'active' && subscription.next_ship_date <= today;
+}
+
+/** Active, shipping within REMINDER_DAYS_BEFORE days, and not yet reminded for this shipment */
+export function needsReminder(
+  subscription: Pick<ReplenishmentSubscription, 'status' | 'next_ship_date' | 'reminded_for'>,
+  today: string
+): boolean {
+  return subscription.status === 'active' &&
+    subscription.next_ship_date > today &&
+    subscription.next_ship_date <= addDays(today, REMINDER_DAYS_BEFORE) &&
+    subscription.reminded_for !== subscription.next_ship_date;
+}
+
+export function shouldResume(
+  subscription: Pick<ReplenishmentSubscription, 'status' | 'paused_until'>,
+  today: string
+): boolean {
+  return subscription.status === 'paused' && !!subscription.paused_until && subscription.paused_until <= today;
+}
+
+/**
+ * What to do with the payment intent an earlier run saved on a shipment.
+ * One that succeeded (or is still processing) is the shipment's charge,
+ * whatever changed since. One that was never confirmed is confirmed if it's
+ * still for the same amount (in cents, as Stripe has it) and subscriptions.
+ * Anything else, declined, cancelled or out of date after a swap, is
+ * replaced by a new one.
+ */
+export function savedChargeAction(
+  paymentIntent: { status: string; amount: number; metadata: Record<string, string> },
+  amount: number,
+  subscriptionIds: string[]
+): 'use' | 'confirm' | 'replace' {
+  if (paymentIntent.status === 'succeeded' || paymentIntent.status === 'processing') return 'use';
+
+  const sameShipment = paymentIntent.amount === amount &&
+    (paymentIntent.metadata.subscription_ids || '').split(',').sort().join(',') === [...subscriptionIds].sort().join(',');
+  return paymentIntent.status === 'requires_confirmation' && sameShipment ? 'confirm' : 'replace';
+}
@@ -0,0 +1,58 @@
+/**
+ * Replenishment Substitution
+ *
+ * Picks a stand-in when a subscribed product is out of stock: another
+ * in-stock product for the same nutrient, preferring the same dosage form
+ * and a similar per-day price.
+ *
+ * @module lib/services/replenishment/substitution
+ */
+
+import type { ProductMatch } from '../supplement-matching';
+import type { CatalogSearchQuery, RankedProduct } from '../supplement-catalog/types';
+import { BIOMARKER_SUPPLEMENT_TERMS, normalizeCatalogText } from '../supplement-catalog/ranking';
+
+/** Substitutes may cost at most this much more per day */
+const MAX_PRICE_INCREASE = 1.5;
+
+/** Words in product names that say nothing about what the product is */
+const NAME_NOISE = new Set([
+  'capsule', 'capsules', 'tablet', 'tablets', 'softgel', 'softgels', 'gummies', 'liquid', 'powder',
+  'mg', 'mcg', 'iu', 'g', 'ml', 'count', 'ct', 'veg', 'vegan', 'extra', 'strength', 'high', 'potency',
+]);
+
+/**
+ * Catalog query for products that can replace `product`: by nutrient when
+ * the name names one, otherwise by the name's leading descriptive words
+ */
+export function substituteQuery(product: Pick<ProductMatch, 'name' | 'brand' | 'dosageForm'>): CatalogSearchQuery {
+  const name = ` ${normalizeCatalogText(product.name)}`;
+  const entry = BIOMARKER_SUPPLEMENT_TERMS.find((e) => e.terms.some((term) => name.includes(` ${term}`)));
+  if (entry) {
+    return { deficiency: entry.terms[0], dosageForm: product.dosageForm, sort: 'relevance' };
+  }
+
+  const brandWords = new Set(normalizeCatalogText(product.brand || '').split(' '));
+  const words = name.trim().split(' ')
+    .filter((word) => word && !brandWords.has(word) && !NAME_NOISE.has(word) && !/^\d/.test(word))
+    .slice(0, 2);
+
+  return { query: words.join(' ') || product.name, dosageForm: product.dosageForm, sort: 'relevance' };
+}
+
+/**
+ * Substitute candidates in order of preference: in stock, not the original,
+ * no more than MAX_PRICE_INCREASE times its per-day price, same dosage form
+ * first and otherwise in the catalog's ranking order
+ */
+export function rankSubstitutes(original: ProductMatch, candidates: RankedProduct[]): ProductMatch[] {
+  const maxPerDayPrice = original.perDayPrice > 0 ? original.perDayPrice * MAX_PRICE_INCREASE : Infinity;
+  const sameForm = (p: ProductMatch) =>
+    normalizeCatalogText(p.dosageForm || '') === normalizeCatalogText(original.dosageForm || '');
+
+  const eligible = candidates
+    .map((c) => c.product)
+    .filter((p) => p.productId !== original.productId && p.inStock && p.perDayPrice <= maxPerDayPrice);
+
+  return [...eligible.filter(sameForm), ...eligible.filter((p) => !sameForm(p))];
+}
@@ -0,0 +1,88 @@
+/**
+ * Supplement Replenishment Types
+ *
+ * @module lib/services/replenishment/types
+ */
+
+import type { ProductMatch } from '../supplement-matching';
+
+export type ReplenishmentStatus = 'active' | 'paused' | 'cancelled';
+
+/** A recurring shipment of one catalog product */
+export interface ReplenishmentSubscription {
+  id: string;
+  user_email: string;
+  product_id: string;
+  /** Containers per shipment */
+  quantity: number;
+  /** How the user takes it, e.g. "2 capsules twice daily"; drives the cadence */
+  dosage: string | null;
+  cadence_days: number;
+  /** The user set cadence_days; it isn't recomputed when the product or dosage changes */
+  custom_cadence: boolean;
+  status: ReplenishmentStatus;
+  /** YYYY-MM-DD */
+  next_ship_date: string;
+  /** Paused subscriptions resume on this date; null pauses until resumed */
+  paused_until: string | null;
+  /** user_addresses row; null uses the default address */
+  address_id: string | null;
+  /** Saved card; null uses the Stripe customer's default */
+  stripe_payment_method_id: string | null;
+  /** Ship date the pre-shipment reminder was sent for */
+  reminded_for: string | null;
+  failed_attempts: number;
+  last_failure: string | null;
+  last_order_id: string | null;
+  /** Charge for the shipment due, saved before it's confirmed; cleared once the schedule advances */
+  payment_intent_id: string | null;
+  /** Product this was automatically swapped from when it went out of stock */
+  swapped_from_product_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReplenishmentSubscriptionWithProduct extends ReplenishmentSubscription {
+  product: ProductMatch | null;
+}
+
+export interface ReplenishmentInput {
+  product_id: string;
+  quantity?: number;
+  dosage?: string | null;
+  /** Overrides the computed cadence */
+  cadence_days?: number;
+  first_ship_date?: string;
+  address_id?: string | null;
+  stripe_payment_method_id?: string | null;
+}
+
+export type ReplenishmentUpdate = Partial<Pick<
+  ReplenishmentInput,
+  'quantity' | 'dosage' | 'cadence_days' | 'address_id' | 'stripe_payment_method_id'
+>> & {
+  /** Go back to the cadence computed from the product and dosage */
+  reset_cadence?: boolean;
+};
+
+export type ReplenishmentErrorReason = 'product_unavailable' | 'unsafe_product' | 'invalid_state';
+
+export interface CadenceEstimate {
+  /** Units (capsules, scoops, ml...) taken per day */
+  unitsPerDay: number;
+  /** Days one shipment lasts, before clamping to the allowed cadence range */
+  daysSupply: number;
+  cadenceDays: number;
+}
+
+export interface ReplenishmentJobSummary {
+  resumed: number;
+  remindersSent: number;
+  ordersPlaced: number;
+  itemsSwapped: number;
+  itemsSkipped: number;
+  paymentFailures: number;
+  /** Charges refunded because the order couldn't be placed */
+  refunded: number;
+  paused: number;
+}
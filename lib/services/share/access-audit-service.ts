@@ -0,0 +1,308 @@
+/**
+ * Access Audit Service
+ * Append-only log of who viewed or received a sharer's health data, and the
+ * sharer-facing "who saw my data" review and export
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { HealthContext } from './alert-routing-service';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type AccessorType = 'caregiver' | 'clinician' | 'admin';
+
+export type AccessType =
+  | 'dashboard_overview'
+  | 'dashboard_detail'
+  | 'alert_context'
+  | 'clinical_alert'
+  | 'clinical_summary'
+  | 'agent_tool'
+  | 'delegated_api'
+  | 'admin_impersonation';
+
+export type AccessChannel =
+  | 'app'
+  | 'agent'
+  | 'push'
+  | 'sms'
+  | 'voice'
+  | 'email'
+  | 'fax'
+  | 'portal'
+  | 'phone';
+
+export interface AccessEvent {
+  sharerEmail: string;
+  accessorEmail: string;
+  accessorType: AccessorType;
+  accessType: AccessType;
+  channel: AccessChannel;
+  resourceType?: string;
+  resourceId?: string;
+  dataCategories?: string[];
+  relationshipId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AccessLogEntry {
+  id: string;
+  sharer_email: string;
+  accessor_email: string;
+  accessor_type: AccessorType;
+  access_type: AccessType;
+  channel: AccessChannel;
+  resource_type: string | null;
+  resource_id: string | null;
+  data_categories: string[];
+  relationship_id: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface AccessLogQuery {
+  from?: Date;
+  to?: Date;
+  accessorEmail?: string;
+  accessType?: AccessType;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AccessorSummary {
+  accessorEmail: string;
+  accessorType: AccessorType;
+  accessCount: number;
+  lastAccessAt: string;
+  accessTypes: AccessType[];
+  dataCategories: string[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_EXPORT_ROWS = 10000;
+
+const CSV_COLUMNS: Array<keyof AccessLogEntry> = [
+  'created_at',
+  'accessor_email',
+  'accessor_type',
+  'access_type',
+  'channel',
+  'resource_type',
+  'resource_id',
+  'data_categories',
+];
+
+/**
+ * Data categories present in an alert context, for logging what a recipient
+ * of the alert could see
+ */
+export function getContextDataCategories(context: Partial<HealthContext> | null | undefined): string[] {
+  if (!context) return [];
+
+  const categories: string[] = [];
+  if (context.snapshot) categories.push('health_snapshot');
+  if (context.recentMetrics && Object.keys(context.recentMetrics).length > 0) categories.push('metrics');
+  if (context.trends && Object.keys(context.trends).length > 0) categories.push('trends');
+  if (context.medications && context.medications.length > 0) categories.push('medications');
+  if (context.recentEvents && context.recentEvents.length > 0) categories.push('events');
+  if (context.baselineComparisons && context.baselineComparisons.length > 0) categories.push('baselines');
+  return categories;
+}
+
+/**
+ * Per-accessor rollup of log entries, most recent accessor first
+ */
+export function summarizeAccessLog(entries: AccessLogEntry[]): AccessorSummary[] {
+  const byAccessor = new Map<string, AccessorSummary>();
+
+  for (const entry of entries) {
+    const existing = byAccessor.get(entry.accessor_email);
+    if (!existing) {
+      byAccessor.set(entry.accessor_email, {
+        accessorEmail: entry.accessor_email,
+        accessorType: entry.accessor_type,
+        accessCount: 1,
+        lastAccessAt: entry.created_at,
+        accessTypes: [entry.access_type],
+        dataCategories: [...entry.data_categories],
+      });
+      continue;
+    }
+
+    existing.accessCount++;
+    if (entry.created_at > existing.lastAccessAt) existing.lastAccessAt = entry.created_at;
+    if (!existing.accessTypes.includes(entry.access_type)) existing.accessTypes.push(entry.access_type);
+    for (const category of entry.data_categories) {
+      if (!existing.dataCategories.includes(category)) existing.dataCategories.push(category);
+    }
+  }
+
+  return [...byAccessor.values()].sort((a, b) => b.lastAccessAt.localeCompare(a.lastAccessAt));
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * CSV export of log entries, one row per access
+ */
+export function formatAccessLogCsv(entries: AccessLogEntry[]): string {
+  const rows = entries.map((entry) =>
+    CSV_COLUMNS.map((column) => {
+      const value = entry[column];
+      if (Array.isArray(value)) return escapeCsv(value.join(';'));
+      return escapeCsv(value == null ? '' : String(value));
+    }).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+export class AccessAuditService {
+  private supabase: SupabaseClient;
+
+  constructor() {
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const supabaseKey = process.env.SUPABASE_SERVICE_KEY || process.env.SUPABASE_ANON_KEY;
+
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error('Missing Supabase configuration');
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseKey);
+  }
+
+  // ---------------------------------------------------------------------------
+  // RECORDING
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Record access to a sharer's data. Failures are logged, not thrown, so an
+   * audit outage never blocks a caregiver from an alert.
+   */
+  async recordAccess(event: AccessEvent): Promise<void> {
+    await this.recordAccesses([event]);
+  }
+
+  /**
+   * Record several accesses in one insert, e.g. an alert routed to every caregiver
+   */
+  async recordAccesses(events: AccessEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    const { error } = await this.supabase
+      .from('share_access_log')
+      .insert(events.map((event) => ({
+        sharer_email: event.sharerEmail,
+        accessor_email: event.accessorEmail,
+        accessor_type: event.accessorType,
+        access_type: event.accessType,
+        channel: event.channel,
+        resource_type: event.resourceType ?? null,
+        resource_id: event.resourceId ?? null,
+        data_categories: event.dataCategories ?? [],
+        relationship_id: event.relationshipId ?? null,
+        metadata: event.metadata ?? {},
+      })));
+
+    if (error) {
+      console.error('[AccessAudit] Failed to record access:', error.message, {
+        sharers: [...new Set(events.map((e) => e.sharerEmail))],
+        accessType: events[0].accessType,
+      });
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // REVIEW
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Access log for a sharer, newest first
+   */
+  async getAccessLog(
+    sharerEmail: string,
+    query: AccessLogQuery = {}
+  ): Promise<{ entries: AccessLogEntry[]; total: number }> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const offset = query.offset ?? 0;
+
+    let request = this.supabase
+      .from('share_access_log')
+      .select('*', { count: 'exact' })
+      .eq('sharer_email', sharerEmail)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (query.from) request = request.gte('created_at', query.from.toISOString());
+    if (query.to) request = request.lt('created_at', query.to.toISOString());
+    if (query.accessorEmail) request = request.eq('accessor_email', query.accessorEmail);
+    if (query.accessType) request = request.eq('access_type', query.accessType);
+
+    const { data, error, count } = await request;
+
+    if (error) throw new Error(`Failed to fetch access log: ${error.message}`);
+
+    return { entries: (data || []) as AccessLogEntry[], total: count || 0 };
+  }
+
+  /**
+   * Who accessed the sharer's data over the last `days` days
+   */
+  async getAccessSummary(sharerEmail: string, days: number = 30): Promise<AccessorSummary[]> {
+    const { data, error } = await this.supabase
+      .from('share_access_log')
+      .select('*')
+      .eq('sharer_email', sharerEmail)
+      .gte('created_at', new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString())
+      .order('created_at', { ascending: false })
+      .limit(MAX_EXPORT_ROWS);
+
+    if (error) throw new Error(`Failed to fetch access summary: ${error.message}`);
+
+    return summarizeAccessLog((data || []) as AccessLogEntry[]);
+  }
+
+  /**
+   * Full log for a period, for export
+   */
+  async exportAccessLog(
+    sharerEmail: string,
+    query: Pick<AccessLogQuery, 'from' | 'to' | 'accessorEmail'> = {}
+  ): Promise<AccessLogEntry[]> {
+    const { entries } = await this.getAccessLog(sharerEmail, { ...query, limit: MAX_EXPORT_ROWS });
+    return entries;
+  }
+}
+
+// Lazy singleton pattern to avoid build-time initialization errors
+let _accessAuditServiceInstance: AccessAuditService | null = null;
+
+export const accessAuditService = {
+  get instance() {
+    if (!_accessAuditServiceInstance) {
+      _accessAuditServiceInstance = new AccessAuditService();
+    }
+    return _accessAuditServiceInstance;
+  },
+  recordAccess: (...args: Parameters<AccessAuditService['recordAccess']>) =>
+    accessAuditService.instance.recordAccess(...args),
+  recordAccesses: (...args: Parameters<AccessAuditService['recordAccesses']>) =>
+    accessAuditService.instance.recordAccesses(...args),
+  getAccessLog: (...args: Parameters<AccessAuditService['getAccessLog']>) =>
+    accessAuditService.instance.getAccessLog(...args),
+  getAccessSummary: (...args: Parameters<AccessAuditService['getAccessSummary']>) =>
+    accessAuditService.instance.getAccessSummary(...args),
+  exportAccessLog: (...args: Parameters<AccessAuditService['exportAccessLog']>) =>
+    accessAuditService.instance.exportAccessLog(...args),
+};
@@ -5,6 +5,36 @@
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { AnomalyResult, PatternBreak, AlertSeverity, AlertType, HealthSnapshot } from './anomaly-detection-service';
+import {
+  checkDeliveryWindow,
+  deferNotification,
+  getDueDeferredNotifications,
+  rescheduleDeferredNotification,
+  completeDeferredNotification,
+  isDeferredNotificationStale,
+  DeferredReleaseSummary,
+  QuietReason,
+} from '../delivery-window';
+import { caregiverPhoneService } from './caregiver-phone-service';
+import { accessAuditService, getContextDataCategories } from './access-audit-service';
+import {
+  DEFAULT_ESCALATION_RULES,
+  EscalationPlanStep,
+  EscalationPolicy,
+  EscalationRule,
+  planPolicyEscalation,
+} from './escalation-policy';
+import { escalationPolicyService } from './escalation-policy-service';
+
+export type { EscalationRule } from './escalation-policy';
+import {
+  getTelephonyProvider,
+  getTelephonyWebhookUrl,
+  isAcknowledgeReply,
+  InboundSms,
+  TelephonyDeliveryStatus,
+  TelephonyReceipt,
+} from './telephony';
 
 // =============================================================================
 // TYPES
@@ -12,6 +42,8 @@ import { AnomalyResult, PatternBreak, AlertSeverity, AlertType, HealthSnapshot }
 
 export type AlertStatus = 'pending' | 'sent' | 'acknowledged' | 'resolved' | 'escalated' | 'expired';
 
+export type AlertChannel = 'push' | 'sms' | 'voice' | 'email';
+
 export interface ShareAlert {
   id: string;
   sharer_email: string;
@@ -30,6 +62,8 @@ export interface ShareAlert {
   resolved_at: string | null;
   resolved_by: string | null;
   escalated_at: string | null;
+  escalation_step: number;
+  escalation_policy_id: string | null;
   expires_at: string | null;
 }
 
@@ -69,45 +103,19 @@ export interface CaregiverNotification {
   caregiverEmail: string;
   caregiverRole: string;
   alertId: string;
-  channel: 'push' | 'sms' | 'email';
+  channel: AlertChannel;
   priority: 'critical' | 'high' | 'normal';
   title: string;
   body: string;
   data: Record<string, unknown>;
 }
 
-export interface EscalationRule {
-  severity: AlertSeverity;
-  escalateAfterMinutes: number;
-  escalateTo: 'secondary' | 'all' | 'clinical' | 'emergency';
-  channels: ('push' | 'sms' | 'email')[];
+export interface DeliveryReceiptResult {
+  alertId: string;
+  deliveryStatus: TelephonyDeliveryStatus;
+  alertStatus: AlertStatus;
 }
 
-// =============================================================================
-// DEFAULT ESCALATION RULES
-// =============================================================================
-
-const DEFAULT_ESCALATION_RULES: EscalationRule[] = [
-  {
-    severity: 'critical',
-    escalateAfterMinutes: 5,
-    escalateTo: 'all',
-    channels: ['push', 'sms'],
-  },
-  {
-    severity: 'high',
-    escalateAfterMinutes: 30,
-    escalateTo: 'secondary',
-    channels: ['push'],
-  },
-  {
-    severity: 'medium',
-    escalateAfterMinutes: 60,
-    escalateTo: 'secondary',
-    channels: ['push'],
-  },
-];
-
 // =============================================================================
 // SERVICE
 // =============================================================================
@@ -142,8 +150,13 @@ export class AlertRoutingService {
     context: HealthContext,
     recommendation?: string
   ): Promise<ShareAlert> {
-    // Get eligible caregivers for this severity
-    const caregivers = await this.getEligibleCaregivers(sharerEmail, severity);
+    // A sharer's escalation policy picks the first caregivers to notify;
+    // otherwise everyone whose alert preferences include the severity
+    const policy = await escalationPolicyService.instance.getPolicy(sharerEmail);
+    const caregivers: Array<{ caregiver_email: string; caregiver_role: string; channels?: AlertChannel[] }> =
+      policy?.enabled
+        ? await this.getPolicyInitialCaregivers(sharerEmail, policy, severity)
+        : await this.getEligibleCaregivers(sharerEmail, severity);
     const caregiverEmails = caregivers.map(c => c.caregiver_email);
 
     // Determine if clinical should be notified
@@ -174,6 +187,7 @@ export class AlertRoutingService {
         routed_to_clinical: routeToClinical,
         status: 'pending',
         expires_at: expiresAt.toISOString(),
+        escalation_policy_id: policy?.enabled ? policy.id : null,
       })
       .select()
       .single();
@@ -299,32 +313,50 @@ export class AlertRoutingService {
   }
 
   /**
-   * Check if we should send alert to caregiver based on quiet hours, etc.
+   * Caregivers in the first step of a sharer's escalation policy who are on call now
    */
-  private shouldSendNow(
+  private async getPolicyInitialCaregivers(
+    sharerEmail: string,
+    policy: EscalationPolicy,
+    severity: AlertSeverity
+  ): Promise<Array<{ caregiver_email: string; caregiver_role: string; channels: AlertChannel[] }>> {
+    const caregivers = await escalationPolicyService.instance.getPolicyCaregivers(sharerEmail);
+    const timezone = await escalationPolicyService.instance.getPolicyTimezone(sharerEmail, policy);
+    const [initial] = planPolicyEscalation(policy, caregivers, severity, new Date(), timezone);
+    const roles = new Map(caregivers.map(c => [c.caregiver_email, c.caregiver_role]));
+
+    return (initial?.recipients || []).map(r => ({
+      caregiver_email: r.caregiverEmail,
+      caregiver_role: roles.get(r.caregiverEmail) || 'primary',
+      channels: r.channels,
+    }));
+  }
+
+  /**
+   * Check if we should send alert to caregiver based on their delivery window.
+   * Critical and high alerts always go out, critical ones by SMS as well;
+   * lower severities wait for the caregiver's quiet hours to end.
+   */
+  private async shouldSendNow(
     caregiverEmail: string,
     severity: AlertSeverity,
     role: string
-  ): { send: boolean; channel: 'push' | 'sms' | 'email' } {
-    // For now, always send critical and high immediately
-    // In future: check quiet hours, preferences, etc.
-
+  ): Promise<{ send: boolean; channels: AlertChannel[]; deliverAt?: Date; reason?: QuietReason }> {
     if (severity === 'critical') {
-      return { send: true, channel: 'push' }; // Could add SMS for critical
+      return { send: true, channels: ['push', 'sms'] };
     }
 
     if (severity === 'high') {
-      return { send: true, channel: 'push' };
+      return { send: true, channels: ['push'] };
     }
 
-    // For medium/low, only send during reasonable hours
-    const hour = new Date().getHours();
-    if (hour >= 7 && hour <= 22) {
-      return { send: true, channel: 'push' };
+    const window = await checkDeliveryWindow(caregiverEmail);
+    if (window.open) {
+      return { send: true, channels: ['push'] };
     }
 
-    // Queue for morning if during quiet hours
-    return { send: false, channel: 'push' };
+    // Queue until the caregiver's window opens
+    return { send: false, channels: ['push'], deliverAt: window.nextOpenAt || undefined, reason: window.reason };
   }
 
   // ---------------------------------------------------------------------------
@@ -336,38 +368,53 @@ export class AlertRoutingService {
    */
   private async notifyCaregivers(
     alert: ShareAlert,
-    caregivers: Array<{ caregiver_email: string; caregiver_role: string }>
+    caregivers: Array<{ caregiver_email: string; caregiver_role: string; channels?: AlertChannel[] }>
   ): Promise<void> {
     const notifications: CaregiverNotification[] = [];
 
     for (const caregiver of caregivers) {
-      const { send, channel } = this.shouldSendNow(
+      const window = await this.shouldSendNow(
         caregiver.caregiver_email,
         alert.severity,
         caregiver.caregiver_role
       );
-
-      if (!send) continue;
+      const { send, deliverAt, reason } = window;
+      // Channels chosen by an escalation policy step win over the defaults
+      const channels = caregiver.channels || window.channels;
 
       const priority = alert.severity === 'critical' ? 'critical'
         : alert.severity === 'high' ? 'high'
         : 'normal';
 
-      notifications.push({
-        caregiverEmail: caregiver.caregiver_email,
-        caregiverRole: caregiver.caregiver_role,
-        alertId: alert.id,
-        channel,
-        priority,
-        title: this.formatNotificationTitle(alert),
-        body: this.formatNotificationBody(alert),
-        data: {
+      for (const channel of channels) {
+        const notification: CaregiverNotification = {
+          caregiverEmail: caregiver.caregiver_email,
+          caregiverRole: caregiver.caregiver_role,
           alertId: alert.id,
-          sharerEmail: alert.sharer_email,
-          alertType: alert.alert_type,
-          severity: alert.severity,
-        },
-      });
+          channel,
+          priority,
+          title: this.formatNotificationTitle(alert),
+          body: this.formatNotificationBody(alert),
+          data: {
+            alertId: alert.id,
+            sharerEmail: alert.sharer_email,
+            alertType: alert.alert_type,
+            severity: alert.severity,
+          },
+        };
+
+        if (send) {
+          notifications.push(notification);
+        } else if (deliverAt && reason) {
+          await deferNotification({
+            recipientEmail: caregiver.caregiver_email,
+            kind: 'caregiver_alert',
+            payload: notification,
+            reason,
+            deliverAfter: deliverAt,
+          });
+        }
+      }
     }
 
     // Send all notifications
@@ -377,12 +424,18 @@ export class AlertRoutingService {
     for (const n of notifications) {
       await this.logNotification(n);
     }
+    await this.recordAlertAccess(alert, notifications);
   }
 
   /**
    * Send a single notification
    */
   private async sendNotification(notification: CaregiverNotification): Promise<void> {
+    if (notification.channel === 'sms' || notification.channel === 'voice') {
+      await this.sendTelephonyNotification(notification);
+      return;
+    }
+
     // Get FCM token for caregiver
     const { data: profile } = await this.supabase
       .from('profiles')
@@ -397,7 +450,7 @@ export class AlertRoutingService {
 
     // Use existing notification infrastructure
     try {
-      await fetch(`${process.env.NEXT_PUBLIC_APP_URL}/api/notifications/send`, {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL}/api/notifications/send`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -409,8 +462,65 @@ export class AlertRoutingService {
           channel: 'share_alerts',
         }),
       });
+
+      await this.recordDelivery(notification, { status: response.ok ? 'sent' : 'failed' });
     } catch (error) {
       console.error('Failed to send notification:', error);
+      await this.recordDelivery(notification, { status: 'failed' });
+    }
+  }
+
+  /**
+   * Text or call the caregiver's verified number. Receipts for the message
+   * arrive later at the telephony status webhook (handleDeliveryReceipt).
+   */
+  private async sendTelephonyNotification(notification: CaregiverNotification): Promise<void> {
+    const phone = await caregiverPhoneService.instance.getVerifiedPhone(notification.caregiverEmail);
+    const enabled = notification.channel === 'sms' ? phone?.sms_enabled : phone?.voice_enabled;
+
+    if (!phone || !enabled) {
+      console.warn(`No verified phone for ${notification.caregiverEmail}, skipping ${notification.channel}`);
+      return;
+    }
+
+    const options = { statusCallbackUrl: getTelephonyWebhookUrl('status') };
+
+    try {
+      const provider = getTelephonyProvider();
+      const result = notification.channel === 'sms'
+        ? await provider.sendSms(phone.phone_number, this.formatSmsBody(notification), options)
+        : await provider.placeCall(phone.phone_number, this.formatVoiceMessage(notification), options);
+
+      await this.recordDelivery(notification, {
+        status: result.status,
+        phoneNumber: phone.phone_number,
+        providerMessageId: result.messageId,
+      });
+    } catch (error) {
+      console.error(`Failed to send ${notification.channel} alert:`, error);
+      await this.recordDelivery(notification, { status: 'failed', phoneNumber: phone.phone_number });
+    }
+  }
+
+  /**
+   * Record a delivery attempt in share_alert_deliveries
+   */
+  private async recordDelivery(
+    notification: CaregiverNotification,
+    delivery: { status: TelephonyDeliveryStatus; phoneNumber?: string; providerMessageId?: string }
+  ): Promise<void> {
+    const { error } = await this.supabase.from('share_alert_deliveries').insert({
+      alert_id: notification.alertId,
+      caregiver_email: notification.caregiverEmail,
+      channel: notification.channel,
+      phone_number: delivery.phoneNumber || null,
+      provider_message_id: delivery.providerMessageId || null,
+      status: delivery.status,
+      escalation: notification.data.escalated === true,
+    });
+
+    if (error) {
+      console.error('Failed to record alert delivery:', error);
     }
   }
 
@@ -429,6 +539,74 @@ export class AlertRoutingService {
     });
   }
 
+  /**
+   * Record in the sharer's access log that caregivers received an alert and
+   * the health context built for it
+   */
+  private async recordAlertAccess(
+    alert: Pick<ShareAlert, 'id' | 'sharer_email' | 'alert_type' | 'context_data'>,
+    notifications: CaregiverNotification[]
+  ): Promise<void> {
+    const dataCategories = ['alerts', ...getContextDataCategories(alert.context_data)];
+
+    await accessAuditService.recordAccesses(notifications.map(n => ({
+      sharerEmail: alert.sharer_email,
+      accessorEmail: n.caregiverEmail,
+      accessorType: 'caregiver' as const,
+      accessType: 'alert_context' as const,
+      channel: n.channel,
+      resourceType: 'share_alert',
+      resourceId: alert.id,
+      dataCategories,
+      metadata: { alert_type: alert.alert_type, escalation: n.caregiverRole === 'escalation' },
+    })));
+  }
+
+  /**
+   * Deliver caregiver alerts held for quiet hours whose window has opened.
+   * Alerts acknowledged, resolved or expired in the meantime are dropped.
+   */
+  async releaseDeferredAlerts(limit: number = 100): Promise<DeferredReleaseSummary> {
+    const summary: DeferredReleaseSummary = { released: 0, rescheduled: 0, expired: 0 };
+    const due = await getDueDeferredNotifications<CaregiverNotification>('caregiver_alert', limit);
+
+    for (const entry of due) {
+      const notification = entry.payload;
+
+      const { data: alert } = await this.supabase
+        .from('share_alerts')
+        .select('id, sharer_email, alert_type, status, severity, context_data')
+        .eq('id', notification.alertId)
+        .maybeSingle();
+
+      if (!alert || !['pending', 'sent', 'escalated'].includes(alert.status) || isDeferredNotificationStale(entry)) {
+        await completeDeferredNotification(entry.id, 'expired');
+        summary.expired++;
+        continue;
+      }
+
+      const { send, deliverAt, reason } = await this.shouldSendNow(
+        notification.caregiverEmail,
+        alert.severity,
+        notification.caregiverRole
+      );
+
+      if (!send && deliverAt && reason) {
+        await rescheduleDeferredNotification(entry.id, deliverAt, reason);
+        summary.rescheduled++;
+        continue;
+      }
+
+      await this.sendNotification(notification);
+      await this.logNotification(notification);
+      await this.recordAlertAccess(alert, [notification]);
+      await completeDeferredNotification(entry.id, 'released');
+      summary.released++;
+    }
+
+    return summary;
+  }
+
   // ---------------------------------------------------------------------------
   // CLINICAL ROUTING
   // ---------------------------------------------------------------------------
@@ -466,6 +644,18 @@ export class AlertRoutingService {
         .select()
         .single();
 
+      await accessAuditService.recordAccess({
+        sharerEmail,
+        accessorEmail: provider.provider_email,
+        accessorType: 'clinician',
+        accessType: 'clinical_alert',
+        channel: provider.preferred_contact_method || 'email',
+        resourceType: 'share_clinical_alert',
+        resourceId: clinicalAlert?.id,
+        dataCategories: ['alerts', ...getContextDataCategories(alert.context_data)],
+        metadata: { alert_type: alert.alert_type, share_alert_id: alert.id },
+      });
+
       // In future: Send actual notification to clinical provider
       // (email, fax, portal integration)
       console.log(`Clinical alert created for provider ${provider.provider_email}`);
@@ -492,7 +682,8 @@ export class AlertRoutingService {
         .eq('severity', rule.severity)
         .eq('status', 'sent')
         .lt('created_at', cutoff.toISOString())
-        .is('escalated_at', null);
+        .is('escalated_at', null)
+        .is('escalation_policy_id', null);
 
       if (!alerts) continue;
 
@@ -502,9 +693,108 @@ export class AlertRoutingService {
       }
     }
 
+    escalatedCount += await this.processPolicyEscalations();
+
     return escalatedCount;
   }
 
+  /**
+   * Walk alerts raised under an escalation policy along its chain, sending
+   * every step whose time has come
+   */
+  private async processPolicyEscalations(now: Date = new Date()): Promise<number> {
+    const { data: alerts } = await this.supabase
+      .from('share_alerts')
+      .select('*')
+      .not('escalation_policy_id', 'is', null)
+      .in('status', ['sent', 'escalated'])
+      .gt('expires_at', now.toISOString());
+
+    if (!alerts) return 0;
+
+    let escalatedCount = 0;
+
+    for (const alert of alerts as ShareAlert[]) {
+      try {
+        const plan = await this.getPolicyPlan(alert);
+        const due = plan.filter(step => step.step > alert.escalation_step && step.notifyAt <= now);
+        if (due.length === 0) continue;
+
+        await this.escalateAlongPolicy(alert, due);
+        escalatedCount++;
+      } catch (error) {
+        console.error(`Failed to escalate alert ${alert.id} along its policy:`, error);
+      }
+    }
+
+    return escalatedCount;
+  }
+
+  /**
+   * The escalation plan for an alert under its sharer's current policy.
+   * Empty when the policy has since been disabled or removed.
+   */
+  private async getPolicyPlan(alert: ShareAlert): Promise<EscalationPlanStep[]> {
+    if (!alert.escalation_policy_id) return [];
+
+    const policy = await escalationPolicyService.instance.getPolicyById(alert.escalation_policy_id);
+    if (!policy?.enabled) return [];
+
+    const [caregivers, timezone] = await Promise.all([
+      escalationPolicyService.instance.getPolicyCaregivers(alert.sharer_email),
+      escalationPolicyService.instance.getPolicyTimezone(alert.sharer_email, policy),
+    ]);
+
+    return planPolicyEscalation(policy, caregivers, alert.severity, new Date(alert.created_at), timezone);
+  }
+
+  /**
+   * Notify the recipients of one or more policy steps
+   */
+  private async escalateAlongPolicy(alert: ShareAlert, steps: EscalationPlanStep[]): Promise<void> {
+    const notifications: CaregiverNotification[] = [];
+
+    for (const step of steps) {
+      for (const recipient of step.recipients) {
+        for (const channel of recipient.channels) {
+          notifications.push({
+            caregiverEmail: recipient.caregiverEmail,
+            caregiverRole: 'escalation',
+            alertId: alert.id,
+            channel,
+            priority: step.emergency ? 'critical' : 'high',
+            title: step.emergency ? `EMERGENCY: ${alert.title}` : `ESCALATED: ${alert.title}`,
+            body: step.emergency
+              ? `No one has acknowledged this alert. If you can't reach them, consider contacting emergency services. ${alert.message}`
+              : `Alert not acknowledged. ${alert.message}`,
+            data: { alertId: alert.id, escalated: true, escalationStep: step.step, emergency: step.emergency },
+          });
+        }
+      }
+    }
+
+    const lastStep = steps[steps.length - 1];
+    const routedTo = [...new Set([...alert.routed_to_caregivers, ...notifications.map(n => n.caregiverEmail)])];
+
+    await this.supabase
+      .from('share_alerts')
+      .update({
+        status: 'escalated',
+        escalated_at: new Date().toISOString(),
+        escalation_step: lastStep.step,
+        routed_to_caregivers: routedTo,
+      })
+      .eq('id', alert.id);
+
+    for (const notification of notifications) {
+      await this.sendNotification(notification);
+      await this.logNotification(notification);
+    }
+    await this.recordAlertAccess(alert, notifications);
+
+    console.log(`Escalated alert ${alert.id} to policy step ${lastStep.step} (${notifications.length} notifications)`);
+  }
+
   /**
    * Escalate a single alert
    */
@@ -554,9 +844,10 @@ export class AlertRoutingService {
       .eq('id', alert.id);
 
     // Send escalation notifications
+    const escalations: CaregiverNotification[] = [];
     for (const email of additionalCaregivers) {
       for (const channel of rule.channels) {
-        await this.sendNotification({
+        const notification: CaregiverNotification = {
           caregiverEmail: email,
           caregiverRole: 'escalation',
           alertId: alert.id,
@@ -565,9 +856,138 @@ export class AlertRoutingService {
           title: `ESCALATED: ${alert.title}`,
           body: `Alert not acknowledged. ${alert.message}`,
           data: { alertId: alert.id, escalated: true },
-        });
+        };
+        await this.sendNotification(notification);
+        escalations.push(notification);
       }
     }
+    await this.recordAlertAccess(alert, escalations);
+  }
+
+  // ---------------------------------------------------------------------------
+  // DELIVERY RECEIPTS & REPLIES
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Apply an SMS or call delivery receipt. A delivered receipt marks a pending
+   * alert sent; when every delivery of an alert has failed, the alert is
+   * escalated straight away instead of waiting out the escalation delay.
+   */
+  async handleDeliveryReceipt(receipt: TelephonyReceipt): Promise<DeliveryReceiptResult | null> {
+    const { data: delivery } = await this.supabase
+      .from('share_alert_deliveries')
+      .select('id, alert_id, status, escalation')
+      .eq('provider_message_id', receipt.messageId)
+      .maybeSingle();
+
+    if (!delivery) return null;
+
+    // Receipts can arrive out of order; never move back from a final state
+    const current = delivery.status as TelephonyDeliveryStatus;
+    const isFinal = current === 'delivered' || current === 'failed';
+    const deliveryStatus = isFinal ? current : receipt.status;
+
+    if (!isFinal) {
+      await this.supabase
+        .from('share_alert_deliveries')
+        .update({
+          status: receipt.status,
+          provider_status: receipt.providerStatus,
+          error_code: receipt.errorCode,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', delivery.id);
+    }
+
+    const { data: alert } = await this.supabase
+      .from('share_alerts')
+      .select('*')
+      .eq('id', delivery.alert_id)
+      .single();
+
+    if (!alert) return null;
+
+    let alertStatus = alert.status as AlertStatus;
+
+    if (deliveryStatus === 'delivered' && !alert.sent_at) {
+      const update: Record<string, string> = { sent_at: new Date().toISOString() };
+      if (alertStatus === 'pending') {
+        update.status = alertStatus = 'sent';
+      }
+      await this.supabase.from('share_alerts').update(update).eq('id', alert.id);
+    }
+
+    if (deliveryStatus === 'failed' && !delivery.escalation && ['pending', 'sent'].includes(alertStatus)) {
+      const { count } = await this.supabase
+        .from('share_alert_deliveries')
+        .select('id', { count: 'exact', head: true })
+        .eq('alert_id', alert.id)
+        .neq('status', 'failed');
+
+      if (!count && alert.escalation_policy_id) {
+        // Skip the wait for the next step of the sharer's policy
+        const plan = await this.getPolicyPlan(alert as ShareAlert);
+        const next = plan.find(step => step.step === alert.escalation_step + 1);
+        if (next) {
+          console.log(`All deliveries failed for alert ${alert.id}, escalating to policy step ${next.step}`);
+          await this.escalateAlongPolicy(alert as ShareAlert, [next]);
+          alertStatus = 'escalated';
+        }
+      } else if (!count) {
+        const rule = DEFAULT_ESCALATION_RULES.find(r => r.severity === alert.severity);
+        if (rule) {
+          console.log(`All deliveries failed for alert ${alert.id}, escalating`);
+          await this.escalateAlert(alert as ShareAlert, rule);
+          alertStatus = 'escalated';
+        }
+      }
+    }
+
+    return { alertId: alert.id, deliveryStatus, alertStatus };
+  }
+
+  /**
+   * Handle an SMS from a caregiver. Replying "1" acknowledges the most recent
+   * open alert they were texted or called about. Returns the text to reply
+   * with, or undefined when the sender isn't a verified caregiver.
+   */
+  async handleInboundSms(sms: InboundSms): Promise<string | undefined> {
+    const caregiverEmail = await caregiverPhoneService.instance.findCaregiverByPhone(sms.from);
+    if (!caregiverEmail) return undefined;
+
+    if (!isAcknowledgeReply(sms.body)) {
+      return 'Reply 1 to acknowledge the latest moccet alert.';
+    }
+
+    const { data: deliveries } = await this.supabase
+      .from('share_alert_deliveries')
+      .select('alert_id')
+      .eq('caregiver_email', caregiverEmail)
+      .in('channel', ['sms', 'voice'])
+      .order('created_at', { ascending: false })
+      .limit(20);
+
+    const alertIds = [...new Set((deliveries || []).map(d => d.alert_id as string))];
+    if (alertIds.length === 0) {
+      return 'There are no open alerts to acknowledge.';
+    }
+
+    const { data: alerts } = await this.supabase
+      .from('share_alerts')
+      .select('id, title, routed_to_caregivers')
+      .in('id', alertIds)
+      .in('status', ['pending', 'sent', 'escalated'])
+      .order('created_at', { ascending: false });
+
+    const alert = (alerts || []).find(a => (a.routed_to_caregivers as string[]).includes(caregiverEmail));
+    if (!alert) {
+      return 'There are no open alerts to acknowledge.';
+    }
+
+    await this.acknowledgeAlert(alert.id, caregiverEmail);
+    console.log(`Alert ${alert.id} acknowledged by SMS reply from ${caregiverEmail}`);
+
+    return `Acknowledged: ${alert.title}. Thank you for checking in.`;
   }
 
   // ---------------------------------------------------------------------------
@@ -728,6 +1148,17 @@ export class AlertRoutingService {
     return body.length > maxLength ? body.substring(0, maxLength - 3) + '...' : body;
   }
 
+  private formatSmsBody(notification: CaregiverNotification): string {
+    return `${notification.title}\n${notification.body}\n\nReply 1 to acknowledge.`;
+  }
+
+  private formatVoiceMessage(notification: CaregiverNotification): string {
+    // Emoji are read out literally by text-to-speech
+    const title = notification.title.replace(/[\u2139\u2600-\u27BF\uD800-\uDFFF\uFE0F]/g, '').trim();
+    return `This is moccet with a health alert. ${title}. ${notification.body} ` +
+      'Reply 1 to our text message, or open the moccet app, to acknowledge.';
+  }
+
   private getPatternBreakTitle(patternBreak: PatternBreak): string {
     const titles: Record<string, string> = {
       no_activity_data: 'No Activity Data Today',
@@ -773,6 +1204,12 @@ export const alertRoutingService = {
     alertRoutingService.instance.createAlertFromPatternBreak(...args),
   processEscalations: (...args: Parameters<AlertRoutingService['processEscalations']>) =>
     alertRoutingService.instance.processEscalations(...args),
+  releaseDeferredAlerts: (...args: Parameters<AlertRoutingService['releaseDeferredAlerts']>) =>
+    alertRoutingService.instance.releaseDeferredAlerts(...args),
+  handleDeliveryReceipt: (...args: Parameters<AlertRoutingService['handleDeliveryReceipt']>) =>
+    alertRoutingService.instance.handleDeliveryReceipt(...args),
+  handleInboundSms: (...args: Parameters<AlertRoutingService['handleInboundSms']>) =>
+    alertRoutingService.instance.handleInboundSms(...args),
   getAlertsForSharer: (...args: Parameters<AlertRoutingService['getAlertsForSharer']>) =>
     alertRoutingService.instance.getAlertsForSharer(...args),
   getAlertsForCaregiver: (...args: Parameters<AlertRoutingService['getAlertsForCaregiver']>) =>
@@ -0,0 +1,287 @@
+/**
+ * Caregiver Phone Service
+ * Registers and verifies caregiver phone numbers for SMS and voice alerts
+ */
+
+import crypto from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { getTelephonyProvider } from './telephony';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CaregiverPhone {
+  phone_number: string;
+  verified: boolean;
+  verified_at: string | null;
+  verification_pending: boolean;
+  sms_enabled: boolean;
+  voice_enabled: boolean;
+}
+
+export interface VerifiedPhone {
+  phone_number: string;
+  sms_enabled: boolean;
+  voice_enabled: boolean;
+}
+
+export interface PhoneResult {
+  success: boolean;
+  error?: string;
+  phone?: CaregiverPhone;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+const CODE_TTL_MINUTES = 10;
+const MAX_VERIFICATION_ATTEMPTS = 5;
+const RESEND_COOLDOWN_SECONDS = 60;
+
+export function isValidPhoneNumber(phoneNumber: string): boolean {
+  return E164_PATTERN.test(phoneNumber);
+}
+
+function hashCode(caregiverEmail: string, code: string): string {
+  return crypto.createHash('sha256').update(`${caregiverEmail}:${code}`).digest('hex');
+}
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+export class CaregiverPhoneService {
+  private supabase: SupabaseClient;
+
+  constructor() {
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const supabaseKey = process.env.SUPABASE_SERVICE_KEY || process.env.SUPABASE_ANON_KEY;
+
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error('Missing Supabase configuration');
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseKey);
+  }
+
+  // ---------------------------------------------------------------------------
+  // VERIFICATION
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Text a verification code to a caregiver's number. Registering a different
+   * number replaces the old one and stops SMS/voice alerts until it is verified.
+   */
+  async startVerification(caregiverEmail: string, phoneNumber: string): Promise<PhoneResult> {
+    if (!isValidPhoneNumber(phoneNumber)) {
+      return { success: false, error: 'Phone number must be in E.164 format, e.g. +15551234567' };
+    }
+
+    const { data: existing } = await this.supabase
+      .from('caregiver_phone_numbers')
+      .select('phone_number, verified_at, verification_sent_at')
+      .eq('caregiver_email', caregiverEmail)
+      .maybeSingle();
+
+    if (existing?.verification_sent_at) {
+      const elapsed = Date.now() - new Date(existing.verification_sent_at).getTime();
+      if (elapsed < RESEND_COOLDOWN_SECONDS * 1000) {
+        return { success: false, error: 'Please wait a minute before requesting another code' };
+      }
+    }
+
+    const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+    const now = new Date();
+    const sameNumber = existing?.phone_number === phoneNumber;
+
+    const { error } = await this.supabase
+      .from('caregiver_phone_numbers')
+      .upsert({
+        caregiver_email: caregiverEmail,
+        phone_number: phoneNumber,
+        verification_code_hash: hashCode(caregiverEmail, code),
+        verification_sent_at: now.toISOString(),
+        verification_expires_at: new Date(now.getTime() + CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+        verification_attempts: 0,
+        verified_at: sameNumber ? existing?.verified_at ?? null : null,
+        updated_at: now.toISOString(),
+      }, { onConflict: 'caregiver_email' });
+
+    if (error) {
+      console.error('[CaregiverPhone] Failed to save phone number:', error);
+      return { success: false, error: 'Failed to save phone number' };
+    }
+
+    try {
+      await getTelephonyProvider().sendSms(
+        phoneNumber,
+        `Your moccet verification code is ${code}. It expires in ${CODE_TTL_MINUTES} minutes.`
+      );
+    } catch (err) {
+      console.error('[CaregiverPhone] Failed to send verification code:', err);
+      return { success: false, error: 'Failed to send verification code' };
+    }
+
+    return { success: true, phone: (await this.getPhone(caregiverEmail)) || undefined };
+  }
+
+  /**
+   * Confirm the texted code
+   */
+  async confirmVerification(caregiverEmail: string, code: string): Promise<PhoneResult> {
+    const { data: row } = await this.supabase
+      .from('caregiver_phone_numbers')
+      .select('verification_code_hash, verification_expires_at, verification_attempts')
+      .eq('caregiver_email', caregiverEmail)
+      .maybeSingle();
+
+    if (!row?.verification_code_hash) {
+      return { success: false, error: 'No verification in progress' };
+    }
+    if (row.verification_attempts >= MAX_VERIFICATION_ATTEMPTS) {
+      return { success: false, error: 'Too many attempts, request a new code' };
+    }
+    if (new Date(row.verification_expires_at).getTime() < Date.now()) {
+      return { success: false, error: 'Verification code expired, request a new code' };
+    }
+
+    const expected = Buffer.from(row.verification_code_hash);
+    const actual = Buffer.from(hashCode(caregiverEmail, code.trim()));
+    const now = new Date().toISOString();
+
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      await this.supabase
+        .from('caregiver_phone_numbers')
+        .update({ verification_attempts: row.verification_attempts + 1, updated_at: now })
+        .eq('caregiver_email', caregiverEmail);
+      return { success: false, error: 'Incorrect verification code' };
+    }
+
+    const { error } = await this.supabase
+      .from('caregiver_phone_numbers')
+      .update({
+        verified_at: now,
+        verification_code_hash: null,
+        verification_expires_at: null,
+        verification_attempts: 0,
+        updated_at: now,
+      })
+      .eq('caregiver_email', caregiverEmail);
+
+    if (error) {
+      console.error('[CaregiverPhone] Failed to verify phone number:', error);
+      return { success: false, error: 'Failed to verify phone number' };
+    }
+
+    return { success: true, phone: (await this.getPhone(caregiverEmail)) || undefined };
+  }
+
+  // ---------------------------------------------------------------------------
+  // PHONE MANAGEMENT
+  // ---------------------------------------------------------------------------
+
+  async getPhone(caregiverEmail: string): Promise<CaregiverPhone | null> {
+    const { data } = await this.supabase
+      .from('caregiver_phone_numbers')
+      .select('phone_number, verified_at, verification_code_hash, sms_enabled, voice_enabled')
+      .eq('caregiver_email', caregiverEmail)
+      .maybeSingle();
+
+    if (!data) return null;
+
+    return {
+      phone_number: data.phone_number,
+      verified: !!data.verified_at,
+      verified_at: data.verified_at,
+      verification_pending: !!data.verification_code_hash,
+      sms_enabled: data.sms_enabled,
+      voice_enabled: data.voice_enabled,
+    };
+  }
+
+  /**
+   * Turn SMS or voice alerts on or off for the registered number
+   */
+  async updateChannels(
+    caregiverEmail: string,
+    channels: { sms_enabled?: boolean; voice_enabled?: boolean }
+  ): Promise<PhoneResult> {
+    const { data, error } = await this.supabase
+      .from('caregiver_phone_numbers')
+      .update({ ...channels, updated_at: new Date().toISOString() })
+      .eq('caregiver_email', caregiverEmail)
+      .select('id');
+
+    if (error) {
+      console.error('[CaregiverPhone] Failed to update channels:', error);
+      return { success: false, error: 'Failed to update phone settings' };
+    }
+    if (!data || data.length === 0) {
+      return { success: false, error: 'No phone number registered' };
+    }
+
+    return { success: true, phone: (await this.getPhone(caregiverEmail)) || undefined };
+  }
+
+  async removePhone(caregiverEmail: string): Promise<PhoneResult> {
+    const { error } = await this.supabase
+      .from('caregiver_phone_numbers')
+      .delete()
+      .eq('caregiver_email', caregiverEmail);
+
+    if (error) {
+      console.error('[CaregiverPhone] Failed to remove phone number:', error);
+      return { success: false, error: 'Failed to remove phone number' };
+    }
+
+    return { success: true };
+  }
+
+  // ---------------------------------------------------------------------------
+  // LOOKUPS
+  // ---------------------------------------------------------------------------
+
+  /**
+   * The caregiver's number if verified, for alert delivery
+   */
+  async getVerifiedPhone(caregiverEmail: string): Promise<VerifiedPhone | null> {
+    const { data } = await this.supabase
+      .from('caregiver_phone_numbers')
+      .select('phone_number, sms_enabled, voice_enabled')
+      .eq('caregiver_email', caregiverEmail)
+      .not('verified_at', 'is', null)
+      .maybeSingle();
+
+    return data ? (data as VerifiedPhone) : null;
+  }
+
+  /**
+   * Caregiver who owns a verified number, for inbound replies
+   */
+  async findCaregiverByPhone(phoneNumber: string): Promise<string | null> {
+    const { data } = await this.supabase
+      .from('caregiver_phone_numbers')
+      .select('caregiver_email')
+      .eq('phone_number', phoneNumber)
+      .not('verified_at', 'is', null)
+      .order('verified_at', { ascending: false })
+      .limit(1);
+
+    return data && data.length > 0 ? data[0].caregiver_email : null;
+  }
+}
+
+// Lazy singleton pattern to avoid build-time initialization errors
+let _caregiverPhoneServiceInstance: CaregiverPhoneService | null = null;
+
+export const caregiverPhoneService = {
+  get instance() {
+    if (!_caregiverPhoneServiceInstance) {
+      _caregiverPhoneServiceInstance = new CaregiverPhoneService();
+    }
+    return _caregiverPhoneServiceInstance;
+  },
+};
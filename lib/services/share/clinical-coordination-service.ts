@@ -5,6 +5,7 @@
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { contextBuilderService, CaregiverReport } from './context-builder-service';
+import { accessAuditService } from './access-audit-service';
 
 // =============================================================================
 // TYPES
@@ -309,6 +310,31 @@ export class ClinicalCoordinationService {
         delivery_status: deliveryStatus,
       })
       .eq('id', alert.id);
+
+    if (deliveryStatus !== 'failed') {
+      await accessAuditService.recordAccess({
+        sharerEmail: alert.user_email,
+        accessorEmail: provider.provider_email,
+        accessorType: 'clinician',
+        accessType: 'clinical_alert',
+        channel: provider.preferred_contact_method,
+        resourceType: 'share_clinical_alert',
+        resourceId: alert.id,
+        dataCategories: this.getReportDataCategories(alert.detailed_report),
+        metadata: { alert_type: alert.alert_type },
+      });
+    }
+  }
+
+  /**
+   * Data categories included in a clinical report, for the access log
+   */
+  private getReportDataCategories(report: ClinicalReportData): string[] {
+    const categories = ['clinical_report'];
+    if (report.vitalSigns) categories.push('vitals');
+    if (report.medications?.length) categories.push('medications');
+    if (report.recentAlerts?.length) categories.push('alerts');
+    return categories;
   }
 
   /**
@@ -542,7 +568,7 @@ export class ClinicalCoordinationService {
     const patientName = profile?.display_name || summary.userEmail.split('@')[0];
 
     // Create clinical alert record for tracking
-    await this.supabase
+    const { data: record } = await this.supabase
       .from('share_clinical_alerts')
       .insert({
         coordination_id: provider.id,
@@ -554,7 +580,9 @@ export class ClinicalCoordinationService {
         sent_at: new Date().toISOString(),
         delivery_status: 'sent',
         visible_to_caregivers: false, // Weekly summaries not shown to caregivers
-      });
+      })
+      .select('id')
+      .single();
 
     // Send email
     const emailSubject = `[moccet] Weekly Health Summary - ${patientName}`;
@@ -569,6 +597,18 @@ export class ClinicalCoordinationService {
         html: emailBody,
       }),
     });
+
+    await accessAuditService.recordAccess({
+      sharerEmail: summary.userEmail,
+      accessorEmail: provider.provider_email,
+      accessorType: 'clinician',
+      accessType: 'clinical_summary',
+      channel: 'email',
+      resourceType: 'share_clinical_alert',
+      resourceId: record?.id,
+      dataCategories: ['clinical_report', 'vitals', 'alerts', 'medications', 'trends'],
+      metadata: { week_start: summary.weekStart, week_end: summary.weekEnd },
+    });
   }
 
   /**
@@ -246,17 +246,19 @@ export class ContextBuilderService {
         .gte('scheduled_time', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString())
         .order('scheduled_time', { ascending: false });
 
-      const totalDoses = logs?.length || 0;
-      const takenDoses = logs?.filter(l => l.taken_at !== null).length || 0;
+      // Doses are scheduled ahead of time; only those already due count
+      const now = new Date();
+      const dueLogs = logs?.filter(l => new Date(l.scheduled_time) <= now) || [];
+      const totalDoses = dueLogs.length;
+      const takenDoses = dueLogs.filter(l => l.taken_at !== null).length;
       const missedDoses = totalDoses - takenDoses;
       const compliance = totalDoses > 0 ? Math.round((takenDoses / totalDoses) * 100) : 100;
 
       // Find last taken time
       const lastTaken = logs?.find(l => l.taken_at !== null)?.taken_at || null;
 
-      // Find next scheduled (first untaken scheduled time in future)
-      const now = new Date();
-      const nextDue = logs?.find(l =>
+      // Find next scheduled (first untaken scheduled time in future; logs are newest first)
+      const nextDue = [...(logs || [])].reverse().find(l =>
         l.taken_at === null &&
         new Date(l.scheduled_time) > now
       )?.scheduled_time || null;
@@ -526,7 +528,8 @@ export class ContextBuilderService {
       .select('taken_at')
       .eq('user_email', userEmail)
       .gte('scheduled_time', `${date}T00:00:00`)
-      .lt('scheduled_time', `${date}T23:59:59`);
+      .lt('scheduled_time', `${date}T23:59:59`)
+      .lte('scheduled_time', new Date().toISOString());
 
     const medTotal = medLogs?.length || 0;
     const medTaken = medLogs?.filter(l => l.taken_at !== null).length || 0;
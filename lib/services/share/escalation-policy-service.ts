@@ -0,0 +1,296 @@
+/**
+ * Escalation Policy Service
+ * Stores sharers' escalation policies and simulates who an alert would reach
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { AlertSeverity } from './anomaly-detection-service';
+import {
+  checkDeliveryWindow,
+  getDeliveryPreferences,
+  resolveTimezone,
+} from '../delivery-window';
+import {
+  DEFAULT_ESCALATION_TIMERS,
+  EscalationPlanStep,
+  EscalationPolicy,
+  EscalationPolicyInput,
+  PolicyCaregiver,
+  planDefaultEscalation,
+  planPolicyEscalation,
+} from './escalation-policy';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PolicyResult {
+  success: boolean;
+  error?: string;
+  policy?: EscalationPolicy;
+}
+
+export interface SimulatedRecipient {
+  caregiverEmail: string;
+  relationshipId: string;
+  label: string | null;
+  channels: string[];
+  /** When quiet hours hold the notification back, when it would arrive */
+  deliverAt: string;
+  heldForQuietHours: boolean;
+}
+
+export interface SimulatedStep extends Omit<EscalationPlanStep, 'notifyAt' | 'recipients'> {
+  notifyAt: string;
+  minutesAfterAlert: number;
+  recipients: SimulatedRecipient[];
+}
+
+export interface EscalationSimulation {
+  policySource: 'policy' | 'default';
+  severity: AlertSeverity;
+  alertAt: string;
+  timezone: string;
+  steps: SimulatedStep[];
+  /** Steps only run while the alert is unacknowledged */
+  note: string;
+}
+
+const SEVERITY_PERMISSION: Record<AlertSeverity, string> = {
+  critical: 'receive_critical_alerts',
+  high: 'receive_high_alerts',
+  medium: 'receive_medium_alerts',
+  low: 'receive_low_alerts',
+  info: 'receive_info_alerts',
+};
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+export class EscalationPolicyService {
+  private supabase: SupabaseClient;
+
+  constructor() {
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const supabaseKey = process.env.SUPABASE_SERVICE_KEY || process.env.SUPABASE_ANON_KEY;
+
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error('Missing Supabase configuration');
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseKey);
+  }
+
+  // ---------------------------------------------------------------------------
+  // POLICIES
+  // ---------------------------------------------------------------------------
+
+  async getPolicy(sharerEmail: string): Promise<EscalationPolicy | null> {
+    const { data } = await this.supabase
+      .from('share_escalation_policies')
+      .select('*')
+      .eq('sharer_email', sharerEmail)
+      .maybeSingle();
+
+    return data as EscalationPolicy | null;
+  }
+
+  async getPolicyById(policyId: string): Promise<EscalationPolicy | null> {
+    const { data } = await this.supabase
+      .from('share_escalation_policies')
+      .select('*')
+      .eq('id', policyId)
+      .maybeSingle();
+
+    return data as EscalationPolicy | null;
+  }
+
+  /**
+   * Create or replace a sharer's policy. Every step must name at least one of
+   * the sharer's active or paused caregivers.
+   */
+  async savePolicy(sharerEmail: string, input: EscalationPolicyInput): Promise<PolicyResult> {
+    const error = await this.validatePolicy(sharerEmail, input);
+    if (error) return { success: false, error };
+
+    const { data, error: saveError } = await this.supabase
+      .from('share_escalation_policies')
+      .upsert({
+        sharer_email: sharerEmail,
+        enabled: input.enabled,
+        timezone: input.timezone ?? null,
+        timers: Object.keys(input.timers).length > 0 ? input.timers : DEFAULT_ESCALATION_TIMERS,
+        steps: input.steps,
+        emergency_step: input.emergency_step,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'sharer_email' })
+      .select()
+      .single();
+
+    if (saveError) {
+      console.error('[EscalationPolicyService] Error saving policy:', saveError);
+      return { success: false, error: 'Failed to save escalation policy' };
+    }
+
+    console.log(`[EscalationPolicyService] Saved policy for ${sharerEmail} (${input.steps.length} steps)`);
+    return { success: true, policy: data as EscalationPolicy };
+  }
+
+  async deletePolicy(sharerEmail: string): Promise<boolean> {
+    const { data } = await this.supabase
+      .from('share_escalation_policies')
+      .delete()
+      .eq('sharer_email', sharerEmail)
+      .select('id');
+
+    return !!data && data.length > 0;
+  }
+
+  private async validatePolicy(sharerEmail: string, input: EscalationPolicyInput): Promise<string | null> {
+    if (input.steps.length === 0) {
+      return 'A policy needs at least one step';
+    }
+
+    const { data: relationships } = await this.supabase
+      .from('share_relationships')
+      .select('id')
+      .eq('sharer_email', sharerEmail)
+      .in('status', ['active', 'paused']);
+
+    const known = new Set((relationships || []).map((r: { id: string }) => r.id));
+
+    for (const [i, step] of input.steps.entries()) {
+      if (step.targets.length === 0) {
+        return `Step ${i + 1} has no caregivers`;
+      }
+      const unknown = step.targets.find((t) => !known.has(t.relationship_id));
+      if (unknown) {
+        return `Step ${i + 1} names a caregiver you don't share with (${unknown.relationship_id})`;
+      }
+    }
+
+    return null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // CAREGIVERS
+  // ---------------------------------------------------------------------------
+
+  /**
+   * The sharer's active caregivers with the permissions the planner needs
+   */
+  async getPolicyCaregivers(sharerEmail: string, severity?: AlertSeverity): Promise<PolicyCaregiver[]> {
+    const { data: relationships } = await this.supabase
+      .from('share_relationships')
+      .select('id, caregiver_email, caregiver_role, relationship_label, share_permissions (*)')
+      .eq('sharer_email', sharerEmail)
+      .eq('status', 'active');
+
+    return (relationships || []).map((rel) => {
+      const raw = rel.share_permissions as unknown;
+      const perms = (Array.isArray(raw) ? raw[0] : raw) as Record<string, boolean> | null;
+
+      return {
+        relationship_id: rel.id,
+        caregiver_email: rel.caregiver_email,
+        caregiver_role: rel.caregiver_role,
+        label: rel.relationship_label,
+        can_contact_emergency: perms?.can_contact_emergency === true,
+        receives_severity: severity ? !!perms && perms[SEVERITY_PERMISSION[severity]] !== false : undefined,
+      };
+    });
+  }
+
+  /**
+   * Timezone a policy's on-call windows are evaluated in
+   */
+  async getPolicyTimezone(sharerEmail: string, policy: Pick<EscalationPolicy, 'timezone'> | null): Promise<string> {
+    if (policy?.timezone) return policy.timezone;
+    return resolveTimezone(sharerEmail, await getDeliveryPreferences(sharerEmail));
+  }
+
+  // ---------------------------------------------------------------------------
+  // SIMULATION
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Who would be notified, on which channels and when, for a hypothetical
+   * alert. Pass `draft` to try out a policy before saving it.
+   */
+  async simulate(
+    sharerEmail: string,
+    severity: AlertSeverity,
+    alertAt: Date = new Date(),
+    draft?: EscalationPolicyInput
+  ): Promise<EscalationSimulation> {
+    const saved = draft ? null : await this.getPolicy(sharerEmail);
+    const policy = draft
+      ? { ...draft, timers: Object.keys(draft.timers).length > 0 ? draft.timers : DEFAULT_ESCALATION_TIMERS }
+      : saved?.enabled ? saved : null;
+
+    const caregivers = await this.getPolicyCaregivers(sharerEmail, severity);
+    const timezone = await this.getPolicyTimezone(sharerEmail, policy ? { timezone: policy.timezone ?? null } : null);
+
+    const plan = policy
+      ? planPolicyEscalation(policy, caregivers, severity, alertAt, timezone)
+      : planDefaultEscalation(caregivers, severity, alertAt);
+
+    const steps: SimulatedStep[] = [];
+    for (const step of plan) {
+      const recipients: SimulatedRecipient[] = [];
+
+      for (const recipient of step.recipients) {
+        // Only the initial medium/low alert waits out quiet hours; high,
+        // critical and escalations go straight through
+        let deliverAt = step.notifyAt;
+        if (step.step === 0 && severity !== 'critical' && severity !== 'high') {
+          const window = await checkDeliveryWindow(recipient.caregiverEmail, step.notifyAt);
+          if (!window.open && window.nextOpenAt) deliverAt = window.nextOpenAt;
+        }
+
+        recipients.push({
+          ...recipient,
+          deliverAt: deliverAt.toISOString(),
+          heldForQuietHours: deliverAt.getTime() !== step.notifyAt.getTime(),
+        });
+      }
+
+      steps.push({
+        ...step,
+        notifyAt: step.notifyAt.toISOString(),
+        minutesAfterAlert: Math.round((step.notifyAt.getTime() - alertAt.getTime()) / 60000),
+        recipients,
+      });
+    }
+
+    return {
+      policySource: policy ? 'policy' : 'default',
+      severity,
+      alertAt: alertAt.toISOString(),
+      timezone,
+      steps,
+      note: 'Escalation steps stop as soon as a caregiver acknowledges the alert.',
+    };
+  }
+}
+
+// Lazy singleton pattern to avoid build-time initialization errors
+let _escalationPolicyServiceInstance: EscalationPolicyService | null = null;
+
+export const escalationPolicyService = {
+  get instance() {
+    if (!_escalationPolicyServiceInstance) {
+      _escalationPolicyServiceInstance = new EscalationPolicyService();
+    }
+    return _escalationPolicyServiceInstance;
+  },
+  getPolicy: (...args: Parameters<EscalationPolicyService['getPolicy']>) =>
+    escalationPolicyService.instance.getPolicy(...args),
+  savePolicy: (...args: Parameters<EscalationPolicyService['savePolicy']>) =>
+    escalationPolicyService.instance.savePolicy(...args),
+  deletePolicy: (...args: Parameters<EscalationPolicyService['deletePolicy']>) =>
+    escalationPolicyService.instance.deletePolicy(...args),
+  simulate: (...args: Parameters<EscalationPolicyService['simulate']>) =>
+    escalationPolicyService.instance.simulate(...args),
+};
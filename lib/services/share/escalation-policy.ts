@@ -0,0 +1,316 @@
+/**
+ * Escalation Policy
+ * Pure planning of who is notified about a share alert, and when, under a
+ * sharer's escalation policy or the default rules. Used both to run
+ * escalations and to simulate them for the policy editor.
+ */
+
+import type { AlertSeverity } from './anomaly-detection-service';
+import type { AlertChannel } from './alert-routing-service';
+import { getLocalTime } from '../delivery-window/schedule';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface EscalationRule {
+  severity: AlertSeverity;
+  escalateAfterMinutes: number;
+  escalateTo: 'secondary' | 'all' | 'clinical' | 'emergency';
+  channels: AlertChannel[];
+}
+
+/**
+ * Local weekly window a caregiver is on call. Hours are 0-24 in the policy's
+ * timezone; an end before the start wraps past midnight.
+ */
+export interface OnCallWindow {
+  days: number[];
+  start_hour?: number;
+  end_hour?: number;
+}
+
+export interface EscalationTarget {
+  relationship_id: string;
+  /** Omit to be on call at all times */
+  on_call?: OnCallWindow[];
+}
+
+export interface EscalationStep {
+  name?: string;
+  targets: EscalationTarget[];
+  channels?: AlertChannel[];
+  /** Minutes to wait after the previous step, overriding the policy timers */
+  delay_minutes?: Partial<Record<AlertSeverity, number>>;
+}
+
+export interface EscalationPolicy {
+  id: string;
+  sharer_email: string;
+  enabled: boolean;
+  /** Timezone on-call windows are evaluated in; null uses the sharer's */
+  timezone: string | null;
+  /** Minutes between steps by severity; severities without a timer don't escalate */
+  timers: Partial<Record<AlertSeverity, number>>;
+  steps: EscalationStep[];
+  /** After the last step, prompt caregivers allowed to contact emergency services */
+  emergency_step: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type EscalationPolicyInput = Pick<EscalationPolicy, 'enabled' | 'timers' | 'steps' | 'emergency_step'> & {
+  timezone?: string | null;
+};
+
+/** An active relationship of the sharer, as seen by the planner */
+export interface PolicyCaregiver {
+  relationship_id: string;
+  caregiver_email: string;
+  caregiver_role: string;
+  label: string | null;
+  can_contact_emergency: boolean;
+  /** Receives this severity under their alert preferences (default rules only) */
+  receives_severity?: boolean;
+}
+
+export interface PlannedRecipient {
+  caregiverEmail: string;
+  relationshipId: string;
+  label: string | null;
+  channels: AlertChannel[];
+}
+
+export interface EscalationPlanStep {
+  step: number;
+  name: string;
+  notifyAt: Date;
+  recipients: PlannedRecipient[];
+  /** Targets left out of this step and why */
+  skipped: Array<{ relationshipId: string; caregiverEmail: string | null; reason: 'off_call' | 'not_active' | 'already_notified' }>;
+  /** Nobody was on call, so every active target in the step is notified */
+  onCallFallback: boolean;
+  emergency: boolean;
+}
+
+// =============================================================================
+// DEFAULT RULES
+// =============================================================================
+
+export const DEFAULT_ESCALATION_RULES: EscalationRule[] = [
+  {
+    severity: 'critical',
+    escalateAfterMinutes: 5,
+    escalateTo: 'all',
+    channels: ['push', 'sms', 'voice'],
+  },
+  {
+    severity: 'high',
+    escalateAfterMinutes: 30,
+    escalateTo: 'secondary',
+    channels: ['push'],
+  },
+  {
+    severity: 'medium',
+    escalateAfterMinutes: 60,
+    escalateTo: 'secondary',
+    channels: ['push'],
+  },
+];
+
+/** Policy timers when a policy doesn't set its own */
+export const DEFAULT_ESCALATION_TIMERS: Partial<Record<AlertSeverity, number>> = Object.fromEntries(
+  DEFAULT_ESCALATION_RULES.map((rule) => [rule.severity, rule.escalateAfterMinutes])
+);
+
+const EMERGENCY_CHANNELS: AlertChannel[] = ['push', 'sms', 'voice'];
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Channels an alert goes out on at a step, when the step doesn't choose
+ */
+export function getDefaultChannels(severity: AlertSeverity, escalation: boolean): AlertChannel[] {
+  if (escalation) {
+    return DEFAULT_ESCALATION_RULES.find((r) => r.severity === severity)?.channels || ['push'];
+  }
+  return severity === 'critical' ? ['push', 'sms'] : ['push'];
+}
+
+// =============================================================================
+// ON-CALL
+// =============================================================================
+
+function inWindow(window: OnCallWindow, weekday: number, minutes: number): boolean {
+  const start = (window.start_hour ?? 0) * 60;
+  const end = (window.end_hour ?? 24) * 60;
+
+  if (start < end) {
+    return window.days.includes(weekday) && minutes >= start && minutes < end;
+  }
+
+  // Overnight window: the late part belongs to the listed day, the early
+  // part to the day after
+  const previousDay = (weekday + 6) % 7;
+  return (window.days.includes(weekday) && minutes >= start) ||
+    (window.days.includes(previousDay) && minutes < end);
+}
+
+export function isOnCall(target: Pick<EscalationTarget, 'on_call'>, at: Date, timeZone: string): boolean {
+  if (!target.on_call || target.on_call.length === 0) return true;
+
+  const { weekday, minutes } = getLocalTime(at, timeZone);
+  return target.on_call.some((window) => inWindow(window, weekday, minutes));
+}
+
+// =============================================================================
+// PLANNING
+// =============================================================================
+
+/**
+ * Steps of a policy for an alert raised at `createdAt`: the first step at
+ * once, each later one after its timer. The chain stops at the first step
+ * with no timer for the severity. Caregivers are notified at most once,
+ * except by the emergency step.
+ */
+export function planPolicyEscalation(
+  policy: Pick<EscalationPolicy, 'timers' | 'steps' | 'emergency_step'>,
+  caregivers: PolicyCaregiver[],
+  severity: AlertSeverity,
+  createdAt: Date,
+  timeZone: string
+): EscalationPlanStep[] {
+  const byRelationship = new Map(caregivers.map((c) => [c.relationship_id, c]));
+  const notified = new Set<string>();
+  const plan: EscalationPlanStep[] = [];
+  let notifyAt = createdAt;
+
+  for (let i = 0; i < policy.steps.length; i++) {
+    const step = policy.steps[i];
+
+    if (i > 0) {
+      const delay = step.delay_minutes?.[severity] ?? policy.timers[severity];
+      if (delay === undefined) return plan;
+      notifyAt = new Date(notifyAt.getTime() + delay * MINUTE_MS);
+    }
+
+    const skipped: EscalationPlanStep['skipped'] = [];
+    const active: Array<{ target: EscalationTarget; caregiver: PolicyCaregiver }> = [];
+
+    for (const target of step.targets) {
+      const caregiver = byRelationship.get(target.relationship_id);
+      if (!caregiver) {
+        skipped.push({ relationshipId: target.relationship_id, caregiverEmail: null, reason: 'not_active' });
+      } else if (notified.has(caregiver.caregiver_email)) {
+        skipped.push({ relationshipId: target.relationship_id, caregiverEmail: caregiver.caregiver_email, reason: 'already_notified' });
+      } else {
+        active.push({ target, caregiver });
+      }
+    }
+
+    const onCall = active.filter(({ target }) => isOnCall(target, notifyAt, timeZone));
+    const onCallFallback = onCall.length === 0 && active.length > 0;
+    const selected = onCallFallback ? active : onCall;
+
+    if (!onCallFallback) {
+      for (const { caregiver } of active.filter((a) => !onCall.includes(a))) {
+        skipped.push({ relationshipId: caregiver.relationship_id, caregiverEmail: caregiver.caregiver_email, reason: 'off_call' });
+      }
+    }
+
+    const channels = step.channels?.length ? step.channels : getDefaultChannels(severity, i > 0);
+    const recipients = selected.map(({ caregiver }) => ({
+      caregiverEmail: caregiver.caregiver_email,
+      relationshipId: caregiver.relationship_id,
+      label: caregiver.label,
+      channels,
+    }));
+    recipients.forEach((r) => notified.add(r.caregiverEmail));
+
+    plan.push({
+      step: i,
+      name: step.name || (i === 0 ? 'Initial alert' : `Escalation ${i}`),
+      notifyAt,
+      recipients,
+      skipped,
+      onCallFallback,
+      emergency: false,
+    });
+  }
+
+  const emergencyDelay = policy.timers[severity];
+  if (policy.emergency_step && emergencyDelay !== undefined && plan.length > 0) {
+    plan.push({
+      step: plan.length,
+      name: 'Emergency contact',
+      notifyAt: new Date(notifyAt.getTime() + emergencyDelay * MINUTE_MS),
+      recipients: caregivers
+        .filter((c) => c.can_contact_emergency)
+        .map((c) => ({
+          caregiverEmail: c.caregiver_email,
+          relationshipId: c.relationship_id,
+          label: c.label,
+          channels: EMERGENCY_CHANNELS,
+        })),
+      skipped: [],
+      onCallFallback: false,
+      emergency: true,
+    });
+  }
+
+  return plan;
+}
+
+/**
+ * Steps under the default rules: every caregiver whose alert preferences
+ * include the severity, then secondary (or all) caregivers after the rule's
+ * delay.
+ */
+export function planDefaultEscalation(
+  caregivers: PolicyCaregiver[],
+  severity: AlertSeverity,
+  createdAt: Date
+): EscalationPlanStep[] {
+  const initial = caregivers.filter((c) => c.receives_severity !== false);
+  const initialEmails = new Set(initial.map((c) => c.caregiver_email));
+
+  const plan: EscalationPlanStep[] = [{
+    step: 0,
+    name: 'Initial alert',
+    notifyAt: createdAt,
+    recipients: initial.map((c) => ({
+      caregiverEmail: c.caregiver_email,
+      relationshipId: c.relationship_id,
+      label: c.label,
+      channels: getDefaultChannels(severity, false),
+    })),
+    skipped: [],
+    onCallFallback: false,
+    emergency: false,
+  }];
+
+  const rule = DEFAULT_ESCALATION_RULES.find((r) => r.severity === severity);
+  if (!rule) return plan;
+
+  const escalateTo = caregivers.filter((c) =>
+    !initialEmails.has(c.caregiver_email) &&
+    (rule.escalateTo === 'all' || c.caregiver_role === 'secondary')
+  );
+
+  plan.push({
+    step: 1,
+    name: 'Escalation 1',
+    notifyAt: new Date(createdAt.getTime() + rule.escalateAfterMinutes * MINUTE_MS),
+    recipients: escalateTo.map((c) => ({
+      caregiverEmail: c.caregiver_email,
+      relationshipId: c.relationship_id,
+      label: c.label,
+      channels: rule.channels,
+    })),
+    skipped: [],
+    onCallFallback: false,
+    emergency: false,
+  });
+
+  return plan;
+}
@@ -469,6 +469,31 @@ export class ShareRelationshipService {
     return data || [];
   }
 
+  /**
+   * Get the active relationship in which a caregiver looks after a sharer,
+   * if there is one
+   */
+  async getActiveRelationship(
+    sharerEmail: string,
+    caregiverEmail: string
+  ): Promise<ShareRelationship | null> {
+    const { data, error } = await this.supabase
+      .from('share_relationships')
+      .select('*')
+      .eq('sharer_email', sharerEmail)
+      .eq('caregiver_email', caregiverEmail)
+      .eq('status', 'active')
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[ShareRelationshipService] Error fetching relationship:', error);
+      return null;
+    }
+
+    return data;
+  }
+
   /**
    * Pause sharing (temporarily stop sharing data)
    */
@@ -619,6 +644,21 @@ export class ShareRelationshipService {
     }
   }
 
+  /**
+   * Whether the user is the sharer or the caregiver in a relationship
+   */
+  async isRelationshipMember(relationshipId: string, email: string): Promise<boolean> {
+    const { data } = await this.supabase
+      .from('share_relationships')
+      .select('sharer_email, caregiver_email')
+      .eq('id', relationshipId)
+      .maybeSingle();
+
+    if (!data) return false;
+    const userEmail = email.toLowerCase();
+    return data.sharer_email?.toLowerCase() === userEmail || data.caregiver_email?.toLowerCase() === userEmail;
+  }
+
   // ---------------------------------------------------------------------------
   // PERMISSIONS
   // ---------------------------------------------------------------------------
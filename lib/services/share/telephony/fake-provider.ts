@@ -0,0 +1,102 @@
+/**
+ * Fake Telephony Provider
+ *
+ * Keeps sent messages and calls in memory instead of contacting a carrier.
+ * Used in tests and local development; helpers build Twilio-format webhook
+ * payloads so receipts and replies can be replayed against the real routes.
+ */
+
+import {
+  TelephonyChannel,
+  TelephonyProvider,
+  TelephonySendOptions,
+  TelephonySendResult,
+} from './types';
+
+export interface FakeTelephonyMessage {
+  messageId: string;
+  channel: TelephonyChannel;
+  to: string;
+  body: string;
+  statusCallbackUrl?: string;
+  sentAt: string;
+}
+
+export class FakeTelephonyProvider implements TelephonyProvider {
+  readonly name = 'fake' as const;
+  readonly messages: FakeTelephonyMessage[] = [];
+  private failingNumbers = new Set<string>();
+  private counter = 0;
+
+  constructor(private fromNumber: string = '+15005550006') {}
+
+  async sendSms(to: string, body: string, options?: TelephonySendOptions): Promise<TelephonySendResult> {
+    return this.record('sms', to, body, options);
+  }
+
+  async placeCall(to: string, message: string, options?: TelephonySendOptions): Promise<TelephonySendResult> {
+    return this.record('voice', to, message, options);
+  }
+
+  verifyWebhook(): boolean {
+    return true;
+  }
+
+  /** Make sends to this number throw, as a carrier rejection would */
+  failDeliveriesTo(phoneNumber: string): void {
+    this.failingNumbers.add(phoneNumber);
+  }
+
+  /** Messages and calls sent to a number, oldest first */
+  sentTo(phoneNumber: string): FakeTelephonyMessage[] {
+    return this.messages.filter((m) => m.to === phoneNumber);
+  }
+
+  /** Status callback payload for a recorded message or call */
+  receiptFor(messageId: string, providerStatus: string, errorCode?: string): Record<string, string> {
+    const message = this.messages.find((m) => m.messageId === messageId);
+    const params: Record<string, string> = message?.channel === 'voice'
+      ? { CallSid: messageId, CallStatus: providerStatus }
+      : { MessageSid: messageId, MessageStatus: providerStatus };
+    if (errorCode) {
+      params.ErrorCode = errorCode;
+    }
+    return params;
+  }
+
+  /** Inbound SMS payload, as if `from` texted our number */
+  inboundFrom(from: string, body: string): Record<string, string> {
+    this.counter++;
+    return { MessageSid: `SMfakeinbound${this.counter}`, From: from, To: this.fromNumber, Body: body };
+  }
+
+  reset(): void {
+    this.messages.length = 0;
+    this.failingNumbers.clear();
+    this.counter = 0;
+  }
+
+  private record(
+    channel: TelephonyChannel,
+    to: string,
+    body: string,
+    options?: TelephonySendOptions
+  ): TelephonySendResult {
+    if (this.failingNumbers.has(to)) {
+      throw new Error(`Fake delivery to ${to} failed`);
+    }
+
+    this.counter++;
+    const messageId = `${channel === 'voice' ? 'CA' : 'SM'}fake${this.counter}`;
+    this.messages.push({
+      messageId,
+      channel,
+      to,
+      body,
+      statusCallbackUrl: options?.statusCallbackUrl,
+      sentAt: new Date().toISOString(),
+    });
+
+    return { messageId, status: 'queued' };
+  }
+}
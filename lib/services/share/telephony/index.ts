@@ -0,0 +1,106 @@
+/**
+ * Telephony Module
+ *
+ * SMS and voice channel for caregiver alerts.
+ *
+ * @example
+ * ```ts
+ * import { getTelephonyProvider, getTelephonyWebhookUrl } from '@/lib/services/share/telephony';
+ *
+ * await getTelephonyProvider().sendSms('+15551234567', 'Hello', {
+ *   statusCallbackUrl: getTelephonyWebhookUrl('status'),
+ * });
+ * ```
+ */
+
+import { createLogger } from '@/lib/utils/logger';
+import { TelephonyProvider, TelephonyProviderName } from './types';
+import { TwilioTelephonyProvider } from './twilio-provider';
+import { FakeTelephonyProvider } from './fake-provider';
+
+export type {
+  TelephonyProvider,
+  TelephonyProviderName,
+  TelephonyChannel,
+  TelephonyDeliveryStatus,
+  TelephonySendOptions,
+  TelephonySendResult,
+  TelephonyReceipt,
+  InboundSms,
+} from './types';
+
+export { TwilioTelephonyProvider } from './twilio-provider';
+export { FakeTelephonyProvider } from './fake-provider';
+export type { FakeTelephonyMessage } from './fake-provider';
+export {
+  normalizeTelephonyStatus,
+  parseStatusCallback,
+  parseInboundSms,
+  isAcknowledgeReply,
+  buildMessagingResponse,
+} from './webhooks';
+
+const logger = createLogger('Telephony');
+
+let provider: TelephonyProvider | null = null;
+
+/**
+ * Provider named by TELEPHONY_PROVIDER ('twilio' | 'fake'). Without it,
+ * Twilio is used when credentials are configured. The fake, which accepts
+ * any webhook, is only picked implicitly under test; otherwise telephony is
+ * unconfigured (null).
+ */
+function getConfiguredProviderName(): TelephonyProviderName | null {
+  const configured = process.env.TELEPHONY_PROVIDER;
+  if (configured === 'twilio' || configured === 'fake') return configured;
+  if (configured) {
+    logger.warn('Unknown TELEPHONY_PROVIDER, telephony is disabled', { configured });
+    return null;
+  }
+
+  if (process.env.TWILIO_ACCOUNT_SID) return 'twilio';
+  return process.env.NODE_ENV === 'test' ? 'fake' : null;
+}
+
+/**
+ * Whether SMS and calls can be sent and telephony webhooks trusted
+ */
+export function isTelephonyConfigured(): boolean {
+  return provider !== null || getConfiguredProviderName() !== null;
+}
+
+/**
+ * The configured provider. Throws when telephony isn't configured, so sends
+ * fail (and are recorded as failed) rather than silently going nowhere.
+ */
+export function getTelephonyProvider(): TelephonyProvider {
+  if (!provider) {
+    const configured = getConfiguredProviderName();
+
+    if (configured === 'twilio') {
+      provider = new TwilioTelephonyProvider();
+    } else if (configured === 'fake') {
+      logger.warn('Using fake telephony provider, SMS and calls will not be delivered');
+      provider = new FakeTelephonyProvider();
+    } else {
+      throw new Error('Telephony is not configured; set TWILIO_ACCOUNT_SID or TELEPHONY_PROVIDER');
+    }
+  }
+  return provider;
+}
+
+/**
+ * Override the provider, e.g. with a FakeTelephonyProvider in tests. Pass
+ * null to go back to the configured one.
+ */
+export function setTelephonyProvider(override: TelephonyProvider | null): void {
+  provider = override;
+}
+
+/**
+ * Public URL of a telephony webhook. Providers sign the exact URL they post
+ * to, so signature checks use this rather than the incoming request URL.
+ */
+export function getTelephonyWebhookUrl(kind: 'status' | 'inbound'): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/telephony/${kind}`;
+}
@@ -0,0 +1,99 @@
+/**
+ * Twilio Telephony Provider
+ *
+ * Sends SMS and places calls through the Twilio REST API. TWILIO_API_BASE_URL
+ * points it at any Twilio-compatible backend.
+ */
+
+import crypto from 'crypto';
+import {
+  TelephonyProvider,
+  TelephonySendOptions,
+  TelephonySendResult,
+} from './types';
+import { escapeXml, normalizeTelephonyStatus } from './webhooks';
+
+const DEFAULT_API_BASE_URL = 'https://api.twilio.com/2010-04-01';
+
+export class TwilioTelephonyProvider implements TelephonyProvider {
+  readonly name = 'twilio' as const;
+  private accountSid: string;
+  private authToken: string;
+  private fromNumber: string;
+  private baseUrl: string;
+
+  constructor(options?: { accountSid?: string; authToken?: string; fromNumber?: string; baseUrl?: string }) {
+    const accountSid = options?.accountSid || process.env.TWILIO_ACCOUNT_SID;
+    const authToken = options?.authToken || process.env.TWILIO_AUTH_TOKEN;
+    const fromNumber = options?.fromNumber || process.env.TWILIO_FROM_NUMBER;
+
+    if (!accountSid || !authToken || !fromNumber) {
+      throw new Error('Twilio account SID, auth token and from number are required');
+    }
+
+    this.accountSid = accountSid;
+    this.authToken = authToken;
+    this.fromNumber = fromNumber;
+    this.baseUrl = options?.baseUrl || process.env.TWILIO_API_BASE_URL || DEFAULT_API_BASE_URL;
+  }
+
+  async sendSms(to: string, body: string, options?: TelephonySendOptions): Promise<TelephonySendResult> {
+    const params: Record<string, string> = { To: to, From: this.fromNumber, Body: body };
+    if (options?.statusCallbackUrl) {
+      params.StatusCallback = options.statusCallbackUrl;
+    }
+
+    return this.post('Messages.json', params);
+  }
+
+  async placeCall(to: string, message: string, options?: TelephonySendOptions): Promise<TelephonySendResult> {
+    // Read the message twice so it isn't missed if the call is picked up late
+    const say = `<Say>${escapeXml(message)}</Say>`;
+    const params: Record<string, string> = {
+      To: to,
+      From: this.fromNumber,
+      Twiml: `<Response>${say}<Pause length="1"/>${say}</Response>`,
+    };
+    if (options?.statusCallbackUrl) {
+      params.StatusCallback = options.statusCallbackUrl;
+    }
+
+    return this.post('Calls.json', params);
+  }
+
+  /**
+   * Twilio signs the full webhook URL followed by each POST parameter name
+   * and value, sorted by name, with HMAC-SHA1 keyed by the auth token.
+   */
+  verifyWebhook(url: string, params: Record<string, string>, signature: string | null): boolean {
+    if (!signature) return false;
+
+    const payload = Object.keys(params)
+      .sort()
+      .reduce((acc, key) => acc + key + params[key], url);
+    const expected = crypto.createHmac('sha1', this.authToken).update(payload).digest('base64');
+
+    const a = Buffer.from(expected);
+    const b = Buffer.from(signature);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
+  private async post(resource: string, params: Record<string, string>): Promise<TelephonySendResult> {
+    const credentials = Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64');
+    const response = await fetch(`${this.baseUrl}/Accounts/${this.accountSid}/${resource}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${credentials}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams(params).toString(),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Twilio ${resource} request failed (${response.status}): ${data.message || 'Unknown error'}`);
+    }
+
+    return { messageId: data.sid, status: normalizeTelephonyStatus(data.status) };
+  }
+}
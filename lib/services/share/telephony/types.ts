@@ -0,0 +1,62 @@
+/**
+ * Telephony Types
+ *
+ * SMS and voice delivery for caregiver alerts. Providers speak the Twilio
+ * REST and webhook formats, so any Twilio-compatible backend can be swapped in.
+ */
+
+export type TelephonyProviderName = 'twilio' | 'fake';
+
+export type TelephonyChannel = 'sms' | 'voice';
+
+/**
+ * Normalized delivery state. Provider statuses (Twilio has separate message
+ * and call vocabularies) collapse onto these four.
+ */
+export type TelephonyDeliveryStatus = 'queued' | 'sent' | 'delivered' | 'failed';
+
+export interface TelephonySendOptions {
+  /** URL the provider posts delivery receipts to */
+  statusCallbackUrl?: string;
+}
+
+export interface TelephonySendResult {
+  /** Provider id of the message or call (Twilio SID) */
+  messageId: string;
+  status: TelephonyDeliveryStatus;
+}
+
+/**
+ * Delivery receipt parsed from a status callback
+ */
+export interface TelephonyReceipt {
+  messageId: string;
+  channel: TelephonyChannel;
+  status: TelephonyDeliveryStatus;
+  /** Status as reported by the provider */
+  providerStatus: string;
+  errorCode: string | null;
+}
+
+/**
+ * SMS received from a caregiver
+ */
+export interface InboundSms {
+  messageId: string;
+  from: string;
+  to: string;
+  body: string;
+}
+
+export interface TelephonyProvider {
+  readonly name: TelephonyProviderName;
+
+  /** Send a text message to an E.164 number */
+  sendSms(to: string, body: string, options?: TelephonySendOptions): Promise<TelephonySendResult>;
+
+  /** Call an E.164 number and read the message aloud */
+  placeCall(to: string, message: string, options?: TelephonySendOptions): Promise<TelephonySendResult>;
+
+  /** Check the signature on a webhook the provider posted to `url` */
+  verifyWebhook(url: string, params: Record<string, string>, signature: string | null): boolean;
+}
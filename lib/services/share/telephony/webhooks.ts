@@ -0,0 +1,100 @@
+/**
+ * Telephony Webhook Helpers
+ *
+ * Parsing for Twilio-format status callbacks and inbound SMS, plus the TwiML
+ * replies sent back. Pure functions, shared by the real and fake providers.
+ */
+
+import { InboundSms, TelephonyDeliveryStatus, TelephonyReceipt } from './types';
+
+/** Caregivers reply with one of these to acknowledge the latest alert */
+const ACKNOWLEDGE_REPLIES = new Set(['1', 'ack', 'acknowledge', 'acknowledged']);
+
+const STATUS_MAP: Record<string, TelephonyDeliveryStatus> = {
+  // Messages
+  accepted: 'queued',
+  scheduled: 'queued',
+  queued: 'queued',
+  sending: 'queued',
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'delivered',
+  undelivered: 'failed',
+  failed: 'failed',
+  canceled: 'failed',
+  // Calls
+  initiated: 'queued',
+  ringing: 'sent',
+  'in-progress': 'delivered',
+  completed: 'delivered',
+  busy: 'failed',
+  'no-answer': 'failed',
+};
+
+export function normalizeTelephonyStatus(providerStatus: string | null | undefined): TelephonyDeliveryStatus {
+  return STATUS_MAP[(providerStatus || '').toLowerCase()] || 'queued';
+}
+
+/**
+ * Parse a message or call status callback. Returns null for payloads that
+ * carry neither.
+ */
+export function parseStatusCallback(params: Record<string, string>): TelephonyReceipt | null {
+  if (params.MessageSid && params.MessageStatus) {
+    return {
+      messageId: params.MessageSid,
+      channel: 'sms',
+      status: normalizeTelephonyStatus(params.MessageStatus),
+      providerStatus: params.MessageStatus,
+      errorCode: params.ErrorCode || null,
+    };
+  }
+
+  if (params.CallSid && params.CallStatus) {
+    return {
+      messageId: params.CallSid,
+      channel: 'voice',
+      status: normalizeTelephonyStatus(params.CallStatus),
+      providerStatus: params.CallStatus,
+      errorCode: params.ErrorCode || null,
+    };
+  }
+
+  return null;
+}
+
+export function parseInboundSms(params: Record<string, string>): InboundSms | null {
+  if (!params.From || params.Body === undefined) return null;
+
+  return {
+    messageId: params.MessageSid || '',
+    from: params.From,
+    to: params.To || '',
+    body: params.Body,
+  };
+}
+
+/**
+ * True when an SMS reply means "acknowledge", e.g. "1", " ACK ", "1."
+ */
+export function isAcknowledgeReply(body: string): boolean {
+  const normalized = body.trim().toLowerCase().replace(/[^a-z0-9]/g, '');
+  return ACKNOWLEDGE_REPLIES.has(normalized);
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * TwiML response to an inbound SMS; no reply message when text is omitted
+ */
+export function buildMessagingResponse(text?: string): string {
+  const message = text ? `<Message>${escapeXml(text)}</Message>` : '';
+  return `<?xml version="1.0" encoding="UTF-8"?><Response>${message}</Response>`;
+}
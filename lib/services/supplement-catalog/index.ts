@@ -0,0 +1,231 @@
+/**
+ * Supplement Catalog
+ *
+ * Searches the supplement-ecommerce product catalog (supplement_products)
+ * for the supplement and shopping agent tools, the MCP supplement and
+ * shopping tools and the supplement search API. Products are ranked by the
+ * user's biomarker needs from their latest blood analysis, preferred dosage
+ * form and per-day price; purchases go through the same cart service the
+ * web checkout uses.
+ *
+ * @module lib/services/supplement-catalog
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import {
+  ProductMatch,
+  SupplementProductRow,
+  calculatePerDayPrice,
+  productMatchFromRow,
+} from '../supplement-matching';
+import { evaluateStack, issuesFor, loadStackSafety, stackItemFromProduct } from '../supplement-safety';
+import type { SafetyIssue, StackItem } from '../supplement-safety';
+import {
+  BUDGET_MAX_PER_DAY_PRICE,
+  matchesExistingSupplement,
+  needsFromBiomarkers,
+  rankCatalogProducts,
+  supplementTermsForNeed,
+} from './ranking';
+import {
+  BiomarkerNeed,
+  CatalogRecommendations,
+  CatalogSearchQuery,
+  NeedRecommendation,
+  RankedProduct,
+  RecommendationOptions,
+} from './types';
+
+export * from './types';
+export {
+  BIOMARKER_SUPPLEMENT_TERMS,
+  BUDGET_MAX_PER_DAY_PRICE,
+  matchesExistingSupplement,
+  needsAddressedBy,
+  needsFromBiomarkers,
+  normalizeCatalogText,
+  rankCatalogProducts,
+  supplementTermsForNeed,
+} from './ranking';
+
+const logger = createLogger('SupplementCatalog');
+
+const DEFAULT_SEARCH_LIMIT = 10;
+
+/** Candidates fetched before ranking */
+const CANDIDATE_LIMIT = 100;
+
+/** Strip characters that would break a PostgREST or() filter */
+function sanitizeFilterValue(value: string): string {
+  return value.replace(/[,()%*]/g, ' ').trim();
+}
+
+/** ilike pattern for a normalized term, letting "omega 3" match "Omega-3" */
+function termPattern(term: string): string {
+  return `%${sanitizeFilterValue(term).replace(/\s+/g, '%')}%`;
+}
+
+function toProductMatch(row: SupplementProductRow): ProductMatch {
+  // Directions say how many servings a day ("twice daily"); default one
+  const perDayPrice = calculatePerDayPrice(parseFloat(row.retail_price), row.quantity, row.directions || '');
+  return productMatchFromRow(row, perDayPrice, 1.0, 'Catalog search');
+}
+
+/**
+ * Needs from the user's latest blood analysis
+ */
+export async function getBiomarkerNeeds(email: string): Promise<BiomarkerNeed[]> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('blood_analysis_results')
+    .select('analysis')
+    .eq('user_email', email)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch blood analysis: ${error.message}`);
+  }
+
+  const biomarkers = data?.analysis?.biomarkers;
+  return Array.isArray(biomarkers) ? needsFromBiomarkers(biomarkers) : [];
+}
+
+/**
+ * Search the catalog, ranked against `needs` when given. A `deficiency` in
+ * the query counts as a moderate need if it isn't one already.
+ */
+export async function searchCatalog(
+  query: CatalogSearchQuery,
+  needs: BiomarkerNeed[] = []
+): Promise<RankedProduct[]> {
+  const supabase = createAdminClient();
+  let request = supabase
+    .from('supplement_products')
+    .select('*')
+    .eq('is_active', true)
+    .limit(CANDIDATE_LIMIT);
+
+  if (!query.includeOutOfStock) {
+    request = request.gt('stock_level', 0);
+  }
+  if (query.maxPrice !== undefined) {
+    request = request.lte('retail_price', query.maxPrice);
+  }
+  if (query.query) {
+    const pattern = termPattern(query.query);
+    request = request.or(`name.ilike.${pattern},brand.ilike.${pattern},description.ilike.${pattern}`);
+  }
+  if (query.deficiency) {
+    const terms = supplementTermsForNeed(query.deficiency);
+    request = request.or(terms.map((t) => `name.ilike.${termPattern(t)}`).join(','));
+  }
+
+  const { data, error } = await request;
+  if (error) {
+    throw new Error(`Failed to search supplement catalog: ${error.message}`);
+  }
+
+  let products = ((data || []) as SupplementProductRow[]).map(toProductMatch);
+  if (query.maxPerDayPrice !== undefined) {
+    products = products.filter((p) => p.perDayPrice <= query.maxPerDayPrice!);
+  }
+  if (products.length === 0) return [];
+
+  const deficiencyTerms = query.deficiency ? supplementTermsForNeed(query.deficiency).join() : null;
+  const rankingNeeds = deficiencyTerms && !needs.some((n) => supplementTermsForNeed(n.name).join() === deficiencyTerms)
+    ? [...needs, { name: query.deficiency!, severity: 'moderate' as const }]
+    : needs;
+
+  return rankCatalogProducts(products, {
+    query: query.query,
+    needs: rankingNeeds,
+    dosageForm: query.dosageForm,
+    sort: query.sort,
+  }).slice(0, query.limit ?? DEFAULT_SEARCH_LIMIT);
+}
+
+/**
+ * Best in-stock product for each need within the budget, with up to two
+ * alternatives. Severe needs come first. With an email, each pick is checked
+ * against the user's stack plus the picks before it, and unsafe products
+ * are passed over.
+ */
+export async function recommendForNeeds(
+  needs: BiomarkerNeed[],
+  options: RecommendationOptions = {}
+): Promise<CatalogRecommendations> {
+  const { budget = 'medium', dosageForm, existingSupplements = [], email } = options;
+  const recommendations: NeedRecommendation[] = [];
+  const unmatched: string[] = [];
+  const blocked: CatalogRecommendations['blocked'] = [];
+
+  const safety = email ? await loadStackSafety(email) : null;
+  const picked: StackItem[] = [];
+
+  // Most severe needs pick first, so they win any conflict
+  const ordered = [...needs].sort((a, b) => Number(b.severity === 'severe') - Number(a.severity === 'severe'));
+
+  for (const need of ordered) {
+    let ranked = (await searchCatalog({
+      deficiency: need.name,
+      dosageForm,
+      maxPerDayPrice: BUDGET_MAX_PER_DAY_PRICE[budget],
+      limit: CANDIDATE_LIMIT,
+    }, [need]))
+      .filter((r) => r.addresses.includes(need.name))
+      .filter((r) => !matchesExistingSupplement(r.product, existingSupplements));
+
+    if (ranked.length === 0) {
+      unmatched.push(need.name);
+      continue;
+    }
+
+    const warnings = new Map<string, SafetyIssue[]>();
+    if (safety) {
+      const rejected: SafetyIssue[] = [];
+      ranked = ranked.filter((r) => {
+        const candidate = stackItemFromProduct(r.product);
+        const report = evaluateStack([...safety.stack, ...picked], [candidate], safety.context);
+        if (report.blocked.includes(candidate.name)) {
+          rejected.push(...issuesFor(report, candidate.name).filter((i) => i.severity === 'major'));
+          return false;
+        }
+        warnings.set(r.product.productId, issuesFor(report, candidate.name));
+        return true;
+      });
+
+      if (ranked.length === 0) {
+        blocked.push({ forDeficiency: need.name, issues: rejected });
+        continue;
+      }
+      picked.push(stackItemFromProduct(ranked[0].product));
+    }
+
+    recommendations.push({
+      forDeficiency: need.name,
+      severity: need.severity,
+      priority: need.severity === 'severe' ? 'high' : 'medium',
+      recommended: ranked[0],
+      alternatives: ranked.slice(1, 3),
+      warnings: warnings.get(ranked[0].product.productId) || [],
+    });
+  }
+
+  recommendations.sort((a, b) => (a.priority === b.priority ? 0 : a.priority === 'high' ? -1 : 1));
+
+  const estimatedMonthlyCost = Math.round(
+    recommendations.reduce((sum, r) => sum + r.recommended.product.perDayPrice * 30, 0) * 100
+  ) / 100;
+
+  logger.info('Catalog recommendations', {
+    needs: needs.length,
+    matched: recommendations.length,
+    unmatched: unmatched.length,
+    blocked: blocked.length,
+  });
+
+  return { needs, recommendations, unmatched, blocked, estimatedMonthlyCost };
+}
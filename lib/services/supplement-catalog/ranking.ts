@@ -0,0 +1,172 @@
+/**
+ * Supplement Catalog Ranking
+ *
+ * Matches catalog products to the nutrients a user is short of and orders
+ * them by need, preferred dosage form and per-day price.
+ *
+ * @module lib/services/supplement-catalog/ranking
+ */
+
+import type { ProductMatch } from '../supplement-matching';
+import {
+  BiomarkerNeed,
+  NeedSeverity,
+  RankedProduct,
+  RankingCriteria,
+  SupplementBudget,
+} from './types';
+
+/**
+ * Supplements that address a biomarker, by the names labs report it under.
+ * Biomarkers not listed here are searched by their own name.
+ */
+export const BIOMARKER_SUPPLEMENT_TERMS: Array<{ markers: string[]; terms: string[] }> = [
+  { markers: ['vitamin d', '25 hydroxy', '25 oh'], terms: ['vitamin d'] },
+  { markers: ['b12', 'vitamin b12', 'cobalamin'], terms: ['b12', 'cobalamin'] },
+  { markers: ['ferritin', 'iron', 'hemoglobin', 'transferrin'], terms: ['iron'] },
+  { markers: ['folate', 'folic'], terms: ['folate', 'folic', 'methylfolate'] },
+  { markers: ['omega 3', 'epa', 'dha'], terms: ['omega 3', 'fish oil'] },
+  { markers: ['magnesium'], terms: ['magnesium'] },
+  { markers: ['zinc'], terms: ['zinc'] },
+  { markers: ['selenium'], terms: ['selenium'] },
+  { markers: ['iodine'], terms: ['iodine'] },
+  { markers: ['calcium'], terms: ['calcium'] },
+  { markers: ['potassium'], terms: ['potassium'] },
+  { markers: ['vitamin a', 'retinol'], terms: ['vitamin a'] },
+  { markers: ['vitamin c', 'ascorbic'], terms: ['vitamin c'] },
+  { markers: ['vitamin e', 'tocopherol'], terms: ['vitamin e'] },
+  { markers: ['coq10', 'coenzyme q10'], terms: ['coq10'] },
+];
+
+/** Highest per-day price for each budget, in USD */
+export const BUDGET_MAX_PER_DAY_PRICE: Record<SupplementBudget, number> = {
+  low: 0.5,
+  medium: 1,
+  high: 2,
+};
+
+const SEVERITY_WEIGHT: Record<NeedSeverity, number> = {
+  severe: 1,
+  moderate: 0.7,
+  mild: 0.4,
+};
+
+const WEIGHTS = {
+  need: 0.45,
+  price: 0.25,
+  form: 0.15,
+  text: 0.15,
+};
+
+/**
+ * Lowercases and turns punctuation into spaces, so "Omega-3", "omega_3"
+ * and "Omega 3" compare equal
+ */
+export function normalizeCatalogText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/** Whether `term` starts a word in already-normalized `text` */
+function containsTerm(text: string, term: string): boolean {
+  return ` ${text}`.includes(` ${term}`);
+}
+
+/** Catalog search terms for the supplements that address a biomarker */
+export function supplementTermsForNeed(name: string): string[] {
+  const marker = normalizeCatalogText(name);
+  const entry = BIOMARKER_SUPPLEMENT_TERMS.find((e) => e.markers.some((m) => containsTerm(marker, m)));
+  return entry ? entry.terms : [marker];
+}
+
+/**
+ * Needs from a blood analysis: low markers are moderate, deficient ones
+ * severe
+ */
+export function needsFromBiomarkers(
+  biomarkers: Array<{ name: string; status?: string }>
+): BiomarkerNeed[] {
+  return biomarkers
+    .filter((b) => b.status === 'low' || b.status === 'deficient')
+    .map((b) => ({
+      name: b.name,
+      severity: b.status === 'deficient' ? 'severe' : 'moderate',
+    }));
+}
+
+function productText(product: ProductMatch): string {
+  return normalizeCatalogText([product.name, product.description, ...product.benefits].join(' '));
+}
+
+/** Names of the needs a product addresses */
+export function needsAddressedBy(product: ProductMatch, needs: BiomarkerNeed[]): string[] {
+  const text = productText(product);
+  return needs
+    .filter((need) => supplementTermsForNeed(need.name).some((term) => containsTerm(text, term)))
+    .map((need) => need.name);
+}
+
+/** Whether a product is one of the supplements the user already takes */
+export function matchesExistingSupplement(product: ProductMatch, existing: string[]): boolean {
+  const name = normalizeCatalogText(product.name);
+  return existing.some((s) => {
+    const taken = normalizeCatalogText(s);
+    return taken.length > 0 && (name.includes(taken) || taken.includes(name));
+  });
+}
+
+function matchesDosageForm(product: ProductMatch, dosageForm: string): boolean {
+  const form = normalizeCatalogText(product.dosageForm || product.unit || '');
+  const preferred = normalizeCatalogText(dosageForm);
+  // "Softgel" against "softgels", "capsule" against "Capsules"
+  return !!form && !!preferred && (form.startsWith(preferred) || preferred.startsWith(form));
+}
+
+function textScore(product: ProductMatch, query: string): number {
+  const q = normalizeCatalogText(query);
+  if (!q) return 0;
+  if (normalizeCatalogText(product.name).includes(q)) return 1;
+  if (normalizeCatalogText(`${product.brand} ${product.description}`).includes(q)) return 0.5;
+  return 0;
+}
+
+/**
+ * Score and order products. Relevance weighs how severe the needs a product
+ * addresses are, how cheap it is per day relative to the other candidates,
+ * whether it comes in the preferred form and how well it matches the query.
+ */
+export function rankCatalogProducts(products: ProductMatch[], criteria: RankingCriteria = {}): RankedProduct[] {
+  const needs = criteria.needs || [];
+  const prices = products.map((p) => p.perDayPrice);
+  const minPrice = Math.min(...prices);
+  const maxPrice = Math.max(...prices);
+
+  const ranked = products.map((product) => {
+    const addresses = needsAddressedBy(product, needs);
+    const needScore = Math.max(0, ...needs
+      .filter((n) => addresses.includes(n.name))
+      .map((n) => SEVERITY_WEIGHT[n.severity]));
+    const priceScore = maxPrice > minPrice ? (maxPrice - product.perDayPrice) / (maxPrice - minPrice) : 1;
+    const formScore = criteria.dosageForm && matchesDosageForm(product, criteria.dosageForm) ? 1 : 0;
+
+    const score = WEIGHTS.need * needScore +
+      WEIGHTS.price * priceScore +
+      WEIGHTS.form * formScore +
+      WEIGHTS.text * (criteria.query ? textScore(product, criteria.query) : 0);
+
+    return { product, score: Math.round(score * 100) / 100, addresses };
+  });
+
+  switch (criteria.sort) {
+    case 'per_day_price':
+      return ranked.sort((a, b) => a.product.perDayPrice - b.product.perDayPrice || b.score - a.score);
+    case 'price_low':
+      return ranked.sort((a, b) => a.product.retailPrice - b.product.retailPrice);
+    case 'price_high':
+      return ranked.sort((a, b) => b.product.retailPrice - a.product.retailPrice);
+    default:
+      return ranked.sort((a, b) => b.score - a.score || a.product.perDayPrice - b.product.perDayPrice);
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Supplement Catalog Types
+ *
+ * @module lib/services/supplement-catalog/types
+ */
+
+import type { ProductMatch } from '../supplement-matching';
+import type { SafetyIssue } from '../supplement-safety/types';
+
+export type NeedSeverity = 'mild' | 'moderate' | 'severe';
+
+/** A nutrient the user's blood work shows they are short of */
+export interface BiomarkerNeed {
+  /** Biomarker or nutrient name, e.g. "Vitamin D" or "Ferritin" */
+  name: string;
+  severity: NeedSeverity;
+}
+
+export type CatalogSortOrder = 'relevance' | 'per_day_price' | 'price_low' | 'price_high';
+
+export type SupplementBudget = 'low' | 'medium' | 'high';
+
+export interface CatalogSearchQuery {
+  /** Free text matched against name, brand and description */
+  query?: string;
+  /** Deficiency to address, e.g. "vitamin_d" or "ferritin" */
+  deficiency?: string;
+  /** Preferred dosage form, e.g. "Capsule" or "Liquid" */
+  dosageForm?: string;
+  maxPrice?: number;
+  maxPerDayPrice?: number;
+  includeOutOfStock?: boolean;
+  sort?: CatalogSortOrder;
+  limit?: number;
+}
+
+/** How a product is ranked against the user's needs and preferences */
+export interface RankingCriteria {
+  query?: string;
+  needs?: BiomarkerNeed[];
+  dosageForm?: string;
+  sort?: CatalogSortOrder;
+}
+
+export interface RankedProduct {
+  product: ProductMatch;
+  /** 0.0 to 1.0 */
+  score: number;
+  /** Names of the needs the product addresses */
+  addresses: string[];
+}
+
+export interface NeedRecommendation {
+  forDeficiency: string;
+  severity: NeedSeverity;
+  priority: 'high' | 'medium';
+  recommended: RankedProduct;
+  alternatives: RankedProduct[];
+  /** Stack safety issues with the recommended product */
+  warnings: SafetyIssue[];
+}
+
+export interface RecommendationOptions {
+  budget?: SupplementBudget;
+  dosageForm?: string;
+  /** Supplements the user already takes; products matching these are skipped */
+  existingSupplements?: string[];
+  /** Check candidates against this user's supplement stack and skip unsafe ones */
+  email?: string;
+}
+
+export interface CatalogRecommendations {
+  needs: BiomarkerNeed[];
+  recommendations: NeedRecommendation[];
+  /** Needs with no suitable product in stock */
+  unmatched: string[];
+  /** Needs whose only suitable products failed the stack safety check */
+  blocked: Array<{ forDeficiency: string; issues: SafetyIssue[] }>;
+  estimatedMonthlyCost: number;
+}
@@ -8,6 +8,7 @@
 
 import { createClient } from '@supabase/supabase-js';
 import { fetchProductImage } from './product-image-fetcher';
+import type { SafetyAnnotation } from './supplement-safety/types';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
@@ -66,8 +67,9 @@ export interface ProductMatch {
 
 export interface EnrichedRecommendation extends SupplementRecommendation {
   product: ProductMatch | null;
-  matchStatus: 'matched' | 'no_match' | 'out_of_stock';
+  matchStatus: 'matched' | 'no_match' | 'out_of_stock' | 'blocked';
   alternatives?: ProductMatch[]; // Alternative products if primary is out of stock
+  safety?: SafetyAnnotation; // Stack safety check, when run
 }
 
 /**
@@ -88,7 +90,7 @@ function normalizeName(name: string): string {
 /**
  * Extracts dosage information from recommendation
  */
-function parseDosage(dosageString: string): {
+export function parseDosage(dosageString: string): {
   amount: number | null;
   unit: string | null;
 } {
@@ -105,32 +107,107 @@ function parseDosage(dosageString: string): {
   return { amount: null, unit: null };
 }
 
+/**
+ * Servings per day from a dosage string
+ * e.g., "5g daily" = 1 serving/day
+ * e.g., "1000mg twice daily" = 2 servings/day
+ */
+export function getServingsPerDay(dosageString: string): number {
+  if (/twice|two times/i.test(dosageString)) {
+    return 2;
+  } else if (/three times|thrice/i.test(dosageString)) {
+    return 3;
+  } else if (/four times/i.test(dosageString)) {
+    return 4;
+  }
+  return 1;
+}
+
 /**
  * Calculates per-day cost based on dosage and product quantity
  */
-function calculatePerDayPrice(
+export function calculatePerDayPrice(
   retailPrice: number,
   productQuantity: number,
   recommendedDailyDosage: string
 ): number {
-  // Extract servings per day from dosage string
-  // e.g., "5g daily" = 1 serving/day
-  // e.g., "1000mg twice daily" = 2 servings/day
-
-  let servingsPerDay = 1;
-
-  if (/twice|two times/i.test(recommendedDailyDosage)) {
-    servingsPerDay = 2;
-  } else if (/three times|thrice/i.test(recommendedDailyDosage)) {
-    servingsPerDay = 3;
-  } else if (/four times/i.test(recommendedDailyDosage)) {
-    servingsPerDay = 4;
-  }
-
+  const servingsPerDay = getServingsPerDay(recommendedDailyDosage);
   const pricePerServing = retailPrice / productQuantity;
   return Math.round(pricePerServing * servingsPerDay * 100) / 100; // Round to 2 decimals
 }
 
+/**
+ * The supplement_products columns read into a ProductMatch. DECIMAL columns
+ * come back from PostgREST as strings.
+ */
+export interface SupplementProductRow {
+  id: string;
+  sku: string;
+  name: string;
+  brand: string;
+  dosage_form: string;
+  strength: string;
+  quantity: number;
+  unit: string;
+  wholesale_cost: string;
+  retail_price: string;
+  margin: string;
+  margin_percent: string;
+  stock_level: number;
+  is_active: boolean;
+  low_stock_alert: boolean;
+  description: string | null;
+  benefits: string[] | null;
+  directions: string | null;
+  warnings: string | null;
+  image_url: string | null;
+  third_party_tested: boolean;
+  certifications: string[] | null;
+}
+
+/**
+ * Maps a supplement_products row to a ProductMatch
+ */
+export function productMatchFromRow(
+  product: SupplementProductRow,
+  perDayPrice: number,
+  matchScore: number,
+  matchReason: string
+): ProductMatch {
+  return {
+    productId: product.id,
+    sku: product.sku,
+    name: product.name,
+    brand: product.brand,
+    dosageForm: product.dosage_form,
+    strength: product.strength,
+    quantity: product.quantity,
+    unit: product.unit,
+
+    wholesaleCost: parseFloat(product.wholesale_cost),
+    retailPrice: parseFloat(product.retail_price),
+    margin: parseFloat(product.margin),
+    marginPercent: parseFloat(product.margin_percent),
+    perDayPrice,
+
+    stockLevel: product.stock_level,
+    inStock: product.is_active && product.stock_level > 0,
+    lowStockAlert: product.low_stock_alert,
+
+    description: product.description || '',
+    benefits: product.benefits || [],
+    directions: product.directions || '',
+    warnings: product.warnings || '',
+    imageUrl: product.image_url || '/images/supplements/default.png',
+
+    thirdPartyTested: product.third_party_tested,
+    certifications: product.certifications || [],
+
+    matchScore,
+    matchReason,
+  };
+}
+
 /**
  * Finds product match for a single supplement recommendation
  */
@@ -623,3 +700,54 @@ async function createSupplementProduct(
     return null;
   }
 }
+
+/**
+ * Supplements the user takes: what they reported during onboarding plus
+ * catalog products from paid orders in the last `orderDays` days.
+ */
+export async function getUserSupplementStack(
+  email: string,
+  orderDays: number = 180
+): Promise<Array<{ name: string; source: 'reported' | 'ordered' }>> {
+  const stack = new Map<string, { name: string; source: 'reported' | 'ordered' }>();
+
+  try {
+    for (const table of ['sage_onboarding_data', 'forge_onboarding_data']) {
+      const { data } = await supabase
+        .from(table)
+        .select('form_data')
+        .eq('email', email)
+        .maybeSingle();
+
+      const reported = data?.form_data?.supplements;
+      const items: string[] = Array.isArray(reported)
+        ? reported.map(String)
+        : typeof reported === 'string' ? reported.split(/[,\n;]/) : [];
+
+      for (const item of items) {
+        const name = item.trim();
+        if (name && !/^(none|n\/a|no)$/i.test(name)) {
+          stack.set(normalizeName(name), { name, source: 'reported' });
+        }
+      }
+    }
+
+    const since = new Date(Date.now() - orderDays * 24 * 60 * 60 * 1000);
+    const { data: orders } = await supabase
+      .from('orders')
+      .select('order_items (product_name)')
+      .eq('user_email', email)
+      .eq('payment_status', 'paid')
+      .gte('created_at', since.toISOString());
+
+    for (const order of orders || []) {
+      for (const item of (order.order_items || []) as Array<{ product_name: string }>) {
+        stack.set(normalizeName(item.product_name), { name: item.product_name, source: 'ordered' });
+      }
+    }
+  } catch (error) {
+    console.error('[Supplement Matching] Error loading supplement stack:', error);
+  }
+
+  return [...stack.values()];
+}
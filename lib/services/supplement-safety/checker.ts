@@ -0,0 +1,235 @@
+/**
+ * Supplement Stack Checker
+ *
+ * Evaluates a whole supplement stack at once: daily doses summed per
+ * nutrient against upper limits, supplement pairs that interact, blood
+ * results that rule a supplement out, and interactions with the user's
+ * medications. Candidates (a recommendation or a cart addition) involved in
+ * a major issue are blocked; everything else is annotation.
+ *
+ * @module lib/services/supplement-safety/checker
+ */
+
+import type { InteractionSeverity } from '../medications/types';
+import { checkMedicationInteractions } from '../medications/interactions';
+import { normalizeCatalogText } from '../supplement-catalog/ranking';
+import { getServingsPerDay, parseDosage } from '../supplement-matching';
+import {
+  BIOMARKER_RULES,
+  FORM_NOTES,
+  SUPPLEMENT_INTERACTIONS,
+  UPPER_LIMITS,
+  UpperLimit,
+} from './knowledge-base';
+import {
+  NutrientTotal,
+  SafetyIssue,
+  StackItem,
+  StackSafetyContext,
+  StackSafetyReport,
+} from './types';
+
+const SEVERITY_RANK: Record<InteractionSeverity, number> = { major: 0, moderate: 1, minor: 2 };
+
+/** Whether any keyword starts a word in `text` */
+function matchesKeyword(text: string, keywords: string[]): boolean {
+  const normalized = ` ${normalizeCatalogText(text)}`;
+  return keywords.some((keyword) => normalized.includes(` ${normalizeCatalogText(keyword)}`));
+}
+
+/** Nutrients with an upper limit that a supplement name mentions */
+export function nutrientsIn(name: string): UpperLimit[] {
+  return UPPER_LIMITS.filter((limit) => matchesKeyword(name, limit.keywords));
+}
+
+/**
+ * Daily dose of an item in the limit's unit: the amount from the dosage (or
+ * the product name, e.g. "Vitamin D3 5000 IU") times servings per day. Null
+ * when no amount is given or the unit doesn't convert.
+ */
+export function dailyDose(item: StackItem, limit: UpperLimit): number | null {
+  // "5,000 IU" -> "5000 IU"
+  const withoutSeparators = (text: string) => text.replace(/(\d),(\d{3})/g, '$1$2');
+
+  let parsed = parseDosage(withoutSeparators(item.dosage || ''));
+  if (parsed.amount === null) {
+    parsed = parseDosage(withoutSeparators(item.name));
+  }
+  if (parsed.amount === null || !parsed.unit) return null;
+
+  const unit = parsed.unit === 'g' ? 'mg' : parsed.unit === 'µg' ? 'mcg' : parsed.unit;
+  const factor = limit.conversions[unit as keyof UpperLimit['conversions']];
+  if (factor === undefined) return null;
+
+  const amount = parsed.unit === 'g' ? parsed.amount * 1000 : parsed.amount;
+  return amount * factor * getServingsPerDay(item.dosage || item.name);
+}
+
+function isDeficient(limit: UpperLimit, context: StackSafetyContext): boolean {
+  return context.biomarkers.some((b) =>
+    (b.status === 'low' || b.status === 'deficient') && matchesKeyword(b.name, limit.deficiencyMarkers));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** One entry per item name; a candidate replaces a stack item of the same name */
+function mergeStack(stack: StackItem[], candidates: StackItem[]): StackItem[] {
+  const items = new Map<string, StackItem>();
+  for (const item of [...stack, ...candidates]) {
+    items.set(normalizeCatalogText(item.name), item);
+  }
+  return [...items.values()];
+}
+
+function checkUpperLimits(items: StackItem[], context: StackSafetyContext): { totals: NutrientTotal[]; issues: SafetyIssue[] } {
+  const totals: NutrientTotal[] = [];
+  const issues: SafetyIssue[] = [];
+
+  for (const limit of UPPER_LIMITS) {
+    // A combination product's single amount can't be split between its nutrients
+    const contributors = items
+      .filter((item) => {
+        const nutrients = nutrientsIn(item.name);
+        return nutrients.length === 1 && nutrients[0] === limit;
+      })
+      .map((item) => ({ name: item.name, amount: dailyDose(item, limit) }))
+      .filter((c): c is { name: string; amount: number } => c.amount !== null);
+
+    if (contributors.length === 0) continue;
+
+    const amount = round(contributors.reduce((sum, c) => sum + c.amount, 0));
+    totals.push({
+      nutrient: limit.nutrient,
+      amount,
+      unit: limit.unit,
+      upperLimit: limit.upperLimit,
+      contributors: contributors.map((c) => ({ name: c.name, amount: round(c.amount) })),
+    });
+
+    if (amount <= limit.upperLimit) continue;
+
+    const deficient = isDeficient(limit, context);
+    issues.push({
+      kind: 'upper_limit',
+      severity: deficient ? 'moderate' : 'major',
+      items: contributors.map((c) => c.name),
+      nutrient: limit.nutrient,
+      message: `${limit.nutrient} adds up to ${amount} ${limit.unit} a day, above the ${limit.upperLimit} ${limit.unit} upper limit` +
+        (limit.note ? ` (${limit.note.toLowerCase()})` : ''),
+      advice: deficient
+        ? 'Doses above the upper limit are sometimes used short-term to correct a deficiency; follow your clinician\'s plan and recheck levels.'
+        : contributors.length > 1
+          ? `Lower the dose or drop one of: ${contributors.map((c) => c.name).join(', ')}.`
+          : 'Choose a lower dose.',
+    });
+  }
+
+  return { totals, issues };
+}
+
+function checkSupplementInteractions(items: StackItem[]): SafetyIssue[] {
+  const issues: SafetyIssue[] = [];
+
+  for (const rule of SUPPLEMENT_INTERACTIONS) {
+    for (const first of items.filter((i) => matchesKeyword(i.name, rule.first))) {
+      for (const second of items.filter((i) => i !== first && matchesKeyword(i.name, rule.second))) {
+        issues.push({
+          kind: 'supplement_interaction',
+          severity: rule.severity,
+          items: [first.name, second.name],
+          message: rule.message,
+          advice: rule.advice,
+        });
+      }
+    }
+  }
+
+  for (const note of FORM_NOTES) {
+    for (const item of items.filter((i) => matchesKeyword(i.name, note.keywords))) {
+      issues.push({
+        kind: 'supplement_interaction',
+        severity: note.severity,
+        items: [item.name],
+        message: note.message,
+        advice: note.advice,
+      });
+    }
+  }
+
+  return issues;
+}
+
+function checkBiomarkers(items: StackItem[], context: StackSafetyContext): SafetyIssue[] {
+  const issues: SafetyIssue[] = [];
+
+  for (const rule of BIOMARKER_RULES) {
+    const flagged = context.biomarkers.some((b) =>
+      !!b.status && rule.statuses.includes(b.status.toLowerCase()) && matchesKeyword(b.name, rule.markers));
+    if (!flagged) continue;
+
+    for (const item of items.filter((i) => matchesKeyword(i.name, rule.supplements))) {
+      issues.push({
+        kind: 'biomarker',
+        severity: rule.severity,
+        items: [item.name],
+        message: rule.message,
+        advice: rule.advice,
+      });
+    }
+  }
+
+  return issues;
+}
+
+function checkMedications(items: StackItem[], context: StackSafetyContext): SafetyIssue[] {
+  return checkMedicationInteractions(context.medications, items.map((i) => i.name)).map((interaction) => ({
+    kind: 'medication',
+    severity: interaction.severity,
+    items: [interaction.supplement],
+    message: `${interaction.effect} with ${interaction.medication}`,
+    advice: interaction.advice,
+  }));
+}
+
+/**
+ * Check `candidates` together with the user's current `stack`. Issues are
+ * most severe first; candidates in a major issue are listed in `blocked`.
+ */
+export function evaluateStack(
+  stack: StackItem[],
+  candidates: StackItem[],
+  context: StackSafetyContext
+): StackSafetyReport {
+  const items = mergeStack(stack, candidates);
+  const { totals, issues: limitIssues } = checkUpperLimits(items, context);
+
+  const issues = [
+    ...limitIssues,
+    ...checkSupplementInteractions(items),
+    ...checkBiomarkers(items, context),
+    ...checkMedications(items, context),
+  ].sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+
+  const candidateNames = new Set(candidates.map((c) => c.name));
+  const blocked = new Set<string>();
+  for (const issue of issues) {
+    if (issue.severity !== 'major') continue;
+    for (const name of issue.items) {
+      if (candidateNames.has(name)) blocked.add(name);
+    }
+  }
+
+  return {
+    safe: !issues.some((i) => i.severity === 'major'),
+    issues,
+    totals,
+    blocked: [...blocked],
+  };
+}
+
+/** Issues that involve a given item */
+export function issuesFor(report: StackSafetyReport, name: string): SafetyIssue[] {
+  return report.issues.filter((issue) => issue.items.includes(name));
+}
@@ -0,0 +1,181 @@
+/**
+ * Supplement Safety
+ *
+ * Checks supplement recommendations and cart additions against the rest of
+ * the user's stack (what they report taking, recent orders and their cart),
+ * their medications and their latest blood results, using the local
+ * knowledge base in ./knowledge-base. Major issues block a recommendation
+ * or cart addition; the rest are returned as annotations.
+ *
+ * @module lib/services/supplement-safety
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import { listMedications } from '../medications';
+import { EnrichedRecommendation, ProductMatch, getUserSupplementStack } from '../supplement-matching';
+import { evaluateStack, issuesFor } from './checker';
+import {
+  LoadedStackSafety,
+  SafetyAnnotation,
+  StackItem,
+  StackSafetyContext,
+  StackSafetyReport,
+} from './types';
+
+export * from './types';
+export { dailyDose, evaluateStack, issuesFor, nutrientsIn } from './checker';
+export {
+  BIOMARKER_RULES,
+  FORM_NOTES,
+  SUPPLEMENT_INTERACTIONS,
+  UPPER_LIMITS,
+} from './knowledge-base';
+export type { BiomarkerRule, SupplementInteractionRule, UpperLimit } from './knowledge-base';
+
+const logger = createLogger('SupplementSafety');
+
+const EMPTY_CONTEXT: StackSafetyContext = { biomarkers: [], medications: [] };
+
+async function loadBiomarkers(email: string): Promise<StackSafetyContext['biomarkers']> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('blood_analysis_results')
+    .select('analysis')
+    .eq('user_email', email)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch blood analysis: ${error.message}`);
+  }
+
+  const biomarkers = data?.analysis?.biomarkers;
+  return Array.isArray(biomarkers) ? biomarkers : [];
+}
+
+async function loadCartItems(email: string): Promise<StackItem[]> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('shopping_carts')
+    .select('cart_items (product_id, supplement_products (name, strength, directions))')
+    .eq('user_email', email)
+    .eq('is_active', true);
+
+  if (error) {
+    throw new Error(`Failed to fetch cart: ${error.message}`);
+  }
+
+  const carts = (data || []) as unknown as Array<{
+    cart_items: Array<{
+      product_id: string;
+      supplement_products: { name: string; strength: string | null; directions: string | null };
+    }> | null;
+  }>;
+
+  return carts.flatMap((cart) => (cart.cart_items || []).map((item) => ({
+    name: item.supplement_products.name,
+    dosage: [item.supplement_products.strength, item.supplement_products.directions].filter(Boolean).join(' '),
+    source: 'cart' as const,
+    productId: item.product_id,
+  })));
+}
+
+/**
+ * The user's current stack and safety context. Parts that fail to load are
+ * logged and left out rather than failing the check.
+ */
+export async function loadStackSafety(email: string): Promise<LoadedStackSafety> {
+  const fallback = <T>(part: string, value: T) => (error: unknown): T => {
+    logger.warn('Could not load part of the supplement safety context', { email, part, error: String(error) });
+    return value;
+  };
+
+  const [reported, cart, biomarkers, medications] = await Promise.all([
+    getUserSupplementStack(email),
+    loadCartItems(email).catch(fallback('cart', [] as StackItem[])),
+    loadBiomarkers(email).catch(fallback('biomarkers', [] as StackSafetyContext['biomarkers'])),
+    listMedications(email).catch(fallback('medications', [] as StackSafetyContext['medications'])),
+  ]);
+
+  return {
+    stack: [...reported, ...cart],
+    context: { biomarkers, medications },
+  };
+}
+
+/** Stack item for a catalog product, dosed from its strength and directions */
+export function stackItemFromProduct(product: ProductMatch): StackItem {
+  return {
+    name: product.name,
+    dosage: [product.strength, product.directions].filter(Boolean).join(' '),
+    source: 'candidate',
+    productId: product.productId,
+  };
+}
+
+/**
+ * Check candidates against the user's stack; without an email, only against
+ * each other
+ */
+export async function checkSupplementStack(email: string | null, candidates: StackItem[]): Promise<StackSafetyReport> {
+  const { stack, context } = email ? await loadStackSafety(email) : { stack: [], context: EMPTY_CONTEXT };
+  return evaluateStack(stack, candidates, context);
+}
+
+/**
+ * Check a set of recommendations as one stack. Blocked recommendations lose
+ * their product, like out-of-stock ones, so they can't be bought from the plan.
+ */
+export async function annotateRecommendations(
+  email: string | null,
+  recommendations: EnrichedRecommendation[]
+): Promise<EnrichedRecommendation[]> {
+  const candidates: StackItem[] = recommendations.map((rec) => ({
+    name: rec.name || rec.supplement || '',
+    dosage: rec.dosage,
+    source: 'candidate',
+    productId: rec.product?.productId,
+  }));
+
+  const report = await checkSupplementStack(email, candidates);
+
+  if (report.blocked.length > 0) {
+    logger.info('Supplement recommendations blocked', { email: email ?? undefined, blocked: report.blocked });
+  }
+
+  return recommendations.map((rec, i) => {
+    const name = candidates[i].name;
+    const safety: SafetyAnnotation = {
+      blocked: report.blocked.includes(name),
+      issues: issuesFor(report, name),
+    };
+    return safety.blocked
+      ? { ...rec, product: null, matchStatus: 'blocked' as const, safety }
+      : { ...rec, safety };
+  });
+}
+
+/**
+ * Check a product about to be added to the cart. Products already in the
+ * cart aren't checked again.
+ */
+export async function checkCartAddition(email: string, product: ProductMatch): Promise<SafetyAnnotation> {
+  const { stack, context } = await loadStackSafety(email);
+  if (stack.some((item) => item.source === 'cart' && item.productId === product.productId)) {
+    return { blocked: false, issues: [] };
+  }
+
+  const candidate = stackItemFromProduct(product);
+  const report = evaluateStack(stack, [candidate], context);
+  const safety = {
+    blocked: report.blocked.includes(candidate.name),
+    issues: issuesFor(report, candidate.name),
+  };
+
+  if (safety.blocked) {
+    logger.info('Cart addition blocked', { email, productId: product.productId });
+  }
+  return safety;
+}
@@ -0,0 +1,306 @@
+/**
+ * Supplement Safety Knowledge Base
+ *
+ * Adult tolerable upper intake levels (NIH Office of Dietary Supplements)
+ * for nutrients with a meaningful supplemental limit, interactions between
+ * supplements, and blood results that make a supplement inadvisable.
+ * Medication interactions live in lib/services/medications/interactions.
+ * Like those, these checks are informational and don't replace a
+ * clinician's review.
+ *
+ * @module lib/services/supplement-safety/knowledge-base
+ */
+
+import type { InteractionSeverity } from '../medications/types';
+
+export interface UpperLimit {
+  nutrient: string;
+  /** Word starts matched against normalized supplement names */
+  keywords: string[];
+  unit: 'mg' | 'mcg' | 'IU';
+  upperLimit: number;
+  /** Multiplier from each dosage unit into `unit` */
+  conversions: Partial<Record<'mg' | 'mcg' | 'iu', number>>;
+  /** Biomarkers that, when low, make a dose above the limit a treatment rather than an overdose */
+  deficiencyMarkers: string[];
+  note?: string;
+}
+
+const MASS_IN_MG = { mg: 1, mcg: 0.001 };
+const MASS_IN_MCG = { mg: 1000, mcg: 1 };
+
+export const UPPER_LIMITS: UpperLimit[] = [
+  {
+    nutrient: 'Vitamin D',
+    keywords: ['vitamin d', 'd3', 'cholecalciferol', 'ergocalciferol'],
+    unit: 'IU',
+    upperLimit: 4000,
+    conversions: { iu: 1, mcg: 40, mg: 40000 },
+    deficiencyMarkers: ['vitamin d', '25 hydroxy', '25 oh'],
+  },
+  {
+    nutrient: 'Vitamin A',
+    keywords: ['vitamin a', 'retinol', 'retinyl'],
+    unit: 'mcg',
+    upperLimit: 3000,
+    conversions: { iu: 0.3, ...MASS_IN_MCG },
+    deficiencyMarkers: ['vitamin a', 'retinol'],
+    note: 'Limit applies to preformed vitamin A, not beta-carotene',
+  },
+  {
+    nutrient: 'Vitamin E',
+    keywords: ['vitamin e', 'tocopherol'],
+    unit: 'mg',
+    upperLimit: 1000,
+    conversions: { iu: 0.67, ...MASS_IN_MG },
+    deficiencyMarkers: ['vitamin e'],
+  },
+  {
+    nutrient: 'Vitamin C',
+    keywords: ['vitamin c', 'ascorbic'],
+    unit: 'mg',
+    upperLimit: 2000,
+    conversions: MASS_IN_MG,
+    deficiencyMarkers: ['vitamin c'],
+  },
+  {
+    nutrient: 'Vitamin B6',
+    keywords: ['vitamin b6', 'b6', 'pyridoxine', 'pyridoxal', 'p5p'],
+    unit: 'mg',
+    upperLimit: 100,
+    conversions: MASS_IN_MG,
+    deficiencyMarkers: ['vitamin b6'],
+  },
+  {
+    nutrient: 'Niacin',
+    keywords: ['niacin', 'vitamin b3', 'nicotinic'],
+    unit: 'mg',
+    upperLimit: 35,
+    conversions: MASS_IN_MG,
+    deficiencyMarkers: ['niacin'],
+  },
+  {
+    nutrient: 'Folic acid',
+    keywords: ['folic', 'folate', 'methylfolate'],
+    unit: 'mcg',
+    upperLimit: 1000,
+    conversions: MASS_IN_MCG,
+    deficiencyMarkers: ['folate', 'folic'],
+  },
+  {
+    nutrient: 'Calcium',
+    keywords: ['calcium'],
+    unit: 'mg',
+    upperLimit: 2500,
+    conversions: MASS_IN_MG,
+    deficiencyMarkers: ['calcium'],
+  },
+  {
+    nutrient: 'Iron',
+    keywords: ['iron', 'ferrous', 'ferric'],
+    unit: 'mg',
+    upperLimit: 45,
+    conversions: MASS_IN_MG,
+    deficiencyMarkers: ['ferritin', 'iron', 'hemoglobin'],
+  },
+  {
+    nutrient: 'Zinc',
+    keywords: ['zinc'],
+    unit: 'mg',
+    upperLimit: 40,
+    conversions: MASS_IN_MG,
+    deficiencyMarkers: ['zinc'],
+  },
+  {
+    nutrient: 'Magnesium',
+    keywords: ['magnesium'],
+    unit: 'mg',
+    upperLimit: 350,
+    conversions: MASS_IN_MG,
+    deficiencyMarkers: ['magnesium'],
+    note: 'Limit applies to supplements, not magnesium from food',
+  },
+  {
+    nutrient: 'Selenium',
+    keywords: ['selenium'],
+    unit: 'mcg',
+    upperLimit: 400,
+    conversions: MASS_IN_MCG,
+    deficiencyMarkers: ['selenium'],
+  },
+  {
+    nutrient: 'Iodine',
+    keywords: ['iodine', 'kelp', 'potassium iodide'],
+    unit: 'mcg',
+    upperLimit: 1100,
+    conversions: MASS_IN_MCG,
+    deficiencyMarkers: ['iodine'],
+  },
+  {
+    nutrient: 'Copper',
+    keywords: ['copper'],
+    unit: 'mcg',
+    upperLimit: 10000,
+    conversions: MASS_IN_MCG,
+    deficiencyMarkers: ['copper'],
+  },
+  {
+    nutrient: 'Manganese',
+    keywords: ['manganese'],
+    unit: 'mg',
+    upperLimit: 11,
+    conversions: MASS_IN_MG,
+    deficiencyMarkers: ['manganese'],
+  },
+];
+
+export interface SupplementInteractionRule {
+  /** Each side is a list of keywords; one item must match each side */
+  first: string[];
+  second: string[];
+  severity: InteractionSeverity;
+  message: string;
+  advice: string;
+}
+
+const ST_JOHNS_WORT = ['st john', 'st johns wort', 'hypericum'];
+
+export const SUPPLEMENT_INTERACTIONS: SupplementInteractionRule[] = [
+  {
+    first: ST_JOHNS_WORT,
+    second: ['5 htp', 'tryptophan', 'same', 's adenosyl'],
+    severity: 'major',
+    message: 'Risk of serotonin syndrome',
+    advice: "Don't combine St. John's wort with other serotonin-raising supplements.",
+  },
+  {
+    first: ['fish oil', 'omega 3', 'ultimate omega'],
+    second: ['ginkgo', 'nattokinase', 'vitamin e'],
+    severity: 'moderate',
+    message: 'Additive blood-thinning effect',
+    advice: 'Watch for easy bruising and stop both before surgery.',
+  },
+  {
+    first: ['iron', 'ferrous', 'ferric'],
+    second: ['calcium'],
+    severity: 'moderate',
+    message: 'Calcium blocks iron absorption',
+    advice: 'Take iron and calcium at least 2 hours apart.',
+  },
+  {
+    first: ['iron', 'ferrous', 'ferric'],
+    second: ['zinc'],
+    severity: 'minor',
+    message: 'Iron and zinc compete for absorption',
+    advice: 'Take them at different meals.',
+  },
+  {
+    first: ['zinc'],
+    second: ['copper'],
+    severity: 'minor',
+    message: 'High-dose zinc lowers copper absorption',
+    advice: 'Separate the doses; long-term zinc above 40 mg can cause copper deficiency.',
+  },
+];
+
+/** Notes on particular forms, reported whenever the form is in the stack */
+export const FORM_NOTES: Array<{ keywords: string[]; severity: InteractionSeverity; message: string; advice: string }> = [
+  {
+    keywords: ['magnesium oxide'],
+    severity: 'minor',
+    message: 'Magnesium oxide is poorly absorbed and often causes loose stools',
+    advice: 'Glycinate or malate forms are better absorbed and gentler on the gut.',
+  },
+  {
+    keywords: ['magnesium citrate'],
+    severity: 'minor',
+    message: 'Magnesium citrate has a laxative effect at higher doses',
+    advice: 'Split the dose or switch to glycinate if it upsets your stomach.',
+  },
+];
+
+export interface BiomarkerRule {
+  markers: string[];
+  statuses: string[];
+  supplements: string[];
+  severity: InteractionSeverity;
+  message: string;
+  advice: string;
+}
+
+const HIGH = ['high', 'elevated', 'critical_high'];
+
+export const BIOMARKER_RULES: BiomarkerRule[] = [
+  {
+    markers: ['calcium'],
+    statuses: HIGH,
+    supplements: ['vitamin d', 'd3', 'cholecalciferol', 'calcium'],
+    severity: 'major',
+    message: 'Blood calcium is already high; vitamin D and calcium raise it further',
+    advice: 'Hold vitamin D and calcium until a clinician has reviewed the result.',
+  },
+  {
+    markers: ['vitamin d', '25 hydroxy', '25 oh'],
+    statuses: HIGH,
+    supplements: ['vitamin d', 'd3', 'cholecalciferol'],
+    severity: 'major',
+    message: 'Vitamin D is already high',
+    advice: 'Stop vitamin D supplements and recheck in 3 months.',
+  },
+  {
+    markers: ['ferritin'],
+    statuses: HIGH,
+    supplements: ['iron', 'ferrous', 'ferric'],
+    severity: 'major',
+    message: 'Iron stores (ferritin) are already high',
+    advice: "Don't take iron; high ferritin should be reviewed by a clinician.",
+  },
+  {
+    markers: ['ferritin'],
+    statuses: ['normal', 'optimal'],
+    supplements: ['iron', 'ferrous', 'ferric'],
+    severity: 'moderate',
+    message: 'Iron stores (ferritin) are normal; iron without a deficiency can build up',
+    advice: 'Only take iron if a clinician has recommended it.',
+  },
+  {
+    markers: ['potassium'],
+    statuses: HIGH,
+    supplements: ['potassium'],
+    severity: 'major',
+    message: 'Blood potassium is already high',
+    advice: "Don't take potassium supplements.",
+  },
+  {
+    markers: ['magnesium'],
+    statuses: HIGH,
+    supplements: ['magnesium'],
+    severity: 'moderate',
+    message: 'Blood magnesium is already high',
+    advice: 'Hold magnesium supplements until rechecked.',
+  },
+  {
+    markers: ['egfr'],
+    statuses: ['low'],
+    supplements: ['magnesium', 'potassium'],
+    severity: 'moderate',
+    message: 'Reduced kidney function makes magnesium and potassium harder to clear',
+    advice: 'Check with a clinician before taking these.',
+  },
+  {
+    markers: ['creatinine'],
+    statuses: HIGH,
+    supplements: ['magnesium', 'potassium', 'creatine'],
+    severity: 'moderate',
+    message: 'High creatinine can indicate reduced kidney function',
+    advice: 'Check with a clinician before taking these.',
+  },
+  {
+    markers: ['vitamin b12', 'b12'],
+    statuses: HIGH,
+    supplements: ['b12', 'cobalamin'],
+    severity: 'minor',
+    message: 'Vitamin B12 is already high',
+    advice: 'Extra B12 is unnecessary; consider pausing it.',
+  },
+];
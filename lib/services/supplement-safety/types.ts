@@ -0,0 +1,66 @@
+/**
+ * Supplement Safety Types
+ *
+ * @module lib/services/supplement-safety/types
+ */
+
+import type { InteractionSeverity, Medication } from '../medications/types';
+
+export type StackItemSource = 'reported' | 'ordered' | 'cart' | 'candidate';
+
+/** A supplement the user takes, or is about to */
+export interface StackItem {
+  name: string;
+  /** Per-serving amount and frequency, e.g. "5000 IU daily" or "200mg twice daily" */
+  dosage?: string | null;
+  source: StackItemSource;
+  productId?: string;
+}
+
+export type SafetyIssueKind = 'upper_limit' | 'supplement_interaction' | 'biomarker' | 'medication';
+
+export interface SafetyIssue {
+  kind: SafetyIssueKind;
+  severity: InteractionSeverity;
+  /** Names of the stack items involved */
+  items: string[];
+  nutrient?: string;
+  message: string;
+  advice: string;
+}
+
+/** A nutrient's daily dose summed across the stack */
+export interface NutrientTotal {
+  nutrient: string;
+  amount: number;
+  unit: string;
+  upperLimit: number;
+  contributors: Array<{ name: string; amount: number }>;
+}
+
+export interface StackSafetyContext {
+  /** Markers from the latest blood analysis */
+  biomarkers: Array<{ name: string; status?: string }>;
+  medications: Pick<Medication, 'id' | 'name' | 'generic_name'>[];
+}
+
+export interface StackSafetyReport {
+  /** No major issues */
+  safe: boolean;
+  issues: SafetyIssue[];
+  totals: NutrientTotal[];
+  /** Candidates involved in a major issue, which shouldn't be recommended or added */
+  blocked: string[];
+}
+
+/** The user's current stack and what it's checked against */
+export interface LoadedStackSafety {
+  stack: StackItem[];
+  context: StackSafetyContext;
+}
+
+/** Safety outcome attached to a recommendation or cart addition */
+export interface SafetyAnnotation {
+  blocked: boolean;
+  issues: SafetyIssue[];
+}
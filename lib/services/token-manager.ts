@@ -8,9 +8,10 @@
  */
 
 import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { getRefreshConfig } from './providers';
 
 export type Provider =
-  | 'oura' | 'dexcom' | 'fitbit' | 'strava' | 'vital'
+  | 'oura' | 'dexcom' | 'fitbit' | 'strava' | 'vital' | 'garmin' | 'google_fit'
   | 'gmail' | 'slack' | 'outlook' | 'teams' | 'apple_calendar' | 'apple_health'
   | 'whoop' | 'myfitnesspal' | 'cronometer' | 'spotify'
   | 'notion' | 'linear';
@@ -368,52 +369,8 @@ async function callProviderRefresh(
   error?: string;
 }> {
   try {
-    // Provider-specific refresh endpoints
-    const refreshEndpoints: Record<string, { url: string; clientIdEnv: string; clientSecretEnv: string }> = {
-      oura: {
-        url: 'https://api.ouraring.com/oauth/token',
-        clientIdEnv: 'OURA_CLIENT_ID',
-        clientSecretEnv: 'OURA_CLIENT_SECRET',
-      },
-      fitbit: {
-        url: 'https://api.fitbit.com/oauth2/token',
-        clientIdEnv: 'FITBIT_CLIENT_ID',
-        clientSecretEnv: 'FITBIT_CLIENT_SECRET',
-      },
-      strava: {
-        url: 'https://www.strava.com/oauth/token',
-        clientIdEnv: 'STRAVA_CLIENT_ID',
-        clientSecretEnv: 'STRAVA_CLIENT_SECRET',
-      },
-      gmail: {
-        url: 'https://oauth2.googleapis.com/token',
-        clientIdEnv: 'GOOGLE_CLIENT_ID',
-        clientSecretEnv: 'GOOGLE_CLIENT_SECRET',
-      },
-      slack: {
-        url: 'https://slack.com/api/oauth.v2.access',
-        clientIdEnv: 'SLACK_CLIENT_ID',
-        clientSecretEnv: 'SLACK_CLIENT_SECRET',
-      },
-      outlook: {
-        url: 'https://login.microsoftonline.com/common/oauth2/v2.0/token',
-        clientIdEnv: 'OUTLOOK_CLIENT_ID',
-        clientSecretEnv: 'OUTLOOK_CLIENT_SECRET',
-      },
-      whoop: {
-        url: 'https://api.prod.whoop.com/oauth/oauth2/token',
-        clientIdEnv: 'WHOOP_CLIENT_ID',
-        clientSecretEnv: 'WHOOP_CLIENT_SECRET',
-      },
-      spotify: {
-        url: 'https://accounts.spotify.com/api/token',
-        clientIdEnv: 'SPOTIFY_CLIENT_ID',
-        clientSecretEnv: 'SPOTIFY_CLIENT_SECRET',
-      },
-      // Add more providers as needed
-    };
-
-    const config = refreshEndpoints[provider];
+    // Refresh endpoints are declared on each provider plugin
+    const config = getRefreshConfig(provider);
     if (!config) {
       return { success: false, error: `Token refresh not implemented for ${provider}` };
     }
@@ -433,18 +390,17 @@ async function callProviderRefresh(
       client_secret: clientSecret,
     });
 
-    // Whoop requires 'offline' scope in refresh request to continue receiving refresh tokens
-    if (provider === 'whoop') {
-      body.append('scope', 'offline read:recovery read:cycles read:sleep read:workout read:profile read:body_measurement');
+    // Some providers (e.g. Whoop) stop issuing refresh tokens unless the scope is re-requested
+    if (config.scope) {
+      body.append('scope', config.scope);
     }
 
-    // Special case for Fitbit (uses Basic Auth)
-    // Note: Whoop uses client_secret_post (credentials in body), not Basic Auth
+    // Most providers accept credentials in the body (client_secret_post); some (e.g. Fitbit) require Basic Auth
     const headers: Record<string, string> = {
       'Content-Type': 'application/x-www-form-urlencoded',
     };
 
-    if (provider === 'fitbit') {
+    if (config.clientAuth === 'basic') {
       const basicAuth = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
       headers['Authorization'] = `Basic ${basicAuth}`;
     }
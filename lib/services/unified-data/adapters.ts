@@ -18,6 +18,13 @@ import {
   AppleHealthData,
   StravaActivityRecord,
   FitbitDayData,
+  GarminDailySummary,
+  GarminSleepSummary,
+  GarminHrvSummary,
+  GarminStressDetails,
+  GarminActivitySummary,
+  GoogleFitDayAggregate,
+  GoogleFitSession,
   SpotifyListeningData,
   NotionProductivityData,
   LinearProductivityData,
@@ -591,6 +598,299 @@ export function transformFitbitSleep(
   };
 }
 
+// ============================================================================
+// GARMIN ADAPTERS
+// ============================================================================
+
+/**
+ * Transform Garmin daily summary to unified activity format
+ */
+export function transformGarminDaily(
+  email: string,
+  summary: GarminDailySummary
+): UnifiedHealthRecord {
+  const intensitySeconds =
+    (summary.moderateIntensityDurationInSeconds || 0) +
+    (summary.vigorousIntensityDurationInSeconds || 0);
+
+  return {
+    email,
+    provider: 'garmin',
+    data_type: 'activity',
+    recorded_at: new Date(summary.calendarDate),
+
+    steps: summary.steps,
+    active_calories: summary.activeKilocalories,
+    total_calories:
+      summary.activeKilocalories !== undefined && summary.bmrKilocalories !== undefined
+        ? summary.activeKilocalories + summary.bmrKilocalories
+        : undefined,
+    active_minutes: intensitySeconds ? Math.round(intensitySeconds / 60) : undefined,
+    distance_meters: summary.distanceInMeters
+      ? Math.round(summary.distanceInMeters)
+      : undefined,
+    floors_climbed: summary.floorsClimbed,
+    resting_hr: summary.restingHeartRateInBeatsPerMinute,
+
+    provider_data: summary as unknown as Record<string, unknown>,
+  };
+}
+
+/**
+ * Transform Garmin sleep summary to unified format
+ */
+export function transformGarminSleep(
+  email: string,
+  summary: GarminSleepSummary
+): UnifiedHealthRecord {
+  const asleepSeconds =
+    (summary.deepSleepDurationInSeconds || 0) +
+    (summary.lightSleepDurationInSeconds || 0) +
+    (summary.remSleepInSeconds || 0);
+  const inBedSeconds = summary.durationInSeconds || asleepSeconds + (summary.awakeDurationInSeconds || 0);
+
+  const bedtimeStart = summary.startTimeInSeconds
+    ? new Date(summary.startTimeInSeconds * 1000)
+    : undefined;
+  const bedtimeEnd = bedtimeStart && inBedSeconds
+    ? new Date(bedtimeStart.getTime() + inBedSeconds * 1000)
+    : undefined;
+
+  return {
+    email,
+    provider: 'garmin',
+    data_type: 'sleep',
+    recorded_at: new Date(summary.calendarDate),
+
+    sleep_duration_hours: asleepSeconds
+      ? Number((asleepSeconds / 3600).toFixed(2))
+      : undefined,
+    sleep_score: summary.overallSleepScore?.value,
+    deep_sleep_minutes: summary.deepSleepDurationInSeconds
+      ? Math.round(summary.deepSleepDurationInSeconds / 60)
+      : undefined,
+    rem_sleep_minutes: summary.remSleepInSeconds
+      ? Math.round(summary.remSleepInSeconds / 60)
+      : undefined,
+    light_sleep_minutes: summary.lightSleepDurationInSeconds
+      ? Math.round(summary.lightSleepDurationInSeconds / 60)
+      : undefined,
+    awake_minutes: summary.awakeDurationInSeconds
+      ? Math.round(summary.awakeDurationInSeconds / 60)
+      : undefined,
+    sleep_efficiency: asleepSeconds && inBedSeconds
+      ? Math.round((asleepSeconds / inBedSeconds) * 100)
+      : undefined,
+    bedtime_start: bedtimeStart,
+    bedtime_end: bedtimeEnd,
+    spo2_avg: summary.averageSpO2Value,
+    respiratory_rate: summary.averageRespirationValue,
+
+    provider_data: summary as unknown as Record<string, unknown>,
+  };
+}
+
+/**
+ * Transform Garmin overnight HRV summary to unified recovery format
+ */
+export function transformGarminHrv(
+  email: string,
+  summary: GarminHrvSummary
+): UnifiedHealthRecord {
+  return {
+    email,
+    provider: 'garmin',
+    data_type: 'recovery',
+    recorded_at: new Date(summary.calendarDate),
+
+    hrv_avg: summary.lastNightAvg,
+
+    provider_data: summary as unknown as Record<string, unknown>,
+  };
+}
+
+/**
+ * Transform Garmin stress details (stress + Body Battery samples) to unified format
+ * Garmin reports -1/-2 for samples without enough data, so those are ignored.
+ */
+export function transformGarminStress(
+  email: string,
+  details: GarminStressDetails
+): UnifiedHealthRecord {
+  const stressValues = Object.values(details.timeOffsetStressLevelValues || {})
+    .filter((v) => v >= 0);
+  const bodyBatteryValues = Object.values(details.timeOffsetBodyBatteryValues || {})
+    .filter((v) => v >= 0);
+
+  return {
+    email,
+    provider: 'garmin',
+    data_type: 'stress',
+    recorded_at: new Date(details.calendarDate),
+
+    stress_score: stressValues.length > 0
+      ? Math.round(stressValues.reduce((sum, v) => sum + v, 0) / stressValues.length)
+      : undefined,
+    // Peak Body Battery is the morning "charged" level, the closest analogue to readiness
+    body_battery: bodyBatteryValues.length > 0
+      ? Math.max(...bodyBatteryValues)
+      : undefined,
+
+    provider_data: details as unknown as Record<string, unknown>,
+  };
+}
+
+/**
+ * Transform Garmin activity (workout) summary to unified format
+ */
+export function transformGarminActivity(
+  email: string,
+  activity: GarminActivitySummary
+): UnifiedHealthRecord {
+  return {
+    email,
+    provider: 'garmin',
+    data_type: 'workout',
+    recorded_at: new Date(activity.startTimeInSeconds * 1000),
+
+    workout_type: activity.activityType,
+    workout_duration_minutes: activity.durationInSeconds
+      ? Math.round(activity.durationInSeconds / 60)
+      : undefined,
+    workout_calories: activity.activeKilocalories,
+    distance_meters: activity.distanceInMeters
+      ? Math.round(activity.distanceInMeters)
+      : undefined,
+    avg_heart_rate: activity.averageHeartRateInBeatsPerMinute,
+    max_heart_rate: activity.maxHeartRateInBeatsPerMinute,
+
+    provider_data: activity as unknown as Record<string, unknown>,
+  };
+}
+
+// ============================================================================
+// GOOGLE FIT ADAPTERS
+// ============================================================================
+
+/** Google Fit activity type for sleep sessions */
+const GOOGLE_FIT_SLEEP_ACTIVITY = 72;
+
+// Map common Google Fit activity types to workout types
+const GOOGLE_FIT_ACTIVITY_MAP: Record<number, string> = {
+  1: 'Cycling',
+  7: 'Walking',
+  8: 'Running',
+  24: 'Dancing',
+  35: 'Hiking',
+  80: 'Weight Training',
+  82: 'Swimming',
+  100: 'Yoga',
+  113: 'CrossFit',
+  114: 'HIIT',
+  115: 'Interval Training',
+};
+
+/**
+ * Transform Google Fit daily aggregate to unified activity format
+ */
+export function transformGoogleFitActivity(
+  email: string,
+  day: GoogleFitDayAggregate
+): UnifiedHealthRecord {
+  return {
+    email,
+    provider: 'google_fit',
+    data_type: 'activity',
+    recorded_at: new Date(day.date),
+
+    steps: day.steps,
+    total_calories: day.caloriesExpended
+      ? Math.round(day.caloriesExpended)
+      : undefined,
+    active_minutes: day.activeMinutes,
+    distance_meters: day.distanceMeters
+      ? Math.round(day.distanceMeters)
+      : undefined,
+    spo2_avg: day.avgSpo2,
+
+    provider_data: day as unknown as Record<string, unknown>,
+  };
+}
+
+/**
+ * Transform Google Fit sleep session to unified format
+ * Returns null for non-sleep sessions
+ */
+export function transformGoogleFitSleep(
+  email: string,
+  session: GoogleFitSession
+): UnifiedHealthRecord | null {
+  if (session.activityType !== GOOGLE_FIT_SLEEP_ACTIVITY) return null;
+
+  const start = new Date(Number(session.startTimeMillis));
+  const end = new Date(Number(session.endTimeMillis));
+  const inBedMinutes = Math.round((end.getTime() - start.getTime()) / 60000);
+  const stages = session.sleepStages;
+  const asleepMinutes = stages
+    ? (stages.lightMinutes || 0) + (stages.deepMinutes || 0) + (stages.remMinutes || 0)
+    : inBedMinutes;
+
+  return {
+    email,
+    provider: 'google_fit',
+    data_type: 'sleep',
+    // Attribute the night to the wake-up day, matching other providers
+    recorded_at: new Date(end.toISOString().split('T')[0]),
+
+    sleep_duration_hours: asleepMinutes
+      ? Number((asleepMinutes / 60).toFixed(2))
+      : undefined,
+    deep_sleep_minutes: stages?.deepMinutes,
+    rem_sleep_minutes: stages?.remMinutes,
+    light_sleep_minutes: stages?.lightMinutes,
+    awake_minutes: stages?.awakeMinutes,
+    sleep_efficiency: stages && inBedMinutes > 0
+      ? Math.round((asleepMinutes / inBedMinutes) * 100)
+      : undefined,
+    bedtime_start: start,
+    bedtime_end: end,
+
+    provider_data: session as unknown as Record<string, unknown>,
+  };
+}
+
+/**
+ * Transform Google Fit workout session to unified format
+ * Returns null for sleep sessions
+ */
+export function transformGoogleFitWorkout(
+  email: string,
+  session: GoogleFitSession
+): UnifiedHealthRecord | null {
+  if (session.activityType === GOOGLE_FIT_SLEEP_ACTIVITY) return null;
+
+  const start = new Date(Number(session.startTimeMillis));
+  const end = new Date(Number(session.endTimeMillis));
+
+  return {
+    email,
+    provider: 'google_fit',
+    data_type: 'workout',
+    recorded_at: start,
+
+    workout_type: GOOGLE_FIT_ACTIVITY_MAP[session.activityType] || session.name || `Activity ${session.activityType}`,
+    workout_duration_minutes: Math.round((end.getTime() - start.getTime()) / 60000),
+    workout_calories: session.calories ? Math.round(session.calories) : undefined,
+    distance_meters: session.distanceMeters
+      ? Math.round(session.distanceMeters)
+      : undefined,
+    avg_heart_rate: session.avgHeartRate,
+    max_heart_rate: session.maxHeartRate,
+
+    provider_data: session as unknown as Record<string, unknown>,
+  };
+}
+
 // ============================================================================
 // SPOTIFY ADAPTERS
 // ============================================================================
@@ -49,6 +49,16 @@ export {
   // Fitbit
   transformFitbitActivity,
   transformFitbitSleep,
+  // Garmin
+  transformGarminDaily,
+  transformGarminSleep,
+  transformGarminHrv,
+  transformGarminStress,
+  transformGarminActivity,
+  // Google Fit
+  transformGoogleFitActivity,
+  transformGoogleFitSleep,
+  transformGoogleFitWorkout,
   // Spotify
   transformSpotifyMood,
   // Notion
@@ -68,4 +78,20 @@ export {
   getLatestHealthContext,
   updateDailyRollup,
   groupByProvider,
+  dedupeUnifiedRecords,
 } from './writer';
+
+// Data quality
+export { detectOutlier, flagOutliers } from './quality';
+
+// Multi-source reconciliation
+export {
+  METRIC_GROUPS,
+  DEFAULT_SOURCE_PRIORITY,
+  isMetricGroup,
+  getSourceRank,
+  getSourcePreferences,
+  setSourcePreference,
+  clearSourcePreference,
+  explainDailyRollup,
+} from './reconciliation';
@@ -0,0 +1,203 @@
+/**
+ * Unified Health Data Quality
+ *
+ * Flags readings that are physiologically implausible or far outside the
+ * user's own recent history. Flagged records are still stored, but the daily
+ * rollup prefers any other provider's reading over them.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import { UnifiedHealthRecord } from './types';
+
+const logger = createLogger('UnifiedDataQuality');
+
+type CheckedField =
+  | 'sleep_duration_hours'
+  | 'sleep_score'
+  | 'recovery_score'
+  | 'readiness_score'
+  | 'hrv_avg'
+  | 'resting_hr'
+  | 'steps'
+  | 'active_calories'
+  | 'glucose_avg'
+  | 'stress_score';
+
+/** Values outside these ranges are device or parsing errors */
+const PLAUSIBLE_RANGES: Record<CheckedField, { min: number; max: number }> = {
+  sleep_duration_hours: { min: 0.5, max: 18 },
+  sleep_score: { min: 0, max: 100 },
+  recovery_score: { min: 0, max: 100 },
+  readiness_score: { min: 0, max: 100 },
+  hrv_avg: { min: 3, max: 300 },
+  resting_hr: { min: 25, max: 150 },
+  steps: { min: 0, max: 100000 },
+  active_calories: { min: 0, max: 8000 },
+  glucose_avg: { min: 30, max: 500 },
+  stress_score: { min: 0, max: 100 },
+};
+
+/** Fields compared against the user's history (scores are excluded; they swing legitimately) */
+const HISTORY_FIELDS: CheckedField[] = [
+  'sleep_duration_hours',
+  'hrv_avg',
+  'resting_hr',
+  'steps',
+  'active_calories',
+  'glucose_avg',
+];
+
+const HISTORY_DAYS = 30;
+const MIN_HISTORY_POINTS = 7;
+/** Robust z-score (median/MAD) above which a reading is an outlier */
+const MAX_ROBUST_Z = 5;
+/** Scales MAD to a standard deviation for normally distributed data */
+const MAD_SCALE = 1.4826;
+
+export interface FieldBaseline {
+  median: number;
+  mad: number;
+}
+
+export type FieldBaselines = Partial<Record<CheckedField, FieldBaseline>>;
+
+type HistoryRow = Partial<Record<CheckedField, number | null>>;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function toTime(value: Date | string): number {
+  return value instanceof Date ? value.getTime() : new Date(value).getTime();
+}
+
+/**
+ * Median and MAD per field from the user's non-outlier records in the window
+ */
+async function getHistoryBaselines(
+  email: string,
+  from: Date,
+  to: Date
+): Promise<FieldBaselines> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('unified_health_data')
+    .select(HISTORY_FIELDS.join(','))
+    .eq('email', email)
+    .eq('is_outlier', false)
+    .gte('recorded_at', from.toISOString())
+    .lte('recorded_at', to.toISOString())
+    .limit(2000);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return computeBaselines((data || []) as unknown as HistoryRow[]);
+}
+
+/**
+ * Median and MAD per history field, skipping fields with too few readings
+ */
+export function computeBaselines(rows: HistoryRow[]): FieldBaselines {
+  const baselines: FieldBaselines = {};
+
+  for (const field of HISTORY_FIELDS) {
+    const values = rows
+      .map(row => row[field])
+      .filter((value): value is number => typeof value === 'number');
+
+    if (values.length < MIN_HISTORY_POINTS) continue;
+
+    const fieldMedian = median(values);
+    baselines[field] = {
+      median: fieldMedian,
+      mad: median(values.map(value => Math.abs(value - fieldMedian))),
+    };
+  }
+
+  return baselines;
+}
+
+/**
+ * Reason a record should be flagged, or null if it looks plausible
+ */
+export function detectOutlier(
+  record: UnifiedHealthRecord,
+  baselines: FieldBaselines = {}
+): string | null {
+  for (const field of Object.keys(PLAUSIBLE_RANGES) as CheckedField[]) {
+    const value = record[field];
+    if (typeof value !== 'number') continue;
+
+    const { min, max } = PLAUSIBLE_RANGES[field];
+    if (value < min || value > max) {
+      return `${field} ${value} outside plausible range ${min}-${max}`;
+    }
+
+    const baseline = baselines[field];
+    if (!baseline || baseline.mad === 0) continue;
+
+    const robustZ = Math.abs(value - baseline.median) / (MAD_SCALE * baseline.mad);
+    if (robustZ > MAX_ROBUST_Z) {
+      return `${field} ${value} far from ${HISTORY_DAYS}-day median ${Math.round(baseline.median * 10) / 10}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Set is_outlier/outlier_reason on each record.
+ * Falls back to plausibility checks only if history can't be loaded, so
+ * quality checks never block a write.
+ */
+export async function flagOutliers(records: UnifiedHealthRecord[]): Promise<UnifiedHealthRecord[]> {
+  const byEmail = new Map<string, UnifiedHealthRecord[]>();
+  for (const record of records) {
+    const group = byEmail.get(record.email) || [];
+    group.push(record);
+    byEmail.set(record.email, group);
+  }
+
+  const flagged: UnifiedHealthRecord[] = [];
+
+  for (const [email, group] of byEmail) {
+    const times = group.map(record => toTime(record.recorded_at)).filter(time => !isNaN(time));
+    let baselines: FieldBaselines = {};
+
+    if (times.length > 0) {
+      // Window ends at the newest record so historical backfills compare against their own era
+      const to = new Date(Math.max(...times));
+      const from = new Date(Math.min(...times) - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+
+      try {
+        baselines = await getHistoryBaselines(email, from, to);
+      } catch (error) {
+        logger.warn('Could not load history for outlier detection', {
+          email,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    for (const record of group) {
+      const reason = detectOutlier(record, baselines);
+      flagged.push({ ...record, is_outlier: reason !== null, outlier_reason: reason });
+    }
+  }
+
+  const outlierCount = flagged.filter(record => record.is_outlier).length;
+  if (outlierCount > 0) {
+    logger.info('Flagged outlier records', {
+      outliers: outlierCount,
+      total: records.length,
+    });
+  }
+
+  return flagged;
+}
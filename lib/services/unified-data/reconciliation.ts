@@ -0,0 +1,455 @@
+/**
+ * Multi-Source Reconciliation
+ *
+ * When several providers report the same metric for a day, the daily rollup
+ * (update_unified_health_daily, migration 072) picks one reading per metric
+ * group. This module manages the per-user provider preferences that drive
+ * that choice and explains, for a given day, why each number was chosen.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { createLogger } from '@/lib/utils/logger';
+import {
+  DailyRollupExplanation,
+  HealthDataType,
+  HealthProvider,
+  MetricGroup,
+  MetricGroupExplanation,
+  MetricSourcePreference,
+  RollupCandidate,
+  SelectionReason,
+  UnifiedHealthDaily,
+} from './types';
+import { updateDailyRollup } from './writer';
+
+const logger = createLogger('UnifiedDataReconciliation');
+
+export const METRIC_GROUPS: MetricGroup[] = ['sleep', 'recovery', 'activity', 'glucose', 'behavioral'];
+
+/**
+ * Default provider order per metric group.
+ * Must match the v_*_order arrays in update_unified_health_daily.
+ * An empty list means the most recently written reading wins.
+ */
+export const DEFAULT_SOURCE_PRIORITY: Record<MetricGroup, HealthProvider[]> = {
+  sleep: ['oura', 'whoop', 'garmin', 'apple_health', 'fitbit', 'google_fit'],
+  recovery: ['whoop', 'oura', 'garmin'],
+  activity: ['garmin', 'apple_health', 'fitbit', 'google_fit', 'oura', 'whoop'],
+  glucose: ['dexcom'],
+  behavioral: [],
+};
+
+const KNOWN_PROVIDERS: HealthProvider[] = [
+  'oura',
+  'whoop',
+  'gmail',
+  'slack',
+  'dexcom',
+  'apple_health',
+  'strava',
+  'fitbit',
+  'garmin',
+  'google_fit',
+  'teams',
+  'outlook',
+  'spotify',
+  'notion',
+  'linear',
+];
+
+/** Days of rollups recomputed after a preference change */
+const RECOMPUTE_DAYS = 30;
+
+interface MetricGroupDefinition {
+  label: string;
+  dataTypes: HealthDataType[];
+  /** A record is a candidate if any of these are set */
+  requiredFields: string[];
+  /** unified_health_data field -> unified_health_daily field */
+  fields: Record<string, string>;
+}
+
+/** Mirrors the candidate queries in update_unified_health_daily */
+const METRIC_GROUP_DEFINITIONS: Record<MetricGroup, MetricGroupDefinition> = {
+  sleep: {
+    label: 'Sleep',
+    dataTypes: ['sleep'],
+    requiredFields: ['sleep_duration_hours'],
+    fields: {
+      sleep_duration_hours: 'sleep_hours',
+      sleep_score: 'sleep_score',
+      deep_sleep_minutes: 'deep_sleep_minutes',
+      rem_sleep_minutes: 'rem_sleep_minutes',
+      sleep_efficiency: 'sleep_efficiency',
+    },
+  },
+  recovery: {
+    label: 'Recovery',
+    dataTypes: ['recovery', 'sleep'],
+    requiredFields: ['recovery_score', 'readiness_score'],
+    fields: {
+      recovery_score: 'recovery_score',
+      readiness_score: 'readiness_score',
+      hrv_avg: 'hrv_avg',
+      resting_hr: 'resting_hr',
+    },
+  },
+  activity: {
+    label: 'Activity',
+    dataTypes: ['activity'],
+    requiredFields: ['steps', 'active_calories'],
+    fields: {
+      steps: 'steps',
+      active_calories: 'active_calories',
+      active_minutes: 'active_minutes',
+    },
+  },
+  glucose: {
+    label: 'Glucose',
+    dataTypes: ['glucose'],
+    requiredFields: ['glucose_avg'],
+    fields: {
+      glucose_avg: 'glucose_avg',
+      time_in_range_percent: 'time_in_range_percent',
+    },
+  },
+  behavioral: {
+    label: 'Stress and meetings',
+    dataTypes: ['stress', 'behavioral'],
+    requiredFields: ['stress_score', 'meeting_count'],
+    fields: {
+      stress_score: 'stress_score',
+      meeting_count: 'meeting_count',
+      meeting_minutes: 'meeting_minutes',
+      focus_time_minutes: 'focus_time_minutes',
+    },
+  },
+};
+
+type RawRecord = Record<string, unknown> & {
+  provider: string;
+  data_type: HealthDataType;
+  recorded_at: string;
+  created_at: string;
+  is_outlier: boolean | null;
+  outlier_reason: string | null;
+};
+
+export function isMetricGroup(value: string): value is MetricGroup {
+  return (METRIC_GROUPS as string[]).includes(value);
+}
+
+/**
+ * Provider rank for a metric group, matching unified_source_rank():
+ * user preference 1..n, then default priority 101.., then 150
+ */
+export function getSourceRank(
+  metric: MetricGroup,
+  provider: string,
+  userOrder: string[] | null
+): number {
+  const userIndex = userOrder ? userOrder.indexOf(provider) : -1;
+  if (userOrder && userIndex >= 0) {
+    return userIndex + 1;
+  }
+
+  const defaultIndex = (DEFAULT_SOURCE_PRIORITY[metric] as string[]).indexOf(provider);
+  return 100 + (defaultIndex >= 0 ? defaultIndex + 1 : 50);
+}
+
+/**
+ * Candidate records in the order the rollup considers them: non-outliers
+ * first, then by source rank, then the most recently written
+ */
+export function sortCandidates<T extends Pick<RawRecord, 'provider' | 'is_outlier' | 'created_at'>>(
+  metric: MetricGroup,
+  records: T[],
+  userOrder: string[] | null
+): T[] {
+  return [...records].sort(
+    (a, b) =>
+      Number(!!a.is_outlier) - Number(!!b.is_outlier) ||
+      getSourceRank(metric, a.provider, userOrder) - getSourceRank(metric, b.provider, userOrder) ||
+      new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+}
+
+/**
+ * Why the selected candidate won, matching unified_selection_reason()
+ */
+function getSelectionReason(selected: RollupCandidate, candidates: RollupCandidate[]): SelectionReason {
+  if (selected.is_outlier) return 'outlier_only';
+
+  const outlierRanks = candidates.filter(c => c.is_outlier).map(c => c.rank);
+  if (outlierRanks.length > 0 && Math.min(...outlierRanks) < selected.rank) {
+    return 'outlier_excluded';
+  }
+
+  if (new Set(candidates.map(c => c.provider)).size === 1) return 'only_source';
+  return selected.rank < 100 ? 'user_preference' : 'default_priority';
+}
+
+function describeSelection(
+  label: string,
+  selected: RollupCandidate | undefined,
+  reason: SelectionReason | null,
+  candidates: RollupCandidate[]
+): string {
+  if (!selected || !reason) {
+    return `${label}: no provider reported data for this day`;
+  }
+
+  const others = [...new Set(candidates.map(c => c.provider))].filter(p => p !== selected.provider);
+
+  switch (reason) {
+    case 'only_source':
+      return `${label} came from ${selected.provider}, the only provider reporting it`;
+    case 'user_preference':
+      return `${label} came from ${selected.provider} because you ranked it above ${others.join(', ')}`;
+    case 'default_priority':
+      return `${label} came from ${selected.provider}, which is preferred by default over ${others.join(', ')}`;
+    case 'outlier_excluded': {
+      const skipped = candidates.filter(c => c.is_outlier && c.rank < selected.rank);
+      const details = skipped.map(c => `${c.provider} (${c.outlier_reason || 'outlier'})`).join(', ');
+      return `${label} came from ${selected.provider} because the higher-priority reading from ${details} was flagged as an outlier`;
+    }
+    case 'outlier_only':
+      return `${label} came from ${selected.provider}; its reading was flagged as an outlier (${selected.outlier_reason || 'unknown reason'}) but no other provider had a usable reading`;
+  }
+}
+
+/**
+ * Stored per-metric provider orders for a user
+ */
+async function getStoredPreferences(email: string): Promise<Partial<Record<MetricGroup, string[]>>> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from('user_metric_source_preferences')
+    .select('metric, provider_order')
+    .eq('email', email);
+
+  if (error) {
+    throw new Error(`Failed to load source preferences: ${error.message}`);
+  }
+
+  const stored: Partial<Record<MetricGroup, string[]>> = {};
+  for (const row of data || []) {
+    if (isMetricGroup(row.metric)) {
+      stored[row.metric] = row.provider_order || [];
+    }
+  }
+  return stored;
+}
+
+/**
+ * Effective provider order for every metric group
+ */
+export async function getSourcePreferences(email: string): Promise<MetricSourcePreference[]> {
+  const stored = await getStoredPreferences(email);
+
+  return METRIC_GROUPS.map(metric => {
+    const defaultOrder: string[] = DEFAULT_SOURCE_PRIORITY[metric];
+    const userOrder = stored[metric];
+
+    return {
+      metric,
+      providerOrder: userOrder
+        ? [...userOrder, ...defaultOrder.filter(p => !userOrder.includes(p))]
+        : defaultOrder,
+      defaultOrder,
+      isCustom: !!userOrder,
+    };
+  });
+}
+
+/**
+ * Recompute recent daily rollups so a preference change applies retroactively
+ */
+async function recomputeRecentRollups(email: string): Promise<number> {
+  const supabase = createAdminClient();
+
+  const startDate = new Date();
+  startDate.setDate(startDate.getDate() - RECOMPUTE_DAYS);
+
+  const { data, error } = await supabase
+    .from('unified_health_daily')
+    .select('date')
+    .eq('email', email)
+    .gte('date', startDate.toISOString().split('T')[0]);
+
+  if (error) {
+    logger.warn('Failed to list rollups to recompute', { email, error: error.message });
+    return 0;
+  }
+
+  let recomputed = 0;
+  for (const row of data || []) {
+    const result = await updateDailyRollup(email, row.date);
+    if (result.success) recomputed++;
+  }
+  return recomputed;
+}
+
+/**
+ * Set the provider order for one metric group and recompute recent rollups
+ */
+export async function setSourcePreference(
+  email: string,
+  metric: MetricGroup,
+  providerOrder: string[]
+): Promise<{ success: boolean; error?: string; recomputedDays?: number }> {
+  if (providerOrder.length === 0) {
+    return { success: false, error: 'providerOrder must list at least one provider' };
+  }
+
+  const unknown = providerOrder.filter(p => !(KNOWN_PROVIDERS as string[]).includes(p));
+  if (unknown.length > 0) {
+    return { success: false, error: `Unknown providers: ${unknown.join(', ')}` };
+  }
+
+  if (new Set(providerOrder).size !== providerOrder.length) {
+    return { success: false, error: 'providerOrder must not contain duplicates' };
+  }
+
+  const supabase = createAdminClient();
+
+  const { error } = await supabase
+    .from('user_metric_source_preferences')
+    .upsert(
+      {
+        email,
+        metric,
+        provider_order: providerOrder,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'email,metric' }
+    );
+
+  if (error) {
+    logger.error('Failed to save source preference', { email, metric, error: error.message });
+    return { success: false, error: error.message };
+  }
+
+  const recomputedDays = await recomputeRecentRollups(email);
+  logger.info('Updated source preference', { email, metric, providerOrder, recomputedDays });
+
+  return { success: true, recomputedDays };
+}
+
+/**
+ * Revert a metric group to the default provider order
+ */
+export async function clearSourcePreference(
+  email: string,
+  metric: MetricGroup
+): Promise<{ success: boolean; error?: string; recomputedDays?: number }> {
+  const supabase = createAdminClient();
+
+  const { error } = await supabase
+    .from('user_metric_source_preferences')
+    .delete()
+    .eq('email', email)
+    .eq('metric', metric);
+
+  if (error) {
+    logger.error('Failed to clear source preference', { email, metric, error: error.message });
+    return { success: false, error: error.message };
+  }
+
+  const recomputedDays = await recomputeRecentRollups(email);
+  return { success: true, recomputedDays };
+}
+
+/**
+ * Explain which provider supplied each metric group of a day's rollup and why
+ *
+ * @param date - YYYY-MM-DD (UTC day, as bucketed by the rollup)
+ */
+export async function explainDailyRollup(
+  email: string,
+  date: string
+): Promise<DailyRollupExplanation | null> {
+  const supabase = createAdminClient();
+
+  const dayStart = new Date(`${date}T00:00:00.000Z`);
+  const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+  const [dailyResult, recordsResult, stored] = await Promise.all([
+    supabase
+      .from('unified_health_daily')
+      .select('*')
+      .eq('email', email)
+      .eq('date', date)
+      .maybeSingle(),
+    supabase
+      .from('unified_health_data')
+      .select('*')
+      .eq('email', email)
+      .gte('recorded_at', dayStart.toISOString())
+      .lt('recorded_at', dayEnd.toISOString()),
+    getStoredPreferences(email),
+  ]);
+
+  if (dailyResult.error) {
+    throw new Error(`Failed to load daily rollup: ${dailyResult.error.message}`);
+  }
+  if (recordsResult.error) {
+    throw new Error(`Failed to load health records: ${recordsResult.error.message}`);
+  }
+
+  const daily = dailyResult.data as UnifiedHealthDaily | null;
+  const records = (recordsResult.data || []) as RawRecord[];
+
+  if (!daily && records.length === 0) {
+    return null;
+  }
+
+  const metrics: MetricGroupExplanation[] = METRIC_GROUPS.map(metric => {
+    const definition = METRIC_GROUP_DEFINITIONS[metric];
+    const userOrder = stored[metric] || null;
+
+    const matching = records.filter(
+      record =>
+        definition.dataTypes.includes(record.data_type) &&
+        definition.requiredFields.some(field => record[field] != null)
+    );
+
+    const candidates: RollupCandidate[] = sortCandidates(metric, matching, userOrder)
+      .map((record, index) => ({
+        provider: record.provider,
+        data_type: record.data_type,
+        recorded_at: record.recorded_at,
+        rank: getSourceRank(metric, record.provider, userOrder),
+        is_outlier: !!record.is_outlier,
+        outlier_reason: record.outlier_reason,
+        values: Object.fromEntries(
+          Object.entries(definition.fields).map(([recordField, dailyField]) => [
+            dailyField,
+            typeof record[recordField] === 'number' ? (record[recordField] as number) : null,
+          ])
+        ),
+        selected: index === 0,
+      }));
+
+    const selected = candidates[0];
+    const reason = selected ? getSelectionReason(selected, candidates) : null;
+
+    return {
+      metric,
+      selectedProvider: selected?.provider || null,
+      reason,
+      summary: describeSelection(definition.label, selected, reason, candidates),
+      values: selected?.values || {},
+      candidates,
+    };
+  });
+
+  return {
+    email,
+    date,
+    providersReporting: daily?.providers_reporting || [...new Set(records.map(r => r.provider))],
+    fieldProvenance: daily?.field_provenance || {},
+    metrics,
+  };
+}
@@ -15,6 +15,7 @@ export type HealthProvider =
   | 'strava'
   | 'fitbit'
   | 'garmin'
+  | 'google_fit'
   | 'teams'
   | 'outlook'
   | 'spotify'
@@ -59,6 +60,7 @@ export interface UnifiedHealthRecord {
   respiratory_rate?: number;
   spo2_avg?: number;
   body_temp_deviation?: number;
+  body_battery?: number; // 0-100 (Garmin)
 
   // Activity fields
   steps?: number;
@@ -108,6 +110,10 @@ export interface UnifiedHealthRecord {
 
   // Raw provider data
   provider_data?: Record<string, unknown>;
+
+  // Data quality (set by the writer, see quality.ts)
+  is_outlier?: boolean;
+  outlier_reason?: string | null;
 }
 
 export interface UnifiedHealthDaily {
@@ -159,6 +165,62 @@ export interface UnifiedHealthDaily {
     message: string;
     severity: string;
   }>;
+  field_provenance?: Record<string, FieldProvenance>;
+}
+
+// Multi-source reconciliation
+
+/** Daily rollup metric groups a provider preference can be set for */
+export type MetricGroup = 'sleep' | 'recovery' | 'activity' | 'glucose' | 'behavioral';
+
+/** Why the daily rollup used a provider's reading */
+export type SelectionReason =
+  | 'only_source'
+  | 'user_preference'
+  | 'default_priority'
+  | 'outlier_excluded'
+  | 'outlier_only';
+
+export interface FieldProvenance {
+  provider: string;
+  reason: SelectionReason;
+}
+
+export interface MetricSourcePreference {
+  metric: MetricGroup;
+  /** Effective order: the user's providers first, then the remaining defaults */
+  providerOrder: string[];
+  defaultOrder: string[];
+  isCustom: boolean;
+}
+
+export interface RollupCandidate {
+  provider: string;
+  data_type: HealthDataType;
+  recorded_at: string;
+  rank: number;
+  is_outlier: boolean;
+  outlier_reason?: string | null;
+  values: Record<string, number | null>;
+  selected: boolean;
+}
+
+export interface MetricGroupExplanation {
+  metric: MetricGroup;
+  selectedProvider: string | null;
+  reason: SelectionReason | null;
+  summary: string;
+  values: Record<string, number | null>;
+  candidates: RollupCandidate[];
+}
+
+export interface DailyRollupExplanation {
+  email: string;
+  date: string;
+  providersReporting: string[];
+  /** Per-field sources recorded by the rollup when it was last computed */
+  fieldProvenance: Record<string, FieldProvenance>;
+  metrics: MetricGroupExplanation[];
 }
 
 // Provider-specific input types for adapters
@@ -348,6 +410,100 @@ export interface FitbitDayData {
   };
 }
 
+export interface GarminDailySummary {
+  summaryId: string;
+  calendarDate: string; // YYYY-MM-DD
+  startTimeInSeconds?: number;
+  durationInSeconds?: number;
+  steps?: number;
+  distanceInMeters?: number;
+  activeKilocalories?: number;
+  bmrKilocalories?: number;
+  moderateIntensityDurationInSeconds?: number;
+  vigorousIntensityDurationInSeconds?: number;
+  floorsClimbed?: number;
+  averageHeartRateInBeatsPerMinute?: number;
+  maxHeartRateInBeatsPerMinute?: number;
+  restingHeartRateInBeatsPerMinute?: number;
+  averageStressLevel?: number; // 0-100, -1 when not enough data
+  maxStressLevel?: number;
+  bodyBatteryChargedValue?: number;
+  bodyBatteryDrainedValue?: number;
+}
+
+export interface GarminSleepSummary {
+  summaryId: string;
+  calendarDate: string;
+  startTimeInSeconds?: number;
+  durationInSeconds?: number;
+  deepSleepDurationInSeconds?: number;
+  lightSleepDurationInSeconds?: number;
+  remSleepInSeconds?: number;
+  awakeDurationInSeconds?: number;
+  averageSpO2Value?: number;
+  averageRespirationValue?: number;
+  overallSleepScore?: { value?: number; qualifierKey?: string };
+}
+
+export interface GarminHrvSummary {
+  summaryId: string;
+  calendarDate: string;
+  startTimeInSeconds?: number;
+  lastNightAvg?: number; // ms
+  lastNight5MinHigh?: number; // ms
+  hrvValues?: Record<string, number>;
+}
+
+export interface GarminStressDetails {
+  summaryId: string;
+  calendarDate: string;
+  startTimeInSeconds?: number;
+  timeOffsetStressLevelValues?: Record<string, number>;
+  timeOffsetBodyBatteryValues?: Record<string, number>;
+}
+
+export interface GarminActivitySummary {
+  summaryId: string;
+  activityId?: number;
+  activityType: string;
+  activityName?: string;
+  startTimeInSeconds: number;
+  durationInSeconds?: number;
+  distanceInMeters?: number;
+  activeKilocalories?: number;
+  averageHeartRateInBeatsPerMinute?: number;
+  maxHeartRateInBeatsPerMinute?: number;
+}
+
+export interface GoogleFitDayAggregate {
+  date: string; // YYYY-MM-DD
+  steps?: number;
+  caloriesExpended?: number;
+  activeMinutes?: number; // Heart Minutes / move minutes
+  distanceMeters?: number;
+  avgHeartRate?: number;
+  minHeartRate?: number; // Lowest reading of the day; Google Fit has no resting heart rate
+  avgSpo2?: number;
+}
+
+export interface GoogleFitSession {
+  id: string;
+  name?: string;
+  activityType: number; // Google Fit activity type (72 = sleep)
+  startTimeMillis: string;
+  endTimeMillis: string;
+  sleepStages?: {
+    awakeMinutes?: number;
+    lightMinutes?: number;
+    deepMinutes?: number;
+    remMinutes?: number;
+  };
+  calories?: number;
+  avgHeartRate?: number;
+  maxHeartRate?: number;
+  distanceMeters?: number;
+}
+
 export interface SpotifyListeningData {
   fetchedAt: string;
   recentTracks: Array<{
@@ -3,12 +3,14 @@
  *
  * Handles writing data to the unified_health_data table.
  * Provides upsert functionality to avoid duplicates and
- * automatic daily rollup triggering.
+ * automatic daily rollup triggering. Records are checked for
+ * outliers (see quality.ts) before they are written.
  */
 
 import { createAdminClient } from '@/lib/supabase/server';
 import { createLogger } from '@/lib/utils/logger';
 import { UnifiedHealthRecord, UnifiedHealthDaily } from './types';
+import { flagOutliers } from './quality';
 
 const logger = createLogger('UnifiedDataWriter');
 
@@ -20,10 +22,11 @@ export async function writeUnifiedRecord(
 ): Promise<{ success: boolean; error?: string }> {
   try {
     const supabase = createAdminClient();
+    const [flaggedRecord] = await flagOutliers([record]);
 
     // Convert dates to ISO strings for database
     const dbRecord = {
-      ...record,
+      ...flaggedRecord,
       recorded_at:
         record.recorded_at instanceof Date
           ? record.recorded_at.toISOString()
@@ -87,9 +90,10 @@ export async function writeUnifiedRecords(
 
   try {
     const supabase = createAdminClient();
+    const flaggedRecords = await flagOutliers(records);
 
     // Convert dates to ISO strings for database
-    const dbRecords = records.map((record) => ({
+    const dbRecords = flaggedRecords.map((record) => ({
       ...record,
       recorded_at:
         record.recorded_at instanceof Date
@@ -425,3 +429,28 @@ export function groupByProvider(
 
   return grouped;
 }
+
+/**
+ * One record per upsert key (email, provider, data_type, recorded_at).
+ * Postgres rejects a whole batch that touches the same row twice, so
+ * re-uploaded days and nap-plus-night sleeps are collapsed first: the longest
+ * sleep is kept, and otherwise the later record (providers list re-uploads
+ * in upload order).
+ */
+export function dedupeUnifiedRecords(records: UnifiedHealthRecord[]): UnifiedHealthRecord[] {
+  const byKey = new Map<string, UnifiedHealthRecord>();
+
+  for (const record of records) {
+    const recordedAt =
+      record.recorded_at instanceof Date ? record.recorded_at.toISOString() : record.recorded_at;
+    const key = [record.email, record.provider, record.data_type, recordedAt].join('|');
+    const kept = byKey.get(key);
+
+    if (kept && record.data_type === 'sleep' && (kept.sleep_duration_hours ?? 0) > (record.sleep_duration_hours ?? 0)) {
+      continue;
+    }
+    byKey.set(key, record);
+  }
+
+  return Array.from(byKey.values());
+}
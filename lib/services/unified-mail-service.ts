@@ -9,6 +9,7 @@
 
 import { createAdminClient } from '@/lib/supabase/server';
 import { getAccessToken } from '@/lib/services/token-manager';
+import { internalRequestHeaders } from '@/lib/utils/internal-auth';
 
 // =========================================================================
 // TYPES
@@ -560,7 +561,7 @@ export async function processAllRecentEmails(
           const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://moccet.ai';
           const response = await fetch(`${baseUrl}/api/gmail/process-recent`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
             body: JSON.stringify({
               email: userEmail,
               code: userCode,
@@ -612,7 +613,7 @@ export async function processAllRecentEmails(
           const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://moccet.ai';
           const response = await fetch(`${baseUrl}/api/outlook/mail/process-recent`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
             body: JSON.stringify({
               email: userEmail,
               code: userCode,
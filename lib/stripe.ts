@@ -193,6 +193,97 @@ export function verifyWebhookSignature(
   );
 }
 
+// =============================================================================
+// SAVED PAYMENT METHODS
+// =============================================================================
+
+/**
+ * Creates a setup intent that saves a card for charges made while the
+ * customer is away (supplement replenishment)
+ */
+export async function createOffSessionSetupIntent(
+  customerEmail: string
+): Promise<Stripe.SetupIntent> {
+  const customer = await getOrCreateStripeCustomer(customerEmail);
+
+  return stripe.setupIntents.create({
+    customer: customer.id,
+    usage: 'off_session',
+    automatic_payment_methods: {
+      enabled: true,
+    },
+    metadata: {
+      customer_email: customerEmail,
+    },
+  });
+}
+
+/**
+ * Gets the customer's default payment method, or their most recent card
+ */
+export async function getDefaultPaymentMethodId(
+  customerEmail: string
+): Promise<string | null> {
+  const customer = await getOrCreateStripeCustomer(customerEmail);
+
+  const defaultMethod = customer.invoice_settings?.default_payment_method;
+  if (defaultMethod) {
+    return typeof defaultMethod === 'string' ? defaultMethod : defaultMethod.id;
+  }
+
+  const paymentMethods = await stripe.paymentMethods.list({
+    customer: customer.id,
+    type: 'card',
+    limit: 1,
+  });
+
+  return paymentMethods.data[0]?.id || null;
+}
+
+/**
+ * Creates a payment intent for a saved payment method without confirming
+ * it, so the caller can record it before the customer is charged
+ */
+export async function createOffSessionPayment(
+  amount: number,
+  customerEmail: string,
+  paymentMethodId: string,
+  metadata?: Record<string, string>
+): Promise<Stripe.PaymentIntent> {
+  const customer = await getOrCreateStripeCustomer(customerEmail);
+
+  return stripe.paymentIntents.create({
+    amount: formatAmountForStripe(amount),
+    currency: stripeConfig.currency,
+    customer: customer.id,
+    payment_method: paymentMethodId,
+    receipt_email: customerEmail,
+    metadata: {
+      customer_email: customerEmail,
+      ...metadata,
+    },
+  });
+}
+
+/**
+ * Confirms a payment intent without the customer present. Throws a Stripe
+ * card error when the charge is declined or needs authentication.
+ */
+export async function confirmOffSessionPayment(
+  paymentIntentId: string
+): Promise<Stripe.PaymentIntent> {
+  return stripe.paymentIntents.confirm(paymentIntentId, { off_session: true });
+}
+
+/**
+ * Cancels a payment intent that hasn't been charged
+ */
+export async function cancelPaymentIntent(
+  paymentIntentId: string
+): Promise<Stripe.PaymentIntent> {
+  return stripe.paymentIntents.cancel(paymentIntentId);
+}
+
 // =============================================================================
 // SUBSCRIPTION MANAGEMENT
 // =============================================================================
@@ -279,6 +279,8 @@ export const circuitBreakers = {
   outlook: providerCircuitBreakers.get('outlook', { failureThreshold: 5 }),
   teams: providerCircuitBreakers.get('teams', { failureThreshold: 5 }),
   spotify: providerCircuitBreakers.get('spotify', { failureThreshold: 5 }),
+  garmin: providerCircuitBreakers.get('garmin', { failureThreshold: 5 }),
+  googleFit: providerCircuitBreakers.get('google_fit', { failureThreshold: 5 }),
   openai: providerCircuitBreakers.get('openai', { failureThreshold: 3, resetTimeout: 60000 }),
   anthropic: providerCircuitBreakers.get('anthropic', { failureThreshold: 3, resetTimeout: 60000 }),
 };
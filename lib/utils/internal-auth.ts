@@ -0,0 +1,54 @@
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Server-to-server authentication helper
+ *
+ * Some routes that act for the signed-in user are also called by the app
+ * itself: OAuth callbacks start the first sync, crons and provider plugins
+ * refresh data, and the agent runs its tools through their routes. Those
+ * calls have no user session, so they send INTERNAL_API_KEY in an
+ * X-Internal-Key header and name the user they run for. Routes only accept
+ * them when they opt in with withAuth's `internal` option.
+ *
+ * Usage:
+ * ```typescript
+ * import { internalRequestHeaders } from '@/lib/utils/internal-auth';
+ *
+ * await fetch(`${baseUrl}/api/gmail/fetch-data`, {
+ *   method: 'POST',
+ *   headers: internalRequestHeaders({ 'Content-Type': 'application/json' }),
+ *   body: JSON.stringify({ email }),
+ * });
+ * ```
+ */
+
+export const INTERNAL_KEY_HEADER = 'X-Internal-Key';
+
+/**
+ * Headers for a call to another route of this app, with the internal key
+ * added when INTERNAL_API_KEY is configured
+ */
+export function internalRequestHeaders(headers: Record<string, string> = {}): Record<string, string> {
+  const key = process.env.INTERNAL_API_KEY;
+
+  if (!key) {
+    console.warn('[Internal Auth] INTERNAL_API_KEY not configured - internal request will be rejected');
+    return headers;
+  }
+
+  return { ...headers, [INTERNAL_KEY_HEADER]: key };
+}
+
+/**
+ * Whether a request carries the internal key. Always false when
+ * INTERNAL_API_KEY is not configured.
+ */
+export function isInternalRequest(request: Pick<Request, 'headers'>): boolean {
+  const key = process.env.INTERNAL_API_KEY;
+  const header = request.headers.get(INTERNAL_KEY_HEADER);
+  if (!key || !header) return false;
+
+  const expected = Buffer.from(key);
+  const received = Buffer.from(header);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
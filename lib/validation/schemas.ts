@@ -6,6 +6,7 @@
  */
 
 import { z } from 'zod';
+import { RULE_METRICS, type InsightRuleCondition } from '@/lib/services/custom-insight-rules/types';
 
 // ============================================================================
 // COMMON SCHEMAS
@@ -111,6 +112,427 @@ export const patchInsightSchema = z.object({
   { message: 'At least one of viewed, dismissed, or acted_on must be provided' }
 );
 
+// ============================================================================
+// CUSTOM INSIGHT RULE SCHEMAS
+// ============================================================================
+
+const ruleAggregateSchema = z.enum(['latest', 'avg', 'min', 'max', 'sum']);
+
+/** Deepest all/any nesting accepted in a rule condition */
+const MAX_RULE_DEPTH = 4;
+
+/**
+ * Single-metric rule condition
+ */
+export const metricConditionSchema = z.object({
+  metric: z.enum(RULE_METRICS),
+  aggregate: ruleAggregateSchema.optional(),
+  window_days: z.number().int().min(1).max(90).optional(),
+  op: z.enum(['lt', 'lte', 'gt', 'gte', 'eq']),
+  value: z.number().optional(),
+  baseline: z.object({
+    days: z.number().int().min(1).max(180),
+    aggregate: ruleAggregateSchema.optional(),
+    percent: z.number().min(-100).max(1000).optional(),
+  }).strict().optional(),
+  consecutive_days: z.number().int().min(1).max(30).optional(),
+}).strict().refine(
+  (data) => (data.value === undefined) !== (data.baseline === undefined),
+  { message: 'Provide exactly one of value or baseline' }
+);
+
+/**
+ * Rule condition: a metric condition or an all/any combination
+ */
+export const insightRuleConditionSchema: z.ZodType<InsightRuleCondition> = z.lazy(() =>
+  z.union([
+    metricConditionSchema,
+    z.object({ all: z.array(insightRuleConditionSchema).min(1).max(10) }).strict(),
+    z.object({ any: z.array(insightRuleConditionSchema).min(1).max(10) }).strict(),
+  ])
+);
+
+function conditionDepth(condition: InsightRuleCondition): number {
+  if ('all' in condition) return 1 + Math.max(...condition.all.map(conditionDepth));
+  if ('any' in condition) return 1 + Math.max(...condition.any.map(conditionDepth));
+  return 0;
+}
+
+const ruleConditionSchema = insightRuleConditionSchema.refine(
+  (condition) => conditionDepth(condition) <= MAX_RULE_DEPTH,
+  { message: `Conditions can nest at most ${MAX_RULE_DEPTH} levels deep` }
+);
+
+/**
+ * Create custom insight rule schema (POST /api/user/insights/rules)
+ */
+export const createInsightRuleSchema = z.object({
+  email: emailSchema,
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  condition: ruleConditionSchema,
+  severity: z.enum(['critical', 'high', 'medium', 'low']).default('medium'),
+  message: z.string().max(500).optional(),
+  enabled: z.boolean().optional(),
+  cooldown_hours: z.number().int().min(1).max(720).optional(),
+});
+
+/**
+ * Update custom insight rule schema (PATCH /api/user/insights/rules/:id)
+ */
+export const updateInsightRuleSchema = z.object({
+  email: emailSchema,
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  condition: ruleConditionSchema.optional(),
+  severity: z.enum(['critical', 'high', 'medium', 'low']).optional(),
+  message: z.string().max(500).nullable().optional(),
+  enabled: z.boolean().optional(),
+  cooldown_hours: z.number().int().min(1).max(720).optional(),
+}).refine(
+  (data) => Object.entries(data).some(([key, value]) => key !== 'email' && value !== undefined),
+  { message: 'At least one field to update must be provided' }
+);
+
+// ============================================================================
+// MEDICATION SCHEMAS
+// ============================================================================
+
+const scheduleTimeSchema = z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'Times must be HH:MM (24-hour)');
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+const medicationFields = {
+  generic_name: z.string().max(100).nullable().optional(),
+  dosage: z.string().max(50).nullable().optional(),
+  units_per_dose: z.number().positive().max(100).optional(),
+  unit_label: z.string().max(30).nullable().optional(),
+  frequency: z.string().max(50).nullable().optional(),
+  schedule_times: z.array(scheduleTimeSchema).max(12).optional(),
+  days_of_week: z.array(z.number().int().min(0).max(6)).min(1).max(7).nullable().optional(),
+  as_needed: z.boolean().optional(),
+  is_critical: z.boolean().optional(),
+  missed_after_minutes: z.number().int().min(15).max(720).optional(),
+  instructions: z.string().max(500).nullable().optional(),
+  supply_remaining: z.number().min(0).nullable().optional(),
+  refill_threshold_days: z.number().int().min(0).max(90).optional(),
+  start_date: isoDateSchema.nullable().optional(),
+  end_date: isoDateSchema.nullable().optional(),
+};
+
+/**
+ * Create medication schema (POST /api/user/medications)
+ */
+export const createMedicationSchema = z.object({
+  email: emailSchema,
+  name: z.string().min(1).max(100),
+  ...medicationFields,
+}).refine(
+  (data) => data.as_needed || (data.schedule_times?.length ?? 0) > 0,
+  { message: 'Scheduled medications need at least one schedule time' }
+);
+
+/**
+ * Update medication schema (PATCH /api/user/medications/:id)
+ */
+export const updateMedicationSchema = z.object({
+  email: emailSchema,
+  name: z.string().min(1).max(100).optional(),
+  ...medicationFields,
+  is_active: z.boolean().optional(),
+}).refine(
+  (data) => Object.entries(data).some(([key, value]) => key !== 'email' && value !== undefined),
+  { message: 'At least one field to update must be provided' }
+);
+
+/**
+ * List doses schema (GET /api/user/medications/doses)
+ */
+export const medicationDosesQuerySchema = z.object({
+  email: emailSchema,
+  medication_id: uuidSchema.optional(),
+  days: z.coerce.number().int().min(1).max(90).optional().default(7),
+});
+
+/**
+ * Log a dose schema (POST /api/user/medications/doses)
+ */
+export const logMedicationDoseSchema = z.object({
+  email: emailSchema,
+  medication_id: uuidSchema,
+  status: z.enum(['taken', 'skipped']).default('taken'),
+  taken_at: z.string().datetime().optional(),
+  notes: z.string().max(500).optional(),
+});
+
+/**
+ * Update a scheduled dose schema (PATCH /api/user/medications/doses/:id)
+ */
+export const updateMedicationDoseSchema = z.object({
+  email: emailSchema,
+  status: z.enum(['taken', 'skipped']),
+  source: z.enum(['push', 'app']).default('app'),
+  taken_at: z.string().datetime().optional(),
+  notes: z.string().max(500).optional(),
+});
+
+// ============================================================================
+// PROVIDER DIRECTORY SCHEMAS
+// ============================================================================
+
+/**
+ * Provider search schema (GET /api/user/providers)
+ */
+export const providerSearchQuerySchema = z.object({
+  specialty: z.string().max(100).optional(),
+  appointment_type: z.string().max(50).optional(),
+  insurance: z.string().max(100).optional(),
+  location: z.string().max(100).optional(),
+  available_within: z.coerce.number().int().min(1).max(90).optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(10),
+});
+
+/**
+ * Provider slots schema (GET /api/user/providers/:id/slots)
+ */
+export const providerSlotsQuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  days: z.coerce.number().int().min(1).max(60).optional().default(14),
+  appointment_type: z.string().max(50).optional(),
+});
+
+/**
+ * List appointments schema (GET /api/user/appointments)
+ */
+export const appointmentsQuerySchema = z.object({
+  email: emailSchema,
+  upcoming: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .optional()
+    .default(false),
+});
+
+/**
+ * Book appointment schema (POST /api/user/appointments)
+ */
+export const bookAppointmentSchema = z.object({
+  email: emailSchema,
+  provider_id: z.string().min(1).max(100),
+  slot_id: z.string().min(1).max(200).optional(),
+  preferred_date: z.string().datetime().optional(),
+  preferred_time: z.enum(['morning', 'afternoon', 'any']).optional().default('any'),
+  appointment_type: z.string().min(1).max(50),
+  reason: z.string().max(500).optional(),
+});
+
+/**
+ * Cancel appointment schema (DELETE /api/user/appointments/:id)
+ */
+export const cancelAppointmentSchema = z.object({
+  email: emailSchema,
+  reason: z.string().max(500).optional(),
+});
+
+// ============================================================================
+// SUPPLEMENT CATALOG SCHEMAS
+// ============================================================================
+
+/**
+ * Catalog search schema (GET /api/supplements/search)
+ */
+export const supplementSearchQuerySchema = z.object({
+  email: emailSchema,
+  query: z.string().max(100).optional(),
+  deficiency: z.string().max(100).optional(),
+  dosage_form: z.string().max(50).optional(),
+  max_price: z.coerce.number().positive().optional(),
+  max_per_day_price: z.coerce.number().positive().optional(),
+  sort: z.enum(['relevance', 'per_day_price', 'price_low', 'price_high']).optional().default('relevance'),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(10),
+});
+
+/**
+ * Supplement recommendations schema (GET /api/supplements/recommendations)
+ */
+export const supplementRecommendationsQuerySchema = z.object({
+  email: emailSchema,
+  budget: z.enum(['low', 'medium', 'high']).optional().default('medium'),
+  dosage_form: z.string().max(50).optional(),
+});
+
+// ============================================================================
+// REPLENISHMENT SCHEMAS
+// ============================================================================
+
+const replenishmentFields = {
+  quantity: z.number().int().min(1).max(12).optional(),
+  dosage: z.string().max(100).nullable().optional(),
+  cadence_days: z.number().int().min(7).max(365).optional(),
+  address_id: uuidSchema.nullable().optional(),
+  stripe_payment_method_id: z.string().max(100).nullable().optional(),
+};
+
+/**
+ * Create replenishment subscription schema (POST /api/user/replenishment)
+ */
+export const createReplenishmentSchema = z.object({
+  email: emailSchema,
+  product_id: uuidSchema,
+  ...replenishmentFields,
+  first_ship_date: isoDateSchema.optional(),
+});
+
+/**
+ * Update replenishment subscription schema (PATCH /api/user/replenishment/:id)
+ */
+export const updateReplenishmentSchema = z.object({
+  email: emailSchema,
+  ...replenishmentFields,
+  reset_cadence: z.boolean().optional(),
+}).refine(
+  (data) => Object.entries(data).some(([key, value]) => key !== 'email' && value !== undefined),
+  { message: 'At least one field to update must be provided' }
+);
+
+/**
+ * Replenishment action schema (POST /api/user/replenishment/:id/actions)
+ */
+export const replenishmentActionSchema = z.discriminatedUnion('action', [
+  z.object({ email: emailSchema, action: z.literal('skip') }),
+  z.object({ email: emailSchema, action: z.literal('pause'), until: isoDateSchema.nullable().optional() }),
+  z.object({ email: emailSchema, action: z.literal('resume') }),
+  z.object({
+    email: emailSchema,
+    action: z.literal('swap'),
+    product_id: uuidSchema,
+    dosage: z.string().max(100).nullable().optional(),
+  }),
+]);
+
+// ============================================================================
+// FORGE WORKOUT SESSION SCHEMAS
+// ============================================================================
+
+const dayOfWeekSchema = z.enum(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']);
+
+const loggedSetSchema = z.object({
+  reps: z.number().int().min(0).max(200),
+  loadKg: z.number().min(0).max(1000).nullable().default(null),
+  rpe: z.number().min(1).max(10).nullable().optional(),
+  rir: z.number().int().min(0).max(10).nullable().optional(),
+  completed: z.boolean().default(true),
+});
+
+const loggedExerciseSchema = z.object({
+  exerciseId: uuidSchema.nullable().default(null),
+  exerciseName: z.string().min(1).max(100),
+  skipped: z.boolean().default(false),
+  skipReason: z.string().max(200).nullable().optional(),
+  sets: z.array(loggedSetSchema).max(30).default([]),
+  notes: z.string().max(500).nullable().optional(),
+});
+
+const workoutSessionFields = {
+  focus: z.string().max(100).nullable().optional(),
+  status: z.enum(['in_progress', 'completed', 'abandoned']).optional(),
+  started_at: z.string().datetime({ offset: true }).optional(),
+  completed_at: z.string().datetime({ offset: true }).nullable().optional(),
+  duration_minutes: z.number().int().min(1).max(600).nullable().optional(),
+  session_rpe: z.number().min(1).max(10).nullable().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+  exercises: z.array(loggedExerciseSchema).max(40).optional(),
+};
+
+/**
+ * Log workout session schema (POST /api/forge/sessions)
+ */
+export const createWorkoutSessionSchema = z.object({
+  email: emailSchema,
+  plan_id: uuidSchema.nullable().optional(),
+  week_number: z.number().int().min(1).max(52).nullable().optional(),
+  day_of_week: dayOfWeekSchema.nullable().optional(),
+  ...workoutSessionFields,
+});
+
+/**
+ * Update workout session schema (PATCH /api/forge/sessions/:id)
+ */
+export const updateWorkoutSessionSchema = z.object({
+  email: emailSchema,
+  ...workoutSessionFields,
+}).refine(
+  (data) => Object.entries(data).some(([key, value]) => key !== 'email' && value !== undefined),
+  { message: 'At least one field to update must be provided' }
+);
+
+/**
+ * Workout session list schema (GET /api/forge/sessions)
+ */
+export const workoutSessionQuerySchema = z.object({
+  email: emailSchema,
+  plan_id: uuidSchema.optional(),
+  since: isoDateSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+});
+
+/**
+ * Performance summary schema (GET /api/forge/progress)
+ */
+export const workoutProgressQuerySchema = z.object({
+  email: emailSchema,
+  days: z.coerce.number().int().min(7).max(365).optional().default(56),
+  exercise: z.string().max(100).optional(),
+});
+
+/**
+ * Next session schema (GET /api/forge/next-session)
+ */
+export const nextSessionQuerySchema = z.object({
+  email: emailSchema,
+  day: dayOfWeekSchema.optional(),
+  recovery_score: z.coerce.number().min(0).max(100).optional(),
+});
+
+const injuryAreaSchema = z.enum(['shoulder', 'elbow', 'wrist', 'lower_back', 'hip', 'knee', 'ankle', 'neck']);
+
+// Comma-separated query list, e.g. "dumbbells,bench"
+const csvListSchema = z.string().max(500).transform((value) =>
+  value.split(',').map((item) => item.trim()).filter(Boolean)
+);
+
+/**
+ * Exercise substitutes schema (GET /api/forge/substitutions)
+ */
+export const substitutionQuerySchema = z.object({
+  email: emailSchema,
+  exercise: z.string().min(1).max(100),
+  day: dayOfWeekSchema.optional(),
+  equipment: csvListSchema.optional(),
+  injuries: csvListSchema.pipe(z.array(injuryAreaSchema)).optional(),
+  limit: z.coerce.number().int().min(1).max(20).optional().default(5),
+});
+
+/**
+ * Exercise substitution schema (POST /api/forge/substitutions)
+ */
+export const substituteExerciseSchema = z.object({
+  email: emailSchema,
+  exercise: z.string().min(1).max(100).optional(),
+  replacement: z.string().min(1).max(100).optional(),
+  day: dayOfWeekSchema.optional(),
+  equipment: z.array(z.string().min(1).max(50)).max(30).optional(),
+  injuries: z.array(injuryAreaSchema).max(8).optional(),
+  time_limit_minutes: z.number().int().min(10).max(240).optional(),
+  scope: z.enum(['once', 'rest_of_plan']).optional(),
+}).refine(
+  (data) => !data.replacement || data.exercise,
+  { message: 'A replacement needs the exercise it replaces', path: ['replacement'] }
+).refine(
+  (data) => data.exercise || data.equipment || data.injuries || data.time_limit_minutes,
+  { message: 'Give an exercise to swap, or equipment, injuries or a time limit to adapt the day to' }
+);
+
 // ============================================================================
 // INTERVENTION SCHEMAS
 // ============================================================================
@@ -213,6 +635,120 @@ export const syncStatusQuerySchema = z.object({
   action: z.enum(['status', 'recommendations']).optional().default('status'),
 });
 
+// ============================================================================
+// NOTIFICATION PREFERENCE SCHEMAS
+// ============================================================================
+
+const quietHourSchema = z.number().int().min(0).max(23);
+
+/**
+ * IANA timezone name, e.g. "Europe/London"
+ */
+export const timezoneSchema = z.string().refine(
+  (timeZone) => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Invalid IANA timezone' }
+);
+
+/**
+ * Update delivery window preferences (PATCH /api/user/notification-preferences)
+ */
+export const updateDeliveryPreferencesSchema = z.object({
+  email: emailSchema,
+  timezone: timezoneSchema.nullable().optional(),
+  quiet_hours_start: quietHourSchema.optional(),
+  quiet_hours_end: quietHourSchema.optional(),
+  weekend_quiet_hours_start: quietHourSchema.nullable().optional(),
+  weekend_quiet_hours_end: quietHourSchema.nullable().optional(),
+  sleep_aware_quiet_hours: z.boolean().optional(),
+  digest_mode: z.enum(['off', 'overflow', 'batch_low']).optional(),
+  digest_channel: z.enum(['push', 'email']).optional(),
+  digest_hour: quietHourSchema.optional(),
+}).refine(
+  (data) => Object.entries(data).some(([key, value]) => key !== 'email' && value !== undefined),
+  { message: 'At least one field to update must be provided' }
+);
+
+/**
+ * Notification inbox query schema (GET /api/user/notifications)
+ */
+export const inboxQuerySchema = z.object({
+  email: emailSchema,
+  // Status can be comma-separated (e.g., "batched,digested")
+  status: z.string().max(100).optional(),
+  unread_only: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .optional()
+    .default(false),
+  page: z.coerce.number().int().min(1).optional().default(1),
+  pageSize: z.coerce.number().int().min(1).max(50).optional().default(20),
+});
+
+/**
+ * Mark inbox notifications read (PATCH /api/user/notifications)
+ */
+export const markInboxReadSchema = z.object({
+  email: emailSchema,
+  // Omit to mark everything read
+  ids: z.array(uuidSchema).min(1).max(100).optional(),
+});
+
+// ============================================================================
+// SHARE ESCALATION POLICY SCHEMAS
+// ============================================================================
+
+const alertSeveritySchema = z.enum(['critical', 'high', 'medium', 'low', 'info']);
+const escalationMinutesSchema = z.number().int().min(1).max(1440);
+const severityTimersSchema = z.object({
+  critical: escalationMinutesSchema.optional(),
+  high: escalationMinutesSchema.optional(),
+  medium: escalationMinutesSchema.optional(),
+  low: escalationMinutesSchema.optional(),
+  info: escalationMinutesSchema.optional(),
+}).strict();
+
+const onCallWindowSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)).min(1).max(7),
+  start_hour: z.number().int().min(0).max(23).optional(),
+  end_hour: z.number().int().min(1).max(24).optional(),
+}).strict();
+
+/**
+ * Escalation policy (PUT /api/share/escalation-policy)
+ */
+export const escalationPolicySchema = z.object({
+  enabled: z.boolean().default(true),
+  timezone: timezoneSchema.nullable().optional(),
+  timers: severityTimersSchema.default({}),
+  steps: z.array(z.object({
+    name: z.string().max(50).optional(),
+    targets: z.array(z.object({
+      relationship_id: uuidSchema,
+      on_call: z.array(onCallWindowSchema).max(14).optional(),
+    }).strict()).min(1).max(10),
+    channels: z.array(z.enum(['push', 'sms', 'voice', 'email'])).min(1).max(4).optional(),
+    delay_minutes: severityTimersSchema.optional(),
+  }).strict()).min(1).max(10),
+  emergency_step: z.boolean().default(false),
+});
+
+/**
+ * Escalation simulation (POST /api/share/escalation-policy/simulate)
+ */
+export const simulateEscalationSchema = z.object({
+  severity: alertSeveritySchema,
+  at: z.string().datetime().optional(),
+  policy: escalationPolicySchema.optional(),
+});
+
 // ============================================================================
 // DEVICE TOKEN SCHEMAS
 // ============================================================================
@@ -27,6 +27,7 @@ const config = {
   supabaseKey: process.env.SUPABASE_SERVICE_ROLE_KEY || '',
   userEmail: process.env.MCP_USER_EMAIL || '', // Set by client
   baseUrl: process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000',
+  internalApiKey: process.env.INTERNAL_API_KEY || '',
 };
 
 // Create MCP server
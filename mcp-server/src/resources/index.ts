@@ -14,6 +14,7 @@ export interface ServerConfig {
   supabaseKey: string;
   userEmail: string;
   baseUrl: string;
+  internalApiKey: string;
 }
 
 type ResourceHandler = (config: ServerConfig) => Promise<any>;
@@ -60,6 +61,12 @@ export const resourceDefinitions: Resource[] = [
     description: 'Identified nutrient deficiencies from blood work with severity levels and recommended actions.',
     mimeType: 'application/json',
   },
+  {
+    uri: 'health://blood/history',
+    name: 'Blood Biomarker History',
+    description: 'Biomarker values across all lab panels in canonical units, with per-biomarker trends and changes since the previous panel (e.g. "LDL down 18% since March").',
+    mimeType: 'application/json',
+  },
 
   // =========================================================================
   // OURA RING
@@ -374,6 +381,11 @@ const getSupabase = (config: ServerConfig) => {
   return createClient(config.supabaseUrl, config.supabaseKey);
 };
 
+// The app's routes only accept server calls made for a user with the internal key
+const apiHeaders = (config: ServerConfig, headers: Record<string, string> = {}) => {
+  return { ...headers, 'X-Internal-Key': config.internalApiKey };
+};
+
 // Unified Context - calls the existing aggregate-context API
 async function getUnifiedContext(config: ServerConfig): Promise<any> {
   if (!config.userEmail) {
@@ -384,7 +396,7 @@ async function getUnifiedContext(config: ServerConfig): Promise<any> {
     // Call the existing aggregate-context API
     const response = await fetch(`${config.baseUrl}/api/aggregate-context`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: apiHeaders(config, { 'Content-Type': 'application/json' }),
       body: JSON.stringify({
         email: config.userEmail,
         contextType: 'unified',
@@ -489,6 +501,54 @@ async function getDeficiencies(config: ServerConfig): Promise<any> {
   };
 }
 
+// Blood Biomarker History - calls the blood history API for trends
+async function getBloodHistory(config: ServerConfig): Promise<any> {
+  if (!config.userEmail) {
+    return { error: 'User email not configured' };
+  }
+
+  try {
+    const response = await fetch(
+      `${config.baseUrl}/api/health/blood/history?email=${encodeURIComponent(config.userEmail)}`,
+      { headers: apiHeaders(config) }
+    );
+
+    if (!response.ok) {
+      throw new Error(`API returned ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    return {
+      available: data.panelCount > 0,
+      panelCount: data.panelCount,
+      panels: data.panels,
+      changes: data.changes,
+      trends: data.trends,
+    };
+  } catch {
+    // Fallback to raw readings without trend computation
+    const supabase = getSupabase(config);
+
+    const { data } = await supabase
+      .from('blood_biomarker_history')
+      .select('panel_id, panel_date, name, value, unit, canonical_value, canonical_unit, status')
+      .eq('email', config.userEmail)
+      .order('panel_date', { ascending: false })
+      .limit(500);
+
+    if (!data || data.length === 0) {
+      return { available: false, message: 'No blood test history found' };
+    }
+
+    return {
+      available: true,
+      panelCount: new Set(data.map(r => r.panel_id)).size,
+      readings: data,
+    };
+  }
+}
+
 // Oura Sleep Data
 async function getOuraSleep(config: ServerConfig): Promise<any> {
   if (!config.userEmail) {
@@ -1669,6 +1729,7 @@ export const resourceHandlers: Record<string, ResourceHandler> = {
   // Blood
   'health://blood/biomarkers': getBloodBiomarkers,
   'health://blood/deficiencies': getDeficiencies,
+  'health://blood/history': getBloodHistory,
 
   // Oura
   'health://oura/sleep': getOuraSleep,
@@ -14,6 +14,7 @@ export interface ServerConfig {
   supabaseKey: string;
   userEmail: string;
   baseUrl: string;
+  internalApiKey: string;
 }
 
 type ToolHandler = (args: Record<string, any>, config: ServerConfig) => Promise<any>;
@@ -98,13 +99,14 @@ export const toolDefinitions: Tool[] = [
   // Supplement Tools
   {
     name: 'supplements_search',
-    description: 'Search for supplements based on deficiencies or health goals. LOW RISK: Auto-approved.',
+    description: 'Search the supplement catalog by deficiency, ranked by the user\'s biomarker needs, dosage form and per-day price. LOW RISK: Auto-approved.',
     inputSchema: {
       type: 'object',
       properties: {
         deficiency: { type: 'string', description: 'Nutrient deficiency to address' },
-        category: { type: 'string', description: 'Supplement category' },
+        dosageForm: { type: 'string', description: 'Preferred dosage form (capsule, softgel, liquid, powder)' },
         maxPrice: { type: 'number', description: 'Maximum price filter' },
+        maxPerDayPrice: { type: 'number', description: 'Maximum price per day of use' },
       },
     },
   },
@@ -117,8 +119,9 @@ export const toolDefinitions: Tool[] = [
         budget: {
           type: 'string',
           enum: ['low', 'medium', 'high'],
-          description: 'Budget preference',
+          description: 'Budget preference (per-day cost)',
         },
+        dosageForm: { type: 'string', description: 'Preferred dosage form' },
       },
     },
   },
@@ -126,17 +129,18 @@ export const toolDefinitions: Tool[] = [
   // Shopping Tools
   {
     name: 'shopping_search',
-    description: 'Search for health products. LOW RISK: Auto-approved.',
+    description: 'Search the supplement product catalog (in-stock products only). LOW RISK: Auto-approved.',
     inputSchema: {
       type: 'object',
       properties: {
         query: { type: 'string', description: 'Search query' },
-        category: {
+        dosageForm: { type: 'string', description: 'Preferred dosage form' },
+        maxPrice: { type: 'number', description: 'Maximum price' },
+        sortBy: {
           type: 'string',
-          enum: ['supplements', 'devices', 'fitness', 'wellness'],
-          description: 'Product category',
+          enum: ['relevance', 'per_day_price', 'price_low', 'price_high'],
+          description: 'Sort order',
         },
-        maxPrice: { type: 'number', description: 'Maximum price' },
       },
       required: ['query'],
     },
@@ -147,12 +151,10 @@ export const toolDefinitions: Tool[] = [
     inputSchema: {
       type: 'object',
       properties: {
-        productId: { type: 'string', description: 'Product ID' },
-        productName: { type: 'string', description: 'Product name' },
-        price: { type: 'number', description: 'Price' },
+        productId: { type: 'string', description: 'Catalog product ID from shopping_search or supplements_search' },
         quantity: { type: 'number', description: 'Quantity (default 1)' },
       },
-      required: ['productId', 'productName', 'price'],
+      required: ['productId'],
     },
   },
   {
@@ -230,13 +232,15 @@ export const toolDefinitions: Tool[] = [
   // Health Booking Tools
   {
     name: 'booking_find_providers',
-    description: 'Find healthcare providers by specialty, location, or insurance. LOW RISK: Auto-approved.',
+    description: 'Find healthcare providers by specialty, location, or insurance, with their next opening. LOW RISK: Auto-approved.',
     inputSchema: {
       type: 'object',
       properties: {
         specialty: { type: 'string', description: 'Medical specialty' },
-        location: { type: 'string', description: 'City or area' },
+        location: { type: 'string', description: 'City and state (e.g. "San Francisco, CA") or ZIP code' },
         insurance: { type: 'string', description: 'Insurance provider' },
+        appointmentType: { type: 'string', description: 'Type of appointment' },
+        availableWithin: { type: 'number', description: 'Only providers with an opening within this many days' },
       },
     },
   },
@@ -253,21 +257,26 @@ export const toolDefinitions: Tool[] = [
   },
   {
     name: 'booking_schedule',
-    description: 'Book a healthcare appointment. HIGH RISK: Requires explicit user approval.',
+    description: 'Book a healthcare appointment, add it to the user\'s calendar and schedule reminders. HIGH RISK: Requires explicit user approval.',
     inputSchema: {
       type: 'object',
       properties: {
-        providerId: { type: 'string', description: 'Provider ID' },
+        providerId: { type: 'string', description: 'Provider ID from booking_find_providers' },
         providerName: { type: 'string', description: 'Provider name' },
         appointmentType: { type: 'string', description: 'Type of appointment' },
-        preferredDate: { type: 'string', description: 'Preferred date' },
+        preferredDate: { type: 'string', description: 'Earliest date to book, in ISO 8601 format' },
+        preferredTime: {
+          type: 'string',
+          enum: ['morning', 'afternoon', 'any'],
+          description: 'Preferred time of day',
+        },
         reason: { type: 'string', description: 'Reason for visit' },
         confirmBooking: {
           type: 'boolean',
           description: 'Must be true to confirm booking',
         },
       },
-      required: ['providerId', 'providerName', 'appointmentType', 'confirmBooking'],
+      required: ['providerId', 'appointmentType', 'confirmBooking'],
     },
   },
 ];
@@ -280,6 +289,11 @@ const getSupabase = (config: ServerConfig) => {
   return createClient(config.supabaseUrl, config.supabaseKey);
 };
 
+// The app's routes only accept server calls made for a user with the internal key
+const apiHeaders = (config: ServerConfig, headers: Record<string, string> = {}) => {
+  return { ...headers, 'X-Internal-Key': config.internalApiKey };
+};
+
 // Helper to get OAuth tokens
 async function getOAuthToken(config: ServerConfig, provider: string): Promise<string | null> {
   const supabase = getSupabase(config);
@@ -502,120 +516,115 @@ async function spotifyAddTracks(args: Record<string, any>, config: ServerConfig)
 
 // Supplements: Search
 async function supplementsSearch(args: Record<string, any>, config: ServerConfig) {
-  const { deficiency, category, maxPrice } = args;
+  const { deficiency, dosageForm, maxPrice, maxPerDayPrice } = args;
 
-  // Use the existing tools from the LangGraph agent
-  const response = await fetch(`${config.baseUrl}/api/agent/tools/supplements/search`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ deficiency, category, maxPrice }),
-  }).catch(() => null);
+  try {
+    const params = new URLSearchParams({ email: config.userEmail });
+    if (deficiency) params.set('deficiency', deficiency);
+    if (dosageForm) params.set('dosage_form', dosageForm);
+    if (maxPrice) params.set('max_price', String(maxPrice));
+    if (maxPerDayPrice) params.set('max_per_day_price', String(maxPerDayPrice));
+
+    const response = await fetch(`${config.baseUrl}/api/supplements/search?${params.toString()}`, {
+      headers: apiHeaders(config),
+    });
+    const data = await response.json();
 
-  if (response?.ok) {
-    return await response.json();
-  }
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to search supplements' };
+    }
 
-  // Fallback to local data
-  const supplements = [
-    { id: 'vitd3', name: 'Thorne Vitamin D3', category: 'vitamin_d', price: 24.99, rating: 4.8 },
-    { id: 'b12', name: 'Jarrow B12', category: 'vitamin_b12', price: 12.99, rating: 4.6 },
-    { id: 'iron', name: 'Thorne Iron', category: 'iron', price: 21.00, rating: 4.5 },
-    { id: 'mag', name: 'Pure Encapsulations Mag', category: 'magnesium', price: 32.50, rating: 4.8 },
-  ];
-
-  let results = supplements;
-  if (deficiency) {
-    results = results.filter(s => s.category.includes(deficiency.toLowerCase()));
-  }
-  if (maxPrice) {
-    results = results.filter(s => s.price <= maxPrice);
+    return { success: true, supplements: data.products };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
-
-  return { success: true, supplements: results };
 }
 
 // Supplements: Recommend
 async function supplementsRecommend(args: Record<string, any>, config: ServerConfig) {
-  const { budget = 'medium' } = args;
+  const { budget = 'medium', dosageForm } = args;
 
-  // Get deficiencies from blood work
-  const supabase = getSupabase(config);
-  const { data: bloodData } = await supabase
-    .from('blood_analysis_results')
-    .select('analysis')
-    .eq('user_email', config.userEmail)
-    .order('created_at', { ascending: false })
-    .limit(1)
-    .maybeSingle();
+  try {
+    const params = new URLSearchParams({ email: config.userEmail, budget });
+    if (dosageForm) params.set('dosage_form', dosageForm);
 
-  const deficiencies = (bloodData?.analysis?.biomarkers || [])
-    .filter((b: any) => b.status === 'low' || b.status === 'deficient')
-    .map((b: any) => b.name);
-
-  const recommendations = [];
-  for (const def of deficiencies.slice(0, 5)) {
-    const searchResult = await supplementsSearch({ deficiency: def, maxPrice: budget === 'low' ? 25 : budget === 'high' ? 100 : 50 }, config);
-    if (searchResult.supplements?.length > 0) {
-      recommendations.push({
-        forDeficiency: def,
-        recommended: searchResult.supplements[0],
-      });
+    const response = await fetch(`${config.baseUrl}/api/supplements/recommendations?${params.toString()}`, {
+      headers: apiHeaders(config),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to get recommendations' };
     }
-  }
 
-  return { success: true, recommendations, deficiencyCount: deficiencies.length };
+    return {
+      success: true,
+      recommendations: data.recommendations,
+      deficiencyCount: data.deficiencyCount,
+      estimatedMonthlyCost: data.estimatedMonthlyCost,
+    };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
 }
 
 // Shopping: Search
 async function shoppingSearch(args: Record<string, any>, config: ServerConfig) {
-  const { query, category, maxPrice } = args;
-
-  // Mock search results
-  const products = [
-    { id: 'prod1', name: 'Thorne Vitamin D3', category: 'supplements', price: 24.99, rating: 4.8 },
-    { id: 'prod2', name: 'Oura Ring Gen 3', category: 'devices', price: 299.00, rating: 4.7 },
-    { id: 'prod3', name: 'Manduka Yoga Mat', category: 'fitness', price: 120.00, rating: 4.9 },
-  ];
-
-  let results = products.filter(p =>
-    p.name.toLowerCase().includes(query.toLowerCase()) ||
-    p.category === category
-  );
+  const { query, dosageForm, maxPrice, sortBy } = args;
 
-  if (maxPrice) {
-    results = results.filter(p => p.price <= maxPrice);
-  }
+  try {
+    const params = new URLSearchParams({ email: config.userEmail, query });
+    if (dosageForm) params.set('dosage_form', dosageForm);
+    if (maxPrice) params.set('max_price', String(maxPrice));
+    if (sortBy) params.set('sort', sortBy);
+
+    const response = await fetch(`${config.baseUrl}/api/supplements/search?${params.toString()}`, {
+      headers: apiHeaders(config),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to search products' };
+    }
 
-  return { success: true, products: results };
+    return { success: true, products: data.products };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
 }
 
 // Shopping: Add to Cart
 async function shoppingAddToCart(args: Record<string, any>, config: ServerConfig) {
-  const { productId, productName, price, quantity = 1 } = args;
-
-  const supabase = getSupabase(config);
-
-  // Get or create cart
-  const { data: cartData } = await supabase
-    .from('user_shopping_cart')
-    .select('cart_items')
-    .eq('user_email', config.userEmail)
-    .maybeSingle();
+  const { productId, quantity = 1 } = args;
 
-  const cart = cartData?.cart_items || [];
-  cart.push({ productId, productName, price, quantity, addedAt: new Date().toISOString() });
+  try {
+    // Same cart the web checkout uses; checks stock before adding
+    const response = await fetch(`${config.baseUrl}/api/cart/add`, {
+      method: 'POST',
+      headers: apiHeaders(config, { 'Content-Type': 'application/json' }),
+      body: JSON.stringify({
+        email: config.userEmail,
+        productId,
+        quantity,
+        recommendationContext: { source: 'mcp' },
+      }),
+    });
+    const data = await response.json();
 
-  await supabase.from('user_shopping_cart').upsert({
-    user_email: config.userEmail,
-    cart_items: cart,
-    updated_at: new Date().toISOString(),
-  });
+    if (!response.ok || !data.success) {
+      return { success: false, error: data.error || 'Failed to add to cart' };
+    }
 
-  return {
-    success: true,
-    added: { productName, price, quantity },
-    cartTotal: cart.reduce((sum: number, item: any) => sum + item.price * item.quantity, 0),
-  };
+    const added = data.cart.items.find((item: any) => item.productId === productId);
+    return {
+      success: true,
+      added: added ? { productName: added.name, price: added.unitPrice, quantity } : { productId, quantity },
+      cartTotal: data.cart.subtotal,
+      safetyWarnings: data.warnings || [],
+    };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
 }
 
 // Shopping: Purchase
@@ -626,57 +635,71 @@ async function shoppingPurchase(args: Record<string, any>, config: ServerConfig)
     return { success: false, error: 'Purchase not confirmed' };
   }
 
-  const supabase = getSupabase(config);
-
-  const { data: cartData } = await supabase
-    .from('user_shopping_cart')
-    .select('cart_items')
-    .eq('user_email', config.userEmail)
-    .maybeSingle();
+  const validateResponse = await fetch(
+    `${config.baseUrl}/api/cart/validate?email=${encodeURIComponent(config.userEmail)}`,
+    { headers: apiHeaders(config) }
+  );
+  const { valid, issues, cart } = await validateResponse.json();
 
-  const cart = cartData?.cart_items || [];
-  if (cart.length === 0) {
+  if (!cart || cart.items.length === 0) {
     return { success: false, error: 'Cart is empty' };
   }
+  if (!valid) {
+    return { success: false, error: 'Cart needs attention before purchase', issues };
+  }
 
-  const total = cart.reduce((sum: number, item: any) => sum + item.price * item.quantity, 0);
+  const supabase = getSupabase(config);
+  const items = cart.items.map((item: any) => ({
+    productId: item.productId,
+    name: item.name,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+  }));
 
   // Create order
   const orderId = `order_${Date.now()}`;
   await supabase.from('user_orders').insert({
     id: orderId,
     user_email: config.userEmail,
-    items: cart,
-    total,
+    items,
+    total: cart.subtotal,
     status: 'pending',
   });
 
   // Clear cart
-  await supabase.from('user_shopping_cart').delete().eq('user_email', config.userEmail);
+  await fetch(`${config.baseUrl}/api/cart/clear?email=${encodeURIComponent(config.userEmail)}`, {
+    method: 'DELETE',
+    headers: apiHeaders(config),
+  });
 
-  return { success: true, orderId, total, itemCount: cart.length };
+  return { success: true, orderId, total: cart.subtotal, itemCount: items.length };
 }
 
 // Booking: Find Providers
 async function bookingFindProviders(args: Record<string, any>, config: ServerConfig) {
-  const { specialty, location, insurance } = args;
-
-  // Mock providers
-  const providers = [
-    { id: 'prov1', name: 'Dr. Sarah Smith', specialty: 'Primary Care', location: 'San Francisco', insurance: ['Aetna', 'Blue Cross'], rating: 4.8 },
-    { id: 'prov2', name: 'Dr. Michael Jones', specialty: 'Endocrinology', location: 'San Francisco', insurance: ['Blue Cross', 'Kaiser'], rating: 4.9 },
-    { id: 'prov3', name: 'Quest Diagnostics', specialty: 'Laboratory', location: 'Multiple', insurance: ['All Major'], rating: 4.3 },
-  ];
-
-  let results = providers;
-  if (specialty) {
-    results = results.filter(p => p.specialty.toLowerCase().includes(specialty.toLowerCase()));
-  }
-  if (location) {
-    results = results.filter(p => p.location.toLowerCase().includes(location.toLowerCase()));
-  }
+  const { specialty, location, insurance, appointmentType, availableWithin } = args;
+
+  try {
+    const params = new URLSearchParams({ email: config.userEmail });
+    if (specialty) params.set('specialty', specialty);
+    if (location) params.set('location', location);
+    if (insurance) params.set('insurance', insurance);
+    if (appointmentType) params.set('appointment_type', appointmentType);
+    if (availableWithin) params.set('available_within', String(availableWithin));
+
+    const response = await fetch(`${config.baseUrl}/api/user/providers?${params.toString()}`, {
+      headers: apiHeaders(config),
+    });
+    const data = await response.json();
 
-  return { success: true, providers: results };
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to find providers' };
+    }
+
+    return { success: true, providers: data.providers };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
 }
 
 // Booking: Check Insurance
@@ -694,33 +717,45 @@ async function bookingCheckInsurance(args: Record<string, any>, config: ServerCo
 
 // Booking: Schedule
 async function bookingSchedule(args: Record<string, any>, config: ServerConfig) {
-  const { providerId, providerName, appointmentType, preferredDate, reason, confirmBooking } = args;
+  const { providerId, appointmentType, preferredDate, preferredTime, reason, confirmBooking } = args;
 
   if (!confirmBooking) {
     return { success: false, error: 'Booking not confirmed' };
   }
 
-  const supabase = getSupabase(config);
-  const appointmentId = `appt_${Date.now()}`;
+  try {
+    const response = await fetch(`${config.baseUrl}/api/user/appointments`, {
+      method: 'POST',
+      headers: apiHeaders(config, { 'Content-Type': 'application/json' }),
+      body: JSON.stringify({
+        email: config.userEmail,
+        provider_id: providerId,
+        appointment_type: appointmentType,
+        preferred_date: preferredDate ? new Date(preferredDate).toISOString() : undefined,
+        preferred_time: preferredTime,
+        reason,
+      }),
+    });
 
-  await supabase.from('user_appointments').insert({
-    id: appointmentId,
-    user_email: config.userEmail,
-    provider_id: providerId,
-    provider_name: providerName,
-    appointment_type: appointmentType,
-    scheduled_at: preferredDate || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-    reason,
-    status: 'confirmed',
-  });
+    const data = await response.json();
 
-  return {
-    success: true,
-    appointmentId,
-    provider: providerName,
-    type: appointmentType,
-    status: 'confirmed',
-  };
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to book appointment' };
+    }
+
+    return {
+      success: true,
+      appointmentId: data.appointment.id,
+      provider: data.provider.name,
+      type: appointmentType,
+      scheduledAt: data.appointment.scheduled_at,
+      location: data.appointment.location,
+      status: data.appointment.status,
+      calendarSynced: data.calendar_synced,
+    };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
 }
 
 // =============================================================================
@@ -756,7 +791,7 @@ async function emailLearnStyle(args: Record<string, any>, config: ServerConfig)
   try {
     const response = await fetch(`${config.baseUrl}/api/gmail/learn-style`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: apiHeaders(config, { 'Content-Type': 'application/json' }),
       body: JSON.stringify({
         email: config.userEmail,
         forceRelearn: args.forceRelearn || false,
@@ -858,7 +893,7 @@ async function emailSetupWatch(args: Record<string, any>, config: ServerConfig)
   try {
     const response = await fetch(`${config.baseUrl}/api/gmail/setup-watch`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: apiHeaders(config, { 'Content-Type': 'application/json' }),
       body: JSON.stringify({
         email: config.userEmail,
         labelIds: args.labelIds || ['INBOX'],
@@ -5,7 +5,7 @@ import { updateSession } from '@/lib/supabase/middleware';
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With, X-Impersonation-Reason',
   'Access-Control-Max-Age': '86400',
 };
 
@@ -0,0 +1,16 @@
+-- Migration: Garmin and Google Fit support for unified_health_data
+-- Garmin was already an allowed provider; this adds Google Fit and a column
+-- for Garmin's Body Battery energy score.
+
+-- Add Body Battery (Garmin)
+ALTER TABLE unified_health_data
+ADD COLUMN IF NOT EXISTS body_battery INTEGER;
+
+-- Update provider constraint to include Google Fit
+ALTER TABLE unified_health_data DROP CONSTRAINT IF EXISTS chk_provider;
+ALTER TABLE unified_health_data
+ADD CONSTRAINT chk_provider CHECK (
+  provider IN ('oura', 'whoop', 'gmail', 'slack', 'dexcom', 'apple_health', 'strava', 'fitbit', 'garmin', 'google_fit', 'teams', 'outlook', 'spotify', 'notion', 'linear')
+);
+
+COMMENT ON COLUMN unified_health_data.body_battery IS 'Peak Body Battery for the day 0-100 (Garmin)';
@@ -0,0 +1,74 @@
+-- Migration: Health Data Backfill Jobs
+-- Tracks resumable historical backfill / replay of provider data into unified_health_data
+
+-- =============================================================================
+-- HEALTH BACKFILL JOBS TABLE
+-- =============================================================================
+-- One row per backfill or replay run for a user + provider.
+-- Jobs walk backwards from range_end to range_start in fixed-size chunks and
+-- checkpoint cursor_date after every chunk so they can resume after a timeout,
+-- a crash, or an open circuit breaker.
+
+CREATE TABLE IF NOT EXISTS health_backfill_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_email TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  mode TEXT NOT NULL DEFAULT 'backfill',
+  status TEXT NOT NULL DEFAULT 'pending',
+
+  -- Requested range and checkpoint
+  range_start DATE NOT NULL,
+  range_end DATE NOT NULL,
+  cursor_date DATE NOT NULL, -- Everything on/after this date has been processed
+  chunk_days INTEGER NOT NULL DEFAULT 30,
+
+  -- Progress
+  chunks_completed INTEGER NOT NULL DEFAULT 0,
+  records_written INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Lifecycle
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  rollups_recomputed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE health_backfill_jobs ADD CONSTRAINT health_backfill_jobs_provider_check
+  CHECK (provider IN ('oura', 'whoop', 'fitbit', 'strava', 'dexcom'));
+
+ALTER TABLE health_backfill_jobs ADD CONSTRAINT health_backfill_jobs_mode_check
+  CHECK (mode IN ('backfill', 'replay'));
+
+ALTER TABLE health_backfill_jobs ADD CONSTRAINT health_backfill_jobs_status_check
+  CHECK (status IN ('pending', 'running', 'finalizing', 'completed', 'failed', 'cancelled'));
+
+-- Only one active job per user + provider
+CREATE UNIQUE INDEX IF NOT EXISTS idx_health_backfill_jobs_active
+  ON health_backfill_jobs(user_email, provider)
+  WHERE status IN ('pending', 'running', 'finalizing');
+
+-- Indexes for common queries
+CREATE INDEX idx_health_backfill_jobs_user ON health_backfill_jobs(user_email);
+CREATE INDEX idx_health_backfill_jobs_runnable ON health_backfill_jobs(next_attempt_at)
+  WHERE status IN ('pending', 'running', 'finalizing');
+
+-- =============================================================================
+-- ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE health_backfill_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own backfill jobs"
+  ON health_backfill_jobs FOR SELECT
+  USING (auth.jwt() ->> 'email' = user_email);
+
+CREATE POLICY "Service role full access to backfill jobs"
+  ON health_backfill_jobs FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE health_backfill_jobs IS 'Resumable historical backfill and replay jobs for unified_health_data';
+COMMENT ON COLUMN health_backfill_jobs.cursor_date IS 'Checkpoint: [cursor_date, range_end] has been written; the next chunk ends the day before';
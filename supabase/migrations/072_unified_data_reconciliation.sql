@@ -0,0 +1,419 @@
+-- Migration: Multi-source reconciliation for unified_health_daily
+-- When several wearables report the same metric for a day, the rollup now picks
+-- one source per metric group using the user's provider preference (falling back
+-- to a default priority), skips readings flagged as outliers, and records which
+-- provider produced each daily field and why.
+
+-- =============================================================================
+-- OUTLIER FLAGS ON RAW RECORDS
+-- =============================================================================
+-- Set at write time by the unified data writer (lib/services/unified-data/quality.ts)
+
+ALTER TABLE unified_health_data
+ADD COLUMN IF NOT EXISTS is_outlier BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS outlier_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_unified_outliers
+  ON unified_health_data(email, recorded_at DESC) WHERE is_outlier;
+
+COMMENT ON COLUMN unified_health_data.is_outlier IS 'Reading is implausible or far outside the user''s history; deprioritized in daily rollups';
+COMMENT ON COLUMN unified_health_data.outlier_reason IS 'Why the reading was flagged (e.g. "resting_hr 212 outside 25-150")';
+
+-- =============================================================================
+-- USER SOURCE PREFERENCES
+-- =============================================================================
+-- One row per user + metric group. provider_order lists providers most-preferred
+-- first; providers not listed fall back to the default priority.
+
+CREATE TABLE IF NOT EXISTS user_metric_source_preferences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  metric TEXT NOT NULL,
+  provider_order TEXT[] NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT user_metric_source_preferences_unique UNIQUE(email, metric)
+);
+
+ALTER TABLE user_metric_source_preferences
+ADD CONSTRAINT chk_source_preference_metric CHECK (
+  metric IN ('sleep', 'recovery', 'activity', 'glucose', 'behavioral')
+);
+
+ALTER TABLE user_metric_source_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY user_metric_source_preferences_select ON user_metric_source_preferences
+  FOR SELECT USING (auth.email() = email);
+
+CREATE POLICY user_metric_source_preferences_service ON user_metric_source_preferences
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- =============================================================================
+-- PROVENANCE ON DAILY ROLLUP
+-- =============================================================================
+-- { "<daily field>": { "provider": "oura", "reason": "user_preference" }, ... }
+
+ALTER TABLE unified_health_daily
+ADD COLUMN IF NOT EXISTS field_provenance JSONB DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN unified_health_daily.field_provenance IS 'Provider and selection reason for each populated field';
+
+-- =============================================================================
+-- SELECTION HELPERS
+-- =============================================================================
+
+-- Rank of a provider for a metric group: user preference first (1..n),
+-- then default priority (100+), then anything else (150)
+CREATE OR REPLACE FUNCTION unified_source_rank(
+  p_email TEXT,
+  p_metric TEXT,
+  p_provider TEXT,
+  p_default_order TEXT[]
+)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(
+    (
+      SELECT array_position(provider_order, p_provider)
+      FROM user_metric_source_preferences
+      WHERE email = p_email AND metric = p_metric
+    ),
+    100 + COALESCE(array_position(p_default_order, p_provider), 50)
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Why the chosen row won
+CREATE OR REPLACE FUNCTION unified_selection_reason(
+  p_rank INTEGER,
+  p_is_outlier BOOLEAN,
+  p_single_provider BOOLEAN,
+  p_best_outlier_rank INTEGER
+)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_is_outlier THEN 'outlier_only'
+    WHEN p_best_outlier_rank IS NOT NULL AND p_best_outlier_rank < p_rank THEN 'outlier_excluded'
+    WHEN p_single_provider THEN 'only_source'
+    WHEN p_rank < 100 THEN 'user_preference'
+    ELSE 'default_priority'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- =============================================================================
+-- DAILY ROLLUP WITH RECONCILIATION
+-- =============================================================================
+-- Default priorities must match DEFAULT_SOURCE_PRIORITY in
+-- lib/services/unified-data/reconciliation.ts
+
+CREATE OR REPLACE FUNCTION update_unified_health_daily(p_email TEXT, p_date DATE)
+RETURNS void AS $$
+DECLARE
+  v_sleep_order TEXT[] := ARRAY['oura', 'whoop', 'garmin', 'apple_health', 'fitbit', 'google_fit'];
+  v_recovery_order TEXT[] := ARRAY['whoop', 'oura', 'garmin'];
+  v_activity_order TEXT[] := ARRAY['garmin', 'apple_health', 'fitbit', 'google_fit', 'oura', 'whoop'];
+  v_glucose_order TEXT[] := ARRAY['dexcom'];
+  v_behavioral_order TEXT[] := ARRAY[]::TEXT[];
+  v_sleep_data RECORD;
+  v_recovery_data RECORD;
+  v_activity_data RECORD;
+  v_workout_data RECORD;
+  v_glucose_data RECORD;
+  v_behavioral_data RECORD;
+  v_sleep_source JSONB;
+  v_recovery_source JSONB;
+  v_activity_source JSONB;
+  v_glucose_source JSONB;
+  v_behavioral_source JSONB;
+  v_provenance JSONB;
+  v_providers TEXT[] := '{}';
+  v_data_points INTEGER := 0;
+  v_total_possible INTEGER := 5;
+BEGIN
+  -- Sleep
+  SELECT INTO v_sleep_data
+    sleep_duration_hours,
+    sleep_score,
+    deep_sleep_minutes,
+    rem_sleep_minutes,
+    sleep_efficiency,
+    provider,
+    unified_source_rank(p_email, 'sleep', provider, v_sleep_order) AS source_rank,
+    COALESCE(is_outlier, false) AS outlier,
+    (MIN(provider) OVER () = MAX(provider) OVER ()) AS single_provider,
+    MIN(unified_source_rank(p_email, 'sleep', provider, v_sleep_order))
+      FILTER (WHERE COALESCE(is_outlier, false)) OVER () AS best_outlier_rank
+  FROM unified_health_data
+  WHERE email = p_email
+    AND date_trunc('day', recorded_at)::date = p_date
+    AND data_type = 'sleep'
+    AND sleep_duration_hours IS NOT NULL
+  ORDER BY COALESCE(is_outlier, false), source_rank, created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    v_providers := array_append(v_providers, v_sleep_data.provider);
+    v_data_points := v_data_points + 1;
+    v_sleep_source := jsonb_build_object(
+      'provider', v_sleep_data.provider,
+      'reason', unified_selection_reason(
+        v_sleep_data.source_rank, v_sleep_data.outlier,
+        v_sleep_data.single_provider, v_sleep_data.best_outlier_rank
+      )
+    );
+  END IF;
+
+  -- Recovery
+  SELECT INTO v_recovery_data
+    recovery_score,
+    readiness_score,
+    hrv_avg,
+    resting_hr,
+    provider,
+    unified_source_rank(p_email, 'recovery', provider, v_recovery_order) AS source_rank,
+    COALESCE(is_outlier, false) AS outlier,
+    (MIN(provider) OVER () = MAX(provider) OVER ()) AS single_provider,
+    MIN(unified_source_rank(p_email, 'recovery', provider, v_recovery_order))
+      FILTER (WHERE COALESCE(is_outlier, false)) OVER () AS best_outlier_rank
+  FROM unified_health_data
+  WHERE email = p_email
+    AND date_trunc('day', recorded_at)::date = p_date
+    AND data_type IN ('recovery', 'sleep')
+    AND (recovery_score IS NOT NULL OR readiness_score IS NOT NULL)
+  ORDER BY COALESCE(is_outlier, false), source_rank, created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    IF NOT (v_recovery_data.provider = ANY(v_providers)) THEN
+      v_providers := array_append(v_providers, v_recovery_data.provider);
+    END IF;
+    v_data_points := v_data_points + 1;
+    v_recovery_source := jsonb_build_object(
+      'provider', v_recovery_data.provider,
+      'reason', unified_selection_reason(
+        v_recovery_data.source_rank, v_recovery_data.outlier,
+        v_recovery_data.single_provider, v_recovery_data.best_outlier_rank
+      )
+    );
+  END IF;
+
+  -- Daily activity totals come from one provider; summing across devices double counts
+  SELECT INTO v_activity_data
+    steps,
+    active_calories,
+    active_minutes,
+    provider,
+    unified_source_rank(p_email, 'activity', provider, v_activity_order) AS source_rank,
+    COALESCE(is_outlier, false) AS outlier,
+    (MIN(provider) OVER () = MAX(provider) OVER ()) AS single_provider,
+    MIN(unified_source_rank(p_email, 'activity', provider, v_activity_order))
+      FILTER (WHERE COALESCE(is_outlier, false)) OVER () AS best_outlier_rank
+  FROM unified_health_data
+  WHERE email = p_email
+    AND date_trunc('day', recorded_at)::date = p_date
+    AND data_type = 'activity'
+    AND (steps IS NOT NULL OR active_calories IS NOT NULL)
+  ORDER BY COALESCE(is_outlier, false), source_rank, created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    v_activity_source := jsonb_build_object(
+      'provider', v_activity_data.provider,
+      'reason', unified_selection_reason(
+        v_activity_data.source_rank, v_activity_data.outlier,
+        v_activity_data.single_provider, v_activity_data.best_outlier_rank
+      )
+    );
+  END IF;
+
+  -- Workouts (all providers)
+  SELECT INTO v_workout_data
+    COUNT(*) AS workout_count,
+    SUM(workout_duration_minutes) AS total_workout_minutes,
+    string_agg(DISTINCT provider, ',') AS providers
+  FROM unified_health_data
+  WHERE email = p_email
+    AND date_trunc('day', recorded_at)::date = p_date
+    AND data_type = 'workout';
+
+  IF v_activity_data.provider IS NOT NULL OR v_workout_data.workout_count > 0 THEN
+    IF v_activity_data.provider IS NOT NULL AND NOT (v_activity_data.provider = ANY(v_providers)) THEN
+      v_providers := array_append(v_providers, v_activity_data.provider);
+    END IF;
+    v_providers := v_providers || string_to_array(COALESCE(v_workout_data.providers, ''), ',');
+    v_data_points := v_data_points + 1;
+  END IF;
+
+  -- Glucose
+  SELECT INTO v_glucose_data
+    glucose_avg,
+    time_in_range_percent,
+    provider,
+    unified_source_rank(p_email, 'glucose', provider, v_glucose_order) AS source_rank,
+    COALESCE(is_outlier, false) AS outlier,
+    (MIN(provider) OVER () = MAX(provider) OVER ()) AS single_provider,
+    MIN(unified_source_rank(p_email, 'glucose', provider, v_glucose_order))
+      FILTER (WHERE COALESCE(is_outlier, false)) OVER () AS best_outlier_rank
+  FROM unified_health_data
+  WHERE email = p_email
+    AND date_trunc('day', recorded_at)::date = p_date
+    AND data_type = 'glucose'
+    AND glucose_avg IS NOT NULL
+  ORDER BY COALESCE(is_outlier, false), source_rank, created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    IF NOT (v_glucose_data.provider = ANY(v_providers)) THEN
+      v_providers := array_append(v_providers, v_glucose_data.provider);
+    END IF;
+    v_data_points := v_data_points + 1;
+    v_glucose_source := jsonb_build_object(
+      'provider', v_glucose_data.provider,
+      'reason', unified_selection_reason(
+        v_glucose_data.source_rank, v_glucose_data.outlier,
+        v_glucose_data.single_provider, v_glucose_data.best_outlier_rank
+      )
+    );
+  END IF;
+
+  -- Behavioral/stress
+  SELECT INTO v_behavioral_data
+    stress_score,
+    meeting_count,
+    meeting_minutes,
+    focus_time_minutes,
+    provider,
+    unified_source_rank(p_email, 'behavioral', provider, v_behavioral_order) AS source_rank,
+    COALESCE(is_outlier, false) AS outlier,
+    (MIN(provider) OVER () = MAX(provider) OVER ()) AS single_provider,
+    MIN(unified_source_rank(p_email, 'behavioral', provider, v_behavioral_order))
+      FILTER (WHERE COALESCE(is_outlier, false)) OVER () AS best_outlier_rank
+  FROM unified_health_data
+  WHERE email = p_email
+    AND date_trunc('day', recorded_at)::date = p_date
+    AND data_type IN ('stress', 'behavioral')
+    AND (stress_score IS NOT NULL OR meeting_count IS NOT NULL)
+  ORDER BY COALESCE(is_outlier, false), source_rank, created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    IF NOT (v_behavioral_data.provider = ANY(v_providers)) THEN
+      v_providers := array_append(v_providers, v_behavioral_data.provider);
+    END IF;
+    v_data_points := v_data_points + 1;
+    v_behavioral_source := jsonb_build_object(
+      'provider', v_behavioral_data.provider,
+      'reason', unified_selection_reason(
+        v_behavioral_data.source_rank, v_behavioral_data.outlier,
+        v_behavioral_data.single_provider, v_behavioral_data.best_outlier_rank
+      )
+    );
+  END IF;
+
+  -- Remove empty strings from providers array
+  v_providers := array_remove(v_providers, '');
+
+  -- Provenance for every populated field (jsonb_strip_nulls drops the rest)
+  v_provenance := jsonb_strip_nulls(jsonb_build_object(
+    'sleep_hours', CASE WHEN v_sleep_data.sleep_duration_hours IS NOT NULL THEN v_sleep_source END,
+    'sleep_score', CASE WHEN v_sleep_data.sleep_score IS NOT NULL THEN v_sleep_source END,
+    'deep_sleep_minutes', CASE WHEN v_sleep_data.deep_sleep_minutes IS NOT NULL THEN v_sleep_source END,
+    'rem_sleep_minutes', CASE WHEN v_sleep_data.rem_sleep_minutes IS NOT NULL THEN v_sleep_source END,
+    'sleep_efficiency', CASE WHEN v_sleep_data.sleep_efficiency IS NOT NULL THEN v_sleep_source END,
+    'recovery_score', CASE WHEN v_recovery_data.recovery_score IS NOT NULL THEN v_recovery_source END,
+    'readiness_score', CASE WHEN v_recovery_data.readiness_score IS NOT NULL THEN v_recovery_source END,
+    'hrv_avg', CASE WHEN v_recovery_data.hrv_avg IS NOT NULL THEN v_recovery_source END,
+    'resting_hr', CASE WHEN v_recovery_data.resting_hr IS NOT NULL THEN v_recovery_source END,
+    'steps', CASE WHEN v_activity_data.steps IS NOT NULL THEN v_activity_source END,
+    'active_calories', CASE WHEN v_activity_data.active_calories IS NOT NULL THEN v_activity_source END,
+    'active_minutes', CASE WHEN v_activity_data.active_minutes IS NOT NULL THEN v_activity_source END,
+    'glucose_avg', CASE WHEN v_glucose_data.glucose_avg IS NOT NULL THEN v_glucose_source END,
+    'time_in_range_percent', CASE WHEN v_glucose_data.time_in_range_percent IS NOT NULL THEN v_glucose_source END,
+    'stress_score', CASE WHEN v_behavioral_data.stress_score IS NOT NULL THEN v_behavioral_source END,
+    'meeting_count', CASE WHEN v_behavioral_data.meeting_count IS NOT NULL THEN v_behavioral_source END,
+    'meeting_minutes', CASE WHEN v_behavioral_data.meeting_minutes IS NOT NULL THEN v_behavioral_source END,
+    'focus_time_minutes', CASE WHEN v_behavioral_data.focus_time_minutes IS NOT NULL THEN v_behavioral_source END
+  ));
+
+  -- Upsert daily rollup
+  INSERT INTO unified_health_daily (
+    email, date,
+    sleep_hours, sleep_score, deep_sleep_minutes, rem_sleep_minutes, sleep_efficiency, sleep_provider,
+    recovery_score, readiness_score, hrv_avg, resting_hr, recovery_provider,
+    steps, active_calories, active_minutes, workout_count, total_workout_minutes, activity_provider,
+    glucose_avg, time_in_range_percent, glucose_provider,
+    stress_score, stress_level, meeting_count, meeting_minutes, focus_time_minutes, behavioral_provider,
+    providers_reporting, data_quality_score, overall_status, field_provenance, updated_at
+  ) VALUES (
+    p_email, p_date,
+    v_sleep_data.sleep_duration_hours, v_sleep_data.sleep_score, v_sleep_data.deep_sleep_minutes,
+    v_sleep_data.rem_sleep_minutes, v_sleep_data.sleep_efficiency, v_sleep_data.provider,
+    v_recovery_data.recovery_score, v_recovery_data.readiness_score, v_recovery_data.hrv_avg,
+    v_recovery_data.resting_hr, v_recovery_data.provider,
+    v_activity_data.steps, v_activity_data.active_calories::INTEGER, v_activity_data.active_minutes::INTEGER,
+    v_workout_data.workout_count::INTEGER, v_workout_data.total_workout_minutes::INTEGER,
+    v_activity_data.provider,
+    v_glucose_data.glucose_avg, v_glucose_data.time_in_range_percent, v_glucose_data.provider,
+    v_behavioral_data.stress_score,
+    CASE
+      WHEN v_behavioral_data.stress_score IS NULL THEN NULL
+      WHEN v_behavioral_data.stress_score <= 25 THEN 'low'
+      WHEN v_behavioral_data.stress_score <= 50 THEN 'moderate'
+      WHEN v_behavioral_data.stress_score <= 75 THEN 'high'
+      ELSE 'very_high'
+    END,
+    v_behavioral_data.meeting_count, v_behavioral_data.meeting_minutes,
+    v_behavioral_data.focus_time_minutes, v_behavioral_data.provider,
+    v_providers,
+    v_data_points::NUMERIC / v_total_possible,
+    calculate_overall_status(
+      v_sleep_data.sleep_score,
+      COALESCE(v_recovery_data.recovery_score, v_recovery_data.readiness_score),
+      v_behavioral_data.stress_score,
+      v_activity_data.steps
+    ),
+    v_provenance,
+    NOW()
+  )
+  ON CONFLICT (email, date) DO UPDATE SET
+    sleep_hours = EXCLUDED.sleep_hours,
+    sleep_score = EXCLUDED.sleep_score,
+    deep_sleep_minutes = EXCLUDED.deep_sleep_minutes,
+    rem_sleep_minutes = EXCLUDED.rem_sleep_minutes,
+    sleep_efficiency = EXCLUDED.sleep_efficiency,
+    sleep_provider = EXCLUDED.sleep_provider,
+    recovery_score = EXCLUDED.recovery_score,
+    readiness_score = EXCLUDED.readiness_score,
+    hrv_avg = EXCLUDED.hrv_avg,
+    resting_hr = EXCLUDED.resting_hr,
+    recovery_provider = EXCLUDED.recovery_provider,
+    steps = EXCLUDED.steps,
+    active_calories = EXCLUDED.active_calories,
+    active_minutes = EXCLUDED.active_minutes,
+    workout_count = EXCLUDED.workout_count,
+    total_workout_minutes = EXCLUDED.total_workout_minutes,
+    activity_provider = EXCLUDED.activity_provider,
+    glucose_avg = EXCLUDED.glucose_avg,
+    time_in_range_percent = EXCLUDED.time_in_range_percent,
+    glucose_provider = EXCLUDED.glucose_provider,
+    stress_score = EXCLUDED.stress_score,
+    stress_level = EXCLUDED.stress_level,
+    meeting_count = EXCLUDED.meeting_count,
+    meeting_minutes = EXCLUDED.meeting_minutes,
+    focus_time_minutes = EXCLUDED.focus_time_minutes,
+    behavioral_provider = EXCLUDED.behavioral_provider,
+    providers_reporting = EXCLUDED.providers_reporting,
+    data_quality_score = EXCLUDED.data_quality_score,
+    overall_status = EXCLUDED.overall_status,
+    field_provenance = EXCLUDED.field_provenance,
+    updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- COMMENTS
+-- =============================================================================
+
+COMMENT ON TABLE user_metric_source_preferences IS 'Per-user provider preference for each daily rollup metric group';
+COMMENT ON FUNCTION unified_source_rank IS 'Provider rank for a metric group: user preference, then default priority';
+COMMENT ON FUNCTION unified_selection_reason IS 'Explains why a provider''s reading was chosen for the daily rollup';
+COMMENT ON FUNCTION update_unified_health_daily IS 'Updates the daily rollup, reconciling overlapping providers per metric group';
@@ -0,0 +1,51 @@
+-- Migration: Blood biomarker history
+-- Every analyzed lab panel (PDF upload or FHIR import) is kept as one row per
+-- biomarker so values can be trended across panels. lab_file_analysis on the
+-- onboarding tables still holds only the latest analysis.
+
+CREATE TABLE IF NOT EXISTS blood_biomarker_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  panel_id UUID NOT NULL,
+  panel_date TIMESTAMPTZ NOT NULL,
+  source TEXT NOT NULL DEFAULT 'upload',
+
+  -- Biomarker as extracted
+  marker_key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  category TEXT,
+  value TEXT NOT NULL,
+  unit TEXT,
+  reference_range TEXT,
+  status TEXT,
+  provenance TEXT,
+
+  -- Value in the marker's canonical unit, for comparing panels across labs
+  canonical_value NUMERIC,
+  canonical_unit TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT blood_biomarker_history_unique UNIQUE(panel_id, marker_key)
+);
+
+ALTER TABLE blood_biomarker_history
+ADD CONSTRAINT chk_blood_history_source CHECK (source IN ('upload', 'fhir'));
+
+CREATE INDEX IF NOT EXISTS idx_blood_history_marker
+  ON blood_biomarker_history(email, marker_key, panel_date DESC);
+
+CREATE INDEX IF NOT EXISTS idx_blood_history_panel
+  ON blood_biomarker_history(email, panel_date DESC);
+
+ALTER TABLE blood_biomarker_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY blood_biomarker_history_select ON blood_biomarker_history
+  FOR SELECT USING (auth.email() = email);
+
+CREATE POLICY blood_biomarker_history_service ON blood_biomarker_history
+  FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE blood_biomarker_history IS 'One row per biomarker per lab panel, for longitudinal tracking';
+COMMENT ON COLUMN blood_biomarker_history.marker_key IS 'Normalized biomarker name, stable across lab naming differences';
+COMMENT ON COLUMN blood_biomarker_history.canonical_value IS 'Numeric value in canonical_unit; NULL for qualitative or unconvertible results';
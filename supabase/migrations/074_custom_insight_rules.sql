@@ -0,0 +1,50 @@
+-- Migration: Custom insight rules
+-- User-defined alert rules over unified_health_daily (see
+-- lib/services/custom-insight-rules.ts for the condition format). Evaluated by
+-- the sync cron; matches are stored in real_time_insights and delivered
+-- through the notification coordinator with the rule's own severity.
+
+CREATE TABLE IF NOT EXISTS custom_insight_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+
+  -- Rule definition
+  condition JSONB NOT NULL,
+  severity TEXT NOT NULL DEFAULT 'medium',
+  message TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  cooldown_hours INTEGER NOT NULL DEFAULT 24,
+
+  -- Evaluation state
+  last_evaluated_at TIMESTAMPTZ,
+  last_triggered_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE custom_insight_rules
+ADD CONSTRAINT chk_custom_rules_severity CHECK (severity IN ('critical', 'high', 'medium', 'low'));
+
+ALTER TABLE custom_insight_rules
+ADD CONSTRAINT chk_custom_rules_cooldown CHECK (cooldown_hours >= 1);
+
+CREATE INDEX IF NOT EXISTS idx_custom_rules_email
+  ON custom_insight_rules(email, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_custom_rules_enabled
+  ON custom_insight_rules(email) WHERE enabled;
+
+ALTER TABLE custom_insight_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY custom_insight_rules_select ON custom_insight_rules
+  FOR SELECT USING (auth.email() = email);
+
+CREATE POLICY custom_insight_rules_service ON custom_insight_rules
+  FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE custom_insight_rules IS 'User-defined insight rules evaluated against the daily health rollup';
+COMMENT ON COLUMN custom_insight_rules.condition IS 'Metric condition or all/any tree over unified_health_daily fields';
+COMMENT ON COLUMN custom_insight_rules.cooldown_hours IS 'Minimum hours between two triggers of the same rule';
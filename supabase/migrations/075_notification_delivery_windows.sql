@@ -0,0 +1,78 @@
+-- Migration: Notification delivery windows
+-- Evaluates quiet hours in the user's own timezone instead of server time,
+-- with separate weekday/weekend schedules and an optional "do not disturb
+-- while sleeping" mode inferred from wearable bedtimes (see
+-- lib/services/delivery-window). Notifications that fall inside a
+-- quiet period are held in deferred_notifications and released by the
+-- deferred-notifications cron once the window opens.
+
+-- =============================================================================
+-- PREFERENCES
+-- =============================================================================
+-- quiet_hours_start / quiet_hours_end (migration 067) remain the weekday
+-- schedule; the weekend columns fall back to them when null.
+
+ALTER TABLE user_notification_preferences
+ADD COLUMN IF NOT EXISTS timezone TEXT,
+ADD COLUMN IF NOT EXISTS weekend_quiet_hours_start INTEGER,
+ADD COLUMN IF NOT EXISTS weekend_quiet_hours_end INTEGER,
+ADD COLUMN IF NOT EXISTS sleep_aware_quiet_hours BOOLEAN DEFAULT FALSE;
+
+ALTER TABLE user_notification_preferences
+ADD CONSTRAINT chk_notification_prefs_quiet_hours CHECK (
+  quiet_hours_start BETWEEN 0 AND 23 AND quiet_hours_end BETWEEN 0 AND 23
+);
+
+ALTER TABLE user_notification_preferences
+ADD CONSTRAINT chk_notification_prefs_weekend_quiet_hours CHECK (
+  (weekend_quiet_hours_start IS NULL OR weekend_quiet_hours_start BETWEEN 0 AND 23) AND
+  (weekend_quiet_hours_end IS NULL OR weekend_quiet_hours_end BETWEEN 0 AND 23)
+);
+
+-- =============================================================================
+-- DEFERRED DELIVERY QUEUE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS deferred_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipient_email TEXT NOT NULL,
+
+  -- 'notification' rows hold a coordinator NotificationRequest,
+  -- 'caregiver_alert' rows hold a share alert CaregiverNotification
+  kind TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  notification_id UUID,  -- notifications_sent row, for coordinator notifications
+
+  reason TEXT NOT NULL,  -- 'quiet_hours' or 'sleeping'
+  deliver_after TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  released_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE deferred_notifications
+ADD CONSTRAINT chk_deferred_notifications_kind CHECK (kind IN ('notification', 'caregiver_alert'));
+
+ALTER TABLE deferred_notifications
+ADD CONSTRAINT chk_deferred_notifications_status CHECK (status IN ('pending', 'released', 'expired'));
+
+CREATE INDEX IF NOT EXISTS idx_deferred_notifications_due
+  ON deferred_notifications(kind, deliver_after) WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_deferred_notifications_recipient
+  ON deferred_notifications(recipient_email, created_at DESC);
+
+ALTER TABLE deferred_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY deferred_notifications_select ON deferred_notifications
+  FOR SELECT USING (auth.email() = recipient_email);
+
+CREATE POLICY deferred_notifications_service ON deferred_notifications
+  FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON COLUMN user_notification_preferences.timezone IS 'IANA timezone for quiet hours; null follows the latest device timezone';
+COMMENT ON COLUMN user_notification_preferences.sleep_aware_quiet_hours IS 'Also hold notifications during the bedtime window inferred from wearables';
+COMMENT ON TABLE deferred_notifications IS 'Notifications held during quiet hours until the recipient''s delivery window opens';
+COMMENT ON COLUMN deferred_notifications.deliver_after IS 'When the recipient''s delivery window next opens';
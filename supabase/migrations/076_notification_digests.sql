@@ -0,0 +1,75 @@
+-- Migration: Notification digests and inbox
+-- Notifications held back by the coordinator's daily, service or category
+-- limits are marked 'batched' instead of being dropped, then folded into one
+-- scheduled summary per user by the notification-digest cron (see
+-- lib/services/notification-digest.ts). notifications_sent doubles as the
+-- in-app inbox, so read state and digest membership live on it.
+
+-- =============================================================================
+-- PREFERENCES
+-- =============================================================================
+
+ALTER TABLE user_notification_preferences
+ADD COLUMN IF NOT EXISTS digest_mode TEXT DEFAULT 'overflow',
+ADD COLUMN IF NOT EXISTS digest_channel TEXT DEFAULT 'push',
+ADD COLUMN IF NOT EXISTS digest_hour INTEGER DEFAULT 19;
+
+ALTER TABLE user_notification_preferences
+ADD CONSTRAINT chk_notification_prefs_digest_mode CHECK (digest_mode IN ('off', 'overflow', 'batch_low'));
+
+ALTER TABLE user_notification_preferences
+ADD CONSTRAINT chk_notification_prefs_digest_channel CHECK (digest_channel IN ('push', 'email'));
+
+ALTER TABLE user_notification_preferences
+ADD CONSTRAINT chk_notification_prefs_digest_hour CHECK (digest_hour BETWEEN 0 AND 23);
+
+-- =============================================================================
+-- DIGESTS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS notification_digests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_email TEXT NOT NULL,
+  channel TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  item_count INTEGER NOT NULL,
+  items JSONB NOT NULL DEFAULT '[]',  -- Ranked notification ids with scores
+  delivery_status TEXT NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  sent_at TIMESTAMPTZ
+);
+
+ALTER TABLE notification_digests
+ADD CONSTRAINT chk_notification_digests_channel CHECK (channel IN ('push', 'email'));
+
+ALTER TABLE notification_digests
+ADD CONSTRAINT chk_notification_digests_status CHECK (delivery_status IN ('pending', 'sent', 'failed'));
+
+CREATE INDEX IF NOT EXISTS idx_notification_digests_user
+  ON notification_digests(user_email, created_at DESC);
+
+ALTER TABLE notification_digests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY notification_digests_select ON notification_digests
+  FOR SELECT USING (auth.email() = user_email);
+
+CREATE POLICY notification_digests_service ON notification_digests
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- =============================================================================
+-- INBOX
+-- =============================================================================
+
+ALTER TABLE notifications_sent
+ADD COLUMN IF NOT EXISTS digest_id UUID REFERENCES notification_digests(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS read_at TIMESTAMPTZ;
+
+-- Users with notifications waiting for their digest
+CREATE INDEX IF NOT EXISTS idx_notifications_batched
+  ON notifications_sent(user_email, created_at) WHERE delivery_status = 'batched';
+
+COMMENT ON COLUMN user_notification_preferences.digest_mode IS 'off: drop limit-suppressed notifications; overflow: digest them; batch_low: also digest all low severity';
+COMMENT ON COLUMN user_notification_preferences.digest_hour IS 'Local hour the notification digest is sent';
+COMMENT ON TABLE notification_digests IS 'Scheduled summaries of notifications held back by rate limits';
+COMMENT ON COLUMN notifications_sent.digest_id IS 'Digest this notification was folded into (delivery_status = digested)';
@@ -0,0 +1,87 @@
+-- Migration: Caregiver SMS and voice alerts
+-- Caregivers register a phone number and confirm it with a texted code before
+-- alerts go to it. Every SMS, call and push sent for an alert is logged in
+-- share_alert_deliveries; provider delivery receipts update those rows and
+-- feed back into share_alerts.status (see lib/services/share/telephony).
+
+-- =============================================================================
+-- PHONE NUMBERS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS caregiver_phone_numbers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  caregiver_email TEXT NOT NULL UNIQUE,
+  phone_number TEXT NOT NULL,            -- E.164, e.g. +15551234567
+  verification_code_hash TEXT,
+  verification_sent_at TIMESTAMPTZ,
+  verification_expires_at TIMESTAMPTZ,
+  verification_attempts INTEGER NOT NULL DEFAULT 0,
+  verified_at TIMESTAMPTZ,
+  sms_enabled BOOLEAN NOT NULL DEFAULT true,
+  voice_enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE caregiver_phone_numbers
+ADD CONSTRAINT chk_caregiver_phone_e164 CHECK (phone_number ~ '^\+[1-9][0-9]{7,14}$');
+
+-- Inbound replies are matched to a caregiver by number
+CREATE INDEX IF NOT EXISTS idx_caregiver_phone_numbers_verified
+  ON caregiver_phone_numbers(phone_number) WHERE verified_at IS NOT NULL;
+
+ALTER TABLE caregiver_phone_numbers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY caregiver_phone_numbers_select ON caregiver_phone_numbers
+  FOR SELECT USING (auth.email() = caregiver_email);
+
+CREATE POLICY caregiver_phone_numbers_service ON caregiver_phone_numbers
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- =============================================================================
+-- DELIVERIES
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS share_alert_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id UUID NOT NULL REFERENCES share_alerts(id) ON DELETE CASCADE,
+  caregiver_email TEXT NOT NULL,
+  channel TEXT NOT NULL,
+  phone_number TEXT,
+  provider_message_id TEXT,              -- Twilio message or call SID
+  status TEXT NOT NULL DEFAULT 'queued',
+  provider_status TEXT,
+  error_code TEXT,
+  escalation BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE share_alert_deliveries
+ADD CONSTRAINT chk_share_alert_deliveries_channel CHECK (channel IN ('push', 'sms', 'voice', 'email'));
+
+ALTER TABLE share_alert_deliveries
+ADD CONSTRAINT chk_share_alert_deliveries_status CHECK (status IN ('queued', 'sent', 'delivered', 'failed'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_share_alert_deliveries_provider_id
+  ON share_alert_deliveries(provider_message_id) WHERE provider_message_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_share_alert_deliveries_alert
+  ON share_alert_deliveries(alert_id);
+
+-- Latest SMS or call to a caregiver, for reply-to-acknowledge
+CREATE INDEX IF NOT EXISTS idx_share_alert_deliveries_caregiver
+  ON share_alert_deliveries(caregiver_email, created_at DESC) WHERE channel IN ('sms', 'voice');
+
+ALTER TABLE share_alert_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY share_alert_deliveries_select ON share_alert_deliveries
+  FOR SELECT USING (auth.email() = caregiver_email);
+
+CREATE POLICY share_alert_deliveries_service ON share_alert_deliveries
+  FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE caregiver_phone_numbers IS 'Caregiver phone numbers for SMS and voice alerts; only verified numbers receive alerts';
+COMMENT ON COLUMN caregiver_phone_numbers.verification_code_hash IS 'SHA-256 of the pending verification code, cleared once verified';
+COMMENT ON TABLE share_alert_deliveries IS 'Per-channel delivery log for share alerts, updated by provider delivery receipts';
+COMMENT ON COLUMN share_alert_deliveries.status IS 'queued/sent/delivered/failed, normalized from provider_status';
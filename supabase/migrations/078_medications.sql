@@ -0,0 +1,104 @@
+-- Migration: Medication management
+-- medications and medication_logs are read by the Share context builder for
+-- caregiver compliance views; this creates them with dosing schedules, supply
+-- tracking and per-dose status. Doses are materialized ahead of time by the
+-- medication-doses cron (see lib/services/medications), so an untaken dose is
+-- a medication_logs row with taken_at NULL.
+
+-- =============================================================================
+-- MEDICATIONS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS medications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_email TEXT NOT NULL,
+  name TEXT NOT NULL,
+  generic_name TEXT,
+  dosage TEXT,                           -- Display strength, e.g. '10 mg'
+  units_per_dose NUMERIC NOT NULL DEFAULT 1,
+  unit_label TEXT DEFAULT 'tablet',
+  frequency TEXT,                        -- Display label, e.g. 'Twice daily'
+  schedule_times TEXT[] NOT NULL DEFAULT '{}',  -- Local 'HH:MM'
+  days_of_week INTEGER[],                -- 0 = Sunday; NULL = every day
+  as_needed BOOLEAN NOT NULL DEFAULT false,
+  is_critical BOOLEAN NOT NULL DEFAULT false,
+  missed_after_minutes INTEGER NOT NULL DEFAULT 60,
+  instructions TEXT,
+  supply_remaining NUMERIC,              -- Units on hand; NULL = not tracked
+  refill_threshold_days INTEGER NOT NULL DEFAULT 7,
+  last_refilled_at TIMESTAMPTZ,
+  refill_reminded_at TIMESTAMPTZ,
+  start_date DATE,
+  end_date DATE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE medications
+ADD CONSTRAINT chk_medications_units_per_dose CHECK (units_per_dose > 0);
+
+ALTER TABLE medications
+ADD CONSTRAINT chk_medications_missed_after CHECK (missed_after_minutes BETWEEN 15 AND 720);
+
+ALTER TABLE medications
+ADD CONSTRAINT chk_medications_supply CHECK (supply_remaining IS NULL OR supply_remaining >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_medications_user
+  ON medications(user_email) WHERE is_active = true;
+
+ALTER TABLE medications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY medications_select ON medications
+  FOR SELECT USING (auth.email() = user_email);
+
+CREATE POLICY medications_service ON medications
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- =============================================================================
+-- DOSES
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS medication_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  medication_id UUID NOT NULL REFERENCES medications(id) ON DELETE CASCADE,
+  user_email TEXT NOT NULL,
+  scheduled_time TIMESTAMPTZ NOT NULL,
+  taken_at TIMESTAMPTZ,
+  status TEXT NOT NULL DEFAULT 'scheduled',
+  source TEXT,
+  notes TEXT,
+  reminded_at TIMESTAMPTZ,
+  alerted_at TIMESTAMPTZ,                -- Caregiver alert for a missed critical dose
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE medication_logs
+ADD CONSTRAINT chk_medication_logs_status CHECK (status IN ('scheduled', 'taken', 'skipped', 'missed'));
+
+ALTER TABLE medication_logs
+ADD CONSTRAINT chk_medication_logs_source CHECK (source IS NULL OR source IN ('push', 'agent', 'app'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_medication_logs_dose
+  ON medication_logs(medication_id, scheduled_time);
+
+CREATE INDEX IF NOT EXISTS idx_medication_logs_user
+  ON medication_logs(user_email, scheduled_time DESC);
+
+-- Doses the cron still has to remind about or mark missed
+CREATE INDEX IF NOT EXISTS idx_medication_logs_open
+  ON medication_logs(scheduled_time) WHERE status = 'scheduled';
+
+ALTER TABLE medication_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY medication_logs_select ON medication_logs
+  FOR SELECT USING (auth.email() = user_email);
+
+CREATE POLICY medication_logs_service ON medication_logs
+  FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON COLUMN medications.is_critical IS 'Missed doses alert the user''s caregivers through share alerts';
+COMMENT ON COLUMN medications.missed_after_minutes IS 'Minutes after the scheduled time before an untaken dose counts as missed';
+COMMENT ON COLUMN medications.supply_remaining IS 'Units on hand, decremented by units_per_dose for each dose taken';
+COMMENT ON TABLE medication_logs IS 'One row per scheduled or ad-hoc dose: scheduled, taken, skipped or missed';
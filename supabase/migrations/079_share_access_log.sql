@@ -0,0 +1,60 @@
+-- Migration: Share access audit log
+-- Append-only record of who viewed or received a sharer's health data:
+-- caregiver dashboard views, alert contexts routed to caregivers and the
+-- clinical team, clinical report deliveries and caregiver agent tool calls.
+-- Sharers review and export it from /api/share/access-log (see
+-- lib/services/share/access-audit-service.ts).
+
+CREATE TABLE IF NOT EXISTS share_access_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sharer_email TEXT NOT NULL,
+  accessor_email TEXT NOT NULL,
+  accessor_type TEXT NOT NULL,
+  access_type TEXT NOT NULL,
+  channel TEXT NOT NULL,
+  resource_type TEXT,
+  resource_id TEXT,
+  data_categories TEXT[] NOT NULL DEFAULT '{}',
+  relationship_id UUID,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE share_access_log
+ADD CONSTRAINT chk_share_access_log_accessor_type CHECK (accessor_type IN ('caregiver', 'clinician'));
+
+ALTER TABLE share_access_log
+ADD CONSTRAINT chk_share_access_log_access_type CHECK (access_type IN (
+  'dashboard_overview', 'dashboard_detail', 'alert_context', 'clinical_alert', 'clinical_summary', 'agent_tool'
+));
+
+CREATE INDEX IF NOT EXISTS idx_share_access_log_sharer
+  ON share_access_log(sharer_email, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_share_access_log_accessor
+  ON share_access_log(sharer_email, accessor_email, created_at DESC);
+
+-- Entries are never changed or removed, including by the service role
+CREATE OR REPLACE FUNCTION prevent_share_access_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'share_access_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS share_access_log_append_only ON share_access_log;
+CREATE TRIGGER share_access_log_append_only
+  BEFORE UPDATE OR DELETE ON share_access_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_share_access_log_changes();
+
+ALTER TABLE share_access_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY share_access_log_select ON share_access_log
+  FOR SELECT USING (auth.email() = sharer_email);
+
+CREATE POLICY share_access_log_service ON share_access_log
+  FOR INSERT WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE share_access_log IS 'Append-only log of caregiver and clinician access to a sharer''s health data';
+COMMENT ON COLUMN share_access_log.channel IS 'How the data was seen or sent: app, agent, push, sms, voice, email, fax, portal or phone';
+COMMENT ON COLUMN share_access_log.data_categories IS 'Kinds of data disclosed, e.g. alerts, health_snapshot, baselines, medications';
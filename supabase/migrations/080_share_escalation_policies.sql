@@ -0,0 +1,47 @@
+-- Migration: Per-sharer escalation policies for share alerts
+-- A sharer's policy is an ordered chain of steps naming caregivers by
+-- relationship, with per-severity timers, optional on-call windows and an
+-- emergency-contact final step. Sharers without a policy keep the default
+-- rules in lib/services/share/escalation-policy.ts.
+--
+-- share_alerts.escalated_at was already written by the escalation job but
+-- never created; escalation_step tracks how far along the chain an alert is.
+
+CREATE TABLE IF NOT EXISTS share_escalation_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sharer_email TEXT NOT NULL UNIQUE,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  timezone TEXT,                         -- On-call windows; NULL = sharer's timezone
+  timers JSONB NOT NULL DEFAULT '{}',    -- { "critical": 5, "high": 30 } minutes between steps
+  steps JSONB NOT NULL DEFAULT '[]',     -- [{ name, targets: [{ relationship_id, on_call }], channels, delay_minutes }]
+  emergency_step BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE share_escalation_policies
+ADD CONSTRAINT chk_share_escalation_policies_steps CHECK (jsonb_typeof(steps) = 'array');
+
+ALTER TABLE share_escalation_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY share_escalation_policies_select ON share_escalation_policies
+  FOR SELECT USING (auth.email() = sharer_email);
+
+CREATE POLICY share_escalation_policies_service ON share_escalation_policies
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- =============================================================================
+-- ALERT ESCALATION STATE
+-- =============================================================================
+
+ALTER TABLE share_alerts ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMPTZ;
+ALTER TABLE share_alerts ADD COLUMN IF NOT EXISTS escalation_step INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE share_alerts ADD COLUMN IF NOT EXISTS escalation_policy_id UUID
+  REFERENCES share_escalation_policies(id) ON DELETE SET NULL;
+
+-- Open alerts the escalation job walks along their policy chain
+CREATE INDEX IF NOT EXISTS idx_share_alerts_policy_escalation
+  ON share_alerts(created_at) WHERE escalation_policy_id IS NOT NULL AND status IN ('sent', 'escalated');
+
+COMMENT ON TABLE share_escalation_policies IS 'Per-sharer escalation chains for share alerts; sharers without one use the default rules';
+COMMENT ON COLUMN share_alerts.escalation_step IS 'Index of the last escalation policy step notified (0 = initial routing)';
@@ -0,0 +1,68 @@
+-- Migration: Provider directory and directory-backed appointments
+-- health_providers holds providers imported from the NPI registry, searched
+-- by the registry backend in lib/services/provider-directory. Providers the
+-- FHIR scheduling server knows (matched by NPI) can be booked online.
+--
+-- user_appointments gains the booking's id in the directory backend, the
+-- synced calendar event and which reminders have gone out.
+
+CREATE TABLE IF NOT EXISTS health_providers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  npi TEXT UNIQUE,
+  name TEXT NOT NULL,
+  credential TEXT,
+  specialty TEXT NOT NULL,
+  taxonomy_code TEXT,
+  address TEXT,
+  city TEXT,
+  state TEXT,
+  postal_code TEXT,
+  phone TEXT,
+  accepts_insurance TEXT[],              -- NULL = unknown
+  appointment_types TEXT[],              -- NULL = unknown
+  rating NUMERIC(2, 1),
+  fhir_practitioner_id TEXT,             -- Practitioner on the scheduling server
+  scheduling_checked_at TIMESTAMPTZ,     -- Last lookup on the scheduling server
+  source TEXT NOT NULL DEFAULT 'npi',
+  imported_at TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE health_providers
+ADD CONSTRAINT chk_health_providers_rating CHECK (rating IS NULL OR rating BETWEEN 0 AND 5);
+
+CREATE INDEX IF NOT EXISTS idx_health_providers_specialty ON health_providers(specialty);
+CREATE INDEX IF NOT EXISTS idx_health_providers_location ON health_providers(state, city);
+CREATE INDEX IF NOT EXISTS idx_health_providers_postal_code ON health_providers(postal_code);
+
+ALTER TABLE health_providers ENABLE ROW LEVEL SECURITY;
+
+-- The directory is public information
+CREATE POLICY health_providers_select ON health_providers
+  FOR SELECT USING (true);
+
+CREATE POLICY health_providers_service ON health_providers
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- =============================================================================
+-- APPOINTMENTS
+-- =============================================================================
+
+ALTER TABLE user_appointments ADD COLUMN IF NOT EXISTS ends_at TIMESTAMPTZ;
+ALTER TABLE user_appointments ADD COLUMN IF NOT EXISTS location TEXT;
+ALTER TABLE user_appointments ADD COLUMN IF NOT EXISTS directory_backend TEXT;
+ALTER TABLE user_appointments ADD COLUMN IF NOT EXISTS external_id TEXT;
+ALTER TABLE user_appointments ADD COLUMN IF NOT EXISTS slot_id TEXT;
+ALTER TABLE user_appointments ADD COLUMN IF NOT EXISTS calendar_event_id TEXT;
+ALTER TABLE user_appointments ADD COLUMN IF NOT EXISTS reminders_sent TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE user_appointments
+ADD CONSTRAINT chk_user_appointments_directory_backend CHECK (directory_backend IS NULL OR directory_backend IN ('registry', 'fixture'));
+
+-- Upcoming appointments the reminder job looks at
+CREATE INDEX IF NOT EXISTS idx_user_appointments_upcoming
+  ON user_appointments(scheduled_at) WHERE status IN ('confirmed', 'pending');
+
+COMMENT ON TABLE health_providers IS 'Healthcare provider directory imported from the NPI registry';
+COMMENT ON COLUMN user_appointments.external_id IS 'Appointment id in the directory backend (FHIR Appointment id for the registry)';
+COMMENT ON COLUMN user_appointments.reminders_sent IS 'Reminder stages already sent: day_before, two_hours';
@@ -0,0 +1,72 @@
+-- Migration: Supplement replenishment subscriptions
+-- Recurring shipments of catalog supplements, one product per subscription.
+-- The supplement-replenishment cron (see lib/services/replenishment) charges
+-- the user's saved card off-session for everything due on a day and places
+-- one order for it, so orders gain an order_source to tell these apart from
+-- checkout orders.
+
+-- =============================================================================
+-- SUBSCRIPTIONS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS replenishment_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_email TEXT NOT NULL,
+  product_id UUID NOT NULL REFERENCES supplement_products(id),
+  quantity INTEGER NOT NULL DEFAULT 1,   -- Containers per shipment
+  dosage TEXT,                           -- e.g. '2 capsules twice daily'
+  cadence_days INTEGER NOT NULL,
+  custom_cadence BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'active',
+  next_ship_date DATE NOT NULL,
+  paused_until DATE,                     -- NULL while paused = until resumed
+  address_id UUID REFERENCES user_addresses(id) ON DELETE SET NULL,
+  stripe_payment_method_id TEXT,         -- NULL = customer's default card
+  reminded_for DATE,                     -- Ship date the reminder was sent for
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  last_failure TEXT,
+  last_order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  payment_intent_id TEXT,                -- Charge for the shipment due
+  swapped_from_product_id UUID REFERENCES supplement_products(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE replenishment_subscriptions
+ADD CONSTRAINT chk_replenishment_status CHECK (status IN ('active', 'paused', 'cancelled'));
+
+ALTER TABLE replenishment_subscriptions
+ADD CONSTRAINT chk_replenishment_quantity CHECK (quantity BETWEEN 1 AND 12);
+
+ALTER TABLE replenishment_subscriptions
+ADD CONSTRAINT chk_replenishment_cadence CHECK (cadence_days BETWEEN 7 AND 365);
+
+CREATE INDEX IF NOT EXISTS idx_replenishment_user
+  ON replenishment_subscriptions(user_email, next_ship_date);
+
+-- Subscriptions the cron has to remind about, ship or resume
+CREATE INDEX IF NOT EXISTS idx_replenishment_due
+  ON replenishment_subscriptions(next_ship_date) WHERE status IN ('active', 'paused');
+
+ALTER TABLE replenishment_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY replenishment_subscriptions_select ON replenishment_subscriptions
+  FOR SELECT USING (auth.email() = user_email);
+
+CREATE POLICY replenishment_subscriptions_service ON replenishment_subscriptions
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- =============================================================================
+-- ORDERS
+-- =============================================================================
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS order_source TEXT NOT NULL DEFAULT 'checkout';
+
+ALTER TABLE orders
+ADD CONSTRAINT chk_orders_source CHECK (order_source IN ('checkout', 'replenishment'));
+
+COMMENT ON COLUMN replenishment_subscriptions.cadence_days IS 'Days between shipments; computed from container size and dosage unless custom_cadence';
+COMMENT ON COLUMN replenishment_subscriptions.swapped_from_product_id IS 'Set when the cron swapped in a substitute for an out-of-stock product';
+COMMENT ON COLUMN replenishment_subscriptions.payment_intent_id IS 'Stripe payment intent for the due shipment, saved before it is confirmed so a rerun reuses it';
+COMMENT ON COLUMN orders.order_source IS 'checkout for cart orders, replenishment for subscription shipments';
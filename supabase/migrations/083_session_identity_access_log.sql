@@ -0,0 +1,22 @@
+-- Migration: Access log entries for session-derived API identity
+-- API routes now take the user from the Supabase session or a mobile bearer
+-- token (see lib/middleware/auth-context.ts). A caregiver acting for a sharer
+-- through those routes, or an admin impersonating a user, is recorded in the
+-- sharer's access log like any other access to their data.
+
+ALTER TABLE share_access_log
+DROP CONSTRAINT IF EXISTS chk_share_access_log_accessor_type;
+
+ALTER TABLE share_access_log
+ADD CONSTRAINT chk_share_access_log_accessor_type CHECK (accessor_type IN ('caregiver', 'clinician', 'admin'));
+
+ALTER TABLE share_access_log
+DROP CONSTRAINT IF EXISTS chk_share_access_log_access_type;
+
+ALTER TABLE share_access_log
+ADD CONSTRAINT chk_share_access_log_access_type CHECK (access_type IN (
+  'dashboard_overview', 'dashboard_detail', 'alert_context', 'clinical_alert', 'clinical_summary', 'agent_tool',
+  'delegated_api', 'admin_impersonation'
+));
+
+COMMENT ON TABLE share_access_log IS 'Append-only log of caregiver, clinician and admin access to a sharer''s health data';
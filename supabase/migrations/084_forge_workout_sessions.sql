@@ -0,0 +1,53 @@
+-- Migration: Forge workout sessions
+-- What the athlete actually did on a training day, logged against the Forge
+-- plan that prescribed it. Each exercise keeps its performed sets (reps,
+-- load, RPE/RIR) so adherence, estimated 1RM and volume history can be
+-- computed against the plan (see lib/forge/session-metrics.ts).
+
+CREATE TABLE IF NOT EXISTS forge_workout_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_email TEXT NOT NULL,
+  plan_id UUID REFERENCES forge_workout_plans(id) ON DELETE SET NULL,
+  week_number INTEGER,                   -- Plan week the session was logged for
+  day_of_week TEXT,                      -- Plan day, e.g. 'monday'
+  focus TEXT,
+  status TEXT NOT NULL DEFAULT 'in_progress',
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  duration_minutes INTEGER,
+  session_rpe NUMERIC(3,1),              -- Whole-session effort, 1-10
+  notes TEXT,
+  -- [{ exerciseId, exerciseName, skipped, skipReason, notes,
+  --    sets: [{ reps, loadKg, rpe, rir, completed }] }]
+  exercises JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE forge_workout_sessions
+ADD CONSTRAINT chk_forge_session_status CHECK (status IN ('in_progress', 'completed', 'abandoned'));
+
+ALTER TABLE forge_workout_sessions
+ADD CONSTRAINT chk_forge_session_day CHECK (day_of_week IS NULL OR day_of_week IN (
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'
+));
+
+ALTER TABLE forge_workout_sessions
+ADD CONSTRAINT chk_forge_session_rpe CHECK (session_rpe IS NULL OR session_rpe BETWEEN 1 AND 10);
+
+CREATE INDEX IF NOT EXISTS idx_forge_sessions_user
+  ON forge_workout_sessions(user_email, started_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_forge_sessions_plan
+  ON forge_workout_sessions(plan_id, started_at) WHERE plan_id IS NOT NULL;
+
+ALTER TABLE forge_workout_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY forge_workout_sessions_select ON forge_workout_sessions
+  FOR SELECT USING (auth.email() = user_email);
+
+CREATE POLICY forge_workout_sessions_service ON forge_workout_sessions
+  FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE forge_workout_sessions IS 'Logged Forge workouts: performed sets, skipped exercises and duration against the prescribed plan day';
+COMMENT ON COLUMN forge_workout_sessions.exercises IS 'Performed exercises and sets; loadKg is null for bodyweight sets';